@@ -29,6 +29,9 @@ import CardManagement from "@/pages/card-management";
 import DirectDeposits from "@/pages/direct-deposits";
 import PaymentHub from "@/pages/payment-hub";
 import EmployeeCards from "@/pages/employee-cards";
+import WorkflowDesigner from "@/pages/workflow-designer";
+import WorkflowSla from "@/pages/workflow-sla";
+import ApprovalAction from "@/pages/approval-action";
 
 function Router() {
   const { isAuthenticated, isLoading, user } = useAuth();
@@ -46,6 +49,9 @@ function Router() {
 
   return (
     <Switch>
+      {/* Signed approval links work without signing in */}
+      <Route path="/approvals/act/:token" component={ApprovalAction} />
+
       {/* Public/Citizen Routes */}
       {isCitizen ? (
         <>
@@ -97,6 +103,8 @@ function Router() {
           <Route path="/expenses" component={Expenses} />
           <Route path="/vendors" component={Vendors} />
           <Route path="/reports" component={Reports} />
+          <Route path="/workflows/designer" component={WorkflowDesigner} />
+          <Route path="/workflows/sla" component={WorkflowSla} />
           <Route path="/employee" component={EmployeeDashboard} />
           <Route path="/citizen" component={CitizenPortal} />
           <Route path="/vendor-portal" component={VendorPortal} />
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from "@/lib/queryClient";
+import { Clock, ListChecks, RotateCcw, XCircle } from 'lucide-react';
+import type { Job, JobSchedule } from '@shared/job-schema';
+
+const statusVariants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  completed: 'default',
+  running: 'secondary',
+  queued: 'outline',
+  cancelled: 'outline',
+  dead: 'destructive',
+};
+
+interface JobsResponse {
+  jobs: Job[];
+  schedules: JobSchedule[];
+}
+
+function formatTime(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toLocaleString() : '-';
+}
+
+export default function AdminJobs() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<string>('all');
+
+  const queryKey = status === 'all' ? '/api/admin/jobs' : `/api/admin/jobs?status=${status}`;
+  const { data, isLoading } = useQuery<JobsResponse>({
+    queryKey: [queryKey],
+    refetchInterval: 5000,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'retry' | 'cancel' }) => {
+      return apiRequest('POST', `/api/admin/jobs/${id}/${action}`);
+    },
+    onSuccess: async (response, { action }) => {
+      const job: Job = await response.json();
+      toast({
+        title: action === 'retry' ? "Job Requeued" : "Job Cancelled",
+        description: `${job.type} is now ${job.status}`,
+      });
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Action Failed",
+        description: error.message || "Failed to update job",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const jobs = data?.jobs ?? [];
+  const schedules = data?.schedules ?? [];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <ListChecks className="mr-2 h-5 w-5" />
+              Background Jobs
+            </CardTitle>
+            <CardDescription>
+              Bulk payments, exports and maintenance runs. Failed jobs retry with backoff; dead jobs have used every attempt and can be requeued.
+            </CardDescription>
+          </div>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-40" data-testid="select-job-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All jobs</SelectItem>
+              <SelectItem value="queued">Queued</SelectItem>
+              <SelectItem value="running">Running</SelectItem>
+              <SelectItem value="completed">Completed</SelectItem>
+              <SelectItem value="dead">Dead</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full" />
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Progress</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Detail</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        No jobs have run yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    jobs.map((job) => (
+                      <TableRow key={job.id} data-testid={`row-job-${job.id}`}>
+                        <TableCell className="whitespace-nowrap">{formatTime(job.createdAt)}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{job.type}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {job.scheduleName ? `Scheduled: ${job.scheduleName}` : job.id}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[job.status ?? 'queued']}>{job.status}</Badge>
+                          {job.status === 'queued' && job.attempts ? (
+                            <div className="text-xs text-muted-foreground mt-1">Retry at {formatTime(job.runAt)}</div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="w-40">
+                          <Progress value={job.progress ?? 0} className="h-2" />
+                          {job.progressMessage && (
+                            <div className="text-xs text-muted-foreground mt-1">{job.progressMessage}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{job.attempts} / {job.maxAttempts}</TableCell>
+                        <TableCell className="max-w-xs truncate text-sm text-muted-foreground">
+                          {job.lastError}
+                        </TableCell>
+                        <TableCell>
+                          {(job.status === 'dead' || job.status === 'cancelled') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => actionMutation.mutate({ id: job.id, action: 'retry' })}
+                              disabled={actionMutation.isPending}
+                              data-testid={`button-retry-job-${job.id}`}
+                            >
+                              <RotateCcw className="mr-1 h-3 w-3" />
+                              Retry
+                            </Button>
+                          )}
+                          {job.status === 'queued' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => actionMutation.mutate({ id: job.id, action: 'cancel' })}
+                              disabled={actionMutation.isPending}
+                              data-testid={`button-cancel-job-${job.id}`}
+                            >
+                              <XCircle className="mr-1 h-3 w-3" />
+                              Cancel
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Clock className="mr-2 h-5 w-5" />
+            Recurring Schedules
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Every</TableHead>
+                  <TableHead>Last run</TableHead>
+                  <TableHead>Next run</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedules.map((schedule) => (
+                  <TableRow key={schedule.id} data-testid={`row-schedule-${schedule.name}`}>
+                    <TableCell className="font-medium">
+                      {schedule.name}
+                      {!schedule.isActive && <Badge variant="outline" className="ml-2">Paused</Badge>}
+                    </TableCell>
+                    <TableCell>{schedule.type}</TableCell>
+                    <TableCell>{Math.round(schedule.intervalSeconds / 60)} min</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatTime(schedule.lastRunAt)}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatTime(schedule.nextRunAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
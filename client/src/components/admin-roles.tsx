@@ -0,0 +1,348 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from "@/lib/queryClient";
+import { KeyRound, Pencil, Plus, Trash2, UserCog } from 'lucide-react';
+
+interface RoleDefinition {
+  id?: string;
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  system: boolean;
+}
+
+interface RoleUser {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: string;
+  department: string | null;
+}
+
+interface PermissionCatalog {
+  resources: Record<string, string[]>;
+  scopes: string[];
+}
+
+const emptyForm = {
+  id: '',
+  key: '',
+  name: '',
+  description: '',
+  scope: 'organization',
+  grants: [] as string[], // resource:action pairs
+};
+
+function displayName(user: RoleUser): string {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name || user.email || user.id;
+}
+
+export default function AdminRoles() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [departments, setDepartments] = useState<Record<string, string>>({});
+
+  const { data: roles = [], isLoading } = useQuery<RoleDefinition[]>({ queryKey: ['/api/roles'] });
+  const { data: users = [] } = useQuery<RoleUser[]>({ queryKey: ['/api/roles/users'] });
+  const { data: catalog } = useQuery<PermissionCatalog>({ queryKey: ['/api/permissions'] });
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message || "Request failed", variant: "destructive" });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ userId, role, department }: { userId: string; role: string; department?: string | null }) => {
+      return apiRequest('PUT', `/api/roles/users/${userId}`, { role, department });
+    },
+    onSuccess: () => {
+      toast({ title: "Role Updated", description: "The change applies to the user's next request" });
+      queryClient.invalidateQueries({ queryKey: ['/api/roles/users'] });
+    },
+    onError: onError("Assignment Failed"),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        description: form.description || null,
+        permissions: form.grants.map((grant) => `${grant}:${form.scope}`),
+      };
+      return form.id
+        ? apiRequest('PATCH', `/api/roles/${form.id}`, body)
+        : apiRequest('POST', '/api/roles', { ...body, key: form.key });
+    },
+    onSuccess: () => {
+      toast({ title: "Role Saved", description: `${form.name} updated` });
+      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+    },
+    onError: onError("Save Failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/roles/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+    },
+    onError: onError("Delete Failed"),
+  });
+
+  const openEditor = (role?: RoleDefinition) => {
+    setForm(role ? {
+      id: role.id ?? '',
+      key: role.key,
+      name: role.name,
+      description: role.description ?? '',
+      scope: role.permissions[0]?.split(':')[2] ?? 'organization',
+      grants: role.permissions.map((permission) => permission.split(':').slice(0, 2).join(':')),
+    } : emptyForm);
+    setDialogOpen(true);
+  };
+
+  const toggleGrant = (grant: string, checked: boolean) => {
+    setForm({ ...form, grants: checked ? [...form.grants, grant] : form.grants.filter((value) => value !== grant) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <UserCog className="mr-2 h-5 w-5" />
+            User Roles
+          </CardTitle>
+          <CardDescription>
+            A role decides what each person can see and do. Department-scoped permissions cover records created by anyone in the same department.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Department</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                      No users in this organization
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  users.map((user) => (
+                    <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{displayName(user)}</div>
+                        <div className="text-xs text-muted-foreground">{user.email}</div>
+                      </TableCell>
+                      <TableCell className="w-56">
+                        <Select
+                          value={user.role}
+                          onValueChange={(role) => assignMutation.mutate({ userId: user.id, role })}
+                        >
+                          <SelectTrigger data-testid={`select-role-${user.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {roles.map((role) => (
+                              <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                            ))}
+                            {!roles.some((role) => role.key === user.role) && (
+                              <SelectItem value={user.role}>{user.role} (staff access)</SelectItem>
+                            )}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="w-64">
+                        <Input
+                          value={departments[user.id] ?? user.department ?? ''}
+                          placeholder="No department"
+                          onChange={(e) => setDepartments({ ...departments, [user.id]: e.target.value })}
+                          onBlur={() => {
+                            const department = departments[user.id];
+                            if (department === undefined || department === (user.department ?? '')) return;
+                            assignMutation.mutate({ userId: user.id, role: user.role, department: department || null });
+                          }}
+                          data-testid={`input-department-${user.id}`}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <KeyRound className="mr-2 h-5 w-5" />
+              Roles
+            </CardTitle>
+            <CardDescription>
+              System roles are built in. Custom roles combine any permissions at one scope.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openEditor()} data-testid="button-add-role">
+            <Plus className="mr-1 h-4 w-4" />
+            Add Role
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full" />
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Permissions</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roles.map((role) => (
+                    <TableRow key={role.key} data-testid={`row-role-${role.key}`}>
+                      <TableCell className="w-64">
+                        <div className="font-medium">
+                          {role.name} {role.system && <Badge variant="secondary">System</Badge>}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{role.description ?? role.key}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {role.permissions.map((permission) => (
+                            <Badge key={permission} variant="outline" className="font-mono text-xs">{permission}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {!role.system && role.id && (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={() => openEditor(role)} data-testid={`button-edit-role-${role.key}`}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteMutation.mutate(role.id!)}
+                              disabled={deleteMutation.isPending}
+                              data-testid={`button-delete-role-${role.key}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{form.id ? 'Edit Role' : 'New Role'}</DialogTitle>
+            <DialogDescription>Users with this role get exactly the permissions ticked below.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="roleKey">Key</Label>
+                <Input
+                  id="roleKey"
+                  placeholder="accounts_payable"
+                  value={form.key}
+                  disabled={!!form.id}
+                  onChange={(e) => setForm({ ...form, key: e.target.value.toLowerCase() })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="roleName">Name</Label>
+                <Input id="roleName" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="roleDescription">Description</Label>
+              <Input id="roleDescription" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Scope</Label>
+              <Select value={form.scope} onValueChange={(scope) => setForm({ ...form, scope })}>
+                <SelectTrigger data-testid="select-role-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(catalog?.scopes ?? []).map((scope) => (
+                    <SelectItem key={scope} value={scope}>{scope}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3 max-h-72 overflow-y-auto">
+              {Object.entries(catalog?.resources ?? {}).map(([resource, actions]) => (
+                <div key={resource} className="space-y-1">
+                  <div className="text-sm font-medium">{resource.replace(/_/g, ' ')}</div>
+                  <div className="flex flex-wrap gap-3">
+                    {actions.map((action) => {
+                      const grant = `${resource}:${action}`;
+                      return (
+                        <label key={grant} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={form.grants.includes(grant)}
+                            onCheckedChange={(checked) => toggleGrant(grant, checked === true)}
+                          />
+                          {action}
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.key || !form.name || form.grants.length === 0 || saveMutation.isPending}
+              data-testid="button-save-role"
+            >
+              Save Role
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from "@/lib/queryClient";
+import { Route, Plus, Pencil, Trash2 } from 'lucide-react';
+import { paymentRails, type ProviderRoutingRule } from '@shared/routing-schema';
+
+interface RoutingRulesResponse {
+  rules: ProviderRoutingRule[];
+  providers: string[];
+}
+
+interface RoutingDecision {
+  provider: string | null;
+  reason: string;
+  ranked: Array<{ provider: string; score: number; estimatedFee: string | null; settlementDays: number | null; successRate: number }>;
+  excluded: Array<{ provider: string; reason: string }>;
+}
+
+const emptyForm = {
+  provider: '',
+  rails: [] as string[],
+  currencies: '',
+  fixedFee: '0',
+  percentFee: '0',
+  settlementDays: '2',
+  minAmount: '',
+  maxAmount: '',
+  priority: '0',
+  isActive: true,
+};
+
+export default function AdminRoutingRules() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [preview, setPreview] = useState({ amount: '1000', currency: 'USD', rail: 'card' });
+  const [decision, setDecision] = useState<RoutingDecision | null>(null);
+
+  const { data, isLoading } = useQuery<RoutingRulesResponse>({
+    queryKey: ['/api/admin/routing/rules'],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', '/api/admin/routing/rules', {
+        provider: form.provider,
+        rails: form.rails,
+        currencies: form.currencies.split(',').map((code) => code.trim()).filter(Boolean),
+        fixedFee: form.fixedFee || '0',
+        percentFee: form.percentFee || '0',
+        settlementDays: Number(form.settlementDays || 0),
+        minAmount: form.minAmount || null,
+        maxAmount: form.maxAmount || null,
+        priority: Number(form.priority || 0),
+        isActive: form.isActive,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Routing Rule Saved", description: `${form.provider} fee schedule updated` });
+      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/routing/rules'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save routing rule",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/admin/routing/rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/routing/rules'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete routing rule",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', '/api/admin/routing/preview', preview);
+    },
+    onSuccess: async (response) => {
+      setDecision(await response.json());
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Preview Failed",
+        description: error.message || "Failed to preview routing",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const openEditor = (rule?: ProviderRoutingRule) => {
+    setForm(rule ? {
+      provider: rule.provider,
+      rails: rule.rails ?? [],
+      currencies: (rule.currencies ?? []).join(', '),
+      fixedFee: rule.fixedFee ?? '0',
+      percentFee: rule.percentFee ?? '0',
+      settlementDays: String(rule.settlementDays ?? 0),
+      minAmount: rule.minAmount ?? '',
+      maxAmount: rule.maxAmount ?? '',
+      priority: String(rule.priority ?? 0),
+      isActive: rule.isActive ?? true,
+    } : emptyForm);
+    setDialogOpen(true);
+  };
+
+  const toggleRail = (rail: string, checked: boolean) => {
+    setForm({ ...form, rails: checked ? [...form.rails, rail] : form.rails.filter((value) => value !== rail) });
+  };
+
+  const rules = data?.rules ?? [];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <Route className="mr-2 h-5 w-5" />
+              Payment Routing Rules
+            </CardTitle>
+            <CardDescription>
+              Fee schedules and capabilities used to pick a provider when a payment is sent with automatic routing.
+              Providers without a rule are still considered, with neutral cost and speed scores.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openEditor()} data-testid="button-add-routing-rule">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Rule
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full" />
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Provider</TableHead>
+                    <TableHead>Rails</TableHead>
+                    <TableHead>Currencies</TableHead>
+                    <TableHead>Fee</TableHead>
+                    <TableHead>Settlement</TableHead>
+                    <TableHead>Limits</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground">
+                        No routing rules configured
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    rules.map((rule) => (
+                      <TableRow key={rule.id} data-testid={`row-routing-rule-${rule.provider}`}>
+                        <TableCell className="font-medium capitalize">{rule.provider}</TableCell>
+                        <TableCell>{rule.rails?.length ? rule.rails.join(', ') : 'All'}</TableCell>
+                        <TableCell>{rule.currencies?.length ? rule.currencies.join(', ') : 'Any'}</TableCell>
+                        <TableCell>${rule.fixedFee} + {Number(rule.percentFee)}%</TableCell>
+                        <TableCell>{rule.settlementDays} day(s)</TableCell>
+                        <TableCell>
+                          {rule.minAmount || rule.maxAmount ? `${rule.minAmount ?? '0'} - ${rule.maxAmount ?? 'no max'}` : '-'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={rule.isActive ? 'default' : 'secondary'}>{rule.isActive ? 'Active' : 'Disabled'}</Badge>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(rule)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(rule.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Routing Preview</CardTitle>
+          <CardDescription>See which provider a payment would go to right now, including live success rates and breaker state.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="previewAmount">Amount</Label>
+              <Input id="previewAmount" value={preview.amount} onChange={(e) => setPreview({ ...preview, amount: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="previewCurrency">Currency</Label>
+              <Input id="previewCurrency" value={preview.currency} onChange={(e) => setPreview({ ...preview, currency: e.target.value.toUpperCase() })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Rail</Label>
+              <Select value={preview.rail} onValueChange={(rail) => setPreview({ ...preview, rail })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentRails.map((rail) => (
+                    <SelectItem key={rail} value={rail}>{rail}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending} data-testid="button-preview-routing">
+              Preview
+            </Button>
+          </div>
+
+          {decision && (
+            <div className="space-y-2 text-sm">
+              <p className="font-medium">{decision.reason}</p>
+              {decision.ranked.map((entry) => (
+                <div key={entry.provider} className="flex justify-between border-b py-1">
+                  <span className="capitalize">{entry.provider}</span>
+                  <span className="text-muted-foreground">
+                    score {entry.score.toFixed(2)} · fee {entry.estimatedFee ? `$${entry.estimatedFee}` : 'n/a'} · {Math.round(entry.successRate * 100)}% success
+                  </span>
+                </div>
+              ))}
+              {decision.excluded.map((entry) => (
+                <div key={entry.provider} className="flex justify-between py-1 text-muted-foreground">
+                  <span className="capitalize line-through">{entry.provider}</span>
+                  <span>{entry.reason}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Routing Rule</DialogTitle>
+            <DialogDescription>Leave rails or currencies empty to allow all of them.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select value={form.provider} onValueChange={(provider) => setForm({ ...form, provider })}>
+                <SelectTrigger data-testid="select-routing-provider">
+                  <SelectValue placeholder="Select provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from(new Set([...(data?.providers ?? []), ...(form.provider ? [form.provider] : [])])).map((provider) => (
+                    <SelectItem key={provider} value={provider}>{provider}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Rails</Label>
+              <div className="flex flex-wrap gap-4">
+                {paymentRails.map((rail) => (
+                  <label key={rail} className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={form.rails.includes(rail)} onCheckedChange={(checked) => toggleRail(rail, checked === true)} />
+                    {rail}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="currencies">Currencies</Label>
+              <Input id="currencies" placeholder="USD, EUR" value={form.currencies} onChange={(e) => setForm({ ...form, currencies: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="fixedFee">Fixed fee ($)</Label>
+                <Input id="fixedFee" value={form.fixedFee} onChange={(e) => setForm({ ...form, fixedFee: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="percentFee">Percent fee (%)</Label>
+                <Input id="percentFee" value={form.percentFee} onChange={(e) => setForm({ ...form, percentFee: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="settlementDays">Settlement days</Label>
+                <Input id="settlementDays" value={form.settlementDays} onChange={(e) => setForm({ ...form, settlementDays: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="minAmount">Min amount</Label>
+                <Input id="minAmount" value={form.minAmount} onChange={(e) => setForm({ ...form, minAmount: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxAmount">Max amount</Label>
+                <Input id="maxAmount" value={form.maxAmount} onChange={(e) => setForm({ ...form, maxAmount: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="priority">Priority</Label>
+                <Input id="priority" value={form.priority} onChange={(e) => setForm({ ...form, priority: e.target.value })} />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch checked={form.isActive} onCheckedChange={(isActive) => setForm({ ...form, isActive })} />
+              <Label>Active</Label>
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.provider || saveMutation.isPending}
+              data-testid="button-save-routing-rule"
+            >
+              Save Rule
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
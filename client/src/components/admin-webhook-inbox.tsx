@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from "@/lib/queryClient";
+import { RotateCcw, Webhook } from 'lucide-react';
+import type { WebhookEvent } from '@shared/webhook-schema';
+
+const statusVariants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  processed: 'default',
+  received: 'secondary',
+  ignored: 'outline',
+  failed: 'destructive',
+};
+
+export default function AdminWebhookInbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<string>('all');
+
+  const queryKey = status === 'all' ? '/api/admin/webhooks' : `/api/admin/webhooks?status=${status}`;
+  const { data: events, isLoading } = useQuery<WebhookEvent[]>({
+    queryKey: [queryKey],
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('POST', `/api/admin/webhooks/${id}/replay`);
+    },
+    onSuccess: async (response) => {
+      const event: WebhookEvent = await response.json();
+      toast({
+        title: event.status === 'failed' ? "Replay Failed" : "Event Replayed",
+        description: event.lastError || `${event.eventType} ${event.status}`,
+        variant: event.status === 'failed' ? "destructive" : "default",
+      });
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Replay Failed",
+        description: error.message || "Failed to replay webhook event",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <Webhook className="mr-2 h-5 w-5" />
+            Webhook Inbox
+          </CardTitle>
+          <CardDescription>
+            Verified provider events and how they were applied. Failed events can be replayed once the cause is fixed.
+          </CardDescription>
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-40" data-testid="select-webhook-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All events</SelectItem>
+            <SelectItem value="processed">Processed</SelectItem>
+            <SelectItem value="ignored">Ignored</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full" />
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Detail</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!events || events.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No webhook events received yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  events.map((event) => (
+                    <TableRow key={event.id} data-testid={`row-webhook-${event.id}`}>
+                      <TableCell className="whitespace-nowrap">
+                        {event.receivedAt ? new Date(event.receivedAt).toLocaleString() : '-'}
+                      </TableCell>
+                      <TableCell className="capitalize">{event.provider}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{event.eventType}</div>
+                        <div className="text-xs text-muted-foreground">{event.eventId}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[event.status ?? 'received']}>{event.status}</Badge>
+                      </TableCell>
+                      <TableCell>{event.attempts}</TableCell>
+                      <TableCell className="max-w-xs truncate text-sm text-muted-foreground">
+                        {event.lastError}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => replayMutation.mutate(event.id)}
+                          disabled={replayMutation.isPending}
+                          data-testid={`button-replay-${event.id}`}
+                        >
+                          <RotateCcw className="mr-1 h-3 w-3" />
+                          Replay
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,6 +12,8 @@ import {
   Users, 
   Settings, 
   Plug,
+  GitBranch,
+  Timer,
   Menu,
   X
 } from "lucide-react";
@@ -29,6 +31,8 @@ const navigation = [
 const systemNavigation = [
   { name: "Settings", href: "/settings", icon: Settings },
   { name: "Integrations", href: "/integrations", icon: Plug },
+  { name: "Workflows", href: "/workflows/designer", icon: GitBranch },
+  { name: "Workflow SLAs", href: "/workflows/sla", icon: Timer },
 ];
 
 export default function Sidebar() {
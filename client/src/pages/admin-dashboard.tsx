@@ -13,20 +13,24 @@ import { useToast } from '@/hooks/use-toast';
 import { 
   Settings, Shield, Link2, Activity, AlertCircle, CheckCircle2, 
   CreditCard, Building, FileText, Users, DollarSign, TrendingUp,
-  Globe, Database, Lock, Briefcase, BarChart3, Bell
+  Globe, Database, Lock, Briefcase, BarChart3, Bell, ListChecks, UserCog
 } from 'lucide-react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import Sidebar from '@/components/layout/sidebar';
 import Header from '@/components/layout/header';
 import AdminEmployeeUpload from '@/components/admin-employee-upload';
+import AdminWebhookInbox from '@/components/admin-webhook-inbox';
+import AdminRoutingRules from '@/components/admin-routing-rules';
+import AdminJobs from '@/components/admin-jobs';
+import AdminRoles from '@/components/admin-roles';
 
 // Integration categories and providers
 const integrationCategories = {
   payment: {
     name: 'Payment Processing',
     icon: CreditCard,
-    providers: ['stripe', 'paypal', 'square', 'unit', 'modern_treasury']
+    providers: ['stripe', 'paypal', 'square', 'unit', 'modern_treasury', 'sandbox']
   },
   banking: {
     name: 'Banking Infrastructure',
@@ -204,11 +208,27 @@ export default function AdminDashboard() {
 
           {/* Admin Management Tabs */}
           <Tabs value={selectedCategory} onValueChange={setSelectedCategory} className="space-y-6">
-            <TabsList className="grid w-full grid-cols-6 max-w-6xl">
+            <TabsList className="grid w-full grid-cols-10 max-w-6xl">
               <TabsTrigger value="employees" data-testid="tab-employees">
                 <Users className="mr-2 h-4 w-4" />
                 Employee Management
               </TabsTrigger>
+              <TabsTrigger value="webhooks" data-testid="tab-webhooks">
+                <Bell className="mr-2 h-4 w-4" />
+                Webhooks
+              </TabsTrigger>
+              <TabsTrigger value="routing" data-testid="tab-routing">
+                <TrendingUp className="mr-2 h-4 w-4" />
+                Routing
+              </TabsTrigger>
+              <TabsTrigger value="jobs" data-testid="tab-jobs">
+                <ListChecks className="mr-2 h-4 w-4" />
+                Jobs
+              </TabsTrigger>
+              <TabsTrigger value="roles" data-testid="tab-roles">
+                <UserCog className="mr-2 h-4 w-4" />
+                Roles
+              </TabsTrigger>
               {Object.entries(integrationCategories).map(([key, category]) => {
                 const Icon = category.icon;
                 return (
@@ -225,6 +245,26 @@ export default function AdminDashboard() {
               <AdminEmployeeUpload />
             </TabsContent>
 
+            {/* Provider Webhook Inbox */}
+            <TabsContent value="webhooks" className="space-y-4">
+              <AdminWebhookInbox />
+            </TabsContent>
+
+            {/* Payment Routing Rules */}
+            <TabsContent value="routing" className="space-y-4">
+              <AdminRoutingRules />
+            </TabsContent>
+
+            {/* Background Job Runs */}
+            <TabsContent value="jobs" className="space-y-4">
+              <AdminJobs />
+            </TabsContent>
+
+            {/* Roles and Permissions */}
+            <TabsContent value="roles" className="space-y-4">
+              <AdminRoles />
+            </TabsContent>
+
             {Object.entries(integrationCategories).map(([key, category]) => (
               <TabsContent key={key} value={key} className="space-y-4">
                 <Card>
@@ -241,6 +281,7 @@ export default function AdminDashboard() {
                           p.name === provider
                         );
                         const isActive = providerHealth?.status === 'active';
+                        const breakerState = providerHealth?.breaker?.state;
                         
                         return (
                           <div
@@ -261,7 +302,11 @@ export default function AdminDashboard() {
                                   {provider.replace('_', ' ')}
                                 </p>
                                 <p className="text-sm text-muted-foreground">
-                                  {isActive ? 'Connected and active' : 'Not configured'}
+                                  {breakerState === 'open'
+                                    ? 'Circuit open - calls paused after repeated failures'
+                                    : breakerState === 'half_open'
+                                      ? 'Recovering - trying a test call'
+                                      : isActive ? 'Connected and active' : 'Not configured'}
                                 </p>
                               </div>
                             </div>
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { useParams } from 'wouter';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest } from "@/lib/queryClient";
+import { CheckCircle, Clock, ShieldCheck, XCircle } from 'lucide-react';
+
+interface ActionLinkSummary {
+  workflowId: string;
+  type: string;
+  priority: string | null;
+  level: number;
+  data: Record<string, unknown> | null;
+  amount: number | null;
+  initiator: string | null;
+  createdAt: string | null;
+  expiresAt: string;
+  requiresTwoFactor: boolean;
+}
+
+interface Decision {
+  action: 'approve' | 'reject';
+  comments?: string;
+  twoFactor?: { code: string; sessionId?: string };
+}
+
+const label = (value: string) => value.replace(/_/g, ' ');
+
+// Errors arrive as "<status>: <json body>"; show the server's message rather than the raw body
+const errorMessage = (error: unknown) => {
+  const text = error instanceof Error ? error.message : String(error);
+  const body = text.slice(text.indexOf(':') + 1).trim();
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+const summaryFields = ['description', 'purpose', 'vendorName', 'category', 'department'];
+
+export default function ApprovalAction() {
+  const { token } = useParams<{ token: string }>();
+  const [comments, setComments] = useState('');
+  const [code, setCode] = useState('');
+  const [sessionId, setSessionId] = useState<string | undefined>();
+  const [outcome, setOutcome] = useState<{ action: Decision['action']; status: string } | null>(null);
+
+  const { data: link, isLoading, error } = useQuery<ActionLinkSummary>({
+    queryKey: [`/api/workflow-actions/${token}`],
+  });
+
+  const sendCode = useMutation({
+    mutationFn: async (method: 'sms' | 'email') => {
+      const response = await apiRequest('POST', `/api/workflow-actions/${token}/two-factor`, { method });
+      return response.json() as Promise<{ sessionId: string }>;
+    },
+    onSuccess: (session) => setSessionId(session.sessionId),
+  });
+
+  const decide = useMutation({
+    mutationFn: async (decision: Decision) => {
+      const response = await apiRequest('POST', `/api/workflow-actions/${token}`, decision);
+      return response.json() as Promise<{ status: string; action: Decision['action'] }>;
+    },
+    onSuccess: (result) => setOutcome({ action: result.action, status: result.status }),
+  });
+
+  const submit = (action: Decision['action']) => {
+    decide.mutate({
+      action,
+      comments: comments.trim() || undefined,
+      twoFactor: action === 'approve' && code ? { code, sessionId } : undefined,
+    });
+  };
+
+  const needsCode = !!link?.requiresTwoFactor;
+  const details = link?.data
+    ? summaryFields.filter((field) => link.data?.[field]).map((field) => [field, String(link.data![field])])
+    : [];
+
+  return (
+    <div className="min-h-screen bg-muted/30 flex items-start justify-center p-4 sm:p-10">
+      <Card className="w-full max-w-lg">
+        {isLoading ? (
+          <CardContent className="py-10 text-center text-muted-foreground">Loading request...</CardContent>
+        ) : error || !link ? (
+          <CardContent className="py-10 text-center space-y-2">
+            <XCircle className="h-8 w-8 mx-auto text-destructive" />
+            <p className="font-medium">This approval link can't be used</p>
+            <p className="text-sm text-muted-foreground">{errorMessage(error)}</p>
+            <p className="text-sm text-muted-foreground">Sign in to review the request from your workflow inbox.</p>
+          </CardContent>
+        ) : outcome ? (
+          <CardContent className="py-10 text-center space-y-2">
+            {outcome.action === 'approve' ? (
+              <CheckCircle className="h-8 w-8 mx-auto text-green-600" />
+            ) : (
+              <XCircle className="h-8 w-8 mx-auto text-destructive" />
+            )}
+            <p className="font-medium">{outcome.action === 'approve' ? 'Approved' : 'Rejected'}</p>
+            <p className="text-sm text-muted-foreground">
+              Your decision was recorded. The request is now {label(outcome.status)}.
+            </p>
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <CardTitle className="capitalize">{label(link.type)}</CardTitle>
+                {link.priority && <Badge variant="outline" className="capitalize">{link.priority}</Badge>}
+              </div>
+              <CardDescription>
+                Stage {link.level}
+                {link.initiator ? ` · requested by ${link.initiator}` : ''}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+                {link.amount !== null && (
+                  <>
+                    <dt className="text-muted-foreground">Amount</dt>
+                    <dd className="font-medium">${link.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</dd>
+                  </>
+                )}
+                {details.map(([field, value]) => (
+                  <div key={field} className="contents">
+                    <dt className="text-muted-foreground capitalize">{field.replace(/([A-Z])/g, ' $1').toLowerCase()}</dt>
+                    <dd>{value}</dd>
+                  </div>
+                ))}
+              </dl>
+
+              <div className="space-y-1">
+                <Label htmlFor="comments">Comment</Label>
+                <Textarea
+                  id="comments"
+                  value={comments}
+                  onChange={(event) => setComments(event.target.value)}
+                  placeholder="Required when rejecting"
+                  maxLength={2000}
+                />
+              </div>
+
+              {needsCode && (
+                <div className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <ShieldCheck className="h-4 w-4" />
+                    Two-factor verification is required to approve this amount
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      value={code}
+                      onChange={(event) => setCode(event.target.value)}
+                      placeholder="Verification code"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                    />
+                    <Button variant="outline" onClick={() => sendCode.mutate('sms')} disabled={sendCode.isPending}>
+                      Text me
+                    </Button>
+                    <Button variant="outline" onClick={() => sendCode.mutate('email')} disabled={sendCode.isPending}>
+                      Email me
+                    </Button>
+                  </div>
+                  {sessionId && <p className="text-xs text-muted-foreground">Code sent.</p>}
+                  {sendCode.error && <p className="text-xs text-destructive">{errorMessage(sendCode.error)}</p>}
+                </div>
+              )}
+
+              {decide.error && <p className="text-sm text-destructive">{errorMessage(decide.error)}</p>}
+            </CardContent>
+            <CardFooter className="flex flex-col gap-3">
+              <div className="flex w-full gap-2">
+                <Button
+                  className="flex-1"
+                  onClick={() => submit('approve')}
+                  disabled={decide.isPending || (needsCode && !code)}
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Approve
+                </Button>
+                <Button
+                  className="flex-1"
+                  variant="destructive"
+                  onClick={() => submit('reject')}
+                  disabled={decide.isPending || !comments.trim()}
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Reject
+                </Button>
+              </div>
+              <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Clock className="h-3 w-3" />
+                This link works once and expires {new Date(link.expiresAt).toLocaleString()}.
+              </p>
+            </CardFooter>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,543 @@
+import { useMemo, useState, type DragEvent } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from "@/lib/queryClient";
+import Sidebar from '@/components/layout/sidebar';
+import Header from '@/components/layout/header';
+import { GitBranch, GripVertical, Layers, Plus, Trash2, Users, Workflow as WorkflowIcon } from 'lucide-react';
+import {
+  workflowTypeEnum,
+  workflowConditionOperators,
+  type WorkflowCondition,
+  type WorkflowDefinition,
+  type WorkflowGroup,
+  type WorkflowStage,
+} from '@shared/workflow-schema';
+
+interface Approver {
+  id: string;
+  name: string;
+  role: string;
+  department: string | null;
+}
+
+// A single field comparison; the designer joins several with "all"
+interface Clause {
+  field: string;
+  operator: (typeof workflowConditionOperators)[number];
+  value?: unknown;
+}
+
+type DragPayload =
+  | { kind: 'new-stage' }
+  | { kind: 'new-group' }
+  | { kind: 'stage'; stageId: string }
+  | { kind: 'group'; stageId: string; groupId: string };
+
+type Selection = { stageId: string; groupId?: string } | null;
+
+const DRAG_TYPE = 'application/x-workflow-node';
+
+const newId = (prefix: string) => `${prefix}-${Math.random().toString(36).slice(2, 8)}`;
+
+const newGroup = (): WorkflowGroup => ({ id: newId('group'), name: 'Approvers', approvers: [], quorum: 'all' });
+
+const newStage = (): WorkflowStage => ({ id: newId('stage'), name: 'New stage', groups: [newGroup()] });
+
+function toClauses(condition?: WorkflowCondition): Clause[] | null {
+  if (!condition) return [];
+  if ('field' in condition) return [condition];
+  if ('all' in condition && condition.all.every((inner) => 'field' in inner)) return condition.all as Clause[];
+  return null; // nested any/all built outside the designer
+}
+
+function fromClauses(clauses: Clause[]): WorkflowCondition | undefined {
+  const complete = clauses.filter((clause) => clause.field);
+  if (complete.length === 0) return undefined;
+  return complete.length === 1 ? complete[0] : { all: complete };
+}
+
+function parseValue(operator: Clause['operator'], raw: string): unknown {
+  const single = (text: string) => (text.trim() !== '' && !isNaN(Number(text)) ? Number(text) : text.trim());
+  return operator === 'in' ? raw.split(',').map(single).filter((value) => value !== '') : single(raw);
+}
+
+function describeCondition(condition?: WorkflowCondition): string | null {
+  if (!condition) return null;
+  if ('field' in condition) {
+    const value = Array.isArray(condition.value) ? condition.value.join(', ') : condition.value;
+    return condition.operator === 'exists' ? `${condition.field} is set` : `${condition.field} ${condition.operator} ${value}`;
+  }
+  if ('all' in condition) return condition.all.map(describeCondition).join(' and ');
+  return condition.any.map(describeCondition).join(' or ');
+}
+
+function ConditionEditor({ condition, onChange }: { condition?: WorkflowCondition; onChange: (next?: WorkflowCondition) => void }) {
+  const clauses = toClauses(condition);
+  if (clauses === null) {
+    return (
+      <div className="space-y-2 text-sm">
+        <div className="rounded-md border p-2 font-mono text-xs">{describeCondition(condition)}</div>
+        <Button variant="outline" size="sm" onClick={() => onChange(undefined)}>Clear condition</Button>
+      </div>
+    );
+  }
+
+  const update = (index: number, patch: Partial<Clause>) =>
+    onChange(fromClauses(clauses.map((clause, position) => (position === index ? { ...clause, ...patch } : clause))));
+
+  return (
+    <div className="space-y-2">
+      {clauses.map((clause, index) => (
+        <div key={index} className="grid grid-cols-[1fr_90px_1fr_auto] gap-2">
+          <Input placeholder="amount" value={clause.field} onChange={(e) => update(index, { field: e.target.value })} />
+          <Select value={clause.operator} onValueChange={(operator) => update(index, { operator: operator as Clause['operator'] })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {workflowConditionOperators.map((operator) => (
+                <SelectItem key={operator} value={operator}>{operator}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder={clause.operator === 'in' ? 'a, b, c' : '250000'}
+            disabled={clause.operator === 'exists'}
+            value={Array.isArray(clause.value) ? clause.value.join(', ') : String(clause.value ?? '')}
+            onChange={(e) => update(index, { value: parseValue(clause.operator, e.target.value) })}
+          />
+          <Button variant="ghost" size="sm" onClick={() => onChange(fromClauses(clauses.filter((_, position) => position !== index)))}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange({ all: [...clauses, { field: '', operator: 'gt', value: '' }] } as WorkflowCondition)}
+      >
+        <Plus className="mr-1 h-3 w-3" />
+        Add condition
+      </Button>
+      <p className="text-xs text-muted-foreground">Fields are read from the workflow data, e.g. amount or vendor.category. All conditions must hold.</p>
+    </div>
+  );
+}
+
+export default function WorkflowDesigner() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<string>('payment_approval');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [autoApproveBelow, setAutoApproveBelow] = useState('');
+  const [stages, setStages] = useState<WorkflowStage[]>([newStage()]);
+  const [selection, setSelection] = useState<Selection>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const { data: definitions = [] } = useQuery<WorkflowDefinition[]>({ queryKey: ['/api/workflows/definitions'] });
+  const { data: approvers = [] } = useQuery<Approver[]>({ queryKey: ['/api/workflows/approvers'] });
+
+  const versions = useMemo(() => definitions.filter((definition) => definition.type === type), [definitions, type]);
+  const approverName = (id: string) => approvers.find((approver) => approver.id === id)?.name ?? id;
+
+  const saveMutation = useMutation({
+    mutationFn: async (publish: boolean) => {
+      return apiRequest('POST', '/api/workflows/definitions', {
+        type,
+        name,
+        description: description || null,
+        stages,
+        autoApproveBelow: autoApproveBelow ? Number(autoApproveBelow) : null,
+        publish,
+      });
+    },
+    onSuccess: async (response) => {
+      const definition: WorkflowDefinition = await response.json();
+      toast({
+        title: definition.isActive ? "Definition Published" : "Definition Saved",
+        description: `Version ${definition.version} of ${definition.type.replace(/_/g, ' ')}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/workflows/definitions'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Save Failed", description: error.message || "Failed to save definition", variant: "destructive" });
+    }
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('POST', `/api/workflows/definitions/${id}/publish`);
+    },
+    onSuccess: () => {
+      toast({ title: "Definition Published", description: "New workflows start on this version; running ones keep theirs" });
+      queryClient.invalidateQueries({ queryKey: ['/api/workflows/definitions'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Publish Failed", description: error.message || "Failed to publish definition", variant: "destructive" });
+    }
+  });
+
+  const loadVersion = (definition: WorkflowDefinition) => {
+    setName(definition.name);
+    setDescription(definition.description ?? '');
+    setAutoApproveBelow(definition.autoApproveBelow ? String(definition.autoApproveBelow) : '');
+    setStages(definition.stages);
+    setSelection(null);
+  };
+
+  const updateStage = (stageId: string, patch: Partial<WorkflowStage>) =>
+    setStages((current) => current.map((stage) => (stage.id === stageId ? { ...stage, ...patch } : stage)));
+
+  const updateGroup = (stageId: string, groupId: string, patch: Partial<WorkflowGroup>) =>
+    setStages((current) =>
+      current.map((stage) =>
+        stage.id === stageId
+          ? { ...stage, groups: stage.groups.map((group) => (group.id === groupId ? { ...group, ...patch } : group)) }
+          : stage
+      )
+    );
+
+  const removeStage = (stageId: string) => {
+    setStages((current) => current.filter((stage) => stage.id !== stageId));
+    setSelection(null);
+  };
+
+  const removeGroup = (stageId: string, groupId: string) => {
+    setStages((current) =>
+      current.map((stage) => (stage.id === stageId ? { ...stage, groups: stage.groups.filter((group) => group.id !== groupId) } : stage))
+    );
+    setSelection({ stageId });
+  };
+
+  // Drag and drop: stages reorder along the row, groups move between stages
+  const startDrag = (payload: DragPayload) => (event: DragEvent) => {
+    event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  const readDrag = (event: DragEvent): DragPayload | null => {
+    const raw = event.dataTransfer.getData(DRAG_TYPE);
+    return raw ? JSON.parse(raw) : null;
+  };
+
+  const allowDrop = (target: string) => (event: DragEvent) => {
+    event.preventDefault();
+    setDropTarget(target);
+  };
+
+  const dropAtPosition = (position: number) => (event: DragEvent) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const payload = readDrag(event);
+    if (payload?.kind === 'new-stage') {
+      setStages((current) => [...current.slice(0, position), newStage(), ...current.slice(position)]);
+    } else if (payload?.kind === 'stage') {
+      setStages((current) => {
+        const from = current.findIndex((stage) => stage.id === payload.stageId);
+        if (from < 0) return current;
+        const moved = current[from];
+        const without = current.filter((stage) => stage.id !== payload.stageId);
+        const to = from < position ? position - 1 : position;
+        return [...without.slice(0, to), moved, ...without.slice(to)];
+      });
+    }
+  };
+
+  const dropOnStage = (stageId: string) => (event: DragEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(null);
+    const payload = readDrag(event);
+    if (payload?.kind === 'new-group') {
+      const group = newGroup();
+      setStages((current) => current.map((stage) => (stage.id === stageId ? { ...stage, groups: [...stage.groups, group] } : stage)));
+      setSelection({ stageId, groupId: group.id });
+    } else if (payload?.kind === 'group' && payload.stageId !== stageId) {
+      setStages((current) => {
+        const group = current.find((stage) => stage.id === payload.stageId)?.groups.find((item) => item.id === payload.groupId);
+        if (!group) return current;
+        return current.map((stage) => {
+          if (stage.id === payload.stageId) return { ...stage, groups: stage.groups.filter((item) => item.id !== group.id) };
+          if (stage.id === stageId) return { ...stage, groups: [...stage.groups, group] };
+          return stage;
+        });
+      });
+      setSelection({ stageId, groupId: payload.groupId });
+    }
+  };
+
+  const selectedStage = selection ? stages.find((stage) => stage.id === selection.stageId) : undefined;
+  const selectedGroup = selection?.groupId ? selectedStage?.groups.find((group) => group.id === selection.groupId) : undefined;
+  const canSave = name.trim() !== '' && stages.length > 0 && stages.every((stage) => stage.groups.length > 0 && stage.groups.every((group) => group.approvers.length > 0));
+
+  const dropZone = (position: number) => (
+    <div
+      onDragOver={allowDrop(`gap-${position}`)}
+      onDragLeave={() => setDropTarget(null)}
+      onDrop={dropAtPosition(position)}
+      className={`w-6 shrink-0 self-stretch rounded ${dropTarget === `gap-${position}` ? 'bg-primary/20' : ''}`}
+    />
+  );
+
+  return (
+    <div className="flex h-screen bg-muted/30" data-testid="workflow-designer">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col min-w-0">
+        <Header />
+
+        <main className="flex-1 p-6 overflow-y-auto space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Workflow Designer</h1>
+            <p className="text-muted-foreground">
+              Stages run left to right. Groups inside a stage approve in parallel; conditions skip stages or groups that don't apply.
+            </p>
+          </div>
+
+          <Card>
+            <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4 pt-6">
+              <div className="space-y-2">
+                <Label>Workflow type</Label>
+                <Select value={type} onValueChange={setType}>
+                  <SelectTrigger data-testid="select-workflow-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workflowTypeEnum.enumValues.map((value) => (
+                      <SelectItem key={value} value={value}>{value.replace(/_/g, ' ')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="definitionName">Name</Label>
+                <Input id="definitionName" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="definitionDescription">Description</Label>
+                <Input id="definitionDescription" value={description} onChange={(e) => setDescription(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="autoApproveBelow">Auto-approve below ($)</Label>
+                <Input id="autoApproveBelow" value={autoApproveBelow} onChange={(e) => setAutoApproveBelow(e.target.value)} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 xl:grid-cols-[1fr_360px] gap-6">
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="flex items-center">
+                    <WorkflowIcon className="mr-2 h-5 w-5" />
+                    Routing
+                  </CardTitle>
+                  <CardDescription>Drag a stage or group from the palette onto the canvas.</CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <div draggable onDragStart={startDrag({ kind: 'new-stage' })} className="flex cursor-grab items-center rounded-md border px-3 py-1 text-sm" data-testid="palette-stage">
+                    <Layers className="mr-1 h-4 w-4" />
+                    Stage
+                  </div>
+                  <div draggable onDragStart={startDrag({ kind: 'new-group' })} className="flex cursor-grab items-center rounded-md border px-3 py-1 text-sm" data-testid="palette-group">
+                    <Users className="mr-1 h-4 w-4" />
+                    Approval group
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex overflow-x-auto pb-2 min-h-[280px]">
+                  {dropZone(0)}
+                  {stages.map((stage, index) => (
+                    <div key={stage.id} className="flex">
+                      <div
+                        onDragOver={allowDrop(stage.id)}
+                        onDragLeave={() => setDropTarget(null)}
+                        onDrop={dropOnStage(stage.id)}
+                        className={`w-60 shrink-0 rounded-lg border bg-background p-3 space-y-2 ${
+                          selection?.stageId === stage.id && !selection.groupId ? 'ring-2 ring-primary' : ''
+                        } ${dropTarget === stage.id ? 'bg-primary/5' : ''}`}
+                        data-testid={`stage-${stage.id}`}
+                      >
+                        <div
+                          draggable
+                          onDragStart={startDrag({ kind: 'stage', stageId: stage.id })}
+                          onClick={() => setSelection({ stageId: stage.id })}
+                          className="flex cursor-grab items-center justify-between"
+                        >
+                          <div className="flex items-center font-medium">
+                            <GripVertical className="mr-1 h-4 w-4 text-muted-foreground" />
+                            {index + 1}. {stage.name}
+                          </div>
+                        </div>
+                        {stage.condition && (
+                          <div className="flex items-center text-xs text-muted-foreground">
+                            <GitBranch className="mr-1 h-3 w-3" />
+                            if {describeCondition(stage.condition)}
+                          </div>
+                        )}
+                        {stage.groups.map((group) => (
+                          <div
+                            key={group.id}
+                            draggable
+                            onDragStart={startDrag({ kind: 'group', stageId: stage.id, groupId: group.id })}
+                            onClick={() => setSelection({ stageId: stage.id, groupId: group.id })}
+                            className={`cursor-grab rounded-md border p-2 text-sm ${selection?.groupId === group.id ? 'ring-2 ring-primary' : ''}`}
+                            data-testid={`group-${group.id}`}
+                          >
+                            <div className="flex items-center justify-between">
+                              <span className="font-medium">{group.name}</span>
+                              <Badge variant="outline">{group.quorum === 'any' ? 'any one' : 'all'}</Badge>
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {group.approvers.length > 0 ? group.approvers.map(approverName).join(', ') : 'No approvers yet'}
+                            </div>
+                            {group.condition && (
+                              <div className="text-xs text-muted-foreground">if {describeCondition(group.condition)}</div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                      {dropZone(index + 1)}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2 pt-4">
+                  <Button variant="outline" onClick={() => saveMutation.mutate(false)} disabled={!canSave || saveMutation.isPending} data-testid="button-save-definition">
+                    Save Version
+                  </Button>
+                  <Button onClick={() => saveMutation.mutate(true)} disabled={!canSave || saveMutation.isPending} data-testid="button-publish-definition">
+                    Save and Publish
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>{selectedGroup ? 'Approval Group' : selectedStage ? 'Stage' : 'Properties'}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {!selectedStage && <p className="text-sm text-muted-foreground">Select a stage or group to edit it.</p>}
+
+                  {selectedStage && !selectedGroup && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="stageName">Name</Label>
+                        <Input id="stageName" value={selectedStage.name} onChange={(e) => updateStage(selectedStage.id, { name: e.target.value })} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Run this stage only if</Label>
+                        <ConditionEditor condition={selectedStage.condition} onChange={(condition) => updateStage(selectedStage.id, { condition })} />
+                      </div>
+                      <Button variant="destructive" size="sm" onClick={() => removeStage(selectedStage.id)}>
+                        <Trash2 className="mr-1 h-4 w-4" />
+                        Remove stage
+                      </Button>
+                    </>
+                  )}
+
+                  {selectedStage && selectedGroup && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="groupName">Name</Label>
+                        <Input id="groupName" value={selectedGroup.name} onChange={(e) => updateGroup(selectedStage.id, selectedGroup.id, { name: e.target.value })} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Quorum</Label>
+                        <Select value={selectedGroup.quorum} onValueChange={(quorum) => updateGroup(selectedStage.id, selectedGroup.id, { quorum: quorum as WorkflowGroup['quorum'] })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">Every approver</SelectItem>
+                            <SelectItem value="any">Any one approver</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Approvers</Label>
+                        <div className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2">
+                          {approvers.map((approver) => (
+                            <label key={approver.id} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={selectedGroup.approvers.includes(approver.id)}
+                                onCheckedChange={(checked) =>
+                                  updateGroup(selectedStage.id, selectedGroup.id, {
+                                    approvers: checked === true
+                                      ? [...selectedGroup.approvers, approver.id]
+                                      : selectedGroup.approvers.filter((id) => id !== approver.id),
+                                  })
+                                }
+                              />
+                              {approver.name}
+                              <span className="text-xs text-muted-foreground">{[approver.role, approver.department].filter(Boolean).join(' · ')}</span>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Include this group only if</Label>
+                        <ConditionEditor
+                          condition={selectedGroup.condition}
+                          onChange={(condition) => updateGroup(selectedStage.id, selectedGroup.id, { condition })}
+                        />
+                      </div>
+                      <Button variant="destructive" size="sm" onClick={() => removeGroup(selectedStage.id, selectedGroup.id)}>
+                        <Trash2 className="mr-1 h-4 w-4" />
+                        Remove group
+                      </Button>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Versions</CardTitle>
+                  <CardDescription>Running workflows keep the version they started on.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {versions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No saved versions for this type</p>
+                  ) : (
+                    versions.map((definition) => (
+                      <div key={definition.id} className="flex items-center justify-between rounded-md border p-2 text-sm" data-testid={`version-${definition.version}`}>
+                        <div>
+                          <div className="font-medium">
+                            v{definition.version} {definition.name} {definition.isActive && <Badge>Active</Badge>}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {definition.createdAt ? new Date(definition.createdAt).toLocaleString() : ''}
+                          </div>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => loadVersion(definition)}>Load</Button>
+                          {!definition.isActive && (
+                            <Button variant="outline" size="sm" onClick={() => publishMutation.mutate(definition.id)} disabled={publishMutation.isPending}>
+                              Publish
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
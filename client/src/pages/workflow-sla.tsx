@@ -0,0 +1,438 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from "@/lib/queryClient";
+import Sidebar from '@/components/layout/sidebar';
+import Header from '@/components/layout/header';
+import { AlertTriangle, Clock, Plus, Timer, Trash2 } from 'lucide-react';
+import { workflowTypeEnum, type SlaEscalationTier, type WorkflowSlaPolicy } from '@shared/workflow-schema';
+
+interface CycleTimeGroup {
+  key: string;
+  label: string;
+  count: number;
+  median: number;
+  p90: number;
+  pending: number;
+  bottleneck: boolean;
+}
+
+interface AgingWorkflow {
+  workflowId: string;
+  type: string;
+  priority: string | null;
+  level: number;
+  ageHours: number;
+  targetHours: number | null;
+  status: 'on_track' | 'at_risk' | 'breached' | null;
+  waitingOn: string[];
+}
+
+interface CycleTimes {
+  byApprover: CycleTimeGroup[];
+  byDepartment: CycleTimeGroup[];
+  byType: CycleTimeGroup[];
+  open: { total: number; onTrack: number; atRisk: number; breached: number };
+  overdue: AgingWorkflow[];
+}
+
+interface Approver {
+  id: string;
+  name: string;
+}
+
+const emptyPolicy = {
+  type: 'payment_approval',
+  priority: '',
+  targetHours: '16',
+  businessHoursStart: '9',
+  businessHoursEnd: '17',
+  timeZone: 'America/New_York',
+  escalationTiers: [] as SlaEscalationTier[],
+};
+
+const label = (value: string) => value.replace(/_/g, ' ');
+
+function CycleTimeTable({ groups, name }: { groups: CycleTimeGroup[]; name: string }) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{name}</TableHead>
+            <TableHead className="text-right">Decisions</TableHead>
+            <TableHead className="text-right">Median (h)</TableHead>
+            <TableHead className="text-right">p90 (h)</TableHead>
+            <TableHead className="text-right">Waiting now</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground">
+                No decisions in this period
+              </TableCell>
+            </TableRow>
+          ) : (
+            groups.map((group) => (
+              <TableRow key={group.key} className={group.bottleneck ? 'bg-destructive/10' : ''} data-testid={`row-cycle-${group.key}`}>
+                <TableCell className="font-medium capitalize">
+                  {group.label} {group.bottleneck && <Badge variant="destructive">Bottleneck</Badge>}
+                </TableCell>
+                <TableCell className="text-right">{group.count}</TableCell>
+                <TableCell className="text-right">{group.median}</TableCell>
+                <TableCell className="text-right">{group.p90}</TableCell>
+                <TableCell className="text-right">{group.pending}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function WorkflowSla() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState('90');
+  const [form, setForm] = useState(emptyPolicy);
+
+  const { data: cycleTimes, isLoading } = useQuery<CycleTimes>({
+    queryKey: [`/api/workflows/analytics/cycle-times?days=${days}`],
+  });
+  const { data: policies = [] } = useQuery<WorkflowSlaPolicy[]>({ queryKey: ['/api/workflows/sla-policies'] });
+  const { data: approvers = [] } = useQuery<Approver[]>({ queryKey: ['/api/workflows/approvers'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('PUT', '/api/workflows/sla-policies', {
+        type: form.type,
+        priority: form.priority || null,
+        targetHours: Number(form.targetHours),
+        businessHoursStart: Number(form.businessHoursStart),
+        businessHoursEnd: Number(form.businessHoursEnd),
+        timeZone: form.timeZone,
+        escalationTiers: form.escalationTiers,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "SLA Policy Saved", description: `${label(form.type)}${form.priority ? ` (${form.priority})` : ''}` });
+      setForm(emptyPolicy);
+      queryClient.invalidateQueries({ queryKey: ['/api/workflows/sla-policies'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Save Failed", description: error.message || "Failed to save SLA policy", variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/workflows/sla-policies/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/workflows/sla-policies'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Delete Failed", description: error.message || "Failed to delete SLA policy", variant: "destructive" });
+    }
+  });
+
+  const updateTier = (index: number, patch: Partial<SlaEscalationTier>) =>
+    setForm({ ...form, escalationTiers: form.escalationTiers.map((tier, position) => (position === index ? { ...tier, ...patch } : tier)) });
+
+  const addTier = () => {
+    const previous = form.escalationTiers[form.escalationTiers.length - 1];
+    const afterHours = previous ? previous.afterHours + 8 : Number(form.targetHours) || 8;
+    setForm({ ...form, escalationTiers: [...form.escalationTiers, { afterHours, recipients: [], remindApprovers: true }] });
+  };
+
+  const statusBadge = (status: AgingWorkflow['status']) =>
+    status === 'breached' ? <Badge variant="destructive">Breached</Badge> : <Badge variant="secondary">At risk</Badge>;
+
+  return (
+    <div className="flex h-screen bg-muted/30" data-testid="workflow-sla">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col min-w-0">
+        <Header />
+
+        <main className="flex-1 p-6 overflow-y-auto space-y-6">
+          <div className="flex items-start justify-between">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">Workflow SLAs</h1>
+              <p className="text-muted-foreground">
+                Cycle times count business hours only. Rows marked as bottlenecks take at least half again as long as the typical decision.
+              </p>
+            </div>
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-40" data-testid="select-sla-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+                <SelectItem value="180">Last 180 days</SelectItem>
+                <SelectItem value="365">Last year</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {[
+              { title: 'Open Workflows', value: cycleTimes?.open.total, icon: Clock },
+              { title: 'On Track', value: cycleTimes?.open.onTrack, icon: Timer },
+              { title: 'At Risk', value: cycleTimes?.open.atRisk, icon: AlertTriangle },
+              { title: 'Breached', value: cycleTimes?.open.breached, icon: AlertTriangle },
+            ].map(({ title, value, icon: Icon }) => (
+              <Card key={title}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">{title}</CardTitle>
+                  <Icon className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{value ?? '—'}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Cycle Times</CardTitle>
+              <CardDescription>Approvers and departments by time to decide; workflow types by time from start to completion.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading || !cycleTimes ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full" />
+                </div>
+              ) : (
+                <Tabs defaultValue="approver">
+                  <TabsList>
+                    <TabsTrigger value="approver">By Approver</TabsTrigger>
+                    <TabsTrigger value="department">By Department</TabsTrigger>
+                    <TabsTrigger value="type">By Workflow Type</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="approver">
+                    <CycleTimeTable groups={cycleTimes.byApprover} name="Approver" />
+                  </TabsContent>
+                  <TabsContent value="department">
+                    <CycleTimeTable groups={cycleTimes.byDepartment} name="Department" />
+                  </TabsContent>
+                  <TabsContent value="type">
+                    <CycleTimeTable groups={cycleTimes.byType} name="Workflow type" />
+                  </TabsContent>
+                </Tabs>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Overdue and At Risk</CardTitle>
+              <CardDescription>Open workflows whose current stage is close to or past its SLA target.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Workflow</TableHead>
+                      <TableHead>Stage</TableHead>
+                      <TableHead className="text-right">Waiting (h)</TableHead>
+                      <TableHead className="text-right">Target (h)</TableHead>
+                      <TableHead>Waiting on</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(cycleTimes?.overdue ?? []).length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground">
+                          Nothing is close to its SLA
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      cycleTimes!.overdue.map((item) => (
+                        <TableRow key={item.workflowId} data-testid={`row-overdue-${item.workflowId}`}>
+                          <TableCell>
+                            <div className="font-medium capitalize">{label(item.type)}</div>
+                            <div className="text-xs text-muted-foreground">{item.priority ?? 'normal'} priority</div>
+                          </TableCell>
+                          <TableCell>{item.level}</TableCell>
+                          <TableCell className="text-right">{item.ageHours}</TableCell>
+                          <TableCell className="text-right">{item.targetHours}</TableCell>
+                          <TableCell className="text-sm">{item.waitingOn.join(', ') || '—'}</TableCell>
+                          <TableCell>{statusBadge(item.status)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>SLA Policies</CardTitle>
+              <CardDescription>
+                Targets are business hours per approval stage. A policy without a priority covers every priority of its type; saving the same type and priority replaces it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Workflow type</TableHead>
+                      <TableHead>Priority</TableHead>
+                      <TableHead className="text-right">Target (h)</TableHead>
+                      <TableHead>Escalation tiers</TableHead>
+                      <TableHead>Office hours</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {policies.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground">
+                          No SLA policies; escalation falls back to each workflow rule's escalation days
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      policies.map((policy) => (
+                        <TableRow key={policy.id} data-testid={`row-sla-policy-${policy.id}`}>
+                          <TableCell className="capitalize">{label(policy.type)}</TableCell>
+                          <TableCell>{policy.priority ?? 'Any'}</TableCell>
+                          <TableCell className="text-right">{policy.targetHours}</TableCell>
+                          <TableCell className="text-sm">
+                            {policy.escalationTiers.map((tier) => `${tier.afterHours}h → ${tier.recipients.length}`).join(', ') || 'None'}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {policy.businessHoursStart}:00–{policy.businessHoursEnd}:00 {policy.timeZone}
+                          </TableCell>
+                          <TableCell>
+                            <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(policy.id)} disabled={deleteMutation.isPending}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label>Workflow type</Label>
+                  <Select value={form.type} onValueChange={(type) => setForm({ ...form, type })}>
+                    <SelectTrigger data-testid="select-sla-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workflowTypeEnum.enumValues.map((value) => (
+                        <SelectItem key={value} value={value}>{label(value)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="slaPriority">Priority</Label>
+                  <Input id="slaPriority" placeholder="Any" value={form.priority} onChange={(e) => setForm({ ...form, priority: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="slaTarget">Target (h)</Label>
+                  <Input id="slaTarget" value={form.targetHours} onChange={(e) => setForm({ ...form, targetHours: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Office hours</Label>
+                  <div className="flex gap-1">
+                    <Input value={form.businessHoursStart} onChange={(e) => setForm({ ...form, businessHoursStart: e.target.value })} />
+                    <Input value={form.businessHoursEnd} onChange={(e) => setForm({ ...form, businessHoursEnd: e.target.value })} />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="slaTimeZone">Time zone</Label>
+                  <Input id="slaTimeZone" value={form.timeZone} onChange={(e) => setForm({ ...form, timeZone: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                {form.escalationTiers.map((tier, index) => (
+                  <div key={index} className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm font-medium">Tier {index + 1} after</span>
+                      <Input
+                        className="w-24"
+                        value={String(tier.afterHours)}
+                        onChange={(e) => updateTier(index, { afterHours: Number(e.target.value) || 0 })}
+                      />
+                      <span className="text-sm">business hours</span>
+                      <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={tier.remindApprovers}
+                          onCheckedChange={(checked) => updateTier(index, { remindApprovers: checked === true })}
+                        />
+                        Remind waiting approvers
+                      </label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-auto"
+                        onClick={() => setForm({ ...form, escalationTiers: form.escalationTiers.filter((_, position) => position !== index) })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                      {approvers.map((approver) => (
+                        <label key={approver.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={tier.recipients.includes(approver.id)}
+                            onCheckedChange={(checked) =>
+                              updateTier(index, {
+                                recipients: checked === true
+                                  ? [...tier.recipients, approver.id]
+                                  : tier.recipients.filter((id) => id !== approver.id),
+                              })
+                            }
+                          />
+                          {approver.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={addTier} disabled={form.escalationTiers.length >= 5}>
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add Escalation Tier
+                  </Button>
+                  <Button
+                    onClick={() => saveMutation.mutate()}
+                    disabled={!Number(form.targetHours) || form.escalationTiers.some((tier) => tier.recipients.length === 0) || saveMutation.isPending}
+                    data-testid="button-save-sla-policy"
+                  >
+                    Save Policy
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    </div>
+  );
+}
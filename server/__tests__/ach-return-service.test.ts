@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const {
+  parseNocCorrection,
+  bankAccountActionFor,
+  describeAchReason,
+  isNotificationOfChange,
+  summarizeReturnRates,
+  matchOriginatedEntry,
+} = await import("../services/ach-return-service");
+
+describe("ACH reason codes", () => {
+  it("maps return codes to bank account actions", () => {
+    expect(bankAccountActionFor("R01")).toBe("none");
+    expect(bankAccountActionFor("r03")).toBe("deactivate");
+    expect(bankAccountActionFor("R29")).toBe("unverify");
+    expect(bankAccountActionFor("C01")).toBe("none");
+  });
+
+  it("describes known and unknown codes", () => {
+    expect(describeAchReason("R03")).toBe("No account/unable to locate account");
+    expect(describeAchReason("C02")).toBe("Incorrect routing number");
+    expect(describeAchReason("R99")).toBe("ACH reason R99");
+    expect(isNotificationOfChange("C05")).toBe(true);
+    expect(isNotificationOfChange("R01")).toBe(false);
+  });
+});
+
+describe("parseNocCorrection", () => {
+  it("reads the corrected fields for each NOC layout", () => {
+    expect(parseNocCorrection("C01", "5550001          ")).toEqual({ accountNumber: "5550001" });
+    expect(parseNocCorrection("C02", "021000021")).toEqual({ routingNumber: "021000021" });
+    expect(parseNocCorrection("C03", "021000021   5550001")).toEqual({
+      routingNumber: "021000021",
+      accountNumber: "5550001",
+    });
+    expect(parseNocCorrection("C05", "32")).toEqual({ accountType: "savings" });
+    expect(parseNocCorrection("C06", "5550001".padEnd(20, " ") + "22")).toEqual({
+      accountNumber: "5550001",
+      accountType: "checking",
+    });
+    expect(parseNocCorrection("C07", "021000021" + "5550001".padEnd(17, " ") + "37")).toEqual({
+      routingNumber: "021000021",
+      accountNumber: "5550001",
+      accountType: "savings",
+    });
+  });
+
+  it("ignores codes that carry no account correction", () => {
+    expect(parseNocCorrection("C09", "anything")).toEqual({});
+  });
+});
+
+describe("summarizeReturnRates", () => {
+  it("computes rates per originator and provider against the thresholds", () => {
+    const rows = summarizeReturnRates(
+      [
+        { originatorId: "orig-1", provider: null, name: "Payroll", entryCount: 400 },
+        { originatorId: null, provider: "dwolla", name: "dwolla", entryCount: 100 },
+      ],
+      [
+        { originatorId: "orig-1", provider: null, reasonCode: "R01", type: "return" },
+        { originatorId: "orig-1", provider: null, reasonCode: "R03", type: "return" },
+        { originatorId: "orig-1", provider: null, reasonCode: "C01", type: "notification_of_change" },
+        { originatorId: null, provider: "dwolla", reasonCode: "R10", type: "return" },
+      ]
+    );
+
+    expect(rows[0]).toMatchObject({
+      returnCount: 2,
+      administrativeCount: 1,
+      returnRate: 0.005,
+      administrativeRate: 0.0025,
+      exceedsThreshold: false,
+    });
+    expect(rows[1]).toMatchObject({ returnCount: 1, unauthorizedCount: 1, unauthorizedRate: 0.01, exceedsThreshold: true });
+  });
+});
+
+describe("matchOriginatedEntry", () => {
+  const originated = (overrides: Record<string, unknown> = {}) => ({
+    id: "entry-1",
+    organizationId: "org-1",
+    fileId: "file-1",
+    originatorId: "orig-1",
+    batchNumber: 1,
+    traceNumber: "121000240000001",
+    secCode: "PPD",
+    transactionCode: "22",
+    sourceType: "payment",
+    sourceId: "payment-1",
+    receiverBankAccountId: null,
+    receiverName: "JANE DOE",
+    routingNumber: "021000021",
+    accountNumberLast4: "4321",
+    amount: "150.00",
+    createdAt: null,
+    ...overrides,
+  }) as any;
+  const notice = { originalTraceNumber: "121000240000001", routingNumber: "021000021", accountNumber: "987654321", amountCents: 15000 };
+
+  it("narrows a reused trace number by receiver and amount", () => {
+    const rows = [originated(), originated({ id: "entry-2", sourceId: "payment-2", amount: "80.00" })];
+    expect(matchOriginatedEntry(notice, rows)).toEqual({ entry: rows[0] });
+    // A NOC carries no amount, so only the receiver can tell entries apart
+    expect(matchOriginatedEntry({ ...notice, amountCents: 0 }, rows)).toEqual({ reason: "ambiguous" });
+  });
+
+  it("rejects an ambiguous match instead of taking the first row", () => {
+    const rows = [originated(), originated({ id: "entry-2", fileId: "file-2", sourceId: "payment-2" })];
+    expect(matchOriginatedEntry(notice, rows)).toEqual({ reason: "ambiguous" });
+    expect(matchOriginatedEntry({ ...notice, routingNumber: "011000015" }, rows)).toEqual({ reason: "unmatched" });
+  });
+});
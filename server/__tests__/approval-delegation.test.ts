@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { ruleApplies, resolveDelegate, workflowAmount, approverSeats, ApprovalDelegationService } = await import(
+  "../services/approval-delegation"
+);
+const { saveApprovalDelegationSchema } = await import("@shared/workflow-schema");
+
+const rule = (overrides: Record<string, unknown> = {}) => ({
+  id: "rule-1",
+  organizationId: "org-1",
+  delegatorId: "alice",
+  delegateId: "bob",
+  startsAt: new Date("2026-07-01T00:00:00Z"),
+  endsAt: new Date("2026-07-14T23:59:59Z"),
+  workflowTypes: null,
+  maxAmount: null,
+  reason: null,
+  isActive: true,
+  createdBy: "alice",
+  createdAt: new Date("2026-06-20T00:00:00Z"),
+  revokedAt: null,
+  ...overrides,
+}) as any;
+
+const context = { type: "payment_approval", amount: 5000, at: new Date("2026-07-03T15:00:00Z") };
+const nobodyAway = new Set<string>();
+
+describe("ruleApplies", () => {
+  it("applies an out-of-office window only between its dates", () => {
+    expect(ruleApplies(rule(), context, false)).toBe(true);
+    expect(ruleApplies(rule(), { ...context, at: new Date("2026-07-20T00:00:00Z") }, false)).toBe(false);
+    expect(ruleApplies(rule({ isActive: false }), context, false)).toBe(false);
+  });
+
+  it("applies an undated rule only while the delegator is on approved leave", () => {
+    const standing = rule({ startsAt: null, endsAt: null });
+    expect(ruleApplies(standing, context, false)).toBe(false);
+    expect(ruleApplies(standing, context, true)).toBe(true);
+  });
+
+  it("respects workflow types and the amount ceiling", () => {
+    expect(ruleApplies(rule({ workflowTypes: ["expense_approval"] }), context, false)).toBe(false);
+    expect(ruleApplies(rule({ workflowTypes: ["payment_approval"] }), context, false)).toBe(true);
+    expect(ruleApplies(rule({ maxAmount: 1000 }), context, false)).toBe(false);
+    expect(ruleApplies(rule({ maxAmount: 10000 }), context, false)).toBe(true);
+    expect(workflowAmount({ amount: "2500.00" })).toBe(2500);
+    expect(workflowAmount({})).toBeNull();
+  });
+});
+
+describe("resolveDelegate", () => {
+  it("follows a chain when the delegate is away too", () => {
+    const rules = [rule(), rule({ id: "rule-2", delegatorId: "bob", delegateId: "carol", startsAt: null, endsAt: null })];
+
+    expect(resolveDelegate("alice", context, rules, nobodyAway)?.delegateId).toBe("bob");
+    const resolved = resolveDelegate("alice", context, rules, new Set(["bob"]));
+    expect(resolved?.delegateId).toBe("carol");
+    expect(resolved?.chain.map((link) => link.id)).toEqual(["rule-1", "rule-2"]);
+  });
+
+  it("prefers an out-of-office window over a standing leave rule", () => {
+    const rules = [rule({ id: "standing", delegateId: "dave", startsAt: null, endsAt: null }), rule()];
+    expect(resolveDelegate("alice", context, rules, new Set(["alice"]))?.delegateId).toBe("bob");
+  });
+
+  it("leaves the approval in place for loops and ineligible delegates", () => {
+    const loop = [rule(), rule({ id: "rule-2", delegatorId: "bob", delegateId: "alice" })];
+    expect(resolveDelegate("alice", context, loop, nobodyAway)).toBeNull();
+
+    // The delegate requested the payment, or already sits at this approval level
+    expect(resolveDelegate("alice", context, [rule()], nobodyAway, new Set(["bob"]))).toBeNull();
+    expect(resolveDelegate("erin", context, [rule()], nobodyAway)).toBeNull();
+  });
+});
+
+describe("ApprovalDelegationService.routeApprovals", () => {
+  // Records the delegations written, answering each update with the rerouted approval
+  const recorder = () => {
+    const delegated: Array<{ id: string; delegatedTo: string }> = [];
+    const executor = {
+      update: () => ({
+        set: (values: any) => ({
+          where: () => ({
+            returning: async () => {
+              const id = `approval-${delegated.length + 1}`;
+              delegated.push({ id, delegatedTo: values.delegatedTo });
+              return [{ id, delegatedTo: values.delegatedTo }];
+            },
+          }),
+        }),
+      }),
+      insert: () => ({ values: async () => [] }),
+    } as any;
+    return { delegated, executor };
+  };
+
+  const workflow = { id: "wf-1", organizationId: "org-1", type: "payment_approval", initiatorId: "erin", currentLevel: 1, data: {} } as any;
+  const seat = (id: string, approverId: string, overrides: Record<string, unknown> = {}) =>
+    ({ id, workflowId: "wf-1", level: 1, approverId, action: null, delegatedTo: null, ...overrides }) as any;
+  const toCarol = (delegatorId: string) => rule({ id: `rule-${delegatorId}`, delegatorId, delegateId: "carol", startsAt: null, endsAt: null });
+
+  it("gives one delegate at most one seat at a level", async () => {
+    const { delegated, executor } = recorder();
+    const routing = { rules: [toCarol("alice"), toCarol("dan")], onLeave: new Set(["alice", "dan"]) };
+
+    await new ApprovalDelegationService().routeApprovals(workflow, [seat("a", "alice"), seat("d", "dan")], routing, executor);
+
+    expect(delegated.map((entry) => entry.delegatedTo)).toEqual(["carol"]);
+  });
+
+  it("skips a delegate who already covers another seat at the level", async () => {
+    const { delegated, executor } = recorder();
+    const routing = { rules: [toCarol("dan")], onLeave: new Set(["dan"]) };
+    const approvals = [seat("a", "alice", { delegatedTo: "carol" }), seat("d", "dan")];
+
+    await new ApprovalDelegationService().routeApprovals(workflow, approvals, routing, executor);
+
+    expect(delegated).toEqual([]);
+  });
+});
+
+describe("approverSeats", () => {
+  it("collects the types each user approves from definitions and workflow rules", () => {
+    const stage = (approvers: string[][]) => ({
+      id: "stage",
+      name: "Stage",
+      groups: approvers.map((group, index) => ({ id: `g${index}`, name: "Group", approvers: group, quorum: "all" as const })),
+    });
+    const seats = approverSeats(
+      [{ type: "payment_approval", stages: [stage([["alice"], ["carol"]]), stage([["dave"]])] }],
+      [{ type: "leave_request", approvalMatrix: { levels: [{ approvers: ["alice"] }, { approvers: ["erin"] }] } }]
+    );
+
+    expect(seats.get("alice")).toEqual(new Set(["payment_approval", "leave_request"]));
+    expect(seats.get("dave")).toEqual(new Set(["payment_approval"]));
+    expect(seats.get("erin")).toEqual(new Set(["leave_request"]));
+    expect(seats.has("bob")).toBe(false);
+  });
+});
+
+describe("saveApprovalDelegationSchema", () => {
+  it("needs both ends of an out-of-office window in order", () => {
+    expect(saveApprovalDelegationSchema.safeParse({ delegateId: "bob" }).success).toBe(true);
+    expect(saveApprovalDelegationSchema.safeParse({ delegateId: "bob", startsAt: "2026-07-01" }).success).toBe(false);
+    expect(
+      saveApprovalDelegationSchema.safeParse({ delegateId: "bob", startsAt: "2026-07-10", endsAt: "2026-07-01" }).success
+    ).toBe(false);
+  });
+});
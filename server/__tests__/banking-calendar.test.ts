@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { BankingCalendar, addBusinessDays, businessDaysBetween, federalReserveCalendar } from "../services/banking-calendar";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("addBusinessDays", () => {
+  it("skips weekends and Fed holidays and keeps the time of day", () => {
+    // Friday before Labor Day 2025
+    expect(addBusinessDays(new Date("2025-08-29T15:30:00Z"), 1)).toEqual(new Date("2025-09-02T15:30:00Z"));
+    expect(addBusinessDays(day("2025-11-26"), 2)).toEqual(day("2025-12-01")); // over Thanksgiving
+    expect(addBusinessDays(day("2025-12-01"), -2)).toEqual(day("2025-11-26"));
+    expect(addBusinessDays(day("2025-06-14"), 0)).toEqual(day("2025-06-14"));
+  });
+});
+
+describe("businessDaysBetween", () => {
+  it("counts banking days after the start up to the end", () => {
+    expect(businessDaysBetween(day("2025-12-24"), day("2025-12-29"))).toBe(2); // 26th and 29th
+    expect(businessDaysBetween(day("2025-03-07"), day("2025-03-09"))).toBe(0); // Friday to Sunday
+    expect(businessDaysBetween(day("2025-03-10"), day("2025-03-03"))).toBe(-5);
+  });
+});
+
+describe("businessHoursBetween", () => {
+  const utc = { open: 9, close: 17, timeZone: "UTC" };
+
+  it("counts only office hours on business days", () => {
+    // Thursday 15:00 to Monday 10:00: 2 + 8 + 1 hours
+    expect(federalReserveCalendar.businessHoursBetween(new Date("2026-03-12T15:00:00Z"), new Date("2026-03-16T10:00:00Z"), utc)).toBe(11);
+    // Wednesday evening to the Friday after Thanksgiving morning skips the holiday
+    expect(federalReserveCalendar.businessHoursBetween(new Date("2025-11-26T18:00:00Z"), new Date("2025-11-28T11:00:00Z"), utc)).toBe(2);
+  });
+
+  it("uses the office's time zone, including daylight saving", () => {
+    // 11:00 Thursday in New York (UTC-4) to 06:00 Monday, before the office opens
+    expect(federalReserveCalendar.businessHoursBetween(new Date("2026-03-12T15:00:00Z"), new Date("2026-03-16T10:00:00Z"))).toBe(14);
+    expect(federalReserveCalendar.businessHoursBetween(new Date("2026-03-16T10:00:00Z"), new Date("2026-03-12T15:00:00Z"))).toBe(0);
+  });
+});
+
+describe("organization closures", () => {
+  const calendar = new BankingCalendar([day("2025-12-26"), new Date("2025-11-28T17:00:00Z")]);
+
+  it("closes the organization's own days on top of the Fed calendar", () => {
+    expect(calendar.isBusinessDay(day("2025-12-26"))).toBe(false);
+    expect(federalReserveCalendar.isBusinessDay(day("2025-12-26"))).toBe(true);
+    expect(calendar.nextBusinessDay(day("2025-11-27"))).toEqual(day("2025-12-01"));
+    expect(calendar.businessDaysBetween(day("2025-12-24"), day("2025-12-29"))).toBe(1);
+  });
+
+  it("rolls scheduled dates around closures", () => {
+    expect(calendar.rollToBusinessDay(day("2025-12-26"), "following")).toEqual(day("2025-12-29"));
+    expect(calendar.rollToBusinessDay(day("2025-11-29"), "modified_following")).toEqual(day("2025-11-26"));
+  });
+});
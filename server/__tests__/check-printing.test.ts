@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { amountInWords, formatCheckAmount, micrLine, renderChecksPdf } = await import("../services/check-printing");
+const { buildPositivePayFile } = await import("../services/check-service");
+
+const face = {
+  checkNumber: 1042,
+  issueDate: new Date(2025, 5, 15),
+  payeeName: "Acme Paving (North)",
+  payeeAddress: "12 Main St\nSpringfield, IL 62701",
+  amount: "1250.50",
+  memo: "Invoice 88",
+  reference: "Road resurfacing",
+  organizationName: "City of Springfield",
+  organizationAddress: "800 E Monroe St",
+  bankName: "First National",
+  routingNumber: "021000021",
+  accountNumber: "123456789",
+  signatureLine: null,
+};
+
+describe("check face", () => {
+  it("writes the legal amount in words", () => {
+    expect(amountInWords("1250.50")).toBe("One thousand two hundred fifty and 50/100");
+    expect(amountInWords(0.07)).toBe("Zero and 07/100");
+    expect(amountInWords("2000019.99")).toBe("Two million nineteen and 99/100");
+    expect(amountInWords("45")).toBe("Forty-five and 00/100");
+  });
+
+  it("formats the courtesy amount with thousands separators", () => {
+    expect(formatCheckAmount("1234567.8")).toBe("1,234,567.80");
+  });
+
+  it("builds the MICR line with on-us and transit symbols", () => {
+    expect(micrLine(1042, "021000021", "1234-5678")).toBe("C001042C A021000021A 1234D5678C");
+  });
+});
+
+describe("renderChecksPdf", () => {
+  it("writes one page per check with a valid cross-reference table", () => {
+    const pdf = renderChecksPdf([face, { ...face, checkNumber: 1043 }]).toString("latin1");
+
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("/Count 2");
+    expect(pdf).toContain("/BaseFont /GnuMICR");
+    expect(pdf).toContain("(C001043C A021000021A 123456789C) Tj");
+    expect(pdf).toContain("(Acme Paving \\(North\\)) Tj");
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe("xref");
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+});
+
+describe("buildPositivePayFile", () => {
+  const items = [
+    { checkNumber: 1042, amount: "1250.50", issueDate: new Date(2025, 5, 15), payeeName: "Acme, Inc", status: "printed" as const },
+    { checkNumber: 1043, amount: "75.00", issueDate: new Date(2025, 5, 16), payeeName: "Parks Dept", status: "voided" as const },
+  ];
+
+  it("exports CSV issue records with void indicators", () => {
+    expect(buildPositivePayFile("1234-56789", items, "csv").split("\r\n")).toEqual([
+      "Account Number,Check Number,Issue Date,Amount,Payee,Status",
+      '123456789,1042,06/15/2025,1250.50,"Acme, Inc",I',
+      "123456789,1043,06/16/2025,75.00,Parks Dept,V",
+      "",
+    ]);
+  });
+
+  it("exports 80-character fixed-width records with a trailer", () => {
+    const records = buildPositivePayFile("123456789", items, "fixed_width").split("\r\n").filter(Boolean);
+
+    expect(records.every((record) => record.length === 80)).toBe(true);
+    expect(records[0].slice(0, 46)).toBe("D000000123456789000000104200000012505006152025");
+    expect(records[1][46]).toBe("V");
+    expect(records[2].slice(0, 26)).toBe("T0000000002000000000132550");
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { allocateLots, valueOf, isAddressAvailable, countDistinctApprovers, screeningOutcome } = await import(
+  "../services/digital-asset-service"
+);
+
+const lot = (id: string, remainingQuantity: string, unitCost: string) => ({ id, remainingQuantity, unitCost });
+
+describe("allocateLots", () => {
+  it("consumes the oldest lots first and sums their cost", () => {
+    const lots = [lot("lot-1", "0.40000000", "30000"), lot("lot-2", "1.00000000", "60000")];
+
+    expect(allocateLots(lots, "0.5")).toEqual({
+      allocations: [
+        { lotId: "lot-1", quantity: "0.40000000", cost: "12000.00" },
+        { lotId: "lot-2", quantity: "0.10000000", cost: "6000.00" },
+      ],
+      costBasis: "18000.00",
+      shortfall: "0.00000000",
+    });
+  });
+
+  it("skips exhausted lots and reports what the lots cannot cover", () => {
+    const { allocations, costBasis, shortfall } = allocateLots([lot("lot-1", "0", "1"), lot("lot-2", "250.5", "1")], 300);
+    expect(allocations).toEqual([{ lotId: "lot-2", quantity: "250.50000000", cost: "250.50" }]);
+    expect(costBasis).toBe("250.50");
+    expect(shortfall).toBe("49.50000000");
+  });
+});
+
+describe("valueOf", () => {
+  it("values small quantities without rounding them to cents first", () => {
+    expect(valueOf("0.00012345", "65000")).toBe("8.02");
+    expect(valueOf("1500", "1")).toBe("1500.00");
+  });
+});
+
+describe("isAddressAvailable", () => {
+  const now = new Date("2025-06-02T12:00:00Z");
+
+  it("holds new addresses until the cooling-off period ends", () => {
+    expect(isAddressAvailable({ status: "active", availableAt: new Date("2025-06-03T00:00:00Z") }, now)).toBe(false);
+    expect(isAddressAvailable({ status: "active", availableAt: new Date("2025-06-01T00:00:00Z") }, now)).toBe(true);
+  });
+
+  it("never allows blocked or revoked addresses", () => {
+    expect(isAddressAvailable({ status: "blocked", availableAt: new Date("2025-01-01T00:00:00Z") }, now)).toBe(false);
+    expect(isAddressAvailable({ status: "revoked", availableAt: new Date("2025-01-01T00:00:00Z") }, now)).toBe(false);
+  });
+});
+
+describe("countDistinctApprovers", () => {
+  it("counts each approver once and ignores the requester and non-approvals", () => {
+    const approvals = [
+      { approverId: "treasurer", action: "approve" },
+      { approverId: "treasurer", action: "approve" },
+      { approverId: "requester", action: "approve" },
+      { approverId: "controller", action: null },
+      { approverId: "auditor", action: "approve" },
+    ];
+    expect(countDistinctApprovers(approvals, "requester")).toBe(2);
+  });
+
+  it("counts who acted, so a delegate covering two seats is one approver", () => {
+    const approvals = [
+      { approverId: "treasurer", actedBy: "deputy", action: "approve" },
+      { approverId: "controller", actedBy: "deputy", action: "approve" },
+    ];
+    expect(countDistinctApprovers(approvals, "requester")).toBe(1);
+    expect(countDistinctApprovers([{ approverId: "treasurer", actedBy: "requester", action: "approve" }], "requester")).toBe(0);
+  });
+});
+
+describe("screeningOutcome", () => {
+  it("clears an address only when every provider approves it", () => {
+    expect(screeningOutcome({ ofac: { success: true, approved: true, flags: [] } })).toEqual({ cleared: true, flags: [] });
+
+    expect(
+      screeningOutcome({
+        ofac: { success: true, approved: false, flags: ["ofac_sdn"] },
+        verafin: { success: true, approved: true, requiresReview: true },
+        lexisnexis: { success: false, error: "timeout" },
+      })
+    ).toEqual({ cleared: false, flags: ["ofac:ofac_sdn", "verafin:not_approved", "lexisnexis:timeout"] });
+  });
+});
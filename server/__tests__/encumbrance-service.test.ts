@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Encumbrance } from "@shared/encumbrance-schema";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { summarizeBudgetLine, assertFundsAvailable, remainingEncumbrance, chargeIncrease, EncumbranceService } = await import(
+  "../services/encumbrance-service"
+);
+const { LedgerError } = await import("../services/ledger-service");
+
+const category = { id: "cat-1", name: "Road Maintenance", allocatedAmount: "10000.00" };
+
+const encumbrance = (overrides: Partial<Encumbrance> = {}): Encumbrance => ({
+  id: "enc-1",
+  organizationId: "org-1",
+  budgetCategoryId: "cat-1",
+  type: "encumbrance",
+  sourceType: "purchase_order",
+  sourceId: "po-1",
+  amount: "4000.00",
+  liquidatedAmount: "0",
+  status: "open",
+  convertedToId: null,
+  createdBy: "user-1",
+  closedAt: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+describe("summarizeBudgetLine", () => {
+  it("subtracts pre-encumbrances, unliquidated encumbrances and expenditures from the appropriation", () => {
+    const balance = summarizeBudgetLine(
+      category,
+      [
+        encumbrance({ type: "pre_encumbrance", amount: "1500.00" }),
+        encumbrance({ amount: "4000.00", liquidatedAmount: "1000.00" }),
+      ],
+      "2500.00"
+    );
+
+    expect(balance.preEncumbered).toBe("1500.00");
+    expect(balance.encumbered).toBe("3000.00");
+    expect(balance.expended).toBe("2500.00");
+    expect(balance.available).toBe("3000.00");
+  });
+
+  it("never counts more than the original amount as remaining", () => {
+    expect(remainingEncumbrance({ amount: "100.00", liquidatedAmount: "150.00" })).toBe(0);
+  });
+});
+
+describe("assertFundsAvailable", () => {
+  const balance = summarizeBudgetLine(category, [], "9000.00");
+
+  it("rejects charges that would take the line negative", () => {
+    expect(() => assertFundsAvailable(balance, "1000.01")).toThrow(LedgerError);
+    expect(() => assertFundsAvailable(balance, "1000.01")).toThrow(/Insufficient budget on Road Maintenance/);
+  });
+
+  it("allows a charge to spend down its own encumbrance", () => {
+    expect(() => assertFundsAvailable(balance, "1000.00")).not.toThrow();
+    expect(() => assertFundsAvailable(balance, "3000.00", "2000.00")).not.toThrow();
+  });
+});
+
+describe("EncumbranceService payment reservation", () => {
+  it("liquidates up to the remaining purchase order encumbrance", async () => {
+    const service = new EncumbranceService();
+    const getOpenEncumbrance = vi.spyOn(service, "getOpenEncumbrance").mockResolvedValue(
+      encumbrance({ amount: "4000.00", liquidatedAmount: "3500.00" })
+    );
+    const assertAvailable = vi.spyOn(service, "assertAvailable").mockResolvedValue();
+
+    const reservation = await service.reservePayment({
+      amount: "800.00",
+      type: "vendor",
+      organizationId: "org-1",
+      purchaseOrderId: "po-1",
+      createdBy: "user-1",
+    });
+
+    expect(reservation.budgetCategoryId).toBe("cat-1");
+    expect(reservation.liquidation).toBe("500.00");
+    expect(assertAvailable).toHaveBeenCalledWith("org-1", "cat-1", "800.00", expect.anything(), "500.00");
+    // Locked so a concurrent payment against the order cannot liquidate from the same stale balance
+    expect(getOpenEncumbrance).toHaveBeenCalledWith("org-1", "purchase_order", "po-1", expect.anything(), { lock: true });
+  });
+
+  it("skips the budget check for payments without a budget line", async () => {
+    const service = new EncumbranceService();
+    const assertAvailable = vi.spyOn(service, "assertAvailable").mockResolvedValue();
+
+    const reservation = await service.reservePayment({
+      amount: "800.00",
+      type: "vendor",
+      organizationId: "org-1",
+      createdBy: "user-1",
+    });
+
+    expect(reservation).toEqual({ budgetCategoryId: null, encumbrance: undefined, liquidation: "0" });
+    expect(assertAvailable).not.toHaveBeenCalled();
+  });
+
+  it("charges foreign-currency payments at their base amount", async () => {
+    const service = new EncumbranceService();
+    const assertAvailable = vi.spyOn(service, "assertAvailable").mockResolvedValue();
+
+    await service.reservePayment({
+      amount: "1000.00",
+      currency: "EUR",
+      baseAmount: "1085.00",
+      type: "vendor",
+      organizationId: "org-1",
+      budgetCategoryId: "cat-1",
+      createdBy: "user-1",
+    });
+
+    expect(assertAvailable).toHaveBeenCalledWith("org-1", "cat-1", "1085.00", expect.anything(), "0");
+  });
+});
+
+describe("chargeIncrease", () => {
+  const charge = { budgetCategoryId: "cat-1", amount: "500.00", voided: false };
+
+  it("checks only the raise when an amount goes up on the same line", () => {
+    expect(chargeIncrease(charge, { ...charge, amount: "650.00" })).toBe("150.00");
+    expect(chargeIncrease(charge, { ...charge, amount: "400.00" })).toBe("0.00");
+  });
+
+  it("checks the whole charge when it moves line or comes back from void", () => {
+    expect(chargeIncrease(charge, { ...charge, budgetCategoryId: "cat-2" })).toBe("500.00");
+    expect(chargeIncrease({ ...charge, voided: true }, charge)).toBe("500.00");
+    expect(chargeIncrease(charge, { ...charge, amount: "900.00", voided: true })).toBe("0");
+    expect(chargeIncrease(charge, { ...charge, budgetCategoryId: null })).toBe("0");
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { lifecycleFor, lifecycleEntityTypes, needsWorkflow, awaitsWriteBack, outcomeStatus, applyCardOutcome, entityLifecycleService } = await import(
+  "../services/entity-lifecycle"
+);
+const { workflowTypeEnum } = await import("@shared/workflow-schema");
+const { paymentServiceManager } = await import("../services/provider-factory");
+const { SandboxProvider } = await import("../services/sandbox-provider");
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+
+const submitted = ["submitted"];
+const at = (iso: string) => new Date(iso);
+
+describe("entity lifecycles", () => {
+  it("maps every lifecycle entity to a known workflow type", () => {
+    for (const entityType of lifecycleEntityTypes) {
+      expect(workflowTypeEnum.enumValues).toContain(lifecycleFor(entityType)!.workflowType);
+    }
+    expect(lifecycleFor("payment")).toBeNull();
+    expect(lifecycleFor(null)).toBeNull();
+  });
+
+  it("writes decided workflows back as the entity's own statuses", () => {
+    const card = lifecycleFor("issued_card")!;
+    expect(outcomeStatus(card, "approved")).toBe("active");
+    expect(outcomeStatus(card, "rejected")).toBe("inactive");
+    expect(outcomeStatus(lifecycleFor("leave_request")!, "approved")).toBe("approved");
+    expect(outcomeStatus(lifecycleFor("timesheet")!, "in_progress")).toBeNull();
+  });
+
+  it("applies card decisions after the decision commits, since they call the issuer", () => {
+    expect(entityLifecycleService.isExternal({ entityType: "issued_card" })).toBe(true);
+    expect(entityLifecycleService.isExternal({ entityType: "purchase_requisition" })).toBe(false);
+    expect(entityLifecycleService.isExternal({ entityType: null })).toBe(false);
+  });
+});
+
+describe("needsWorkflow", () => {
+  const subject = { status: "submitted", changedAt: at("2026-07-03T10:00:00Z") };
+
+  it("opens a workflow for a submitted entity that has none", () => {
+    expect(needsWorkflow(subject, submitted, null)).toBe(true);
+    expect(needsWorkflow({ ...subject, status: "draft" }, submitted, null)).toBe(false);
+  });
+
+  it("leaves an open workflow alone", () => {
+    const open = { status: "in_progress" as const, completedAt: null, updatedAt: at("2026-07-03T11:00:00Z") };
+    expect(needsWorkflow(subject, submitted, open)).toBe(false);
+  });
+
+  it("opens a new workflow only when the entity was resubmitted after the last decision", () => {
+    const rejected = { status: "rejected" as const, completedAt: at("2026-07-02T09:00:00Z"), updatedAt: null };
+    expect(needsWorkflow(subject, submitted, rejected)).toBe(true);
+
+    // Decided after the entity last changed: the write-back is still to land, not a resubmission
+    const decidedLater = { ...rejected, completedAt: at("2026-07-03T12:00:00Z") };
+    expect(needsWorkflow(subject, submitted, decidedLater)).toBe(false);
+  });
+});
+
+describe("awaitsWriteBack", () => {
+  const subject = { status: "submitted", changedAt: at("2026-07-03T10:00:00Z") };
+  const approved = { status: "approved" as const, completedAt: at("2026-07-03T12:00:00Z"), updatedAt: null };
+
+  it("re-applies a decision that never reached the entity", () => {
+    expect(awaitsWriteBack(subject, submitted, approved)).toBe(true);
+    expect(awaitsWriteBack(subject, submitted, { ...approved, status: "rejected" })).toBe(true);
+  });
+
+  it("ignores open workflows, entities that moved on and resubmissions", () => {
+    expect(awaitsWriteBack(subject, submitted, { ...approved, status: "in_progress", completedAt: null })).toBe(false);
+    expect(awaitsWriteBack({ ...subject, status: "approved" }, submitted, approved)).toBe(false);
+    expect(awaitsWriteBack({ ...subject, changedAt: at("2026-07-04T09:00:00Z") }, submitted, approved)).toBe(false);
+    expect(awaitsWriteBack(subject, submitted, null)).toBe(false);
+  });
+});
+
+describe("applyCardOutcome", () => {
+  const issuer = () => new SandboxProvider({ webhookSecret: "whsec_sandbox", autoDeliver: false, seed: "test" }, async () => ({ status: 200 }));
+
+  it("activates an approved card and blocks a refused one at the issuer", async () => {
+    const provider = issuer();
+    vi.spyOn(paymentServiceManager, "getProvider").mockReturnValue(provider);
+    const { cardId } = await provider.issueCard("Pat Lee", "virtual");
+    const card = { organizationId: "org-1", provider: "sandbox" as const, externalCardId: cardId! };
+
+    const activate = vi.spyOn(provider, "activateCard");
+    const block = vi.spyOn(provider, "blockCard");
+    await applyCardOutcome(card, "active");
+    await applyCardOutcome(card, "inactive");
+    expect(activate).toHaveBeenCalledWith(cardId);
+    expect(block).toHaveBeenCalledWith(cardId);
+  });
+
+  it("fails when the issuer can't act on the card, leaving the status to be retried", async () => {
+    vi.spyOn(paymentServiceManager, "getProvider").mockReturnValue(issuer());
+    const card = { organizationId: "org-1", provider: "sandbox" as const, externalCardId: "missing" };
+    await expect(applyCardOutcome(card, "inactive")).rejects.toMatchObject({ statusCode: 502, message: "Card not found" });
+
+    vi.spyOn(paymentServiceManager, "getProvider").mockReturnValue(undefined);
+    await expect(applyCardOutcome(card, "active")).rejects.toMatchObject({ statusCode: 502 });
+    await expect(applyCardOutcome({ ...card, externalCardId: null }, "active")).resolves.toBeUndefined();
+  });
+});
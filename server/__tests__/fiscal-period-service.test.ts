@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { buildFiscalPeriods, assertTransitionAllowed, cascadedPeriodStatuses, FiscalPeriodService } = await import(
+  "../services/fiscal-period-service"
+);
+
+// Stands in for the single-row period lookup assertDateOpen makes
+const periodLookup = (rows: Array<Record<string, unknown>>) =>
+  ({
+    select: () => ({ from: () => ({ where: () => ({ limit: async () => rows }) }) }),
+  }) as any;
+
+const period = (status: string) => ({ id: "period-1", name: "2026-03", status });
+
+describe("buildFiscalPeriods", () => {
+  it("builds twelve calendar months from the start of the fiscal year", () => {
+    const periods = buildFiscalPeriods(new Date(2026, 6, 1), 2027);
+
+    expect(periods).toHaveLength(12);
+    expect(periods.map((p) => p.periodNumber)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    expect(periods[0]).toMatchObject({ name: "2026-07", fiscalYear: 2027, startDate: new Date(2026, 6, 1) });
+    expect(periods[11]).toMatchObject({ name: "2027-06", endDate: new Date(2027, 5, 30, 23, 59, 59, 999) });
+  });
+
+  it("ends each period on the last moment of its month, leap days included", () => {
+    const periods = buildFiscalPeriods(new Date(2028, 0, 1), 2028);
+
+    expect(periods[1].endDate).toEqual(new Date(2028, 1, 29, 23, 59, 59, 999));
+    periods.slice(1).forEach((current, index) => {
+      expect(current.startDate.getTime() - periods[index].endDate.getTime()).toBe(1);
+    });
+  });
+});
+
+describe("assertTransitionAllowed", () => {
+  it("lets open and soft-closed periods move freely and hard-close", () => {
+    expect(() => assertTransitionAllowed("open", "soft_closed")).not.toThrow();
+    expect(() => assertTransitionAllowed("open", "hard_closed")).not.toThrow();
+    expect(() => assertTransitionAllowed("soft_closed", "open")).not.toThrow();
+    expect(() => assertTransitionAllowed("soft_closed", "hard_closed")).not.toThrow();
+    expect(() => assertTransitionAllowed("open", "open")).not.toThrow();
+  });
+
+  it("treats a hard close as final", () => {
+    expect(() => assertTransitionAllowed("hard_closed", "open")).toThrow(expect.objectContaining({ statusCode: 409 }));
+    expect(() => assertTransitionAllowed("hard_closed", "soft_closed")).toThrow(
+      "Cannot change status from hard_closed to soft_closed"
+    );
+    expect(() => assertTransitionAllowed("hard_closed", "hard_closed")).not.toThrow();
+  });
+});
+
+describe("cascadedPeriodStatuses", () => {
+  it("carries a year's open periods into a close", () => {
+    expect(cascadedPeriodStatuses("soft_closed")).toEqual(["open"]);
+    expect(cascadedPeriodStatuses("hard_closed")).toEqual(["open", "soft_closed"]);
+  });
+
+  it("reopens soft-closed periods but leaves individually hard-closed ones closed", () => {
+    expect(cascadedPeriodStatuses("open")).toEqual(["soft_closed"]);
+  });
+});
+
+describe("FiscalPeriodService.assertDateOpen", () => {
+  const service = new FiscalPeriodService();
+  const date = new Date(2026, 2, 15);
+
+  it("allows dates in open periods and dates with no period defined", async () => {
+    await expect(service.assertDateOpen("org-1", date, periodLookup([period("open")]))).resolves.toBeUndefined();
+    await expect(service.assertDateOpen("org-1", date, periodLookup([]))).resolves.toBeUndefined();
+  });
+
+  it("rejects dates in closed periods", async () => {
+    await expect(service.assertDateOpen("org-1", date, periodLookup([period("soft_closed")]))).rejects.toMatchObject({
+      statusCode: 409,
+      message: "Fiscal period 2026-03 is soft-closed",
+    });
+    await expect(service.assertDateOpen("org-1", date, periodLookup([period("hard_closed")]))).rejects.toMatchObject({
+      message: "Fiscal period 2026-03 is hard-closed",
+    });
+  });
+
+  it("lets adjustments into a soft-closed period only when asked", async () => {
+    const options = { allowSoftClosed: true };
+    await expect(service.assertDateOpen("org-1", date, periodLookup([period("soft_closed")]), options)).resolves.toBeUndefined();
+    await expect(service.assertDateOpen("org-1", date, periodLookup([period("hard_closed")]), options)).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Fund } from "@shared/fund-schema";
+import type { LedgerAccount } from "@shared/ledger-schema";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { buildFundBalanceSheets, summarizeGASBFundStatements, FundService } = await import("../services/fund-service");
+const { DEFAULT_CHART_OF_ACCOUNTS, ledgerService } = await import("../services/ledger-service");
+const { db } = await import("../db");
+
+const fund = (id: string, code: string, type: Fund["type"], isMajor = false): Fund => ({
+  id,
+  organizationId: "org-1",
+  code,
+  name: `Fund ${code}`,
+  type,
+  description: null,
+  isMajor,
+  isActive: true,
+  createdAt: null,
+  updatedAt: null,
+});
+
+const accounts: LedgerAccount[] = DEFAULT_CHART_OF_ACCOUNTS.map((account) => ({
+  ...account,
+  id: `acct-${account.code}`,
+  organizationId: "org-1",
+  parentAccountId: null,
+  description: null,
+  isSystem: true,
+  isActive: true,
+  createdAt: null,
+  updatedAt: null,
+}));
+
+describe("buildFundBalanceSheets", () => {
+  it("carries due-to/due-from balances from a pending interfund transfer", () => {
+    const asOf = new Date("2025-06-30T00:00:00Z");
+    const sheets = buildFundBalanceSheets(
+      [fund("f-400", "400", "capital_projects"), fund("f-100", "100", "general", true)],
+      accounts,
+      [
+        { fundId: "f-100", accountId: "acct-1000", debit: "1000.00", credit: "0" },
+        { fundId: "f-100", accountId: "acct-3000", debit: "0", credit: "1000.00" },
+        { fundId: "f-100", accountId: "acct-5800", debit: "250.00", credit: "0" },
+        { fundId: "f-100", accountId: "acct-2300", debit: "0", credit: "250.00" },
+        { fundId: "f-400", accountId: "acct-1300", debit: "250.00", credit: "0" },
+        { fundId: "f-400", accountId: "acct-4900", debit: "0", credit: "250.00" },
+      ],
+      asOf
+    );
+
+    expect(sheets.map((sheet) => sheet.code)).toEqual(["100", "400"]);
+
+    const [general, capital] = sheets;
+    expect(general.totalAssets).toBe("1000.00");
+    expect(general.dueToOtherFunds).toBe("250.00");
+    expect(general.fundBalance).toBe("750.00");
+    expect(general.totalLiabilitiesAndFundBalance).toBe(general.totalAssets);
+
+    expect(capital.dueFromOtherFunds).toBe("250.00");
+    expect(capital.fundBalance).toBe("250.00");
+    expect(capital.totalLiabilitiesAndFundBalance).toBe(capital.totalAssets);
+  });
+});
+
+describe("summarizeGASBFundStatements", () => {
+  it("reports major funds separately and aggregates nonmajor funds per category", () => {
+    const sheets = buildFundBalanceSheets(
+      [
+        fund("f-100", "100", "general"),
+        fund("f-200", "200", "special_revenue"),
+        fund("f-210", "210", "special_revenue"),
+        fund("f-600", "600", "enterprise", true),
+      ],
+      accounts,
+      [
+        { fundId: "f-200", accountId: "acct-1000", debit: "10.00", credit: "0" },
+        { fundId: "f-200", accountId: "acct-4000", debit: "0", credit: "10.00" },
+        { fundId: "f-210", accountId: "acct-1000", debit: "5.00", credit: "0" },
+        { fundId: "f-210", accountId: "acct-4000", debit: "0", credit: "5.00" },
+      ],
+      new Date()
+    );
+
+    const statements = summarizeGASBFundStatements(sheets);
+
+    expect(statements.governmentalFunds.columns.map((column) => column.label)).toEqual([
+      "Fund 100",
+      "Other Governmental Funds",
+    ]);
+    expect(statements.governmentalFunds.columns[1].fundBalance).toBe("15.00");
+    expect(statements.governmentalFunds.total.totalAssets).toBe("15.00");
+    expect(statements.proprietaryFunds.columns.map((column) => column.label)).toEqual(["Fund 600"]);
+    expect(statements.fiduciaryFunds.columns).toEqual([]);
+  });
+});
+
+describe("FundService interfund transfer settlement", () => {
+  // The transfer was read as pending, but a concurrent settle or cancel got to the row first
+  const raced = () => {
+    const service = new FundService();
+    vi.spyOn(service as any, "getPendingTransfer").mockResolvedValue({
+      id: "transfer-1",
+      fromFundId: "fund-1",
+      toFundId: "fund-2",
+      amount: "500.00",
+      status: "pending",
+    });
+    const tx = { update: () => ({ set: () => ({ where: () => ({ returning: async () => [] }) }) }) };
+    Object.assign(db, { transaction: (fn: (tx: unknown) => unknown) => fn(tx) });
+    return service;
+  };
+
+  it("settles or cancels a transfer only once", async () => {
+    const post = vi.spyOn(ledgerService, "postJournalEntry").mockResolvedValue({} as any);
+    const reverse = vi.spyOn(ledgerService, "reverseSourceEntries").mockResolvedValue(undefined as any);
+
+    await expect(raced().settleInterfundTransfer("transfer-1", "org-1", "user-1")).rejects.toMatchObject({ statusCode: 409 });
+    await expect(raced().cancelInterfundTransfer("transfer-1", "org-1", "user-1")).rejects.toMatchObject({ statusCode: 409 });
+    expect(post).not.toHaveBeenCalled();
+    expect(reverse).not.toHaveBeenCalled();
+  });
+});
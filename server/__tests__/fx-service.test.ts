@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Payment } from "@shared/schema";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { convertAmount, carryingValue, revaluationGainLoss, previousMonthEnd, parseFxRateFile, fxService } = await import(
+  "../services/fx-service"
+);
+const { realizedFxLines, LedgerService } = await import("../services/ledger-service");
+
+describe("convertAmount", () => {
+  it("converts into base currency rounded to cents", () => {
+    expect(convertAmount("100.00", "1.08345")).toBe("108.35");
+    expect(convertAmount("0.10", 3)).toBe("0.30");
+  });
+});
+
+describe("carryingValue", () => {
+  it("adds movements since the last revaluation at the base amounts they were booked at", () => {
+    const carrying = carryingValue(
+      { foreignBalance: "100.00", baseValue: "110.00" },
+      [{ amount: "100.00", baseAmount: "120.00" }],
+      "200.00",
+      "1.2"
+    );
+    expect(carrying).toBe("230.00");
+  });
+
+  it("takes balance changes with no booked movement at the given rate", () => {
+    expect(carryingValue({ foreignBalance: "100.00", baseValue: "110.00" }, [], "150.00", "1.2")).toBe("170.00");
+    expect(carryingValue({ foreignBalance: "0", baseValue: "0" }, [], "250.00", "0.9")).toBe("225.00");
+  });
+});
+
+describe("revaluationGainLoss", () => {
+  it("brings the carrying value to the balance at the closing rate", () => {
+    expect(revaluationGainLoss("1000.00", "1.10", "1050.00")).toEqual({ baseValue: "1100.00", gainLoss: "50.00" });
+    expect(revaluationGainLoss("1000.00", "1.00", "1050.00")).toEqual({ baseValue: "1000.00", gainLoss: "-50.00" });
+  });
+
+  it("does not drift when deposits arrive at a new rate between revaluations", () => {
+    // 100 EUR revalued at 1.1, 100 EUR more deposited at 1.2, revalued again at 1.2
+    const carrying = carryingValue(
+      { foreignBalance: "100.00", baseValue: "110.00" },
+      [{ amount: "100.00", baseAmount: "120.00" }],
+      "200.00",
+      "1.2"
+    );
+    const { baseValue, gainLoss } = revaluationGainLoss("200.00", "1.2", carrying);
+    expect(gainLoss).toBe("10.00");
+    expect(Number(carrying) + Number(gainLoss)).toBe(240);
+    expect(baseValue).toBe("240.00");
+  });
+});
+
+describe("previousMonthEnd", () => {
+  it("returns the last day of the prior month", () => {
+    expect(previousMonthEnd(new Date("2025-03-15T12:00:00Z"))).toEqual(new Date("2025-02-28T00:00:00Z"));
+    expect(previousMonthEnd(new Date("2025-01-01T00:00:00Z"))).toEqual(new Date("2024-12-31T00:00:00Z"));
+  });
+});
+
+describe("parseFxRateFile", () => {
+  it("parses rates and uppercases currency codes", () => {
+    const { rates, errors } = parseFxRateFile("date,from,to,rate\n2025-06-30,eur,usd,1.0712\n\n2025-06-30,GBP,USD,1.27\n");
+    expect(errors).toEqual([]);
+    expect(rates).toEqual([
+      { fromCurrency: "EUR", toCurrency: "USD", rate: "1.0712", rateDate: new Date("2025-06-30T00:00:00Z") },
+      { fromCurrency: "GBP", toCurrency: "USD", rate: "1.27", rateDate: new Date("2025-06-30T00:00:00Z") },
+    ]);
+  });
+
+  it("accepts base/quote headers in any order", () => {
+    const { rates } = parseFxRateFile("Rate,Quote,Base,Rate_Date\n0.92,EUR,USD,2025-07-01");
+    expect(rates).toEqual([
+      { fromCurrency: "USD", toCurrency: "EUR", rate: "0.92", rateDate: new Date("2025-07-01T00:00:00Z") },
+    ]);
+  });
+
+  it("reports missing columns and bad lines by line number", () => {
+    expect(parseFxRateFile("date,from,rate\n").errors).toEqual([{ line: 1, message: "Missing columns: toCurrency" }]);
+
+    const { rates, errors } = parseFxRateFile(
+      "date,from,to,rate\n2025-06-30,EUR,EUR,1\n2025-06-30,EUR,USD,-2\n06/30/2025,EUR,USD,1.07"
+    );
+    expect(rates).toEqual([]);
+    expect(errors.map((error) => error.line)).toEqual([2, 3, 4]);
+  });
+});
+
+describe("realizedFxLines", () => {
+  it("credits a gain when settling costs less than booked and debits a loss otherwise", () => {
+    expect(realizedFxLines("1080.00", "1070.00")).toEqual([
+      { accountCode: "4950", credit: "10.00", memo: "Realized FX gain" },
+    ]);
+    expect(realizedFxLines("1080.00", "1095.50")).toEqual([
+      { accountCode: "5950", debit: "15.50", memo: "Realized FX loss" },
+    ]);
+    expect(realizedFxLines("1080.00", "1080.00")).toEqual([]);
+  });
+});
+
+describe("LedgerService settlement of foreign-currency payments", () => {
+  const payment = (overrides: Partial<Payment> = {}): Payment => ({
+    id: "payment-1",
+    amount: "1000.00",
+    currency: "EUR",
+    exchangeRate: "1.08000000",
+    baseAmount: "1080.00",
+    description: "Conference venue",
+    type: "vendor",
+    status: "pending",
+    vendorId: "vendor-1",
+    budgetCategoryId: null,
+    organizationId: "org-1",
+    fundId: null,
+    purchaseOrderId: null,
+    contractId: null,
+    payeeBankAccountId: null,
+    dueDate: null,
+    processedDate: new Date("2025-07-10T00:00:00Z"),
+    createdBy: "user-1",
+    approvedBy: null,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  });
+
+  it("relieves the voucher at the booked amount and books the realized difference", async () => {
+    const service = new LedgerService();
+    const post = vi.spyOn(service, "postJournalEntry").mockResolvedValue({} as any);
+    vi.spyOn(fxService, "getBaseCurrency").mockResolvedValue("USD");
+    const findRate = vi.spyOn(fxService, "findRate").mockResolvedValue(1.1);
+
+    await service.postPaymentStatusChange(payment(), payment({ status: "completed" }), "user-2");
+
+    expect(findRate).toHaveBeenCalledWith("org-1", "EUR", "USD", new Date("2025-07-10T00:00:00Z"), expect.anything());
+    expect(post.mock.calls[0][0].lines).toEqual([
+      { accountCode: "2000", debit: "1080.00" },
+      { accountCode: "1000", credit: "1100.00" },
+      { accountCode: "5950", debit: "20.00", memo: "Realized FX loss" },
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { canonicalJson, requestFingerprint, idempotencyDecision, idempotencyScope, providerIdempotencyKey } = await import(
+  "../services/idempotency-service"
+);
+
+const stored = (overrides: Record<string, unknown> = {}) =>
+  ({
+    id: "k1",
+    scope: "user-1",
+    key: "abc",
+    requestPath: "/api/payments/process",
+    requestFingerprint: requestFingerprint("POST", "/api/payments/process", { amount: 10, provider: "stripe" }),
+    status: "completed",
+    responseStatus: 200,
+    responseBody: { success: true },
+    createdAt: new Date(),
+    completedAt: new Date(),
+    expiresAt: new Date(),
+    ...overrides,
+  }) as any;
+
+describe("request fingerprint", () => {
+  it("ignores key order and undefined fields", () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { f: 2, e: 1 }], c: undefined } })).toBe('{"a":{"d":[1,{"e":1,"f":2}]},"b":1}');
+    expect(requestFingerprint("post", "/api/payments/process", { provider: "stripe", amount: 10 })).toBe(
+      requestFingerprint("POST", "/api/payments/process", { amount: 10, provider: "stripe" })
+    );
+  });
+
+  it("differs by body and by endpoint", () => {
+    const base = requestFingerprint("POST", "/api/payments/process", { amount: 10 });
+    expect(requestFingerprint("POST", "/api/payments/process", { amount: 11 })).not.toBe(base);
+    expect(requestFingerprint("POST", "/api/citizen/payment", { amount: 10 })).not.toBe(base);
+  });
+});
+
+describe("idempotencyDecision", () => {
+  const fingerprint = requestFingerprint("POST", "/api/payments/process", { provider: "stripe", amount: 10 });
+
+  it("replays a completed request with the same body", () => {
+    expect(idempotencyDecision(stored(), fingerprint)).toBe("replay");
+  });
+
+  it("reports a request that has not finished yet", () => {
+    expect(idempotencyDecision(stored({ status: "in_progress" }), fingerprint)).toBe("in_progress");
+  });
+
+  it("rejects reuse of a key with a different body", () => {
+    const other = requestFingerprint("POST", "/api/payments/process", { provider: "stripe", amount: 20 });
+    expect(idempotencyDecision(stored(), other)).toBe("conflict");
+    expect(idempotencyDecision(stored({ status: "in_progress" }), other)).toBe("conflict");
+  });
+});
+
+describe("idempotency scopes", () => {
+  it("scopes keys to the signed-in user, else to the anonymous session or the request", () => {
+    expect(idempotencyScope({ user: { claims: { sub: "user-1" } } })).toBe("user-1");
+
+    const session: Record<string, unknown> = {};
+    const first = idempotencyScope({ session });
+    expect(first).toMatch(/^session:/);
+    expect(idempotencyScope({ session })).toBe(first);
+    expect(idempotencyScope({ session: {} })).not.toBe(first);
+
+    expect(idempotencyScope({})).not.toBe(idempotencyScope({}));
+  });
+
+  it("sends providers a key that differs between callers using the same raw key", () => {
+    expect(providerIdempotencyKey("user-1", "abc")).toBe(providerIdempotencyKey("user-1", "abc"));
+    expect(providerIdempotencyKey("user-1", "abc")).not.toBe(providerIdempotencyKey("user-2", "abc"));
+    expect(providerIdempotencyKey("user-1", "abc")).not.toContain("abc");
+  });
+});
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { jobRetryDelay, failedJobState, JobQueue, JOB_RETRY_POLICY, JOB_LOCK_TIMEOUT_MS, JOB_HEARTBEAT_INTERVAL_MS } = await import(
+  "../services/job-queue"
+);
+const { db } = await import("../db");
+const { jobs, jobSchedules } = await import("@shared/job-schema");
+const { wsManager } = await import("../websocket");
+
+describe("jobRetryDelay", () => {
+  it("doubles the delay per attempt up to the cap", () => {
+    expect(jobRetryDelay(1)).toBe(JOB_RETRY_POLICY.baseDelayMs);
+    expect(jobRetryDelay(3)).toBe(JOB_RETRY_POLICY.baseDelayMs * 4);
+    expect(jobRetryDelay(30)).toBe(JOB_RETRY_POLICY.maxDelayMs);
+  });
+});
+
+describe("failedJobState", () => {
+  const now = new Date("2025-03-01T12:00:00Z");
+
+  it("requeues with backoff while attempts remain", () => {
+    expect(failedJobState({ attempts: 2, maxAttempts: 5 }, now)).toEqual({
+      status: "queued",
+      runAt: new Date(now.getTime() + JOB_RETRY_POLICY.baseDelayMs * 2),
+    });
+  });
+
+  it("dead-letters the job after its last attempt", () => {
+    expect(failedJobState({ attempts: 5, maxAttempts: 5 }, now)).toEqual({ status: "dead" });
+    expect(failedJobState({ attempts: 1, maxAttempts: 1 }, now)).toEqual({ status: "dead" });
+  });
+});
+
+// Records each query the queue builds and answers it from the current test's `respond`
+type Query = { op: "select" | "insert" | "update"; table: unknown; calls: Array<[string, ...any[]]> };
+let queries: Query[] = [];
+let respond: (query: Query) => unknown = () => [];
+
+const startQuery = (op: Query["op"], table?: unknown) => {
+  const query: Query = { op, table, calls: [] };
+  queries.push(query);
+  const chain: any = new Proxy(
+    {},
+    {
+      get: (_, method) =>
+        method === "then"
+          ? (resolve: any, reject: any) => Promise.resolve().then(() => respond(query)).then(resolve, reject)
+          : (...args: any[]) => {
+              if (method === "from") query.table = args[0];
+              query.calls.push([String(method), ...args]);
+              return chain;
+            },
+    }
+  );
+  return chain;
+};
+
+Object.assign(db, {
+  select: () => startQuery("select"),
+  insert: (table: unknown) => startQuery("insert", table),
+  update: (table: unknown) => startQuery("update", table),
+  transaction: (fn: (tx: unknown) => unknown) => fn(db),
+});
+
+const dialect = new PgDialect();
+const arg = (query: Query, method: string) => query.calls.find(([name]) => name === method)?.[1];
+const whereParams = (query: Query) => dialect.sqlToQuery(arg(query, "where")).params;
+const updatesOf = (table: unknown) => queries.filter((query) => query.op === "update" && query.table === table);
+const calledWith = (query: Query, method: string) => query.calls.some(([name]) => name === method);
+
+const now = new Date("2025-03-01T12:00:00Z");
+const running = (overrides: Record<string, unknown> = {}) => ({
+  id: "job-1",
+  type: "report.export",
+  organizationId: "org-1",
+  status: "running",
+  attempts: 1,
+  maxAttempts: 5,
+  progress: 0,
+  ...overrides,
+});
+
+// Answers the claim query with `job` once, then reports an empty queue
+const claimOnce = (job: Record<string, unknown>, finished: unknown[] = [{ id: job.id }]) => {
+  let claimed = false;
+  return (query: Query) => {
+    if (query.table !== jobs) return [];
+    if (query.op === "select") {
+      if (claimed) return [];
+      claimed = true;
+      return [{ id: job.id }];
+    }
+    if (query.op === "update" && arg(query, "set").status === "running") return [job];
+    if (query.op === "update" && calledWith(query, "returning")) return finished;
+    return [];
+  };
+};
+
+describe("JobQueue.tick", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    queries = [];
+    respond = () => [];
+    vi.spyOn(wsManager, "sendToOrganization").mockImplementation(() => {});
+    vi.spyOn(wsManager, "sendToRole").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("requeues running jobs whose lock has gone stale", async () => {
+    await new JobQueue().tick();
+
+    const [recover] = updatesOf(jobs);
+    expect(arg(recover, "set")).toMatchObject({ status: "queued", lockedBy: null, lockedAt: null, runAt: now });
+    expect(whereParams(recover)).toEqual(["running", new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS).toISOString()]);
+  });
+
+  it("enqueues due schedules and moves them to their next run", async () => {
+    respond = (query) => {
+      if (query.op === "select" && query.table === jobSchedules) {
+        return [{ id: "schedule-1", name: "nightly-sweep", type: "sweep", payload: { days: 30 }, intervalSeconds: 3600 }];
+      }
+      if (query.op === "insert") return [{ id: "job-9" }];
+      return [];
+    };
+
+    await new JobQueue().tick();
+
+    const due = queries.find((query) => query.table === jobSchedules && query.op === "select")!;
+    expect(arg(due, "for")).toBe("update");
+    const insert = queries.find((query) => query.op === "insert")!;
+    expect(arg(insert, "values")).toEqual({ type: "sweep", payload: { days: 30 }, scheduleName: "nightly-sweep", maxAttempts: 3 });
+    expect(arg(updatesOf(jobSchedules)[0], "set")).toEqual({
+      lastRunAt: now,
+      lastJobId: "job-9",
+      nextRunAt: new Date(now.getTime() + 3600 * 1000),
+      updatedAt: now,
+    });
+  });
+
+  it("claims the next due job for this worker, runs it and records the result", async () => {
+    const queue = new JobQueue();
+    const handler = vi.fn().mockResolvedValue({ rows: 12 });
+    queue.register("report.export", handler);
+    respond = claimOnce(running());
+
+    await queue.tick();
+
+    const claim = queries.find((query) => query.table === jobs && query.op === "select")!;
+    expect(calledWith(claim, "orderBy")).toBe(true);
+    expect(claim.calls.find(([name]) => name === "for")).toEqual(["for", "update", { skipLocked: true }]);
+    const [, lock, finish] = updatesOf(jobs);
+    expect(arg(lock, "set")).toMatchObject({ status: "running", lockedBy: queue.workerId, lockedAt: now, startedAt: now });
+    expect(handler).toHaveBeenCalledWith(running(), expect.anything());
+    expect(arg(finish, "set")).toMatchObject({ status: "completed", result: { rows: 12 }, progress: 100, lockedBy: null, completedAt: now });
+    expect(whereParams(finish)).toEqual(["job-1", queue.workerId]);
+  });
+
+  it("requeues a failed job with backoff and dead-letters it after its last attempt", async () => {
+    const queue = new JobQueue();
+    queue.register("report.export", vi.fn().mockRejectedValue(new Error("Timed out")));
+
+    respond = claimOnce(running({ attempts: 2 }));
+    await queue.tick();
+    expect(arg(updatesOf(jobs).at(-1)!, "set")).toMatchObject({
+      status: "queued",
+      runAt: new Date(now.getTime() + jobRetryDelay(2)),
+      lastError: "Timed out",
+      completedAt: null,
+    });
+
+    queries = [];
+    respond = claimOnce(running({ attempts: 5 }));
+    await queue.tick();
+    expect(arg(updatesOf(jobs).at(-1)!, "set")).toMatchObject({ status: "dead", lastError: "Timed out", completedAt: now });
+  });
+
+  it("keeps renewing the lock while a long job runs", async () => {
+    const queue = new JobQueue();
+    let release!: () => void;
+    queue.register("report.export", () => new Promise<void>((resolve) => (release = resolve)));
+    respond = claimOnce(running());
+
+    const tick = queue.tick();
+    await vi.advanceTimersByTimeAsync(JOB_HEARTBEAT_INTERVAL_MS * 3);
+    const renewals = () => updatesOf(jobs).filter((query) => Object.keys(arg(query, "set")).join() === "lockedAt");
+    expect(renewals()).toHaveLength(3);
+    expect(whereParams(renewals()[0])).toEqual(["job-1", "running", queue.workerId]);
+
+    release();
+    await tick;
+    await vi.advanceTimersByTimeAsync(JOB_HEARTBEAT_INTERVAL_MS * 3);
+    expect(renewals()).toHaveLength(3);
+  });
+
+  it("discards the outcome of a job recovered from under the worker", async () => {
+    const queue = new JobQueue();
+    queue.register("report.export", vi.fn().mockResolvedValue(null));
+    respond = claimOnce(running(), []);
+
+    await queue.tick();
+
+    expect(wsManager.sendToOrganization).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("lost its lock"));
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Payment } from "@shared/schema";
+import type { LedgerAccount } from "@shared/ledger-schema";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const {
+  assertBalanced,
+  summarizeTrialBalance,
+  toCents,
+  fromCents,
+  LedgerError,
+  LedgerService,
+} = await import("../services/ledger-service");
+
+const account = (id: string, code: string, normalBalance: "debit" | "credit"): LedgerAccount => ({
+  id,
+  organizationId: "org-1",
+  code,
+  name: `Account ${code}`,
+  type: normalBalance === "debit" ? "asset" : "liability",
+  normalBalance,
+  parentAccountId: null,
+  description: null,
+  isSystem: true,
+  isActive: true,
+  createdAt: null,
+  updatedAt: null,
+});
+
+const payment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: "payment-1",
+  amount: "1250.50",
+  description: "Road resurfacing",
+  type: "vendor",
+  status: "pending",
+  vendorId: "vendor-1",
+  budgetCategoryId: null,
+  organizationId: "org-1",
+  fundId: null,
+  purchaseOrderId: null,
+  contractId: null,
+  payeeBankAccountId: null,
+  dueDate: null,
+  processedDate: null,
+  createdBy: "user-1",
+  approvedBy: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+describe("ledger amount helpers", () => {
+  it("converts decimal strings to cents without floating point drift", () => {
+    expect(toCents("0.10") + toCents("0.20")).toBe(30);
+    expect(fromCents(toCents("1250.505"))).toBe("1250.51");
+  });
+
+  it("rejects non-numeric amounts", () => {
+    expect(() => toCents("abc")).toThrow(LedgerError);
+  });
+});
+
+describe("assertBalanced", () => {
+  it("accepts entries whose debits equal credits", () => {
+    expect(() =>
+      assertBalanced([
+        { accountCode: "5000", debit: "100.10" },
+        { accountCode: "5900", debit: "0.20" },
+        { accountCode: "1000", credit: "100.30" },
+      ])
+    ).not.toThrow();
+  });
+
+  it("rejects unbalanced entries", () => {
+    expect(() =>
+      assertBalanced([
+        { accountCode: "5000", debit: "100" },
+        { accountCode: "1000", credit: "99.99" },
+      ])
+    ).toThrow(/unbalanced/);
+  });
+
+  it("rejects entries that balance overall but not within each fund", () => {
+    expect(() =>
+      assertBalanced([
+        { accountCode: "5800", fundId: "fund-general", debit: "50" },
+        { accountCode: "4900", fundId: "fund-capital", credit: "50" },
+      ])
+    ).toThrow(/within fund fund-general/);
+  });
+
+  it("rejects lines carrying both or neither side", () => {
+    expect(() =>
+      assertBalanced([
+        { accountCode: "5000", debit: "10", credit: "10" },
+        { accountCode: "1000", credit: "0" },
+      ])
+    ).toThrow(/exactly one of debit or credit/);
+  });
+});
+
+describe("summarizeTrialBalance", () => {
+  it("reports balances in each account's normal direction", () => {
+    const result = summarizeTrialBalance(
+      [account("a-2000", "2000", "credit"), account("a-1000", "1000", "debit"), account("a-5000", "5000", "debit")],
+      [
+        { accountId: "a-5000", debit: "500.00", credit: "0" },
+        { accountId: "a-2000", debit: "200.00", credit: "500.00" },
+        { accountId: "a-1000", debit: "0", credit: "200.00" },
+      ]
+    );
+
+    expect(result.accounts.map((row) => row.code)).toEqual(["1000", "2000", "5000"]);
+    expect(result.accounts.map((row) => row.balance)).toEqual(["-200.00", "300.00", "500.00"]);
+    expect(result.totalDebits).toBe("700.00");
+    expect(result.totalCredits).toBe("700.00");
+    expect(result.isBalanced).toBe(true);
+  });
+});
+
+describe("LedgerService payment posting", () => {
+  it("accrues pending payments to vouchers payable", async () => {
+    const service = new LedgerService();
+    const post = vi.spyOn(service, "postJournalEntry").mockResolvedValue({} as any);
+
+    await service.postPayment(payment());
+
+    expect(post.mock.calls[0][0].lines).toEqual([
+      { accountCode: "5000", debit: "1250.50" },
+      { accountCode: "2000", credit: "1250.50" },
+    ]);
+  });
+
+  it("posts completed payroll directly against operating cash", async () => {
+    const service = new LedgerService();
+    const post = vi.spyOn(service, "postJournalEntry").mockResolvedValue({} as any);
+
+    await service.postPayment(payment({ type: "payroll", status: "completed" }));
+
+    expect(post.mock.calls[0][0].lines).toEqual([
+      { accountCode: "5100", debit: "1250.50" },
+      { accountCode: "1000", credit: "1250.50" },
+    ]);
+  });
+
+  it("settles the voucher when a pending payment completes", async () => {
+    const service = new LedgerService();
+    const post = vi.spyOn(service, "postJournalEntry").mockResolvedValue({} as any);
+    const reverse = vi.spyOn(service, "reverseSourceEntries").mockResolvedValue([]);
+
+    await service.postPaymentStatusChange(payment(), payment({ status: "completed" }), "user-2");
+
+    expect(reverse).not.toHaveBeenCalled();
+    expect(post.mock.calls[0][0].lines).toEqual([
+      { accountCode: "2000", debit: "1250.50" },
+      { accountCode: "1000", credit: "1250.50" },
+    ]);
+  });
+
+  it("reverses prior postings when a payment is cancelled", async () => {
+    const service = new LedgerService();
+    const post = vi.spyOn(service, "postJournalEntry").mockResolvedValue({} as any);
+    const reverse = vi.spyOn(service, "reverseSourceEntries").mockResolvedValue([]);
+
+    await service.postPaymentStatusChange(payment(), payment({ status: "cancelled" }), "user-2");
+
+    expect(reverse).toHaveBeenCalledWith("payment", "payment-1", "user-2", "payment cancelled", expect.anything());
+    expect(post).not.toHaveBeenCalled();
+  });
+});
+
+describe("LedgerService.resolvePostingPeriod", () => {
+  it("uses the period another posting opened for the same month at the same time", async () => {
+    const service = new LedgerService();
+    const opened = { id: "period-1", name: "2026-03", status: "open" };
+    // The first lookup misses, the insert loses the race, and the lookup after it finds the winner's period
+    const selects = [[], [opened]];
+    const onConflictDoNothing = vi.fn(() => ({ returning: async () => [] }));
+    const executor = {
+      select: () => ({ from: () => ({ where: () => ({ limit: async () => selects.shift() }) }) }),
+      insert: () => ({ values: () => ({ onConflictDoNothing }) }),
+    };
+
+    const period = await service.resolvePostingPeriod("org-1", new Date(2026, 2, 14), executor as any);
+
+    expect(period).toBe(opened);
+    expect(onConflictDoNothing).toHaveBeenCalledTimes(1);
+    expect(selects).toHaveLength(0);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, expect, it, vi } from "vitest";
+import type { EnhancedTransaction } from "@shared/schema";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const {
+  buildNachaFile,
+  parseNachaFile,
+  computeEntryHash,
+  isValidRoutingNumber,
+  traceNumbersNeeded,
+  RECORD_LENGTH,
+} = await import("../services/nacha");
+const { transferEntry, remittanceAddenda } = await import("../services/ach-file-service");
+const { LedgerError } = await import("../services/ledger-service");
+
+type FileInput = Parameters<typeof buildNachaFile>[0];
+
+const originator = {
+  immediateDestination: "121000248",
+  immediateDestinationName: "WELLS FARGO",
+  immediateOrigin: "1123456789",
+  immediateOriginName: "CITY OF SPRINGFIELD",
+  companyName: "CITY SPRINGFIELD",
+  companyIdentification: "1123456789",
+  originatingDfi: "12100024",
+};
+
+const fileInput = (overrides: Partial<FileInput> = {}): FileInput => ({
+  originator,
+  fileCreationDate: new Date(2025, 5, 30, 14, 5),
+  fileIdModifier: "A",
+  batches: [
+    {
+      secCode: "PPD",
+      companyEntryDescription: "PAYROLL",
+      effectiveEntryDate: new Date(2025, 6, 1),
+      entries: [
+        { transactionCode: "22", routingNumber: "021000021", accountNumber: "12345678", amountCents: 150000, individualId: "EMP-1", name: "Jane Doe" },
+        { transactionCode: "32", routingNumber: "011000015", accountNumber: "987654321", amountCents: 98765, individualId: "EMP-2", name: "John Roe" },
+      ],
+    },
+  ],
+  ...overrides,
+});
+
+describe("NACHA helpers", () => {
+  it("validates ABA routing checksums", () => {
+    expect(isValidRoutingNumber("021000021")).toBe(true);
+    expect(isValidRoutingNumber("021000022")).toBe(false);
+    expect(isValidRoutingNumber("12345")).toBe(false);
+  });
+
+  it("keeps the rightmost ten digits of the entry hash", () => {
+    expect(computeEntryHash(["021000021", "011000015"])).toBe("0003200003");
+    expect(computeEntryHash(Array(200).fill("999999999"))).toBe("9999999800");
+  });
+});
+
+describe("buildNachaFile", () => {
+  it("builds fixed-width records blocked to a multiple of ten", () => {
+    const built = buildNachaFile(fileInput());
+    const records = built.content.trim().split("\n");
+
+    expect(records.every((record) => record.length === RECORD_LENGTH)).toBe(true);
+    expect(records).toHaveLength(10);
+    expect(records.map((record) => record[0]).join("")).toBe("1566899999");
+    expect(records[0].slice(3, 13)).toBe(" 121000248");
+    expect(records[1].slice(1, 4)).toBe("220");
+    expect(built.totalCreditCents).toBe(248765);
+    expect(built.entries.map((entry) => entry.traceNumber)).toEqual(["121000240000001", "121000240000002"]);
+  });
+
+  it("continues trace numbers from the reserved sequence instead of restarting each file", () => {
+    const input = fileInput();
+    expect(traceNumbersNeeded(input.batches)).toBe(2);
+
+    const built = buildNachaFile({ ...input, traceSequenceStart: 41 });
+    expect(built.entries.map((entry) => entry.traceNumber)).toEqual(["121000240000041", "121000240000042"]);
+
+    const wrapped = buildNachaFile({ ...input, traceSequenceStart: 9_999_999 });
+    expect(wrapped.entries.map((entry) => entry.traceNumber)).toEqual(["121000249999999", "121000240000001"]);
+  });
+
+  it("round-trips through the validator", () => {
+    const parsed = parseNachaFile(buildNachaFile(fileInput()).content);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.valid).toBe(true);
+    expect(parsed.entryAddendaCount).toBe(2);
+    expect(parsed.entries[1]).toMatchObject({ accountNumber: "987654321", amountCents: 98765, name: "JOHN ROE" });
+  });
+
+  it("balances each batch against the offset account", () => {
+    const input = fileInput();
+    input.batches[0].offsetAccount = {
+      routingNumber: "121000248",
+      accountNumber: "5550001",
+      accountType: "checking",
+      name: "CITY SPRINGFIELD",
+    };
+
+    const built = buildNachaFile(input);
+    const offset = built.entries.find((entry) => entry.isOffset);
+
+    expect(offset).toMatchObject({ transactionCode: "27", amountCents: 248765 });
+    expect(built.totalDebitCents).toBe(built.totalCreditCents);
+    expect(built.content.split("\n")[1].slice(1, 4)).toBe("200");
+    expect(parseNachaFile(built.content).valid).toBe(true);
+  });
+
+  it("writes CTX addenda counts and rejects extra PPD addenda", () => {
+    const ctx = buildNachaFile(
+      fileInput({
+        batches: [
+          {
+            secCode: "CTX",
+            companyEntryDescription: "VENDOR PAY",
+            effectiveEntryDate: new Date(2025, 6, 1),
+            entries: [
+              {
+                transactionCode: "22",
+                routingNumber: "021000021",
+                accountNumber: "44001",
+                amountCents: 500000,
+                individualId: "V-100",
+                name: "Acme Paving",
+                addenda: ["ISA*00*", "BPR*C*5000"],
+              },
+            ],
+          },
+        ],
+      })
+    );
+    const records = ctx.content.split("\n");
+
+    expect(records[2].slice(54, 58)).toBe("0002");
+    expect(records[2][78]).toBe("1");
+    expect(records.slice(3, 5).map((record) => record.slice(0, 3))).toEqual(["705", "705"]);
+    expect(records[4].slice(83, 87)).toBe("0002");
+    expect(parseNachaFile(ctx.content).valid).toBe(true);
+
+    const ppd = fileInput();
+    ppd.batches[0].entries[0].addenda = ["one", "two"];
+    expect(() => buildNachaFile(ppd)).toThrow(LedgerError);
+  });
+});
+
+describe("parseNachaFile", () => {
+  it("reports control total mismatches", () => {
+    const records = buildNachaFile(fileInput()).content.split("\n");
+    records[2] = `${records[2].slice(0, 29)}0000150001${records[2].slice(39)}`;
+
+    const parsed = parseNachaFile(records.join("\n"));
+
+    expect(parsed.valid).toBe(false);
+    expect(parsed.errors.join(" ")).toMatch(/credit/i);
+  });
+
+  it("reads return and notification of change addenda", () => {
+    const built = buildNachaFile(fileInput());
+    const records = built.content.split("\n");
+    const returnAddenda = `799R01121000240000001      02100002Insufficient funds`.padEnd(79, " ") + "021000020000001";
+    const nocAddenda = `798C01121000240000002      011000015550001`.padEnd(79, " ") + "011000010000002";
+    records.splice(4, 0, nocAddenda);
+    records.splice(3, 0, returnAddenda);
+
+    const parsed = parseNachaFile(records.join("\n"));
+
+    expect(parsed.entries[0].returnAddenda).toMatchObject({
+      addendaType: "99",
+      reasonCode: "R01",
+      originalTraceNumber: "121000240000001",
+      originalReceivingDfi: "02100002",
+    });
+    expect(parsed.entries[1].returnAddenda).toMatchObject({
+      addendaType: "98",
+      reasonCode: "C01",
+      correctedData: "5550001",
+    });
+  });
+});
+
+describe("ACH file sources", () => {
+  const transfer = (overrides: Partial<EnhancedTransaction> = {}) =>
+    ({
+      id: "8f14e45f-ceea-467f-a9d0-5b6c2a1e7c11",
+      type: "debit",
+      amount: "1250.50",
+      description: "Invoice 88",
+      metadata: { recipientAccount: "44001", routingNumber: "021000021", transferType: "standard" },
+      ...overrides,
+    }) as EnhancedTransaction;
+
+  it("credits receivers for outgoing transfers and debits them for collections", () => {
+    expect(transferEntry(transfer())).toMatchObject({
+      secCode: "CCD",
+      entry: { transactionCode: "22", amountCents: 125050, addenda: ["Invoice 88"] },
+    });
+    expect(transferEntry(transfer({ type: "credit" })).entry.transactionCode).toBe("27");
+    expect(
+      transferEntry(
+        transfer({ metadata: { recipientAccount: "1", routingNumber: "021000021", transferType: "payroll", accountType: "savings" } })
+      )
+    ).toMatchObject({ secCode: "PPD", entry: { transactionCode: "32", addenda: [] } });
+  });
+
+  it("rejects transfers without a valid receiving account", () => {
+    expect(() => transferEntry(transfer({ metadata: { recipientAccount: "1", routingNumber: "123" } }))).toThrow(
+      /routing\/account/
+    );
+  });
+
+  it("splits CTX remittance into 80-character addenda", () => {
+    expect(remittanceAddenda("x".repeat(170), "CTX").map((info) => info.length)).toEqual([80, 80, 10]);
+    expect(remittanceAddenda("x".repeat(170), "CCD")).toHaveLength(1);
+  });
+});
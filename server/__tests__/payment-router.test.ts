@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { rankProviders, estimateFee, paymentRouter } = await import("../services/payment-router");
+const { ProviderHealthTracker, BREAKER_FAILURE_THRESHOLD, BREAKER_COOLDOWN_MS } = await import("../services/provider-health");
+const { PaymentServiceManager } = await import("../services/provider-factory");
+const { ProviderCallError } = await import("../services/provider-call");
+
+const healthy = { successRate: null, samples: 0, consecutiveFailures: 0, breakerState: "closed" as const, openedAt: null };
+
+const rule = (provider: string, overrides: Record<string, unknown> = {}) =>
+  ({
+    id: provider,
+    organizationId: "org-1",
+    provider,
+    rails: [],
+    currencies: [],
+    fixedFee: "0.30",
+    percentFee: "2.9000",
+    settlementDays: 2,
+    minAmount: null,
+    maxAmount: null,
+    priority: 0,
+    isActive: true,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  }) as any;
+
+const request = { amount: 1000, currency: "USD", rail: "ach" as const };
+
+describe("estimateFee", () => {
+  it("adds the fixed fee to the percentage of the amount", () => {
+    expect(estimateFee(rule("stripe"), 1000)).toBe("29.30");
+    expect(estimateFee(rule("dwolla", { fixedFee: "0.25", percentFee: "0" }), 1000)).toBe("0.25");
+  });
+});
+
+describe("rankProviders", () => {
+  it("prefers the cheaper and faster provider and explains why", () => {
+    const decision = rankProviders(
+      [
+        { provider: "stripe", rule: rule("stripe"), health: healthy },
+        { provider: "dwolla", rule: rule("dwolla", { fixedFee: "0.25", percentFee: "0", settlementDays: 1 }), health: healthy },
+      ],
+      request
+    );
+
+    expect(decision.provider).toBe("dwolla");
+    expect(decision.ranked.map((entry) => entry.provider)).toEqual(["dwolla", "stripe"]);
+    expect(decision.reason).toBe("Selected dwolla (score 0.98): lowest fee $0.25, fastest settlement in 1 day, 95% success rate");
+  });
+
+  it("excludes providers by rail, currency, amount and open breaker", () => {
+    const decision = rankProviders(
+      [
+        { provider: "stripe", rule: rule("stripe", { rails: ["card"] }), health: healthy },
+        { provider: "wise", rule: rule("wise", { currencies: ["EUR"] }), health: healthy },
+        { provider: "unit", rule: rule("unit", { maxAmount: "500.00" }), health: healthy },
+        { provider: "dwolla", rule: rule("dwolla"), health: { ...healthy, breakerState: "open" as const } },
+        { provider: "square", rule: null, health: healthy },
+      ],
+      request
+    );
+
+    expect(decision.provider).toBe("square");
+    expect(decision.excluded).toEqual([
+      { provider: "stripe", reason: "Does not support ach" },
+      { provider: "wise", reason: "Does not support USD" },
+      { provider: "unit", reason: "Above maximum of 500.00" },
+      { provider: "dwolla", reason: "Circuit breaker open" },
+    ]);
+    expect(decision.reason).toContain("only eligible provider, no fee schedule configured");
+    expect(decision.reason).toContain("skipped stripe (does not support ach)");
+  });
+
+  it("lets a poor recent success rate outweigh a small fee difference", () => {
+    const decision = rankProviders(
+      [
+        { provider: "stripe", rule: rule("stripe", { fixedFee: "1.00", percentFee: "0" }), health: { ...healthy, successRate: 0.2, samples: 20 } },
+        { provider: "dwolla", rule: rule("dwolla", { fixedFee: "1.50", percentFee: "0" }), health: { ...healthy, successRate: 1, samples: 20 } },
+      ],
+      request
+    );
+    expect(decision.provider).toBe("dwolla");
+  });
+
+  it("reports when nothing can take the payment", () => {
+    expect(rankProviders([], request)).toEqual({ provider: null, reason: "No payment providers configured", ranked: [], excluded: [] });
+  });
+});
+
+describe("ProviderHealthTracker", () => {
+  it("opens the breaker after consecutive failures and half-opens it after the cooldown", () => {
+    const tracker = new ProviderHealthTracker();
+    tracker.recordSuccess("org-1", "stripe");
+    for (let i = 0; i < BREAKER_FAILURE_THRESHOLD; i += 1) {
+      tracker.recordFailure("org-1", "stripe", 1_000);
+    }
+
+    const open = tracker.getHealth("org-1", "stripe", 1_000);
+    expect(open.breakerState).toBe("open");
+    expect(open.successRate).toBeCloseTo(1 / (BREAKER_FAILURE_THRESHOLD + 1));
+    expect(tracker.getHealth("org-1", "stripe", 1_000 + BREAKER_COOLDOWN_MS).breakerState).toBe("half_open");
+    expect(tracker.getHealth("org-2", "stripe").samples).toBe(0);
+  });
+});
+
+describe("PaymentServiceManager.processRoutedPayment", () => {
+  const ranked = ["stripe", "paypal"];
+  const manager = () => {
+    const instance = new PaymentServiceManager();
+    vi.spyOn(instance, "getProvider").mockImplementation((_, providerType) => ({ name: providerType }) as any);
+    vi.spyOn(paymentRouter, "route").mockResolvedValue({
+      provider: "stripe",
+      reason: "Selected stripe",
+      ranked: ranked.map((provider) => ({ provider, score: 1, estimatedFee: null, settlementDays: null, successRate: null })),
+      excluded: [],
+    } as any);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    return instance;
+  };
+
+  it("falls back down the ranking after a decline or an open breaker", async () => {
+    const declined = await manager().processRoutedPayment("org-1", request, async (provider: any) =>
+      provider.name === "stripe" ? { success: false, error: "Card declined" } : { success: true, transactionId: "pp-1" }
+    );
+    expect(declined).toMatchObject({ provider: "paypal", result: { transactionId: "pp-1" }, outcomeUnknown: false });
+    expect(declined.routing.reason).toBe("Fell back to paypal after stripe failed; Selected stripe");
+
+    const execute = vi.fn(async (provider: any) => {
+      if (provider.name === "stripe") throw new ProviderCallError("stripe circuit is open", "stripe", "circuit_open");
+      return { success: true };
+    });
+    await expect(manager().processRoutedPayment("org-1", request, execute)).resolves.toMatchObject({ provider: "paypal" });
+  });
+
+  it("stops at a provider that timed out, since it may already have moved the money", async () => {
+    const execute = vi.fn(async () => {
+      throw new ProviderCallError("stripe timed out after 15000ms", "stripe", "timeout");
+    });
+
+    const routed = await manager().processRoutedPayment("org-1", request, execute);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(routed).toMatchObject({
+      provider: "stripe",
+      result: { success: false, status: "pending", error: "stripe timed out after 15000ms" },
+      outcomeUnknown: true,
+    });
+  });
+
+  it("fails once every provider has declined", async () => {
+    await expect(manager().processRoutedPayment("org-1", request, async () => ({ success: false }))).rejects.toThrow(
+      "All payment providers failed"
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { parseRRule, firstOccurrence, nextOccurrence, withinLimits, isDueForRaising, FREQUENCY_PRESETS } = await import(
+  "../services/payment-scheduler"
+);
+const { federalReserveHolidays, rollToBusinessDay, isBusinessDay } = await import("../services/banking-calendar");
+const { LedgerError } = await import("../services/ledger-service");
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("nextOccurrence", () => {
+  it("keeps the start day of month and clamps it to shorter months", () => {
+    const cadence = { ...FREQUENCY_PRESETS.monthly, startDate: day("2025-01-31") };
+    const feb = nextOccurrence(cadence, firstOccurrence(cadence))!;
+    expect(feb).toEqual(day("2025-02-28"));
+    expect(nextOccurrence(cadence, feb)).toEqual(day("2025-03-31"));
+  });
+
+  it("steps biweekly and quarterly presets", () => {
+    const biweekly = { ...FREQUENCY_PRESETS.biweekly, startDate: day("2025-03-03") };
+    expect(nextOccurrence(biweekly, day("2025-03-03"))).toEqual(day("2025-03-17"));
+    const quarterly = { ...FREQUENCY_PRESETS.quarterly, startDate: day("2025-11-30") };
+    expect(nextOccurrence(quarterly, day("2025-11-30"))).toEqual(day("2026-02-28"));
+  });
+
+  it("ends a one-off schedule after its first occurrence", () => {
+    expect(nextOccurrence({ ...FREQUENCY_PRESETS.once, startDate: day("2025-03-03") }, day("2025-03-03"))).toBeNull();
+  });
+
+  it("starts BYMONTHDAY schedules on the next matching day", () => {
+    expect(firstOccurrence({ frequency: "monthly", interval: 1, startDate: day("2025-03-20"), byMonthDay: 15 })).toEqual(
+      day("2025-04-15")
+    );
+  });
+});
+
+describe("withinLimits", () => {
+  it("stops at the end date or the occurrence cap", () => {
+    const schedule = { endDate: day("2025-06-30"), maxOccurrences: 4 };
+    expect(withinLimits(schedule, 4, day("2025-06-30"))).toBe(true);
+    expect(withinLimits(schedule, 5, day("2025-05-01"))).toBe(false);
+    expect(withinLimits(schedule, 2, day("2025-07-01"))).toBe(false);
+    expect(withinLimits({ endDate: null, maxOccurrences: null }, 500, day("2040-01-01"))).toBe(true);
+  });
+});
+
+describe("parseRRule", () => {
+  it("reads frequency, interval, count, until and month day", () => {
+    expect(parseRRule("RRULE:FREQ=MONTHLY;INTERVAL=2;COUNT=6;BYMONTHDAY=31")).toEqual({
+      frequency: "monthly",
+      interval: 2,
+      maxOccurrences: 6,
+      endDate: undefined,
+      byMonthDay: 31,
+    });
+    expect(parseRRule("FREQ=WEEKLY;UNTIL=20251231T000000Z").endDate).toEqual(day("2025-12-31"));
+  });
+
+  it("rejects parts the scheduler cannot honour", () => {
+    expect(() => parseRRule("FREQ=WEEKLY;BYDAY=MO,WE")).toThrow(LedgerError);
+    expect(() => parseRRule("FREQ=HOURLY")).toThrow(LedgerError);
+    expect(() => parseRRule("FREQ=DAILY;INTERVAL=0")).toThrow(LedgerError);
+  });
+});
+
+describe("banking calendar", () => {
+  it("observes Fed holidays, moving Sunday holidays to Monday", () => {
+    const holidays = federalReserveHolidays(2027).map((date) => date.toISOString().slice(0, 10));
+    expect(holidays).toContain("2027-11-25"); // Thanksgiving
+    expect(holidays).toContain("2027-07-05"); // Independence Day falls on a Sunday
+    expect(holidays).not.toContain("2027-12-24"); // Christmas on a Saturday is not moved
+    expect(isBusinessDay(day("2027-06-18"))).toBe(true); // Juneteenth on a Saturday
+  });
+
+  it("rolls closed days by the schedule's convention", () => {
+    // Saturday 2025-05-31: following crosses into June, modified following stays in May
+    expect(rollToBusinessDay(day("2025-05-31"), "following")).toEqual(day("2025-06-02"));
+    expect(rollToBusinessDay(day("2025-05-31"), "modified_following")).toEqual(day("2025-05-30"));
+    expect(rollToBusinessDay(day("2025-12-25"), "preceding")).toEqual(day("2025-12-24"));
+    expect(rollToBusinessDay(day("2025-12-25"), "none")).toEqual(day("2025-12-25"));
+  });
+});
+
+describe("isDueForRaising", () => {
+  it("raises an occurrence once the approval lead time is reached", () => {
+    expect(isDueForRaising(day("2025-03-10"), 3, new Date("2025-03-06T23:00:00Z"))).toBe(false);
+    expect(isDueForRaising(day("2025-03-10"), 3, new Date("2025-03-07T08:00:00Z"))).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { callProvider, guardProvider, isRetryable, backoffDelay, ProviderCallError, RETRY_POLICY } = await import(
+  "../services/provider-call"
+);
+const { ProviderHealthTracker, BREAKER_FAILURE_THRESHOLD, BREAKER_COOLDOWN_MS } = await import("../services/provider-health");
+
+const context = (overrides: Record<string, unknown> = {}) => ({
+  organizationId: "org-1",
+  provider: "stripe",
+  operation: "getBalance",
+  retryable: true,
+  ...overrides,
+});
+
+const noSleep = () => Promise.resolve();
+
+describe("isRetryable", () => {
+  it("retries reads and idempotent calls but not unkeyed money movement", () => {
+    expect(isRetryable("getBalance", [])).toBe(true);
+    expect(isRetryable("blockCard", ["card-1"])).toBe(true);
+    expect(isRetryable("processPayment", [10, "USD", {}])).toBe(false);
+    expect(isRetryable("processPayment", [10, "USD", {}, { idempotencyKey: "payment:1" }], true)).toBe(true);
+  });
+
+  it("does not retry a keyed call when the provider drops the key", () => {
+    // e.g. Dwolla's processACH takes no options, so a retry after a timeout could pay twice
+    expect(isRetryable("processACH", [10, "a", "b", "standard", { idempotencyKey: "ach:1" }])).toBe(false);
+    expect(isRetryable("processACH", [10, "a", "b", "standard", { idempotencyKey: "ach:1" }], false)).toBe(false);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles per attempt up to the cap with jitter", () => {
+    expect(backoffDelay(1, () => 0)).toBe(RETRY_POLICY.baseDelayMs / 2);
+    expect(backoffDelay(2, () => 1)).toBe(RETRY_POLICY.baseDelayMs * 2);
+    expect(backoffDelay(20, () => 1)).toBe(RETRY_POLICY.maxDelayMs);
+  });
+});
+
+describe("callProvider", () => {
+  it("retries retryable failures with backoff and then succeeds", async () => {
+    const tracker = new ProviderHealthTracker();
+    const sleep = vi.fn(noSleep);
+    const fn = vi.fn().mockRejectedValueOnce(new Error("ECONNRESET")).mockResolvedValueOnce({ success: true });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await expect(callProvider(context(), fn, tracker, sleep)).resolves.toEqual({ success: true });
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(tracker.getHealth("org-1", "stripe").consecutiveFailures).toBe(0);
+  });
+
+  it("does not retry calls that could move money twice", async () => {
+    const tracker = new ProviderHealthTracker();
+    const fn = vi.fn().mockRejectedValue(new Error("ECONNRESET"));
+
+    await expect(callProvider(context({ operation: "processPayment", retryable: false }), fn, tracker, noSleep)).rejects.toThrow("ECONNRESET");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out a hanging provider", async () => {
+    const tracker = new ProviderHealthTracker();
+    const hang = () => new Promise(() => {});
+
+    await expect(callProvider(context({ timeoutMs: 5, retryable: false }), hang, tracker, noSleep)).rejects.toMatchObject({
+      name: "ProviderCallError",
+      reason: "timeout",
+    });
+    expect(tracker.getHealth("org-1", "stripe").consecutiveFailures).toBe(1);
+  });
+
+  it("counts declines against the success rate without tripping the breaker", async () => {
+    const tracker = new ProviderHealthTracker();
+    for (let i = 0; i < BREAKER_FAILURE_THRESHOLD; i += 1) {
+      await callProvider(context(), () => Promise.resolve({ success: false, error: "card_declined" }), tracker, noSleep);
+    }
+    const health = tracker.getHealth("org-1", "stripe");
+    expect(health.successRate).toBe(0);
+    expect(health.breakerState).toBe("closed");
+  });
+
+  it("refuses calls while the breaker is open", async () => {
+    const tracker = new ProviderHealthTracker();
+    for (let i = 0; i < BREAKER_FAILURE_THRESHOLD; i += 1) {
+      tracker.recordFailure("org-1", "stripe");
+    }
+    const fn = vi.fn();
+
+    const error = await callProvider(context(), fn, tracker, noSleep).catch((e) => e);
+    expect(error).toBeInstanceOf(ProviderCallError);
+    expect(error.reason).toBe("circuit_open");
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe("half-open breaker", () => {
+  const openAt = (tracker: InstanceType<typeof ProviderHealthTracker>, now: number) => {
+    for (let i = 0; i < BREAKER_FAILURE_THRESHOLD; i += 1) {
+      tracker.recordFailure("org-1", "stripe", now);
+    }
+  };
+
+  it("lets one trial through after the cooldown and closes on success", () => {
+    const tracker = new ProviderHealthTracker();
+    openAt(tracker, 1_000);
+    const later = 1_000 + BREAKER_COOLDOWN_MS;
+
+    expect(tracker.acquire("org-1", "stripe", later - 1)).toBe(false);
+    expect(tracker.acquire("org-1", "stripe", later)).toBe(true);
+    expect(tracker.acquire("org-1", "stripe", later)).toBe(false);
+    tracker.recordSuccess("org-1", "stripe");
+    expect(tracker.getHealth("org-1", "stripe", later).breakerState).toBe("closed");
+  });
+
+  it("reopens for another cooldown when the trial fails", () => {
+    const tracker = new ProviderHealthTracker();
+    openAt(tracker, 1_000);
+    const later = 1_000 + BREAKER_COOLDOWN_MS;
+
+    expect(tracker.acquire("org-1", "stripe", later)).toBe(true);
+    tracker.recordFailure("org-1", "stripe", later);
+    expect(tracker.getHealth("org-1", "stripe", later).breakerState).toBe("open");
+    expect(tracker.acquire("org-1", "stripe", later + BREAKER_COOLDOWN_MS)).toBe(true);
+  });
+});
+
+describe("guardProvider", () => {
+  it("sends a keyless provider's money movement once even after a failure", async () => {
+    const processACH = vi.fn().mockRejectedValue(new Error("ETIMEDOUT"));
+    const keyless = { supportsIdempotencyKeys: false, processACH } as any;
+    const guarded = guardProvider("org-keyless", "dwolla", keyless);
+
+    await expect(guarded.processACH(10, "a", "b", "standard", { idempotencyKey: "ach:1" })).rejects.toThrow("ETIMEDOUT");
+    expect(processACH).toHaveBeenCalledTimes(1);
+  });
+});
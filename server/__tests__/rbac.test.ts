@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { grantMatches, resolvePermissionScope, unknownGrants, RbacService } = await import("../services/rbac-service");
+const { SYSTEM_ROLES, insertCustomRoleSchema } = await import("@shared/rbac-schema");
+
+describe("resolvePermissionScope", () => {
+  it("matches wildcards on resource and action", () => {
+    expect(grantMatches("*:*:organization", "payments", "process")).toBe(true);
+    expect(grantMatches("expenses:*:own", "expenses", "approve")).toBe(true);
+    expect(grantMatches("expenses:*:own", "payments", "approve")).toBe(false);
+  });
+
+  it("returns the broadest scope granted, or null", () => {
+    const grants = ["payments:read:own", "payments:*:department", "expenses:create:organization"];
+    expect(resolvePermissionScope(grants, "payments", "read")).toBe("department");
+    expect(resolvePermissionScope(grants, "expenses", "create")).toBe("organization");
+    expect(resolvePermissionScope(grants, "expenses", "approve")).toBeNull();
+  });
+
+  it("keeps the system roles' existing split between staff, managers and admins", () => {
+    const scope = (role: string, resource: string, action: string) =>
+      resolvePermissionScope(SYSTEM_ROLES[role].permissions, resource, action);
+
+    expect(scope("user", "payments", "create")).toBe("organization");
+    expect(scope("user", "ach", "approve")).toBeNull();
+    expect(scope("manager", "ach", "approve")).toBe("organization");
+    expect(scope("manager", "payments", "process")).toBeNull();
+    expect(scope("manager", "ach", "transmit")).toBe("organization");
+    expect(scope("manager", "ach", "configure")).toBeNull();
+    expect(scope("manager", "reconciliation", "configure")).toBeNull();
+    expect(scope("manager", "fiscal_periods", "manage")).toBeNull();
+    expect(scope("admin", "digital_assets", "execute")).toBe("organization");
+    expect(scope("manager", "funds", "transfer")).toBe("organization");
+    expect(scope("manager", "funds", "create")).toBeNull();
+    expect(scope("manager", "checks", "print")).toBe("organization");
+    expect(scope("manager", "checks", "configure")).toBeNull();
+    expect(scope("manager", "fx", "revalue")).toBeNull();
+    expect(scope("manager", "payment_schedules", "create")).toBeNull();
+    expect(scope("admin", "webhooks", "replay")).toBe("organization");
+    expect(scope("admin", "roles", "manage")).toBe("organization");
+  });
+});
+
+describe("custom roles", () => {
+  it("rejects grants outside the catalog", () => {
+    expect(unknownGrants(["payments:approve:own", "*:read:organization", "payroll:run:organization", "cards:fly:own"])).toEqual([
+      "payroll:run:organization",
+      "cards:fly:own",
+    ]);
+  });
+
+  it("cannot reuse a system role key or use a malformed grant", () => {
+    const role = { organizationId: "org-1", name: "AP clerk", createdBy: "user-1" };
+    expect(insertCustomRoleSchema.safeParse({ ...role, key: "admin", permissions: ["payments:read:own"] }).success).toBe(false);
+    expect(insertCustomRoleSchema.safeParse({ ...role, key: "ap_clerk", permissions: ["payments:read"] }).success).toBe(false);
+    expect(insertCustomRoleSchema.safeParse({ ...role, key: "ap_clerk", permissions: ["payments:read:own"] }).success).toBe(true);
+  });
+
+  it("falls back to staff access for a role key that no longer resolves", async () => {
+    const service = new RbacService();
+    vi.spyOn(service, "findRole").mockResolvedValue(null);
+
+    const user = { id: "user-1", organizationId: "org-1", role: "retired_role", department: null };
+    expect(await service.getPermissions(user)).toEqual(SYSTEM_ROLES.user.permissions);
+  });
+});
+
+describe("RbacService.filterToScope", () => {
+  const records = [
+    { id: "p-1", createdBy: "user-1" },
+    { id: "p-2", createdBy: "user-2" },
+    { id: "p-3", createdBy: "user-3" },
+  ];
+
+  it("narrows records to the owners a scope can see", async () => {
+    const service = new RbacService();
+    vi.spyOn(service, "visibleOwnerIds").mockImplementation(async (_user, scope) =>
+      scope === "organization" ? null : scope === "department" ? ["user-1", "user-2"] : ["user-1"]
+    );
+    const user = { id: "user-1", organizationId: "org-1", role: "clerk", department: "finance" };
+    const ids = async (scope: "own" | "department" | "organization") =>
+      (await service.filterToScope(user, scope, records, (record) => record.createdBy)).map((record) => record.id);
+
+    expect(await ids("own")).toEqual(["p-1"]);
+    expect(await ids("department")).toEqual(["p-1", "p-2"]);
+    expect(await ids("organization")).toEqual(["p-1", "p-2", "p-3"]);
+  });
+});
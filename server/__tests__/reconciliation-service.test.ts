@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from "vitest";
+import type { BankStatement, BankStatementLine } from "@shared/reconciliation-schema";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { autoMatchStatementLines, buildReconciliationReport, paymentsOnAccount } = await import("../services/reconciliation-service");
+
+type Candidate = Parameters<typeof autoMatchStatementLines>[1][number];
+
+const line = (overrides: Partial<BankStatementLine> = {}): BankStatementLine => ({
+  id: "line-1",
+  statementId: "stmt-1",
+  organizationId: "org-1",
+  bankAccountId: "bank-1",
+  postedDate: new Date("2025-06-15T00:00:00Z"),
+  amount: "-1250.50",
+  description: null,
+  reference: null,
+  bankTransactionId: null,
+  typeCode: null,
+  status: "unmatched",
+  matchedEntityType: null,
+  matchedEntityId: null,
+  matchMethod: null,
+  matchedBy: null,
+  matchedAt: null,
+  exceptionReason: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+const candidate = (overrides: Partial<Candidate> = {}): Candidate => ({
+  entityType: "payment",
+  entityId: "payment-1",
+  amount: "-1250.50",
+  date: new Date("2025-06-13T00:00:00Z"),
+  references: ["payment-1"],
+  description: null,
+  ...overrides,
+});
+
+const tolerance = { amountTolerance: "0", dateToleranceDays: 3, requireReference: false };
+
+describe("autoMatchStatementLines", () => {
+  it("matches on amount within the date tolerance", () => {
+    const [result] = autoMatchStatementLines([line()], [candidate()], tolerance);
+    expect(result).toMatchObject({ status: "matched", candidate: { entityId: "payment-1" } });
+  });
+
+  it("honours the amount and date tolerances", () => {
+    const late = candidate({ date: new Date("2025-06-01T00:00:00Z") });
+    expect(autoMatchStatementLines([line()], [late], tolerance)[0].status).toBe("exception");
+
+    const rounded = candidate({ amount: "-1250.00" });
+    expect(autoMatchStatementLines([line()], [rounded], tolerance)[0].status).toBe("exception");
+    expect(autoMatchStatementLines([line()], [rounded], { ...tolerance, amountTolerance: "1.00" })[0].status).toBe(
+      "matched"
+    );
+  });
+
+  it("prefers a reference match and sends ambiguous lines to the exception queue", () => {
+    const candidates = [
+      candidate({ entityId: "payment-1", references: ["payment-1"] }),
+      candidate({ entityId: "txn-9", entityType: "enhanced_transaction", references: ["ch_9"] }),
+    ];
+
+    const results = autoMatchStatementLines(
+      [line({ id: "line-1" }), line({ id: "line-2", bankTransactionId: "CH_9" })],
+      candidates,
+      tolerance
+    );
+
+    expect(results[0]).toMatchObject({ status: "matched", candidate: { entityId: "payment-1" } });
+    expect(results[1]).toMatchObject({ status: "matched", candidate: { entityId: "txn-9" } });
+
+    const ambiguous = autoMatchStatementLines([line()], candidates, tolerance);
+    expect(ambiguous[0]).toMatchObject({ status: "exception", reason: expect.stringMatching(/2 transactions/) });
+  });
+
+  it("requires a reference when configured", () => {
+    const [result] = autoMatchStatementLines([line()], [candidate()], { ...tolerance, requireReference: true });
+    expect(result).toMatchObject({ status: "exception", reason: "No transaction with a matching reference" });
+  });
+});
+
+describe("buildReconciliationReport", () => {
+  it("adjusts the statement balance for outstanding items", () => {
+    const statement: BankStatement = {
+      id: "stmt-1",
+      organizationId: "org-1",
+      bankAccountId: "bank-1",
+      format: "bai2",
+      fileName: null,
+      periodStart: new Date("2025-06-01T00:00:00Z"),
+      periodEnd: new Date("2025-06-30T00:00:00Z"),
+      openingBalance: "10000.00",
+      closingBalance: "8700.00",
+      lineCount: 2,
+      importedBy: "user-1",
+      createdAt: null,
+    };
+
+    const report = buildReconciliationReport(
+      { id: "bank-1", accountName: "Operating", bankName: "First National" },
+      statement,
+      [
+        line({ id: "line-1", amount: "-1500.00", status: "matched" }),
+        line({ id: "line-2", amount: "200.00", status: "exception" }),
+      ],
+      [candidate({ amount: "-400.00" }), candidate({ entityId: "dep-1", amount: "50.00" })]
+    );
+
+    expect(report.statementBalanced).toBe(true);
+    expect(report.matched).toEqual({ count: 1, total: "-1500.00" });
+    expect(report.exceptions.count).toBe(1);
+    expect(report.outstandingPayments.total).toBe("-400.00");
+    expect(report.depositsInTransit.total).toBe("50.00");
+    expect(report.adjustedBankBalance).toBe("8350.00");
+    expect(report.isReconciled).toBe(false);
+  });
+});
+
+describe("paymentsOnAccount", () => {
+  it("keeps payments drawn on another bank account out of this account's candidates", () => {
+    const payments = [{ id: "by-check" }, { id: "by-ach" }, { id: "other-account" }, { id: "no-account" }];
+    const links = [
+      { paymentId: "by-check", bankAccountId: "operating" },
+      { paymentId: "by-ach", bankAccountId: "operating" },
+      { paymentId: "other-account", bankAccountId: "payroll" },
+    ];
+
+    expect(paymentsOnAccount(payments, links, "operating").map((payment) => payment.id)).toEqual(["by-check", "by-ach"]);
+    expect(paymentsOnAccount(payments, links, "payroll").map((payment) => payment.id)).toEqual(["other-account"]);
+  });
+
+  it("no longer lets another account's payment auto-match a statement line", () => {
+    const payments = [{ id: "payroll-payment" }];
+    const links = [{ paymentId: "payroll-payment", bankAccountId: "payroll" }];
+    const candidates = paymentsOnAccount(payments, links, "operating").map(({ id }) =>
+      candidate({ entityId: id, references: [id] })
+    );
+
+    const [result] = autoMatchStatementLines([line({ bankAccountId: "operating" })], candidates, tolerance);
+    expect(result.status).toBe("exception");
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { SandboxProvider, sandboxOutcome } = await import("../services/sandbox-provider");
+const { PaymentProviderFactory } = await import("../services/provider-factory");
+const { verifyWebhookSignature } = await import("../services/webhook-verification");
+const { normalizeWebhookEvents } = await import("../services/webhook-service");
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+
+const sandbox = (overrides: Record<string, unknown> = {}) => {
+  const sent: Array<{ url: string; headers: Record<string, string>; body: string }> = [];
+  const provider = new SandboxProvider(
+    { webhookSecret: "whsec_sandbox", webhookUrl: "http://localhost/api/webhooks/sandbox", autoDeliver: false, seed: "test", ...overrides },
+    async (url, init) => {
+      sent.push({ url, headers: init.headers, body: init.body });
+      return { status: 200 };
+    }
+  );
+  return { provider, sent };
+};
+
+describe("sandboxOutcome", () => {
+  it("scripts outcomes by the cents of the amount", () => {
+    expect(sandboxOutcome(100)).toEqual({ kind: "success" });
+    expect(sandboxOutcome(100.02)).toEqual({ kind: "decline", error: "insufficient_funds" });
+    expect(sandboxOutcome(250.61)).toEqual({ kind: "return", returnCode: "R01" });
+  });
+});
+
+describe("SandboxProvider", () => {
+  it("is registered with the factory and refuses production", async () => {
+    expect(new PaymentProviderFactory().createProvider("sandbox", {})).toBeInstanceOf(SandboxProvider);
+    await expect(new SandboxProvider({ environment: "production" }).initialize()).rejects.toThrow("cannot be used in production");
+  });
+
+  it("declines magic amounts and throws for the scripted provider error", async () => {
+    const { provider } = sandbox();
+    await expect(provider.processPayment(10.01, "USD")).resolves.toEqual({ success: false, error: "card_declined" });
+    await expect(provider.processPayment(10.05, "USD")).rejects.toThrow("Sandbox provider error");
+  });
+
+  it("returns the same result for a repeated idempotency key", async () => {
+    const { provider } = sandbox();
+    const first = await provider.processPayment(25, "USD", {}, { idempotencyKey: "payment:1" });
+    const second = await provider.processPayment(25, "USD", {}, { idempotencyKey: "payment:1" });
+    const other = await provider.processPayment(25, "USD");
+
+    expect(second).toBe(first);
+    expect(first.providerTransactionId).toMatch(/^sbx_payment_[0-9a-f]{16}$/);
+    expect(other.providerTransactionId).toBe("sbx_payment_test_000001");
+  });
+
+  it("settles, then returns an ACH transfer through signed webhooks the webhook route accepts", async () => {
+    const { provider, sent } = sandbox({ settlementDelayMs: 1_000, returnDelayMs: 1_000 });
+    const transfer = await provider.processACH(250.61, "acct-from", "acct-to", "standard");
+    expect(transfer).toMatchObject({ success: true, status: "processing", fees: 0.25 });
+
+    const settled = await provider.flushWebhooks(Date.now() + 1_500);
+    expect(settled.map((delivery) => delivery.type)).toEqual(["payment.processing", "payment.completed"]);
+    expect(provider.pendingWebhooks().map((webhook) => webhook.type)).toEqual(["payment.returned"]);
+
+    await provider.flushWebhooks();
+    const returned = sent[2];
+    const request = { rawBody: returned.body, headers: returned.headers, url: returned.url };
+    await expect(verifyWebhookSignature("sandbox", request, { secret: "whsec_sandbox" })).resolves.toBe(true);
+    await expect(verifyWebhookSignature("sandbox", request, { secret: "wrong" })).resolves.toBe(false);
+
+    const [event] = normalizeWebhookEvents("sandbox", JSON.parse(returned.body));
+    expect(event.transaction).toEqual({ providerTransactionId: transfer.providerTransactionId, status: "returned", achReturnCode: "R01" });
+  });
+
+  it("emits card status webhooks and screens by name", async () => {
+    const { provider } = sandbox();
+    const card = await provider.issueCard("Pat Lee", "virtual");
+    await provider.activateCard(card.cardId!);
+
+    const [activated] = normalizeWebhookEvents("sandbox", provider.pendingWebhooks()[0]);
+    expect(activated.card).toEqual({ externalCardId: card.cardId, status: "active" });
+    await expect(provider.blockCard("missing")).resolves.toEqual({ success: false, error: "Card not found" });
+    await expect(provider.checkSanctions("Sanctioned Holdings")).resolves.toMatchObject({ approved: false, flags: ["sanctions_match"] });
+    await expect(provider.screenEntity("individual", { name: "Pat Lee" })).resolves.toMatchObject({ approved: true });
+  });
+});
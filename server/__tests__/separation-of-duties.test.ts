@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { evaluateSeparationOfDuties, SeparationOfDutiesService, SeparationOfDutiesError } = await import(
+  "../services/separation-of-duties"
+);
+const { LedgerError } = await import("../services/ledger-service");
+
+const approval = {
+  organizationId: "org-1",
+  actorId: "user-2",
+  action: "approve" as const,
+  entityType: "ach_transfer",
+  entityId: "ach-1",
+  initiatorId: "user-1",
+  level: 1,
+};
+
+describe("evaluateSeparationOfDuties", () => {
+  it("passes an approval by someone other than the initiator", () => {
+    expect(evaluateSeparationOfDuties(approval)).toEqual([]);
+  });
+
+  it("blocks initiator self-approval", () => {
+    expect(evaluateSeparationOfDuties({ ...approval, actorId: "user-1" }).map((v) => v.rule)).toEqual([
+      "initiator_self_approval",
+    ]);
+  });
+
+  it("requires a different approver at each level", () => {
+    const secondLevel = { ...approval, level: 2, priorApprovals: [{ approverId: "user-2", level: 1 }] };
+    expect(evaluateSeparationOfDuties(secondLevel)).toEqual([
+      { rule: "repeat_approver", message: "You already approved level 1" },
+    ]);
+    expect(evaluateSeparationOfDuties({ ...secondLevel, actorId: "user-3" })).toEqual([]);
+  });
+
+  it("stops the vendor's creator from approving or releasing its payments", () => {
+    const facts = { vendorCreatedBy: "user-2" };
+    expect(evaluateSeparationOfDuties({ ...approval, vendorId: "vendor-1" }, facts).map((v) => v.rule)).toEqual([
+      "vendor_creator_payment",
+    ]);
+    expect(
+      evaluateSeparationOfDuties({ ...approval, action: "process", initiatorId: "user-2", vendorId: "vendor-1" }, facts)
+        .map((v) => v.rule)
+    ).toEqual(["vendor_creator_payment"]);
+  });
+});
+
+describe("SeparationOfDutiesService.enforce", () => {
+  const selfApproval = { ...approval, actorId: "user-1" };
+
+  it("throws the violations when there is no override", async () => {
+    const service = new SeparationOfDutiesService();
+    await expect(service.enforce(selfApproval, { actorRole: "admin" })).rejects.toBeInstanceOf(SeparationOfDutiesError);
+  });
+
+  it("only lets admins override, and only with a real justification", async () => {
+    const service = new SeparationOfDutiesService();
+    const override = { justification: "Sole treasurer on duty during the audit freeze" };
+
+    await expect(service.enforce(selfApproval, { actorRole: "manager", override })).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    await expect(
+      service.enforce(selfApproval, { actorRole: "admin", override: { justification: "urgent" } })
+    ).rejects.toBeInstanceOf(LedgerError);
+  });
+});
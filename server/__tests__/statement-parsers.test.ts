@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { parseBAI2, parseOFX, parseCSVStatement, parseCsvRows, parseBankStatement } = await import(
+  "../services/statement-parsers"
+);
+const { LedgerError } = await import("../services/ledger-service");
+
+const BAI2_FILE = [
+  "01,121000248,CITYTREAS,250630,0200,1,80,,2/",
+  "02,CITYTREAS,121000248,1,250630,2400,USD,2/",
+  "03,000123456789,USD,010,5000000,,,015,4870000,,/",
+  "16,475,150000,0,B-1001,CHK 1042,CHECK PAID/",
+  "16,195,20000,V,250630,1200,B-1002,DEP-77,WIRE FROM STATE,/",
+  "88,GRANT REIMBURSEMENT/",
+  "49,14890000,4/",
+  "98,14890000,1,6/",
+  "99,14890000,1,8/",
+].join("\n");
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKACCTFROM><BANKID>121000248<ACCTID>000123456789<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20250601
+<DTEND>20250630
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250615120000
+<TRNAMT>-1250.50
+<FITID>FIT-1
+<NAME>ACME PAVING
+<MEMO>Invoice 88
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CHECK
+<DTPOSTED>20250620
+<TRNAMT>-75.00
+<FITID>FIT-2
+<CHECKNUM>1043
+<NAME>Parks &amp; Rec
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>48674.50<DTASOF>20250630</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+describe("parseBAI2", () => {
+  it("reads balances, signed details and continuation text", () => {
+    const statement = parseBAI2(BAI2_FILE);
+
+    expect(statement.accountNumber).toBe("000123456789");
+    expect(statement.openingBalance).toBe("50000.00");
+    expect(statement.closingBalance).toBe("48700.00");
+    expect(statement.periodEnd?.toISOString()).toBe("2025-06-30T00:00:00.000Z");
+    expect(statement.lines).toEqual([
+      expect.objectContaining({ amount: "-1500.00", bankTransactionId: "B-1001", reference: "CHK 1042", typeCode: "475" }),
+      expect.objectContaining({
+        amount: "200.00",
+        bankTransactionId: "B-1002",
+        reference: "DEP-77",
+        description: "WIRE FROM STATE,GRANT REIMBURSEMENT",
+      }),
+    ]);
+  });
+
+  it("rejects files without a file header", () => {
+    expect(() => parseBAI2("16,475,100,0,X,Y,Z/")).toThrow(LedgerError);
+  });
+});
+
+describe("parseOFX", () => {
+  it("parses SGML statements including entities and check numbers", () => {
+    const statement = parseOFX(OFX_SGML);
+
+    expect(statement.accountNumber).toBe("000123456789");
+    expect(statement.closingBalance).toBe("48674.50");
+    expect(statement.periodStart?.toISOString()).toBe("2025-06-01T00:00:00.000Z");
+    expect(statement.lines).toHaveLength(2);
+    expect(statement.lines[0]).toMatchObject({
+      amount: "-1250.50",
+      bankTransactionId: "FIT-1",
+      description: "ACME PAVING - Invoice 88",
+      typeCode: "DEBIT",
+    });
+    expect(statement.lines[1]).toMatchObject({ reference: "1043", description: "Parks & Rec" });
+  });
+
+  it("treats QFX as OFX", () => {
+    expect(parseBankStatement("qfx", OFX_SGML).lines).toHaveLength(2);
+  });
+});
+
+describe("parseCSVStatement", () => {
+  it("splits quoted fields with commas and escaped quotes", () => {
+    expect(parseCsvRows('a,"b, c","say ""hi"""\r\n1,2,3\n')).toEqual([
+      ["a", "b, c", 'say "hi"'],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("maps common headers and debit/credit columns to signed amounts", () => {
+    const statement = parseCSVStatement(
+      "Posted Date,Description,Debit,Credit,Check #\n06/15/2025,\"ACME, Inc\",\"1,250.50\",,\n2025-06-20,Deposit,,300.00,\n"
+    );
+
+    expect(statement.lines.map((line) => line.amount)).toEqual(["-1250.50", "300.00"]);
+    expect(statement.lines[0].description).toBe("ACME, Inc");
+    expect(statement.periodStart?.toISOString()).toBe("2025-06-15T00:00:00.000Z");
+    expect(statement.periodEnd?.toISOString()).toBe("2025-06-20T00:00:00.000Z");
+  });
+
+  it("reads parenthesised amounts as debits", () => {
+    const statement = parseCSVStatement("Date,Amount,Reference\n2025-06-01,(42.10),R-1\n");
+    expect(statement.lines[0]).toMatchObject({ amount: "-42.10", reference: "R-1" });
+  });
+
+  it("requires a date and amount column", () => {
+    expect(() => parseCSVStatement("Description\nx\n")).toThrow(/date column/);
+  });
+});
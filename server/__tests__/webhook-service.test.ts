@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { verifyWebhookSignature, adyenSigningString, crc32 } = await import("../services/webhook-verification");
+const { normalizeWebhookEvents, canTransition } = await import("../services/webhook-service");
+
+const secret = "whsec_test";
+const rawBody = JSON.stringify({ id: "evt_1", type: "payment_intent.succeeded", data: { object: { id: "pi_1" } } });
+const url = "https://gofap.example.gov/api/webhooks/square";
+
+function request(headers: Record<string, string>, body = rawBody) {
+  return { rawBody: body, headers, url };
+}
+
+describe("verifyWebhookSignature", () => {
+  it("checks Stripe's timestamped signature and tolerance window", async () => {
+    const now = Date.UTC(2025, 0, 1);
+    const t = Math.floor(now / 1000);
+    const v1 = crypto.createHmac("sha256", secret).update(`${t}.${rawBody}`).digest("hex");
+    const header = { "stripe-signature": `t=${t},v1=${v1}` };
+
+    expect(await verifyWebhookSignature("stripe", request(header), { secret }, now)).toBe(true);
+    expect(await verifyWebhookSignature("stripe", request(header), { secret }, now + 301_000)).toBe(false);
+    expect(await verifyWebhookSignature("stripe", request(header, `${rawBody} `), { secret }, now)).toBe(false);
+  });
+
+  it("signs the notification URL plus body for Square", async () => {
+    const signature = crypto.createHmac("sha256", secret).update(`${url}${rawBody}`).digest("base64");
+    const headers = { "x-square-hmacsha256-signature": signature };
+
+    expect(await verifyWebhookSignature("square", request(headers), { secret })).toBe(true);
+    expect(await verifyWebhookSignature("square", request(headers), { secret, webhookUrl: "https://other.example/hook" })).toBe(false);
+  });
+
+  it("checks the body HMAC headers for Dwolla, Coinbase and Unit", async () => {
+    const sha256 = crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+    const sha1 = crypto.createHmac("sha1", secret).update(rawBody).digest("base64");
+
+    expect(await verifyWebhookSignature("dwolla", request({ "x-request-signature-sha-256": sha256 }), { secret })).toBe(true);
+    expect(await verifyWebhookSignature("coinbase", request({ "x-cc-webhook-signature": sha256 }), { secret })).toBe(true);
+    expect(await verifyWebhookSignature("unit", request({ "x-unit-signature": sha1 }), { secret })).toBe(true);
+    expect(await verifyWebhookSignature("unit", request({ "x-unit-signature": sha1 }), { secret: "other" })).toBe(false);
+    expect(await verifyWebhookSignature("dwolla", request({}), { secret })).toBe(false);
+  });
+
+  it("verifies every Adyen notification item with the hex HMAC key", async () => {
+    const key = "44782def547aaa06c910c43932b1eb0c71fc68d9d0c057550c48ec2acf6ba056";
+    const item: Record<string, any> = {
+      pspReference: "7914073381342284",
+      originalReference: "",
+      merchantAccountCode: "GovMerchant",
+      merchantReference: "INV:42",
+      amount: { value: 1130, currency: "EUR" },
+      eventCode: "AUTHORISATION",
+      success: "true",
+    };
+    expect(adyenSigningString(item)).toBe("7914073381342284::GovMerchant:INV\\:42:1130:EUR:AUTHORISATION:true");
+
+    item.additionalData = {
+      hmacSignature: crypto.createHmac("sha256", Buffer.from(key, "hex")).update(adyenSigningString(item)).digest("base64"),
+    };
+    const body = JSON.stringify({ live: "false", notificationItems: [{ NotificationRequestItem: item }] });
+
+    expect(await verifyWebhookSignature("adyen", request({}, body), { secret: key })).toBe(true);
+    expect(await verifyWebhookSignature("adyen", request({}, body.replace("1130", "1131")), { secret: key })).toBe(false);
+  });
+
+  it("verifies Wise and Circle signatures against the configured public key", async () => {
+    const rsa = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const ec = crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+    const wiseSignature = crypto.sign("sha256", Buffer.from(rawBody), rsa.privateKey).toString("base64");
+    const circleSignature = crypto.sign("sha256", Buffer.from(rawBody), ec.privateKey).toString("base64");
+    const wiseKey = rsa.publicKey.export({ type: "spki", format: "pem" }).toString();
+    const circleKey = ec.publicKey.export({ type: "spki", format: "der" }).toString("base64");
+
+    expect(await verifyWebhookSignature("wise", request({ "x-signature-sha256": wiseSignature }), { secret: wiseKey })).toBe(true);
+    expect(await verifyWebhookSignature("circle", request({ "x-circle-signature": circleSignature }), { secret: circleKey })).toBe(true);
+    expect(await verifyWebhookSignature("circle", request({ "x-circle-signature": wiseSignature }), { secret: circleKey })).toBe(false);
+  });
+
+  it("rejects PayPal certificates not served by PayPal", async () => {
+    const headers = {
+      "paypal-transmission-id": "t-1",
+      "paypal-transmission-time": "2025-01-01T00:00:00Z",
+      "paypal-transmission-sig": "c2ln",
+      "paypal-cert-url": "https://paypal.com.attacker.example/cert.pem",
+    };
+    expect(await verifyWebhookSignature("paypal", request(headers), { secret: "WH-1" })).toBe(false);
+    expect(crc32("123456789")).toBe(0xcbf43926);
+  });
+});
+
+describe("normalizeWebhookEvents", () => {
+  it("maps Stripe payment intents and issuing cards", () => {
+    expect(normalizeWebhookEvents("stripe", JSON.parse(rawBody))).toEqual([
+      { eventId: "evt_1", eventType: "payment_intent.succeeded", transaction: { providerTransactionId: "pi_1", status: "completed" } },
+    ]);
+    expect(
+      normalizeWebhookEvents("stripe", { id: "evt_2", type: "issuing_card.updated", data: { object: { id: "ic_1", status: "canceled" } } })
+    ).toEqual([{ eventId: "evt_2", eventType: "issuing_card.updated", card: { externalCardId: "ic_1", status: "blocked" } }]);
+  });
+
+  it("keeps unhandled events so they can be recorded as ignored", () => {
+    expect(normalizeWebhookEvents("stripe", { id: "evt_3", type: "customer.created", data: { object: { id: "cus_1" } } })).toEqual([
+      { eventId: "evt_3", eventType: "customer.created" },
+    ]);
+    expect(normalizeWebhookEvents("stripe", {})).toEqual([]);
+  });
+
+  it("splits Adyen batches into one event per item keyed by PSP reference", () => {
+    const events = normalizeWebhookEvents("adyen", {
+      notificationItems: [
+        { NotificationRequestItem: { pspReference: "psp1", eventCode: "AUTHORISATION", success: "false" } },
+        { NotificationRequestItem: { pspReference: "psp2", originalReference: "psp1", eventCode: "CANCELLATION", success: "true" } },
+      ],
+    });
+    expect(events).toEqual([
+      { eventId: "psp1:AUTHORISATION:false", eventType: "AUTHORISATION", transaction: { providerTransactionId: "psp1", status: "failed" } },
+      { eventId: "psp2:CANCELLATION:true", eventType: "CANCELLATION", transaction: { providerTransactionId: "psp1", status: "cancelled" } },
+    ]);
+  });
+
+  it("takes the Wise event id from the delivery header", () => {
+    const body = {
+      event_type: "transfers#state-change",
+      data: { resource: { id: 9001, type: "transfer" }, current_state: "bounced_back" },
+    };
+    expect(normalizeWebhookEvents("wise", body, { "x-delivery-id": "d-1" })).toEqual([
+      { eventId: "d-1", eventType: "transfers#state-change", transaction: { providerTransactionId: "9001", status: "returned" } },
+    ]);
+  });
+
+  it("maps Unit payment returns with an R-code and card status changes", () => {
+    const events = normalizeWebhookEvents("unit", {
+      data: [
+        { id: "1", type: "payment.returned", attributes: { reason: "R03" }, relationships: { payment: { data: { id: "p1" } } } },
+        { id: "2", type: "card.statusChanged", attributes: { newStatus: "Frozen" }, relationships: { card: { data: { id: "c1" } } } },
+      ],
+    });
+    expect(events).toEqual([
+      { eventId: "1", eventType: "payment.returned", transaction: { providerTransactionId: "p1", status: "returned", achReturnCode: "R03" } },
+      { eventId: "2", eventType: "card.statusChanged", card: { externalCardId: "c1", status: "blocked" } },
+    ]);
+  });
+
+  it("maps Dwolla, Coinbase, Circle, Square and PayPal transfers", () => {
+    expect(normalizeWebhookEvents("dwolla", { id: "e1", topic: "customer_transfer_completed", resourceId: "t1" })[0].transaction)
+      .toEqual({ providerTransactionId: "t1", status: "completed" });
+    expect(normalizeWebhookEvents("coinbase", { id: "d1", event: { id: "e2", type: "charge:failed", data: { id: "ch1" } } })[0])
+      .toEqual({ eventId: "e2", eventType: "charge:failed", transaction: { providerTransactionId: "ch1", status: "failed" } });
+    expect(normalizeWebhookEvents("circle", { notificationType: "payouts", payout: { id: "po1", status: "complete" } })[0])
+      .toEqual({ eventId: "po1:complete", eventType: "payouts", transaction: { providerTransactionId: "po1", status: "completed" } });
+    expect(normalizeWebhookEvents("square", { event_id: "sq1", type: "payment.updated", data: { object: { payment: { id: "pay1", status: "CANCELED" } } } })[0].transaction)
+      .toEqual({ providerTransactionId: "pay1", status: "cancelled" });
+    expect(normalizeWebhookEvents("paypal", { id: "WH-1", event_type: "PAYMENT.CAPTURE.DENIED", resource: { id: "cap1" } })[0].transaction)
+      .toEqual({ providerTransactionId: "cap1", status: "failed" });
+  });
+});
+
+describe("canTransition", () => {
+  it("never moves a settled transaction back to an in-flight status", () => {
+    expect(canTransition("processing", "completed")).toBe(true);
+    expect(canTransition("completed", "returned")).toBe(true);
+    expect(canTransition("completed", "processing")).toBe(false);
+    expect(canTransition("returned", "completed")).toBe(false);
+    expect(canTransition("completed", "completed")).toBe(false);
+  });
+});
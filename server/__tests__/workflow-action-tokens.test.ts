@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { signActionToken, verifyActionToken } = await import("../services/workflow-action-tokens");
+const { redeemWorkflowActionSchema } = await import("@shared/workflow-schema");
+
+const secret = "test-secret";
+const now = new Date("2026-07-03T15:00:00Z");
+const claims = {
+  id: "token-1",
+  workflowId: "wf-1",
+  recipientId: "alice",
+  exp: Math.floor(now.getTime() / 1000) + 3600,
+};
+
+describe("approval link tokens", () => {
+  it("round-trips signed claims", () => {
+    expect(verifyActionToken(signActionToken(claims, secret), secret, now)).toEqual(claims);
+  });
+
+  it("rejects edited, forged and malformed links", () => {
+    const token = signActionToken(claims, secret);
+    const [, signature] = token.split(".");
+    const edited = `${Buffer.from(JSON.stringify({ ...claims, recipientId: "mallory" })).toString("base64url")}.${signature}`;
+
+    expect(() => verifyActionToken(edited, secret, now)).toThrow(expect.objectContaining({ statusCode: 401 }));
+    expect(() => verifyActionToken(signActionToken(claims, "other-secret"), secret, now)).toThrow(
+      expect.objectContaining({ statusCode: 401 })
+    );
+    expect(() => verifyActionToken("not-a-token", secret, now)).toThrow(expect.objectContaining({ statusCode: 401 }));
+  });
+
+  it("refuses a link once it has expired", () => {
+    const later = new Date(now.getTime() + 2 * 3600 * 1000);
+    expect(() => verifyActionToken(signActionToken(claims, secret), secret, later)).toThrow(
+      expect.objectContaining({ statusCode: 410 })
+    );
+  });
+});
+
+describe("redeemWorkflowActionSchema", () => {
+  it("needs a reason to reject but not to approve", () => {
+    expect(redeemWorkflowActionSchema.safeParse({ action: "approve" }).success).toBe(true);
+    expect(redeemWorkflowActionSchema.safeParse({ action: "reject" }).success).toBe(false);
+    expect(redeemWorkflowActionSchema.safeParse({ action: "reject", comments: "  " }).success).toBe(false);
+    expect(redeemWorkflowActionSchema.safeParse({ action: "reject", comments: "Over budget" }).success).toBe(true);
+    expect(redeemWorkflowActionSchema.safeParse({ action: "request_info" }).success).toBe(false);
+  });
+});
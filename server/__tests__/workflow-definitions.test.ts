@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { evaluateCondition, nextStageIndex, groupOutcome, stageOutcome, definitionProblems, definitionApprovers } =
+  await import("../services/workflow-definitions");
+const { saveWorkflowDefinitionSchema } = await import("@shared/workflow-schema");
+
+const stages = [
+  {
+    id: "review",
+    name: "Department review",
+    groups: [{ id: "dept", name: "Department heads", approvers: ["head-1", "head-2"], quorum: "any" as const }],
+  },
+  {
+    id: "finance",
+    name: "Finance",
+    condition: { field: "amount", operator: "gte" as const, value: 10000 },
+    groups: [
+      { id: "controllers", name: "Controllers", approvers: ["ctl-1", "ctl-2"], quorum: "all" as const },
+      {
+        id: "it",
+        name: "IT security",
+        approvers: ["sec-1"],
+        quorum: "any" as const,
+        condition: { field: "vendor.category", operator: "in" as const, value: ["software", "cloud"] },
+      },
+    ],
+  },
+  {
+    id: "treasury",
+    name: "Treasury",
+    condition: { all: [{ field: "amount", operator: "gt" as const, value: 250000 }, { field: "urgent", operator: "neq" as const, value: true }] },
+    groups: [{ id: "treasurer", name: "Treasurer", approvers: ["tre-1"], quorum: "any" as const }],
+  },
+];
+
+describe("evaluateCondition", () => {
+  it("compares numeric strings stored on workflow data as numbers", () => {
+    expect(evaluateCondition({ field: "amount", operator: "gte", value: 10000 }, { amount: "10000.00" })).toBe(true);
+    expect(evaluateCondition({ field: "amount", operator: "lt", value: 9000 }, { amount: "10000.00" })).toBe(false);
+  });
+
+  it("reads nested fields and combines any/all", () => {
+    const data = { vendor: { category: "cloud" }, tags: ["capex"] };
+    expect(evaluateCondition({ field: "vendor.category", operator: "in", value: ["software", "cloud"] }, data)).toBe(true);
+    expect(evaluateCondition({ field: "tags", operator: "contains", value: "capex" }, data)).toBe(true);
+    expect(
+      evaluateCondition({ any: [{ field: "missing", operator: "exists" }, { field: "vendor.category", operator: "eq", value: "cloud" }] }, data)
+    ).toBe(true);
+    expect(evaluateCondition({ field: "missing.deep", operator: "exists" }, data)).toBe(false);
+  });
+});
+
+describe("definition routing", () => {
+  it("skips stages whose condition does not hold", () => {
+    expect(nextStageIndex(stages, { amount: 500 })).toBe(0);
+    expect(nextStageIndex(stages, { amount: 500 }, 0)).toBeNull();
+    expect(nextStageIndex(stages, { amount: 300000 }, 1)).toBe(2);
+    expect(nextStageIndex(stages, { amount: 300000, urgent: true }, 1)).toBeNull();
+  });
+
+  it("applies any/all quorum per group and treats one rejection as final", () => {
+    const [controllers] = stages[1].groups;
+    const approve = (approverId: string, groupId = "controllers") => ({ approverId, groupId, action: "approve" });
+
+    expect(groupOutcome(stages[0].groups[0], [approve("head-2", "dept")])).toBe("approved");
+    expect(groupOutcome(controllers, [approve("ctl-1")])).toBe("pending");
+    expect(groupOutcome(controllers, [approve("ctl-1"), approve("ctl-2")])).toBe("approved");
+    expect(groupOutcome(controllers, [approve("ctl-1"), { approverId: "ctl-2", groupId: "controllers", action: "reject" }])).toBe("rejected");
+  });
+
+  it("completes a stage only when every active parallel group has approved", () => {
+    const decisions = [
+      { approverId: "ctl-1", groupId: "controllers", action: "approve" },
+      { approverId: "ctl-2", groupId: "controllers", action: "approve" },
+    ];
+
+    // IT security only joins for software and cloud vendors
+    expect(stageOutcome(stages[1], { amount: 20000, vendor: { category: "office" } }, decisions)).toBe("approved");
+    expect(stageOutcome(stages[1], { amount: 20000, vendor: { category: "cloud" } }, decisions)).toBe("pending");
+    expect(
+      stageOutcome(stages[1], { amount: 20000, vendor: { category: "cloud" } }, [
+        ...decisions,
+        { approverId: "sec-1", groupId: "it", action: "approve" },
+      ])
+    ).toBe("approved");
+  });
+});
+
+describe("definition validation", () => {
+  it("reports duplicate ids and approvers", () => {
+    const broken = [
+      stages[0],
+      { ...stages[0], groups: [{ ...stages[0].groups[0], id: "dept-2", approvers: ["head-1", "head-1"] }] },
+    ];
+    expect(definitionProblems(stages)).toEqual([]);
+    expect(definitionProblems(broken)).toEqual(["Stage id review is used twice", "Group Department heads lists an approver twice"]);
+    expect(definitionApprovers(stages)).toEqual(["head-1", "head-2", "ctl-1", "ctl-2", "sec-1", "tre-1"]);
+  });
+
+  it("requires at least one approver in every group", () => {
+    const input = { type: "payment_approval", name: "Payments", stages };
+    expect(saveWorkflowDefinitionSchema.safeParse(input).success).toBe(true);
+    expect(
+      saveWorkflowDefinitionSchema.safeParse({ ...input, stages: [{ ...stages[0], groups: [{ ...stages[0].groups[0], approvers: [] }] }] }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {}, pool: { end: vi.fn() } }));
+
+const { percentile, selectPolicy, slaStatus, dueTiers, summarizeCycleTimes, pendingApprovals } = await import(
+  "../services/workflow-sla"
+);
+const { saveWorkflowSlaPolicySchema } = await import("@shared/workflow-schema");
+
+const policy = (overrides: Record<string, unknown> = {}) => ({
+  id: "sla-1",
+  organizationId: "org-1",
+  type: "payment_approval",
+  priority: null,
+  targetHours: 16,
+  escalationTiers: [],
+  businessHoursStart: 9,
+  businessHoursEnd: 17,
+  timeZone: "America/New_York",
+  isActive: true,
+  createdBy: "admin-1",
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+}) as any;
+
+describe("percentile", () => {
+  it("interpolates between ranks", () => {
+    expect(percentile([4, 1, 3, 2], 50)).toBe(2.5);
+    expect(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 90)).toBeCloseTo(9.1);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe("SLA policies", () => {
+  it("prefers a policy for the exact priority over the type's catch-all", () => {
+    const policies = [policy(), policy({ id: "sla-urgent", priority: "urgent", targetHours: 4 }), policy({ id: "sla-off", priority: "high", isActive: false })];
+    expect(selectPolicy(policies, "payment_approval", "urgent")?.id).toBe("sla-urgent");
+    expect(selectPolicy(policies, "payment_approval", "high")?.id).toBe("sla-1");
+    expect(selectPolicy(policies, "expense_approval", "normal")).toBeNull();
+  });
+
+  it("rates age against the target and fires each passed tier once", () => {
+    expect(slaStatus(8, 16)).toBe("on_track");
+    expect(slaStatus(12, 16)).toBe("at_risk");
+    expect(slaStatus(16, 16)).toBe("breached");
+
+    const tiers = [
+      { afterHours: 16, recipients: ["manager-1"], remindApprovers: true },
+      { afterHours: 24, recipients: ["director-1"], remindApprovers: false },
+      { afterHours: 40, recipients: ["cfo-1"], remindApprovers: false },
+    ];
+    expect(dueTiers(tiers, 10, new Set())).toEqual([]);
+    expect(dueTiers(tiers, 30, new Set())).toEqual([1, 2]);
+    expect(dueTiers(tiers, 30, new Set([1]))).toEqual([2]);
+  });
+
+  it("requires tiers in increasing order and valid office hours", () => {
+    const base = { type: "payment_approval", targetHours: 16 };
+    const tier = (afterHours: number) => ({ afterHours, recipients: ["manager-1"] });
+    expect(saveWorkflowSlaPolicySchema.safeParse({ ...base, escalationTiers: [tier(16), tier(24)] }).success).toBe(true);
+    expect(saveWorkflowSlaPolicySchema.safeParse({ ...base, escalationTiers: [tier(24), tier(16)] }).success).toBe(false);
+    expect(saveWorkflowSlaPolicySchema.safeParse({ ...base, businessHoursStart: 17, businessHoursEnd: 9 }).success).toBe(false);
+    expect(saveWorkflowSlaPolicySchema.safeParse({ ...base, timeZone: "Mars/Olympus" }).success).toBe(false);
+  });
+});
+
+describe("summarizeCycleTimes", () => {
+  it("orders groups by p90 and flags slow groups with enough decisions as bottlenecks", () => {
+    const samples = [
+      ...[2, 3, 4, 3].map((hours) => ({ key: "alice", label: "Alice", hours })),
+      ...[12, 20, 16].map((hours) => ({ key: "bob", label: "Bob", hours })),
+      { key: "carol", label: "Carol", hours: 30 },
+    ];
+    const groups = summarizeCycleTimes(samples, new Map([["bob", 5]]));
+
+    expect(groups.map((group) => group.key)).toEqual(["carol", "bob", "alice"]);
+    expect(groups.find((group) => group.key === "bob")).toMatchObject({ count: 3, median: 16, pending: 5, bottleneck: true });
+    // One slow decision is not enough evidence
+    expect(groups.find((group) => group.key === "carol")?.bottleneck).toBe(false);
+    expect(groups.find((group) => group.key === "alice")?.bottleneck).toBe(false);
+  });
+});
+
+describe("pendingApprovals", () => {
+  const workflow = { id: "wf-1", currentLevel: 2 } as any;
+  const approval = (approverId: string, level: number, groupId: string | null, action: string | null = null) =>
+    ({ id: `${approverId}-${level}`, workflowId: "wf-1", approverId, level, groupId, action, delegatedTo: null }) as any;
+  const stage = {
+    id: "review",
+    name: "Review",
+    groups: [
+      { id: "finance", name: "Finance", approvers: ["alice", "bob"], quorum: "any" as const },
+      { id: "legal", name: "Legal", approvers: ["carol", "dave"], quorum: "all" as const },
+    ],
+  };
+
+  it("waits only on the current stage's open groups", () => {
+    const approvals = [
+      approval("erin", 1, "intake"),
+      approval("alice", 2, "finance", "approve"),
+      approval("bob", 2, "finance"),
+      approval("carol", 2, "legal", "approve"),
+      approval("dave", 2, "legal"),
+      approval("frank", 3, "sign-off"),
+    ];
+    expect(pendingApprovals(workflow, approvals, stage).map((pending) => pending.approverId)).toEqual(["dave"]);
+  });
+
+  it("counts every undecided seat at the level for workflows without a definition", () => {
+    const approvals = [approval("alice", 2, null, "approve"), approval("bob", 2, null), approval("erin", 1, null)];
+    expect(pendingApprovals(workflow, approvals).map((pending) => pending.approverId)).toEqual(["bob"]);
+  });
+});
@@ -4,7 +4,35 @@ import type { Express } from "express";
 import { isAuthenticated } from "./replitAuth";
 import { enhancedStorage } from "./enhanced-storage";
 import { serviceRegistry } from "./services/service-registry";
+import { withIdempotency } from "./services/idempotency-service";
 import bulkOperationsRouter from "./routes/bulk-operations";
+import ledgerRouter from "./routes/ledger";
+import fundsRouter from "./routes/funds";
+import fiscalPeriodsRouter from "./routes/fiscal-periods";
+import encumbrancesRouter from "./routes/encumbrances";
+import reconciliationRouter from "./routes/reconciliation";
+import achFilesRouter from "./routes/ach-files";
+import achReturnsRouter from "./routes/ach-returns";
+import checksRouter from "./routes/checks";
+import webhooksRouter from "./routes/webhooks";
+import routingRouter from "./routes/routing";
+import jobsRouter from "./routes/jobs";
+import paymentSchedulesRouter from "./routes/payment-schedules";
+import bankingCalendarRouter from "./routes/banking-calendar";
+import fxRouter from "./routes/fx";
+import digitalAssetsRouter from "./routes/digital-assets";
+import separationOfDutiesRouter from "./routes/separation-of-duties";
+import rolesRouter from "./routes/roles";
+import workflowsRouter from "./routes/workflows";
+import workflowActionsRouter from "./routes/workflow-actions";
+import { fundService } from "./services/fund-service";
+import { workflowService } from "./workflow-service";
+import { bankingCalendarService } from "./services/banking-calendar-service";
+import { fxService } from "./services/fx-service";
+import { separationOfDutiesService, SeparationOfDutiesError } from "./services/separation-of-duties";
+import { requirePermission, rbacService } from "./services/rbac-service";
+import { LedgerError } from "./services/ledger-service";
+import { toDateOnly } from "./services/banking-calendar";
 import { employeeVerificationService } from "./services/employee-verification";
 import { z } from "zod";
 import {
@@ -19,12 +47,71 @@ import {
   insertProcurementSchema,
   insertCitizenServiceSchema,
   insertEnhancedTransactionSchema,
+  paymentProviderEnum,
+  paymentTypeEnum,
 } from "@shared/schema";
 
 export function registerEnhancedRoutes(app: Express) {
   // ========== BULK OPERATIONS ROUTES ==========
   app.use('/api', bulkOperationsRouter);
 
+  // ========== GENERAL LEDGER ROUTES ==========
+  app.use('/api', ledgerRouter);
+
+  // ========== FUND ACCOUNTING ROUTES ==========
+  app.use('/api', fundsRouter);
+
+  // ========== FISCAL PERIOD CLOSE ROUTES ==========
+  app.use('/api', fiscalPeriodsRouter);
+
+  // ========== ENCUMBRANCE ROUTES ==========
+  app.use('/api', encumbrancesRouter);
+
+  // ========== BANK RECONCILIATION ROUTES ==========
+  app.use('/api', reconciliationRouter);
+
+  // ========== NACHA ACH FILE ROUTES ==========
+  app.use('/api', achFilesRouter);
+
+  // ========== ACH RETURN ROUTES ==========
+  app.use('/api', achReturnsRouter);
+
+  // ========== CHECK PRINTING & POSITIVE PAY ROUTES ==========
+  app.use('/api', checksRouter);
+
+  // ========== PROVIDER WEBHOOK ROUTES ==========
+  app.use('/api', webhooksRouter);
+
+  // ========== PAYMENT ROUTING ROUTES ==========
+  app.use('/api', routingRouter);
+
+  // ========== BACKGROUND JOB ROUTES ==========
+  app.use('/api', jobsRouter);
+
+  // ========== SCHEDULED PAYMENT ROUTES ==========
+  app.use('/api', paymentSchedulesRouter);
+
+  // ========== BANKING CALENDAR ROUTES ==========
+  app.use('/api', bankingCalendarRouter);
+
+  // ========== FOREIGN EXCHANGE ROUTES ==========
+  app.use('/api', fxRouter);
+
+  // ========== DIGITAL ASSET TREASURY ROUTES ==========
+  app.use('/api', digitalAssetsRouter);
+
+  // ========== SEPARATION OF DUTIES ROUTES ==========
+  app.use('/api', separationOfDutiesRouter);
+
+  // ========== ROLES AND PERMISSIONS ROUTES ==========
+  app.use('/api', rolesRouter);
+
+  // ========== WORKFLOW DEFINITION ROUTES ==========
+  app.use('/api', workflowsRouter);
+
+  // ========== WORKFLOW ACTION LINK ROUTES ==========
+  app.use('/api', workflowActionsRouter);
+
   // ========== EMPLOYEE CARD MANAGEMENT ROUTES ==========
   
   // Get employee's own cards
@@ -170,7 +257,7 @@ export function registerEnhancedRoutes(app: Express) {
   // ========== ACH APPROVAL WORKFLOWS ==========
   
   // Create ACH transfer with approval requirement
-  app.post("/api/ach/transfers/create", isAuthenticated, async (req: any, res) => {
+  app.post("/api/ach/transfers/create", isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const { amount, recipientAccount, routingNumber, transferType, description } = req.body;
       const userId = req.user.claims.sub;
@@ -182,6 +269,13 @@ export function registerEnhancedRoutes(app: Express) {
       
       // Determine if approval needed based on amount
       const requiresApproval = parseFloat(amount) > 10000; // Amounts over $10,000 need approval
+
+      // Same-day entries settle today only on a banking day; everything else settles the next one
+      const calendar = await bankingCalendarService.forOrganization(user.organizationId);
+      const today = toDateOnly(new Date());
+      const effectiveDate = transferType === 'same_day' && calendar.isBusinessDay(today)
+        ? today
+        : calendar.addBusinessDays(today, 1);
       
       const transfer = {
         id: `ach_${Date.now()}`,
@@ -191,11 +285,13 @@ export function registerEnhancedRoutes(app: Express) {
         routingNumber, 
         transferType,
         description,
+        effectiveDate: effectiveDate.toISOString(),
         status: requiresApproval ? 'pending' : 'approved',
         requiresApproval,
         approvalLevel: parseFloat(amount) > 50000 ? 2 : 1, // 2-level approval for amounts > $50k
         createdAt: new Date().toISOString(),
-        approvals: []
+        approvals: [],
+        idempotencyKey: req.idempotencyKey
       };
       
       // Store transfer
@@ -225,19 +321,9 @@ export function registerEnhancedRoutes(app: Express) {
   });
 
   // Get pending approvals
-  app.get("/api/ach/approvals/pending", isAuthenticated, async (req: any, res) => {
+  app.get("/api/ach/approvals/pending", isAuthenticated, requirePermission('ach', 'approve'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await enhancedStorage.getUser(userId);
-      const userRole = user?.role;
-      
-      if (userRole !== 'admin' && userRole !== 'manager') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-      
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       
       // Fetch pending ACH transfers
       const transactions = await enhancedStorage.getEnhancedTransactions(user.organizationId);
@@ -253,21 +339,12 @@ export function registerEnhancedRoutes(app: Express) {
   });
 
   // Approve/Reject ACH transfer
-  app.post("/api/ach/approvals/:transferId", isAuthenticated, async (req: any, res) => {
+  app.post("/api/ach/approvals/:transferId", isAuthenticated, requirePermission('ach', 'approve'), async (req: any, res) => {
     try {
       const { transferId } = req.params;
       const { action, comments } = req.body;
       const userId = req.user.claims.sub;
-      const user = await enhancedStorage.getUser(userId);
-      const userRole = user?.role;
-      
-      if (userRole !== 'admin' && userRole !== 'manager') {
-        return res.status(403).json({ message: "Insufficient permissions to approve transfers" });
-      }
-      
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       
       // Get transfer details
       const transactions = await enhancedStorage.getEnhancedTransactions(user.organizationId);
@@ -278,6 +355,43 @@ export function registerEnhancedRoutes(app: Express) {
       }
       
       const metadata = transfer.metadata as any;
+
+      // The initiator cannot approve, and each level needs a different approver
+      let sodOverride = false;
+      if (action === 'approve') {
+        const priorApprovals: any[] = metadata?.approvals ?? [];
+        try {
+          const sod = await separationOfDutiesService.enforce(
+            {
+              organizationId: transfer.organizationId,
+              actorId: userId,
+              action: 'approve',
+              entityType: 'ach_transfer',
+              entityId: transferId,
+              initiatorId: metadata?.initiatedBy,
+              level: metadata?.approvalLevel === 2 && transfer.status !== 'pending' ? 2 : 1,
+              priorApprovals: priorApprovals.map((approval) => ({ approverId: approval.approvedBy, level: approval.level })),
+            },
+            {
+              canOverride: await rbacService.can(user, 'separation_of_duties', 'override'),
+              override: req.body.sodOverride && {
+                justification: req.body.sodOverride.justification,
+                ipAddress: req.ip,
+                userAgent: req.get('user-agent') || ''
+              }
+            }
+          );
+          sodOverride = sod.overridden;
+        } catch (error) {
+          if (error instanceof SeparationOfDutiesError) {
+            return res.status(403).json({ message: error.message, violations: error.violations });
+          }
+          if (error instanceof LedgerError) {
+            return res.status(error.statusCode).json({ message: error.message });
+          }
+          throw error;
+        }
+      }
       
       // Check approval level requirements
       if (metadata?.approvalLevel === 2 && transfer.status === 'pending') {
@@ -290,7 +404,8 @@ export function registerEnhancedRoutes(app: Express) {
             approvedBy: userId,
             approvedAt: new Date().toISOString(),
             level: 1,
-            comments
+            comments,
+            sodOverride
           });
           
           await enhancedStorage.updateEnhancedTransaction(transferId, {
@@ -328,7 +443,8 @@ export function registerEnhancedRoutes(app: Express) {
             approvedBy: userId,
             approvedAt: new Date().toISOString(),
             level: metadata?.approvalLevel === 2 ? 2 : 1,
-            comments
+            comments,
+            sodOverride
           });
           
           // Process the ACH transfer
@@ -456,7 +572,7 @@ export function registerEnhancedRoutes(app: Express) {
   });
 
   // Citizen payment processing
-  app.post("/api/citizen/payment", async (req: any, res) => {
+  app.post("/api/citizen/payment", withIdempotency, async (req: any, res) => {
     try {
       const { serviceType, amount, citizenInfo, paymentMethod } = req.body;
       
@@ -480,7 +596,7 @@ export function registerEnhancedRoutes(app: Express) {
         const result = await provider.processPayment(amount, 'USD', {
           serviceId: service.id,
           citizenEmail: citizenInfo.email
-        });
+        }, { idempotencyKey: req.idempotencyKey });
 
         if (result.success) {
           await enhancedStorage.updateCitizenService(service.id, {
@@ -585,14 +701,9 @@ export function registerEnhancedRoutes(app: Express) {
   // ========== CARD MANAGEMENT ROUTES ==========
   
   // Get all issued cards (admin)
-  app.get("/api/cards", isAuthenticated, async (req: any, res) => {
+  app.get("/api/cards", isAuthenticated, requirePermission('cards', 'read'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await enhancedStorage.getUser(userId);
-      
-      if (!user?.organizationId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const user = req.currentUser;
       
       const cards = await enhancedStorage.getIssuedCards(user.organizationId);
       res.json(cards || []);
@@ -603,15 +714,11 @@ export function registerEnhancedRoutes(app: Express) {
   });
   
   // Issue new card
-  app.post("/api/cards/issue", isAuthenticated, async (req: any, res) => {
+  app.post("/api/cards/issue", isAuthenticated, requirePermission('cards', 'issue'), async (req: any, res) => {
     try {
       const { holderName, holderId, cardType, spendingLimit, monthlyLimit } = req.body;
       const userId = req.user.claims.sub;
-      const user = await enhancedStorage.getUser(userId);
-      
-      if (!user?.organizationId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const user = req.currentUser;
       
       // Issue card through Stripe provider
       const provider = serviceRegistry.getService(user.organizationId, 'payment', 'stripe');
@@ -635,6 +742,9 @@ export function registerEnhancedRoutes(app: Express) {
             status: (cardResult.status as any) || 'active'
           });
           
+          // Cards the provider leaves pending go through card issuance approval
+          await workflowService.syncEntityWorkflow('issued_card', card.id, userId);
+
           res.json({ ...cardResult, id: card.id });
         } else {
           res.status(400).json({ message: cardResult.error });
@@ -649,15 +759,10 @@ export function registerEnhancedRoutes(app: Express) {
   });
   
   // Freeze/Unfreeze card
-  app.patch("/api/cards/:cardId/:action", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/cards/:cardId/:action", isAuthenticated, requirePermission('cards', 'manage'), async (req: any, res) => {
     try {
       const { cardId, action } = req.params;
-      const userId = req.user.claims.sub;
-      const user = await enhancedStorage.getUser(userId);
-      
-      if (!user?.organizationId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const user = req.currentUser;
       
       if (action !== 'freeze' && action !== 'unfreeze') {
         return res.status(400).json({ message: "Invalid action" });
@@ -698,15 +803,10 @@ export function registerEnhancedRoutes(app: Express) {
   });
   
   // Process ACH transfer
-  app.post("/api/direct-deposits/transfer", isAuthenticated, async (req: any, res) => {
+  app.post("/api/direct-deposits/transfer", isAuthenticated, requirePermission('direct_deposits', 'transfer'), withIdempotency, async (req: any, res) => {
     try {
       const transferData = req.body;
-      const userId = req.user.claims.sub;
-      const user = await enhancedStorage.getUser(userId);
-      
-      if (!user?.organizationId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const user = req.currentUser;
       
       // Process through provider
       const provider = serviceRegistry.getService(user.organizationId, 'payment', 'stripe');
@@ -715,7 +815,8 @@ export function registerEnhancedRoutes(app: Express) {
           transferData.amount,
           'main-account', // From account
           transferData.recipientAccount,
-          transferData.transferSpeed
+          transferData.transferSpeed,
+          { idempotencyKey: req.idempotencyKey }
         );
         
         if (result.success) {
@@ -803,6 +904,7 @@ export function registerEnhancedRoutes(app: Express) {
         routingNumber,
         bankName,
         accountType,
+        ownerUserId: userId,
         isVerified: false,
         isActive: true
       });
@@ -838,17 +940,12 @@ export function registerEnhancedRoutes(app: Express) {
   });
   
   // Get all payments
-  app.get("/api/payments/all", isAuthenticated, async (req: any, res) => {
+  app.get("/api/payments/all", isAuthenticated, requirePermission('payments', 'read'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await enhancedStorage.getUser(userId);
-      
-      if (!user?.organizationId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const user = req.currentUser;
       
       const payments = await enhancedStorage.getPayments(user.organizationId);
-      res.json(payments || []);
+      res.json(await rbacService.filterToScope(user, req.permissionScope, payments || [], (payment) => payment.createdBy));
     } catch (error) {
       console.error("Payments fetch error:", error);
       res.status(500).json({ message: "Failed to fetch payments" });
@@ -856,64 +953,146 @@ export function registerEnhancedRoutes(app: Express) {
   });
   
   // Process unified payment
-  app.post("/api/payments/process", isAuthenticated, async (req: any, res) => {
+  app.post("/api/payments/process", isAuthenticated, requirePermission('payments', 'process'), withIdempotency, async (req: any, res) => {
     try {
       const paymentData = req.body;
       const userId = req.user.claims.sub;
-      const user = await enhancedStorage.getUser(userId);
-      
-      if (!user?.organizationId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      // Process through selected provider
-      const provider = serviceRegistry.getService(
-        user.organizationId, 
-        'payment', 
-        paymentData.provider
-      );
-      
-      if (!provider) {
-        return res.status(400).json({ message: "Payment provider not available" });
+      const user = req.currentUser;
+      
+      // Fail before any money moves when the currency has no rate into the organization's base currency,
+      // or when the person releasing the payment set up the vendor being paid
+      try {
+        await fxService.toBase(user.organizationId, paymentData.amount, paymentData.currency || 'USD', new Date());
+        await separationOfDutiesService.enforce(
+          {
+            organizationId: user.organizationId,
+            actorId: userId,
+            action: 'process',
+            entityType: 'payment',
+            vendorId: paymentData.vendorId
+          },
+          {
+            canOverride: await rbacService.can(user, 'separation_of_duties', 'override'),
+            override: paymentData.sodOverride && {
+              justification: paymentData.sodOverride.justification,
+              ipAddress: req.ip,
+              userAgent: req.get('user-agent') || ''
+            }
+          }
+        );
+      } catch (error) {
+        if (error instanceof SeparationOfDutiesError) {
+          return res.status(403).json({ message: error.message, violations: error.violations });
+        }
+        if (error instanceof LedgerError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
       }
-      
-      let result;
-      
+
+      const rail = paymentData.paymentMethod === 'ach' || paymentData.paymentMethod === 'wire' ? paymentData.paymentMethod : 'card';
+      const callOptions = { idempotencyKey: req.idempotencyKey };
+
       // Route to appropriate payment method
-      if (paymentData.paymentMethod === 'ach') {
-        result = await provider.processACH?.(
-          paymentData.amount,
-          'main-account',
-          paymentData.recipientAccount,
-          'standard'
-        );
-      } else if (paymentData.paymentMethod === 'wire') {
-        result = await provider.processWire?.(
+      const execute = (provider: any) => {
+        if (paymentData.paymentMethod === 'ach') {
+          return provider.processACH?.(
+            paymentData.amount,
+            'main-account',
+            paymentData.recipientAccount,
+            'standard',
+            callOptions
+          );
+        }
+        if (paymentData.paymentMethod === 'wire') {
+          return provider.processWire?.(
+            paymentData.amount,
+            'main-account',
+            paymentData.recipientAccount,
+            paymentData.currency === 'USD' ? 'domestic' : 'international',
+            callOptions
+          );
+        }
+        return provider.processPayment?.(
           paymentData.amount,
-          'main-account',
-          paymentData.recipientAccount,
-          paymentData.currency === 'USD' ? 'domestic' : 'international'
+          paymentData.currency,
+          paymentData,
+          callOptions
         );
+      };
+
+      let providerName: string = paymentData.provider;
+      let routingReason = 'Provider requested by caller';
+      let routingDetails: Record<string, any> | null = null;
+      let result;
+      let outcomeUnknown = false;
+
+      if (!paymentData.provider || paymentData.provider === 'auto') {
+        // Let the routing engine pick from the organization's providers
+        try {
+          const routed = await serviceRegistry.processRoutedPayment(
+            user.organizationId,
+            { amount: Number(paymentData.amount), currency: paymentData.currency || 'USD', rail },
+            execute
+          );
+          providerName = routed.provider;
+          result = routed.result;
+          routingReason = routed.routing.reason;
+          routingDetails = { ranked: routed.routing.ranked, excluded: routed.routing.excluded };
+          outcomeUnknown = routed.outcomeUnknown;
+        } catch (error) {
+          return res.status(400).json({ message: error instanceof Error ? error.message : "Payment failed" });
+        }
       } else {
-        result = await provider.processPayment?.(
-          paymentData.amount,
-          paymentData.currency,
-          paymentData
+        // Process through selected provider
+        const provider = serviceRegistry.getService(
+          user.organizationId, 
+          'payment', 
+          paymentData.provider
         );
+        
+        if (!provider) {
+          return res.status(400).json({ message: "Payment provider not available" });
+        }
+        
+        result = await execute(provider);
       }
       
-      if (result?.success) {
+      // A payment whose outcome is unknown is recorded as processing, so it is reconciled rather than retried
+      if (result?.success || outcomeUnknown) {
         // Store payment record using existing payment schema
-        await enhancedStorage.createPayment({
+        const payment = await enhancedStorage.createPayment({
           organizationId: user.organizationId,
           amount: paymentData.amount.toString(),
+          currency: paymentData.currency || 'USD',
           description: paymentData.description || 'Payment',
           type: paymentData.paymentMethod as any,
-          status: 'completed',
+          status: outcomeUnknown ? 'processing' : 'completed',
           createdBy: userId
         });
+
+        // Provider-side record: keeps the provider reference for webhooks and why the provider was chosen
+        if ((paymentProviderEnum.enumValues as readonly string[]).includes(providerName)) {
+          await enhancedStorage.createEnhancedTransaction({
+            organizationId: user.organizationId,
+            paymentId: payment.id,
+            paymentType: (paymentTypeEnum.enumValues as readonly string[]).includes(paymentData.paymentMethod)
+              ? paymentData.paymentMethod
+              : 'transfer',
+            type: 'debit',
+            provider: providerName as any,
+            amount: paymentData.amount.toString(),
+            currency: paymentData.currency || 'USD',
+            status: result.status === 'pending' || result.status === 'processing' ? 'processing' : 'completed',
+            providerTransactionId: result.providerTransactionId ?? result.transferId ?? result.transactionId,
+            fees: result.fees !== undefined ? String(result.fees) : '0',
+            description: paymentData.description || 'Payment',
+            routingReason,
+            routingDetails,
+          });
+        }
         
-        res.json(result);
+        res.status(outcomeUnknown ? 202 : 200).json({ ...result, provider: providerName, routingReason, outcomeUnknown });
       } else {
         res.status(400).json({ message: result?.error || "Payment failed" });
       }
@@ -923,54 +1102,6 @@ export function registerEnhancedRoutes(app: Express) {
     }
   });
   
-  // Schedule payment (using existing payment schema with future date)
-  app.post("/api/payments/schedule", isAuthenticated, async (req: any, res) => {
-    try {
-      const scheduleData = req.body;
-      const userId = req.user.claims.sub;
-      const user = await enhancedStorage.getUser(userId);
-      
-      if (!user?.organizationId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      // Save scheduled payment using regular payment with pending status
-      await enhancedStorage.createPayment({
-        organizationId: user.organizationId,
-        amount: scheduleData.amount.toString(),
-        description: scheduleData.description || 'Scheduled payment',
-        type: scheduleData.paymentMethod as any,
-        status: 'pending',
-        dueDate: new Date(scheduleData.scheduledDate),
-        createdBy: userId
-      });
-      
-      res.json({ success: true, message: "Payment scheduled successfully" });
-    } catch (error) {
-      console.error("Schedule payment error:", error);
-      res.status(500).json({ message: "Failed to schedule payment" });
-    }
-  });
-  
-  // Get scheduled payments (pending payments with future due dates)
-  app.get("/api/payments/scheduled", isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = req.user.claims.sub;
-      const user = await enhancedStorage.getUser(userId);
-      
-      if (!user?.organizationId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      // Get pending payments with future due dates
-      const scheduled = await enhancedStorage.getPendingPayments(user.organizationId);
-      res.json(scheduled || []);
-    } catch (error) {
-      console.error("Scheduled payments fetch error:", error);
-      res.status(500).json({ message: "Failed to fetch scheduled payments" });
-    }
-  });
-
   // ========== EMPLOYEE ROUTES ==========
   
   // Check if user is verified employee
@@ -1090,6 +1221,8 @@ export function registerEnhancedRoutes(app: Express) {
             status: 'pending'
           });
           
+          await workflowService.syncEntityWorkflow('issued_card', card.id, userId);
+
           res.json({ success: true, cardId: card.id });
         } else {
           res.status(400).json({ message: cardResult.error });
@@ -1106,19 +1239,9 @@ export function registerEnhancedRoutes(app: Express) {
   // ========== ADMINISTRATOR ROUTES ==========
   
   // Upload employees CSV
-  app.post("/api/admin/employees/upload", isAuthenticated, async (req: any, res) => {
+  app.post("/api/admin/employees/upload", isAuthenticated, requirePermission('employees', 'import'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await enhancedStorage.getUser(userId);
-      
-      // Check admin role
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "Admin must be associated with an organization" });
-      }
+      const user = req.currentUser;
       
       const { csvData } = req.body;
       if (!csvData) {
@@ -1142,18 +1265,9 @@ export function registerEnhancedRoutes(app: Express) {
   });
   
   // Get all employees for admin (using employee verification service)
-  app.get("/api/admin/employees", isAuthenticated, async (req: any, res) => {
+  app.get("/api/admin/employees", isAuthenticated, requirePermission('employees', 'read'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await enhancedStorage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "Admin must be associated with an organization" });
-      }
+      const user = req.currentUser;
       
       // Get employees from employee verification service
       const employees = await employeeVerificationService.getEmployeesByOrganization(user.organizationId);
@@ -1165,13 +1279,9 @@ export function registerEnhancedRoutes(app: Express) {
   });
   
   // Get comprehensive analytics
-  app.get("/api/admin/analytics", isAuthenticated, async (req: any, res) => {
+  app.get("/api/admin/analytics", isAuthenticated, requirePermission('integrations', 'read'), async (req: any, res) => {
     try {
-      const user = await enhancedStorage.getUser(req.user.claims.sub);
-      
-      if (!user?.organizationId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
+      const user = req.currentUser;
       
       const analytics = await enhancedStorage.getComprehensiveAnalytics(user.organizationId);
       const providerStats = await enhancedStorage.getProviderAnalytics(user.organizationId);
@@ -1191,13 +1301,9 @@ export function registerEnhancedRoutes(app: Express) {
   });
 
   // Configure payment provider
-  app.post("/api/admin/providers", isAuthenticated, async (req: any, res) => {
+  app.post("/api/admin/providers", isAuthenticated, requirePermission('integrations', 'manage'), async (req: any, res) => {
     try {
-      const user = await enhancedStorage.getUser(req.user.claims.sub);
-      
-      if (!user?.organizationId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
+      const user = req.currentUser;
       
       const validatedData = insertPaymentProviderSchema.parse({
         ...req.body,
@@ -1224,13 +1330,9 @@ export function registerEnhancedRoutes(app: Express) {
   });
 
   // Configure integration
-  app.post("/api/admin/integrations", isAuthenticated, async (req: any, res) => {
+  app.post("/api/admin/integrations", isAuthenticated, requirePermission('integrations', 'manage'), async (req: any, res) => {
     try {
-      const user = await enhancedStorage.getUser(req.user.claims.sub);
-      
-      if (!user?.organizationId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
+      const user = req.currentUser;
       
       const validatedData = insertIntegrationSchema.parse({
         ...req.body,
@@ -1257,13 +1359,9 @@ export function registerEnhancedRoutes(app: Express) {
   });
 
   // System health check
-  app.get("/api/admin/health", isAuthenticated, async (req: any, res) => {
+  app.get("/api/admin/health", isAuthenticated, requirePermission('integrations', 'read'), async (req: any, res) => {
     try {
-      const user = await enhancedStorage.getUser(req.user.claims.sub);
-      
-      if (!user?.organizationId || user.role !== 'admin') {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
+      const user = req.currentUser;
       
       const health = await serviceRegistry.healthCheck(user.organizationId);
       res.json(health);
@@ -1382,6 +1480,7 @@ export function registerEnhancedRoutes(app: Express) {
       });
       
       const grant = await enhancedStorage.createGrant(validatedData);
+      await workflowService.syncEntityWorkflow('grant', grant.id, req.user.claims.sub);
       res.json(grant);
     } catch (error) {
       console.error("Grant creation error:", error);
@@ -1576,7 +1675,11 @@ export function registerEnhancedRoutes(app: Express) {
       switch (reportType) {
         case 'gasb':
           const workiva = serviceRegistry.getService(user.organizationId, 'audit', 'workiva');
-          report = await workiva.generateGASBReport({ period, organizationId: user.organizationId });
+          report = await workiva.generateGASBReport({
+            period,
+            organizationId: user.organizationId,
+            fundBalanceSheets: await fundService.getFundBalanceSheets(user.organizationId),
+          });
           break;
         case 'audit':
           const datasnipper = serviceRegistry.getService(user.organizationId, 'audit', 'datasnipper');
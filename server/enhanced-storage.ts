@@ -57,6 +57,8 @@ import {
 import { db } from "./db";
 import { eq, desc, and, gte, lte, or } from "drizzle-orm";
 import { DatabaseStorage, type IStorage } from "./storage";
+import { ledgerService } from "./services/ledger-service";
+import { fxService } from "./services/fx-service";
 
 export interface IEnhancedStorage extends IStorage {
   // Payment Provider operations
@@ -734,20 +736,36 @@ export class EnhancedDatabaseStorage
   }
 
   async createEnhancedTransaction(transaction: InsertEnhancedTransaction): Promise<EnhancedTransaction> {
-    const [newTransaction] = await db
-      .insert(enhancedTransactions)
-      .values(transaction)
-      .returning();
-    return newTransaction;
+    return await db.transaction(async (tx) => {
+      const fx = await fxService.toBase(
+        transaction.organizationId,
+        transaction.amount,
+        transaction.currency,
+        transaction.settlementDate ?? new Date(),
+        tx
+      );
+      const [newTransaction] = await tx
+        .insert(enhancedTransactions)
+        .values({ ...transaction, ...fx })
+        .returning();
+      await ledgerService.postEnhancedTransaction(newTransaction, tx);
+      return newTransaction;
+    });
   }
 
   async updateEnhancedTransaction(id: string, transaction: Partial<InsertEnhancedTransaction>): Promise<EnhancedTransaction> {
-    const [updated] = await db
-      .update(enhancedTransactions)
-      .set({ ...transaction, updatedAt: new Date() })
-      .where(eq(enhancedTransactions.id, id))
-      .returning();
-    return updated;
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(enhancedTransactions).where(eq(enhancedTransactions.id, id));
+      const [updated] = await tx
+        .update(enhancedTransactions)
+        .set({ ...transaction, updatedAt: new Date() })
+        .where(eq(enhancedTransactions.id, id))
+        .returning();
+      if (existing && updated) {
+        await ledgerService.postEnhancedTransactionStatusChange(existing, updated, tx);
+      }
+      return updated;
+    });
   }
 
   async getTransactionsByProvider(organizationId: string, provider: string): Promise<EnhancedTransaction[]> {
@@ -4,6 +4,8 @@ import { setupVite, serveStatic, log } from "./vite";
 import { validateEnvironment } from "./env-validator";
 import { logger, requestLogger, errorLogger } from "./logger";
 import { registerHealthChecks } from "./health-check";
+import { jobQueue } from "./services/job-queue";
+import { registerJobHandlers } from "./services/job-handlers";
 import prodLogger, { httpLoggerMiddleware } from "./production-logger";
 import {
   configureHelmet,
@@ -44,7 +46,15 @@ if (isProduction) {
 }
 
 // Request parsing middleware with size limits
-app.use(express.json({ limit: '10mb' }));
+// Webhook signatures are computed over the exact bytes received, so keep them for /api/webhooks
+app.use(express.json({
+  limit: '10mb',
+  verify: (req: any, _res, buf) => {
+    if (req.originalUrl?.startsWith('/api/webhooks')) {
+      req.rawBody = buf.toString('utf8');
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 
 // Input sanitization
@@ -135,6 +145,18 @@ registerHealthChecks(app);
       }
     });
 
+    // Background jobs: payments, exports and recurring maintenance
+    try {
+      await registerJobHandlers();
+      jobQueue.start();
+    } catch (error) {
+      if (isProduction) {
+        prodLogger.error('Failed to start job queue', error as Error);
+      } else {
+        logger.error('Failed to start job queue', error as Error);
+      }
+    }
+
     // Graceful shutdown
     const gracefulShutdown = (signal: string) => {
       if (isProduction) {
@@ -143,6 +165,7 @@ registerHealthChecks(app);
         logger.info(`${signal} received, closing server gracefully`);
       }
       
+      jobQueue.stop();
       server.close(() => {
         if (isProduction) {
           prodLogger.info('Server closed');
@@ -13,6 +13,8 @@ import {
 } from "@shared/schema";
 import { z } from "zod";
 import { registerEnhancedRoutes } from "./enhanced-routes";
+import { LedgerError } from "./services/ledger-service";
+import { requirePermission, rbacService } from "./services/rbac-service";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
@@ -72,12 +74,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Budget routes
-  app.get("/api/budgets", isAuthenticated, async (req: any, res) => {
+  app.get("/api/budgets", isAuthenticated, requirePermission("budgets", "read"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       const budgets = await storage.getBudgets(user.organizationId);
       res.json(budgets);
     } catch (error) {
@@ -86,12 +85,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/budgets", isAuthenticated, async (req: any, res) => {
+  app.post("/api/budgets", isAuthenticated, requirePermission("budgets", "create"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       
       const validatedData = insertBudgetSchema.parse({
         ...req.body,
@@ -111,12 +107,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Vendor routes
-  app.get("/api/vendors", isAuthenticated, async (req: any, res) => {
+  app.get("/api/vendors", isAuthenticated, requirePermission("vendors", "read"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       const vendors = await storage.getVendors(user.organizationId);
       res.json(vendors);
     } catch (error) {
@@ -125,16 +118,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/vendors", isAuthenticated, async (req: any, res) => {
+  app.post("/api/vendors", isAuthenticated, requirePermission("vendors", "create"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       
       const validatedData = insertVendorSchema.parse({
         ...req.body,
         organizationId: user.organizationId,
+        createdBy: user.id,
       });
       
       const vendor = await storage.createVendor(validatedData);
@@ -149,40 +140,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Payment routes
-  app.get("/api/payments", isAuthenticated, async (req: any, res) => {
+  app.get("/api/payments", isAuthenticated, requirePermission("payments", "read"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       const payments = await storage.getPayments(user.organizationId);
-      res.json(payments);
+      res.json(await rbacService.filterToScope(user, req.permissionScope, payments, (payment) => payment.createdBy));
     } catch (error) {
       console.error("Error fetching payments:", error);
       res.status(500).json({ message: "Failed to fetch payments" });
     }
   });
 
-  app.get("/api/payments/pending", isAuthenticated, async (req: any, res) => {
+  app.get("/api/payments/pending", isAuthenticated, requirePermission("payments", "read"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       const payments = await storage.getPendingPayments(user.organizationId);
-      res.json(payments);
+      res.json(await rbacService.filterToScope(user, req.permissionScope, payments, (payment) => payment.createdBy));
     } catch (error) {
       console.error("Error fetching pending payments:", error);
       res.status(500).json({ message: "Failed to fetch pending payments" });
     }
   });
 
-  app.post("/api/payments", isAuthenticated, async (req: any, res) => {
+  app.post("/api/payments", isAuthenticated, requirePermission("payments", "create"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       
       const validatedData = insertPaymentSchema.parse({
         ...req.body,
@@ -196,32 +178,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
+      if (error instanceof LedgerError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating payment:", error);
       res.status(500).json({ message: "Failed to create payment" });
     }
   });
 
   // Expense routes
-  app.get("/api/expenses", isAuthenticated, async (req: any, res) => {
+  app.get("/api/expenses", isAuthenticated, requirePermission("expenses", "read"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       const expenses = await storage.getExpenses(user.organizationId);
-      res.json(expenses);
+      res.json(await rbacService.filterToScope(user, req.permissionScope, expenses, (expense) => expense.submittedBy));
     } catch (error) {
       console.error("Error fetching expenses:", error);
       res.status(500).json({ message: "Failed to fetch expenses" });
     }
   });
 
-  app.post("/api/expenses", isAuthenticated, async (req: any, res) => {
+  app.post("/api/expenses", isAuthenticated, requirePermission("expenses", "create"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       
       const validatedData = insertExpenseSchema.parse({
         ...req.body,
@@ -235,18 +214,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
+      if (error instanceof LedgerError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating expense:", error);
       res.status(500).json({ message: "Failed to create expense" });
     }
   });
 
   // Digital wallet routes
-  app.get("/api/wallets", isAuthenticated, async (req: any, res) => {
+  app.get("/api/wallets", isAuthenticated, requirePermission("wallets", "read"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       const wallets = await storage.getDigitalWallets(user.organizationId);
       res.json(wallets);
     } catch (error) {
@@ -255,12 +234,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/wallets", isAuthenticated, async (req: any, res) => {
+  app.post("/api/wallets", isAuthenticated, requirePermission("wallets", "create"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       
       const validatedData = insertDigitalWalletSchema.parse({
         ...req.body,
@@ -279,12 +255,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Analytics routes
-  app.get("/api/analytics/stats", isAuthenticated, async (req: any, res) => {
+  app.get("/api/analytics/stats", isAuthenticated, requirePermission("analytics", "read"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       const stats = await storage.getOrganizationStats(user.organizationId);
       res.json(stats);
     } catch (error) {
@@ -293,12 +266,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/analytics/top-vendors", isAuthenticated, async (req: any, res) => {
+  app.get("/api/analytics/top-vendors", isAuthenticated, requirePermission("analytics", "read"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       const vendors = await storage.getTopVendors(user.organizationId);
       res.json(vendors);
     } catch (error) {
@@ -307,12 +277,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/analytics/recent-activity", isAuthenticated, async (req: any, res) => {
+  app.get("/api/analytics/recent-activity", isAuthenticated, requirePermission("analytics", "read"), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (!user?.organizationId) {
-        return res.status(400).json({ message: "User not associated with an organization" });
-      }
+      const user = req.currentUser;
       const activity = await storage.getRecentActivity(user.organizationId);
       res.json(activity);
     } catch (error) {
@@ -0,0 +1,153 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { requirePermission } from '../services/rbac-service';
+import { achFileService } from '../services/ach-file-service';
+import { LedgerError } from '../services/ledger-service';
+import { insertAchOriginatorSchema } from '@shared/ach-schema';
+
+const router = Router();
+
+const generateSchema = z
+  .object({
+    originatorId: z.string().min(1),
+    effectiveEntryDate: z.coerce.date().optional(),
+    transferIds: z.array(z.string()).optional(),
+    paymentIds: z.array(z.string()).optional(),
+    vendorSecCode: z.enum(['CCD', 'CTX']).optional(),
+  })
+  .refine((data) => (data.transferIds?.length ?? 0) + (data.paymentIds?.length ?? 0) > 0, {
+    message: 'Select at least one ACH transfer or payment',
+  });
+
+const validateSchema = z.object({
+  content: z.string().min(1),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+// Company/ODFI profiles used in file headers
+router.get('/ach/originators', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const originators = await achFileService.getOriginators(user.organizationId);
+    res.json(originators);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch ACH originators');
+  }
+});
+
+router.post('/ach/originators', isAuthenticated, requirePermission('ach', 'configure'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const originator = insertAchOriginatorSchema.parse({ ...req.body, organizationId: user.organizationId });
+    const created = await achFileService.createOriginator(originator);
+    res.status(201).json(created);
+  } catch (error) {
+    handleError(res, error, 'Failed to create ACH originator');
+  }
+});
+
+router.get('/ach/files', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const files = await achFileService.getFiles(user.organizationId);
+    res.json(files);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch ACH files');
+  }
+});
+
+// Generate a NACHA file from approved transfers and payments
+router.post('/ach/files', isAuthenticated, requirePermission('ach', 'transmit'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const options = generateSchema.parse(req.body);
+    const file = await achFileService.generateFile(user.organizationId, user.id, options);
+    const { content, ...summary } = file;
+    res.status(201).json(summary);
+  } catch (error) {
+    handleError(res, error, 'Failed to generate ACH file');
+  }
+});
+
+// Check an uploaded NACHA file for structural errors
+router.post('/ach/files/validate', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const { content } = validateSchema.parse(req.body);
+    res.json(achFileService.validateFile(content));
+  } catch (error) {
+    handleError(res, error, 'Failed to validate ACH file');
+  }
+});
+
+router.get('/ach/files/:id', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const { content, ...file } = await achFileService.getFile(req.params.id, user.organizationId);
+    res.json(file);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch ACH file');
+  }
+});
+
+router.get('/ach/files/:id/download', isAuthenticated, requirePermission('ach', 'transmit'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const file = await achFileService.getFile(req.params.id, user.organizationId);
+    const stamp = file.fileCreationDate.toISOString().slice(0, 10).replace(/-/g, '');
+    res.setHeader('Content-Type', 'text/plain');
+    res.setHeader('Content-Disposition', `attachment; filename="ach-${stamp}-${file.fileIdModifier}.txt"`);
+    res.send(file.content);
+  } catch (error) {
+    handleError(res, error, 'Failed to download ACH file');
+  }
+});
+
+// Record that the file was sent to the ODFI
+router.post('/ach/files/:id/transmitted', isAuthenticated, requirePermission('ach', 'transmit'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { content, ...file } = await achFileService.markTransmitted(req.params.id, user.organizationId);
+    res.json(file);
+  } catch (error) {
+    handleError(res, error, 'Failed to update ACH file');
+  }
+});
+
+export default router;
@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { requirePermission } from '../services/rbac-service';
+import { achReturnService } from '../services/ach-return-service';
+import { LedgerError } from '../services/ledger-service';
+import { achReturnTypeEnum } from '@shared/ach-schema';
+
+const router = Router();
+
+const importSchema = z.object({
+  content: z.string().min(1),
+});
+
+const providerReturnSchema = z.object({
+  provider: z.string().min(1),
+  providerTransactionId: z.string().min(1),
+  reasonCode: z.string().regex(/^[RCrc]\d{2}$/),
+  correctedData: z.string().optional(),
+  dateOfDeath: z.string().optional(),
+});
+
+const ratesSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+router.get('/ach/returns', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const type = z.enum(achReturnTypeEnum.enumValues).optional().parse(req.query.type);
+    const returns = await achReturnService.getReturns(user.organizationId, type);
+    res.json(returns);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch ACH returns');
+  }
+});
+
+// Ingest a NACHA return/NOC file received from the ODFI
+router.post('/ach/returns/import', isAuthenticated, requirePermission('ach', 'returns'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { content } = importSchema.parse(req.body);
+    const result = await achReturnService.importReturnFile(user.organizationId, user.id, content);
+    res.status(201).json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to import ACH return file');
+  }
+});
+
+// Record a return or NOC a provider reported for one of its transfers
+router.post('/ach/returns/provider', isAuthenticated, requirePermission('ach', 'returns'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const notice = providerReturnSchema.parse(req.body);
+    const recorded = await achReturnService.recordProviderReturn(user.organizationId, user.id, notice);
+    if (!recorded) {
+      return res.json({ duplicate: true });
+    }
+    res.status(201).json(recorded);
+  } catch (error) {
+    handleError(res, error, 'Failed to record ACH return');
+  }
+});
+
+// Return rates per originator against the NACHA thresholds
+router.get('/ach/returns/rates', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const { from, to } = ratesSchema.parse(req.query);
+    const rates = await achReturnService.getReturnRates(user.organizationId, from, to);
+    res.json(rates);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch ACH return rates');
+  }
+});
+
+router.get('/ach/returns/flagged-accounts', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const accounts = await achReturnService.getFlaggedBankAccounts(user.organizationId);
+    res.json(accounts.map(({ accountNumber, ...account }) => ({ ...account, accountNumberLast4: accountNumber.slice(-4) })));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch flagged bank accounts');
+  }
+});
+
+export default router;
@@ -0,0 +1,100 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { requirePermission } from '../services/rbac-service';
+import { bankingCalendarService } from '../services/banking-calendar-service';
+import { LedgerError } from '../services/ledger-service';
+import { insertOrganizationClosureSchema } from '@shared/banking-calendar-schema';
+
+const router = Router();
+
+const yearSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+});
+
+const businessDaysSchema = z.object({
+  start: z.coerce.date(),
+  end: z.coerce.date().optional(),
+  add: z.coerce.number().int().min(-366).max(366).optional(),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+// Fed holidays and the organization's closure days for a year
+router.get('/banking-calendar', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const { year = new Date().getUTCFullYear() } = yearSchema.parse(req.query);
+    const calendar = await bankingCalendarService.getYear(user.organizationId, year);
+    res.json({ year, ...calendar });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch banking calendar');
+  }
+});
+
+// Business-day arithmetic on the organization's calendar: ?start&end counts, ?start&add steps
+router.get('/banking-calendar/business-days', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const { start, end, add } = businessDaysSchema.parse(req.query);
+    const calendar = await bankingCalendarService.forOrganization(user.organizationId);
+    res.json({
+      start,
+      isBusinessDay: calendar.isBusinessDay(start),
+      nextBusinessDay: calendar.addBusinessDays(start, 1),
+      ...(end ? { end, businessDaysBetween: calendar.businessDaysBetween(start, end) } : {}),
+      ...(add !== undefined ? { add, result: calendar.addBusinessDays(start, add) } : {}),
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to calculate business days');
+  }
+});
+
+router.post('/banking-calendar/closures', isAuthenticated, requirePermission('banking_calendar', 'manage'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const data = insertOrganizationClosureSchema.parse({
+      ...req.body,
+      organizationId: user.organizationId,
+      createdBy: user.id,
+    });
+    const closure = await bankingCalendarService.addClosure(data);
+    res.status(201).json(closure);
+  } catch (error) {
+    handleError(res, error, 'Failed to add closure day');
+  }
+});
+
+router.delete('/banking-calendar/closures/:id', isAuthenticated, requirePermission('banking_calendar', 'manage'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    await bankingCalendarService.removeClosure(req.params.id, user.organizationId);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to remove closure day');
+  }
+});
+
+export default router;
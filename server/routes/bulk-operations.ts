@@ -1,21 +1,23 @@
 import { Router } from 'express';
 import { BulkOperationsService } from '../services/bulk-operations';
 import { isAuthenticated } from '../replitAuth';
-import { enhancedStorage } from '../enhanced-storage';
+import { requirePermission } from '../services/rbac-service';
+import { jobQueue } from '../services/job-queue';
+import { JOB_TYPES } from '../services/job-handlers';
 
 const router = Router();
 const bulkOps = new BulkOperationsService();
 
+// Releasing money needs payments:process; every other decision on a payment needs payments:approve
+const paymentAction = (req: any) => (req.body?.action === 'process' ? 'process' : 'approve');
+const statusAction = (req: any) => (req.body?.newStatus === 'completed' ? 'process' : 'approve');
+
 // Bulk payment processing
-router.post('/bulk/payments', isAuthenticated, async (req: any, res) => {
+router.post('/bulk/payments', isAuthenticated, requirePermission('payments', paymentAction), async (req: any, res) => {
   try {
-    const user = await enhancedStorage.getUser(req.user.claims.sub);
-    
-    if (!user?.organizationId) {
-      return res.status(400).json({ message: 'Organization not found' });
-    }
+    const user = req.currentUser;
 
-    const { paymentIds, action, notes } = req.body;
+    const { paymentIds, action, notes, achOriginatorId } = req.body;
 
     if (!paymentIds || !Array.isArray(paymentIds) || paymentIds.length === 0) {
       return res.status(400).json({ message: 'Payment IDs required' });
@@ -25,14 +27,14 @@ router.post('/bulk/payments', isAuthenticated, async (req: any, res) => {
       return res.status(400).json({ message: 'Invalid action' });
     }
 
-    const result = await bulkOps.bulkProcessPayments({
-      paymentIds,
-      action,
-      approvedBy: req.user.claims.sub,
-      notes
-    });
+    // Runs on the job queue so a large batch survives restarts; progress is pushed over the websocket
+    const job = await jobQueue.enqueue(
+      JOB_TYPES.bulkPayments,
+      { paymentIds, action, approvedBy: req.user.claims.sub, notes, achOriginatorId },
+      { organizationId: user.organizationId, createdBy: req.user.claims.sub, maxAttempts: 3 }
+    );
 
-    res.json({ success: true, result });
+    res.status(202).json({ success: true, jobId: job.id, job });
   } catch (error) {
     console.error('Bulk payment processing error:', error);
     res.status(500).json({ 
@@ -43,13 +45,9 @@ router.post('/bulk/payments', isAuthenticated, async (req: any, res) => {
 });
 
 // Bulk vendor onboarding
-router.post('/bulk/vendors', isAuthenticated, async (req: any, res) => {
+router.post('/bulk/vendors', isAuthenticated, requirePermission('vendors', 'create'), async (req: any, res) => {
   try {
-    const user = await enhancedStorage.getUser(req.user.claims.sub);
-    
-    if (!user?.organizationId) {
-      return res.status(400).json({ message: 'Organization not found' });
-    }
+    const user = req.currentUser;
 
     const { vendors } = req.body;
 
@@ -74,13 +72,9 @@ router.post('/bulk/vendors', isAuthenticated, async (req: any, res) => {
 });
 
 // Bulk expense processing
-router.post('/bulk/expenses', isAuthenticated, async (req: any, res) => {
+router.post('/bulk/expenses', isAuthenticated, requirePermission('expenses', 'approve'), async (req: any, res) => {
   try {
-    const user = await enhancedStorage.getUser(req.user.claims.sub);
-    
-    if (!user?.organizationId) {
-      return res.status(400).json({ message: 'Organization not found' });
-    }
+    const user = req.currentUser;
 
     const { expenseIds, action, notes } = req.body;
 
@@ -110,13 +104,9 @@ router.post('/bulk/expenses', isAuthenticated, async (req: any, res) => {
 });
 
 // Bulk transaction import
-router.post('/bulk/transactions/import', isAuthenticated, async (req: any, res) => {
+router.post('/bulk/transactions/import', isAuthenticated, requirePermission('transactions', 'import'), async (req: any, res) => {
   try {
-    const user = await enhancedStorage.getUser(req.user.claims.sub);
-    
-    if (!user?.organizationId) {
-      return res.status(400).json({ message: 'Organization not found' });
-    }
+    const user = req.currentUser;
 
     const { transactions } = req.body;
 
@@ -141,7 +131,7 @@ router.post('/bulk/transactions/import', isAuthenticated, async (req: any, res)
 });
 
 // Bulk payment status update
-router.patch('/bulk/payments/status', isAuthenticated, async (req: any, res) => {
+router.patch('/bulk/payments/status', isAuthenticated, requirePermission('payments', statusAction), async (req: any, res) => {
   try {
     const { paymentIds, newStatus } = req.body;
 
@@ -170,7 +160,7 @@ router.patch('/bulk/payments/status', isAuthenticated, async (req: any, res) =>
 });
 
 // Bulk vendor validation
-router.post('/bulk/vendors/validate', isAuthenticated, async (req: any, res) => {
+router.post('/bulk/vendors/validate', isAuthenticated, requirePermission('vendors', 'read'), async (req: any, res) => {
   try {
     const { vendorIds } = req.body;
 
@@ -0,0 +1,193 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { requirePermission } from '../services/rbac-service';
+import { checkService } from '../services/check-service';
+import { LedgerError } from '../services/ledger-service';
+import { checkStatusEnum, insertCheckStockSchema } from '@shared/check-schema';
+
+const router = Router();
+
+const issueSchema = z.object({
+  bankAccountId: z.string().min(1),
+  paymentId: z.string().min(1),
+  payeeName: z.string().min(1).optional(),
+  payeeAddress: z.string().optional(),
+  memo: z.string().max(60).optional(),
+  issueDate: z.coerce.date().optional(),
+});
+
+const printSchema = z.object({
+  checkIds: z.array(z.string()).min(1),
+});
+
+const reasonSchema = z.object({
+  reason: z.string().min(1),
+});
+
+const positivePaySchema = z.object({
+  format: z.enum(['csv', 'fixed_width']).default('csv'),
+  includeExported: z.enum(['true', 'false']).optional(),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+router.get('/bank-accounts/:id/check-stock', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const stocks = await checkService.getCheckStocks(req.params.id, user.organizationId);
+    res.json(stocks);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch check stock');
+  }
+});
+
+// Load a new range of check numbers for the account
+router.post('/bank-accounts/:id/check-stock', isAuthenticated, requirePermission('checks', 'configure'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const stock = insertCheckStockSchema.parse({
+      ...req.body,
+      organizationId: user.organizationId,
+      bankAccountId: req.params.id,
+    });
+    const created = await checkService.createCheckStock(stock);
+    res.status(201).json(created);
+  } catch (error) {
+    handleError(res, error, 'Failed to create check stock');
+  }
+});
+
+router.get('/checks', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const filters = z
+      .object({
+        bankAccountId: z.string().optional(),
+        status: z.enum(checkStatusEnum.enumValues).optional(),
+      })
+      .parse(req.query);
+    const result = await checkService.getChecks(user.organizationId, filters);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch checks');
+  }
+});
+
+// Issue a check for an approved payment
+router.post('/checks', isAuthenticated, requirePermission('checks', 'issue'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const input = issueSchema.parse(req.body);
+    const check = await checkService.issueCheck(user.organizationId, user.id, input);
+    res.status(201).json(check);
+  } catch (error) {
+    handleError(res, error, 'Failed to issue check');
+  }
+});
+
+// Print several checks into one PDF
+router.post('/checks/print', isAuthenticated, requirePermission('checks', 'print'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { checkIds } = printSchema.parse(req.body);
+    const pdf = await checkService.printChecks(checkIds, user.organizationId);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'attachment; filename="checks.pdf"');
+    res.send(pdf);
+  } catch (error) {
+    handleError(res, error, 'Failed to print checks');
+  }
+});
+
+router.get('/checks/:id/pdf', isAuthenticated, requirePermission('checks', 'print'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const pdf = await checkService.printChecks([req.params.id], user.organizationId);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="check-${req.params.id}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    handleError(res, error, 'Failed to print check');
+  }
+});
+
+// Void, stop payment or reissue an outstanding check
+router.post('/checks/:id/:action', isAuthenticated, requirePermission('checks', 'manage'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { id, action } = req.params;
+    let check;
+    switch (action) {
+      case 'void': {
+        const { reason } = reasonSchema.parse(req.body);
+        check = await checkService.voidCheck(id, user.organizationId, user.id, reason);
+        break;
+      }
+      case 'stop-payment': {
+        const { reason } = reasonSchema.parse(req.body);
+        check = await checkService.stopPayment(id, user.organizationId, user.id, reason);
+        break;
+      }
+      case 'reissue': {
+        const { reason } = reasonSchema.parse(req.body);
+        check = await checkService.reissueCheck(id, user.organizationId, user.id, reason);
+        return res.status(201).json(check);
+      }
+      default:
+        return res.status(400).json({ message: 'Invalid action' });
+    }
+
+    res.json(check);
+  } catch (error) {
+    handleError(res, error, 'Failed to update check');
+  }
+});
+
+// Positive pay issue file for the bank
+router.get('/bank-accounts/:id/positive-pay', isAuthenticated, requirePermission('checks', 'positive_pay'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { format, includeExported } = positivePaySchema.parse(req.query);
+    const file = await checkService.exportPositivePay(
+      req.params.id,
+      user.organizationId,
+      format,
+      includeExported === 'true'
+    );
+    res.setHeader('Content-Type', file.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.setHeader('X-Item-Count', String(file.count));
+    res.send(file.content);
+  } catch (error) {
+    handleError(res, error, 'Failed to export positive pay file');
+  }
+});
+
+export default router;
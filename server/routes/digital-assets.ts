@@ -0,0 +1,220 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { requirePermission } from '../services/rbac-service';
+import { digitalAssetService } from '../services/digital-asset-service';
+import { LedgerError } from '../services/ledger-service';
+import {
+  digitalAssetPolicySchema,
+  digitalAssetTransferRequestSchema,
+  digitalAssetTransferStatusEnum,
+  insertDigitalAssetAddressSchema,
+  insertDigitalAssetLotSchema,
+} from '@shared/digital-asset-schema';
+
+const router = Router();
+
+const limitSchema = z.object({
+  asset: z.string().regex(/^[A-Za-z0-9]{2,10}$/).transform((code) => code.toUpperCase()),
+  dailyLimit: z.coerce.number().positive().transform((value) => value.toString()),
+});
+
+const transferFiltersSchema = z.object({
+  status: z.enum(digitalAssetTransferStatusEnum.enumValues).optional(),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+router.get('/digital-assets/policy', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const [policy, limits] = await Promise.all([
+      digitalAssetService.getPolicy(user.organizationId),
+      digitalAssetService.getLimits(user.organizationId),
+    ]);
+    res.json({ ...policy, limits });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch digital asset policy');
+  }
+});
+
+router.put('/digital-assets/policy', isAuthenticated, requirePermission('digital_assets', 'configure'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const input = digitalAssetPolicySchema.parse(req.body);
+    const policy = await digitalAssetService.updatePolicy(user.organizationId, input, user.id);
+    res.json(policy);
+  } catch (error) {
+    handleError(res, error, 'Failed to update digital asset policy');
+  }
+});
+
+router.put('/digital-assets/limits/:asset', isAuthenticated, requirePermission('digital_assets', 'configure'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { asset, dailyLimit } = limitSchema.parse({ ...req.body, asset: req.params.asset });
+    const limit = await digitalAssetService.setLimit(user.organizationId, asset, dailyLimit, user.id);
+    res.json(limit);
+  } catch (error) {
+    handleError(res, error, 'Failed to set daily limit');
+  }
+});
+
+router.get('/digital-assets/addresses', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const addresses = await digitalAssetService.getAddresses(user.organizationId);
+    const now = new Date();
+    res.json(addresses.map((address) => ({ ...address, coolingOff: address.availableAt > now })));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch whitelisted addresses');
+  }
+});
+
+router.post('/digital-assets/addresses', isAuthenticated, requirePermission('digital_assets', 'configure'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const data = insertDigitalAssetAddressSchema.parse({
+      ...req.body,
+      organizationId: user.organizationId,
+      addedBy: user.id,
+    });
+    const address = await digitalAssetService.addAddress(data);
+    res.status(201).json(address);
+  } catch (error) {
+    handleError(res, error, 'Failed to whitelist address');
+  }
+});
+
+router.delete('/digital-assets/addresses/:id', isAuthenticated, requirePermission('digital_assets', 'configure'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    await digitalAssetService.revokeAddress(req.params.id, user.organizationId, user.id);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to revoke address');
+  }
+});
+
+router.get('/digital-assets/holdings', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const holdings = await digitalAssetService.getHoldings(user.organizationId);
+    res.json(holdings);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch holdings');
+  }
+});
+
+router.get('/digital-assets/lots', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const lots = await digitalAssetService.getLots(user.organizationId, req.query.asset as string | undefined);
+    res.json(lots);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch cost basis lots');
+  }
+});
+
+// Record an acquisition (purchase or inbound transfer) at its cost in the base currency
+router.post('/digital-assets/lots', isAuthenticated, requirePermission('digital_assets', 'record'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const data = insertDigitalAssetLotSchema.parse({
+      ...req.body,
+      organizationId: user.organizationId,
+      createdBy: user.id,
+    });
+    const lot = await digitalAssetService.recordLot(data);
+    res.status(201).json(lot);
+  } catch (error) {
+    handleError(res, error, 'Failed to record acquisition');
+  }
+});
+
+router.get('/digital-assets/transfers', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const { status } = transferFiltersSchema.parse(req.query);
+    const transfers = await digitalAssetService.getTransfers(user.organizationId, status);
+    res.json(transfers);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch digital asset transfers');
+  }
+});
+
+// Any member may request an outflow; it only moves once the approval workflow clears it
+router.post('/digital-assets/transfers', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const request = digitalAssetTransferRequestSchema.parse(req.body);
+    const transfer = await digitalAssetService.requestTransfer(user.organizationId, user.id, request);
+    res.status(201).json(transfer);
+  } catch (error) {
+    handleError(res, error, 'Failed to request digital asset transfer');
+  }
+});
+
+// Execute an approved transfer now instead of waiting for the background run
+router.post('/digital-assets/transfers/:id/execute', isAuthenticated, requirePermission('digital_assets', 'execute'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const transfer = await digitalAssetService.getTransfer(req.params.id, user.organizationId);
+    const summary = await digitalAssetService.processTransfers(transfer.id);
+    const after = await digitalAssetService.getTransfer(transfer.id, user.organizationId);
+    if (after.status === 'pending_approval') {
+      return res.status(409).json({ message: 'Transfer is still awaiting approval', transfer: after });
+    }
+    res.json({ summary, transfer: after });
+  } catch (error) {
+    handleError(res, error, 'Failed to execute digital asset transfer');
+  }
+});
+
+export default router;
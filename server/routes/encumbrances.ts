@@ -0,0 +1,103 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { requirePermission } from '../services/rbac-service';
+import { encumbranceService } from '../services/encumbrance-service';
+import { LedgerError } from '../services/ledger-service';
+import { encumbranceSourceTypeEnum, encumbranceStatusEnum } from '@shared/encumbrance-schema';
+
+const router = Router();
+
+const encumberSchema = z.object({
+  sourceType: z.enum(encumbranceSourceTypeEnum.enumValues),
+  sourceId: z.string().min(1),
+});
+
+const listQuerySchema = z.object({
+  status: z.enum(encumbranceStatusEnum.enumValues).optional(),
+  budgetCategoryId: z.string().optional(),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+// List encumbrances and pre-encumbrances
+router.get('/encumbrances', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const filters = listQuerySchema.parse(req.query);
+    const orgEncumbrances = await encumbranceService.getEncumbrances(user.organizationId, filters);
+    res.json(orgEncumbrances);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch encumbrances');
+  }
+});
+
+// Pre-encumber a requisition or encumber a purchase order / contract
+router.post('/encumbrances', isAuthenticated, requirePermission('encumbrances', 'create'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { sourceType, sourceId } = encumberSchema.parse(req.body);
+    let encumbrance;
+    switch (sourceType) {
+      case 'purchase_requisition':
+        encumbrance = await encumbranceService.encumberRequisition(sourceId, user.organizationId, user.id);
+        break;
+      case 'purchase_order':
+        encumbrance = await encumbranceService.encumberPurchaseOrder(sourceId, user.organizationId, user.id);
+        break;
+      case 'contract':
+        encumbrance = await encumbranceService.encumberContract(sourceId, user.organizationId, user.id);
+        break;
+    }
+
+    res.status(201).json(encumbrance);
+  } catch (error) {
+    handleError(res, error, 'Failed to encumber funds');
+  }
+});
+
+// Release the unliquidated balance of an encumbrance
+router.post('/encumbrances/:id/release', isAuthenticated, requirePermission('encumbrances', 'release'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const released = await encumbranceService.releaseEncumbrance(req.params.id, user.organizationId);
+    res.json(released);
+  } catch (error) {
+    handleError(res, error, 'Failed to release encumbrance');
+  }
+});
+
+// Appropriation, encumbrances, expenditures and available balance per budget line
+router.get('/budgets/:id/availability', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const balances = await encumbranceService.getBudgetBalances(req.params.id, user.organizationId);
+    res.json(balances);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch budget availability');
+  }
+});
+
+export default router;
@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { requirePermission } from '../services/rbac-service';
+import { fiscalPeriodService } from '../services/fiscal-period-service';
+import { LedgerError } from '../services/ledger-service';
+
+const router = Router();
+
+const fiscalYearSchema = z.object({
+  fiscalYear: z.number().int().min(1900).max(2999),
+  startDate: z.coerce.date(),
+});
+
+const statusSchema = z.object({
+  status: z.enum(['open', 'soft_closed', 'hard_closed']),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+// List fiscal years
+router.get('/fiscal-years', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const years = await fiscalPeriodService.getFiscalYears(user.organizationId);
+    res.json(years);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch fiscal years');
+  }
+});
+
+// Define a fiscal year and generate its periods
+router.post('/fiscal-years', isAuthenticated, requirePermission('fiscal_periods', 'manage'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { fiscalYear, startDate } = fiscalYearSchema.parse(req.body);
+    const created = await fiscalPeriodService.createFiscalYear(user.organizationId, fiscalYear, startDate);
+    res.status(201).json(created);
+  } catch (error) {
+    handleError(res, error, 'Failed to create fiscal year');
+  }
+});
+
+// Periods of a fiscal year
+router.get('/fiscal-years/:id/periods', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const periods = await fiscalPeriodService.getPeriods(user.organizationId, req.params.id);
+    res.json(periods);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch fiscal periods');
+  }
+});
+
+// Close checklist for a fiscal year or a single period
+router.get('/:scope(fiscal-years|fiscal-periods)/:id/close-checklist', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const checklist = await fiscalPeriodService.getCloseChecklist(
+      user.organizationId,
+      req.params.scope === 'fiscal-years' ? 'fiscal_year' : 'period',
+      req.params.id
+    );
+
+    if (!checklist) {
+      return res.status(404).json({ message: 'Fiscal period not found' });
+    }
+
+    res.json(checklist);
+  } catch (error) {
+    handleError(res, error, 'Failed to build close checklist');
+  }
+});
+
+// Open, soft-close or hard-close a fiscal year or a single period
+router.post('/:scope(fiscal-years|fiscal-periods)/:id/status', isAuthenticated, requirePermission('fiscal_periods', 'manage'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { status } = statusSchema.parse(req.body);
+    const updated = req.params.scope === 'fiscal-years'
+      ? await fiscalPeriodService.setFiscalYearStatus(req.params.id, user.organizationId, status, user.id)
+      : await fiscalPeriodService.setPeriodStatus(req.params.id, user.organizationId, status, user.id);
+
+    res.json(updated);
+  } catch (error) {
+    handleError(res, error, 'Failed to update fiscal period status');
+  }
+});
+
+export default router;
@@ -0,0 +1,136 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { requirePermission } from '../services/rbac-service';
+import { fundService } from '../services/fund-service';
+import { LedgerError } from '../services/ledger-service';
+import { insertFundSchema, insertInterfundTransferSchema } from '@shared/fund-schema';
+
+const router = Router();
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+// List funds
+router.get('/funds', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const orgFunds = await fundService.getFunds(user.organizationId);
+    res.json(orgFunds);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch funds');
+  }
+});
+
+// Create a fund
+router.post('/funds', isAuthenticated, requirePermission('funds', 'create'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const validatedData = insertFundSchema.parse({
+      ...req.body,
+      organizationId: user.organizationId,
+    });
+
+    const fund = await fundService.createFund(validatedData);
+    res.status(201).json(fund);
+  } catch (error) {
+    handleError(res, error, 'Failed to create fund');
+  }
+});
+
+// Balance sheet per fund
+router.get('/funds/balance-sheets', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const asOf = req.query.asOf ? new Date(req.query.asOf) : new Date();
+    if (Number.isNaN(asOf.getTime())) {
+      return res.status(400).json({ message: 'Invalid asOf date' });
+    }
+
+    const balanceSheets = await fundService.getFundBalanceSheets(user.organizationId, asOf);
+    res.json(balanceSheets);
+  } catch (error) {
+    handleError(res, error, 'Failed to generate fund balance sheets');
+  }
+});
+
+// List interfund transfers
+router.get('/funds/transfers', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const transfers = await fundService.getInterfundTransfers(user.organizationId);
+    res.json(transfers);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch interfund transfers');
+  }
+});
+
+// Create an interfund transfer (books due-to/due-from balances)
+router.post('/funds/transfers', isAuthenticated, requirePermission('funds', 'transfer'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const validatedData = insertInterfundTransferSchema.parse({
+      ...req.body,
+      transferDate: req.body.transferDate ? new Date(req.body.transferDate) : new Date(),
+      organizationId: user.organizationId,
+      createdBy: user.id,
+    });
+
+    const transfer = await fundService.createInterfundTransfer(validatedData);
+    res.status(201).json(transfer);
+  } catch (error) {
+    handleError(res, error, 'Failed to create interfund transfer');
+  }
+});
+
+// Settle or cancel a pending interfund transfer
+router.post('/funds/transfers/:id/:action', isAuthenticated, requirePermission('funds', 'transfer'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { id, action } = req.params;
+    let transfer;
+    switch (action) {
+      case 'settle':
+        transfer = await fundService.settleInterfundTransfer(id, user.organizationId, user.id);
+        break;
+      case 'cancel':
+        transfer = await fundService.cancelInterfundTransfer(id, user.organizationId, user.id);
+        break;
+      default:
+        return res.status(400).json({ message: 'Invalid action' });
+    }
+
+    res.json(transfer);
+  } catch (error) {
+    handleError(res, error, 'Failed to update interfund transfer');
+  }
+});
+
+export default router;
@@ -0,0 +1,118 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { requirePermission } from '../services/rbac-service';
+import { fxService, previousMonthEnd } from '../services/fx-service';
+import { LedgerError } from '../services/ledger-service';
+import { insertFxRateSchema } from '@shared/fx-schema';
+
+const router = Router();
+
+const rateFiltersSchema = z.object({
+  from: z.string().min(3).max(10).optional(),
+  to: z.string().min(3).max(10).optional(),
+  limit: z.coerce.number().int().positive().max(1000).optional(),
+});
+
+const importSchema = z.object({
+  content: z.string().min(1),
+});
+
+const revaluationSchema = z.object({
+  asOf: z.coerce.date().optional(),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+router.get('/fx/rates', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const { from, to, limit } = rateFiltersSchema.parse(req.query);
+    const [baseCurrency, rates] = await Promise.all([
+      fxService.getBaseCurrency(user.organizationId),
+      fxService.getRates(user.organizationId, { fromCurrency: from, toCurrency: to, limit }),
+    ]);
+    res.json({ baseCurrency, rates });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch exchange rates');
+  }
+});
+
+router.post('/fx/rates', isAuthenticated, requirePermission('fx', 'manage_rates'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const data = insertFxRateSchema.parse({
+      ...req.body,
+      organizationId: user.organizationId,
+      source: 'manual',
+      createdBy: user.id,
+    });
+    const rate = await fxService.upsertRate(data);
+    res.status(201).json(rate);
+  } catch (error) {
+    handleError(res, error, 'Failed to save exchange rate');
+  }
+});
+
+// CSV with date, from, to and rate columns; nothing is imported if any line is invalid
+router.post('/fx/rates/import', isAuthenticated, requirePermission('fx', 'manage_rates'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { content } = importSchema.parse(req.body);
+    const result = await fxService.importRates(user.organizationId, content, user.id);
+    if (result.errors.length > 0) {
+      return res.status(422).json({ message: 'Rate file has invalid lines', ...result });
+    }
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to import exchange rates');
+  }
+});
+
+router.get('/fx/revaluations', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const { asOf } = revaluationSchema.parse(req.query);
+    const revaluations = await fxService.getRevaluations(user.organizationId, asOf);
+    res.json(revaluations);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch revaluations');
+  }
+});
+
+// Run the unrealized revaluation now, as of a given date or the last month end
+router.post('/fx/revaluations', isAuthenticated, requirePermission('fx', 'revalue'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { asOf = previousMonthEnd(new Date()) } = revaluationSchema.parse(req.body);
+    const summary = await fxService.revalue(user.organizationId, asOf, user.id);
+    res.json(summary);
+  } catch (error) {
+    handleError(res, error, 'Failed to run revaluation');
+  }
+});
+
+export default router;
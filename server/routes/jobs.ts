@@ -0,0 +1,144 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { requirePermission } from '../services/rbac-service';
+import { jobQueue } from '../services/job-queue';
+import { JOB_TYPES, type ExportJobResult } from '../services/job-handlers';
+import { LedgerError } from '../services/ledger-service';
+import { jobStatusEnum } from '@shared/job-schema';
+
+const router = Router();
+
+const exportSchema = z.object({
+  format: z.enum(['csv', 'json', 'pdf', 'excel']),
+  entityType: z.enum(['payments', 'vendors', 'expenses', 'budgets', 'transactions', 'grants', 'assets']),
+  filters: z
+    .object({
+      startDate: z.string().datetime({ offset: true }).optional(),
+      endDate: z.string().datetime({ offset: true }).optional(),
+      status: z.string().optional(),
+      type: z.string().optional(),
+      vendorId: z.string().optional(),
+      budgetId: z.string().optional(),
+    })
+    .optional(),
+  columns: z.array(z.string()).optional(),
+});
+
+const jobFiltersSchema = z.object({
+  status: z.enum(jobStatusEnum.enumValues).optional(),
+  type: z.string().optional(),
+  limit: z.coerce.number().int().positive().optional(),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+// Queue an export; poll the job or listen on the websocket, then download the file
+router.post('/exports', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const options = exportSchema.parse(req.body);
+    const job = await jobQueue.enqueue(JOB_TYPES.export, options, {
+      organizationId: user.organizationId,
+      createdBy: user.id,
+    });
+    res.status(202).json(job);
+  } catch (error) {
+    handleError(res, error, 'Failed to queue export');
+  }
+});
+
+router.get('/exports/:jobId/download', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const job = await jobQueue.getJob(req.params.jobId, user.organizationId);
+    if (job.type !== JOB_TYPES.export) {
+      return res.status(404).json({ message: 'Export not found' });
+    }
+    if (job.status !== 'completed') {
+      return res.status(409).json({ message: `Export is ${job.status}`, progress: job.progress });
+    }
+
+    const file = job.result as ExportJobResult;
+    res.setHeader('Content-Type', file.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.send(Buffer.from(file.data, file.encoding));
+  } catch (error) {
+    handleError(res, error, 'Failed to download export');
+  }
+});
+
+router.get('/jobs/:id', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const { result, ...job } = await jobQueue.getJob(req.params.id, user.organizationId);
+    // Export results carry the whole file; it is only served by the download route
+    res.json(job.type === JOB_TYPES.export ? job : { ...job, result });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch job');
+  }
+});
+
+router.get('/admin/jobs', isAuthenticated, requirePermission('jobs', 'read'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const filters = jobFiltersSchema.parse(req.query);
+    const [jobs, schedules] = await Promise.all([
+      jobQueue.listJobs(user.organizationId, filters),
+      jobQueue.listSchedules(),
+    ]);
+    res.json({ jobs: jobs.map(({ result, ...job }) => job), schedules });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch jobs');
+  }
+});
+
+router.post('/admin/jobs/:id/retry', isAuthenticated, requirePermission('jobs', 'manage'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { result, ...job } = await jobQueue.retry(req.params.id, user.organizationId);
+    res.json(job);
+  } catch (error) {
+    handleError(res, error, 'Failed to retry job');
+  }
+});
+
+router.post('/admin/jobs/:id/cancel', isAuthenticated, requirePermission('jobs', 'manage'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { result, ...job } = await jobQueue.cancel(req.params.id, user.organizationId);
+    res.json(job);
+  } catch (error) {
+    handleError(res, error, 'Failed to cancel job');
+  }
+});
+
+export default router;
@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { ledgerService } from '../services/ledger-service';
+
+const router = Router();
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' || value.length === 0) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+// Trial balance across the organization's chart of accounts (optionally for one fund)
+router.get('/ledger/trial-balance', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    if (req.query.asOf && !parseDate(req.query.asOf)) {
+      return res.status(400).json({ message: 'Invalid asOf date' });
+    }
+
+    const trialBalance = await ledgerService.getTrialBalance(
+      user.organizationId,
+      parseDate(req.query.asOf),
+      typeof req.query.fundId === 'string' ? req.query.fundId : undefined
+    );
+
+    res.json(trialBalance);
+  } catch (error) {
+    console.error('Trial balance error:', error);
+    res.status(500).json({ message: 'Failed to generate trial balance' });
+  }
+});
+
+// Journal line activity for a single ledger account
+router.get('/ledger/accounts/:id/activity', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const startDate = parseDate(req.query.startDate);
+    const endDate = parseDate(req.query.endDate);
+    if ((req.query.startDate && !startDate) || (req.query.endDate && !endDate)) {
+      return res.status(400).json({ message: 'Invalid date range' });
+    }
+
+    const activity = await ledgerService.getAccountActivity(req.params.id, user.organizationId, {
+      startDate,
+      endDate,
+    });
+
+    if (!activity) {
+      return res.status(404).json({ message: 'Ledger account not found' });
+    }
+
+    res.json(activity);
+  } catch (error) {
+    console.error('Account activity error:', error);
+    res.status(500).json({ message: 'Failed to fetch account activity' });
+  }
+});
+
+export default router;
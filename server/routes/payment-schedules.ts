@@ -0,0 +1,146 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { requirePermission } from '../services/rbac-service';
+import { paymentScheduler, parseRRule, FREQUENCY_PRESETS } from '../services/payment-scheduler';
+import { LedgerError } from '../services/ledger-service';
+import { insertPaymentScheduleSchema } from '@shared/payment-schedule-schema';
+import { paymentRails } from '@shared/routing-schema';
+import { businessDayRolls } from '../services/banking-calendar';
+
+const router = Router();
+
+// Accepts the payment hub form as well as explicit cadence fields or an RRULE string
+const scheduleRequestSchema = z.object({
+  amount: z.coerce.number().positive(),
+  currency: z.string().length(3).optional(),
+  description: z.string().optional(),
+  paymentType: z.string().optional(),
+  paymentMethod: z.string().optional(),
+  provider: z.string().optional(),
+  recipientAccount: z.string().optional(),
+  vendorId: z.string().optional(),
+  payeeBankAccountId: z.string().optional(),
+  fundId: z.string().optional(),
+  budgetCategoryId: z.string().optional(),
+  scheduleDate: z.string().optional(),
+  scheduledDate: z.string().optional(),
+  recurring: z.boolean().optional(),
+  recurringFrequency: z.enum(Object.keys(FREQUENCY_PRESETS) as [string, ...string[]]).optional(),
+  rrule: z.string().optional(),
+  endDate: z.string().optional(),
+  maxOccurrences: z.number().int().positive().optional(),
+  businessDayRoll: z.enum(businessDayRolls).optional(),
+  approvalLeadDays: z.number().int().min(0).max(60).optional(),
+  twoFactorCode: z.string().optional(),
+  twoFactorSessionId: z.string().optional(),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+function toScheduleInput(body: z.infer<typeof scheduleRequestSchema>) {
+  const startDate = body.scheduledDate ?? body.scheduleDate;
+  if (!startDate) {
+    throw new LedgerError('scheduleDate is required', 400);
+  }
+
+  let cadence: { frequency?: string; interval?: number; byMonthDay?: number; maxOccurrences?: number; endDate?: Date } =
+    FREQUENCY_PRESETS.once;
+  if (body.rrule) {
+    cadence = parseRRule(body.rrule);
+  } else if (body.recurring) {
+    cadence = FREQUENCY_PRESETS[body.recurringFrequency ?? 'monthly'];
+  }
+
+  const method = body.paymentMethod ?? 'ach';
+  return insertPaymentScheduleSchema.parse({
+    description: body.description,
+    amount: body.amount,
+    currency: body.currency,
+    // The hub's "utility" category has no payment type of its own
+    paymentType: body.paymentType === 'utility' ? 'vendor' : body.paymentType,
+    rail: (paymentRails as readonly string[]).includes(method) ? method : 'card',
+    provider: body.provider && body.provider !== 'auto' ? body.provider : null,
+    recipientAccount: body.recipientAccount,
+    vendorId: body.vendorId,
+    payeeBankAccountId: body.payeeBankAccountId,
+    fundId: body.fundId,
+    budgetCategoryId: body.budgetCategoryId,
+    frequency: cadence.frequency,
+    interval: cadence.interval,
+    byMonthDay: cadence.byMonthDay,
+    startDate,
+    endDate: body.endDate ?? cadence.endDate,
+    maxOccurrences: body.maxOccurrences ?? cadence.maxOccurrences,
+    businessDayRoll: body.businessDayRoll,
+    approvalLeadDays: body.approvalLeadDays,
+  });
+}
+
+router.post('/payments/schedule', isAuthenticated, requirePermission('payment_schedules', 'create'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const body = scheduleRequestSchema.parse(req.body);
+    const schedule = await paymentScheduler.createSchedule(user.organizationId, user.id, toScheduleInput(body), body.twoFactorCode
+      ? { code: body.twoFactorCode, sessionId: body.twoFactorSessionId }
+      : undefined);
+    res.status(201).json({ success: true, message: 'Payment scheduled successfully', schedule });
+  } catch (error) {
+    handleError(res, error, 'Failed to schedule payment');
+  }
+});
+
+router.get('/payments/scheduled', isAuthenticated, requirePermission('payment_schedules', 'read'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const schedules = await paymentScheduler.getSchedules(user.organizationId);
+    // scheduleDate/type/method/amount are the fields the payment hub table reads
+    res.json(
+      schedules.map((schedule) => ({
+        ...schedule,
+        scheduleDate: schedule.nextExecutionDate,
+        type: schedule.paymentType,
+        method: schedule.rail,
+        recipientName: schedule.recipientAccount ?? schedule.vendorId,
+        amount: Number(schedule.amount),
+      }))
+    );
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch scheduled payments');
+  }
+});
+
+router.get('/payments/scheduled/:id/occurrences', isAuthenticated, requirePermission('payment_schedules', 'read'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const occurrences = await paymentScheduler.getOccurrences(req.params.id, user.organizationId);
+    res.json(occurrences);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch schedule occurrences');
+  }
+});
+
+router.post('/payments/scheduled/:id/:action(pause|resume|cancel)', isAuthenticated, requirePermission('payment_schedules', 'manage'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const schedule = await paymentScheduler.setStatus(req.params.id, user.organizationId, req.params.action);
+    res.json(schedule);
+  } catch (error) {
+    handleError(res, error, 'Failed to update payment schedule');
+  }
+});
+
+export default router;
@@ -0,0 +1,204 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { requirePermission } from '../services/rbac-service';
+import { reconciliationService } from '../services/reconciliation-service';
+import { LedgerError } from '../services/ledger-service';
+import { bankStatementFormatEnum, reconciliationEntityTypeEnum } from '@shared/reconciliation-schema';
+
+const router = Router();
+
+const importSchema = z.object({
+  format: z.enum(bankStatementFormatEnum.enumValues),
+  content: z.string().min(1),
+  fileName: z.string().optional(),
+});
+
+const settingsSchema = z.object({
+  amountTolerance: z.string().regex(/^\d+(\.\d{1,2})?$/).default('0'),
+  dateToleranceDays: z.number().int().min(0).max(31).default(3),
+  requireReference: z.boolean().default(false),
+});
+
+const matchSchema = z.object({
+  entityType: z.enum(reconciliationEntityTypeEnum.enumValues),
+  entityId: z.string().min(1),
+});
+
+const ignoreSchema = z.object({
+  reason: z.string().min(1),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+// Imported statements for a bank account
+router.get('/bank-accounts/:id/statements', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const statements = await reconciliationService.getStatements(req.params.id, user.organizationId);
+    res.json(statements);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch bank statements');
+  }
+});
+
+// Import a BAI2, OFX/QFX or CSV statement and auto-match it
+router.post('/bank-accounts/:id/statements', isAuthenticated, requirePermission('reconciliation', 'import'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const file = importSchema.parse(req.body);
+    const result = await reconciliationService.importStatement(req.params.id, user.organizationId, user.id, file);
+    res.status(201).json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to import bank statement');
+  }
+});
+
+// Auto-match tolerances
+router.get('/bank-accounts/:id/reconciliation-settings', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    await reconciliationService.getBankAccount(req.params.id, user.organizationId);
+    const settings = await reconciliationService.getSettings(req.params.id);
+    res.json(settings);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch reconciliation settings');
+  }
+});
+
+router.put('/bank-accounts/:id/reconciliation-settings', isAuthenticated, requirePermission('reconciliation', 'configure'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const tolerance = settingsSchema.parse(req.body);
+    const settings = await reconciliationService.updateSettings(req.params.id, user.organizationId, tolerance);
+    res.json(settings);
+  } catch (error) {
+    handleError(res, error, 'Failed to update reconciliation settings');
+  }
+});
+
+// Re-run auto-matching over unmatched lines and exceptions
+router.post('/bank-accounts/:id/auto-match', isAuthenticated, requirePermission('reconciliation', 'match'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const results = await reconciliationService.autoMatch(req.params.id, user.organizationId);
+    res.json({
+      matched: results.filter((result) => result.status === 'matched').length,
+      exceptions: results.filter((result) => result.status === 'exception').length,
+      results,
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to auto-match statement lines');
+  }
+});
+
+// Reconciliation report for the latest (or a given) statement
+router.get('/bank-accounts/:id/reconciliation-report', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const report = await reconciliationService.getReconciliationReport(
+      req.params.id,
+      user.organizationId,
+      req.query.statementId as string | undefined
+    );
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, 'Failed to generate reconciliation report');
+  }
+});
+
+// Exception queue
+router.get('/reconciliation/exceptions', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const exceptions = await reconciliationService.getExceptions(
+      user.organizationId,
+      req.query.bankAccountId as string | undefined
+    );
+    res.json(exceptions);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch reconciliation exceptions');
+  }
+});
+
+// Book transactions a line could be matched to
+router.get('/reconciliation/lines/:id/candidates', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    const candidates = await reconciliationService.getLineCandidates(req.params.id, user.organizationId);
+    res.json(candidates);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch match candidates');
+  }
+});
+
+// Match, unmatch or ignore a statement line
+router.post('/reconciliation/lines/:id/:action', isAuthenticated, requirePermission('reconciliation', 'match'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { id, action } = req.params;
+    let line;
+    switch (action) {
+      case 'match': {
+        const { entityType, entityId } = matchSchema.parse(req.body);
+        line = await reconciliationService.matchLine(id, user.organizationId, user.id, entityType, entityId);
+        break;
+      }
+      case 'unmatch':
+        line = await reconciliationService.unmatchLine(id, user.organizationId);
+        break;
+      case 'ignore': {
+        const { reason } = ignoreSchema.parse(req.body);
+        line = await reconciliationService.ignoreLine(id, user.organizationId, user.id, reason);
+        break;
+      }
+      default:
+        return res.status(400).json({ message: 'Invalid action' });
+    }
+
+    res.json(line);
+  } catch (error) {
+    handleError(res, error, 'Failed to update statement line');
+  }
+});
+
+export default router;
@@ -0,0 +1,120 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { enhancedStorage } from '../enhanced-storage';
+import { rbacService, requirePermission } from '../services/rbac-service';
+import { LedgerError } from '../services/ledger-service';
+import {
+  PERMISSION_CATALOG,
+  permissionScopes,
+  insertCustomRoleSchema,
+  updateCustomRoleSchema,
+  assignRoleSchema,
+} from '@shared/rbac-schema';
+
+const router = Router();
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+// What can be granted, for building role editors
+router.get('/permissions', isAuthenticated, async (_req: any, res) => {
+  res.json({ resources: PERMISSION_CATALOG, scopes: permissionScopes });
+});
+
+// The caller's own grants, so the client can hide actions they cannot take
+router.get('/permissions/me', isAuthenticated, async (req: any, res) => {
+  try {
+    const user = await enhancedStorage.getUser(req.user.claims.sub);
+
+    if (!user?.organizationId) {
+      return res.status(400).json({ message: 'User not associated with an organization' });
+    }
+
+    res.json({ role: user.role, department: user.department, permissions: await rbacService.getPermissions(user) });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch permissions');
+  }
+});
+
+router.get('/roles', isAuthenticated, requirePermission('roles', 'read'), async (req: any, res) => {
+  try {
+    const roles = await rbacService.getRoles(req.currentUser.organizationId);
+    res.json(roles);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch roles');
+  }
+});
+
+router.post('/roles', isAuthenticated, requirePermission('roles', 'manage'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+    const input = insertCustomRoleSchema.parse({
+      ...req.body,
+      organizationId: user.organizationId,
+      createdBy: user.id,
+    });
+    const role = await rbacService.createRole(input);
+    res.status(201).json(role);
+  } catch (error) {
+    handleError(res, error, 'Failed to create role');
+  }
+});
+
+router.patch('/roles/:id', isAuthenticated, requirePermission('roles', 'manage'), async (req: any, res) => {
+  try {
+    const changes = updateCustomRoleSchema.parse(req.body);
+    const role = await rbacService.updateRole(req.currentUser.organizationId, req.params.id, changes);
+    res.json(role);
+  } catch (error) {
+    handleError(res, error, 'Failed to update role');
+  }
+});
+
+router.delete('/roles/:id', isAuthenticated, requirePermission('roles', 'manage'), async (req: any, res) => {
+  try {
+    await rbacService.deleteRole(req.currentUser.organizationId, req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete role');
+  }
+});
+
+// Members of the organization with their role and department
+router.get('/roles/users', isAuthenticated, requirePermission('roles', 'read'), async (req: any, res) => {
+  try {
+    const users = await rbacService.getUsers(req.currentUser.organizationId);
+    res.json(
+      users.map(({ id, email, firstName, lastName, role, department }) => ({
+        id,
+        email,
+        firstName,
+        lastName,
+        role,
+        department,
+      }))
+    );
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch users');
+  }
+});
+
+router.put('/roles/users/:userId', isAuthenticated, requirePermission('roles', 'manage'), async (req: any, res) => {
+  try {
+    const assignment = assignRoleSchema.parse(req.body);
+    const user = await rbacService.assignRole(req.currentUser, req.params.userId, assignment);
+    res.json({ id: user.id, role: user.role, department: user.department });
+  } catch (error) {
+    handleError(res, error, 'Failed to assign role');
+  }
+});
+
+export default router;
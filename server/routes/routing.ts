@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { requirePermission } from '../services/rbac-service';
+import { paymentRouter } from '../services/payment-router';
+import { serviceRegistry } from '../services/service-registry';
+import { LedgerError } from '../services/ledger-service';
+import { insertProviderRoutingRuleSchema, paymentRails } from '@shared/routing-schema';
+
+const router = Router();
+
+const previewSchema = z.object({
+  amount: z.coerce.number().positive(),
+  currency: z.string().length(3).default('USD'),
+  rail: z.enum(paymentRails).default('card'),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+router.get('/admin/routing/rules', isAuthenticated, requirePermission('routing', 'read'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const rules = await paymentRouter.getRules(user.organizationId);
+    res.json({ rules, providers: serviceRegistry.getPaymentProviderTypes(user.organizationId) });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch routing rules');
+  }
+});
+
+// Create or replace the fee schedule for one provider
+router.post('/admin/routing/rules', isAuthenticated, requirePermission('routing', 'manage'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const rule = insertProviderRoutingRuleSchema.parse({ ...req.body, organizationId: user.organizationId });
+    const saved = await paymentRouter.saveRule(rule);
+    res.json(saved);
+  } catch (error) {
+    handleError(res, error, 'Failed to save routing rule');
+  }
+});
+
+router.delete('/admin/routing/rules/:id', isAuthenticated, requirePermission('routing', 'manage'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    await paymentRouter.deleteRule(req.params.id, user.organizationId);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete routing rule');
+  }
+});
+
+// Show which provider a payment would be routed to right now, without sending it
+router.post('/admin/routing/preview', isAuthenticated, requirePermission('routing', 'read'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const request = previewSchema.parse(req.body);
+    const decision = await paymentRouter.route(
+      user.organizationId,
+      request,
+      serviceRegistry.getPaymentProviderTypes(user.organizationId)
+    );
+    res.json(decision);
+  } catch (error) {
+    handleError(res, error, 'Failed to preview routing');
+  }
+});
+
+export default router;
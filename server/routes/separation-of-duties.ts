@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { requirePermission } from '../services/rbac-service';
+import {
+  separationOfDutiesService,
+  SOD_RULES,
+  MIN_OVERRIDE_JUSTIFICATION_LENGTH,
+} from '../services/separation-of-duties';
+import { LedgerError } from '../services/ledger-service';
+
+const router = Router();
+
+const overridesQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(500).optional(),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+// The rules every approval and payment release is checked against
+router.get('/separation-of-duties/rules', isAuthenticated, async (_req: any, res) => {
+  res.json({
+    rules: Object.entries(SOD_RULES).map(([id, rule]) => ({ id, ...rule })),
+    override: { permission: 'separation_of_duties:override', minJustificationLength: MIN_OVERRIDE_JUSTIFICATION_LENGTH },
+  });
+});
+
+// Overrides for review, newest first
+router.get('/separation-of-duties/overrides', isAuthenticated, requirePermission('separation_of_duties', 'read'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const { limit } = overridesQuerySchema.parse(req.query);
+    const overrides = await separationOfDutiesService.getOverrides(user.organizationId, limit);
+    res.json(overrides);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch separation-of-duties overrides');
+  }
+});
+
+export default router;
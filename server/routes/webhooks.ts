@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { requirePermission } from '../services/rbac-service';
+import { webhookService } from '../services/webhook-service';
+import { isWebhookProvider, WEBHOOK_PROVIDERS } from '../services/webhook-verification';
+import { LedgerError } from '../services/ledger-service';
+import { webhookEventStatusEnum } from '@shared/webhook-schema';
+
+const router = Router();
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+// Provider deliveries; authenticated by signature rather than session
+router.post('/webhooks/:provider', async (req: any, res) => {
+  try {
+    const { provider } = req.params;
+    if (!isWebhookProvider(provider)) {
+      return res.status(404).json({ message: 'Unknown webhook provider' });
+    }
+    if (typeof req.rawBody !== 'string') {
+      return res.status(400).json({ message: 'Webhook body is required' });
+    }
+
+    const headers: Record<string, string | undefined> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      headers[name.toLowerCase()] = Array.isArray(value) ? value.join(',') : (value as string | undefined);
+    }
+
+    const receipt = await webhookService.receive(provider, {
+      rawBody: req.rawBody,
+      headers,
+      url: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+    });
+
+    // Adyen treats anything other than this literal as a failed delivery
+    if (provider === 'adyen') {
+      return res.type('text/plain').send('[accepted]');
+    }
+    res.json({ received: receipt.received, duplicates: receipt.duplicates });
+  } catch (error) {
+    handleError(res, error, 'Failed to process webhook');
+  }
+});
+
+router.get('/admin/webhooks', isAuthenticated, requirePermission('webhooks', 'read'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const filters = z
+      .object({
+        provider: z.enum(WEBHOOK_PROVIDERS).optional(),
+        status: z.enum(webhookEventStatusEnum.enumValues).optional(),
+      })
+      .parse(req.query);
+    const events = await webhookService.getEvents(user.organizationId, filters);
+    res.json(events);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch webhook events');
+  }
+});
+
+router.post('/admin/webhooks/:id/replay', isAuthenticated, requirePermission('webhooks', 'replay'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+
+    const event = await webhookService.replay(req.params.id, user.organizationId);
+    res.json(event);
+  } catch (error) {
+    handleError(res, error, 'Failed to replay webhook event');
+  }
+});
+
+export default router;
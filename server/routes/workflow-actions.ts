@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { workflowService } from '../workflow-service';
+import { LedgerError } from '../services/ledger-service';
+import { redeemWorkflowActionSchema } from '@shared/workflow-schema';
+
+// Approval links from email and mobile notifications. There is no session here: the signed,
+// single-use token in the path identifies the approver and the stage they were asked to decide.
+const router = Router();
+
+const sendCodeSchema = z.object({
+  method: z.enum(['sms', 'email']).default('sms'),
+});
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+router.get('/workflow-actions/:token', async (req, res) => {
+  try {
+    const summary = await workflowService.describeActionLink(req.params.token);
+    res.json(summary);
+  } catch (error) {
+    handleError(res, error, 'Failed to load approval link');
+  }
+});
+
+router.post('/workflow-actions/:token', async (req, res) => {
+  try {
+    const decision = redeemWorkflowActionSchema.parse(req.body);
+    const workflow = await workflowService.redeemActionLink(req.params.token, decision);
+    res.json({ workflowId: workflow.id, status: workflow.status, action: decision.action });
+  } catch (error) {
+    handleError(res, error, 'Failed to record decision');
+  }
+});
+
+router.post('/workflow-actions/:token/two-factor', async (req, res) => {
+  try {
+    const { method } = sendCodeSchema.parse(req.body ?? {});
+    const session = await workflowService.sendActionLinkCode(req.params.token, method);
+    res.json(session);
+  } catch (error) {
+    handleError(res, error, 'Failed to send verification code');
+  }
+});
+
+export default router;
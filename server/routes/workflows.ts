@@ -0,0 +1,166 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../replitAuth';
+import { requirePermission, rbacService } from '../services/rbac-service';
+import { workflowDefinitionService } from '../services/workflow-definitions';
+import { approvalDelegationService } from '../services/approval-delegation';
+import { workflowSlaService } from '../services/workflow-sla';
+import { workflowService } from '../workflow-service';
+import { LedgerError } from '../services/ledger-service';
+import {
+  saveWorkflowDefinitionSchema,
+  saveApprovalDelegationSchema,
+  saveWorkflowSlaPolicySchema,
+} from '@shared/workflow-schema';
+
+const router = Router();
+
+const handleError = (res: any, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+  }
+  if (error instanceof LedgerError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ message });
+};
+
+// Every version of every definition, newest version first within each type
+router.get('/workflows/definitions', isAuthenticated, requirePermission('workflows', 'read'), async (req: any, res) => {
+  try {
+    const definitions = await workflowDefinitionService.getDefinitions(req.currentUser.organizationId);
+    res.json(definitions);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch workflow definitions');
+  }
+});
+
+router.get('/workflows/definitions/:id', isAuthenticated, requirePermission('workflows', 'read'), async (req: any, res) => {
+  try {
+    const definition = await workflowDefinitionService.getDefinition(req.params.id, req.currentUser.organizationId);
+    res.json(definition);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch workflow definition');
+  }
+});
+
+// Save the designer graph as a new version, optionally publishing it for new workflows
+router.post('/workflows/definitions', isAuthenticated, requirePermission('workflows', 'design'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+    const input = saveWorkflowDefinitionSchema.parse(req.body);
+    const definition = await workflowDefinitionService.saveVersion(user.organizationId, input, user.id);
+    res.status(201).json(definition);
+  } catch (error) {
+    handleError(res, error, 'Failed to save workflow definition');
+  }
+});
+
+router.post(
+  '/workflows/definitions/:id/publish',
+  isAuthenticated,
+  requirePermission('workflows', 'design'),
+  async (req: any, res) => {
+    try {
+      const definition = await workflowDefinitionService.publish(req.params.id, req.currentUser.organizationId);
+      res.json(definition);
+    } catch (error) {
+      handleError(res, error, 'Failed to publish workflow definition');
+    }
+  }
+);
+
+// People the designer can place in approval groups
+router.get('/workflows/approvers', isAuthenticated, requirePermission('workflows', 'design'), async (req: any, res) => {
+  try {
+    const users = await rbacService.getUsers(req.currentUser.organizationId);
+    res.json(
+      users.map(({ id, email, firstName, lastName, role, department }) => ({
+        id,
+        name: [firstName, lastName].filter(Boolean).join(' ') || email || id,
+        role,
+        department,
+      }))
+    );
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch approvers');
+  }
+});
+
+// Delegation rules the caller gives or receives; organization scope sees everyone's
+router.get('/workflows/delegations', isAuthenticated, requirePermission('workflows', 'delegate'), async (req: any, res) => {
+  try {
+    const delegations = await approvalDelegationService.getDelegations(req.currentUser, req.permissionScope);
+    res.json(delegations);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch delegations');
+  }
+});
+
+// Pending approvals the new rule covers are rerouted straight away
+router.post('/workflows/delegations', isAuthenticated, requirePermission('workflows', 'delegate'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+    const input = saveApprovalDelegationSchema.parse(req.body);
+    const delegation = await approvalDelegationService.createDelegation(user, req.permissionScope, input);
+    const { rerouted } = await workflowService.reroutePendingApprovals(user.organizationId);
+    res.status(201).json({ delegation, rerouted });
+  } catch (error) {
+    handleError(res, error, 'Failed to create delegation');
+  }
+});
+
+// Approvals already rerouted stay with the delegate; the original approver can still act on them
+router.delete('/workflows/delegations/:id', isAuthenticated, requirePermission('workflows', 'delegate'), async (req: any, res) => {
+  try {
+    const delegation = await approvalDelegationService.revokeDelegation(req.params.id, req.currentUser, req.permissionScope);
+    res.json(delegation);
+  } catch (error) {
+    handleError(res, error, 'Failed to revoke delegation');
+  }
+});
+
+router.get('/workflows/sla-policies', isAuthenticated, requirePermission('workflows', 'read'), async (req: any, res) => {
+  try {
+    const policies = await workflowSlaService.getPolicies(req.currentUser.organizationId);
+    res.json(policies);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch SLA policies');
+  }
+});
+
+// Create or replace the policy for a workflow type and priority
+router.put('/workflows/sla-policies', isAuthenticated, requirePermission('workflows', 'design'), async (req: any, res) => {
+  try {
+    const user = req.currentUser;
+    const input = saveWorkflowSlaPolicySchema.parse(req.body);
+    const policy = await workflowSlaService.savePolicy(user.organizationId, input, user.id);
+    res.json(policy);
+  } catch (error) {
+    handleError(res, error, 'Failed to save SLA policy');
+  }
+});
+
+router.delete('/workflows/sla-policies/:id', isAuthenticated, requirePermission('workflows', 'design'), async (req: any, res) => {
+  try {
+    await workflowSlaService.deletePolicy(req.params.id, req.currentUser.organizationId);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete SLA policy');
+  }
+});
+
+// Median and p90 cycle times in business hours over the last `days` (default 90), with bottlenecks flagged
+router.get('/workflows/analytics/cycle-times', isAuthenticated, requirePermission('workflows', 'read'), async (req: any, res) => {
+  try {
+    const days = z.coerce.number().int().min(1).max(730).default(90).parse(req.query.days);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const cycleTimes = await workflowSlaService.getCycleTimes(req.currentUser.organizationId, since);
+    res.json(cycleTimes);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch cycle times');
+  }
+});
+
+export default router;
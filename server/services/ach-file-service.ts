@@ -0,0 +1,454 @@
+import { db } from '../db';
+import {
+  bankAccounts,
+  payments,
+  enhancedTransactions,
+  type BankAccount,
+  type Payment,
+  type EnhancedTransaction,
+} from '@shared/schema';
+import {
+  achOriginators,
+  achFiles,
+  achEntries,
+  achTraceSequences,
+  type AchOriginator,
+  type InsertAchOriginator,
+  type AchFile,
+  type AchEntry,
+} from '@shared/ach-schema';
+import { eq, and, inArray, gte, desc, sql } from 'drizzle-orm';
+import { LedgerError, toCents, fromCents, type DbExecutor } from './ledger-service';
+import { toDateOnly } from './banking-calendar';
+import { bankingCalendarService } from './banking-calendar-service';
+import {
+  buildNachaFile,
+  traceNumbersNeeded,
+  parseNachaFile,
+  isValidRoutingNumber,
+  TRANSACTION_CODES,
+  type AccountType,
+  type NachaBatchInput,
+  type NachaEntryInput,
+  type NachaParsedFile,
+  type SecCode,
+} from './nacha';
+
+export interface GenerateAchFileOptions {
+  originatorId: string;
+  effectiveEntryDate?: Date;
+  transferIds?: string[];
+  paymentIds?: string[];
+  vendorSecCode?: Extract<SecCode, 'CCD' | 'CTX'>;
+}
+
+// Source of one entry, kept alongside the NACHA entry so trace numbers can be recorded
+interface EntrySource {
+  sourceType: 'enhanced_transaction' | 'payment';
+  sourceId: string;
+  receiverBankAccountId: string | null;
+}
+
+const FILE_ID_MODIFIERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+const BATCH_DESCRIPTIONS: Record<SecCode, string> = {
+  PPD: 'PAYROLL',
+  CCD: 'VENDOR PAY',
+  CTX: 'VENDOR PAY',
+};
+
+// Payment types paid to individuals go out as PPD; everything else is corporate
+const CONSUMER_PAYMENT_TYPES: Array<Payment['type']> = ['payroll', 'expense'];
+
+export function accountTypeOf(value: string | null | undefined): AccountType {
+  return value?.toLowerCase().includes('saving') ? 'savings' : 'checking';
+}
+
+// Split free-form remittance text into 80-character addenda records
+export function remittanceAddenda(text: string | null | undefined, secCode: SecCode): string[] {
+  const info = text?.trim();
+  if (!info || secCode === 'PPD') return [];
+  if (secCode === 'CCD') return [info.slice(0, 80)];
+  return info.match(/.{1,80}/g) ?? [];
+}
+
+// Entry for an approved ACH transfer created through /api/ach/transfers/create
+export function transferEntry(transfer: EnhancedTransaction): { secCode: SecCode; entry: NachaEntryInput } {
+  const metadata = (transfer.metadata ?? {}) as Record<string, any>;
+  const routingNumber = String(metadata.routingNumber ?? '');
+  const accountNumber = String(metadata.recipientAccount ?? '');
+  if (!isValidRoutingNumber(routingNumber) || !accountNumber) {
+    throw new LedgerError(`ACH transfer ${transfer.id} has no valid receiving routing/account number`, 422);
+  }
+
+  let secCode: SecCode = 'CCD';
+  if (['PPD', 'CCD', 'CTX'].includes(String(metadata.secCode).toUpperCase())) {
+    secCode = String(metadata.secCode).toUpperCase() as SecCode;
+  } else if (['payroll', 'ppd', 'direct_deposit'].includes(String(metadata.transferType).toLowerCase())) {
+    secCode = 'PPD';
+  }
+
+  // Money leaving the organization credits the receiver; collections debit them
+  const codes = TRANSACTION_CODES[accountTypeOf(metadata.accountType)];
+  return {
+    secCode,
+    entry: {
+      transactionCode: transfer.type === 'credit' ? codes.debit : codes.credit,
+      routingNumber,
+      accountNumber,
+      amountCents: toCents(transfer.amount),
+      individualId: transfer.id.slice(0, 15),
+      name: metadata.recipientName ?? transfer.description ?? 'ACH TRANSFER',
+      addenda: remittanceAddenda(transfer.description, secCode),
+    },
+  };
+}
+
+export function paymentEntry(
+  payment: Payment,
+  payee: BankAccount,
+  vendorSecCode: Extract<SecCode, 'CCD' | 'CTX'> = 'CCD'
+): { secCode: SecCode; entry: NachaEntryInput } {
+  const secCode: SecCode = CONSUMER_PAYMENT_TYPES.includes(payment.type) ? 'PPD' : vendorSecCode;
+  return {
+    secCode,
+    entry: {
+      transactionCode: TRANSACTION_CODES[accountTypeOf(payee.accountType)].credit,
+      routingNumber: payee.routingNumber,
+      accountNumber: payee.accountNumber,
+      amountCents: toCents(payment.amount),
+      individualId: payment.id.slice(0, 15),
+      name: payee.accountName,
+      addenda: remittanceAddenda(payment.description, secCode),
+    },
+  };
+}
+
+export class AchFileService {
+  async getOriginators(organizationId: string): Promise<AchOriginator[]> {
+    return await db
+      .select()
+      .from(achOriginators)
+      .where(eq(achOriginators.organizationId, organizationId))
+      .orderBy(achOriginators.name);
+  }
+
+  async getOriginator(id: string, organizationId: string): Promise<AchOriginator> {
+    const [originator] = await db
+      .select()
+      .from(achOriginators)
+      .where(and(eq(achOriginators.id, id), eq(achOriginators.organizationId, organizationId)));
+    if (!originator) {
+      throw new LedgerError('ACH originator not found', 404);
+    }
+    return originator;
+  }
+
+  async createOriginator(originator: InsertAchOriginator): Promise<AchOriginator> {
+    if (!isValidRoutingNumber(originator.immediateDestination)) {
+      throw new LedgerError('Immediate destination must be a valid routing number', 400);
+    }
+    if (!/^\d{8}$/.test(originator.originatingDfi)) {
+      throw new LedgerError('Originating DFI must be the first 8 digits of the ODFI routing number', 400);
+    }
+    const [created] = await db.insert(achOriginators).values(originator).returning();
+    return created;
+  }
+
+  async getFiles(organizationId: string): Promise<Array<Omit<AchFile, 'content'>>> {
+    return await db
+      .select({
+        id: achFiles.id,
+        organizationId: achFiles.organizationId,
+        originatorId: achFiles.originatorId,
+        fileIdModifier: achFiles.fileIdModifier,
+        fileCreationDate: achFiles.fileCreationDate,
+        effectiveEntryDate: achFiles.effectiveEntryDate,
+        status: achFiles.status,
+        batchCount: achFiles.batchCount,
+        entryAddendaCount: achFiles.entryAddendaCount,
+        entryHash: achFiles.entryHash,
+        totalDebit: achFiles.totalDebit,
+        totalCredit: achFiles.totalCredit,
+        createdBy: achFiles.createdBy,
+        transmittedAt: achFiles.transmittedAt,
+        createdAt: achFiles.createdAt,
+      })
+      .from(achFiles)
+      .where(eq(achFiles.organizationId, organizationId))
+      .orderBy(desc(achFiles.createdAt));
+  }
+
+  async getFile(id: string, organizationId: string): Promise<AchFile & { entries: AchEntry[] }> {
+    const [file] = await db
+      .select()
+      .from(achFiles)
+      .where(and(eq(achFiles.id, id), eq(achFiles.organizationId, organizationId)));
+    if (!file) {
+      throw new LedgerError('ACH file not found', 404);
+    }
+    const entries = await db
+      .select()
+      .from(achEntries)
+      .where(eq(achEntries.fileId, id))
+      .orderBy(achEntries.traceNumber);
+    return { ...file, entries };
+  }
+
+  async markTransmitted(id: string, organizationId: string): Promise<AchFile> {
+    const [file] = await db
+      .update(achFiles)
+      .set({ status: 'transmitted', transmittedAt: new Date() })
+      .where(and(eq(achFiles.id, id), eq(achFiles.organizationId, organizationId), eq(achFiles.status, 'generated')))
+      .returning();
+    if (!file) {
+      throw new LedgerError('Generated ACH file not found', 404);
+    }
+    return file;
+  }
+
+  /**
+   * Build a NACHA file from approved ACH transfers and payments, one batch per SEC code. The file is
+   * the payment channel: its transfers and payments move to processing with it.
+   */
+  async generateFile(organizationId: string, createdBy: string, options: GenerateAchFileOptions): Promise<AchFile> {
+    const originator = await this.getOriginator(options.originatorId, organizationId);
+    if (!originator.isActive) {
+      throw new LedgerError('ACH originator is inactive', 409);
+    }
+
+    const transferIds = Array.from(new Set(options.transferIds ?? []));
+    const paymentIds = Array.from(new Set(options.paymentIds ?? []));
+    if (transferIds.length === 0 && paymentIds.length === 0) {
+      throw new LedgerError('Select at least one ACH transfer or payment', 400);
+    }
+
+    // Files go out for next-business-day settlement unless a date is given, which must itself be a banking day
+    const calendar = await bankingCalendarService.forOrganization(organizationId);
+    const effectiveEntryDate = options.effectiveEntryDate
+      ? toDateOnly(options.effectiveEntryDate)
+      : calendar.addBusinessDays(toDateOnly(new Date()), 1);
+    if (!calendar.isBusinessDay(effectiveEntryDate)) {
+      const next = calendar.nextBusinessDay(effectiveEntryDate).toISOString().slice(0, 10);
+      throw new LedgerError(
+        `Effective entry date ${effectiveEntryDate.toISOString().slice(0, 10)} is not a banking day; the next one is ${next}`,
+        400
+      );
+    }
+
+    const transfers = transferIds.length === 0 ? [] : await db
+      .select()
+      .from(enhancedTransactions)
+      .where(
+        and(
+          eq(enhancedTransactions.organizationId, organizationId),
+          inArray(enhancedTransactions.id, transferIds),
+          eq(enhancedTransactions.paymentType, 'ach')
+        )
+      );
+    transferIds.forEach((id) => {
+      const transfer = transfers.find((row) => row.id === id);
+      if (!transfer) throw new LedgerError(`ACH transfer ${id} not found`, 404);
+      if (transfer.status !== 'approved') {
+        throw new LedgerError(`ACH transfer ${id} is ${transfer.status}; only approved transfers can be originated`, 409);
+      }
+    });
+
+    const orgPayments = paymentIds.length === 0 ? [] : await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.organizationId, organizationId), inArray(payments.id, paymentIds)));
+    const payeeIds = orgPayments.map((payment) => payment.payeeBankAccountId).filter((id): id is string => Boolean(id));
+    const payees = payeeIds.length === 0 ? [] : await db
+      .select()
+      .from(bankAccounts)
+      .where(and(eq(bankAccounts.organizationId, organizationId), inArray(bankAccounts.id, payeeIds)));
+    paymentIds.forEach((id) => {
+      const payment = orgPayments.find((row) => row.id === id);
+      if (!payment) throw new LedgerError(`Payment ${id} not found`, 404);
+      if (payment.status !== 'approved') {
+        throw new LedgerError(`Payment ${id} is ${payment.status}; only approved payments can be originated`, 409);
+      }
+      if (!payees.some((payee) => payee.id === payment.payeeBankAccountId)) {
+        throw new LedgerError(`Payment ${id} has no payee bank account`, 422);
+      }
+    });
+
+    // Group entries into one batch per SEC code, remembering each entry's source
+    const grouped = new Map<SecCode, Array<{ entry: NachaEntryInput; source: EntrySource }>>();
+    const add = (secCode: SecCode, entry: NachaEntryInput, source: EntrySource) => {
+      grouped.set(secCode, [...(grouped.get(secCode) ?? []), { entry, source }]);
+    };
+    transfers.forEach((transfer) => {
+      const { secCode, entry } = transferEntry(transfer);
+      add(secCode, entry, { sourceType: 'enhanced_transaction', sourceId: transfer.id, receiverBankAccountId: null });
+    });
+    orgPayments.forEach((payment) => {
+      const payee = payees.find((row) => row.id === payment.payeeBankAccountId)!;
+      const { secCode, entry } = paymentEntry(payment, payee, options.vendorSecCode);
+      add(secCode, entry, { sourceType: 'payment', sourceId: payment.id, receiverBankAccountId: payee.id });
+    });
+
+    const settlementAccount = originator.settlementBankAccountId
+      ? (await db.select().from(bankAccounts).where(eq(bankAccounts.id, originator.settlementBankAccountId)))[0]
+      : undefined;
+
+    const batchSources: EntrySource[][] = [];
+    const batches: NachaBatchInput[] = Array.from(grouped.entries()).map(([secCode, items]) => {
+      batchSources.push(items.map((item) => item.source));
+      return {
+        secCode,
+        companyEntryDescription: BATCH_DESCRIPTIONS[secCode],
+        effectiveEntryDate,
+        entries: items.map((item) => item.entry),
+        offsetAccount: settlementAccount
+          ? {
+            routingNumber: settlementAccount.routingNumber,
+            accountNumber: settlementAccount.accountNumber,
+            accountType: accountTypeOf(settlementAccount.accountType),
+            name: originator.companyName,
+          }
+          : undefined,
+      };
+    });
+
+    const fileCreationDate = new Date();
+    const startOfDay = new Date(fileCreationDate);
+    startOfDay.setHours(0, 0, 0, 0);
+
+    return await db.transaction(async (tx) => {
+      // UQ_ach_entry_source backs this up for files generated at the same time
+      const [alreadyOriginated] = await tx
+        .select({ sourceId: achEntries.sourceId })
+        .from(achEntries)
+        .where(and(eq(achEntries.organizationId, organizationId), inArray(achEntries.sourceId, [...transferIds, ...paymentIds])))
+        .limit(1);
+      if (alreadyOriginated) {
+        throw new LedgerError(`${alreadyOriginated.sourceId} is already included in an ACH file`, 409);
+      }
+
+      const todaysFiles = await tx
+        .select({ id: achFiles.id })
+        .from(achFiles)
+        .where(and(eq(achFiles.originatorId, originator.id), gte(achFiles.fileCreationDate, startOfDay)));
+      const fileIdModifier = FILE_ID_MODIFIERS[todaysFiles.length];
+      if (!fileIdModifier) {
+        throw new LedgerError('Daily ACH file limit reached for this originator', 409);
+      }
+
+      const built = buildNachaFile({
+        originator,
+        fileCreationDate,
+        fileIdModifier,
+        batches,
+        traceSequenceStart: await this.reserveTraceNumbers(
+          organizationId,
+          originator.originatingDfi,
+          traceNumbersNeeded(batches),
+          tx
+        ),
+      });
+
+      const [file] = await tx
+        .insert(achFiles)
+        .values({
+          organizationId,
+          originatorId: originator.id,
+          fileIdModifier,
+          fileCreationDate,
+          effectiveEntryDate,
+          batchCount: built.batchCount,
+          entryAddendaCount: built.entryAddendaCount,
+          entryHash: built.entryHash,
+          totalDebit: fromCents(built.totalDebitCents),
+          totalCredit: fromCents(built.totalCreditCents),
+          content: built.content,
+          createdBy,
+        })
+        .returning();
+
+      const positions = new Map<number, number>();
+      const inserted = await tx.insert(achEntries).values(built.entries.map((entry) => {
+        const position = positions.get(entry.batchNumber) ?? 0;
+        positions.set(entry.batchNumber, position + 1);
+        const source = entry.isOffset ? undefined : batchSources[entry.batchNumber - 1][position];
+        return {
+          organizationId,
+          fileId: file.id,
+          originatorId: originator.id,
+          batchNumber: entry.batchNumber,
+          traceNumber: entry.traceNumber,
+          secCode: entry.secCode,
+          transactionCode: entry.transactionCode,
+          sourceType: source?.sourceType ?? 'offset' as const,
+          sourceId: source?.sourceId ?? null,
+          receiverBankAccountId: source?.receiverBankAccountId ?? settlementAccount?.id ?? null,
+          receiverName: entry.name,
+          routingNumber: entry.routingNumber,
+          accountNumberLast4: entry.accountNumber.slice(-4),
+          amount: fromCents(entry.amountCents),
+        };
+      })).onConflictDoNothing().returning({ id: achEntries.id });
+      if (inserted.length !== built.entries.length) {
+        throw new LedgerError('A transfer or payment in this file was included in another ACH file at the same time', 409);
+      }
+
+      // Originated transfers wait on the bank from here on
+      if (transferIds.length > 0) {
+        for (const transfer of transfers) {
+          await tx
+            .update(enhancedTransactions)
+            .set({
+              status: 'processing',
+              metadata: { ...((transfer.metadata ?? {}) as Record<string, any>), achFileId: file.id },
+              updatedAt: new Date(),
+            })
+            .where(eq(enhancedTransactions.id, transfer.id));
+        }
+      }
+
+      if (paymentIds.length > 0) {
+        const originated = await tx
+          .update(payments)
+          .set({ status: 'processing', updatedAt: new Date() })
+          .where(and(inArray(payments.id, paymentIds), eq(payments.status, 'approved')))
+          .returning({ id: payments.id });
+        if (originated.length !== paymentIds.length) {
+          throw new LedgerError('A payment changed status while the ACH file was being generated', 409);
+        }
+      }
+
+      return file;
+    });
+  }
+
+  /**
+   * Reserve a block of trace sequences from the ODFI's counter and return the first. The upsert
+   * locks the counter row, so concurrent files draw separate blocks.
+   */
+  private async reserveTraceNumbers(
+    organizationId: string,
+    originatingDfi: string,
+    count: number,
+    executor: DbExecutor = db
+  ): Promise<number> {
+    const [counter] = await executor
+      .insert(achTraceSequences)
+      .values({ organizationId, originatingDfi, lastSequence: count })
+      .onConflictDoUpdate({
+        target: [achTraceSequences.organizationId, achTraceSequences.originatingDfi],
+        set: { lastSequence: sql`${achTraceSequences.lastSequence} + ${count}`, updatedAt: new Date() },
+      })
+      .returning({ lastSequence: achTraceSequences.lastSequence });
+    return counter.lastSequence - count + 1;
+  }
+
+  /**
+   * Validate an incoming NACHA file (e.g. a return or NOC file from the ODFI)
+   */
+  validateFile(content: string): NachaParsedFile {
+    return parseNachaFile(content);
+  }
+}
+
+export const achFileService = new AchFileService();
@@ -0,0 +1,589 @@
+import { db } from '../db';
+import {
+  bankAccounts,
+  payments,
+  enhancedTransactions,
+  type BankAccount,
+  type EnhancedTransaction,
+} from '@shared/schema';
+import {
+  achOriginators,
+  achEntries,
+  achReturns,
+  type AchEntry,
+  type AchReturn,
+} from '@shared/ach-schema';
+import { eq, and, gte, lte, inArray, isNotNull, desc, count, sql } from 'drizzle-orm';
+import { LedgerError, ledgerService, toCents, type DbExecutor } from './ledger-service';
+import { encumbranceService } from './encumbrance-service';
+import { parseNachaFile, type AccountType, type NachaParsedEntry } from './nacha';
+import { wsManager } from '../websocket';
+
+export type BankAccountAction = 'none' | 'unverify' | 'deactivate';
+
+interface ReasonCode {
+  description: string;
+  action: BankAccountAction;
+}
+
+// Return reason codes; the action says what happens to the receiving account
+export const ACH_RETURN_REASONS: Record<string, ReasonCode> = {
+  R01: { description: 'Insufficient funds', action: 'none' },
+  R02: { description: 'Account closed', action: 'deactivate' },
+  R03: { description: 'No account/unable to locate account', action: 'deactivate' },
+  R04: { description: 'Invalid account number', action: 'deactivate' },
+  R05: { description: 'Unauthorized debit to consumer account', action: 'unverify' },
+  R06: { description: 'Returned per ODFI request', action: 'none' },
+  R07: { description: 'Authorization revoked by customer', action: 'unverify' },
+  R08: { description: 'Payment stopped', action: 'none' },
+  R09: { description: 'Uncollected funds', action: 'none' },
+  R10: { description: 'Customer advises not authorized', action: 'unverify' },
+  R11: { description: 'Entry not in accordance with the terms of the authorization', action: 'none' },
+  R12: { description: 'Account sold to another DFI', action: 'deactivate' },
+  R14: { description: 'Representative payee deceased', action: 'deactivate' },
+  R15: { description: 'Beneficiary or account holder deceased', action: 'deactivate' },
+  R16: { description: 'Account frozen', action: 'deactivate' },
+  R17: { description: 'File record edit criteria', action: 'none' },
+  R20: { description: 'Non-transaction account', action: 'deactivate' },
+  R23: { description: 'Credit entry refused by receiver', action: 'unverify' },
+  R24: { description: 'Duplicate entry', action: 'none' },
+  R29: { description: 'Corporate customer advises not authorized', action: 'unverify' },
+  R31: { description: 'Permissible return entry', action: 'none' },
+};
+
+export const ACH_NOC_REASONS: Record<string, string> = {
+  C01: 'Incorrect account number',
+  C02: 'Incorrect routing number',
+  C03: 'Incorrect routing number and account number',
+  C05: 'Incorrect transaction code',
+  C06: 'Incorrect account number and transaction code',
+  C07: 'Incorrect routing number, account number and transaction code',
+};
+
+// Codes counted against the NACHA unauthorized and administrative return rate thresholds
+const UNAUTHORIZED_CODES = ['R05', 'R07', 'R10', 'R11', 'R29'];
+const ADMINISTRATIVE_CODES = ['R02', 'R03', 'R04'];
+
+export const RETURN_RATE_THRESHOLDS = {
+  unauthorized: 0.005,
+  administrative: 0.03,
+  overall: 0.15,
+};
+
+export interface NocCorrection {
+  routingNumber?: string;
+  accountNumber?: string;
+  accountType?: AccountType;
+}
+
+export interface ReturnRateRow {
+  originatorId: string | null;
+  provider: string | null;
+  name: string;
+  entryCount: number;
+  returnCount: number;
+  unauthorizedCount: number;
+  administrativeCount: number;
+  returnRate: number;
+  unauthorizedRate: number;
+  administrativeRate: number;
+  exceedsThreshold: boolean;
+}
+
+export interface ReturnFileResult {
+  processed: AchReturn[];
+  duplicates: string[];
+  unmatched: string[];
+  ambiguous: string[]; // several originated entries fit; left for manual review rather than guessed
+  warnings: string[];
+}
+
+export interface ProviderReturnInput {
+  provider: string;
+  providerTransactionId: string;
+  reasonCode: string;
+  correctedData?: string;
+  dateOfDeath?: string;
+}
+
+// What one return or NOC applies to once it has been matched to its source
+interface ReturnInput {
+  channel: AchReturn['channel'];
+  reasonCode: string;
+  sourceType: 'enhanced_transaction' | 'payment';
+  sourceId: string;
+  entry?: AchEntry;
+  provider?: string;
+  traceNumber?: string;
+  correctedData?: string | null;
+  dateOfDeath?: string | null;
+}
+
+export function isNotificationOfChange(reasonCode: string): boolean {
+  return reasonCode.toUpperCase().startsWith('C');
+}
+
+export function describeAchReason(reasonCode: string): string {
+  const code = reasonCode.toUpperCase();
+  return ACH_RETURN_REASONS[code]?.description ?? ACH_NOC_REASONS[code] ?? `ACH reason ${code}`;
+}
+
+export function bankAccountActionFor(reasonCode: string): BankAccountAction {
+  return ACH_RETURN_REASONS[reasonCode.toUpperCase()]?.action ?? 'none';
+}
+
+function accountTypeFromTransactionCode(transactionCode: string): AccountType | undefined {
+  if (/^2\d$/.test(transactionCode)) return 'checking';
+  if (/^3\d$/.test(transactionCode)) return 'savings';
+  return undefined;
+}
+
+/**
+ * Read the corrected routing/account/transaction code out of a NOC's corrected data field
+ */
+export function parseNocCorrection(reasonCode: string, correctedData: string | null | undefined): NocCorrection {
+  const data = correctedData ?? '';
+  const field = (start: number, end: number) => data.slice(start, end).trim() || undefined;
+  switch (reasonCode.toUpperCase()) {
+    case 'C01':
+      return { accountNumber: field(0, 17) };
+    case 'C02':
+      return { routingNumber: field(0, 9) };
+    case 'C03':
+      return { routingNumber: field(0, 9), accountNumber: field(12, 29) };
+    case 'C05':
+      return { accountType: accountTypeFromTransactionCode(data.slice(0, 2)) };
+    case 'C06':
+      return { accountNumber: field(0, 17), accountType: accountTypeFromTransactionCode(data.slice(20, 22)) };
+    case 'C07':
+      return {
+        routingNumber: field(0, 9),
+        accountNumber: field(9, 26),
+        accountType: accountTypeFromTransactionCode(data.slice(26, 28)),
+      };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Return rates per originator (or provider) against the NACHA thresholds
+ */
+export function summarizeReturnRates(
+  groups: Array<{ originatorId: string | null; provider: string | null; name: string; entryCount: number }>,
+  returns: Array<Pick<AchReturn, 'originatorId' | 'provider' | 'reasonCode' | 'type'>>
+): ReturnRateRow[] {
+  return groups.map((group) => {
+    const codes = returns
+      .filter((row) => row.type === 'return')
+      .filter((row) =>
+        group.originatorId ? row.originatorId === group.originatorId : !row.originatorId && row.provider === group.provider
+      )
+      .map((row) => row.reasonCode);
+    const unauthorizedCount = codes.filter((code) => UNAUTHORIZED_CODES.includes(code)).length;
+    const administrativeCount = codes.filter((code) => ADMINISTRATIVE_CODES.includes(code)).length;
+    const rate = (value: number) => (group.entryCount > 0 ? Number((value / group.entryCount).toFixed(4)) : 0);
+
+    const row = {
+      ...group,
+      returnCount: codes.length,
+      unauthorizedCount,
+      administrativeCount,
+      returnRate: rate(codes.length),
+      unauthorizedRate: rate(unauthorizedCount),
+      administrativeRate: rate(administrativeCount),
+    };
+    return {
+      ...row,
+      exceedsThreshold:
+        row.unauthorizedRate > RETURN_RATE_THRESHOLDS.unauthorized ||
+        row.administrativeRate > RETURN_RATE_THRESHOLDS.administrative ||
+        row.returnRate > RETURN_RATE_THRESHOLDS.overall,
+    };
+  });
+}
+
+/**
+ * Find the originated entry a return or NOC refers to. Besides the trace number, the receiver's routing
+ * number and account must agree, and a return carries the original amount (NOCs carry zero). Older
+ * files may share trace numbers, so more than one fit is ambiguous rather than the first row.
+ */
+export function matchOriginatedEntry(
+  notice: Pick<NachaParsedEntry, 'routingNumber' | 'accountNumber' | 'amountCents'> & { originalTraceNumber: string },
+  originated: AchEntry[]
+): { entry: AchEntry } | { reason: 'unmatched' | 'ambiguous' } {
+  const fits = originated.filter(
+    (row) =>
+      row.traceNumber === notice.originalTraceNumber &&
+      row.routingNumber === notice.routingNumber &&
+      (!row.accountNumberLast4 || notice.accountNumber.trim().endsWith(row.accountNumberLast4)) &&
+      (notice.amountCents === 0 || toCents(row.amount) === notice.amountCents)
+  );
+  if (fits.length === 0) return { reason: 'unmatched' };
+  if (fits.length > 1) return { reason: 'ambiguous' };
+  return { entry: fits[0] };
+}
+
+export class AchReturnService {
+  async getReturns(organizationId: string, type?: AchReturn['type']): Promise<AchReturn[]> {
+    const conditions = [eq(achReturns.organizationId, organizationId)];
+    if (type) conditions.push(eq(achReturns.type, type));
+    return await db
+      .select()
+      .from(achReturns)
+      .where(and(...conditions))
+      .orderBy(desc(achReturns.createdAt));
+  }
+
+  /**
+   * Ingest a NACHA return/NOC file from the ODFI, matching each addenda to the originated entry by trace number
+   */
+  async importReturnFile(organizationId: string, actorId: string, content: string): Promise<ReturnFileResult> {
+    const parsed = parseNachaFile(content);
+    const notices = parsed.entries.filter((entry) => entry.returnAddenda);
+    if (notices.length === 0) {
+      throw new LedgerError(
+        parsed.errors.length > 0 ? `Unreadable return file: ${parsed.errors[0]}` : 'File contains no return or NOC entries',
+        400
+      );
+    }
+
+    const traceNumbers = notices.map((entry) => entry.returnAddenda!.originalTraceNumber);
+    const originated = await db
+      .select()
+      .from(achEntries)
+      .where(and(eq(achEntries.organizationId, organizationId), inArray(achEntries.traceNumber, traceNumbers)));
+
+    const result: ReturnFileResult = {
+      processed: [],
+      duplicates: [],
+      unmatched: [],
+      ambiguous: [],
+      warnings: parsed.errors,
+    };
+    for (const notice of notices) {
+      const addenda = notice.returnAddenda!;
+      const match = matchOriginatedEntry({ ...notice, originalTraceNumber: addenda.originalTraceNumber }, originated);
+      if ('reason' in match) {
+        result[match.reason].push(addenda.originalTraceNumber);
+        continue;
+      }
+      const { entry } = match;
+      if (!entry.sourceId || entry.sourceType === 'offset') {
+        result.unmatched.push(addenda.originalTraceNumber);
+        continue;
+      }
+
+      const recorded = await this.recordReturn(organizationId, actorId, {
+        channel: 'nacha_file',
+        reasonCode: addenda.reasonCode,
+        sourceType: entry.sourceType,
+        sourceId: entry.sourceId,
+        entry,
+        traceNumber: addenda.originalTraceNumber,
+        correctedData: addenda.correctedData,
+        dateOfDeath: addenda.dateOfDeath,
+      });
+      if (recorded) result.processed.push(recorded);
+      else result.duplicates.push(addenda.originalTraceNumber);
+    }
+
+    return result;
+  }
+
+  /**
+   * Record a return or NOC reported by a provider for a transfer it originated
+   */
+  async recordProviderReturn(organizationId: string, actorId: string, input: ProviderReturnInput): Promise<AchReturn | null> {
+    const [transfer] = await db
+      .select()
+      .from(enhancedTransactions)
+      .where(
+        and(
+          eq(enhancedTransactions.organizationId, organizationId),
+          eq(enhancedTransactions.providerTransactionId, input.providerTransactionId)
+        )
+      );
+    if (!transfer) {
+      throw new LedgerError(`No transfer found for ${input.provider} transaction ${input.providerTransactionId}`, 404);
+    }
+
+    // The transfer may still have gone out in one of our own NACHA files
+    const [entry] = await db
+      .select()
+      .from(achEntries)
+      .where(and(eq(achEntries.sourceType, 'enhanced_transaction'), eq(achEntries.sourceId, transfer.id)));
+
+    return this.recordReturn(organizationId, actorId, {
+      channel: 'provider_webhook',
+      reasonCode: input.reasonCode,
+      sourceType: 'enhanced_transaction',
+      sourceId: transfer.id,
+      entry,
+      provider: input.provider,
+      traceNumber: entry?.traceNumber,
+      correctedData: input.correctedData,
+      dateOfDeath: input.dateOfDeath,
+    });
+  }
+
+  /**
+   * Store the notice, reverse a returned entry, update the receiving account and notify the payee.
+   * Returns null when the same code was already recorded for the source.
+   */
+  private async recordReturn(organizationId: string, actorId: string, input: ReturnInput): Promise<AchReturn | null> {
+    const reasonCode = input.reasonCode.toUpperCase();
+    const isNoc = isNotificationOfChange(reasonCode);
+
+    const outcome = await db.transaction(async (tx) => {
+      const source = await this.loadSource(input, tx);
+      const bankAccount = await this.resolveBankAccount(organizationId, input, source.transfer, tx);
+
+      const changes = isNoc ? parseNocCorrection(reasonCode, input.correctedData) : {};
+      const appliedChanges = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+
+      const [notice] = await tx
+        .insert(achReturns)
+        .values({
+          organizationId,
+          type: isNoc ? 'notification_of_change' : 'return',
+          channel: input.channel,
+          reasonCode,
+          reasonDescription: describeAchReason(reasonCode),
+          sourceType: input.sourceType,
+          sourceId: input.sourceId,
+          entryId: input.entry?.id ?? null,
+          originatorId: input.entry?.originatorId ?? null,
+          provider: input.provider ?? source.transfer?.provider ?? null,
+          traceNumber: input.traceNumber ?? null,
+          bankAccountId: bankAccount?.id ?? null,
+          amount: input.entry?.amount ?? source.amount,
+          correctedData: input.correctedData ?? null,
+          dateOfDeath: input.dateOfDeath ?? null,
+          appliedChanges: isNoc ? appliedChanges : null,
+          receivedBy: actorId,
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (!notice) return null;
+
+      if (!isNoc) {
+        await this.reverseSource(input, actorId, `ACH return ${reasonCode}`, tx);
+      }
+
+      if (bankAccount) {
+        const action = bankAccountActionFor(reasonCode);
+        await tx
+          .update(bankAccounts)
+          .set({
+            ...appliedChanges,
+            ...(action === 'deactivate' ? { isActive: false, isVerified: false } : {}),
+            ...(action === 'unverify' ? { isVerified: false } : {}),
+            achReturnCode: reasonCode,
+            achFlaggedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(bankAccounts.id, bankAccount.id));
+      }
+
+      return { notice, bankAccount };
+    });
+
+    if (!outcome) return null;
+    this.notify(organizationId, outcome.notice, outcome.bankAccount);
+    return outcome.notice;
+  }
+
+  private async loadSource(
+    input: ReturnInput,
+    executor: DbExecutor
+  ): Promise<{ transfer?: EnhancedTransaction; amount: string | null }> {
+    if (input.sourceType === 'enhanced_transaction') {
+      const [transfer] = await executor
+        .select()
+        .from(enhancedTransactions)
+        .where(eq(enhancedTransactions.id, input.sourceId));
+      return { transfer, amount: transfer?.amount ?? null };
+    }
+    const [payment] = await executor.select().from(payments).where(eq(payments.id, input.sourceId));
+    return { amount: payment?.amount ?? null };
+  }
+
+  // Receiving account: the originated entry's account, the transfer's target, or a match on its metadata
+  private async resolveBankAccount(
+    organizationId: string,
+    input: ReturnInput,
+    transfer: EnhancedTransaction | undefined,
+    executor: DbExecutor
+  ): Promise<BankAccount | undefined> {
+    const accountId = input.entry?.receiverBankAccountId ?? transfer?.toAccountId;
+    if (accountId) {
+      const [account] = await executor.select().from(bankAccounts).where(eq(bankAccounts.id, accountId));
+      return account;
+    }
+
+    const metadata = (transfer?.metadata ?? {}) as Record<string, any>;
+    if (!metadata.routingNumber || !metadata.recipientAccount) return undefined;
+    const [account] = await executor
+      .select()
+      .from(bankAccounts)
+      .where(
+        and(
+          eq(bankAccounts.organizationId, organizationId),
+          eq(bankAccounts.routingNumber, String(metadata.routingNumber)),
+          eq(bankAccounts.accountNumber, String(metadata.recipientAccount))
+        )
+      );
+    return account;
+  }
+
+  // Mark the source returned and back out its ledger (and budget) effect
+  private async reverseSource(input: ReturnInput, actorId: string, reason: string, executor: DbExecutor): Promise<void> {
+    if (input.sourceType === 'enhanced_transaction') {
+      const [before] = await executor
+        .select()
+        .from(enhancedTransactions)
+        .where(eq(enhancedTransactions.id, input.sourceId));
+      if (!before || before.status === 'returned') return;
+
+      const [after] = await executor
+        .update(enhancedTransactions)
+        .set({
+          status: 'returned',
+          metadata: { ...((before.metadata ?? {}) as Record<string, any>), returnReason: reason },
+          updatedAt: new Date(),
+        })
+        .where(eq(enhancedTransactions.id, before.id))
+        .returning();
+      await ledgerService.postEnhancedTransactionStatusChange(before, after, executor);
+      return;
+    }
+
+    const [before] = await executor.select().from(payments).where(eq(payments.id, input.sourceId));
+    if (!before || before.status === 'returned') return;
+
+    const [after] = await executor
+      .update(payments)
+      .set({ status: 'returned', updatedAt: new Date() })
+      .where(eq(payments.id, before.id))
+      .returning();
+    await encumbranceService.onPaymentStatusChange(before, after, executor);
+    await ledgerService.postPaymentStatusChange(before, after, actorId, executor);
+  }
+
+  private notify(organizationId: string, notice: AchReturn, bankAccount: BankAccount | undefined): void {
+    const isNoc = notice.type === 'notification_of_change';
+    const title = isNoc ? 'Bank Account Details Updated' : 'ACH Payment Returned';
+    const message = isNoc
+      ? `Your bank sent a correction (${notice.reasonCode}: ${notice.reasonDescription}); your direct deposit details were updated`
+      : `A payment of $${notice.amount ?? '0.00'} was returned by your bank (${notice.reasonCode}: ${notice.reasonDescription})`;
+    const data = {
+      title,
+      message,
+      severity: isNoc ? 'info' : 'warning',
+      achReturnId: notice.id,
+      reasonCode: notice.reasonCode,
+      bankAccountId: notice.bankAccountId,
+    };
+
+    if (bankAccount?.ownerUserId) {
+      wsManager.sendToUser(bankAccount.ownerUserId, {
+        type: 'notification',
+        data,
+        userId: bankAccount.ownerUserId,
+        timestamp: Date.now(),
+      });
+    }
+
+    wsManager.sendToOrganization(organizationId, {
+      type: 'alert',
+      data: { ...data, message: `${title}: ${notice.reasonCode} ${notice.reasonDescription} on ${notice.sourceType} ${notice.sourceId}` },
+      organizationId,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Return rates per originator and per provider over a period (default: the last 60 days)
+   */
+  async getReturnRates(organizationId: string, from?: Date, to: Date = new Date()): Promise<ReturnRateRow[]> {
+    const start = from ?? new Date(to.getTime() - 60 * 24 * 60 * 60 * 1000);
+
+    const originatorCounts = await db
+      .select({ originatorId: achOriginators.id, name: achOriginators.name, entryCount: count(achEntries.id) })
+      .from(achOriginators)
+      .leftJoin(
+        achEntries,
+        and(
+          eq(achEntries.originatorId, achOriginators.id),
+          gte(achEntries.createdAt, start),
+          lte(achEntries.createdAt, to),
+          sql`${achEntries.sourceType} <> 'offset'`
+        )
+      )
+      .where(eq(achOriginators.organizationId, organizationId))
+      .groupBy(achOriginators.id, achOriginators.name);
+
+    // Transfers the provider originated itself, i.e. never placed in one of our files
+    const providerCounts = await db
+      .select({ provider: enhancedTransactions.provider, entryCount: count(enhancedTransactions.id) })
+      .from(enhancedTransactions)
+      .where(
+        and(
+          eq(enhancedTransactions.organizationId, organizationId),
+          eq(enhancedTransactions.paymentType, 'ach'),
+          gte(enhancedTransactions.createdAt, start),
+          lte(enhancedTransactions.createdAt, to),
+          sql`${enhancedTransactions.metadata}->>'achFileId' is null`
+        )
+      )
+      .groupBy(enhancedTransactions.provider);
+
+    const returns = await db
+      .select({
+        originatorId: achReturns.originatorId,
+        provider: achReturns.provider,
+        reasonCode: achReturns.reasonCode,
+        type: achReturns.type,
+      })
+      .from(achReturns)
+      .where(
+        and(
+          eq(achReturns.organizationId, organizationId),
+          gte(achReturns.createdAt, start),
+          lte(achReturns.createdAt, to)
+        )
+      );
+
+    const providerReturns = returns.filter((row) => !row.originatorId && row.provider);
+    const providers = Array.from(
+      new Set([...providerCounts.map((row) => row.provider as string), ...providerReturns.map((row) => row.provider!)])
+    );
+
+    return summarizeReturnRates(
+      [
+        ...originatorCounts.map((row) => ({ originatorId: row.originatorId, provider: null, name: row.name, entryCount: row.entryCount })),
+        ...providers.map((provider) => ({
+          originatorId: null,
+          provider,
+          name: provider,
+          entryCount: providerCounts.find((row) => row.provider === provider)?.entryCount ?? 0,
+        })),
+      ],
+      returns
+    );
+  }
+
+  /**
+   * Bank accounts currently flagged by a return or NOC
+   */
+  async getFlaggedBankAccounts(organizationId: string): Promise<BankAccount[]> {
+    return await db
+      .select()
+      .from(bankAccounts)
+      .where(and(eq(bankAccounts.organizationId, organizationId), isNotNull(bankAccounts.achFlaggedAt)))
+      .orderBy(desc(bankAccounts.achFlaggedAt));
+  }
+}
+
+export const achReturnService = new AchReturnService();
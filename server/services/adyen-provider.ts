@@ -1,4 +1,5 @@
 import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, CardIssueResult, ComplianceResult } from './base-provider';
+import { addBusinessDays } from './banking-calendar';
 
 export interface AdyenConfig extends BaseProviderConfig {
   apiKey: string;
@@ -87,7 +88,7 @@ export class AdyenProvider extends BaseProvider {
   ): Promise<TransferResult> {
     try {
       const transferId = `adyen_ach_${Date.now()}`;
-      const estimatedSettlement = new Date();
+      let estimatedSettlement = new Date();
       let fees = 0.6;
 
       switch (type) {
@@ -96,11 +97,11 @@ export class AdyenProvider extends BaseProvider {
           fees = 2.5;
           break;
         case 'next_day':
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
           fees = 1.2;
           break;
         default:
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 3);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 3);
       }
 
       this.logTransaction('processACH', { amount, type, fromAccount, toAccount });
@@ -0,0 +1,343 @@
+import { db } from '../db';
+import {
+  approvalDelegations,
+  workflowApprovals,
+  workflowDefinitions,
+  workflowRules,
+  type ApprovalDelegation,
+  type Workflow,
+  type WorkflowApproval,
+  type WorkflowStage,
+} from '@shared/workflow-schema';
+import { auditLogs, employees, leaveRequests, users } from '@shared/schema';
+import type { PermissionResource, PermissionScope } from '@shared/rbac-schema';
+import { and, desc, eq, gte, inArray, lte, or } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { LedgerError, type DbExecutor } from './ledger-service';
+import { rbacService } from './rbac-service';
+
+// Longest delegate-of-a-delegate chain followed before giving up
+const MAX_DELEGATION_HOPS = 5;
+
+// Workflow types whose approval a permission also grants, besides being seated as an approver
+const APPROVAL_PERMISSIONS: Partial<Record<Workflow['type'], [PermissionResource, string]>> = {
+  payment_approval: ['payments', 'approve'],
+  expense_approval: ['expenses', 'approve'],
+  card_issuance: ['cards', 'issue'],
+  integration_setup: ['integrations', 'manage'],
+  role_change: ['roles', 'manage'],
+};
+
+export interface DelegationContext {
+  type: string;
+  amount: number | null;
+  at: Date;
+}
+
+export interface ResolvedDelegation {
+  delegateId: string;
+  chain: ApprovalDelegation[];
+}
+
+export interface SaveDelegationInput {
+  delegatorId?: string;
+  delegateId: string;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  workflowTypes?: string[] | null;
+  maxAmount?: number | null;
+  reason?: string | null;
+}
+
+interface DelegationActor {
+  id: string;
+  organizationId: string | null;
+}
+
+export function workflowAmount(data: unknown): number | null {
+  const amount = Number((data as any)?.amount);
+  return (data as any)?.amount == null || isNaN(amount) ? null : amount;
+}
+
+/**
+ * Whether a rule covers this approval. Dated rules apply inside their window; undated rules
+ * apply only while the delegator is on approved leave.
+ */
+export function ruleApplies(rule: ApprovalDelegation, context: DelegationContext, onLeave: boolean): boolean {
+  if (!rule.isActive) return false;
+  if (rule.startsAt && rule.endsAt) {
+    if (context.at < rule.startsAt || context.at > rule.endsAt) return false;
+  } else if (!onLeave) {
+    return false;
+  }
+  if (rule.workflowTypes && !rule.workflowTypes.includes(context.type)) return false;
+  if (rule.maxAmount != null && context.amount != null && context.amount > rule.maxAmount) return false;
+  return true;
+}
+
+/**
+ * Follow the approver's delegations to whoever should act now. A chain that loops back or lands on
+ * someone who may not approve (the initiator, another approver at the same level) routes nowhere,
+ * leaving the approval with the original approver.
+ */
+export function resolveDelegate(
+  approverId: string,
+  context: DelegationContext,
+  rules: ApprovalDelegation[],
+  onLeave: ReadonlySet<string>,
+  ineligible: ReadonlySet<string> = new Set()
+): ResolvedDelegation | null {
+  const chain: ApprovalDelegation[] = [];
+  const visited = new Set([approverId]);
+  let current = approverId;
+
+  for (let hop = 0; hop < MAX_DELEGATION_HOPS; hop++) {
+    const [rule] = rules
+      .filter((candidate) => candidate.delegatorId === current && ruleApplies(candidate, context, onLeave.has(current)))
+      .sort((a, b) => Number(!!b.startsAt) - Number(!!a.startsAt) || (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+    if (!rule) break;
+    if (visited.has(rule.delegateId) || ineligible.has(rule.delegateId)) return null;
+    chain.push(rule);
+    visited.add(rule.delegateId);
+    current = rule.delegateId;
+  }
+
+  return chain.length > 0 ? { delegateId: current, chain } : null;
+}
+
+/**
+ * The workflow types each user is seated to approve, from the organization's published definitions
+ * and active workflow rules
+ */
+export function approverSeats(
+  definitions: Array<{ type: string; stages: WorkflowStage[] }>,
+  rules: Array<{ type: string; approvalMatrix: unknown }>
+): Map<string, Set<string>> {
+  const seats = new Map<string, Set<string>>();
+  const seat = (approverId: string, type: string) => {
+    if (!seats.has(approverId)) seats.set(approverId, new Set());
+    seats.get(approverId)!.add(type);
+  };
+
+  for (const definition of definitions) {
+    for (const stage of definition.stages) {
+      stage.groups.forEach((group) => group.approvers.forEach((approverId) => seat(approverId, definition.type)));
+    }
+  }
+  for (const rule of rules) {
+    const levels: Array<{ approvers?: string[] }> = (rule.approvalMatrix as any)?.levels ?? [];
+    levels.forEach((level) => (level.approvers ?? []).forEach((approverId) => seat(approverId, rule.type)));
+  }
+  return seats;
+}
+
+export class ApprovalDelegationService {
+  async getDelegations(actor: DelegationActor, scope: PermissionScope): Promise<ApprovalDelegation[]> {
+    const organizationId = actor.organizationId!;
+    return db
+      .select()
+      .from(approvalDelegations)
+      .where(
+        scope === 'organization'
+          ? eq(approvalDelegations.organizationId, organizationId)
+          : and(
+              eq(approvalDelegations.organizationId, organizationId),
+              or(eq(approvalDelegations.delegatorId, actor.id), eq(approvalDelegations.delegateId, actor.id))
+            )
+      )
+      .orderBy(desc(approvalDelegations.createdAt));
+  }
+
+  /**
+   * Create a rule for the caller, or for anyone in the organization with organization scope
+   */
+  async createDelegation(actor: DelegationActor, scope: PermissionScope, input: SaveDelegationInput): Promise<ApprovalDelegation> {
+    const organizationId = actor.organizationId!;
+    const delegatorId = input.delegatorId ?? actor.id;
+    if (delegatorId !== actor.id && scope !== 'organization') {
+      throw new LedgerError('You can only delegate your own approvals', 403);
+    }
+    if (delegatorId === input.delegateId) {
+      throw new LedgerError('Approvals cannot be delegated to the same person', 422);
+    }
+
+    const members = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.organizationId, organizationId), inArray(users.id, [delegatorId, input.delegateId])));
+    const delegate = members.find((member) => member.id === input.delegateId);
+    if (!delegate) {
+      throw new LedgerError('Delegate must belong to your organization', 422);
+    }
+    if (!members.some((member) => member.id === delegatorId)) {
+      throw new LedgerError('User not found', 404);
+    }
+
+    // A rule without types covers everything the delegator is seated to approve
+    const seats = await this.loadSeats(organizationId);
+    const types = input.workflowTypes ?? Array.from(seats.get(delegatorId) ?? []);
+    const uncovered: string[] = [];
+    for (const type of types) {
+      if (seats.get(delegate.id)?.has(type)) continue;
+      const permission = APPROVAL_PERMISSIONS[type as Workflow['type']];
+      if (permission && (await rbacService.can(delegate, ...permission))) continue;
+      uncovered.push(type.replace(/_/g, ' '));
+    }
+    if (uncovered.length > 0) {
+      throw new LedgerError(`The delegate is not an approver for ${uncovered.join(', ')} workflows`, 422);
+    }
+
+    const [delegation] = await db
+      .insert(approvalDelegations)
+      .values({
+        id: nanoid(),
+        organizationId,
+        delegatorId,
+        delegateId: input.delegateId,
+        startsAt: input.startsAt ?? null,
+        endsAt: input.endsAt ?? null,
+        workflowTypes: input.workflowTypes ?? null,
+        maxAmount: input.maxAmount ?? null,
+        reason: input.reason ?? null,
+        createdBy: actor.id,
+      })
+      .returning();
+    return delegation;
+  }
+
+  async revokeDelegation(id: string, actor: DelegationActor, scope: PermissionScope): Promise<ApprovalDelegation> {
+    const [delegation] = await db
+      .select()
+      .from(approvalDelegations)
+      .where(and(eq(approvalDelegations.id, id), eq(approvalDelegations.organizationId, actor.organizationId!)));
+    if (!delegation || (scope !== 'organization' && delegation.delegatorId !== actor.id)) {
+      throw new LedgerError('Delegation not found', 404);
+    }
+
+    const [revoked] = await db
+      .update(approvalDelegations)
+      .set({ isActive: false, revokedAt: new Date() })
+      .where(eq(approvalDelegations.id, id))
+      .returning();
+    return revoked;
+  }
+
+  private async loadSeats(organizationId: string): Promise<Map<string, Set<string>>> {
+    const definitions = await db
+      .select({ type: workflowDefinitions.type, stages: workflowDefinitions.stages })
+      .from(workflowDefinitions)
+      .where(and(eq(workflowDefinitions.organizationId, organizationId), eq(workflowDefinitions.isActive, true)));
+    const rules = await db
+      .select({ type: workflowRules.type, approvalMatrix: workflowRules.approvalMatrix })
+      .from(workflowRules)
+      .where(and(eq(workflowRules.organizationId, organizationId), eq(workflowRules.isActive, true)));
+    return approverSeats(definitions, rules);
+  }
+
+  // Active rules and the users on approved leave right now, loaded once per organization
+  async loadRouting(organizationId: string, at = new Date()): Promise<{ rules: ApprovalDelegation[]; onLeave: Set<string> }> {
+    const rules = await db
+      .select()
+      .from(approvalDelegations)
+      .where(and(eq(approvalDelegations.organizationId, organizationId), eq(approvalDelegations.isActive, true)));
+    if (rules.length === 0) {
+      return { rules, onLeave: new Set() };
+    }
+
+    const absent = await db
+      .select({ userId: employees.userId })
+      .from(leaveRequests)
+      .innerJoin(employees, eq(leaveRequests.employeeId, employees.id))
+      .where(
+        and(
+          eq(employees.organizationId, organizationId),
+          eq(leaveRequests.status, 'approved'),
+          lte(leaveRequests.startDate, at),
+          gte(leaveRequests.endDate, at)
+        )
+      );
+    return { rules, onLeave: new Set(absent.flatMap((row) => (row.userId ? [row.userId] : []))) };
+  }
+
+  /**
+   * Reroute undecided approvals whose approver is away. The approver keeps their seat and can still
+   * act; the delegate can act on their behalf. Returns the approvals that were rerouted.
+   */
+  async routeApprovals(
+    workflow: Workflow,
+    approvals: WorkflowApproval[],
+    routing?: { rules: ApprovalDelegation[]; onLeave: Set<string> },
+    executor: DbExecutor = db
+  ): Promise<WorkflowApproval[]> {
+    const { rules, onLeave } = routing ?? (await this.loadRouting(workflow.organizationId));
+    if (rules.length === 0) return [];
+
+    const context = { type: workflow.type, amount: workflowAmount(workflow.data), at: new Date() };
+    const level = workflow.currentLevel || 1;
+    // The delegate must not be the requester or someone who already holds a seat or a delegated seat at
+    // this level; one person deciding two seats would satisfy a two-person group alone
+    const taken = new Set([workflow.initiatorId]);
+    approvals
+      .filter((approval) => approval.level === level)
+      .forEach((approval) => {
+        taken.add(approval.approverId);
+        if (approval.delegatedTo) taken.add(approval.delegatedTo);
+      });
+
+    const rerouted: WorkflowApproval[] = [];
+    for (const approval of approvals) {
+      // Only the stage waiting now; earlier stages are decided and later ones route when they open
+      if (approval.level !== level) continue;
+      if (approval.action || approval.delegatedTo) continue;
+
+      const resolved = resolveDelegate(approval.approverId, context, rules, onLeave, taken);
+      if (!resolved || taken.has(resolved.delegateId)) continue;
+      taken.add(resolved.delegateId);
+
+      const [updated] = await executor
+        .update(workflowApprovals)
+        .set({ delegatedTo: resolved.delegateId, delegatedAt: context.at })
+        .where(eq(workflowApprovals.id, approval.id))
+        .returning();
+      await executor.insert(auditLogs).values({
+        organizationId: workflow.organizationId,
+        userId: approval.approverId,
+        action: 'approval_delegated',
+        entityType: 'workflow',
+        entityId: workflow.id,
+        newValues: { delegatedTo: resolved.delegateId },
+        metadata: {
+          approvalId: approval.id,
+          level: approval.level,
+          delegationIds: resolved.chain.map((rule) => rule.id),
+          reason: resolved.chain[0].startsAt ? 'out_of_office' : 'on_leave',
+        },
+      });
+      rerouted.push(updated);
+    }
+    return rerouted;
+  }
+
+  // Audit trail for a delegate deciding approvals that belong to someone else
+  async recordActedOnBehalf(
+    workflow: Workflow,
+    actorId: string,
+    approvals: WorkflowApproval[],
+    action: string,
+    executor: DbExecutor = db
+  ) {
+    for (const approval of approvals) {
+      await executor.insert(auditLogs).values({
+        organizationId: workflow.organizationId,
+        userId: actorId,
+        action: 'approval_acted_on_behalf',
+        entityType: 'workflow',
+        entityId: workflow.id,
+        newValues: { action },
+        metadata: { approvalId: approval.id, level: approval.level, onBehalfOf: approval.approverId },
+      });
+    }
+  }
+}
+
+export const approvalDelegationService = new ApprovalDelegationService();
@@ -1,6 +1,11 @@
 // Audit and reporting services for government compliance
 
 import { BaseProvider, BaseProviderConfig } from './base-provider';
+import {
+  summarizeGASBFundStatements,
+  type FundBalanceSheet,
+  type GASBFundStatements,
+} from './fund-service';
 
 // DataSnipper for Automated Audit Documentation
 export interface DataSnipperConfig extends BaseProviderConfig {
@@ -243,13 +248,19 @@ export class WorkivaProvider extends BaseProvider {
     return 'workiva';
   }
 
-  async generateGASBReport(reportData: Record<string, any>): Promise<{ success: boolean; reportId?: string; status?: string; error?: string }> {
+  async generateGASBReport(reportData: Record<string, any> & { fundBalanceSheets?: FundBalanceSheet[] }): Promise<{ success: boolean; reportId?: string; status?: string; fundStatements?: GASBFundStatements; error?: string }> {
     this.logTransaction('generateGASBReport', { reportData });
 
+    // Fund-level balance sheets are rolled into the GASB 34 governmental, proprietary and fiduciary statements
+    const fundStatements = reportData.fundBalanceSheets
+      ? summarizeGASBFundStatements(reportData.fundBalanceSheets)
+      : undefined;
+
     return {
       success: true,
       reportId: `gasb_report_${Date.now()}`,
-      status: 'generating'
+      status: 'generating',
+      fundStatements
     };
   }
 
@@ -0,0 +1,70 @@
+import { db } from '../db';
+import {
+  organizationClosures,
+  type InsertOrganizationClosure,
+  type OrganizationClosure,
+} from '@shared/banking-calendar-schema';
+import { eq, and, gte, lt, asc } from 'drizzle-orm';
+import { LedgerError } from './ledger-service';
+import { BankingCalendar, federalReserveHolidays, toDateOnly } from './banking-calendar';
+
+export class BankingCalendarService {
+  async getClosures(organizationId: string, year?: number): Promise<OrganizationClosure[]> {
+    const conditions = [eq(organizationClosures.organizationId, organizationId)];
+    if (year !== undefined) {
+      conditions.push(
+        gte(organizationClosures.date, new Date(Date.UTC(year, 0, 1))),
+        lt(organizationClosures.date, new Date(Date.UTC(year + 1, 0, 1)))
+      );
+    }
+    return db
+      .select()
+      .from(organizationClosures)
+      .where(and(...conditions))
+      .orderBy(asc(organizationClosures.date));
+  }
+
+  async addClosure(input: InsertOrganizationClosure): Promise<OrganizationClosure> {
+    const date = toDateOnly(input.date);
+    const [existing] = await db
+      .select()
+      .from(organizationClosures)
+      .where(and(eq(organizationClosures.organizationId, input.organizationId), eq(organizationClosures.date, date)));
+    if (existing) {
+      throw new LedgerError(`${date.toISOString().slice(0, 10)} is already a closure day`, 409);
+    }
+
+    const [closure] = await db
+      .insert(organizationClosures)
+      .values({ ...input, date })
+      .returning();
+    return closure;
+  }
+
+  async removeClosure(id: string, organizationId: string): Promise<void> {
+    const deleted = await db
+      .delete(organizationClosures)
+      .where(and(eq(organizationClosures.id, id), eq(organizationClosures.organizationId, organizationId)))
+      .returning({ id: organizationClosures.id });
+    if (deleted.length === 0) {
+      throw new LedgerError('Closure day not found', 404);
+    }
+  }
+
+  /**
+   * The organization's calendar: Fed holidays plus its closure days
+   */
+  async forOrganization(organizationId: string): Promise<BankingCalendar> {
+    const closures = await this.getClosures(organizationId);
+    return new BankingCalendar(closures.map((closure) => closure.date));
+  }
+
+  async getYear(organizationId: string, year: number): Promise<{ holidays: Date[]; closures: OrganizationClosure[] }> {
+    return {
+      holidays: federalReserveHolidays(year),
+      closures: await this.getClosures(organizationId, year),
+    };
+  }
+}
+
+export const bankingCalendarService = new BankingCalendarService();
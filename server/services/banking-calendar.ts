@@ -0,0 +1,228 @@
+// Banking days: weekends and Federal Reserve holidays are closed, plus any closure days an
+// organization adds. All dates are handled as UTC calendar days (midnight UTC), the same way
+// ACH effective entry dates are.
+
+export const businessDayRolls = ['following', 'modified_following', 'preceding', 'none'] as const;
+export type BusinessDayRoll = (typeof businessDayRolls)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Office hours used to age work in hours rather than days
+export interface BusinessHours {
+  open: number; // local hour of day, 0-23
+  close: number;
+  timeZone: string; // IANA zone, e.g. America/New_York
+}
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = { open: 9, close: 17, timeZone: 'America/New_York' };
+
+export function toDateOnly(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(toDateOnly(date).getTime() + days * DAY_MS);
+}
+
+// The nth given weekday of a month (n = -1 for the last one)
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month, 1));
+    return new Date(Date.UTC(year, month, 1 + ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7));
+  }
+  const last = new Date(Date.UTC(year, month + 1, 0));
+  return new Date(Date.UTC(year, month, last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7)));
+}
+
+// How far the zone's wall clock is ahead of UTC at an instant
+function zoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find((candidate) => candidate.type === type)!.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The instant a local hour falls on a calendar day (given as UTC midnight)
+function localHour(day: Date, hour: number, timeZone: string): number {
+  const wallClock = day.getTime() + hour * HOUR_MS;
+  return wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+}
+
+/**
+ * Federal Reserve holidays observed in a year. A holiday on Sunday is observed the following
+ * Monday; one on Saturday is not moved, since the Fed stays open the Friday before.
+ */
+export function federalReserveHolidays(year: number): Date[] {
+  const fixed = [
+    Date.UTC(year, 0, 1), // New Year's Day
+    ...(year >= 2022 ? [Date.UTC(year, 5, 19)] : []), // Juneteenth
+    Date.UTC(year, 6, 4), // Independence Day
+    Date.UTC(year, 10, 11), // Veterans Day
+    Date.UTC(year, 11, 25), // Christmas Day
+  ].map((time) => {
+    const date = new Date(time);
+    return date.getUTCDay() === 0 ? addDays(date, 1) : date;
+  });
+
+  return [
+    ...fixed,
+    nthWeekday(year, 0, 1, 3), // Martin Luther King Jr. Day
+    nthWeekday(year, 1, 1, 3), // Washington's Birthday
+    nthWeekday(year, 4, 1, -1), // Memorial Day
+    nthWeekday(year, 8, 1, 1), // Labor Day
+    nthWeekday(year, 9, 1, 2), // Columbus Day
+    nthWeekday(year, 10, 4, 4), // Thanksgiving Day
+  ].sort((a, b) => a.getTime() - b.getTime());
+}
+
+const holidayCache = new Map<number, Set<number>>();
+
+export function isBankHoliday(date: Date): boolean {
+  const year = date.getUTCFullYear();
+  let holidays = holidayCache.get(year);
+  if (!holidays) {
+    holidays = new Set(federalReserveHolidays(year).map((holiday) => holiday.getTime()));
+    holidayCache.set(year, holidays);
+  }
+  return holidays.has(toDateOnly(date).getTime());
+}
+
+/**
+ * Business-day arithmetic over the Fed calendar and an optional set of extra closure days
+ * (an organization's own office closures).
+ */
+export class BankingCalendar {
+  private readonly closures: Set<number>;
+
+  constructor(closures: Date[] = []) {
+    this.closures = new Set(closures.map((date) => toDateOnly(date).getTime()));
+  }
+
+  isClosureDay(date: Date): boolean {
+    return this.closures.has(toDateOnly(date).getTime());
+  }
+
+  isBusinessDay(date: Date): boolean {
+    const day = date.getUTCDay();
+    return day !== 0 && day !== 6 && !isBankHoliday(date) && !this.isClosureDay(date);
+  }
+
+  // The date itself when it is a business day, otherwise the first one after it
+  nextBusinessDay(date: Date): Date {
+    let candidate = toDateOnly(date);
+    while (!this.isBusinessDay(candidate)) {
+      candidate = addDays(candidate, 1);
+    }
+    return candidate;
+  }
+
+  // The date itself when it is a business day, otherwise the last one before it
+  previousBusinessDay(date: Date): Date {
+    let candidate = toDateOnly(date);
+    while (!this.isBusinessDay(candidate)) {
+      candidate = addDays(candidate, -1);
+    }
+    return candidate;
+  }
+
+  /**
+   * Move a date that falls on a closed day. "modified_following" rolls forward unless that
+   * crosses into the next month, in which case it rolls back; "none" leaves the date as is.
+   */
+  rollToBusinessDay(date: Date, roll: BusinessDayRoll): Date {
+    const day = toDateOnly(date);
+    switch (roll) {
+      case 'none':
+        return day;
+      case 'preceding':
+        return this.previousBusinessDay(day);
+      case 'modified_following': {
+        const following = this.nextBusinessDay(day);
+        return following.getUTCMonth() === day.getUTCMonth() ? following : this.previousBusinessDay(day);
+      }
+      default:
+        return this.nextBusinessDay(day);
+    }
+  }
+
+  /**
+   * Step `days` business days forward (or back when negative), keeping the time of day.
+   * Friday plus one business day is Monday; Saturday plus one is also Monday.
+   */
+  addBusinessDays(date: Date, days: number): Date {
+    const step = days < 0 ? -1 : 1;
+    let result = new Date(date.getTime());
+    for (let remaining = Math.abs(days); remaining > 0; ) {
+      result = new Date(result.getTime() + step * DAY_MS);
+      if (this.isBusinessDay(result)) remaining -= 1;
+    }
+    return result;
+  }
+
+  // Business days after `start` up to and including `end`; negative when end is before start
+  businessDaysBetween(start: Date, end: Date): number {
+    const from = toDateOnly(start);
+    const to = toDateOnly(end);
+    if (to < from) return -this.businessDaysBetween(end, start);
+    let count = 0;
+    for (let day = addDays(from, 1); day <= to; day = addDays(day, 1)) {
+      if (this.isBusinessDay(day)) count += 1;
+    }
+    return count;
+  }
+
+  /**
+   * Open hours between two instants, counting only office hours on business days in the office's
+   * time zone, so nights, weekends and holidays don't age anything
+   */
+  businessHoursBetween(start: Date, end: Date, hours: BusinessHours = DEFAULT_BUSINESS_HOURS): number {
+    if (end <= start) return 0;
+    const localDay = (instant: Date) => toDateOnly(new Date(instant.getTime() + zoneOffsetMs(instant, hours.timeZone)));
+    const last = localDay(end);
+    let total = 0;
+    for (let day = localDay(start); day <= last; day = addDays(day, 1)) {
+      if (!this.isBusinessDay(day)) continue;
+      const open = Math.max(localHour(day, hours.open, hours.timeZone), start.getTime());
+      const close = Math.min(localHour(day, hours.close, hours.timeZone), end.getTime());
+      if (close > open) total += close - open;
+    }
+    return total / HOUR_MS;
+  }
+}
+
+// The Fed calendar with no organization closures, for callers without an organization
+export const federalReserveCalendar = new BankingCalendar();
+
+export function isBusinessDay(date: Date): boolean {
+  return federalReserveCalendar.isBusinessDay(date);
+}
+
+export function nextBusinessDay(date: Date): Date {
+  return federalReserveCalendar.nextBusinessDay(date);
+}
+
+export function previousBusinessDay(date: Date): Date {
+  return federalReserveCalendar.previousBusinessDay(date);
+}
+
+export function rollToBusinessDay(date: Date, roll: BusinessDayRoll): Date {
+  return federalReserveCalendar.rollToBusinessDay(date, roll);
+}
+
+export function addBusinessDays(date: Date, days: number): Date {
+  return federalReserveCalendar.addBusinessDays(date, days);
+}
+
+export function businessDaysBetween(start: Date, end: Date): number {
+  return federalReserveCalendar.businessDaysBetween(start, end);
+}
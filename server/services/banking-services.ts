@@ -1,6 +1,7 @@
 // Banking infrastructure services for ACH, Wire, and account management
 
 import { BaseProvider, BaseProviderConfig, TransferResult, ComplianceResult } from './base-provider';
+import { addBusinessDays } from './banking-calendar';
 
 // Modern Treasury Provider for treasury operations
 export interface ModernTreasuryConfig extends BaseProviderConfig {
@@ -33,7 +34,7 @@ export class ModernTreasuryProvider extends BaseProvider {
     type: 'standard' | 'same_day' | 'next_day'
   ): Promise<TransferResult> {
     // Modern Treasury ACH processing
-    const estimatedSettlement = new Date();
+    let estimatedSettlement = new Date();
     let fees = 0;
 
     switch (type) {
@@ -42,11 +43,11 @@ export class ModernTreasuryProvider extends BaseProvider {
         fees = 1.50;
         break;
       case 'next_day':
-        estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+        estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
         fees = 0.75;
         break;
       default:
-        estimatedSettlement.setDate(estimatedSettlement.getDate() + 3);
+        estimatedSettlement = addBusinessDays(estimatedSettlement, 3);
         fees = 0.25;
     }
 
@@ -68,11 +69,11 @@ export class ModernTreasuryProvider extends BaseProvider {
     toAccount: string, 
     type: 'domestic' | 'international'
   ): Promise<TransferResult> {
-    const estimatedSettlement = new Date();
+    let estimatedSettlement = new Date();
     let fees = 0;
 
     if (type === 'international') {
-      estimatedSettlement.setDate(estimatedSettlement.getDate() + 2);
+      estimatedSettlement = addBusinessDays(estimatedSettlement, 2);
       fees = 45.00;
     } else {
       estimatedSettlement.setHours(estimatedSettlement.getHours() + 2);
@@ -256,16 +257,16 @@ export class UnitProvider extends BaseProvider {
     toAccount: string, 
     type: 'standard' | 'same_day' | 'next_day'
   ): Promise<TransferResult> {
-    const estimatedSettlement = new Date();
+    let estimatedSettlement = new Date();
     switch (type) {
       case 'same_day':
         estimatedSettlement.setHours(estimatedSettlement.getHours() + 6);
         break;
       case 'next_day':
-        estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+        estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
         break;
       default:
-        estimatedSettlement.setDate(estimatedSettlement.getDate() + 3);
+        estimatedSettlement = addBusinessDays(estimatedSettlement, 3);
     }
 
     return {
@@ -324,7 +325,7 @@ export class DwollaProvider extends BaseProvider {
     toAccount: string, 
     type: 'standard' | 'same_day' | 'next_day'
   ): Promise<TransferResult> {
-    const estimatedSettlement = new Date();
+    let estimatedSettlement = new Date();
     let fees = 0;
 
     switch (type) {
@@ -333,11 +334,11 @@ export class DwollaProvider extends BaseProvider {
         fees = 8.00;
         break;
       case 'next_day':
-        estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+        estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
         fees = 5.00;
         break;
       default:
-        estimatedSettlement.setDate(estimatedSettlement.getDate() + 4);
+        estimatedSettlement = addBusinessDays(estimatedSettlement, 4);
         fees = 0.50;
     }
 
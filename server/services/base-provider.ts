@@ -30,6 +30,11 @@ export interface CardIssueResult extends PaymentResult {
   status?: 'active' | 'pending' | 'blocked';
 }
 
+// Per-call options passed through to the provider API
+export interface ProviderCallOptions {
+  idempotencyKey?: string; // forwarded so a retried request cannot move money twice at the provider
+}
+
 export interface ComplianceResult {
   success: boolean;
   riskScore?: number;
@@ -43,6 +48,9 @@ export interface ComplianceResult {
 export abstract class BaseProvider {
   protected config: BaseProviderConfig;
   protected isTestMode: boolean;
+  // Providers that forward ProviderCallOptions.idempotencyKey to their API set this; only their
+  // money-moving calls are safe to retry after a timeout
+  readonly supportsIdempotencyKeys: boolean = false;
 
   constructor(config: BaseProviderConfig) {
     this.config = config;
@@ -54,9 +62,9 @@ export abstract class BaseProvider {
   abstract getProviderName(): string;
   
   // Payment methods
-  abstract processPayment?(amount: number, currency: string, metadata?: Record<string, any>): Promise<PaymentResult>;
-  abstract processACH?(amount: number, fromAccount: string, toAccount: string, type: 'standard' | 'same_day' | 'next_day'): Promise<TransferResult>;
-  abstract processWire?(amount: number, fromAccount: string, toAccount: string, type: 'domestic' | 'international'): Promise<TransferResult>;
+  abstract processPayment?(amount: number, currency: string, metadata?: Record<string, any>, options?: ProviderCallOptions): Promise<PaymentResult>;
+  abstract processACH?(amount: number, fromAccount: string, toAccount: string, type: 'standard' | 'same_day' | 'next_day', options?: ProviderCallOptions): Promise<TransferResult>;
+  abstract processWire?(amount: number, fromAccount: string, toAccount: string, type: 'domestic' | 'international', options?: ProviderCallOptions): Promise<TransferResult>;
   abstract processInstantTransfer?(amount: number, fromAccount: string, toAccount: string): Promise<TransferResult>;
   
   // Card services
@@ -5,6 +5,15 @@ import {
 } from '@shared/schema';
 import { eq, inArray, and, sql } from 'drizzle-orm';
 import { paymentServiceManager } from './provider-factory';
+import { separationOfDutiesService, SeparationOfDutiesError } from './separation-of-duties';
+import {
+  fiscalPeriodService,
+  paymentAccountingDate,
+  expenseAccountingDate
+} from './fiscal-period-service';
+import { ledgerService } from './ledger-service';
+import { encumbranceService } from './encumbrance-service';
+import { fxService } from './fx-service';
 
 export interface BulkOperationResult {
   totalProcessed: number;
@@ -43,9 +52,12 @@ export interface BulkExpenseRequest {
 
 export class BulkOperationsService {
   /**
-   * Bulk approve or process payments
+   * Bulk approve or process payments. onProgress is called before each payment with the number already handled.
    */
-  async bulkProcessPayments(request: BulkPaymentRequest): Promise<BulkOperationResult> {
+  async bulkProcessPayments(
+    request: BulkPaymentRequest,
+    onProgress?: (handled: number, total: number) => Promise<void> | void
+  ): Promise<BulkOperationResult> {
     const startTime = Date.now();
     const result: BulkOperationResult = {
       totalProcessed: request.paymentIds.length,
@@ -58,7 +70,8 @@ export class BulkOperationsService {
     try {
       // Start transaction
       await db.transaction(async (tx) => {
-        for (const paymentId of request.paymentIds) {
+        for (const [index, paymentId] of request.paymentIds.entries()) {
+          await onProgress?.(index, request.paymentIds.length);
           try {
             const [payment] = await tx
               .select()
@@ -71,6 +84,25 @@ export class BulkOperationsService {
               continue;
             }
 
+            // Payments booked in a closed fiscal period cannot be changed
+            await fiscalPeriodService.assertDateOpen(payment.organizationId, paymentAccountingDate(payment), tx);
+
+            // Bulk runs cannot carry overrides, so payments that break a separation-of-duties rule are skipped
+            if ((request.action === 'approve' || request.action === 'process') && request.approvedBy) {
+              const violations = await separationOfDutiesService.check({
+                organizationId: payment.organizationId,
+                actorId: request.approvedBy,
+                action: request.action,
+                entityType: 'payment',
+                entityId: payment.id,
+                initiatorId: payment.createdBy,
+                vendorId: payment.vendorId
+              });
+              if (violations.length > 0) {
+                throw new SeparationOfDutiesError(violations);
+              }
+            }
+
             let newStatus: typeof payment.status = payment.status;
             
             switch (request.action) {
@@ -91,7 +123,8 @@ export class BulkOperationsService {
                     const paymentResult = await provider.processPayment(
                       parseFloat(payment.amount),
                       payment.currency || 'USD',
-                      { paymentId }
+                      { paymentId },
+                      { idempotencyKey: `payment:${paymentId}` }
                     );
                     
                     if (paymentResult.success) {
@@ -110,14 +143,19 @@ export class BulkOperationsService {
                 break;
             }
 
-            // Update payment status
-            await tx
-              .update(payments)
-              .set({ 
-                status: newStatus,
-                updatedAt: new Date()
-              })
-              .where(eq(payments.id, paymentId));
+            // Update payment status, with its ledger and encumbrance effects, as one savepoint
+            await tx.transaction(async (itemTx) => {
+              const [updated] = await itemTx
+                .update(payments)
+                .set({ 
+                  status: newStatus,
+                  updatedAt: new Date()
+                })
+                .where(eq(payments.id, paymentId))
+                .returning();
+              await encumbranceService.onPaymentStatusChange(payment, updated, itemTx);
+              await ledgerService.postPaymentStatusChange(payment, updated, request.approvedBy ?? updated.createdBy, itemTx);
+            });
 
             // Log audit trail
             await tx
@@ -205,7 +243,8 @@ export class BulkOperationsService {
                 category: vendorData.category || 'general',
                 status: 'active',
                 rating: 5,
-                totalSpent: '0'
+                totalSpent: '0',
+                createdBy: request.createdBy
               })
               .returning();
 
@@ -271,6 +310,9 @@ export class BulkOperationsService {
               continue;
             }
 
+            // Expenses dated in a closed fiscal period cannot be changed
+            await fiscalPeriodService.assertDateOpen(expense.organizationId, expenseAccountingDate(expense), tx);
+
             let newStatus: typeof expense.status = expense.status;
             
             switch (request.action) {
@@ -286,20 +328,32 @@ export class BulkOperationsService {
                 if (expense.status === 'approved') {
                   newStatus = 'reimbursed';
                   
-                  // Create reimbursement payment
-                  await tx
+                  // Create reimbursement payment through the same controls and ledger posting as storage.createPayment
+                  const reimbursement = {
+                    organizationId: expense.organizationId,
+                    type: 'expense' as const,
+                    amount: expense.amount,
+                    currency: expense.currency || 'USD',
+                    status: 'pending' as const,
+                    description: `Expense reimbursement for ${expense.description}`,
+                    createdBy: request.approvedBy || 'system'
+                  };
+                  const accountingDate = new Date();
+                  await fiscalPeriodService.assertDateOpen(expense.organizationId, accountingDate, tx);
+                  const fx = await fxService.toBase(
+                    expense.organizationId,
+                    reimbursement.amount,
+                    reimbursement.currency,
+                    accountingDate,
+                    tx
+                  );
+                  const reservation = await encumbranceService.reservePayment({ ...reimbursement, ...fx }, tx);
+                  const [payment] = await tx
                     .insert(payments)
-                    .values({
-                      organizationId: expense.organizationId,
-                      paymentNumber: `REIMB${Date.now()}`,
-                      type: 'expense',
-                      amount: expense.amount,
-                      currency: expense.currency || 'USD',
-                      status: 'pending',
-                      paymentDate: new Date(),
-                      description: `Expense reimbursement for ${expense.description}`,
-                      createdBy: request.approvedBy || 'system'
-                    });
+                    .values({ ...reimbursement, ...fx, budgetCategoryId: reservation.budgetCategoryId })
+                    .returning();
+                  await encumbranceService.liquidateForPayment(payment, reservation, tx);
+                  await ledgerService.postPayment(payment, tx);
                 }
                 break;
             }
@@ -378,6 +432,8 @@ export class BulkOperationsService {
       await db.transaction(async (tx) => {
         for (const txData of transactions) {
           try {
+            await fiscalPeriodService.assertDateOpen(organizationId, txData.date || new Date(), tx);
+
             await tx
               .insert(transactions)
               .values({
@@ -445,17 +501,65 @@ export class BulkOperationsService {
     };
 
     try {
-      const updateResult = await db
-        .update(payments)
-        .set({ 
-          status: newStatus,
-          updatedAt: new Date()
-        })
-        .where(inArray(payments.id, paymentIds))
-        .returning();
-
-      result.successful = updateResult.length;
-      result.failed = paymentIds.length - updateResult.length;
+      // Skip payments booked in a closed fiscal period
+      const existingPayments = await db
+        .select()
+        .from(payments)
+        .where(inArray(payments.id, paymentIds));
+
+      const sodAction = newStatus === 'approved' ? 'approve' : newStatus === 'completed' ? 'process' : null;
+      const updatable: Payment[] = [];
+      for (const payment of existingPayments) {
+        try {
+          await fiscalPeriodService.assertDateOpen(payment.organizationId, paymentAccountingDate(payment));
+          if (sodAction) {
+            const violations = await separationOfDutiesService.check({
+              organizationId: payment.organizationId,
+              actorId: updatedBy,
+              action: sodAction,
+              entityType: 'payment',
+              entityId: payment.id,
+              initiatorId: payment.createdBy,
+              vendorId: payment.vendorId
+            });
+            if (violations.length > 0) {
+              throw new SeparationOfDutiesError(violations);
+            }
+          }
+          updatable.push(payment);
+        } catch (error) {
+          result.errors.push({
+            id: payment.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      // One transaction per payment so its ledger and encumbrance effects land with the status
+      for (const payment of updatable) {
+        try {
+          await db.transaction(async (tx) => {
+            const [updated] = await tx
+              .update(payments)
+              .set({ 
+                status: newStatus,
+                updatedAt: new Date()
+              })
+              .where(eq(payments.id, payment.id))
+              .returning();
+            await encumbranceService.onPaymentStatusChange(payment, updated, tx);
+            await ledgerService.postPaymentStatusChange(payment, updated, updatedBy, tx);
+          });
+          result.successful++;
+        } catch (error) {
+          result.errors.push({
+            id: payment.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      result.failed = paymentIds.length - result.successful;
 
       // Log bulk update
       await db
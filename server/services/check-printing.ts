@@ -0,0 +1,175 @@
+// Check face rendering: amount in words, E-13B MICR line and a dependency-free PDF writer
+
+const ONES = [
+  '', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion'];
+
+// GnuMICR / E-13B glyph mapping: A transit, B amount, C on-us, D dash
+export const MICR_SYMBOLS = { transit: 'A', amount: 'B', onUs: 'C', dash: 'D' };
+
+export interface CheckFace {
+  checkNumber: number;
+  issueDate: Date;
+  payeeName: string;
+  payeeAddress: string | null;
+  amount: string;
+  memo: string | null;
+  reference: string | null; // payment description printed on the stubs
+  organizationName: string;
+  organizationAddress: string | null;
+  bankName: string;
+  routingNumber: string;
+  accountNumber: string;
+  signatureLine: string | null;
+}
+
+function hundredsToWords(value: number): string {
+  const words: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  if (hundreds > 0) words.push(`${ONES[hundreds]} hundred`);
+  if (rest >= 20) {
+    words.push(rest % 10 > 0 ? `${TENS[Math.floor(rest / 10)]}-${ONES[rest % 10]}` : TENS[Math.floor(rest / 10)]);
+  } else if (rest > 0) {
+    words.push(ONES[rest]);
+  }
+  return words.join(' ');
+}
+
+/**
+ * Legal amount line, e.g. "One thousand two hundred fifty and 50/100"
+ */
+export function amountInWords(amount: string | number): string {
+  const cents = Math.round(Number(amount) * 100);
+  if (!Number.isFinite(cents) || cents < 0) {
+    throw new Error(`Invalid check amount ${amount}`);
+  }
+  let dollars = Math.floor(cents / 100);
+  const groups: string[] = [];
+  for (let scale = 0; dollars > 0; scale += 1) {
+    const group = dollars % 1000;
+    if (group > 0) groups.unshift(`${hundredsToWords(group)}${SCALES[scale] ? ` ${SCALES[scale]}` : ''}`);
+    dollars = Math.floor(dollars / 1000);
+  }
+  const words = groups.length > 0 ? groups.join(' ') : 'zero';
+  return `${words.charAt(0).toUpperCase()}${words.slice(1)} and ${String(cents % 100).padStart(2, '0')}/100`;
+}
+
+export function formatCheckAmount(amount: string | number): string {
+  const [whole, fraction] = Number(amount).toFixed(2).split('.');
+  return `${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}.${fraction}`;
+}
+
+/**
+ * Business-check MICR line: on-us check number, transit routing number, then the account number
+ */
+export function micrLine(checkNumber: number, routingNumber: string, accountNumber: string): string {
+  const { transit, onUs } = MICR_SYMBOLS;
+  const account = accountNumber.replace(/[^0-9-]/g, '').replace(/-/g, MICR_SYMBOLS.dash);
+  return `${onUs}${String(checkNumber).padStart(6, '0')}${onUs} ${transit}${routingNumber}${transit} ${account}${onUs}`;
+}
+
+function pdfText(value: string): string {
+  return value.replace(/[^\x20-\x7E]/g, '').replace(/([\\()])/g, '\\$1');
+}
+
+function text(font: string, size: number, x: number, y: number, value: string): string {
+  return `BT /${font} ${size} Tf ${x} ${y} Td (${pdfText(value)}) Tj ET`;
+}
+
+function line(x1: number, y1: number, x2: number, y2: number): string {
+  return `${x1} ${y1} m ${x2} ${y2} l S`;
+}
+
+function formatDate(date: Date): string {
+  return `${String(date.getMonth() + 1).padStart(2, '0')}/${String(date.getDate()).padStart(2, '0')}/${date.getFullYear()}`;
+}
+
+// Voucher stub printed twice below the check: one for the payee, one for the file copy
+function stub(check: CheckFace, top: number, label: string): string[] {
+  return [
+    text('F2', 10, 36, top, `${check.organizationName} - ${label}`),
+    text('F1', 9, 36, top - 18, `Check No. ${check.checkNumber}`),
+    text('F1', 9, 160, top - 18, `Date ${formatDate(check.issueDate)}`),
+    text('F1', 9, 300, top - 18, `Pay to ${check.payeeName}`),
+    text('F2', 9, 480, top - 18, `$${formatCheckAmount(check.amount)}`),
+    ...(check.reference ? [text('F1', 9, 36, top - 34, check.reference.slice(0, 100))] : []),
+    ...(check.memo ? [text('F1', 9, 36, top - 48, `Memo: ${check.memo.slice(0, 90)}`)] : []),
+  ];
+}
+
+// One letter page: check face in the top 3.5 inches, MICR line in the clear band, two stubs below
+function checkPage(check: CheckFace): string {
+  const ops = [
+    text('F2', 12, 36, 756, check.organizationName),
+    ...(check.organizationAddress ?? '').split(/\r?\n/).slice(0, 2).map((row, index) => text('F1', 8, 36, 744 - index * 10, row)),
+    text('F1', 9, 300, 756, check.bankName),
+    text('F2', 12, 520, 756, String(check.checkNumber)),
+    text('F1', 9, 430, 712, 'DATE'),
+    text('F1', 11, 470, 712, formatDate(check.issueDate)),
+    text('F1', 8, 36, 682, 'PAY TO THE'),
+    text('F1', 8, 36, 674, 'ORDER OF'),
+    text('F2', 11, 90, 676, check.payeeName),
+    line(88, 672, 450, 672),
+    text('F2', 12, 470, 676, `$ **${formatCheckAmount(check.amount)}`),
+    text('F1', 10, 36, 650, `${amountInWords(check.amount)} ${'*'.repeat(10)} DOLLARS`),
+    line(36, 646, 576, 646),
+    ...(check.payeeAddress ?? '').split(/\r?\n/).slice(0, 3).map((row, index) => text('F1', 9, 60, 628 - index * 11, row)),
+    ...(check.memo ? [text('F1', 9, 36, 590, `MEMO ${check.memo.slice(0, 50)}`)] : []),
+    line(360, 590, 576, 590),
+    text('F1', 7, 400, 581, check.signatureLine ?? 'AUTHORIZED SIGNATURE'),
+    text('F3', 12, 150, 553, micrLine(check.checkNumber, check.routingNumber, check.accountNumber)),
+    line(0, 540, 612, 540),
+    ...stub(check, 510, 'Payee copy'),
+    line(0, 270, 612, 270),
+    ...stub(check, 240, 'File copy'),
+  ];
+  return ops.join('\n');
+}
+
+/**
+ * Render checks as a PDF, one check per page, with the MICR line set in the given E-13B font
+ */
+export function renderChecksPdf(checkFaces: CheckFace[], micrFontName = 'GnuMICR'): Buffer {
+  if (checkFaces.length === 0) {
+    throw new Error('No checks to render');
+  }
+
+  const fontName = micrFontName.replace(/[^A-Za-z0-9-]/g, '') || 'GnuMICR';
+  const objects: string[] = [];
+  const pageIds = checkFaces.map((_, index) => 6 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Type /Font /Subtype /Type1 /BaseFont /${fontName} >>`;
+
+  checkFaces.forEach((check, index) => {
+    const pageId = pageIds[index];
+    const content = checkPage(check);
+    objects[pageId] =
+      '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] ' +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
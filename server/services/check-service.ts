@@ -0,0 +1,476 @@
+import { db } from '../db';
+import {
+  bankAccounts,
+  organizations,
+  payments,
+  vendors,
+  type BankAccount,
+  type Payment,
+} from '@shared/schema';
+import {
+  checkStocks,
+  checks,
+  type Check,
+  type CheckStatus,
+  type CheckStock,
+  type InsertCheckStock,
+} from '@shared/check-schema';
+import { eq, and, or, inArray, isNull, desc, max } from 'drizzle-orm';
+import { LedgerError, ledgerService, toCents, type DbExecutor } from './ledger-service';
+import { encumbranceService } from './encumbrance-service';
+import { renderChecksPdf } from './check-printing';
+
+export type PositivePayFormat = 'csv' | 'fixed_width';
+
+export interface IssueCheckInput {
+  bankAccountId: string;
+  paymentId: string;
+  payeeName?: string;
+  payeeAddress?: string;
+  memo?: string;
+  issueDate?: Date;
+}
+
+// Checks that are still outstanding with the bank
+const LIVE_CHECK_STATUSES = ['issued', 'printed'] as const;
+
+function isLive(check: Pick<Check, 'status'>): boolean {
+  return LIVE_CHECK_STATUSES.some((status) => status === check.status);
+}
+
+function mmddyyyy(date: Date, separator = ''): string {
+  return [String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0'), String(date.getFullYear())].join(
+    separator
+  );
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function positivePayCode(check: Pick<Check, 'status'>): 'I' | 'V' {
+  return check.status === 'voided' || check.status === 'stopped' ? 'V' : 'I';
+}
+
+/**
+ * Positive pay issue file. CSV carries a header row; fixed-width uses 80-character
+ * D (detail) records followed by a T (trailer) record with the item count and total.
+ */
+export function buildPositivePayFile(
+  accountNumber: string,
+  items: Array<Pick<Check, 'checkNumber' | 'amount' | 'issueDate' | 'payeeName' | 'status'>>,
+  format: PositivePayFormat
+): string {
+  const account = accountNumber.replace(/\D/g, '');
+
+  if (format === 'csv') {
+    const rows = items.map((item) =>
+      [
+        account,
+        String(item.checkNumber),
+        mmddyyyy(item.issueDate, '/'),
+        Number(item.amount).toFixed(2),
+        csvField(item.payeeName),
+        positivePayCode(item),
+      ].join(',')
+    );
+    return `${['Account Number,Check Number,Issue Date,Amount,Payee,Status', ...rows].join('\r\n')}\r\n`;
+  }
+
+  const payee = (name: string) => name.toUpperCase().replace(/[^\x20-\x7E]/g, '').slice(0, 33).padEnd(33, ' ');
+  const details = items.map((item) =>
+    [
+      'D',
+      account.padStart(15, '0').slice(-15),
+      String(item.checkNumber).padStart(10, '0'),
+      String(toCents(item.amount)).padStart(12, '0'),
+      mmddyyyy(item.issueDate),
+      positivePayCode(item),
+      payee(item.payeeName),
+    ].join('')
+  );
+  const totalCents = items.reduce((sum, item) => sum + toCents(item.amount), 0);
+  const trailer = ['T', String(items.length).padStart(10, '0'), String(totalCents).padStart(15, '0')].join('').padEnd(80, ' ');
+  return `${[...details, trailer].join('\r\n')}\r\n`;
+}
+
+export class CheckService {
+  private async getBankAccount(bankAccountId: string, organizationId: string, executor: DbExecutor = db): Promise<BankAccount> {
+    const [account] = await executor
+      .select()
+      .from(bankAccounts)
+      .where(and(eq(bankAccounts.id, bankAccountId), eq(bankAccounts.organizationId, organizationId)));
+    if (!account) {
+      throw new LedgerError('Bank account not found', 404);
+    }
+    return account;
+  }
+
+  async getCheckStocks(bankAccountId: string, organizationId: string): Promise<CheckStock[]> {
+    await this.getBankAccount(bankAccountId, organizationId);
+    return await db
+      .select()
+      .from(checkStocks)
+      .where(eq(checkStocks.bankAccountId, bankAccountId))
+      .orderBy(desc(checkStocks.createdAt));
+  }
+
+  /**
+   * Load a new range of check stock; it replaces any active stock for the account
+   */
+  async createCheckStock(stock: InsertCheckStock): Promise<CheckStock> {
+    await this.getBankAccount(stock.bankAccountId, stock.organizationId);
+    if (stock.startingNumber < 1 || (stock.endingNumber != null && stock.endingNumber < stock.startingNumber)) {
+      throw new LedgerError('Check number range is invalid', 400);
+    }
+
+    return await db.transaction(async (tx) => {
+      const [{ highest }] = await tx
+        .select({ highest: max(checks.checkNumber) })
+        .from(checks)
+        .where(eq(checks.bankAccountId, stock.bankAccountId));
+      if (highest != null && stock.startingNumber <= highest) {
+        throw new LedgerError(`Check numbers must start after ${highest}, the last number used on this account`, 409);
+      }
+
+      await tx
+        .update(checkStocks)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(and(eq(checkStocks.bankAccountId, stock.bankAccountId), eq(checkStocks.isActive, true)));
+
+      const [created] = await tx
+        .insert(checkStocks)
+        .values({ ...stock, nextNumber: stock.startingNumber, isActive: true })
+        .returning();
+      return created;
+    });
+  }
+
+  // Take the next number from the account's active stock, locking it so numbers are never handed out twice
+  private async allocateCheckNumber(bankAccountId: string, executor: DbExecutor): Promise<{ stock: CheckStock; checkNumber: number }> {
+    const [stock] = await executor
+      .select()
+      .from(checkStocks)
+      .where(and(eq(checkStocks.bankAccountId, bankAccountId), eq(checkStocks.isActive, true)))
+      .for('update');
+    if (!stock) {
+      throw new LedgerError('No active check stock for this bank account', 409);
+    }
+    if (stock.endingNumber != null && stock.nextNumber > stock.endingNumber) {
+      throw new LedgerError(`Check stock "${stock.name}" is exhausted`, 409);
+    }
+
+    await executor
+      .update(checkStocks)
+      .set({ nextNumber: stock.nextNumber + 1, updatedAt: new Date() })
+      .where(eq(checkStocks.id, stock.id));
+    return { stock, checkNumber: stock.nextNumber };
+  }
+
+  private async setPaymentStatus(payment: Payment, status: Payment['status'], actorId: string, executor: DbExecutor): Promise<void> {
+    if (payment.status === status) return;
+    const [updated] = await executor
+      .update(payments)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(payments.id, payment.id))
+      .returning();
+    await encumbranceService.onPaymentStatusChange(payment, updated, executor);
+    await ledgerService.postPaymentStatusChange(payment, updated, actorId, executor);
+  }
+
+  async getChecks(organizationId: string, filters: { bankAccountId?: string; status?: CheckStatus } = {}): Promise<Check[]> {
+    const conditions = [eq(checks.organizationId, organizationId)];
+    if (filters.bankAccountId) conditions.push(eq(checks.bankAccountId, filters.bankAccountId));
+    if (filters.status) conditions.push(eq(checks.status, filters.status));
+    return await db
+      .select()
+      .from(checks)
+      .where(and(...conditions))
+      .orderBy(desc(checks.createdAt));
+  }
+
+  async getCheck(id: string, organizationId: string, executor: DbExecutor = db): Promise<Check> {
+    const [check] = await executor
+      .select()
+      .from(checks)
+      .where(and(eq(checks.id, id), eq(checks.organizationId, organizationId)));
+    if (!check) {
+      throw new LedgerError('Check not found', 404);
+    }
+    return check;
+  }
+
+  /**
+   * Issue a check for an approved payment and move the payment to processing
+   */
+  async issueCheck(organizationId: string, userId: string, input: IssueCheckInput): Promise<Check> {
+    return await db.transaction(async (tx) => {
+      await this.getBankAccount(input.bankAccountId, organizationId, tx);
+
+      const [payment] = await tx
+        .select()
+        .from(payments)
+        .where(and(eq(payments.id, input.paymentId), eq(payments.organizationId, organizationId)));
+      if (!payment) {
+        throw new LedgerError('Payment not found', 404);
+      }
+      if (payment.status !== 'approved') {
+        throw new LedgerError(`Payment is ${payment.status}; only approved payments can be paid by check`, 409);
+      }
+
+      const [outstanding] = await tx
+        .select({ checkNumber: checks.checkNumber })
+        .from(checks)
+        .where(and(eq(checks.paymentId, payment.id), inArray(checks.status, [...LIVE_CHECK_STATUSES])));
+      if (outstanding) {
+        throw new LedgerError(`Check ${outstanding.checkNumber} is already outstanding for this payment`, 409);
+      }
+
+      const [vendor] = payment.vendorId
+        ? await tx.select().from(vendors).where(eq(vendors.id, payment.vendorId))
+        : [];
+      const payeeName = input.payeeName ?? vendor?.name;
+      if (!payeeName) {
+        throw new LedgerError('Payee name is required for payments without a vendor', 400);
+      }
+
+      const { stock, checkNumber } = await this.allocateCheckNumber(input.bankAccountId, tx);
+      const [check] = await tx
+        .insert(checks)
+        .values({
+          organizationId,
+          bankAccountId: input.bankAccountId,
+          checkStockId: stock.id,
+          checkNumber,
+          paymentId: payment.id,
+          payeeName,
+          payeeAddress: input.payeeAddress ?? vendor?.address ?? null,
+          amount: payment.amount,
+          issueDate: input.issueDate ?? new Date(),
+          memo: input.memo ?? null,
+          createdBy: userId,
+        })
+        .returning();
+
+      await this.setPaymentStatus(payment, 'processing', userId, tx);
+      return check;
+    });
+  }
+
+  /**
+   * Render checks to a PDF and mark them printed; voided and stopped checks cannot be printed
+   */
+  async printChecks(ids: string[], organizationId: string): Promise<Buffer> {
+    const selected = await db
+      .select()
+      .from(checks)
+      .where(and(eq(checks.organizationId, organizationId), inArray(checks.id, ids)))
+      .orderBy(checks.checkNumber);
+    if (selected.length !== new Set(ids).size) {
+      throw new LedgerError('Check not found', 404);
+    }
+    const unprintable = selected.find((check) => !isLive(check));
+    if (unprintable) {
+      throw new LedgerError(`Check ${unprintable.checkNumber} is ${unprintable.status} and cannot be printed`, 409);
+    }
+    if (new Set(selected.map((check) => check.bankAccountId)).size > 1) {
+      throw new LedgerError('Checks printed together must draw on the same bank account', 400);
+    }
+
+    const account = await this.getBankAccount(selected[0].bankAccountId, organizationId);
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, organizationId));
+    const [stock] = await db.select().from(checkStocks).where(eq(checkStocks.id, selected[0].checkStockId));
+    const paymentRows = await db
+      .select({ id: payments.id, description: payments.description })
+      .from(payments)
+      .where(inArray(payments.id, selected.map((check) => check.paymentId!).filter(Boolean)));
+
+    const pdf = renderChecksPdf(
+      selected.map((check) => ({
+        checkNumber: check.checkNumber,
+        issueDate: check.issueDate,
+        payeeName: check.payeeName,
+        payeeAddress: check.payeeAddress,
+        amount: check.amount,
+        memo: check.memo,
+        reference: paymentRows.find((row) => row.id === check.paymentId)?.description ?? null,
+        organizationName: organization?.name ?? '',
+        organizationAddress: organization?.address ?? null,
+        bankName: account.bankName,
+        routingNumber: account.routingNumber,
+        accountNumber: account.accountNumber,
+        signatureLine: stock?.signatureLine ?? null,
+      })),
+      stock?.micrFontName ?? undefined
+    );
+
+    const printedAt = new Date();
+    for (const check of selected) {
+      await db
+        .update(checks)
+        .set({ status: 'printed', printCount: (check.printCount ?? 0) + 1, printedAt, updatedAt: printedAt })
+        .where(eq(checks.id, check.id));
+    }
+    return pdf;
+  }
+
+  /**
+   * Void an outstanding check; the payment returns to approved unless it is being reissued
+   */
+  async voidCheck(
+    id: string,
+    organizationId: string,
+    userId: string,
+    reason: string,
+    executor?: DbExecutor,
+    releasePayment = true
+  ): Promise<Check> {
+    const run = async (tx: DbExecutor) => {
+      const check = await this.getCheck(id, organizationId, tx);
+      if (!isLive(check)) {
+        throw new LedgerError(`Check ${check.checkNumber} is already ${check.status}`, 409);
+      }
+
+      const [voided] = await tx
+        .update(checks)
+        .set({ status: 'voided', voidedAt: new Date(), voidedBy: userId, voidReason: reason, updatedAt: new Date() })
+        .where(eq(checks.id, id))
+        .returning();
+      if (releasePayment) await this.releasePayment(check, userId, tx);
+      return voided;
+    };
+    return executor ? await run(executor) : await db.transaction(run);
+  }
+
+  /**
+   * Record a stop payment on a check that has already been released to the payee
+   */
+  async stopPayment(
+    id: string,
+    organizationId: string,
+    userId: string,
+    reason: string,
+    executor?: DbExecutor,
+    releasePayment = true
+  ): Promise<Check> {
+    const run = async (tx: DbExecutor) => {
+      const check = await this.getCheck(id, organizationId, tx);
+      if (!isLive(check)) {
+        throw new LedgerError(`Check ${check.checkNumber} is already ${check.status}`, 409);
+      }
+
+      const [stopped] = await tx
+        .update(checks)
+        .set({ status: 'stopped', stoppedAt: new Date(), stoppedBy: userId, stopReason: reason, updatedAt: new Date() })
+        .where(eq(checks.id, id))
+        .returning();
+      if (releasePayment) await this.releasePayment(check, userId, tx);
+      return stopped;
+    };
+    return executor ? await run(executor) : await db.transaction(run);
+  }
+
+  private async releasePayment(check: Check, userId: string, executor: DbExecutor): Promise<void> {
+    if (!check.paymentId) return;
+    const [payment] = await executor.select().from(payments).where(eq(payments.id, check.paymentId));
+    if (payment?.status === 'processing') {
+      await this.setPaymentStatus(payment, 'approved', userId, executor);
+    }
+  }
+
+  /**
+   * Replace a check with a new number: voids (or stops, once printed) the original and issues a copy
+   */
+  async reissueCheck(id: string, organizationId: string, userId: string, reason: string): Promise<Check> {
+    return await db.transaction(async (tx) => {
+      const original = await this.getCheck(id, organizationId, tx);
+
+      const [replacement] = await tx.select({ id: checks.id }).from(checks).where(eq(checks.reissuedFromId, id));
+      if (replacement) {
+        throw new LedgerError(`Check ${original.checkNumber} has already been reissued`, 409);
+      }
+
+      if (original.status === 'issued') {
+        await this.voidCheck(id, organizationId, userId, `Reissued: ${reason}`, tx, false);
+      } else if (original.status === 'printed') {
+        await this.stopPayment(id, organizationId, userId, `Reissued: ${reason}`, tx, false);
+      } else if (original.paymentId) {
+        // The original was already voided or stopped, which released the payment; take it back
+        const [payment] = await tx.select().from(payments).where(eq(payments.id, original.paymentId));
+        if (payment?.status !== 'approved') {
+          throw new LedgerError(`Payment is ${payment?.status}; it cannot be reissued by check`, 409);
+        }
+        await this.setPaymentStatus(payment, 'processing', userId, tx);
+      }
+
+      const { stock, checkNumber } = await this.allocateCheckNumber(original.bankAccountId, tx);
+      const [reissued] = await tx
+        .insert(checks)
+        .values({
+          organizationId,
+          bankAccountId: original.bankAccountId,
+          checkStockId: stock.id,
+          checkNumber,
+          paymentId: original.paymentId,
+          payeeName: original.payeeName,
+          payeeAddress: original.payeeAddress,
+          amount: original.amount,
+          issueDate: new Date(),
+          memo: original.memo,
+          reissuedFromId: original.id,
+          createdBy: userId,
+        })
+        .returning();
+      return reissued;
+    });
+  }
+
+  /**
+   * Positive pay issue file of checks (and voids) not yet sent to the bank
+   */
+  async exportPositivePay(
+    bankAccountId: string,
+    organizationId: string,
+    format: PositivePayFormat,
+    includeExported = false
+  ): Promise<{ content: string; fileName: string; mimeType: string; count: number }> {
+    const account = await this.getBankAccount(bankAccountId, organizationId);
+
+    const conditions = [eq(checks.bankAccountId, bankAccountId)];
+    if (!includeExported) {
+      conditions.push(
+        or(
+          isNull(checks.issueExportedAt),
+          and(inArray(checks.status, ['voided', 'stopped']), isNull(checks.voidExportedAt))
+        )!
+      );
+    }
+    const items = await db
+      .select()
+      .from(checks)
+      .where(and(...conditions))
+      .orderBy(checks.checkNumber);
+
+    const content = buildPositivePayFile(account.accountNumber, items, format);
+
+    const exportedAt = new Date();
+    for (const item of items) {
+      await db
+        .update(checks)
+        .set(positivePayCode(item) === 'V'
+          ? { voidExportedAt: exportedAt, issueExportedAt: item.issueExportedAt ?? exportedAt }
+          : { issueExportedAt: exportedAt })
+        .where(eq(checks.id, item.id));
+    }
+
+    const stamp = exportedAt.toISOString().slice(0, 10).replace(/-/g, '');
+    return {
+      content,
+      fileName: `positive-pay-${account.accountNumber.slice(-4)}-${stamp}.${format === 'csv' ? 'csv' : 'txt'}`,
+      mimeType: format === 'csv' ? 'text/csv' : 'text/plain',
+      count: items.length,
+    };
+  }
+}
+
+export const checkService = new CheckService();
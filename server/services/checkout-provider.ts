@@ -1,4 +1,5 @@
 import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, CardIssueResult, ComplianceResult } from './base-provider';
+import { addBusinessDays } from './banking-calendar';
 
 export interface CheckoutConfig extends BaseProviderConfig {
   publicKey: string;
@@ -95,11 +96,11 @@ export class CheckoutProvider extends BaseProvider {
   ): Promise<TransferResult> {
     try {
       const transferId = `cko_payout_${Date.now()}`;
-      const estimatedSettlement = new Date();
+      let estimatedSettlement = new Date();
       let fees = 2.95;
 
       if (type === 'bank_account') {
-        estimatedSettlement.setDate(estimatedSettlement.getDate() + 2);
+        estimatedSettlement = addBusinessDays(estimatedSettlement, 2);
         fees = 1.50;
       } else {
         estimatedSettlement.setHours(estimatedSettlement.getHours() + 2);
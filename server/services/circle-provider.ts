@@ -1,4 +1,5 @@
 import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, CardIssueResult, ComplianceResult } from './base-provider';
+import { addBusinessDays } from './banking-calendar';
 
 export interface CircleConfig extends BaseProviderConfig {
   apiKey: string;
@@ -55,6 +56,7 @@ export class CircleProvider extends BaseProvider {
     }
   }
 
+  // Treasury outflows go through DigitalAssetService, which applies whitelist, limit and approval policy
   async processUSDCPayment(amount: number, walletAddress: string, metadata?: Record<string, any>): Promise<PaymentResult> {
     try {
       const paymentId = `circle_usdc_${Date.now()}`;
@@ -89,11 +91,11 @@ export class CircleProvider extends BaseProvider {
   ): Promise<TransferResult> {
     try {
       const transferId = `circle_wire_${Date.now()}`;
-      const estimatedSettlement = new Date();
+      let estimatedSettlement = new Date();
       let fees = type === 'international' ? 25.00 : 10.00;
 
       if (type === 'international') {
-        estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+        estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
       } else {
         estimatedSettlement.setHours(estimatedSettlement.getHours() + 2);
       }
@@ -57,6 +57,7 @@ export class CoinbaseProvider extends BaseProvider {
     }
   }
 
+  // Treasury outflows go through DigitalAssetService, which applies whitelist, limit and approval policy
   async processCryptoPayment(
     amount: number,
     cryptocurrency: string,
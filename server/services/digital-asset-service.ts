@@ -0,0 +1,706 @@
+import { db } from '../db';
+import {
+  digitalAssetPolicies,
+  digitalAssetLimits,
+  digitalAssetAddresses,
+  digitalAssetTransfers,
+  digitalAssetLots,
+  type DigitalAssetPolicy,
+  type DigitalAssetLimit,
+  type DigitalAssetAddress,
+  type InsertDigitalAssetAddress,
+  type DigitalAssetTransfer,
+  type DigitalAssetTransferRequest,
+  type DigitalAssetLot,
+  type InsertDigitalAssetLot,
+} from '@shared/digital-asset-schema';
+import { workflows, workflowApprovals, workflowRules } from '@shared/workflow-schema';
+import { workflowDefinitionService, definitionApprovers } from './workflow-definitions';
+import { eq, and, gt, gte, asc, desc, inArray, notInArray } from 'drizzle-orm';
+import { LedgerError, toCents, fromCents } from './ledger-service';
+import { fxService } from './fx-service';
+import { serviceRegistry } from './service-registry';
+import { toDateOnly } from './banking-calendar';
+import type { ComplianceResult } from './base-provider';
+import { workflowService } from '../workflow-service';
+
+export const DEFAULT_DIGITAL_ASSET_POLICY = { coolingOffHours: 48, requiredApprovals: 2 };
+
+// Transfers that hold part of the daily limit and of the holdings until they finish
+const OPEN_TRANSFER_STATUSES = ['pending_approval', 'approved', 'executing'] as const;
+const UNIT_SCALE = 100_000_000;
+
+export interface LotAllocation {
+  lotId: string;
+  quantity: string;
+  cost: string;
+}
+
+export interface Holding {
+  asset: string;
+  quantity: string;
+  costBasis: string;
+  averageUnitCost: string | null;
+  lots: number;
+}
+
+export interface TransferRunSummary {
+  approved: number;
+  rejected: number;
+  completed: number;
+  failed: number;
+}
+
+// Asset quantities carry eight decimals; work in integer units of 1e-8
+export function toUnits(value: string | number | null | undefined): number {
+  if (value === null || value === undefined || value === '') return 0;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  if (Number.isNaN(parsed)) {
+    throw new LedgerError(`Invalid quantity: ${value}`, 400);
+  }
+  return Math.round(parsed * UNIT_SCALE);
+}
+
+export function fromUnits(units: number): string {
+  return (units / UNIT_SCALE).toFixed(8);
+}
+
+// Base-currency value of a quantity at a unit price, to the cent
+export function valueOf(quantity: string | number, unitPrice: string | number): string {
+  return fromCents(Math.round((toUnits(quantity) * Number(unitPrice) * 100) / UNIT_SCALE));
+}
+
+/**
+ * Consume lots oldest first. Lots must already be in acquisition order; any quantity the lots
+ * cannot cover is returned as the shortfall and carries no cost.
+ */
+export function allocateLots(
+  lots: Pick<DigitalAssetLot, 'id' | 'remainingQuantity' | 'unitCost'>[],
+  quantity: string | number
+): { allocations: LotAllocation[]; costBasis: string; shortfall: string } {
+  let needed = toUnits(quantity);
+  let costCents = 0;
+  const allocations: LotAllocation[] = [];
+  for (const lot of lots) {
+    if (needed <= 0) break;
+    const taken = Math.min(needed, toUnits(lot.remainingQuantity));
+    if (taken <= 0) continue;
+    const cost = valueOf(fromUnits(taken), lot.unitCost);
+    allocations.push({ lotId: lot.id, quantity: fromUnits(taken), cost });
+    costCents += toCents(cost);
+    needed -= taken;
+  }
+  return { allocations, costBasis: fromCents(costCents), shortfall: fromUnits(needed) };
+}
+
+export function isAddressAvailable(address: Pick<DigitalAssetAddress, 'status' | 'availableAt'>, now: Date): boolean {
+  return address.status === 'active' && address.availableAt.getTime() <= now.getTime();
+}
+
+// Approvals that count toward the policy: one per person who acted, never the requester's own. A delegate
+// deciding several seats is one approver, so the actor is actedBy when set, not the seat's approverId.
+export function countDistinctApprovers(
+  approvals: { approverId: string; actedBy?: string | null; action: string | null }[],
+  requestedBy: string
+): number {
+  return new Set(
+    approvals
+      .filter((approval) => approval.action === 'approve')
+      .map((approval) => approval.actedBy ?? approval.approverId)
+      .filter((actor) => actor !== requestedBy)
+  ).size;
+}
+
+// An address clears only if every compliance provider approved it
+export function screeningOutcome(results: Record<string, ComplianceResult>): { cleared: boolean; flags: string[] } {
+  const flags = Object.entries(results).flatMap(([provider, result]) =>
+    result.success && result.approved !== false && !result.requiresReview
+      ? []
+      : (result.flags?.length ? result.flags : [result.error ?? 'not_approved']).map((flag) => `${provider}:${flag}`)
+  );
+  return { cleared: flags.length === 0, flags };
+}
+
+export class DigitalAssetService {
+  async getPolicy(organizationId: string): Promise<Pick<DigitalAssetPolicy, 'organizationId' | 'coolingOffHours' | 'requiredApprovals'>> {
+    const [policy] = await db
+      .select()
+      .from(digitalAssetPolicies)
+      .where(eq(digitalAssetPolicies.organizationId, organizationId));
+    return policy ?? { organizationId, ...DEFAULT_DIGITAL_ASSET_POLICY };
+  }
+
+  async updatePolicy(
+    organizationId: string,
+    input: { coolingOffHours: number; requiredApprovals: number },
+    updatedBy: string
+  ): Promise<DigitalAssetPolicy> {
+    const [policy] = await db
+      .insert(digitalAssetPolicies)
+      .values({ organizationId, ...input, updatedBy })
+      .onConflictDoUpdate({
+        target: digitalAssetPolicies.organizationId,
+        set: { ...input, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return policy;
+  }
+
+  async getLimits(organizationId: string): Promise<DigitalAssetLimit[]> {
+    return db
+      .select()
+      .from(digitalAssetLimits)
+      .where(eq(digitalAssetLimits.organizationId, organizationId))
+      .orderBy(asc(digitalAssetLimits.asset));
+  }
+
+  async setLimit(organizationId: string, asset: string, dailyLimit: string, updatedBy: string): Promise<DigitalAssetLimit> {
+    const [limit] = await db
+      .insert(digitalAssetLimits)
+      .values({ organizationId, asset, dailyLimit, updatedBy })
+      .onConflictDoUpdate({
+        target: [digitalAssetLimits.organizationId, digitalAssetLimits.asset],
+        set: { dailyLimit, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return limit;
+  }
+
+  async getAddresses(organizationId: string): Promise<DigitalAssetAddress[]> {
+    return db
+      .select()
+      .from(digitalAssetAddresses)
+      .where(eq(digitalAssetAddresses.organizationId, organizationId))
+      .orderBy(desc(digitalAssetAddresses.createdAt));
+  }
+
+  /**
+   * Whitelist a destination. It is screened now and usable once the cooling-off period ends;
+   * an address a provider flags is kept as blocked so it cannot be added again quietly.
+   */
+  async addAddress(input: InsertDigitalAssetAddress): Promise<DigitalAssetAddress> {
+    const [existing] = await db
+      .select({ id: digitalAssetAddresses.id })
+      .from(digitalAssetAddresses)
+      .where(
+        and(
+          eq(digitalAssetAddresses.organizationId, input.organizationId),
+          eq(digitalAssetAddresses.asset, input.asset),
+          eq(digitalAssetAddresses.address, input.address)
+        )
+      );
+    if (existing) {
+      throw new LedgerError(`${input.address} is already on the ${input.asset} whitelist`, 409);
+    }
+
+    const policy = await this.getPolicy(input.organizationId);
+    const screening = await this.screen(input.organizationId, input);
+    const now = new Date();
+    const [address] = await db
+      .insert(digitalAssetAddresses)
+      .values({
+        ...input,
+        status: screening.cleared ? 'active' : 'blocked',
+        availableAt: new Date(now.getTime() + policy.coolingOffHours * 60 * 60 * 1000),
+        screening: screening.results,
+        screenedAt: now,
+      })
+      .returning();
+    return address;
+  }
+
+  async revokeAddress(id: string, organizationId: string, revokedBy: string): Promise<DigitalAssetAddress> {
+    const [address] = await db
+      .update(digitalAssetAddresses)
+      .set({ status: 'revoked', revokedBy, updatedAt: new Date() })
+      .where(and(eq(digitalAssetAddresses.id, id), eq(digitalAssetAddresses.organizationId, organizationId)))
+      .returning();
+    if (!address) {
+      throw new LedgerError('Address not found', 404);
+    }
+    return address;
+  }
+
+  /**
+   * Screen an address with every compliance provider the organization has configured
+   */
+  async screen(
+    organizationId: string,
+    address: Pick<DigitalAssetAddress, 'label' | 'asset' | 'address'> & { network?: string | null }
+  ): Promise<{ cleared: boolean; flags: string[]; results: Record<string, ComplianceResult> }> {
+    const providers = serviceRegistry.getOrganizationServices(organizationId).compliance;
+    if (providers.length === 0) {
+      throw new LedgerError('No compliance provider is configured to screen digital asset addresses', 422);
+    }
+
+    const results: Record<string, ComplianceResult> = {};
+    try {
+      for (const provider of providers) {
+        results[provider.getProviderName()] = await provider.checkSanctions(address.label, {
+          entityType: 'digital_asset_address',
+          address: address.address,
+          asset: address.asset,
+          network: address.network,
+        });
+      }
+    } catch (error) {
+      throw new LedgerError(`Address screening is unavailable: ${error instanceof Error ? error.message : error}`, 503);
+    }
+    return { ...screeningOutcome(results), results };
+  }
+
+  async getLots(organizationId: string, asset?: string): Promise<DigitalAssetLot[]> {
+    const conditions = [eq(digitalAssetLots.organizationId, organizationId)];
+    if (asset) conditions.push(eq(digitalAssetLots.asset, asset.toUpperCase()));
+    return db
+      .select()
+      .from(digitalAssetLots)
+      .where(and(...conditions))
+      .orderBy(asc(digitalAssetLots.asset), asc(digitalAssetLots.acquiredAt));
+  }
+
+  // Record an acquisition at its cost, e.g. a purchase or an inbound transfer
+  async recordLot(input: InsertDigitalAssetLot): Promise<DigitalAssetLot> {
+    const [lot] = await db
+      .insert(digitalAssetLots)
+      .values({ ...input, remainingQuantity: input.quantity })
+      .returning();
+    return lot;
+  }
+
+  // Quantity and remaining FIFO cost basis per asset
+  async getHoldings(organizationId: string): Promise<Holding[]> {
+    const lots = await db
+      .select()
+      .from(digitalAssetLots)
+      .where(and(eq(digitalAssetLots.organizationId, organizationId), gt(digitalAssetLots.remainingQuantity, '0')));
+
+    const holdings = new Map<string, { units: number; cents: number; lots: number }>();
+    for (const lot of lots) {
+      const holding = holdings.get(lot.asset) ?? { units: 0, cents: 0, lots: 0 };
+      holding.units += toUnits(lot.remainingQuantity);
+      holding.cents += toCents(valueOf(lot.remainingQuantity, lot.unitCost));
+      holding.lots += 1;
+      holdings.set(lot.asset, holding);
+    }
+    return Array.from(holdings.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([asset, { units, cents, lots }]) => ({
+        asset,
+        quantity: fromUnits(units),
+        costBasis: fromCents(cents),
+        averageUnitCost: units > 0 ? ((cents / 100) / (units / UNIT_SCALE)).toFixed(8) : null,
+        lots,
+      }));
+  }
+
+  async getTransfers(organizationId: string, status?: DigitalAssetTransfer['status']): Promise<DigitalAssetTransfer[]> {
+    const conditions = [eq(digitalAssetTransfers.organizationId, organizationId)];
+    if (status) conditions.push(eq(digitalAssetTransfers.status, status));
+    return db
+      .select()
+      .from(digitalAssetTransfers)
+      .where(and(...conditions))
+      .orderBy(desc(digitalAssetTransfers.createdAt))
+      .limit(200);
+  }
+
+  async getTransfer(id: string, organizationId: string): Promise<DigitalAssetTransfer> {
+    const [transfer] = await db
+      .select()
+      .from(digitalAssetTransfers)
+      .where(and(eq(digitalAssetTransfers.id, id), eq(digitalAssetTransfers.organizationId, organizationId)));
+    if (!transfer) {
+      throw new LedgerError('Transfer not found', 404);
+    }
+    return transfer;
+  }
+
+  /**
+   * Request a payment or conversion. Every policy check runs before anything is recorded,
+   * and the transfer waits for its approval workflow before the provider is called.
+   */
+  async requestTransfer(
+    organizationId: string,
+    requestedBy: string,
+    request: DigitalAssetTransferRequest
+  ): Promise<DigitalAssetTransfer> {
+    const now = new Date();
+    const policy = await this.getPolicy(organizationId);
+
+    let address: DigitalAssetAddress | undefined;
+    if (request.kind === 'payment') {
+      if (request.provider === 'circle' && request.asset !== 'USDC') {
+        throw new LedgerError('Circle only sends USDC', 400);
+      }
+      address = await this.requireAvailableAddress(organizationId, request.addressId, request.asset, now);
+      const screening = await this.screen(organizationId, address);
+      await db
+        .update(digitalAssetAddresses)
+        .set({
+          screening: screening.results,
+          screenedAt: now,
+          ...(screening.cleared ? {} : { status: 'blocked' as const }),
+          updatedAt: now,
+        })
+        .where(eq(digitalAssetAddresses.id, address.id));
+      if (!screening.cleared) {
+        throw new LedgerError(`Destination address failed screening (${screening.flags.join(', ')}) and has been blocked`, 422);
+      }
+    } else if (request.toAsset === request.asset) {
+      throw new LedgerError('A conversion needs two different assets', 400);
+    }
+
+    await this.assertWithinDailyLimit(organizationId, request.asset, request.amount, now);
+    await this.assertAvailableHoldings(organizationId, request.asset, request.amount);
+    // Fail now rather than after approval if the asset cannot be valued
+    const baseCurrency = await fxService.getBaseCurrency(organizationId);
+    const price = await fxService.requireRate(organizationId, request.asset, baseCurrency, now);
+    await this.assertApprovalRule(organizationId, policy.requiredApprovals, requestedBy);
+
+    const [transfer] = await db
+      .insert(digitalAssetTransfers)
+      .values({
+        organizationId,
+        kind: request.kind,
+        provider: request.provider,
+        asset: request.asset,
+        amount: request.amount,
+        toAsset: request.kind === 'conversion' ? request.toAsset : null,
+        addressId: address?.id ?? null,
+        description: request.description,
+        requestedBy,
+      })
+      .returning();
+
+    try {
+      const workflow = await workflowService.createWorkflow({
+        type: 'digital_asset_transfer',
+        entityId: transfer.id,
+        entityType: 'digital_asset_transfer',
+        organizationId,
+        initiatorId: requestedBy,
+        data: {
+          kind: transfer.kind,
+          asset: transfer.asset,
+          quantity: transfer.amount,
+          toAsset: transfer.toAsset,
+          address: address ? { label: address.label, address: address.address } : null,
+          estimatedValue: valueOf(transfer.amount, price),
+          baseCurrency,
+        },
+        priority: 'high',
+      });
+      const [updated] = await db
+        .update(digitalAssetTransfers)
+        .set({ workflowId: workflow.id, updatedAt: new Date() })
+        .where(eq(digitalAssetTransfers.id, transfer.id))
+        .returning();
+      return updated;
+    } catch (error) {
+      await db.delete(digitalAssetTransfers).where(eq(digitalAssetTransfers.id, transfer.id));
+      throw new LedgerError(`Could not open the approval workflow: ${error instanceof Error ? error.message : error}`, 422);
+    }
+  }
+
+  /**
+   * Move transfers whose workflows were decided, then execute approved ones.
+   * Pass a transfer id to process just that transfer.
+   */
+  async processTransfers(transferId?: string): Promise<TransferRunSummary> {
+    const summary: TransferRunSummary = { approved: 0, rejected: 0, completed: 0, failed: 0 };
+
+    const waiting = await db
+      .select({ transfer: digitalAssetTransfers, workflowStatus: workflows.status })
+      .from(digitalAssetTransfers)
+      .leftJoin(workflows, eq(workflows.id, digitalAssetTransfers.workflowId))
+      .where(
+        and(
+          eq(digitalAssetTransfers.status, 'pending_approval'),
+          ...(transferId ? [eq(digitalAssetTransfers.id, transferId)] : [])
+        )
+      );
+    for (const { transfer, workflowStatus } of waiting) {
+      if (workflowStatus === 'approved' || workflowStatus === 'completed') {
+        const outcome = await this.confirmApprovals(transfer);
+        summary[outcome] += 1;
+      } else if (workflowStatus === 'rejected' || workflowStatus === 'cancelled') {
+        await this.setStatus(transfer.id, 'pending_approval', { status: 'rejected', error: `Approval workflow ${workflowStatus}` });
+        summary.rejected += 1;
+      }
+    }
+
+    const approved = await db
+      .select()
+      .from(digitalAssetTransfers)
+      .where(
+        and(eq(digitalAssetTransfers.status, 'approved'), ...(transferId ? [eq(digitalAssetTransfers.id, transferId)] : []))
+      )
+      .orderBy(asc(digitalAssetTransfers.createdAt));
+    for (const transfer of approved) {
+      if (await this.execute(transfer)) {
+        summary.completed += 1;
+      } else {
+        summary.failed += 1;
+      }
+    }
+    return summary;
+  }
+
+  // Count approvals ourselves: a workflow rule edited after the request must not lower the bar
+  private async confirmApprovals(transfer: DigitalAssetTransfer): Promise<'approved' | 'rejected'> {
+    const policy = await this.getPolicy(transfer.organizationId);
+    const approvals = await db
+      .select({ approverId: workflowApprovals.approverId, actedBy: workflowApprovals.actedBy, action: workflowApprovals.action })
+      .from(workflowApprovals)
+      .where(eq(workflowApprovals.workflowId, transfer.workflowId!));
+    const approvers = countDistinctApprovers(approvals, transfer.requestedBy);
+    if (approvers < policy.requiredApprovals) {
+      await this.setStatus(transfer.id, 'pending_approval', {
+        status: 'rejected',
+        error: `Approved by ${approvers} of the ${policy.requiredApprovals} distinct approvers required`,
+      });
+      return 'rejected';
+    }
+    await this.setStatus(transfer.id, 'pending_approval', { status: 'approved' });
+    return 'approved';
+  }
+
+  private async execute(transfer: DigitalAssetTransfer): Promise<boolean> {
+    // Claim the transfer so concurrent runs cannot send it twice
+    const claimed = await this.setStatus(transfer.id, 'approved', { status: 'executing' });
+    if (!claimed) return false;
+
+    const now = new Date();
+    let result: any;
+    let error: string | null = null;
+    let price = 0;
+    try {
+      const baseCurrency = await fxService.getBaseCurrency(transfer.organizationId);
+      price = await fxService.requireRate(transfer.organizationId, transfer.asset, baseCurrency, now);
+      const provider: any = serviceRegistry.getService(transfer.organizationId, 'payment', transfer.provider);
+      if (!provider) {
+        throw new Error(`Payment provider ${transfer.provider} is not available`);
+      }
+
+      if (transfer.kind === 'payment') {
+        const address = await this.requireAvailableAddress(transfer.organizationId, transfer.addressId!, transfer.asset, now);
+        if (transfer.provider === 'circle') {
+          result = await provider.processUSDCPayment(Number(transfer.amount), address.address, { transferId: transfer.id });
+        } else {
+          // Coinbase takes the payment in dollars and buys the asset amount at its own price
+          const usdPrice = await fxService.requireRate(transfer.organizationId, transfer.asset, 'USD', now);
+          result = await provider.processCryptoPayment(
+            Number(transfer.amount) * usdPrice,
+            transfer.asset,
+            address.address
+          );
+        }
+        if (!result?.success) {
+          error = result?.error || 'Digital asset payment failed';
+        }
+      } else {
+        result = await provider.convertCrypto(Number(transfer.amount), transfer.asset, transfer.toAsset!);
+      }
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : 'Digital asset transfer failed';
+    }
+
+    if (error) {
+      await this.setStatus(transfer.id, 'executing', { status: 'failed', error, executedAt: now });
+      return false;
+    }
+
+    await db.transaction(async (tx) => {
+      const lots = await tx
+        .select()
+        .from(digitalAssetLots)
+        .where(
+          and(
+            eq(digitalAssetLots.organizationId, transfer.organizationId),
+            eq(digitalAssetLots.asset, transfer.asset),
+            gt(digitalAssetLots.remainingQuantity, '0')
+          )
+        )
+        .orderBy(asc(digitalAssetLots.acquiredAt), asc(digitalAssetLots.createdAt))
+        .for('update');
+      const { allocations, costBasis, shortfall } = allocateLots(lots, transfer.amount);
+      for (const allocation of allocations) {
+        const lot = lots.find((candidate) => candidate.id === allocation.lotId)!;
+        await tx
+          .update(digitalAssetLots)
+          .set({ remainingQuantity: fromUnits(toUnits(lot.remainingQuantity) - toUnits(allocation.quantity)) })
+          .where(eq(digitalAssetLots.id, lot.id));
+      }
+      if (toUnits(shortfall) > 0) {
+        console.warn(`Digital asset transfer ${transfer.id} exceeded recorded ${transfer.asset} lots by ${shortfall}; that part has no cost basis`);
+      }
+
+      const proceeds = valueOf(transfer.amount, price);
+      let receivedAmount: string | null = null;
+      if (transfer.kind === 'conversion') {
+        // The asset received takes the fair value given up as its cost
+        receivedAmount = fromUnits(toUnits(result.convertedAmount));
+        await tx.insert(digitalAssetLots).values({
+          organizationId: transfer.organizationId,
+          asset: transfer.toAsset!,
+          quantity: receivedAmount,
+          remainingQuantity: receivedAmount,
+          unitCost: toUnits(receivedAmount) > 0 ? (Number(proceeds) / Number(receivedAmount)).toFixed(8) : '0',
+          acquiredAt: now,
+          sourceTransferId: transfer.id,
+          notes: `Converted from ${transfer.amount} ${transfer.asset}`,
+          createdBy: transfer.requestedBy,
+        });
+      }
+
+      await tx
+        .update(digitalAssetTransfers)
+        .set({
+          status: 'completed',
+          price: price.toFixed(8),
+          proceeds,
+          costBasis,
+          realizedGainLoss: fromCents(toCents(proceeds) - toCents(costBasis)),
+          receivedAmount,
+          providerTransactionId: result?.providerTransactionId ?? result?.transactionId ?? null,
+          executedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(digitalAssetTransfers.id, transfer.id));
+    });
+    return true;
+  }
+
+  private async setStatus(
+    id: string,
+    from: DigitalAssetTransfer['status'],
+    values: Partial<Pick<DigitalAssetTransfer, 'status' | 'error' | 'executedAt'>>
+  ): Promise<DigitalAssetTransfer | undefined> {
+    const [transfer] = await db
+      .update(digitalAssetTransfers)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(digitalAssetTransfers.id, id), eq(digitalAssetTransfers.status, from)))
+      .returning();
+    return transfer;
+  }
+
+  private async requireAvailableAddress(organizationId: string, id: string, asset: string, now: Date): Promise<DigitalAssetAddress> {
+    const [address] = await db
+      .select()
+      .from(digitalAssetAddresses)
+      .where(and(eq(digitalAssetAddresses.id, id), eq(digitalAssetAddresses.organizationId, organizationId)));
+    if (!address) {
+      throw new LedgerError('Destination address is not on the whitelist', 422);
+    }
+    if (address.asset !== asset) {
+      throw new LedgerError(`Destination address is whitelisted for ${address.asset}, not ${asset}`, 422);
+    }
+    if (address.status !== 'active') {
+      throw new LedgerError(`Destination address is ${address.status}`, 422);
+    }
+    if (!isAddressAvailable(address, now)) {
+      throw new LedgerError(`Destination address is cooling off until ${address.availableAt.toISOString()}`, 422);
+    }
+    return address;
+  }
+
+  private async assertWithinDailyLimit(organizationId: string, asset: string, amount: string, now: Date): Promise<void> {
+    const [limit] = await db
+      .select()
+      .from(digitalAssetLimits)
+      .where(and(eq(digitalAssetLimits.organizationId, organizationId), eq(digitalAssetLimits.asset, asset)));
+    if (!limit) {
+      throw new LedgerError(`No daily limit is set for ${asset}`, 422);
+    }
+
+    const today = await db
+      .select({ amount: digitalAssetTransfers.amount })
+      .from(digitalAssetTransfers)
+      .where(
+        and(
+          eq(digitalAssetTransfers.organizationId, organizationId),
+          eq(digitalAssetTransfers.asset, asset),
+          notInArray(digitalAssetTransfers.status, ['rejected', 'failed']),
+          gte(digitalAssetTransfers.createdAt, toDateOnly(now))
+        )
+      );
+    const used = today.reduce((sum, row) => sum + toUnits(row.amount), 0);
+    if (used + toUnits(amount) > toUnits(limit.dailyLimit)) {
+      throw new LedgerError(
+        `Daily ${asset} limit of ${limit.dailyLimit} would be exceeded (${fromUnits(used)} already requested today)`,
+        422
+      );
+    }
+  }
+
+  private async assertAvailableHoldings(organizationId: string, asset: string, amount: string): Promise<void> {
+    const [lots, open] = await Promise.all([
+      db
+        .select({ quantity: digitalAssetLots.remainingQuantity })
+        .from(digitalAssetLots)
+        .where(and(eq(digitalAssetLots.organizationId, organizationId), eq(digitalAssetLots.asset, asset))),
+      db
+        .select({ amount: digitalAssetTransfers.amount })
+        .from(digitalAssetTransfers)
+        .where(
+          and(
+            eq(digitalAssetTransfers.organizationId, organizationId),
+            eq(digitalAssetTransfers.asset, asset),
+            inArray(digitalAssetTransfers.status, [...OPEN_TRANSFER_STATUSES])
+          )
+        ),
+    ]);
+    const available =
+      lots.reduce((sum, lot) => sum + toUnits(lot.quantity), 0) - open.reduce((sum, row) => sum + toUnits(row.amount), 0);
+    if (available < toUnits(amount)) {
+      throw new LedgerError(`Only ${fromUnits(Math.max(available, 0))} ${asset} is available to send`, 422);
+    }
+  }
+
+  // The organization's workflow definition or rule must be able to collect the approvals the policy demands
+  private async assertApprovalRule(organizationId: string, requiredApprovals: number, requestedBy: string): Promise<void> {
+    const definition = await workflowDefinitionService.getActive(organizationId, 'digital_asset_transfer');
+    if (definition) {
+      if (definition.autoApproveBelow) {
+        throw new LedgerError('Digital asset transfers cannot be auto-approved; remove the definition threshold', 422);
+      }
+      const approvers = definitionApprovers(definition.stages).filter((id) => id !== requestedBy);
+      if (approvers.length < requiredApprovals) {
+        throw new LedgerError(
+          `The digital_asset_transfer workflow definition names ${approvers.length} approvers besides the requester; policy requires ${requiredApprovals}`,
+          422
+        );
+      }
+      return;
+    }
+
+    const [rule] = await db
+      .select()
+      .from(workflowRules)
+      .where(
+        and(
+          eq(workflowRules.organizationId, organizationId),
+          eq(workflowRules.type, 'digital_asset_transfer'),
+          eq(workflowRules.isActive, true)
+        )
+      )
+      .limit(1);
+    if (!rule) {
+      throw new LedgerError('Set up a digital_asset_transfer workflow rule before moving digital assets', 422);
+    }
+    if (rule.autoApproveBelow) {
+      throw new LedgerError('Digital asset transfers cannot be auto-approved; remove the rule threshold', 422);
+    }
+    const levels: { approvers?: string[] }[] = (rule.approvalMatrix as any)?.levels ?? [];
+    const approvers = new Set(levels.flatMap((level) => level.approvers ?? []).filter((id) => id !== requestedBy));
+    if (approvers.size < requiredApprovals) {
+      throw new LedgerError(
+        `The digital_asset_transfer workflow rule names ${approvers.size} approvers besides the requester; policy requires ${requiredApprovals}`,
+        422
+      );
+    }
+  }
+}
+
+export const digitalAssetService = new DigitalAssetService();
@@ -1,4 +1,5 @@
 import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, ComplianceResult } from './base-provider';
+import { addBusinessDays } from './banking-calendar';
 
 export interface DwollaConfig extends BaseProviderConfig {
   key: string;
@@ -65,7 +66,7 @@ export class DwollaProvider extends BaseProvider {
   ): Promise<TransferResult> {
     try {
       const transferId = `dwolla_ach_${Date.now()}`;
-      const estimatedSettlement = new Date();
+      let estimatedSettlement = new Date();
       let fees = 0.25; // Dwolla's low ACH fee
 
       switch (type) {
@@ -74,11 +75,11 @@ export class DwollaProvider extends BaseProvider {
           fees = 1.0;
           break;
         case 'next_day':
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
           fees = 0.5;
           break;
         default:
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 2);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 2);
       }
 
       this.logTransaction('processACH', { amount, type, fromAccount, toAccount });
@@ -0,0 +1,583 @@
+import { db } from '../db';
+import {
+  budgets,
+  budgetCategories,
+  payments,
+  expenses,
+  purchaseRequisitions,
+  purchaseOrders,
+  contracts,
+  type BudgetCategory,
+  type Payment,
+  type InsertPayment,
+  type Expense,
+  type InsertExpense,
+} from '@shared/schema';
+import {
+  encumbrances,
+  encumbranceLiquidations,
+  type Encumbrance,
+  type EncumbranceSourceType,
+} from '@shared/encumbrance-schema';
+import { eq, and, inArray, notInArray, isNull, desc, sql } from 'drizzle-orm';
+import { LedgerError, toCents, fromCents, type DbExecutor } from './ledger-service';
+
+export interface BudgetLineBalance {
+  budgetCategoryId: string;
+  name: string;
+  appropriation: string;
+  preEncumbered: string;
+  encumbered: string;
+  expended: string;
+  available: string;
+}
+
+// What a payment or expense charges its budget line, in the organization's base currency
+export interface BudgetCharge {
+  budgetCategoryId: string | null;
+  amount: string;
+  voided: boolean;
+}
+
+export interface PaymentReservation {
+  budgetCategoryId: string | null;
+  encumbrance?: Encumbrance;
+  liquidation: string;
+}
+
+// Payment and expense statuses that no longer consume budget
+const VOID_PAYMENT_STATUSES = ['failed', 'cancelled', 'returned'] as const;
+const VOID_EXPENSE_STATUSES = ['rejected'] as const;
+
+// Source statuses that can no longer be encumbered
+const CLOSED_SOURCE_STATUSES: Record<EncumbranceSourceType, string[]> = {
+  purchase_requisition: ['draft', 'rejected'],
+  purchase_order: ['cancelled', 'rejected'],
+  contract: ['expired', 'terminated', 'rejected'],
+};
+
+// Rows booked before base amounts were recorded are in the base currency
+const baseChargeOf = (row: { amount: string; baseAmount?: string | null }) => row.baseAmount ?? row.amount;
+
+export function remainingEncumbrance(encumbrance: Pick<Encumbrance, 'amount' | 'liquidatedAmount'>): number {
+  return Math.max(toCents(encumbrance.amount) - toCents(encumbrance.liquidatedAmount), 0);
+}
+
+// Available balance of a budget line: appropriation - (pre-)encumbrances - expenditures
+export function summarizeBudgetLine(
+  category: Pick<BudgetCategory, 'id' | 'name' | 'allocatedAmount'>,
+  openEncumbrances: Array<Pick<Encumbrance, 'type' | 'amount' | 'liquidatedAmount'>>,
+  expended: string | null
+): BudgetLineBalance {
+  let preEncumbered = 0;
+  let encumbered = 0;
+  openEncumbrances.forEach((encumbrance) => {
+    if (encumbrance.type === 'pre_encumbrance') preEncumbered += remainingEncumbrance(encumbrance);
+    else encumbered += remainingEncumbrance(encumbrance);
+  });
+
+  const appropriation = toCents(category.allocatedAmount);
+  const expendedCents = toCents(expended);
+
+  return {
+    budgetCategoryId: category.id,
+    name: category.name,
+    appropriation: fromCents(appropriation),
+    preEncumbered: fromCents(preEncumbered),
+    encumbered: fromCents(encumbered),
+    expended: fromCents(expendedCents),
+    available: fromCents(appropriation - preEncumbered - encumbered - expendedCents),
+  };
+}
+
+// Extra an edited charge takes from its budget line: the increase, or all of it when it moved lines or left void
+export function chargeIncrease(before: BudgetCharge, after: BudgetCharge): string {
+  if (after.voided || !after.budgetCategoryId) return '0';
+  const previous = !before.voided && before.budgetCategoryId === after.budgetCategoryId ? toCents(before.amount) : 0;
+  return fromCents(Math.max(toCents(after.amount) - previous, 0));
+}
+
+// Reject a charge that would take the line negative; relief is the part of the charge covered by
+// the charge's own encumbrance, which is already counted against the line
+export function assertFundsAvailable(balance: BudgetLineBalance, amount: string, relief: string = '0'): void {
+  const shortfall = toCents(amount) - toCents(relief) - toCents(balance.available);
+  if (shortfall > 0) {
+    throw new LedgerError(
+      `Insufficient budget on ${balance.name}: ${balance.available} available, ${fromCents(toCents(amount) - toCents(relief))} required`,
+      422
+    );
+  }
+}
+
+export class EncumbranceService {
+  /**
+   * Appropriation, commitments and spending of one budget line; lock serializes concurrent checks
+   */
+  async getBudgetLineBalance(
+    budgetCategoryId: string,
+    executor: DbExecutor = db,
+    options: { lock?: boolean } = {}
+  ): Promise<BudgetLineBalance & { organizationId: string }> {
+    const query = executor
+      .select({ category: budgetCategories, organizationId: budgets.organizationId })
+      .from(budgetCategories)
+      .innerJoin(budgets, eq(budgetCategories.budgetId, budgets.id))
+      .where(eq(budgetCategories.id, budgetCategoryId));
+    const [row] = options.lock ? await query.for('update', { of: budgetCategories }) : await query;
+    if (!row) {
+      throw new LedgerError('Budget category not found', 404);
+    }
+
+    const openEncumbrances = await executor
+      .select()
+      .from(encumbrances)
+      .where(and(eq(encumbrances.budgetCategoryId, budgetCategoryId), eq(encumbrances.status, 'open')));
+
+    const [paid] = await executor
+      .select({ total: sql<string>`coalesce(sum(coalesce(${payments.baseAmount}, ${payments.amount})), 0)` })
+      .from(payments)
+      .where(
+        and(
+          eq(payments.budgetCategoryId, budgetCategoryId),
+          notInArray(payments.status, [...VOID_PAYMENT_STATUSES])
+        )
+      );
+    const [claimed] = await executor
+      .select({ total: sql<string>`coalesce(sum(coalesce(${expenses.baseAmount}, ${expenses.amount})), 0)` })
+      .from(expenses)
+      .where(
+        and(
+          eq(expenses.budgetCategoryId, budgetCategoryId),
+          notInArray(expenses.status, [...VOID_EXPENSE_STATUSES])
+        )
+      );
+
+    return {
+      ...summarizeBudgetLine(row.category, openEncumbrances, fromCents(toCents(paid?.total) + toCents(claimed?.total))),
+      organizationId: row.organizationId,
+    };
+  }
+
+  /**
+   * Available balances for every line of a budget
+   */
+  async getBudgetBalances(budgetId: string, organizationId: string): Promise<BudgetLineBalance[]> {
+    const [budget] = await db
+      .select()
+      .from(budgets)
+      .where(and(eq(budgets.id, budgetId), eq(budgets.organizationId, organizationId)));
+    if (!budget) {
+      throw new LedgerError('Budget not found', 404);
+    }
+
+    const categories = await db
+      .select()
+      .from(budgetCategories)
+      .where(eq(budgetCategories.budgetId, budgetId));
+
+    const balances: BudgetLineBalance[] = [];
+    for (const category of categories) {
+      const { organizationId: _organizationId, ...balance } = await this.getBudgetLineBalance(category.id);
+      balances.push(balance);
+    }
+    return balances;
+  }
+
+  /**
+   * Reject a charge against a budget line that would leave it negative
+   */
+  async assertAvailable(
+    organizationId: string,
+    budgetCategoryId: string,
+    amount: string,
+    executor: DbExecutor = db,
+    relief: string = '0'
+  ): Promise<void> {
+    const balance = await this.getBudgetLineBalance(budgetCategoryId, executor, { lock: true });
+    if (balance.organizationId !== organizationId) {
+      throw new LedgerError('Budget category not found', 404);
+    }
+    assertFundsAvailable(balance, amount, relief);
+  }
+
+  async getEncumbrances(
+    organizationId: string,
+    filters: { status?: Encumbrance['status']; budgetCategoryId?: string } = {}
+  ): Promise<Encumbrance[]> {
+    const conditions = [eq(encumbrances.organizationId, organizationId)];
+    if (filters.status) conditions.push(eq(encumbrances.status, filters.status));
+    if (filters.budgetCategoryId) conditions.push(eq(encumbrances.budgetCategoryId, filters.budgetCategoryId));
+
+    return await db
+      .select()
+      .from(encumbrances)
+      .where(and(...conditions))
+      .orderBy(desc(encumbrances.createdAt));
+  }
+
+  async getOpenEncumbrance(
+    organizationId: string,
+    sourceType: EncumbranceSourceType,
+    sourceId: string,
+    executor: DbExecutor = db,
+    options: { lock?: boolean } = {}
+  ): Promise<Encumbrance | undefined> {
+    const query = executor
+      .select()
+      .from(encumbrances)
+      .where(
+        and(
+          eq(encumbrances.organizationId, organizationId),
+          eq(encumbrances.sourceType, sourceType),
+          eq(encumbrances.sourceId, sourceId),
+          eq(encumbrances.status, 'open')
+        )
+      );
+    const [encumbrance] = options.lock ? await query.for('update') : await query;
+    return encumbrance;
+  }
+
+  /**
+   * Pre-encumber a requisition's estimated cost against its budget line
+   */
+  async encumberRequisition(id: string, organizationId: string, userId: string): Promise<Encumbrance> {
+    const [requisition] = await db
+      .select()
+      .from(purchaseRequisitions)
+      .where(and(eq(purchaseRequisitions.id, id), eq(purchaseRequisitions.organizationId, organizationId)));
+    if (!requisition) {
+      throw new LedgerError('Purchase requisition not found', 404);
+    }
+
+    return await this.createEncumbrance({
+      organizationId,
+      type: 'pre_encumbrance',
+      sourceType: 'purchase_requisition',
+      sourceId: requisition.id,
+      sourceStatus: requisition.status,
+      budgetCategoryId: requisition.budgetCategoryId,
+      amount: requisition.estimatedCost,
+      createdBy: userId,
+    });
+  }
+
+  /**
+   * Encumber a purchase order's total, converting its requisition's pre-encumbrance
+   */
+  async encumberPurchaseOrder(id: string, organizationId: string, userId: string): Promise<Encumbrance> {
+    const [order] = await db
+      .select()
+      .from(purchaseOrders)
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.organizationId, organizationId)));
+    if (!order) {
+      throw new LedgerError('Purchase order not found', 404);
+    }
+
+    const preEncumbrance = order.requisitionId
+      ? await this.getOpenEncumbrance(organizationId, 'purchase_requisition', order.requisitionId)
+      : undefined;
+
+    return await this.createEncumbrance({
+      organizationId,
+      type: 'encumbrance',
+      sourceType: 'purchase_order',
+      sourceId: order.id,
+      sourceStatus: order.status,
+      budgetCategoryId: order.budgetCategoryId ?? preEncumbrance?.budgetCategoryId ?? null,
+      amount: order.totalAmount,
+      createdBy: userId,
+      preEncumbrance,
+    });
+  }
+
+  /**
+   * Encumber a contract's total value
+   */
+  async encumberContract(id: string, organizationId: string, userId: string): Promise<Encumbrance> {
+    const [contract] = await db
+      .select()
+      .from(contracts)
+      .where(and(eq(contracts.id, id), eq(contracts.organizationId, organizationId)));
+    if (!contract) {
+      throw new LedgerError('Contract not found', 404);
+    }
+
+    return await this.createEncumbrance({
+      organizationId,
+      type: 'encumbrance',
+      sourceType: 'contract',
+      sourceId: contract.id,
+      sourceStatus: contract.status,
+      budgetCategoryId: contract.budgetCategoryId,
+      amount: contract.totalValue,
+      createdBy: userId,
+    });
+  }
+
+  private async createEncumbrance(input: {
+    organizationId: string;
+    type: Encumbrance['type'];
+    sourceType: EncumbranceSourceType;
+    sourceId: string;
+    sourceStatus: string;
+    budgetCategoryId: string | null;
+    amount: string | null;
+    createdBy: string;
+    preEncumbrance?: Encumbrance;
+  }): Promise<Encumbrance> {
+    if (!input.budgetCategoryId) {
+      throw new LedgerError('A budget category is required to encumber funds', 400);
+    }
+    if (toCents(input.amount) <= 0) {
+      throw new LedgerError('Encumbrance amount must be positive', 400);
+    }
+    if (CLOSED_SOURCE_STATUSES[input.sourceType].includes(input.sourceStatus)) {
+      throw new LedgerError(`Cannot encumber a ${input.sourceType.replace('_', ' ')} in ${input.sourceStatus} status`, 409);
+    }
+
+    const budgetCategoryId = input.budgetCategoryId;
+    const amount = fromCents(toCents(input.amount));
+
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(encumbrances)
+        .where(and(eq(encumbrances.sourceType, input.sourceType), eq(encumbrances.sourceId, input.sourceId)));
+      if (existing) {
+        throw new LedgerError(`Funds are already encumbered for this ${input.sourceType.replace('_', ' ')}`, 409);
+      }
+
+      // A converted pre-encumbrance frees its remaining amount on the same line
+      const relief = input.preEncumbrance?.budgetCategoryId === budgetCategoryId
+        ? fromCents(Math.min(remainingEncumbrance(input.preEncumbrance), toCents(amount)))
+        : '0';
+      await this.assertAvailable(input.organizationId, budgetCategoryId, amount, tx, relief);
+
+      const [created] = await tx
+        .insert(encumbrances)
+        .values({
+          organizationId: input.organizationId,
+          budgetCategoryId,
+          type: input.type,
+          sourceType: input.sourceType,
+          sourceId: input.sourceId,
+          amount,
+          createdBy: input.createdBy,
+        })
+        .returning();
+
+      if (input.preEncumbrance) {
+        await tx
+          .update(encumbrances)
+          .set({ status: 'converted', convertedToId: created.id, closedAt: new Date(), updatedAt: new Date() })
+          .where(eq(encumbrances.id, input.preEncumbrance.id));
+      }
+
+      return created;
+    });
+  }
+
+  /**
+   * Release the unliquidated balance of an open (pre-)encumbrance back to the budget line
+   */
+  async releaseEncumbrance(id: string, organizationId: string): Promise<Encumbrance> {
+    const [released] = await db
+      .update(encumbrances)
+      .set({ status: 'released', closedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(encumbrances.id, id),
+          eq(encumbrances.organizationId, organizationId),
+          eq(encumbrances.status, 'open')
+        )
+      )
+      .returning();
+    if (!released) {
+      throw new LedgerError('Open encumbrance not found', 404);
+    }
+    return released;
+  }
+
+  /**
+   * Release whatever a source still has open once it can no longer be spent against, e.g. on rejection
+   */
+  async releaseForSource(
+    organizationId: string,
+    sourceType: EncumbranceSourceType,
+    sourceId: string,
+    executor: DbExecutor = db
+  ): Promise<Encumbrance | undefined> {
+    const [released] = await executor
+      .update(encumbrances)
+      .set({ status: 'released', closedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(encumbrances.organizationId, organizationId),
+          eq(encumbrances.sourceType, sourceType),
+          eq(encumbrances.sourceId, sourceId),
+          eq(encumbrances.status, 'open')
+        )
+      )
+      .returning();
+    return released;
+  }
+
+  /**
+   * Check a new payment against its budget line, crediting any encumbrance it liquidates. Pass the
+   * payment with its base amount so foreign-currency payments are charged in the budget's currency.
+   * The encumbrance stays locked until the executor's transaction ends, so concurrent payments against
+   * the same order or contract liquidate it one after the other.
+   */
+  async reservePayment(payment: InsertPayment, executor: DbExecutor = db): Promise<PaymentReservation> {
+    let encumbrance: Encumbrance | undefined;
+    if (payment.purchaseOrderId) {
+      encumbrance = await this.getOpenEncumbrance(payment.organizationId, 'purchase_order', payment.purchaseOrderId, executor, { lock: true });
+    } else if (payment.contractId) {
+      encumbrance = await this.getOpenEncumbrance(payment.organizationId, 'contract', payment.contractId, executor, { lock: true });
+    }
+
+    const budgetCategoryId = payment.budgetCategoryId ?? encumbrance?.budgetCategoryId ?? null;
+    const charge = baseChargeOf(payment);
+    const liquidation = encumbrance
+      ? fromCents(Math.min(remainingEncumbrance(encumbrance), toCents(charge)))
+      : '0';
+
+    if (budgetCategoryId) {
+      const relief = encumbrance?.budgetCategoryId === budgetCategoryId ? liquidation : '0';
+      await this.assertAvailable(payment.organizationId, budgetCategoryId, charge, executor, relief);
+    }
+
+    return { budgetCategoryId, encumbrance, liquidation };
+  }
+
+  /**
+   * Relieve the encumbrance a payment was reserved against
+   */
+  async liquidateForPayment(
+    payment: Payment,
+    reservation: PaymentReservation,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    const { encumbrance, liquidation } = reservation;
+    if (!encumbrance || toCents(liquidation) <= 0) return;
+
+    await executor.insert(encumbranceLiquidations).values({
+      encumbranceId: encumbrance.id,
+      paymentId: payment.id,
+      amount: liquidation,
+    });
+
+    const liquidatedAmount = fromCents(toCents(encumbrance.liquidatedAmount) + toCents(liquidation));
+    const fullyLiquidated = toCents(liquidatedAmount) >= toCents(encumbrance.amount);
+    await executor
+      .update(encumbrances)
+      .set({
+        liquidatedAmount,
+        status: fullyLiquidated ? 'liquidated' : 'open',
+        closedAt: fullyLiquidated ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(encumbrances.id, encumbrance.id));
+  }
+
+  /**
+   * Restore the encumbrance balance relieved by a payment that was cancelled or failed
+   */
+  async restorePaymentLiquidations(paymentId: string, executor: DbExecutor = db): Promise<void> {
+    const liquidations = await executor
+      .select()
+      .from(encumbranceLiquidations)
+      .where(and(eq(encumbranceLiquidations.paymentId, paymentId), isNull(encumbranceLiquidations.reversedAt)));
+    if (liquidations.length === 0) return;
+
+    await executor
+      .update(encumbranceLiquidations)
+      .set({ reversedAt: new Date() })
+      .where(inArray(encumbranceLiquidations.id, liquidations.map((liquidation) => liquidation.id)));
+
+    for (const liquidation of liquidations) {
+      const [encumbrance] = await executor
+        .select()
+        .from(encumbrances)
+        .where(eq(encumbrances.id, liquidation.encumbranceId));
+      if (!encumbrance) continue;
+
+      const reopen = encumbrance.status === 'liquidated';
+      await executor
+        .update(encumbrances)
+        .set({
+          liquidatedAmount: fromCents(Math.max(toCents(encumbrance.liquidatedAmount) - toCents(liquidation.amount), 0)),
+          ...(reopen ? { status: 'open' as const, closedAt: null } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(encumbrances.id, encumbrance.id));
+    }
+  }
+
+  /**
+   * Keep encumbrances in step with a payment status change
+   */
+  async onPaymentStatusChange(before: Payment, after: Payment, executor: DbExecutor = db): Promise<void> {
+    const voided = (status: Payment['status']) =>
+      VOID_PAYMENT_STATUSES.some((voidStatus) => voidStatus === status);
+    if (!voided(before.status) && voided(after.status)) {
+      await this.restorePaymentLiquidations(after.id, executor);
+    }
+  }
+
+  /**
+   * Check an edit that raises a payment's charge, moves it to another line or reinstates it
+   */
+  async reservePaymentUpdate(existing: Payment, changes: Partial<InsertPayment>, executor: DbExecutor = db): Promise<void> {
+    const voided = (status: Payment['status']) => VOID_PAYMENT_STATUSES.some((voidStatus) => voidStatus === status);
+    await this.reserveIncrease(
+      existing.organizationId,
+      { budgetCategoryId: existing.budgetCategoryId, amount: baseChargeOf(existing), voided: voided(existing.status) },
+      {
+        budgetCategoryId: changes.budgetCategoryId !== undefined ? changes.budgetCategoryId : existing.budgetCategoryId,
+        amount: changes.baseAmount ?? changes.amount ?? baseChargeOf(existing),
+        voided: voided(changes.status ?? existing.status),
+      },
+      executor
+    );
+  }
+
+  /**
+   * Check a new expense against its budget line, in the base currency when the base amount is given
+   */
+  async reserveExpense(expense: InsertExpense, executor: DbExecutor = db): Promise<void> {
+    if (!expense.budgetCategoryId) return;
+    await this.assertAvailable(expense.organizationId, expense.budgetCategoryId, baseChargeOf(expense), executor);
+  }
+
+  /**
+   * Check an edit that raises an expense's charge, moves it to another line or reinstates it
+   */
+  async reserveExpenseUpdate(existing: Expense, changes: Partial<InsertExpense>, executor: DbExecutor = db): Promise<void> {
+    const voided = (status: Expense['status']) => VOID_EXPENSE_STATUSES.some((voidStatus) => voidStatus === status);
+    await this.reserveIncrease(
+      existing.organizationId,
+      { budgetCategoryId: existing.budgetCategoryId, amount: baseChargeOf(existing), voided: voided(existing.status) },
+      {
+        budgetCategoryId: changes.budgetCategoryId !== undefined ? changes.budgetCategoryId : existing.budgetCategoryId,
+        amount: changes.baseAmount ?? changes.amount ?? baseChargeOf(existing),
+        voided: voided(changes.status ?? existing.status),
+      },
+      executor
+    );
+  }
+
+  private async reserveIncrease(
+    organizationId: string,
+    before: BudgetCharge,
+    after: BudgetCharge,
+    executor: DbExecutor
+  ): Promise<void> {
+    const increase = chargeIncrease(before, after);
+    if (toCents(increase) > 0) {
+      await this.assertAvailable(organizationId, after.budgetCategoryId!, increase, executor);
+    }
+  }
+}
+
+export const encumbranceService = new EncumbranceService();
@@ -0,0 +1,444 @@
+import { db } from '../db';
+import {
+  purchaseRequisitions,
+  purchaseOrders,
+  contracts,
+  leaveRequests,
+  timesheets,
+  issuedCards,
+  grants,
+  employees,
+} from '@shared/schema';
+import type { Workflow } from '@shared/workflow-schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { LedgerError, type DbExecutor } from './ledger-service';
+import { encumbranceService } from './encumbrance-service';
+import { paymentServiceManager } from './provider-factory';
+
+export const lifecycleEntityTypes = [
+  'purchase_requisition',
+  'purchase_order',
+  'contract',
+  'leave_request',
+  'timesheet',
+  'issued_card',
+  'grant',
+] as const;
+
+export type LifecycleEntityType = (typeof lifecycleEntityTypes)[number];
+
+// What the workflow engine needs to know about an entity to route its approval
+export interface LifecycleSubject {
+  status: string;
+  organizationId: string;
+  initiatorId: string | null;
+  changedAt: Date | null; // last status change, or creation for tables that don't track updates
+  priority?: string;
+  dueDate?: Date | null;
+  data: Record<string, unknown>;
+}
+
+export interface EntityLifecycle {
+  workflowType: Workflow['type'];
+  submitted: readonly string[]; // statuses that wait on an approval workflow
+  outcomes: { approved: string; rejected: string };
+  load(id: string): Promise<LifecycleSubject | undefined>;
+  pendingIds(): Promise<string[]>;
+  // Only moves entities still waiting in a submitted status, so a later cancellation isn't overwritten
+  // A rejected requisition, order or contract also releases the funds it had encumbered
+  writeBack(id: string, status: string, decidedBy: string, at: Date, executor: DbExecutor): Promise<boolean>;
+  // Write-backs that call an outside service run after the decision commits, never inside its transaction
+  external?: boolean;
+}
+
+const amountOf = (value: string | null | undefined) => (value == null ? null : Number(value));
+
+/**
+ * Activate an approved card, or block a refused one, at its issuer. Runs before the local status
+ * changes so a card the issuer didn't act on stays pending and is retried. Cards not yet created
+ * at the issuer have nothing to change there.
+ */
+export async function applyCardOutcome(
+  card: Pick<typeof issuedCards.$inferSelect, 'organizationId' | 'provider' | 'externalCardId'>,
+  status: string
+): Promise<void> {
+  if (!card.externalCardId) return;
+
+  // Providers from the manager are already guarded, so the call is timed out and health-tracked
+  const provider = paymentServiceManager.getProvider(card.organizationId, card.provider);
+  const operation = status === 'active' ? provider?.activateCard : provider?.blockCard;
+  if (!provider || !operation) {
+    throw new LedgerError(`${card.provider} is not configured to ${status === 'active' ? 'activate' : 'block'} cards`, 502);
+  }
+
+  const result = await operation.call(provider, card.externalCardId);
+  if (!result.success) {
+    throw new LedgerError(result.error || `${card.provider} refused the card ${status === 'active' ? 'activation' : 'block'}`, 502);
+  }
+}
+
+const LIFECYCLES: Record<LifecycleEntityType, EntityLifecycle> = {
+  purchase_requisition: {
+    workflowType: 'requisition',
+    submitted: ['submitted'],
+    outcomes: { approved: 'approved', rejected: 'rejected' },
+    async load(id) {
+      const [row] = await db.select().from(purchaseRequisitions).where(eq(purchaseRequisitions.id, id));
+      return row && {
+        status: row.status,
+        organizationId: row.organizationId,
+        initiatorId: row.requesterId,
+        changedAt: row.updatedAt ?? row.createdAt,
+        priority: row.priority,
+        dueDate: row.neededBy,
+        data: {
+          amount: amountOf(row.estimatedCost),
+          requisitionNumber: row.requisitionNumber,
+          description: row.justification,
+          departmentId: row.departmentId,
+          budgetCategoryId: row.budgetCategoryId,
+        },
+      };
+    },
+    async pendingIds() {
+      const rows = await db
+        .select({ id: purchaseRequisitions.id })
+        .from(purchaseRequisitions)
+        .where(inArray(purchaseRequisitions.status, [...this.submitted]));
+      return rows.map((row) => row.id);
+    },
+    async writeBack(id, status, _decidedBy, at, executor) {
+      return await executor.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(purchaseRequisitions)
+          .set({ status, approvedAt: status === 'approved' ? at : undefined, currentApprover: null, updatedAt: at })
+          .where(and(eq(purchaseRequisitions.id, id), inArray(purchaseRequisitions.status, [...this.submitted])))
+          .returning({ id: purchaseRequisitions.id, organizationId: purchaseRequisitions.organizationId });
+        if (updated && status === this.outcomes.rejected) {
+          await encumbranceService.releaseForSource(updated.organizationId, 'purchase_requisition', id, tx);
+        }
+        return !!updated;
+      });
+    },
+  },
+
+  purchase_order: {
+    workflowType: 'purchase_order',
+    submitted: ['pending_approval'],
+    outcomes: { approved: 'approved', rejected: 'rejected' },
+    async load(id) {
+      const [row] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+      return row && {
+        status: row.status,
+        organizationId: row.organizationId,
+        initiatorId: ((row.metadata as Record<string, unknown> | null)?.createdBy as string | undefined) ?? null,
+        changedAt: row.updatedAt ?? row.createdAt,
+        dueDate: row.expectedDelivery,
+        data: {
+          amount: amountOf(row.totalAmount),
+          poNumber: row.poNumber,
+          vendorId: row.vendorId,
+          requisitionId: row.requisitionId,
+          budgetCategoryId: row.budgetCategoryId,
+        },
+      };
+    },
+    async pendingIds() {
+      const rows = await db
+        .select({ id: purchaseOrders.id })
+        .from(purchaseOrders)
+        .where(inArray(purchaseOrders.status, [...this.submitted]));
+      return rows.map((row) => row.id);
+    },
+    async writeBack(id, status, _decidedBy, at, executor) {
+      return await executor.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(purchaseOrders)
+          .set({ status, updatedAt: at })
+          .where(and(eq(purchaseOrders.id, id), inArray(purchaseOrders.status, [...this.submitted])))
+          .returning({ id: purchaseOrders.id, organizationId: purchaseOrders.organizationId });
+        if (updated && status === this.outcomes.rejected) {
+          await encumbranceService.releaseForSource(updated.organizationId, 'purchase_order', id, tx);
+        }
+        return !!updated;
+      });
+    },
+  },
+
+  contract: {
+    workflowType: 'contract_approval',
+    submitted: ['pending_approval'],
+    outcomes: { approved: 'approved', rejected: 'rejected' },
+    async load(id) {
+      const [row] = await db.select().from(contracts).where(eq(contracts.id, id));
+      return row && {
+        status: row.status,
+        organizationId: row.organizationId,
+        initiatorId: row.managedBy,
+        changedAt: row.updatedAt ?? row.createdAt,
+        data: {
+          amount: amountOf(row.totalValue),
+          contractNumber: row.contractNumber,
+          description: row.title,
+          category: row.type,
+          vendorId: row.vendorId,
+          department: row.department,
+          budgetCategoryId: row.budgetCategoryId,
+        },
+      };
+    },
+    async pendingIds() {
+      const rows = await db
+        .select({ id: contracts.id })
+        .from(contracts)
+        .where(inArray(contracts.status, [...this.submitted]));
+      return rows.map((row) => row.id);
+    },
+    async writeBack(id, status, _decidedBy, at, executor) {
+      return await executor.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(contracts)
+          .set({ status, updatedAt: at })
+          .where(and(eq(contracts.id, id), inArray(contracts.status, [...this.submitted])))
+          .returning({ id: contracts.id, organizationId: contracts.organizationId });
+        if (updated && status === this.outcomes.rejected) {
+          await encumbranceService.releaseForSource(updated.organizationId, 'contract', id, tx);
+        }
+        return !!updated;
+      });
+    },
+  },
+
+  leave_request: {
+    workflowType: 'leave_request',
+    submitted: ['pending'],
+    outcomes: { approved: 'approved', rejected: 'rejected' },
+    async load(id) {
+      const [row] = await db
+        .select({ leave: leaveRequests, organizationId: employees.organizationId, userId: employees.userId })
+        .from(leaveRequests)
+        .innerJoin(employees, eq(employees.id, leaveRequests.employeeId))
+        .where(eq(leaveRequests.id, id));
+      return row && {
+        status: row.leave.status,
+        organizationId: row.organizationId,
+        initiatorId: row.userId,
+        changedAt: row.leave.createdAt,
+        dueDate: row.leave.startDate,
+        data: {
+          employeeId: row.leave.employeeId,
+          category: row.leave.leaveType,
+          startDate: row.leave.startDate,
+          endDate: row.leave.endDate,
+          totalDays: Number(row.leave.totalDays),
+          description: row.leave.reason,
+        },
+      };
+    },
+    async pendingIds() {
+      const rows = await db
+        .select({ id: leaveRequests.id })
+        .from(leaveRequests)
+        .where(inArray(leaveRequests.status, [...this.submitted]));
+      return rows.map((row) => row.id);
+    },
+    async writeBack(id, status, decidedBy, at, executor) {
+      const updated = await executor
+        .update(leaveRequests)
+        .set({ status, approvedBy: decidedBy, approvedAt: at })
+        .where(and(eq(leaveRequests.id, id), inArray(leaveRequests.status, [...this.submitted])))
+        .returning({ id: leaveRequests.id });
+      return updated.length > 0;
+    },
+  },
+
+  timesheet: {
+    workflowType: 'timesheet_submission',
+    submitted: ['submitted'],
+    outcomes: { approved: 'approved', rejected: 'rejected' },
+    async load(id) {
+      const [row] = await db
+        .select({ timesheet: timesheets, organizationId: employees.organizationId, userId: employees.userId })
+        .from(timesheets)
+        .innerJoin(employees, eq(employees.id, timesheets.employeeId))
+        .where(eq(timesheets.id, id));
+      return row && {
+        status: row.timesheet.status,
+        organizationId: row.organizationId,
+        initiatorId: row.userId,
+        changedAt: row.timesheet.submittedAt ?? row.timesheet.updatedAt ?? row.timesheet.createdAt,
+        data: {
+          employeeId: row.timesheet.employeeId,
+          weekStartDate: row.timesheet.weekStartDate,
+          weekEndDate: row.timesheet.weekEndDate,
+          totalHours: Number(row.timesheet.totalHours),
+          overtimeHours: row.timesheet.overtimeHours == null ? null : Number(row.timesheet.overtimeHours),
+          description: row.timesheet.notes,
+        },
+      };
+    },
+    async pendingIds() {
+      const rows = await db
+        .select({ id: timesheets.id })
+        .from(timesheets)
+        .where(inArray(timesheets.status, [...this.submitted]));
+      return rows.map((row) => row.id);
+    },
+    async writeBack(id, status, decidedBy, at, executor) {
+      const updated = await executor
+        .update(timesheets)
+        .set({ status, approvedBy: decidedBy, approvedAt: at, updatedAt: at })
+        .where(and(eq(timesheets.id, id), inArray(timesheets.status, [...this.submitted])))
+        .returning({ id: timesheets.id });
+      return updated.length > 0;
+    },
+  },
+
+  issued_card: {
+    workflowType: 'card_issuance',
+    submitted: ['pending'],
+    // card_status has no rejected state; a refused card stays inactive
+    outcomes: { approved: 'active', rejected: 'inactive' },
+    external: true,
+    async load(id) {
+      const [row] = await db.select().from(issuedCards).where(eq(issuedCards.id, id));
+      return row && {
+        status: row.status ?? 'pending',
+        organizationId: row.organizationId,
+        initiatorId: row.holderId,
+        changedAt: row.updatedAt ?? row.createdAt,
+        data: {
+          amount: amountOf(row.monthlyLimit ?? row.spendingLimit),
+          holderName: row.holderName,
+          category: row.cardType,
+          isVirtual: row.isVirtual,
+        },
+      };
+    },
+    async pendingIds() {
+      const rows = await db
+        .select({ id: issuedCards.id })
+        .from(issuedCards)
+        .where(inArray(issuedCards.status, ['pending']));
+      return rows.map((row) => row.id);
+    },
+    async writeBack(id, status, _decidedBy, at, executor) {
+      const [card] = await executor.select().from(issuedCards).where(and(eq(issuedCards.id, id), eq(issuedCards.status, 'pending')));
+      if (!card) return false;
+
+      await applyCardOutcome(card, status);
+      const updated = await executor
+        .update(issuedCards)
+        .set({ status: status as 'active' | 'inactive', updatedAt: at })
+        .where(and(eq(issuedCards.id, id), eq(issuedCards.status, 'pending')))
+        .returning({ id: issuedCards.id });
+      return updated.length > 0;
+    },
+  },
+
+  grant: {
+    workflowType: 'grant_application',
+    submitted: ['applied'],
+    outcomes: { approved: 'approved', rejected: 'rejected' },
+    async load(id) {
+      const [row] = await db.select().from(grants).where(eq(grants.id, id));
+      return row && {
+        status: row.status ?? 'applied',
+        organizationId: row.organizationId,
+        initiatorId: row.managedBy,
+        changedAt: row.updatedAt ?? row.createdAt,
+        dueDate: row.startDate,
+        data: {
+          amount: amountOf(row.amount),
+          grantName: row.grantName,
+          grantorName: row.grantorName,
+          grantNumber: row.grantNumber,
+          purpose: row.purpose,
+          fundId: row.fundId,
+        },
+      };
+    },
+    async pendingIds() {
+      const rows = await db
+        .select({ id: grants.id })
+        .from(grants)
+        .where(inArray(grants.status, ['applied']));
+      return rows.map((row) => row.id);
+    },
+    async writeBack(id, status, _decidedBy, at, executor) {
+      const updated = await executor
+        .update(grants)
+        .set({ status: status as 'approved' | 'rejected', updatedAt: at })
+        .where(and(eq(grants.id, id), eq(grants.status, 'applied')))
+        .returning({ id: grants.id });
+      return updated.length > 0;
+    },
+  },
+};
+
+export function lifecycleFor(entityType: string | null | undefined): EntityLifecycle | null {
+  return entityType && entityType in LIFECYCLES ? LIFECYCLES[entityType as LifecycleEntityType] : null;
+}
+
+/**
+ * An entity waiting in a submitted status needs a workflow unless one is already open, or the last one
+ * was decided after the entity's latest change. A change after the decision means it was resubmitted.
+ */
+export function needsWorkflow(
+  subject: Pick<LifecycleSubject, 'status' | 'changedAt'>,
+  submitted: readonly string[],
+  latest?: Pick<Workflow, 'status' | 'completedAt' | 'updatedAt'> | null
+): boolean {
+  if (!submitted.includes(subject.status)) return false;
+  if (!latest) return true;
+  if (latest.status === 'pending' || latest.status === 'in_progress') return false;
+
+  const decidedAt = latest.completedAt ?? latest.updatedAt;
+  return !!decidedAt && !!subject.changedAt && subject.changedAt > decidedAt;
+}
+
+/**
+ * A decided workflow whose entity still waits in a submitted status, with no change since the decision:
+ * the write-back failed or never ran and should be applied again.
+ */
+export function awaitsWriteBack(
+  subject: Pick<LifecycleSubject, 'status' | 'changedAt'>,
+  submitted: readonly string[],
+  latest?: Pick<Workflow, 'status' | 'completedAt' | 'updatedAt'> | null
+): boolean {
+  if (!latest || !submitted.includes(subject.status)) return false;
+  if (!['approved', 'completed', 'rejected'].includes(latest.status)) return false;
+  return !needsWorkflow(subject, submitted, latest);
+}
+
+// The entity status a finished workflow stands for; null while it is still undecided
+export function outcomeStatus(lifecycle: EntityLifecycle, workflowStatus: Workflow['status']): string | null {
+  if (workflowStatus === 'approved' || workflowStatus === 'completed') return lifecycle.outcomes.approved;
+  if (workflowStatus === 'rejected') return lifecycle.outcomes.rejected;
+  return null;
+}
+
+export class EntityLifecycleService {
+  // Write a workflow's decision back to the entity it was opened for; a no-op for other workflows.
+  // Pass the transaction that records the decision so the two land together.
+  async applyOutcome(
+    workflow: Workflow,
+    workflowStatus: Workflow['status'],
+    decidedBy: string,
+    executor: DbExecutor = db
+  ): Promise<boolean> {
+    const lifecycle = lifecycleFor(workflow.entityType);
+    const status = lifecycle && outcomeStatus(lifecycle, workflowStatus);
+    if (!lifecycle || !status || !workflow.entityId) {
+      return false;
+    }
+    return lifecycle.writeBack(workflow.entityId, status, decidedBy, new Date(), executor);
+  }
+
+  // Whether the workflow's write-back reaches an outside service and so must wait for the decision to commit
+  isExternal(workflow: Pick<Workflow, 'entityType'>): boolean {
+    return !!lifecycleFor(workflow.entityType)?.external;
+  }
+}
+
+export const entityLifecycleService = new EntityLifecycleService();
@@ -4,6 +4,7 @@ import {
   type Payment, type Vendor, type Expense, type Budget
 } from '@shared/schema';
 import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { fundService } from './fund-service';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -358,7 +359,7 @@ startxref
     format: 'pdf' | 'excel'
   ): Promise<{ data: Buffer; fileName: string; mimeType: string }> {
     // Fetch all financial data
-    const [paymentsData, expensesData, budgetsData] = await Promise.all([
+    const [paymentsData, expensesData, budgetsData, fundBalanceSheets] = await Promise.all([
       db.select().from(payments)
         .where(and(
           eq(payments.organizationId, organizationId),
@@ -372,7 +373,8 @@ startxref
           lte(expenses.createdAt, endDate)
         )),
       db.select().from(budgets)
-        .where(eq(budgets.organizationId, organizationId))
+        .where(eq(budgets.organizationId, organizationId)),
+      fundService.getFundBalanceSheets(organizationId, endDate)
     ]);
 
     // Calculate totals
@@ -390,7 +392,8 @@ startxref
       },
       payments: paymentsData,
       expenses: expensesData,
-      budgets: budgetsData
+      budgets: budgetsData,
+      fundBalanceSheets
     };
 
     if (format === 'pdf') {
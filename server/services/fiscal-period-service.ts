@@ -0,0 +1,405 @@
+import { db } from '../db';
+import {
+  fiscalYears,
+  postingPeriods,
+  type FiscalYear,
+  type PostingPeriod,
+  type PeriodStatus,
+} from '@shared/ledger-schema';
+import { payments, enhancedTransactions, type Payment, type Expense } from '@shared/schema';
+import { workflows } from '@shared/workflow-schema';
+import { eq, and, gte, lte, inArray, isNull, or, isNotNull, asc, desc } from 'drizzle-orm';
+import { LedgerError, type DbExecutor } from './ledger-service';
+
+// Period statuses that follow a fiscal year status change; individually hard-closed periods
+// stay closed when a year is reopened
+const YEAR_STATUS_CASCADE: Record<PeriodStatus, PeriodStatus[]> = {
+  open: ['soft_closed'],
+  soft_closed: ['open'],
+  hard_closed: ['open', 'soft_closed'],
+};
+
+export interface CloseChecklist {
+  scope: 'period' | 'fiscal_year';
+  id: string;
+  name: string;
+  status: PeriodStatus;
+  startDate: Date;
+  endDate: Date;
+  canHardClose: boolean;
+  blockers: {
+    unapprovedWorkflows: Array<{ id: string; type: string; status: string; createdAt: Date | null }>;
+    unreconciledBankTransactions: Array<{ id: string; amount: string; provider: string; createdAt: Date | null }>;
+    pendingPayments: Array<{ id: string; amount: string; status: string | null; description: string | null }>;
+  };
+}
+
+// Allowed status changes; hard close is final
+const PERIOD_TRANSITIONS: Record<PeriodStatus, PeriodStatus[]> = {
+  open: ['soft_closed', 'hard_closed'],
+  soft_closed: ['open', 'hard_closed'],
+  hard_closed: [],
+};
+
+// Date a payment is booked on: when it was processed, otherwise when it was entered
+export function paymentAccountingDate(payment: Pick<Payment, 'processedDate' | 'createdAt'>): Date {
+  return payment.processedDate ?? payment.createdAt ?? new Date();
+}
+
+export function expenseAccountingDate(expense: Pick<Expense, 'expenseDate' | 'createdAt'>): Date {
+  return expense.expenseDate ?? expense.createdAt ?? new Date();
+}
+
+// Build the twelve calendar-month periods of a fiscal year
+export function buildFiscalPeriods(
+  startDate: Date,
+  fiscalYear: number
+): Array<{ name: string; periodNumber: number; startDate: Date; endDate: Date; fiscalYear: number }> {
+  return Array.from({ length: 12 }, (_, index) => {
+    const start = new Date(startDate.getFullYear(), startDate.getMonth() + index, 1);
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 0, 23, 59, 59, 999);
+    return {
+      name: `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}`,
+      periodNumber: index + 1,
+      startDate: start,
+      endDate: end,
+      fiscalYear,
+    };
+  });
+}
+
+// Statuses of the periods that move with a fiscal year changing to `status`
+export function cascadedPeriodStatuses(status: PeriodStatus): PeriodStatus[] {
+  return YEAR_STATUS_CASCADE[status];
+}
+
+export function assertTransitionAllowed(from: PeriodStatus, to: PeriodStatus): void {
+  if (from === to) return;
+  if (!PERIOD_TRANSITIONS[from].includes(to)) {
+    throw new LedgerError(`Cannot change status from ${from} to ${to}`, 409);
+  }
+}
+
+export class FiscalPeriodService {
+  /**
+   * Define a fiscal year and its monthly periods; existing periods in the range are adopted
+   */
+  async createFiscalYear(
+    organizationId: string,
+    fiscalYear: number,
+    startDate: Date
+  ): Promise<FiscalYear> {
+    if (startDate.getDate() !== 1) {
+      throw new LedgerError('Fiscal years must start on the first day of a month', 400);
+    }
+
+    const periods = buildFiscalPeriods(startDate, fiscalYear);
+    const endDate = periods[periods.length - 1].endDate;
+
+    const [overlapping] = await db
+      .select()
+      .from(fiscalYears)
+      .where(
+        and(
+          eq(fiscalYears.organizationId, organizationId),
+          lte(fiscalYears.startDate, endDate),
+          gte(fiscalYears.endDate, startDate)
+        )
+      )
+      .limit(1);
+    if (overlapping) {
+      throw new LedgerError(`Fiscal year overlaps ${overlapping.name}`, 409);
+    }
+
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(fiscalYears)
+        .values({
+          organizationId,
+          fiscalYear,
+          name: `FY${fiscalYear}`,
+          startDate: periods[0].startDate,
+          endDate,
+        })
+        .returning();
+
+      // Months a posting already opened join the fiscal year, keeping their status
+      for (const period of periods) {
+        await tx
+          .insert(postingPeriods)
+          .values({ ...period, organizationId, fiscalYearId: created.id, status: 'open' })
+          .onConflictDoUpdate({
+            target: [postingPeriods.organizationId, postingPeriods.startDate],
+            set: { ...period, fiscalYearId: created.id, updatedAt: new Date() },
+          });
+      }
+
+      return created;
+    });
+  }
+
+  async getFiscalYears(organizationId: string): Promise<FiscalYear[]> {
+    return await db
+      .select()
+      .from(fiscalYears)
+      .where(eq(fiscalYears.organizationId, organizationId))
+      .orderBy(desc(fiscalYears.startDate));
+  }
+
+  async getFiscalYear(id: string, organizationId: string): Promise<FiscalYear | undefined> {
+    const [fiscalYear] = await db
+      .select()
+      .from(fiscalYears)
+      .where(and(eq(fiscalYears.id, id), eq(fiscalYears.organizationId, organizationId)));
+    return fiscalYear;
+  }
+
+  async getPeriods(organizationId: string, fiscalYearId?: string): Promise<PostingPeriod[]> {
+    const conditions = [eq(postingPeriods.organizationId, organizationId)];
+    if (fiscalYearId) conditions.push(eq(postingPeriods.fiscalYearId, fiscalYearId));
+
+    return await db
+      .select()
+      .from(postingPeriods)
+      .where(and(...conditions))
+      .orderBy(asc(postingPeriods.startDate));
+  }
+
+  async getPeriod(id: string, organizationId: string): Promise<PostingPeriod | undefined> {
+    const [period] = await db
+      .select()
+      .from(postingPeriods)
+      .where(and(eq(postingPeriods.id, id), eq(postingPeriods.organizationId, organizationId)));
+    return period;
+  }
+
+  /**
+   * Reject activity dated into a soft- or hard-closed period
+   */
+  async assertDateOpen(
+    organizationId: string,
+    date: Date,
+    executor: DbExecutor = db,
+    options: { allowSoftClosed?: boolean } = {}
+  ): Promise<void> {
+    const [period] = await executor
+      .select()
+      .from(postingPeriods)
+      .where(
+        and(
+          eq(postingPeriods.organizationId, organizationId),
+          lte(postingPeriods.startDate, date),
+          gte(postingPeriods.endDate, date)
+        )
+      )
+      .limit(1);
+
+    if (!period || period.status === 'open') return;
+    if (period.status === 'soft_closed' && options.allowSoftClosed) return;
+
+    throw new LedgerError(
+      `Fiscal period ${period.name} is ${period.status === 'hard_closed' ? 'hard-closed' : 'soft-closed'}`,
+      409
+    );
+  }
+
+  /**
+   * Reject budget changes for a fiscal year that is no longer open
+   */
+  async assertFiscalYearOpen(
+    organizationId: string,
+    fiscalYear: number,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    const [year] = await executor
+      .select()
+      .from(fiscalYears)
+      .where(and(eq(fiscalYears.organizationId, organizationId), eq(fiscalYears.fiscalYear, fiscalYear)));
+
+    if (year && year.status !== 'open') {
+      throw new LedgerError(
+        `${year.name} is ${year.status === 'hard_closed' ? 'hard-closed' : 'soft-closed'}`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Outstanding items that must be cleared before a period or fiscal year can be hard-closed
+   */
+  async getCloseChecklist(
+    organizationId: string,
+    scope: 'period' | 'fiscal_year',
+    id: string
+  ): Promise<CloseChecklist | undefined> {
+    const target = scope === 'period'
+      ? await this.getPeriod(id, organizationId)
+      : await this.getFiscalYear(id, organizationId);
+    if (!target) return undefined;
+
+    const { startDate, endDate } = target;
+
+    const [openWorkflows, unreconciled, pending] = await Promise.all([
+      db
+        .select({
+          id: workflows.id,
+          type: workflows.type,
+          status: workflows.status,
+          createdAt: workflows.createdAt,
+        })
+        .from(workflows)
+        .where(
+          and(
+            eq(workflows.organizationId, organizationId),
+            inArray(workflows.status, ['pending', 'in_progress']),
+            lte(workflows.createdAt, endDate)
+          )
+        ),
+      db
+        .select({
+          id: enhancedTransactions.id,
+          amount: enhancedTransactions.amount,
+          provider: enhancedTransactions.provider,
+          createdAt: enhancedTransactions.createdAt,
+        })
+        .from(enhancedTransactions)
+        .where(
+          and(
+            eq(enhancedTransactions.organizationId, organizationId),
+            eq(enhancedTransactions.status, 'completed'),
+            or(isNotNull(enhancedTransactions.fromAccountId), isNotNull(enhancedTransactions.toAccountId)),
+            isNull(enhancedTransactions.reconciledAt),
+            gte(enhancedTransactions.createdAt, startDate),
+            lte(enhancedTransactions.createdAt, endDate)
+          )
+        ),
+      db
+        .select({
+          id: payments.id,
+          amount: payments.amount,
+          status: payments.status,
+          description: payments.description,
+        })
+        .from(payments)
+        .where(
+          and(
+            eq(payments.organizationId, organizationId),
+            inArray(payments.status, ['pending', 'approved', 'processing']),
+            lte(payments.createdAt, endDate)
+          )
+        ),
+    ]);
+
+    return {
+      scope,
+      id: target.id,
+      name: target.name,
+      status: target.status ?? 'open',
+      startDate,
+      endDate,
+      canHardClose: openWorkflows.length === 0 && unreconciled.length === 0 && pending.length === 0,
+      blockers: {
+        unapprovedWorkflows: openWorkflows,
+        unreconciledBankTransactions: unreconciled,
+        pendingPayments: pending,
+      },
+    };
+  }
+
+  /**
+   * Move a period between open, soft-closed and hard-closed
+   */
+  async setPeriodStatus(
+    id: string,
+    organizationId: string,
+    status: PeriodStatus,
+    userId: string
+  ): Promise<PostingPeriod> {
+    const period = await this.getPeriod(id, organizationId);
+    if (!period) {
+      throw new LedgerError('Fiscal period not found', 404);
+    }
+
+    assertTransitionAllowed(period.status ?? 'open', status);
+    if (status === 'hard_closed') {
+      await this.assertCloseChecklistClear(organizationId, 'period', id);
+    }
+
+    const [updated] = await db
+      .update(postingPeriods)
+      .set({
+        status,
+        closedAt: status === 'open' ? null : new Date(),
+        closedBy: status === 'open' ? null : userId,
+        updatedAt: new Date(),
+      })
+      .where(eq(postingPeriods.id, id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Close or reopen a fiscal year together with all of its periods
+   */
+  async setFiscalYearStatus(
+    id: string,
+    organizationId: string,
+    status: PeriodStatus,
+    userId: string
+  ): Promise<FiscalYear> {
+    const fiscalYear = await this.getFiscalYear(id, organizationId);
+    if (!fiscalYear) {
+      throw new LedgerError('Fiscal year not found', 404);
+    }
+
+    assertTransitionAllowed(fiscalYear.status ?? 'open', status);
+    if (status === 'hard_closed') {
+      await this.assertCloseChecklistClear(organizationId, 'fiscal_year', id);
+    }
+
+    const closedFields = {
+      closedAt: status === 'open' ? null : new Date(),
+      closedBy: status === 'open' ? null : userId,
+      updatedAt: new Date(),
+    };
+
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(fiscalYears)
+        .set({ status, ...closedFields })
+        .where(eq(fiscalYears.id, id))
+        .returning();
+
+      await tx
+        .update(postingPeriods)
+        .set({ status, ...closedFields })
+        .where(
+          and(
+            eq(postingPeriods.fiscalYearId, id),
+            inArray(postingPeriods.status, cascadedPeriodStatuses(status))
+          )
+        );
+
+      return updated;
+    });
+  }
+
+  private async assertCloseChecklistClear(
+    organizationId: string,
+    scope: 'period' | 'fiscal_year',
+    id: string
+  ): Promise<void> {
+    const checklist = await this.getCloseChecklist(organizationId, scope, id);
+    if (checklist && !checklist.canHardClose) {
+      const { unapprovedWorkflows, unreconciledBankTransactions, pendingPayments } = checklist.blockers;
+      throw new LedgerError(
+        `Cannot hard-close ${checklist.name}: ${unapprovedWorkflows.length} unapproved workflows, `
+          + `${unreconciledBankTransactions.length} unreconciled bank transactions, `
+          + `${pendingPayments.length} pending payments`,
+        409
+      );
+    }
+  }
+}
+
+export const fiscalPeriodService = new FiscalPeriodService();
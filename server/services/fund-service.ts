@@ -0,0 +1,364 @@
+import { db } from '../db';
+import {
+  funds,
+  interfundTransfers,
+  type Fund,
+  type FundType,
+  type InsertFund,
+  type InterfundTransfer,
+  type InsertInterfundTransfer,
+} from '@shared/fund-schema';
+import { journalEntries, journalLines, type LedgerAccount } from '@shared/ledger-schema';
+import { eq, and, lte, asc, desc, sql } from 'drizzle-orm';
+import {
+  ledgerService,
+  LedgerError,
+  ACCOUNT_CODES,
+  toCents,
+  fromCents,
+  normalBalanceOf,
+} from './ledger-service';
+
+export interface FundBalanceSheetLine {
+  code: string;
+  name: string;
+  balance: string;
+}
+
+export interface FundBalanceSheet {
+  fundId: string;
+  code: string;
+  name: string;
+  type: FundType;
+  isMajor: boolean;
+  asOf: string;
+  assets: FundBalanceSheetLine[];
+  liabilities: FundBalanceSheetLine[];
+  totalAssets: string;
+  totalLiabilities: string;
+  dueFromOtherFunds: string;
+  dueToOtherFunds: string;
+  fundBalance: string;
+  totalLiabilitiesAndFundBalance: string;
+}
+
+export interface GASBFundStatementColumn {
+  label: string;
+  fundIds: string[];
+  totalAssets: string;
+  totalLiabilities: string;
+  fundBalance: string;
+}
+
+export interface GASBFundStatements {
+  governmentalFunds: { columns: GASBFundStatementColumn[]; total: GASBFundStatementColumn };
+  proprietaryFunds: { columns: GASBFundStatementColumn[]; total: GASBFundStatementColumn };
+  fiduciaryFunds: { columns: GASBFundStatementColumn[]; total: GASBFundStatementColumn };
+}
+
+const GOVERNMENTAL_FUND_TYPES: FundType[] = ['general', 'special_revenue', 'capital_projects'];
+
+// Roll account balances up into one balance sheet per fund
+export function buildFundBalanceSheets(
+  orgFunds: Fund[],
+  accounts: LedgerAccount[],
+  totals: Array<{ fundId: string; accountId: string; debit: string | null; credit: string | null }>,
+  asOf: Date
+): FundBalanceSheet[] {
+  const accountsById = new Map(accounts.map((account) => [account.id, account]));
+
+  return orgFunds
+    .slice()
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .map((fund) => {
+      const assets: FundBalanceSheetLine[] = [];
+      const liabilities: FundBalanceSheetLine[] = [];
+      let assetCents = 0;
+      let liabilityCents = 0;
+      let fundBalanceCents = 0;
+      let dueFrom = 0;
+      let dueTo = 0;
+
+      totals
+        .filter((total) => total.fundId === fund.id)
+        .forEach((total) => {
+          const account = accountsById.get(total.accountId);
+          if (!account) return;
+          const balance = normalBalanceOf(account.normalBalance, toCents(total.debit), toCents(total.credit));
+
+          switch (account.type) {
+            case 'asset':
+              assetCents += balance;
+              if (account.code === ACCOUNT_CODES.dueFromOtherFunds) dueFrom += balance;
+              assets.push({ code: account.code, name: account.name, balance: fromCents(balance) });
+              break;
+            case 'liability':
+              liabilityCents += balance;
+              if (account.code === ACCOUNT_CODES.dueToOtherFunds) dueTo += balance;
+              liabilities.push({ code: account.code, name: account.name, balance: fromCents(balance) });
+              break;
+            case 'net_position':
+            case 'revenue':
+              fundBalanceCents += balance;
+              break;
+            case 'expenditure':
+              fundBalanceCents -= balance;
+              break;
+            default:
+              break;
+          }
+        });
+
+      assets.sort((a, b) => a.code.localeCompare(b.code));
+      liabilities.sort((a, b) => a.code.localeCompare(b.code));
+
+      return {
+        fundId: fund.id,
+        code: fund.code,
+        name: fund.name,
+        type: fund.type,
+        isMajor: fund.isMajor ?? false,
+        asOf: asOf.toISOString(),
+        assets,
+        liabilities,
+        totalAssets: fromCents(assetCents),
+        totalLiabilities: fromCents(liabilityCents),
+        dueFromOtherFunds: fromCents(dueFrom),
+        dueToOtherFunds: fromCents(dueTo),
+        fundBalance: fromCents(fundBalanceCents),
+        totalLiabilitiesAndFundBalance: fromCents(liabilityCents + fundBalanceCents),
+      };
+    });
+}
+
+// Group fund balance sheets into the GASB 34 fund statement columns: major funds get their own
+// column and nonmajor funds are aggregated per category
+export function summarizeGASBFundStatements(sheets: FundBalanceSheet[]): GASBFundStatements {
+  const column = (label: string, members: FundBalanceSheet[]): GASBFundStatementColumn => {
+    const sum = (key: 'totalAssets' | 'totalLiabilities' | 'fundBalance') =>
+      fromCents(members.reduce((total, sheet) => total + toCents(sheet[key]), 0));
+    return {
+      label,
+      fundIds: members.map((sheet) => sheet.fundId),
+      totalAssets: sum('totalAssets'),
+      totalLiabilities: sum('totalLiabilities'),
+      fundBalance: sum('fundBalance'),
+    };
+  };
+
+  const category = (members: FundBalanceSheet[], nonmajorLabel: string, totalLabel: string) => {
+    const majors = members.filter((sheet) => sheet.isMajor || sheet.type === 'general');
+    const nonmajors = members.filter((sheet) => !majors.includes(sheet));
+    const columns = majors.map((sheet) => column(sheet.name, [sheet]));
+    if (nonmajors.length > 0) columns.push(column(nonmajorLabel, nonmajors));
+    return { columns, total: column(totalLabel, members) };
+  };
+
+  return {
+    governmentalFunds: category(
+      sheets.filter((sheet) => GOVERNMENTAL_FUND_TYPES.includes(sheet.type)),
+      'Other Governmental Funds',
+      'Total Governmental Funds'
+    ),
+    proprietaryFunds: category(
+      sheets.filter((sheet) => sheet.type === 'enterprise'),
+      'Other Enterprise Funds',
+      'Total Enterprise Funds'
+    ),
+    fiduciaryFunds: category(
+      sheets.filter((sheet) => sheet.type === 'fiduciary'),
+      'Other Fiduciary Funds',
+      'Total Fiduciary Funds'
+    ),
+  };
+}
+
+export class FundService {
+  /**
+   * List an organization's funds, seeding the General Fund if none exist
+   */
+  async getFunds(organizationId: string): Promise<Fund[]> {
+    await ledgerService.ensureGeneralFund(organizationId);
+    return await db
+      .select()
+      .from(funds)
+      .where(eq(funds.organizationId, organizationId))
+      .orderBy(asc(funds.code));
+  }
+
+  async getFund(id: string): Promise<Fund | undefined> {
+    const [fund] = await db.select().from(funds).where(eq(funds.id, id));
+    return fund;
+  }
+
+  async createFund(fund: InsertFund): Promise<Fund> {
+    const [newFund] = await db.insert(funds).values(fund).returning();
+    return newFund;
+  }
+
+  async updateFund(id: string, fund: Partial<InsertFund>): Promise<Fund> {
+    const [updatedFund] = await db
+      .update(funds)
+      .set({ ...fund, updatedAt: new Date() })
+      .where(eq(funds.id, id))
+      .returning();
+    return updatedFund;
+  }
+
+  async getInterfundTransfers(organizationId: string): Promise<InterfundTransfer[]> {
+    return await db
+      .select()
+      .from(interfundTransfers)
+      .where(eq(interfundTransfers.organizationId, organizationId))
+      .orderBy(desc(interfundTransfers.transferDate));
+  }
+
+  /**
+   * Record a transfer between funds. The sending fund books a transfer out and a due-to
+   * liability; the receiving fund books a transfer in and a due-from receivable.
+   */
+  async createInterfundTransfer(transfer: InsertInterfundTransfer): Promise<InterfundTransfer> {
+    if (transfer.fromFundId === transfer.toFundId) {
+      throw new LedgerError('Transfer must be between two different funds', 400);
+    }
+    if (toCents(transfer.amount) <= 0) {
+      throw new LedgerError('Transfer amount must be positive', 400);
+    }
+
+    const [fromFund, toFund] = await Promise.all([
+      this.getFund(transfer.fromFundId),
+      this.getFund(transfer.toFundId),
+    ]);
+    if (
+      fromFund?.organizationId !== transfer.organizationId
+      || toFund?.organizationId !== transfer.organizationId
+    ) {
+      throw new LedgerError('Fund not found', 404);
+    }
+
+    return await db.transaction(async (tx) => {
+      const [newTransfer] = await tx.insert(interfundTransfers).values(transfer).returning();
+
+      await ledgerService.postJournalEntry(
+        {
+          organizationId: transfer.organizationId,
+          entryDate: newTransfer.transferDate,
+          description: `Interfund transfer ${fromFund.code} -> ${toFund.code}: ${transfer.description ?? ''}`.trim(),
+          sourceType: 'interfund_transfer',
+          sourceId: newTransfer.id,
+          createdBy: transfer.createdBy,
+          lines: [
+            { accountCode: ACCOUNT_CODES.transfersOut, fundId: fromFund.id, debit: transfer.amount },
+            { accountCode: ACCOUNT_CODES.dueToOtherFunds, fundId: fromFund.id, credit: transfer.amount },
+            { accountCode: ACCOUNT_CODES.dueFromOtherFunds, fundId: toFund.id, debit: transfer.amount },
+            { accountCode: ACCOUNT_CODES.transfersIn, fundId: toFund.id, credit: transfer.amount },
+          ],
+        },
+        tx
+      );
+
+      return newTransfer;
+    });
+  }
+
+  /**
+   * Settle a pending transfer in cash, clearing the due-to/due-from balances
+   */
+  async settleInterfundTransfer(id: string, organizationId: string, settledBy: string): Promise<InterfundTransfer> {
+    const transfer = await this.getPendingTransfer(id, organizationId);
+
+    return await db.transaction(async (tx) => {
+      const [settled] = await tx
+        .update(interfundTransfers)
+        .set({ status: 'settled', settledAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(interfundTransfers.id, id), eq(interfundTransfers.status, 'pending')))
+        .returning();
+      // Settled or cancelled by a concurrent request since it was read
+      if (!settled) {
+        throw new LedgerError('Interfund transfer is no longer pending', 409);
+      }
+
+      await ledgerService.postJournalEntry(
+        {
+          organizationId,
+          description: `Interfund transfer settlement ${transfer.id}`,
+          sourceType: 'interfund_transfer',
+          sourceId: transfer.id,
+          createdBy: settledBy,
+          lines: [
+            { accountCode: ACCOUNT_CODES.dueToOtherFunds, fundId: transfer.fromFundId, debit: transfer.amount },
+            { accountCode: ACCOUNT_CODES.cashOperating, fundId: transfer.fromFundId, credit: transfer.amount },
+            { accountCode: ACCOUNT_CODES.cashOperating, fundId: transfer.toFundId, debit: transfer.amount },
+            { accountCode: ACCOUNT_CODES.dueFromOtherFunds, fundId: transfer.toFundId, credit: transfer.amount },
+          ],
+        },
+        tx
+      );
+
+      return settled;
+    });
+  }
+
+  /**
+   * Cancel a pending transfer and reverse its due-to/due-from postings
+   */
+  async cancelInterfundTransfer(id: string, organizationId: string, cancelledBy: string): Promise<InterfundTransfer> {
+    await this.getPendingTransfer(id, organizationId);
+
+    return await db.transaction(async (tx) => {
+      const [cancelled] = await tx
+        .update(interfundTransfers)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(and(eq(interfundTransfers.id, id), eq(interfundTransfers.status, 'pending')))
+        .returning();
+      if (!cancelled) {
+        throw new LedgerError('Interfund transfer is no longer pending', 409);
+      }
+
+      await ledgerService.reverseSourceEntries('interfund_transfer', id, cancelledBy, 'transfer cancelled', tx);
+
+      return cancelled;
+    });
+  }
+
+  /**
+   * Balance sheet for every fund in the organization as of a date
+   */
+  async getFundBalanceSheets(organizationId: string, asOf: Date = new Date()): Promise<FundBalanceSheet[]> {
+    const [orgFunds, accounts] = await Promise.all([
+      this.getFunds(organizationId),
+      ledgerService.ensureChartOfAccounts(organizationId),
+    ]);
+
+    const totals = await db
+      .select({
+        fundId: journalLines.fundId,
+        accountId: journalLines.accountId,
+        debit: sql<string>`coalesce(sum(${journalLines.debit}), 0)`,
+        credit: sql<string>`coalesce(sum(${journalLines.credit}), 0)`,
+      })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+      .where(and(eq(journalLines.organizationId, organizationId), lte(journalEntries.entryDate, asOf)))
+      .groupBy(journalLines.fundId, journalLines.accountId);
+
+    return buildFundBalanceSheets(orgFunds, Array.from(accounts.values()), totals, asOf);
+  }
+
+  private async getPendingTransfer(id: string, organizationId: string): Promise<InterfundTransfer> {
+    const [transfer] = await db
+      .select()
+      .from(interfundTransfers)
+      .where(and(eq(interfundTransfers.id, id), eq(interfundTransfers.organizationId, organizationId)));
+
+    if (!transfer) {
+      throw new LedgerError('Interfund transfer not found', 404);
+    }
+    if (transfer.status !== 'pending') {
+      throw new LedgerError(`Interfund transfer is already ${transfer.status}`, 409);
+    }
+    return transfer;
+  }
+}
+
+export const fundService = new FundService();
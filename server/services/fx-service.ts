@@ -0,0 +1,460 @@
+import { db } from '../db';
+import { organizations, digitalWallets, bankAccounts, transactions } from '@shared/schema';
+import {
+  fxRates,
+  fxRevaluations,
+  type FxRate,
+  type FxRevaluation,
+  type InsertFxRate,
+} from '@shared/fx-schema';
+import { eq, and, lte, gt, ne, desc } from 'drizzle-orm';
+import { LedgerError, ledgerService, toCents, fromCents, ACCOUNT_CODES, type DbExecutor } from './ledger-service';
+import { toDateOnly } from './banking-calendar';
+
+export interface BaseAmounts {
+  currency: string;
+  exchangeRate: string | null; // null when the row is already in the base currency
+  baseAmount: string;
+}
+
+export interface ParsedFxRate {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: string;
+  rateDate: Date;
+}
+
+export interface FxRateFileError {
+  line: number;
+  message: string;
+}
+
+export interface RevaluationSummary {
+  organizationId: string;
+  asOf: Date;
+  baseCurrency: string;
+  revaluations: FxRevaluation[];
+  skipped: number; // accounts already revalued for this date
+  missingRates: string[]; // currencies with no rate on or before asOf
+}
+
+// Round-trip through cents so base amounts carry exactly two decimals
+export function convertAmount(amount: string | number, rate: string | number): string {
+  return fromCents(Math.round(toCents(amount) * Number(rate)));
+}
+
+// A movement in an account's own currency and the base amount it was booked at; outflows are negative
+export interface BookedMovement {
+  amount: string;
+  baseAmount: string;
+}
+
+/**
+ * What an account is carried at in the base currency before it is revalued: the value the last
+ * revaluation left it at, plus each movement since at the base amount it was booked at. Any part of
+ * the balance change with no booked movement behind it is taken at `unbookedRate`.
+ */
+export function carryingValue(
+  opening: { foreignBalance: string | number; baseValue: string | number },
+  movements: BookedMovement[],
+  foreignBalance: string | number,
+  unbookedRate: string | number
+): string {
+  const bookedCents = movements.reduce((sum, movement) => sum + toCents(movement.amount), 0);
+  const baseCents = movements.reduce((sum, movement) => sum + toCents(movement.baseAmount), 0);
+  const unbooked = fromCents(toCents(foreignBalance) - toCents(opening.foreignBalance) - bookedCents);
+  return fromCents(toCents(opening.baseValue) + baseCents + toCents(convertAmount(unbooked, unbookedRate)));
+}
+
+/**
+ * Unrealized gain or loss that brings an account from its carrying value to its foreign balance at
+ * the closing rate, so after each run the books hold exactly balance x closing rate
+ */
+export function revaluationGainLoss(
+  foreignBalance: string | number,
+  rate: string | number,
+  carrying: string | number
+): { baseValue: string; gainLoss: string } {
+  const baseValue = convertAmount(foreignBalance, rate);
+  return { baseValue, gainLoss: fromCents(toCents(baseValue) - toCents(carrying)) };
+}
+
+// Last day of the month before `date`, which month-end revaluation runs as of
+export function previousMonthEnd(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 0));
+}
+
+// ISO 4217 codes and digital-asset tickers such as USDC
+const CURRENCY_CODE = /^[A-Z0-9]{3,10}$/;
+
+const RATE_FILE_COLUMNS: Record<string, keyof ParsedFxRate> = {
+  date: 'rateDate',
+  rate_date: 'rateDate',
+  from: 'fromCurrency',
+  from_currency: 'fromCurrency',
+  base: 'fromCurrency',
+  to: 'toCurrency',
+  to_currency: 'toCurrency',
+  quote: 'toCurrency',
+  rate: 'rate',
+};
+
+/**
+ * Parse a CSV rate file with a header row naming date, from, to and rate columns
+ * (rate_date/from_currency/to_currency and base/quote are accepted too)
+ */
+export function parseFxRateFile(content: string): { rates: ParsedFxRate[]; errors: FxRateFileError[] } {
+  const lines = content.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== '');
+  if (headerIndex === -1) {
+    return { rates: [], errors: [{ line: 1, message: 'File is empty' }] };
+  }
+
+  const columns = lines[headerIndex].split(',').map((name) => RATE_FILE_COLUMNS[name.trim().toLowerCase()]);
+  const missing = (['rateDate', 'fromCurrency', 'toCurrency', 'rate'] as const).filter((field) => !columns.includes(field));
+  if (missing.length > 0) {
+    return { rates: [], errors: [{ line: headerIndex + 1, message: `Missing columns: ${missing.join(', ')}` }] };
+  }
+
+  const rates: ParsedFxRate[] = [];
+  const errors: FxRateFileError[] = [];
+  lines.slice(headerIndex + 1).forEach((text, offset) => {
+    const line = headerIndex + offset + 2;
+    if (text.trim() === '') return;
+
+    const values: Partial<Record<keyof ParsedFxRate, string>> = {};
+    text.split(',').forEach((value, index) => {
+      if (columns[index]) values[columns[index]] = value.trim();
+    });
+
+    const fromCurrency = values.fromCurrency?.toUpperCase() ?? '';
+    const toCurrency = values.toCurrency?.toUpperCase() ?? '';
+    const rate = Number(values.rate);
+    const rateDate = new Date(`${values.rateDate}T00:00:00Z`);
+    if (!CURRENCY_CODE.test(fromCurrency) || !CURRENCY_CODE.test(toCurrency) || fromCurrency === toCurrency) {
+      errors.push({ line, message: 'Currencies must be two different 3 to 10 character codes' });
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push({ line, message: `Invalid rate "${values.rate ?? ''}"` });
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(values.rateDate ?? '') || Number.isNaN(rateDate.getTime())) {
+      errors.push({ line, message: `Invalid date "${values.rateDate ?? ''}"; use YYYY-MM-DD` });
+    } else {
+      rates.push({ fromCurrency, toCurrency, rate: values.rate!, rateDate });
+    }
+  });
+  return { rates, errors };
+}
+
+export class FxService {
+  async getBaseCurrency(organizationId: string, executor: DbExecutor = db): Promise<string> {
+    const [organization] = await executor
+      .select({ baseCurrency: organizations.baseCurrency })
+      .from(organizations)
+      .where(eq(organizations.id, organizationId));
+    return organization?.baseCurrency ?? 'USD';
+  }
+
+  /**
+   * Latest rate on or before a date, using the inverse pair when only that was entered
+   */
+  async findRate(
+    organizationId: string,
+    fromCurrency: string,
+    toCurrency: string,
+    asOf: Date,
+    executor: DbExecutor = db
+  ): Promise<number | null> {
+    if (fromCurrency === toCurrency) return 1;
+
+    const latest = async (from: string, to: string) => {
+      const [row] = await executor
+        .select({ rate: fxRates.rate })
+        .from(fxRates)
+        .where(
+          and(
+            eq(fxRates.organizationId, organizationId),
+            eq(fxRates.fromCurrency, from),
+            eq(fxRates.toCurrency, to),
+            lte(fxRates.rateDate, toDateOnly(asOf))
+          )
+        )
+        .orderBy(desc(fxRates.rateDate))
+        .limit(1);
+      return row ? Number(row.rate) : null;
+    };
+
+    const direct = await latest(fromCurrency, toCurrency);
+    if (direct !== null) return direct;
+    const inverse = await latest(toCurrency, fromCurrency);
+    return inverse !== null ? 1 / inverse : null;
+  }
+
+  async requireRate(
+    organizationId: string,
+    fromCurrency: string,
+    toCurrency: string,
+    asOf: Date,
+    executor: DbExecutor = db
+  ): Promise<number> {
+    const rate = await this.findRate(organizationId, fromCurrency, toCurrency, asOf, executor);
+    if (rate === null) {
+      throw new LedgerError(
+        `No ${fromCurrency}/${toCurrency} exchange rate on or before ${toDateOnly(asOf).toISOString().slice(0, 10)}`,
+        422
+      );
+    }
+    return rate;
+  }
+
+  /**
+   * Currency, booking rate and base-currency amount to store on a new money row
+   */
+  async toBase(
+    organizationId: string,
+    amount: string | number,
+    currency: string | null | undefined,
+    asOf: Date,
+    executor: DbExecutor = db
+  ): Promise<BaseAmounts> {
+    const baseCurrency = await this.getBaseCurrency(organizationId, executor);
+    const code = (currency ?? baseCurrency).toUpperCase();
+    if (code === baseCurrency) {
+      return { currency: code, exchangeRate: null, baseAmount: convertAmount(amount, 1) };
+    }
+    const rate = await this.requireRate(organizationId, code, baseCurrency, asOf, executor);
+    return { currency: code, exchangeRate: rate.toFixed(8), baseAmount: convertAmount(amount, rate) };
+  }
+
+  async getRates(
+    organizationId: string,
+    filters: { fromCurrency?: string; toCurrency?: string; limit?: number } = {}
+  ): Promise<FxRate[]> {
+    const conditions = [eq(fxRates.organizationId, organizationId)];
+    if (filters.fromCurrency) conditions.push(eq(fxRates.fromCurrency, filters.fromCurrency.toUpperCase()));
+    if (filters.toCurrency) conditions.push(eq(fxRates.toCurrency, filters.toCurrency.toUpperCase()));
+    return db
+      .select()
+      .from(fxRates)
+      .where(and(...conditions))
+      .orderBy(desc(fxRates.rateDate), fxRates.fromCurrency)
+      .limit(filters.limit ?? 200);
+  }
+
+  // Entering a rate for a pair and day that already has one replaces it
+  async upsertRate(input: InsertFxRate, executor: DbExecutor = db): Promise<FxRate> {
+    if (input.fromCurrency === input.toCurrency) {
+      throw new LedgerError('A rate needs two different currencies', 400);
+    }
+    const rateDate = toDateOnly(input.rateDate);
+    const [rate] = await executor
+      .insert(fxRates)
+      .values({ ...input, rateDate })
+      .onConflictDoUpdate({
+        target: [fxRates.organizationId, fxRates.fromCurrency, fxRates.toCurrency, fxRates.rateDate],
+        set: { rate: input.rate, source: input.source, createdBy: input.createdBy, updatedAt: new Date() },
+      })
+      .returning();
+    return rate;
+  }
+
+  /**
+   * Import a rate file. Nothing is saved unless every line parses.
+   */
+  async importRates(
+    organizationId: string,
+    content: string,
+    createdBy: string
+  ): Promise<{ imported: number; errors: FxRateFileError[] }> {
+    const { rates, errors } = parseFxRateFile(content);
+    if (errors.length > 0) {
+      return { imported: 0, errors };
+    }
+    await db.transaction(async (tx) => {
+      for (const rate of rates) {
+        await this.upsertRate({ ...rate, organizationId, source: 'import', createdBy }, tx);
+      }
+    });
+    return { imported: rates.length, errors: [] };
+  }
+
+  async getRevaluations(organizationId: string, asOf?: Date): Promise<FxRevaluation[]> {
+    const conditions = [eq(fxRevaluations.organizationId, organizationId)];
+    if (asOf) conditions.push(eq(fxRevaluations.asOf, toDateOnly(asOf)));
+    return db
+      .select()
+      .from(fxRevaluations)
+      .where(and(...conditions))
+      .orderBy(desc(fxRevaluations.asOf), fxRevaluations.currency);
+  }
+
+  /**
+   * Revalue every foreign-currency wallet and bank account at the closing rate for `asOf` and post
+   * the unrealized gain or loss. Accounts already revalued for that date are skipped, so reruns are safe.
+   */
+  async revalue(organizationId: string, asOf: Date, createdBy: string): Promise<RevaluationSummary> {
+    const asOfDay = toDateOnly(asOf);
+    const baseCurrency = await this.getBaseCurrency(organizationId);
+    const [wallets, accounts] = await Promise.all([
+      db
+        .select()
+        .from(digitalWallets)
+        .where(and(eq(digitalWallets.organizationId, organizationId), ne(digitalWallets.currency, baseCurrency), eq(digitalWallets.isActive, true))),
+      db
+        .select()
+        .from(bankAccounts)
+        .where(and(eq(bankAccounts.organizationId, organizationId), ne(bankAccounts.currency, baseCurrency), eq(bankAccounts.isActive, true))),
+    ]);
+
+    const targets = [
+      ...wallets.map((wallet) => ({ accountType: 'digital_wallet' as const, account: wallet, name: wallet.name })),
+      ...accounts.map((account) => ({ accountType: 'bank_account' as const, account, name: account.accountName })),
+    ];
+
+    const summary: RevaluationSummary = { organizationId, asOf: asOfDay, baseCurrency, revaluations: [], skipped: 0, missingRates: [] };
+    for (const { accountType, account, name } of targets) {
+      const currency = account.currency!;
+      const [previous] = await db
+        .select()
+        .from(fxRevaluations)
+        .where(
+          and(
+            eq(fxRevaluations.accountType, accountType),
+            eq(fxRevaluations.accountId, account.id),
+            lte(fxRevaluations.asOf, asOfDay)
+          )
+        )
+        .orderBy(desc(fxRevaluations.asOf))
+        .limit(1);
+      if (previous && previous.asOf.getTime() === asOfDay.getTime()) {
+        summary.skipped += 1;
+        continue;
+      }
+
+      const rate = await this.findRate(organizationId, currency, baseCurrency, asOfDay);
+      if (rate === null) {
+        if (!summary.missingRates.includes(currency)) summary.missingRates.push(currency);
+        continue;
+      }
+      // An account's first revaluation measures from the rate on the day it was opened, when known.
+      // Balance changes with no booked movement are taken at the closing rate, so they carry no gain.
+      const previousRate = previous
+        ? Number(previous.rate)
+        : await this.findRate(organizationId, currency, baseCurrency, account.createdAt ?? asOfDay);
+      const movements = await this.bookedMovements(accountType, account.id, currency, previous?.createdAt ?? null);
+      const carrying = carryingValue(
+        previous ?? { foreignBalance: '0', baseValue: '0' },
+        movements,
+        account.balance ?? '0',
+        previous ? rate : previousRate ?? rate
+      );
+      const { baseValue, gainLoss } = revaluationGainLoss(account.balance ?? '0', rate, carrying);
+
+      const revaluation = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .insert(fxRevaluations)
+          .values({
+            organizationId,
+            accountType,
+            accountId: account.id,
+            asOf: asOfDay,
+            currency,
+            baseCurrency,
+            foreignBalance: account.balance ?? '0',
+            rate: rate.toFixed(8),
+            previousRate: previousRate === null ? null : previousRate.toFixed(8),
+            baseValue,
+            unrealizedGainLoss: gainLoss,
+            createdBy,
+          })
+          .returning();
+
+        const cents = toCents(gainLoss);
+        if (cents === 0) return row;
+
+        const cashAccount = accountType === 'digital_wallet' ? ACCOUNT_CODES.cashWallets : ACCOUNT_CODES.cashOperating;
+        const amount = fromCents(Math.abs(cents));
+        const entry = await ledgerService.postJournalEntry(
+          {
+            organizationId,
+            fundId: accountType === 'digital_wallet' ? await ledgerService.resolveWalletFundId(account.id, tx) : undefined,
+            entryDate: asOfDay,
+            description: `FX revaluation: ${name} (${currency} at ${rate.toFixed(6)})`,
+            sourceType: 'fx_revaluation',
+            sourceId: row.id,
+            createdBy,
+            allowSoftClosed: true,
+            lines: cents > 0
+              ? [
+                { accountCode: cashAccount, debit: amount },
+                { accountCode: ACCOUNT_CODES.unrealizedFxGains, credit: amount },
+              ]
+              : [
+                { accountCode: ACCOUNT_CODES.unrealizedFxLosses, debit: amount },
+                { accountCode: cashAccount, credit: amount },
+              ],
+          },
+          tx
+        );
+        const [updated] = await tx
+          .update(fxRevaluations)
+          .set({ journalEntryId: entry.id })
+          .where(eq(fxRevaluations.id, row.id))
+          .returning();
+        return updated;
+      });
+      summary.revaluations.push(revaluation);
+    }
+    return summary;
+  }
+
+  /**
+   * Movements into and out of an account since its last revaluation, at the base amounts the ledger
+   * booked them at. Only wallets record theirs; bank balances arrive from the bank as a figure.
+   */
+  private async bookedMovements(
+    accountType: FxRevaluation['accountType'],
+    accountId: string,
+    currency: string,
+    since: Date | null
+  ): Promise<BookedMovement[]> {
+    if (accountType !== 'digital_wallet') return [];
+    const rows = await db
+      .select({ amount: transactions.amount, baseAmount: transactions.baseAmount, type: transactions.type })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.walletId, accountId),
+          eq(transactions.currency, currency),
+          since ? gt(transactions.createdAt, since) : undefined
+        )
+      );
+    return rows.map((row) => {
+      const sign = row.type === 'credit' ? 1 : -1;
+      return {
+        amount: fromCents(sign * toCents(row.amount)),
+        baseAmount: fromCents(sign * toCents(row.baseAmount ?? row.amount)),
+      };
+    });
+  }
+
+  /**
+   * Month-end run across every organization; those without foreign-currency balances have nothing to revalue
+   */
+  async revalueAllOrganizations(asOf: Date): Promise<{ organizations: number; revalued: number; missingRates: Record<string, string[]>; errors: Record<string, string> }> {
+    const orgs = await db.select({ id: organizations.id }).from(organizations);
+
+    const result = { organizations: 0, revalued: 0, missingRates: {} as Record<string, string[]>, errors: {} as Record<string, string> };
+    for (const { id: organizationId } of orgs) {
+      result.organizations += 1;
+      try {
+        const summary = await this.revalue(organizationId, asOf, 'system');
+        result.revalued += summary.revaluations.length;
+        if (summary.missingRates.length > 0) result.missingRates[organizationId] = summary.missingRates;
+      } catch (error) {
+        result.errors[organizationId] = error instanceof Error ? error.message : 'Revaluation failed';
+      }
+    }
+    return result;
+  }
+}
+
+export const fxService = new FxService();
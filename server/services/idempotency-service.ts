@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import type { NextFunction, Response } from 'express';
+import { db } from '../db';
+import { idempotencyKeys, type IdempotencyKey } from '@shared/idempotency-schema';
+import { eq, and, lt } from 'drizzle-orm';
+
+// Keys are remembered for a day; after that the same key starts a new request
+export const IDEMPOTENCY_TTL_HOURS = 24;
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+export type IdempotencyDecision = 'replay' | 'in_progress' | 'conflict';
+
+// JSON with object keys sorted, so {a, b} and {b, a} fingerprint the same
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function requestFingerprint(method: string, path: string, body: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${method.toUpperCase()} ${path}\n${canonicalJson(body)}`)
+    .digest('hex');
+}
+
+/**
+ * Whose key space a request's Idempotency-Key belongs to. Signed-in callers keep theirs across sessions;
+ * an anonymous caller gets one per browser session, or per request without a session, so two visitors
+ * who happen to send the same key never share a stored response.
+ */
+export function idempotencyScope(req: any): string {
+  const userId = req.user?.claims?.sub;
+  if (userId) return userId;
+  if (req.session) {
+    req.session.idempotencyScope ??= crypto.randomUUID();
+    return `session:${req.session.idempotencyScope}`;
+  }
+  return `request:${crypto.randomUUID()}`;
+}
+
+// Providers keep one key space per account, so the caller's raw key is namespaced by its scope before it is sent on
+export function providerIdempotencyKey(scope: string, key: string): string {
+  return crypto.createHash('sha256').update(`${scope}:${key}`).digest('hex');
+}
+
+/**
+ * What to do with a request whose key is already stored: a different body or endpoint is a conflict,
+ * an unfinished first request is still in progress, anything else gets the stored response.
+ */
+export function idempotencyDecision(existing: IdempotencyKey, fingerprint: string): IdempotencyDecision {
+  if (existing.requestFingerprint !== fingerprint) return 'conflict';
+  if (existing.status !== 'completed') return 'in_progress';
+  return 'replay';
+}
+
+export class IdempotencyService {
+  /**
+   * Claim a key for this request. Returns the new row when claimed, otherwise the row already holding the key.
+   */
+  async claim(
+    scope: string,
+    key: string,
+    requestPath: string,
+    requestFingerprint: string
+  ): Promise<{ record: IdempotencyKey; claimed: boolean }> {
+    const now = new Date();
+    await db
+      .delete(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.scope, scope), eq(idempotencyKeys.key, key), lt(idempotencyKeys.expiresAt, now)));
+
+    const [claimed] = await db
+      .insert(idempotencyKeys)
+      .values({
+        scope,
+        key,
+        requestPath,
+        requestFingerprint,
+        expiresAt: new Date(now.getTime() + IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000),
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (claimed) {
+      return { record: claimed, claimed: true };
+    }
+
+    const [existing] = await db
+      .select()
+      .from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.scope, scope), eq(idempotencyKeys.key, key)));
+    return { record: existing, claimed: false };
+  }
+
+  async complete(id: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    await db
+      .update(idempotencyKeys)
+      .set({ status: 'completed', responseStatus, responseBody: responseBody ?? null, completedAt: new Date() })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  // Give the key back when the request ended without a JSON response (e.g. the connection dropped)
+  async release(id: string): Promise<void> {
+    await db
+      .delete(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.id, id), eq(idempotencyKeys.status, 'in_progress')));
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
+
+/**
+ * Honour an Idempotency-Key header on money-moving endpoints. Mount after isAuthenticated so keys are
+ * scoped to the caller. The claimed key, namespaced by that scope, is exposed as req.idempotencyKey
+ * for forwarding to providers.
+ */
+export async function withIdempotency(req: any, res: Response, next: NextFunction) {
+  const key = req.get('Idempotency-Key');
+  if (!key) {
+    return next();
+  }
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return res.status(400).json({ message: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` });
+  }
+
+  try {
+    const scope = idempotencyScope(req);
+    const path = req.originalUrl.split('?')[0];
+    const fingerprint = requestFingerprint(req.method, path, req.body);
+    const { record, claimed } = await idempotencyService.claim(scope, key, path, fingerprint);
+
+    if (!claimed) {
+      switch (idempotencyDecision(record, fingerprint)) {
+        case 'conflict':
+          return res.status(409).json({ message: 'Idempotency-Key has already been used with a different request' });
+        case 'in_progress':
+          return res.status(409).json({ message: 'A request with this Idempotency-Key is still being processed' });
+        default:
+          res.setHeader('Idempotent-Replayed', 'true');
+          return res.status(record.responseStatus ?? 200).json(record.responseBody);
+      }
+    }
+
+    req.idempotencyKey = providerIdempotencyKey(scope, key);
+    let settled = false;
+    const send = res.json.bind(res);
+    // Store the response before it goes out so a retry arriving right after sees the result
+    res.json = (body: any) => {
+      settled = true;
+      idempotencyService
+        .complete(record.id, res.statusCode, body)
+        .catch((error) => console.error('Failed to store idempotent response:', error))
+        .finally(() => send(body));
+      return res;
+    };
+    res.on('close', () => {
+      if (!settled) {
+        idempotencyService.release(record.id).catch((error) => console.error('Failed to release idempotency key:', error));
+      }
+    });
+
+    next();
+  } catch (error) {
+    console.error('Idempotency check failed:', error);
+    res.status(500).json({ message: 'Failed to check Idempotency-Key' });
+  }
+}
@@ -0,0 +1,113 @@
+import { jobQueue, type JobQueue } from './job-queue';
+import { BulkOperationsService, type BulkPaymentRequest } from './bulk-operations';
+import { exportService, type ExportOptions } from './export-service';
+import { achFileService } from './ach-file-service';
+import { paymentScheduler } from './payment-scheduler';
+import { fxService, previousMonthEnd } from './fx-service';
+import { digitalAssetService } from './digital-asset-service';
+import { workflowService } from '../workflow-service';
+import { twoFactorService } from '../two-factor-service';
+
+export const JOB_TYPES = {
+  bulkPayments: 'payments.bulk_process',
+  export: 'exports.generate',
+  workflowEscalations: 'workflows.check_escalations',
+  approvalDelegations: 'workflows.reroute_delegated_approvals',
+  entityWorkflows: 'workflows.open_entity_workflows',
+  twoFactorCleanup: 'auth.cleanup_2fa_sessions',
+  scheduledPayments: 'payments.run_schedules',
+  fxRevaluation: 'ledger.fx_revaluation',
+  digitalAssetTransfers: 'digital_assets.process_transfers',
+} as const;
+
+export interface BulkPaymentJobPayload extends BulkPaymentRequest {
+  achOriginatorId?: string;
+}
+
+export interface ExportJobPayload extends Omit<ExportOptions, 'organizationId' | 'filters'> {
+  filters?: Omit<NonNullable<ExportOptions['filters']>, 'startDate' | 'endDate'> & { startDate?: string; endDate?: string };
+}
+
+export interface ExportJobResult {
+  fileName: string;
+  mimeType: string;
+  encoding: 'utf8' | 'base64';
+  data: string;
+}
+
+const bulkOps = new BulkOperationsService();
+
+/**
+ * Register the handlers for every job type and the recurring maintenance schedules
+ */
+export async function registerJobHandlers(queue: JobQueue = jobQueue): Promise<void> {
+  queue.register(JOB_TYPES.bulkPayments, async (job, context) => {
+    const { achOriginatorId, ...request } = job.payload as BulkPaymentJobPayload;
+
+    // With an originator the NACHA file is the only payment channel: the approved payments go out in the
+    // file and move to processing with it, and are never also charged through their provider
+    if (request.action === 'process' && achOriginatorId && job.organizationId) {
+      try {
+        const { content, ...achFile } = await achFileService.generateFile(job.organizationId, job.createdBy ?? 'system', {
+          originatorId: achOriginatorId,
+          paymentIds: request.paymentIds,
+        });
+        return { achFile };
+      } catch (error) {
+        return { achFile: null, achFileError: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }
+
+    const result = await bulkOps.bulkProcessPayments(request, (handled, total) =>
+      context.reportProgress((handled / total) * 100, `${handled} of ${total} payments`)
+    );
+    return { result };
+  });
+
+  queue.register(JOB_TYPES.export, async (job, context) => {
+    const { filters, ...options } = job.payload as ExportJobPayload;
+    await context.reportProgress(10, 'Fetching data');
+    const file = await exportService.exportData({
+      ...options,
+      organizationId: job.organizationId!,
+      filters: filters && {
+        ...filters,
+        startDate: filters.startDate ? new Date(filters.startDate) : undefined,
+        endDate: filters.endDate ? new Date(filters.endDate) : undefined,
+      },
+    });
+    const binary = Buffer.isBuffer(file.data);
+    const result: ExportJobResult = {
+      fileName: file.fileName,
+      mimeType: file.mimeType,
+      encoding: binary ? 'base64' : 'utf8',
+      data: binary ? (file.data as Buffer).toString('base64') : (file.data as string),
+    };
+    return result;
+  });
+
+  queue.register(JOB_TYPES.workflowEscalations, () => workflowService.checkEscalations());
+
+  // Picks up out-of-office windows that have started and leave approved since the approvals were opened
+  queue.register(JOB_TYPES.approvalDelegations, () => workflowService.reroutePendingApprovals());
+
+  // Requisitions, leave, timesheets and the like submitted without going through the app's routes
+  queue.register(JOB_TYPES.entityWorkflows, () => workflowService.openEntityWorkflows());
+
+  queue.register(JOB_TYPES.twoFactorCleanup, async () => ({ deleted: await twoFactorService.cleanupSessions() }));
+
+  queue.register(JOB_TYPES.scheduledPayments, () => paymentScheduler.run());
+
+  // Revalues as of the last month end; accounts already revalued are skipped, so daily runs pick up late rates
+  queue.register(JOB_TYPES.fxRevaluation, () => fxService.revalueAllOrganizations(previousMonthEnd(new Date())));
+
+  queue.register(JOB_TYPES.digitalAssetTransfers, () => digitalAssetService.processTransfers());
+
+  await queue.schedule('workflow-escalations', JOB_TYPES.workflowEscalations, 60 * 60);
+  await queue.schedule('approval-delegations', JOB_TYPES.approvalDelegations, 15 * 60);
+  await queue.schedule('entity-workflows', JOB_TYPES.entityWorkflows, 15 * 60);
+  await queue.schedule('two-factor-session-cleanup', JOB_TYPES.twoFactorCleanup, 60 * 60);
+  await queue.schedule('scheduled-payments', JOB_TYPES.scheduledPayments, 15 * 60);
+  await queue.schedule('fx-month-end-revaluation', JOB_TYPES.fxRevaluation, 24 * 60 * 60);
+  await queue.schedule('digital-asset-transfers', JOB_TYPES.digitalAssetTransfers, 5 * 60);
+}
@@ -0,0 +1,336 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { jobs, jobSchedules, type Job, type JobStatus } from '@shared/job-schema';
+import { eq, and, or, lte, lt, desc, asc, isNull, sql, type SQL } from 'drizzle-orm';
+import { LedgerError } from './ledger-service';
+import { wsManager } from '../websocket';
+
+export interface JobContext {
+  // Percent complete (0-100) with an optional note; saved on the job and pushed over the websocket
+  reportProgress(percent: number, message?: string): Promise<void>;
+}
+
+export type JobHandler = (job: Job, context: JobContext) => Promise<unknown>;
+
+export interface EnqueueOptions {
+  organizationId?: string | null;
+  createdBy?: string | null;
+  runAt?: Date;
+  priority?: number;
+  maxAttempts?: number;
+  scheduleName?: string;
+}
+
+export interface JobFilters {
+  status?: JobStatus;
+  type?: string;
+  limit?: number;
+}
+
+export const JOB_RETRY_POLICY = { baseDelayMs: 30_000, maxDelayMs: 60 * 60_000 };
+// A running job whose lock is older than this belongs to a worker that died; it is requeued
+export const JOB_LOCK_TIMEOUT_MS = 15 * 60_000;
+// How often a worker renews the lock on the job it is running, however long the handler takes
+export const JOB_HEARTBEAT_INTERVAL_MS = 60_000;
+export const JOB_POLL_INTERVAL_MS = 5_000;
+// Jobs run per tick, so a long queue cannot starve schedule checks
+const JOBS_PER_TICK = 10;
+
+// Exponential backoff between attempts: 30s, 1m, 2m, ... capped at an hour
+export function jobRetryDelay(attempt: number): number {
+  return Math.min(JOB_RETRY_POLICY.maxDelayMs, JOB_RETRY_POLICY.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+}
+
+/**
+ * What happens to a job whose handler threw: back to the queue after the backoff delay,
+ * or into the dead letter state once it has used all its attempts.
+ */
+export function failedJobState(
+  job: Pick<Job, 'attempts' | 'maxAttempts'>,
+  now: Date = new Date()
+): { status: 'queued'; runAt: Date } | { status: 'dead' } {
+  const attempts = job.attempts ?? 0;
+  if (attempts >= (job.maxAttempts ?? 1)) {
+    return { status: 'dead' };
+  }
+  return { status: 'queued', runAt: new Date(now.getTime() + jobRetryDelay(attempts)) };
+}
+
+export class JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+  readonly workerId = `worker-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(type: string, payload: Record<string, any> = {}, options: EnqueueOptions = {}): Promise<Job> {
+    const [job] = await db
+      .insert(jobs)
+      .values({
+        type,
+        payload,
+        organizationId: options.organizationId ?? null,
+        createdBy: options.createdBy ?? null,
+        runAt: options.runAt ?? new Date(),
+        priority: options.priority ?? 0,
+        maxAttempts: options.maxAttempts ?? 5,
+        scheduleName: options.scheduleName ?? null,
+      })
+      .returning();
+    return job;
+  }
+
+  /**
+   * Create or update a recurring schedule. The next run time is kept when only the payload or
+   * interval changes, so restarting the server does not reset every schedule.
+   */
+  async schedule(name: string, type: string, intervalSeconds: number, payload: Record<string, any> = {}): Promise<void> {
+    await db
+      .insert(jobSchedules)
+      .values({ name, type, payload, intervalSeconds, nextRunAt: new Date() })
+      .onConflictDoUpdate({
+        target: jobSchedules.name,
+        set: { type, payload, intervalSeconds, updatedAt: new Date() },
+      });
+  }
+
+  async getJob(id: string, organizationId: string): Promise<Job> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.id, id), or(eq(jobs.organizationId, organizationId), isNull(jobs.organizationId))));
+    if (!job) {
+      throw new LedgerError('Job not found', 404);
+    }
+    return job;
+  }
+
+  // An organization sees its own jobs and the system-wide maintenance jobs
+  async listJobs(organizationId: string, filters: JobFilters = {}): Promise<Job[]> {
+    const conditions: SQL[] = [or(eq(jobs.organizationId, organizationId), isNull(jobs.organizationId))!];
+    if (filters.status) conditions.push(eq(jobs.status, filters.status));
+    if (filters.type) conditions.push(eq(jobs.type, filters.type));
+
+    return db
+      .select()
+      .from(jobs)
+      .where(and(...conditions))
+      .orderBy(desc(jobs.createdAt))
+      .limit(Math.min(filters.limit ?? 100, 500));
+  }
+
+  async listSchedules() {
+    return db.select().from(jobSchedules).orderBy(asc(jobSchedules.name));
+  }
+
+  // Put a dead or cancelled job back in the queue with a fresh set of attempts
+  async retry(id: string, organizationId: string): Promise<Job> {
+    const job = await this.getJob(id, organizationId);
+    if (job.status !== 'dead' && job.status !== 'cancelled') {
+      throw new LedgerError(`Only dead or cancelled jobs can be retried (job is ${job.status})`, 409);
+    }
+    const [updated] = await db
+      .update(jobs)
+      .set({ status: 'queued', attempts: 0, runAt: new Date(), lastError: null, progress: 0, progressMessage: null, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async cancel(id: string, organizationId: string): Promise<Job> {
+    await this.getJob(id, organizationId);
+    const [cancelled] = await db
+      .update(jobs)
+      .set({ status: 'cancelled', completedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(jobs.id, id), eq(jobs.status, 'queued')))
+      .returning();
+    if (!cancelled) {
+      throw new LedgerError('Only queued jobs can be cancelled', 409);
+    }
+    return cancelled;
+  }
+
+  start(intervalMs = JOB_POLL_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * One worker pass: requeue jobs abandoned by dead workers, enqueue due schedules,
+   * then run due jobs. Overlapping ticks are skipped.
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      await this.recoverStaleJobs();
+      await this.enqueueDueSchedules();
+      for (let i = 0; i < JOBS_PER_TICK; i += 1) {
+        const job = await this.claimNext();
+        if (!job) break;
+        await this.run(job);
+      }
+    } catch (error) {
+      console.error('Job queue tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async recoverStaleJobs(now = new Date()): Promise<void> {
+    await db
+      .update(jobs)
+      .set({ status: 'queued', lockedBy: null, lockedAt: null, runAt: now, updatedAt: now })
+      .where(and(eq(jobs.status, 'running'), lt(jobs.lockedAt, new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS))));
+  }
+
+  private async enqueueDueSchedules(now = new Date()): Promise<void> {
+    await db.transaction(async (tx) => {
+      const due = await tx
+        .select()
+        .from(jobSchedules)
+        .where(and(eq(jobSchedules.isActive, true), lte(jobSchedules.nextRunAt, now)))
+        .for('update', { skipLocked: true });
+
+      for (const schedule of due) {
+        const [job] = await tx
+          .insert(jobs)
+          .values({ type: schedule.type, payload: schedule.payload ?? {}, scheduleName: schedule.name, maxAttempts: 3 })
+          .returning();
+        await tx
+          .update(jobSchedules)
+          .set({
+            lastRunAt: now,
+            lastJobId: job.id,
+            nextRunAt: new Date(now.getTime() + schedule.intervalSeconds * 1000),
+            updatedAt: now,
+          })
+          .where(eq(jobSchedules.id, schedule.id));
+      }
+    });
+  }
+
+  // SKIP LOCKED lets several server instances poll the same table without taking the same job
+  private async claimNext(now = new Date()): Promise<Job | null> {
+    return db.transaction(async (tx) => {
+      const [next] = await tx
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(and(eq(jobs.status, 'queued'), lte(jobs.runAt, now)))
+        .orderBy(desc(jobs.priority), asc(jobs.runAt))
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!next) return null;
+
+      const [claimed] = await tx
+        .update(jobs)
+        .set({
+          status: 'running',
+          lockedBy: this.workerId,
+          lockedAt: now,
+          attempts: sql`${jobs.attempts} + 1`,
+          startedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(jobs.id, next.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  private async run(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await this.finish(job, { status: 'dead', lastError: `No handler registered for job type ${job.type}` });
+      return;
+    }
+
+    const context: JobContext = {
+      reportProgress: async (percent, message) => {
+        const progress = Math.max(0, Math.min(100, Math.round(percent)));
+        await db
+          .update(jobs)
+          .set({ progress, progressMessage: message ?? null, lockedAt: new Date(), updatedAt: new Date() })
+          .where(eq(jobs.id, job.id));
+        this.publish(job, 'running', progress, message);
+      },
+    };
+
+    this.publish(job, 'running', job.progress ?? 0);
+    const heartbeat = setInterval(() => void this.renewLock(job), JOB_HEARTBEAT_INTERVAL_MS);
+    try {
+      const result = await handler(job, context);
+      await this.finish(job, { status: 'completed', result: result ?? null, progress: 100 });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const next = failedJobState(job);
+      console.error(`Job ${job.type} (${job.id}) failed on attempt ${job.attempts}:`, message);
+      await this.finish(job, next.status === 'dead' ? { status: 'dead', lastError: message } : { ...next, lastError: message });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async renewLock(job: Job): Promise<void> {
+    try {
+      await db
+        .update(jobs)
+        .set({ lockedAt: new Date() })
+        .where(and(eq(jobs.id, job.id), eq(jobs.status, 'running'), eq(jobs.lockedBy, this.workerId)));
+    } catch (error) {
+      console.error(`Failed to renew the lock on job ${job.id}:`, error);
+    }
+  }
+
+  private async finish(
+    job: Job,
+    changes: { status: JobStatus; runAt?: Date; result?: unknown; progress?: number; lastError?: string }
+  ): Promise<void> {
+    const now = new Date();
+    const done = changes.status !== 'queued';
+    // Only while this worker still holds the lock: a job recovered from under it is already being run again
+    const [finished] = await db
+      .update(jobs)
+      .set({
+        ...changes,
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: done ? now : null,
+        updatedAt: now,
+      })
+      .where(and(eq(jobs.id, job.id), eq(jobs.lockedBy, this.workerId)))
+      .returning({ id: jobs.id });
+    if (!finished) {
+      console.error(`Job ${job.type} (${job.id}) lost its lock before finishing; its outcome was discarded`);
+      return;
+    }
+    this.publish(job, changes.status, changes.progress ?? job.progress ?? 0, changes.lastError);
+  }
+
+  private publish(job: Job, status: JobStatus, progress: number, message?: string): void {
+    const data = { jobId: job.id, jobType: job.type, status, progress, message: message ?? null };
+    if (job.organizationId) {
+      wsManager.sendToOrganization(job.organizationId, {
+        type: 'update',
+        data,
+        organizationId: job.organizationId,
+        timestamp: Date.now(),
+      });
+    } else {
+      wsManager.sendToRole('admin', { type: 'update', data, timestamp: Date.now() });
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,896 @@
+import { db } from '../db';
+import {
+  ledgerAccounts,
+  postingPeriods,
+  journalEntries,
+  journalLines,
+  type LedgerAccount,
+  type PostingPeriod,
+  type JournalEntry,
+} from '@shared/ledger-schema';
+import { funds, type Fund } from '@shared/fund-schema';
+import {
+  budgets,
+  budgetCategories,
+  digitalWallets,
+  type Payment,
+  type Expense,
+  type Transaction,
+  type EnhancedTransaction,
+} from '@shared/schema';
+import { eq, and, gte, lte, lt, asc, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { fxService, convertAmount } from './fx-service';
+
+// Either the shared db handle or the transaction handle passed to db.transaction callbacks
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type LedgerAccountType = LedgerAccount['type'];
+
+export interface LedgerLineInput {
+  accountCode: string;
+  fundId?: string;
+  debit?: string | number;
+  credit?: string | number;
+  memo?: string;
+}
+
+export interface PostJournalEntryInput {
+  organizationId: string;
+  entryDate?: Date;
+  description: string;
+  sourceType: string;
+  sourceId?: string;
+  createdBy: string;
+  fundId?: string; // applied to lines without their own fund; falls back to the General Fund
+  reversalOfEntryId?: string;
+  allowSoftClosed?: boolean; // adjusting entries may still post into soft-closed periods
+  lines: LedgerLineInput[];
+}
+
+export interface TrialBalanceRow {
+  accountId: string;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  normalBalance: 'debit' | 'credit';
+  totalDebits: string;
+  totalCredits: string;
+  balance: string;
+}
+
+export interface TrialBalance {
+  organizationId: string;
+  fundId?: string;
+  asOf: string;
+  accounts: TrialBalanceRow[];
+  totalDebits: string;
+  totalCredits: string;
+  isBalanced: boolean;
+}
+
+// Raised when a posting violates double-entry or period rules; routes map statusCode to the response
+export class LedgerError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 422) {
+    super(message);
+    this.name = 'LedgerError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Chart of accounts seeded for every organization on first posting
+export const DEFAULT_CHART_OF_ACCOUNTS: Array<{
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  normalBalance: 'debit' | 'credit';
+}> = [
+  { code: '1000', name: 'Cash - Operating', type: 'asset', normalBalance: 'debit' },
+  { code: '1010', name: 'Cash - Digital Wallets', type: 'asset', normalBalance: 'debit' },
+  { code: '1200', name: 'Receivables', type: 'asset', normalBalance: 'debit' },
+  { code: '1300', name: 'Due From Other Funds', type: 'asset', normalBalance: 'debit' },
+  { code: '1500', name: 'Provider Settlement Clearing', type: 'asset', normalBalance: 'debit' },
+  { code: '2000', name: 'Vouchers Payable', type: 'liability', normalBalance: 'credit' },
+  { code: '2100', name: 'Accrued Reimbursements Payable', type: 'liability', normalBalance: 'credit' },
+  { code: '2300', name: 'Due To Other Funds', type: 'liability', normalBalance: 'credit' },
+  { code: '3000', name: 'Fund Balance / Net Position', type: 'net_position', normalBalance: 'credit' },
+  { code: '4000', name: 'General Revenue', type: 'revenue', normalBalance: 'credit' },
+  { code: '4900', name: 'Transfers In', type: 'revenue', normalBalance: 'credit' },
+  { code: '4950', name: 'Realized Foreign Exchange Gains', type: 'revenue', normalBalance: 'credit' },
+  { code: '4960', name: 'Unrealized Foreign Exchange Gains', type: 'revenue', normalBalance: 'credit' },
+  { code: '5000', name: 'Expenditures - General', type: 'expenditure', normalBalance: 'debit' },
+  { code: '5100', name: 'Expenditures - Payroll', type: 'expenditure', normalBalance: 'debit' },
+  { code: '5200', name: 'Expenditures - Employee Expenses', type: 'expenditure', normalBalance: 'debit' },
+  { code: '5300', name: 'Expenditures - Taxes', type: 'expenditure', normalBalance: 'debit' },
+  { code: '5800', name: 'Transfers Out', type: 'expenditure', normalBalance: 'debit' },
+  { code: '5900', name: 'Bank and Provider Fees', type: 'expenditure', normalBalance: 'debit' },
+  { code: '5950', name: 'Realized Foreign Exchange Losses', type: 'expenditure', normalBalance: 'debit' },
+  { code: '5960', name: 'Unrealized Foreign Exchange Losses', type: 'expenditure', normalBalance: 'debit' },
+];
+
+export const ACCOUNT_CODES = {
+  cashOperating: '1000',
+  cashWallets: '1010',
+  receivables: '1200',
+  dueFromOtherFunds: '1300',
+  settlementClearing: '1500',
+  vouchersPayable: '2000',
+  reimbursementsPayable: '2100',
+  dueToOtherFunds: '2300',
+  fundBalance: '3000',
+  generalRevenue: '4000',
+  transfersIn: '4900',
+  realizedFxGains: '4950',
+  unrealizedFxGains: '4960',
+  expenditureGeneral: '5000',
+  expenditurePayroll: '5100',
+  expenditureEmployee: '5200',
+  expenditureTaxes: '5300',
+  transfersOut: '5800',
+  fees: '5900',
+  realizedFxLosses: '5950',
+  unrealizedFxLosses: '5960',
+} as const;
+
+const INACTIVE_PAYMENT_STATUSES = ['cancelled', 'failed', 'returned'];
+const UNPOSTED_EXPENSE_STATUSES = ['draft', 'rejected'];
+
+// Amounts are handled in integer cents so decimal strings never drift
+export function toCents(value: string | number | null | undefined): number {
+  if (value === null || value === undefined || value === '') return 0;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  if (Number.isNaN(parsed)) {
+    throw new LedgerError(`Invalid amount: ${value}`, 400);
+  }
+  return Math.round(parsed * 100);
+}
+
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// Validate that a set of lines is a well-formed entry that balances within each fund
+export function assertBalanced(lines: LedgerLineInput[]): void {
+  if (lines.length < 2) {
+    throw new LedgerError('A journal entry requires at least two lines');
+  }
+
+  let debits = 0;
+  let credits = 0;
+  const netByFund = new Map<string, number>();
+  for (const line of lines) {
+    const debit = toCents(line.debit);
+    const credit = toCents(line.credit);
+    if (debit < 0 || credit < 0) {
+      throw new LedgerError('Journal line amounts cannot be negative');
+    }
+    if ((debit === 0) === (credit === 0)) {
+      throw new LedgerError(`Journal line for account ${line.accountCode} must have exactly one of debit or credit`);
+    }
+    debits += debit;
+    credits += credit;
+    const fundKey = line.fundId ?? '';
+    netByFund.set(fundKey, (netByFund.get(fundKey) ?? 0) + debit - credit);
+  }
+
+  if (debits !== credits) {
+    throw new LedgerError(
+      `Journal entry is unbalanced: debits ${fromCents(debits)} != credits ${fromCents(credits)}`
+    );
+  }
+
+  for (const [fundId, net] of netByFund) {
+    if (net !== 0) {
+      throw new LedgerError(`Journal entry is unbalanced within fund ${fundId || '(default)'}`);
+    }
+  }
+}
+
+// Signed balance in the account's normal direction
+export function normalBalanceOf(normalBalance: 'debit' | 'credit', debitCents: number, creditCents: number): number {
+  return normalBalance === 'debit' ? debitCents - creditCents : creditCents - debitCents;
+}
+
+export function expenditureAccountForPayment(type: Payment['type']): string {
+  switch (type) {
+    case 'payroll':
+      return ACCOUNT_CODES.expenditurePayroll;
+    case 'tax':
+      return ACCOUNT_CODES.expenditureTaxes;
+    case 'transfer':
+      return ACCOUNT_CODES.settlementClearing;
+    default:
+      return ACCOUNT_CODES.expenditureGeneral;
+  }
+}
+
+// Ledger postings are in the base currency; rows booked before multi-currency have no base amount
+export function baseAmountOf(row: { amount: string; baseAmount?: string | null }): string {
+  return row.baseAmount ?? row.amount;
+}
+
+// Balancing line for the difference between the base amount booked and the base amount paid
+export function realizedFxLines(bookedBase: string, settledBase: string): LedgerLineInput[] {
+  const difference = toCents(bookedBase) - toCents(settledBase);
+  if (difference > 0) {
+    return [{ accountCode: ACCOUNT_CODES.realizedFxGains, credit: fromCents(difference), memo: 'Realized FX gain' }];
+  }
+  if (difference < 0) {
+    return [{ accountCode: ACCOUNT_CODES.realizedFxLosses, debit: fromCents(-difference), memo: 'Realized FX loss' }];
+  }
+  return [];
+}
+
+// Build trial balance rows from accounts and their aggregated line totals
+export function summarizeTrialBalance(
+  accounts: LedgerAccount[],
+  totals: Array<{ accountId: string; debit: string | null; credit: string | null }>
+): Omit<TrialBalance, 'organizationId' | 'fundId' | 'asOf'> {
+  const totalsByAccount = new Map(totals.map((t) => [t.accountId, t]));
+  let totalDebits = 0;
+  let totalCredits = 0;
+
+  const rows = accounts
+    .slice()
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .map((account) => {
+      const total = totalsByAccount.get(account.id);
+      const debit = toCents(total?.debit);
+      const credit = toCents(total?.credit);
+      totalDebits += debit;
+      totalCredits += credit;
+      return {
+        accountId: account.id,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        normalBalance: account.normalBalance,
+        totalDebits: fromCents(debit),
+        totalCredits: fromCents(credit),
+        balance: fromCents(normalBalanceOf(account.normalBalance, debit, credit)),
+      };
+    });
+
+  return {
+    accounts: rows,
+    totalDebits: fromCents(totalDebits),
+    totalCredits: fromCents(totalCredits),
+    isBalanced: totalDebits === totalCredits,
+  };
+}
+
+export class LedgerService {
+  /**
+   * Seed the default chart of accounts for an organization and return it keyed by code
+   */
+  async ensureChartOfAccounts(organizationId: string, executor: DbExecutor = db): Promise<Map<string, LedgerAccount>> {
+    const existing = await executor
+      .select()
+      .from(ledgerAccounts)
+      .where(eq(ledgerAccounts.organizationId, organizationId));
+
+    const byCode = new Map(existing.map((account) => [account.code, account]));
+    const missing = DEFAULT_CHART_OF_ACCOUNTS.filter((account) => !byCode.has(account.code));
+
+    if (missing.length > 0) {
+      const created = await executor
+        .insert(ledgerAccounts)
+        .values(missing.map((account) => ({ ...account, organizationId, isSystem: true })))
+        .onConflictDoNothing()
+        .returning();
+      created.forEach((account) => byCode.set(account.code, account));
+    }
+
+    return byCode;
+  }
+
+  /**
+   * Return the organization's General Fund, creating it on first use
+   */
+  async ensureGeneralFund(organizationId: string, executor: DbExecutor = db): Promise<Fund> {
+    const [existing] = await executor
+      .select()
+      .from(funds)
+      .where(and(eq(funds.organizationId, organizationId), eq(funds.type, 'general')))
+      .orderBy(asc(funds.code))
+      .limit(1);
+
+    if (existing) return existing;
+
+    const [created] = await executor
+      .insert(funds)
+      .values({ organizationId, code: '100', name: 'General Fund', type: 'general', isMajor: true })
+      .returning();
+    return created;
+  }
+
+  /**
+   * Find the posting period containing a date, opening a monthly period if none exists
+   */
+  async resolvePostingPeriod(
+    organizationId: string,
+    entryDate: Date,
+    executor: DbExecutor = db,
+    allowSoftClosed = false
+  ): Promise<PostingPeriod> {
+    const [period] = await executor
+      .select()
+      .from(postingPeriods)
+      .where(
+        and(
+          eq(postingPeriods.organizationId, organizationId),
+          lte(postingPeriods.startDate, entryDate),
+          gte(postingPeriods.endDate, entryDate)
+        )
+      )
+      .limit(1);
+
+    if (period) {
+      if (period.status === 'hard_closed' || (period.status === 'soft_closed' && !allowSoftClosed)) {
+        throw new LedgerError(`Posting period ${period.name} is ${period.status.replace('_', '-')}`, 409);
+      }
+      return period;
+    }
+
+    const year = entryDate.getFullYear();
+    const month = entryDate.getMonth();
+    const [created] = await executor
+      .insert(postingPeriods)
+      .values({
+        organizationId,
+        name: `${year}-${String(month + 1).padStart(2, '0')}`,
+        fiscalYear: year,
+        periodNumber: month + 1,
+        startDate: new Date(year, month, 1),
+        endDate: new Date(year, month + 1, 0, 23, 59, 59, 999),
+        status: 'open',
+      })
+      .onConflictDoNothing({ target: [postingPeriods.organizationId, postingPeriods.startDate] })
+      .returning();
+    // Another posting opened the month first; use its period, closed or not
+    return created ?? this.resolvePostingPeriod(organizationId, entryDate, executor, allowSoftClosed);
+  }
+
+  /**
+   * Post a balanced journal entry
+   */
+  async postJournalEntry(input: PostJournalEntryInput, executor: DbExecutor = db): Promise<JournalEntry> {
+    let defaultFundId = input.fundId;
+    if (!defaultFundId && input.lines.some((line) => !line.fundId)) {
+      defaultFundId = (await this.ensureGeneralFund(input.organizationId, executor)).id;
+    }
+    const fundedLines = input.lines.map((line) => ({ ...line, fundId: line.fundId ?? defaultFundId! }));
+    assertBalanced(fundedLines);
+
+    const entryDate = input.entryDate ?? new Date();
+    const accounts = await this.ensureChartOfAccounts(input.organizationId, executor);
+    const resolvedLines = fundedLines.map((line) => {
+      const account = accounts.get(line.accountCode);
+      if (!account) {
+        throw new LedgerError(`Unknown ledger account ${line.accountCode}`);
+      }
+      return { ...line, accountId: account.id };
+    });
+    const period = await this.resolvePostingPeriod(
+      input.organizationId,
+      entryDate,
+      executor,
+      input.allowSoftClosed
+    );
+
+    const [entry] = await executor
+      .insert(journalEntries)
+      .values({
+        organizationId: input.organizationId,
+        entryNumber: `JE-${period.name}-${nanoid(8)}`,
+        entryDate,
+        postingPeriodId: period.id,
+        description: input.description,
+        sourceType: input.sourceType,
+        sourceId: input.sourceId,
+        reversalOfEntryId: input.reversalOfEntryId,
+        createdBy: input.createdBy,
+      })
+      .returning();
+
+    await executor.insert(journalLines).values(
+      resolvedLines.map((line, index) => ({
+        journalEntryId: entry.id,
+        organizationId: input.organizationId,
+        accountId: line.accountId,
+        fundId: line.fundId,
+        lineNumber: index + 1,
+        debit: fromCents(toCents(line.debit)),
+        credit: fromCents(toCents(line.credit)),
+        memo: line.memo,
+      }))
+    );
+
+    return entry;
+  }
+
+  /**
+   * Reverse every posted entry for a source document with mirror-image entries
+   */
+  async reverseSourceEntries(
+    sourceType: string,
+    sourceId: string,
+    createdBy: string,
+    reason: string,
+    executor: DbExecutor = db
+  ): Promise<JournalEntry[]> {
+    const entries = await executor
+      .select()
+      .from(journalEntries)
+      .where(
+        and(
+          eq(journalEntries.sourceType, sourceType),
+          eq(journalEntries.sourceId, sourceId),
+          eq(journalEntries.status, 'posted')
+        )
+      );
+
+    const reversals: JournalEntry[] = [];
+    for (const original of entries) {
+      // Reversal entries are themselves posted; skip them so a second reversal doesn't undo the first
+      if (original.reversalOfEntryId) continue;
+
+      const lines = await executor
+        .select({
+          debit: journalLines.debit,
+          credit: journalLines.credit,
+          memo: journalLines.memo,
+          fundId: journalLines.fundId,
+          code: ledgerAccounts.code,
+        })
+        .from(journalLines)
+        .innerJoin(ledgerAccounts, eq(journalLines.accountId, ledgerAccounts.id))
+        .where(eq(journalLines.journalEntryId, original.id))
+        .orderBy(asc(journalLines.lineNumber));
+
+      const reversal = await this.postJournalEntry(
+        {
+          organizationId: original.organizationId,
+          description: `Reversal of ${original.entryNumber}: ${reason}`,
+          sourceType,
+          sourceId,
+          createdBy,
+          reversalOfEntryId: original.id,
+          lines: lines.map((line) => ({
+            accountCode: line.code,
+            fundId: line.fundId,
+            debit: line.credit ?? '0',
+            credit: line.debit ?? '0',
+            memo: line.memo ?? undefined,
+          })),
+        },
+        executor
+      );
+
+      await executor
+        .update(journalEntries)
+        .set({ status: 'reversed' })
+        .where(eq(journalEntries.id, original.id));
+
+      reversals.push(reversal);
+    }
+
+    return reversals;
+  }
+
+  /**
+   * Fund of the budget a budget category belongs to
+   */
+  async resolveBudgetCategoryFundId(
+    budgetCategoryId: string | null,
+    executor: DbExecutor = db
+  ): Promise<string | undefined> {
+    if (!budgetCategoryId) return undefined;
+    const [row] = await executor
+      .select({ fundId: budgets.fundId })
+      .from(budgetCategories)
+      .innerJoin(budgets, eq(budgetCategories.budgetId, budgets.id))
+      .where(eq(budgetCategories.id, budgetCategoryId));
+    return row?.fundId ?? undefined;
+  }
+
+  /**
+   * Fund a payment is charged to: its own tag, otherwise its budget's fund
+   */
+  async resolvePaymentFundId(payment: Payment, executor: DbExecutor = db): Promise<string | undefined> {
+    return payment.fundId ?? this.resolveBudgetCategoryFundId(payment.budgetCategoryId, executor);
+  }
+
+  /**
+   * Fund that owns a digital wallet's cash
+   */
+  async resolveWalletFundId(walletId: string | null, executor: DbExecutor = db): Promise<string | undefined> {
+    if (!walletId) return undefined;
+    const [wallet] = await executor
+      .select({ fundId: digitalWallets.fundId })
+      .from(digitalWallets)
+      .where(eq(digitalWallets.id, walletId));
+    return wallet?.fundId ?? undefined;
+  }
+
+  /**
+   * Base-currency value of a foreign-currency row at the rate on its settlement date. Rows in the
+   * base currency (no booking rate), or with no rate newer than booking, settle at the booked amount.
+   */
+  async settledBaseAmount(
+    row: { organizationId: string; amount: string; currency: string | null; exchangeRate: string | null; baseAmount: string | null },
+    settledAt: Date,
+    executor: DbExecutor = db
+  ): Promise<string> {
+    if (!row.exchangeRate || !row.currency) return baseAmountOf(row);
+    const baseCurrency = await fxService.getBaseCurrency(row.organizationId, executor);
+    const rate = await fxService.findRate(row.organizationId, row.currency, baseCurrency, settledAt, executor);
+    return rate === null ? baseAmountOf(row) : convertAmount(row.amount, rate);
+  }
+
+  /**
+   * Record a newly created payment as an expenditure (accrued or paid)
+   */
+  async postPayment(payment: Payment, executor: DbExecutor = db): Promise<JournalEntry | undefined> {
+    if (INACTIVE_PAYMENT_STATUSES.includes(payment.status ?? 'pending')) return undefined;
+
+    const debitAccount = expenditureAccountForPayment(payment.type);
+    const creditAccount = payment.status === 'completed'
+      ? ACCOUNT_CODES.cashOperating
+      : ACCOUNT_CODES.vouchersPayable;
+
+    return this.postJournalEntry(
+      {
+        organizationId: payment.organizationId,
+        fundId: await this.resolvePaymentFundId(payment, executor),
+        entryDate: payment.processedDate ?? undefined,
+        description: `Payment: ${payment.description}`,
+        sourceType: 'payment',
+        sourceId: payment.id,
+        createdBy: payment.createdBy,
+        lines: [
+          { accountCode: debitAccount, debit: baseAmountOf(payment) },
+          { accountCode: creditAccount, credit: baseAmountOf(payment) },
+        ],
+      },
+      executor
+    );
+  }
+
+  /**
+   * Apply the ledger effect of a payment update: settlement, cancellation or amount change
+   */
+  async postPaymentStatusChange(
+    before: Payment,
+    after: Payment,
+    actorId: string,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    const wasActive = !INACTIVE_PAYMENT_STATUSES.includes(before.status ?? 'pending');
+    const isActive = !INACTIVE_PAYMENT_STATUSES.includes(after.status ?? 'pending');
+    const changedTerms = before.amount !== after.amount || before.type !== after.type || before.currency !== after.currency;
+
+    if (wasActive && (!isActive || changedTerms)) {
+      await this.reverseSourceEntries('payment', after.id, actorId, `payment ${after.status}`, executor);
+    }
+
+    if (isActive && (!wasActive || changedTerms)) {
+      await this.postPayment(after, executor);
+      return;
+    }
+
+    if (wasActive && isActive && before.status !== 'completed' && after.status === 'completed') {
+      const booked = baseAmountOf(after);
+      const settled = await this.settledBaseAmount(after, after.processedDate ?? new Date(), executor);
+      await this.postJournalEntry(
+        {
+          organizationId: after.organizationId,
+          fundId: await this.resolvePaymentFundId(after, executor),
+          description: `Payment settled: ${after.description}`,
+          sourceType: 'payment',
+          sourceId: after.id,
+          createdBy: actorId,
+          lines: [
+            { accountCode: ACCOUNT_CODES.vouchersPayable, debit: booked },
+            { accountCode: ACCOUNT_CODES.cashOperating, credit: settled },
+            ...realizedFxLines(booked, settled),
+          ],
+        },
+        executor
+      );
+    }
+  }
+
+  /**
+   * Record a submitted expense claim as an accrued reimbursement
+   */
+  async postExpense(expense: Expense, executor: DbExecutor = db): Promise<JournalEntry | undefined> {
+    if (UNPOSTED_EXPENSE_STATUSES.includes(expense.status ?? 'draft')) return undefined;
+
+    const creditAccount = expense.status === 'reimbursed'
+      ? ACCOUNT_CODES.cashOperating
+      : ACCOUNT_CODES.reimbursementsPayable;
+
+    return this.postJournalEntry(
+      {
+        organizationId: expense.organizationId,
+        fundId: await this.resolveBudgetCategoryFundId(expense.budgetCategoryId, executor),
+        entryDate: expense.expenseDate ?? undefined,
+        description: `Expense: ${expense.description}`,
+        sourceType: 'expense',
+        sourceId: expense.id,
+        createdBy: expense.submittedBy,
+        lines: [
+          { accountCode: ACCOUNT_CODES.expenditureEmployee, debit: baseAmountOf(expense) },
+          { accountCode: creditAccount, credit: baseAmountOf(expense) },
+        ],
+      },
+      executor
+    );
+  }
+
+  /**
+   * Apply the ledger effect of an expense update: submission, rejection or reimbursement
+   */
+  async postExpenseStatusChange(
+    before: Expense,
+    after: Expense,
+    actorId: string,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    const wasPosted = !UNPOSTED_EXPENSE_STATUSES.includes(before.status ?? 'draft');
+    const isPosted = !UNPOSTED_EXPENSE_STATUSES.includes(after.status ?? 'draft');
+    const changedAmount = before.amount !== after.amount || before.currency !== after.currency;
+
+    if (wasPosted && (!isPosted || changedAmount)) {
+      await this.reverseSourceEntries('expense', after.id, actorId, `expense ${after.status}`, executor);
+    }
+
+    if (isPosted && (!wasPosted || changedAmount)) {
+      await this.postExpense(after, executor);
+      return;
+    }
+
+    if (wasPosted && isPosted && before.status !== 'reimbursed' && after.status === 'reimbursed') {
+      const booked = baseAmountOf(after);
+      const settled = await this.settledBaseAmount(after, new Date(), executor);
+      await this.postJournalEntry(
+        {
+          organizationId: after.organizationId,
+          fundId: await this.resolveBudgetCategoryFundId(after.budgetCategoryId, executor),
+          description: `Expense reimbursed: ${after.description}`,
+          sourceType: 'expense',
+          sourceId: after.id,
+          createdBy: actorId,
+          lines: [
+            { accountCode: ACCOUNT_CODES.reimbursementsPayable, debit: booked },
+            { accountCode: ACCOUNT_CODES.cashOperating, credit: settled },
+            ...realizedFxLines(booked, settled),
+          ],
+        },
+        executor
+      );
+    }
+  }
+
+  /**
+   * Record a digital wallet movement
+   */
+  async postTransaction(transaction: Transaction, executor: DbExecutor = db): Promise<JournalEntry> {
+    // Wallet movements tied to a payment or expense move cash between operating and wallet accounts;
+    // unlinked movements settle against the provider clearing account
+    const counterAccount = transaction.paymentId || transaction.expenseId
+      ? ACCOUNT_CODES.cashOperating
+      : ACCOUNT_CODES.settlementClearing;
+    const isCredit = transaction.type === 'credit';
+
+    return this.postJournalEntry(
+      {
+        organizationId: transaction.organizationId,
+        fundId: await this.resolveWalletFundId(transaction.walletId, executor),
+        description: `Wallet ${transaction.type}: ${transaction.description ?? transaction.id}`,
+        sourceType: 'transaction',
+        sourceId: transaction.id,
+        createdBy: 'system',
+        lines: [
+          {
+            accountCode: isCredit ? ACCOUNT_CODES.cashWallets : counterAccount,
+            debit: baseAmountOf(transaction),
+          },
+          {
+            accountCode: isCredit ? counterAccount : ACCOUNT_CODES.cashWallets,
+            credit: baseAmountOf(transaction),
+          },
+        ],
+      },
+      executor
+    );
+  }
+
+  /**
+   * Record a completed provider transaction and its fees
+   */
+  async postEnhancedTransaction(
+    transaction: EnhancedTransaction,
+    executor: DbExecutor = db
+  ): Promise<JournalEntry | undefined> {
+    if (transaction.status !== 'completed') return undefined;
+
+    const lines: LedgerLineInput[] = [];
+    // Payments and expenses carry their own postings; only unlinked movements hit cash here
+    if (!transaction.paymentId && !transaction.expenseId) {
+      const isDebit = transaction.type === 'debit';
+      lines.push(
+        {
+          accountCode: isDebit ? ACCOUNT_CODES.settlementClearing : ACCOUNT_CODES.cashOperating,
+          debit: baseAmountOf(transaction),
+        },
+        {
+          accountCode: isDebit ? ACCOUNT_CODES.cashOperating : ACCOUNT_CODES.settlementClearing,
+          credit: baseAmountOf(transaction),
+        }
+      );
+    }
+
+    // Fees are charged in the transaction's currency
+    const fees = transaction.exchangeRate ? convertAmount(transaction.fees ?? 0, transaction.exchangeRate) : transaction.fees;
+    if (toCents(fees) > 0) {
+      lines.push(
+        { accountCode: ACCOUNT_CODES.fees, debit: fees!, memo: `${transaction.provider} fees` },
+        { accountCode: ACCOUNT_CODES.cashOperating, credit: fees! }
+      );
+    }
+
+    if (lines.length === 0) return undefined;
+
+    return this.postJournalEntry(
+      {
+        organizationId: transaction.organizationId,
+        fundId: await this.resolveWalletFundId(transaction.walletId, executor),
+        entryDate: transaction.settlementDate ?? undefined,
+        description: `${transaction.provider} ${transaction.paymentType} ${transaction.type}: ${transaction.description ?? transaction.id}`,
+        sourceType: 'enhanced_transaction',
+        sourceId: transaction.id,
+        createdBy: 'system',
+        lines,
+      },
+      executor
+    );
+  }
+
+  /**
+   * Apply the ledger effect of a provider transaction status change
+   */
+  async postEnhancedTransactionStatusChange(
+    before: EnhancedTransaction,
+    after: EnhancedTransaction,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    if (before.status !== 'completed' && after.status === 'completed') {
+      await this.postEnhancedTransaction(after, executor);
+    } else if (before.status === 'completed' && after.status !== 'completed') {
+      await this.reverseSourceEntries(
+        'enhanced_transaction',
+        after.id,
+        'system',
+        `transaction ${after.status}`,
+        executor
+      );
+    }
+  }
+
+  /**
+   * Trial balance of all accounts as of a date, optionally limited to one fund
+   */
+  async getTrialBalance(organizationId: string, asOf: Date = new Date(), fundId?: string): Promise<TrialBalance> {
+    const accounts = await this.ensureChartOfAccounts(organizationId);
+    const conditions = [eq(journalLines.organizationId, organizationId), lte(journalEntries.entryDate, asOf)];
+    if (fundId) conditions.push(eq(journalLines.fundId, fundId));
+
+    const totals = await db
+      .select({
+        accountId: journalLines.accountId,
+        debit: sql<string>`coalesce(sum(${journalLines.debit}), 0)`,
+        credit: sql<string>`coalesce(sum(${journalLines.credit}), 0)`,
+      })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+      .where(and(...conditions))
+      .groupBy(journalLines.accountId);
+
+    return {
+      organizationId,
+      fundId,
+      asOf: asOf.toISOString(),
+      ...summarizeTrialBalance(Array.from(accounts.values()), totals),
+    };
+  }
+
+  /**
+   * Line-level activity for an account with opening and running balances
+   */
+  async getAccountActivity(
+    accountId: string,
+    organizationId: string,
+    range: { startDate?: Date; endDate?: Date } = {}
+  ): Promise<{
+    account: LedgerAccount;
+    openingBalance: string;
+    closingBalance: string;
+    lines: Array<{
+      journalEntryId: string;
+      entryNumber: string;
+      entryDate: Date;
+      description: string | null;
+      sourceType: string | null;
+      sourceId: string | null;
+      debit: string;
+      credit: string;
+      memo: string | null;
+      runningBalance: string;
+    }>;
+  } | undefined> {
+    const [account] = await db
+      .select()
+      .from(ledgerAccounts)
+      .where(and(eq(ledgerAccounts.id, accountId), eq(ledgerAccounts.organizationId, organizationId)));
+
+    if (!account) return undefined;
+
+    let opening = 0;
+    if (range.startDate) {
+      const [prior] = await db
+        .select({
+          debit: sql<string>`coalesce(sum(${journalLines.debit}), 0)`,
+          credit: sql<string>`coalesce(sum(${journalLines.credit}), 0)`,
+        })
+        .from(journalLines)
+        .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+        .where(and(eq(journalLines.accountId, accountId), lt(journalEntries.entryDate, range.startDate)));
+      opening = normalBalanceOf(account.normalBalance, toCents(prior?.debit), toCents(prior?.credit));
+    }
+
+    const conditions = [eq(journalLines.accountId, accountId)];
+    if (range.startDate) conditions.push(gte(journalEntries.entryDate, range.startDate));
+    if (range.endDate) conditions.push(lte(journalEntries.entryDate, range.endDate));
+
+    const rows = await db
+      .select({
+        journalEntryId: journalEntries.id,
+        entryNumber: journalEntries.entryNumber,
+        entryDate: journalEntries.entryDate,
+        description: journalEntries.description,
+        sourceType: journalEntries.sourceType,
+        sourceId: journalEntries.sourceId,
+        debit: journalLines.debit,
+        credit: journalLines.credit,
+        memo: journalLines.memo,
+      })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+      .where(and(...conditions))
+      .orderBy(asc(journalEntries.entryDate), asc(journalEntries.createdAt), asc(journalLines.lineNumber));
+
+    let running = opening;
+    const lines = rows.map((row) => {
+      running += normalBalanceOf(account.normalBalance, toCents(row.debit), toCents(row.credit));
+      return {
+        ...row,
+        debit: row.debit ?? '0.00',
+        credit: row.credit ?? '0.00',
+        runningBalance: fromCents(running),
+      };
+    });
+
+    return {
+      account,
+      openingBalance: fromCents(opening),
+      closingBalance: fromCents(running),
+      lines,
+    };
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -0,0 +1,567 @@
+import { LedgerError } from './ledger-service';
+
+// NACHA files are fixed-width 94-character records blocked in tens
+export const RECORD_LENGTH = 94;
+const BLOCKING_FACTOR = 10;
+
+export type SecCode = 'PPD' | 'CCD' | 'CTX';
+export type AccountType = 'checking' | 'savings';
+
+export const TRANSACTION_CODES = {
+  checking: { credit: '22', debit: '27', creditPrenote: '23', debitPrenote: '28' },
+  savings: { credit: '32', debit: '37', creditPrenote: '33', debitPrenote: '38' },
+} as const;
+
+const CREDIT_CODES = ['21', '22', '23', '24', '31', '32', '33', '34', '41', '42', '43', '51', '52', '53'];
+
+// Service class: 200 mixed, 220 credits only, 225 debits only
+const SERVICE_CLASS = { mixed: '200', credits: '220', debits: '225' } as const;
+
+export interface NachaOriginator {
+  immediateDestination: string; // ODFI / Fed routing number (9 digits)
+  immediateDestinationName: string;
+  immediateOrigin: string; // usually "1" + EIN, 10 characters
+  immediateOriginName: string;
+  companyName: string;
+  companyIdentification: string; // 10 characters
+  originatingDfi: string; // first 8 digits of the ODFI routing number
+}
+
+export interface NachaEntryInput {
+  transactionCode: string;
+  routingNumber: string;
+  accountNumber: string;
+  amountCents: number;
+  individualId: string; // PPD individual id / CCD-CTX identification number
+  name: string; // receiver / receiving company name
+  discretionaryData?: string;
+  addenda?: string[]; // payment related information; PPD/CCD allow one, CTX up to 9999
+}
+
+export interface NachaBatchInput {
+  secCode: SecCode;
+  companyEntryDescription: string; // e.g. PAYROLL, VENDOR PAY
+  effectiveEntryDate: Date;
+  companyDiscretionaryData?: string;
+  entries: NachaEntryInput[];
+  // Balancing entry against the originator's settlement account
+  offsetAccount?: { routingNumber: string; accountNumber: string; accountType: AccountType; name: string };
+}
+
+export interface NachaFileInput {
+  originator: NachaOriginator;
+  fileCreationDate: Date;
+  fileIdModifier: string;
+  referenceCode?: string;
+  batches: NachaBatchInput[];
+  // First trace sequence to use; callers reserve a block from the ODFI's persistent sequence so
+  // trace numbers never repeat across files
+  traceSequenceStart?: number;
+}
+
+export interface NachaBuiltEntry {
+  batchNumber: number;
+  traceNumber: string;
+  secCode: SecCode;
+  transactionCode: string;
+  routingNumber: string;
+  accountNumber: string;
+  amountCents: number;
+  name: string;
+  isOffset: boolean;
+}
+
+export interface NachaFileTotals {
+  batchCount: number;
+  blockCount: number;
+  entryAddendaCount: number;
+  entryHash: string;
+  totalDebitCents: number;
+  totalCreditCents: number;
+}
+
+export interface NachaBuiltFile extends NachaFileTotals {
+  content: string;
+  entries: NachaBuiltEntry[];
+}
+
+// Addenda returned by the RDFI: 99 returns, 98 notifications of change
+export interface NachaReturnAddenda {
+  addendaType: '98' | '99';
+  reasonCode: string; // R01..., C01...
+  originalTraceNumber: string;
+  originalReceivingDfi: string;
+  dateOfDeath: string | null;
+  correctedData: string | null;
+  information: string | null;
+}
+
+export interface NachaParsedEntry {
+  batchNumber: number;
+  secCode: string;
+  transactionCode: string;
+  routingNumber: string;
+  accountNumber: string;
+  amountCents: number;
+  individualId: string;
+  name: string;
+  traceNumber: string;
+  addenda: string[];
+  returnAddenda: NachaReturnAddenda | null;
+}
+
+export interface NachaParsedFile extends NachaFileTotals {
+  valid: boolean;
+  errors: string[];
+  immediateDestination: string | null;
+  immediateOrigin: string | null;
+  fileCreationDate: string | null;
+  batches: Array<{ batchNumber: number; secCode: string; companyName: string; companyIdentification: string; entryCount: number }>;
+  entries: NachaParsedEntry[];
+}
+
+// ---------- field helpers ----------
+
+// Upper-case, strip characters outside the NACHA alphanumeric set, left-justify
+function alpha(value: string | undefined | null, length: number): string {
+  const cleaned = (value ?? '').toUpperCase().replace(/[^A-Z0-9 !"&'()*+,\-./:;<>=?@[\]^_`{}|~#$%]/g, '');
+  return cleaned.slice(0, length).padEnd(length, ' ');
+}
+
+function numeric(value: number | string, length: number): string {
+  const digits = String(value).replace(/\D/g, '');
+  if (digits.length > length) {
+    throw new LedgerError(`Value ${value} does not fit in ${length} digits`, 400);
+  }
+  return digits.padStart(length, '0');
+}
+
+function yymmdd(date: Date): string {
+  return `${String(date.getFullYear()).slice(-2)}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function hhmm(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+// ABA routing number checksum (3-7-1 weighting)
+export function isValidRoutingNumber(routingNumber: string): boolean {
+  if (!/^\d{9}$/.test(routingNumber)) return false;
+  const digits = routingNumber.split('').map(Number);
+  const sum = 3 * (digits[0] + digits[3] + digits[6]) + 7 * (digits[1] + digits[4] + digits[7]) + (digits[2] + digits[5] + digits[8]);
+  return sum % 10 === 0;
+}
+
+export function isCreditTransactionCode(transactionCode: string): boolean {
+  return CREDIT_CODES.includes(transactionCode);
+}
+
+// Sum of the 8-digit RDFI identifiers, keeping the rightmost ten digits
+export function computeEntryHash(routingNumbers: string[]): string {
+  const total = routingNumbers.reduce((sum, routing) => (sum + Number(routing.slice(0, 8))) % 1e10, 0);
+  return String(total).padStart(10, '0');
+}
+
+function assertRecord(record: string): string {
+  if (record.length !== RECORD_LENGTH) {
+    throw new Error(`NACHA record built with ${record.length} characters: ${record}`);
+  }
+  return record;
+}
+
+// ---------- builder ----------
+
+const MAX_TRACE_SEQUENCE = 9_999_999;
+
+// The 7-digit part of a trace number; wraps back to 1 after 9,999,999
+export function traceSequence(sequence: number): number {
+  return ((sequence - 1) % MAX_TRACE_SEQUENCE) + 1;
+}
+
+// Trace numbers a file can use at most: one per entry plus an offset entry per batch
+export function traceNumbersNeeded(batches: Pick<NachaBatchInput, 'entries' | 'offsetAccount'>[]): number {
+  return batches.reduce((total, batch) => total + batch.entries.length + (batch.offsetAccount ? 1 : 0), 0);
+}
+
+export function buildNachaFile(input: NachaFileInput): NachaBuiltFile {
+  const { originator } = input;
+  if (!isValidRoutingNumber(originator.immediateDestination)) {
+    throw new LedgerError('Immediate destination must be a valid routing number', 400);
+  }
+  if (!/^\d{8}$/.test(originator.originatingDfi)) {
+    throw new LedgerError('Originating DFI must be 8 digits', 400);
+  }
+  if (!/^[A-Z0-9]$/.test(input.fileIdModifier)) {
+    throw new LedgerError('File ID modifier must be a single A-Z or 0-9 character', 400);
+  }
+  if (input.batches.length === 0) {
+    throw new LedgerError('A NACHA file needs at least one batch', 400);
+  }
+
+  const records: string[] = [];
+  const builtEntries: NachaBuiltEntry[] = [];
+  let fileEntryCount = 0;
+  let fileDebits = 0;
+  let fileCredits = 0;
+  const fileRoutings: string[] = [];
+
+  records.push(assertRecord([
+    '1',
+    '01',
+    ` ${numeric(originator.immediateDestination, 9)}`,
+    alpha(originator.immediateOrigin, 10).replace(/^(\d{9}) $/, ' $1'),
+    yymmdd(input.fileCreationDate),
+    hhmm(input.fileCreationDate),
+    input.fileIdModifier,
+    '094',
+    '10',
+    '1',
+    alpha(originator.immediateDestinationName, 23),
+    alpha(originator.immediateOriginName, 23),
+    alpha(input.referenceCode, 8),
+  ].join('')));
+
+  let sequence = (input.traceSequenceStart ?? 1) - 1;
+  input.batches.forEach((batch, batchIndex) => {
+    const batchNumber = batchIndex + 1;
+    const entries: NachaEntryInput[] = [...batch.entries];
+    if (entries.length === 0) {
+      throw new LedgerError(`Batch ${batchNumber} has no entries`, 400);
+    }
+
+    // Balance the batch against the settlement account
+    if (batch.offsetAccount) {
+      const net = entries.reduce(
+        (sum, entry) => sum + (isCreditTransactionCode(entry.transactionCode) ? entry.amountCents : -entry.amountCents),
+        0
+      );
+      if (net !== 0) {
+        const codes = TRANSACTION_CODES[batch.offsetAccount.accountType];
+        entries.push({
+          transactionCode: net > 0 ? codes.debit : codes.credit,
+          routingNumber: batch.offsetAccount.routingNumber,
+          accountNumber: batch.offsetAccount.accountNumber,
+          amountCents: Math.abs(net),
+          individualId: 'OFFSET',
+          name: batch.offsetAccount.name,
+        });
+      }
+    }
+
+    const hasCredits = entries.some((entry) => isCreditTransactionCode(entry.transactionCode));
+    const hasDebits = entries.some((entry) => !isCreditTransactionCode(entry.transactionCode));
+    let serviceClass: string = SERVICE_CLASS.mixed;
+    if (!hasDebits) serviceClass = SERVICE_CLASS.credits;
+    else if (!hasCredits) serviceClass = SERVICE_CLASS.debits;
+
+    records.push(assertRecord([
+      '5',
+      serviceClass,
+      alpha(originator.companyName, 16),
+      alpha(batch.companyDiscretionaryData, 20),
+      alpha(originator.companyIdentification, 10),
+      batch.secCode,
+      alpha(batch.companyEntryDescription, 10),
+      alpha('', 6),
+      yymmdd(batch.effectiveEntryDate),
+      '   ',
+      '1',
+      originator.originatingDfi,
+      numeric(batchNumber, 7),
+    ].join('')));
+
+    let batchCount = 0;
+    let batchDebits = 0;
+    let batchCredits = 0;
+    const batchRoutings: string[] = [];
+
+    entries.forEach((entry, entryIndex) => {
+      if (!isValidRoutingNumber(entry.routingNumber)) {
+        throw new LedgerError(`Invalid routing number ${entry.routingNumber} for ${entry.name}`, 400);
+      }
+      if (!Number.isInteger(entry.amountCents) || entry.amountCents < 0) {
+        throw new LedgerError(`Invalid amount for ${entry.name}`, 400);
+      }
+      const addenda = entry.addenda ?? [];
+      if (batch.secCode !== 'CTX' && addenda.length > 1) {
+        throw new LedgerError(`${batch.secCode} entries allow at most one addenda record`, 400);
+      }
+
+      sequence += 1;
+      const traceNumber = `${originator.originatingDfi}${numeric(traceSequence(sequence), 7)}`;
+      const isOffset = Boolean(batch.offsetAccount) && entryIndex >= batch.entries.length;
+
+      const identification = batch.secCode === 'CTX'
+        ? [alpha(entry.individualId, 15), numeric(addenda.length, 4), alpha(entry.name, 16), '  ', alpha(entry.discretionaryData, 2)]
+        : [alpha(entry.individualId, 15), alpha(entry.name, 22), alpha(entry.discretionaryData, 2)];
+
+      records.push(assertRecord([
+        '6',
+        entry.transactionCode,
+        entry.routingNumber.slice(0, 8),
+        entry.routingNumber.slice(8),
+        alpha(entry.accountNumber.replace(/\s/g, ''), 17),
+        numeric(entry.amountCents, 10),
+        ...identification,
+        addenda.length > 0 ? '1' : '0',
+        traceNumber,
+      ].join('')));
+
+      addenda.forEach((info, addendaIndex) => {
+        records.push(assertRecord([
+          '7',
+          '05',
+          alpha(info, 80),
+          numeric(addendaIndex + 1, 4),
+          traceNumber.slice(-7),
+        ].join('')));
+      });
+
+      batchCount += 1 + addenda.length;
+      batchRoutings.push(entry.routingNumber);
+      if (isCreditTransactionCode(entry.transactionCode)) batchCredits += entry.amountCents;
+      else batchDebits += entry.amountCents;
+
+      builtEntries.push({
+        batchNumber,
+        traceNumber,
+        secCode: batch.secCode,
+        transactionCode: entry.transactionCode,
+        routingNumber: entry.routingNumber,
+        accountNumber: entry.accountNumber,
+        amountCents: entry.amountCents,
+        name: entry.name,
+        isOffset,
+      });
+    });
+
+    records.push(assertRecord([
+      '8',
+      serviceClass,
+      numeric(batchCount, 6),
+      computeEntryHash(batchRoutings),
+      numeric(batchDebits, 12),
+      numeric(batchCredits, 12),
+      alpha(originator.companyIdentification, 10),
+      ' '.repeat(19),
+      ' '.repeat(6),
+      originator.originatingDfi,
+      numeric(batchNumber, 7),
+    ].join('')));
+
+    fileEntryCount += batchCount;
+    fileDebits += batchDebits;
+    fileCredits += batchCredits;
+    fileRoutings.push(...batchRoutings);
+  });
+
+  const blockCount = Math.ceil((records.length + 1) / BLOCKING_FACTOR);
+  const entryHash = computeEntryHash(fileRoutings);
+  records.push(assertRecord([
+    '9',
+    numeric(input.batches.length, 6),
+    numeric(blockCount, 6),
+    numeric(fileEntryCount, 8),
+    entryHash,
+    numeric(fileDebits, 12),
+    numeric(fileCredits, 12),
+    ' '.repeat(39),
+  ].join('')));
+
+  while (records.length % BLOCKING_FACTOR !== 0) {
+    records.push('9'.repeat(RECORD_LENGTH));
+  }
+
+  return {
+    content: `${records.join('\n')}\n`,
+    entries: builtEntries,
+    batchCount: input.batches.length,
+    blockCount,
+    entryAddendaCount: fileEntryCount,
+    entryHash,
+    totalDebitCents: fileDebits,
+    totalCreditCents: fileCredits,
+  };
+}
+
+// ---------- parser / validator ----------
+
+function parseReturnAddenda(record: string): NachaReturnAddenda | null {
+  const type = record.slice(1, 3);
+  if (type === '99') {
+    return {
+      addendaType: '99',
+      reasonCode: record.slice(3, 6).trim(),
+      originalTraceNumber: record.slice(6, 21),
+      dateOfDeath: record.slice(21, 27).trim() || null,
+      originalReceivingDfi: record.slice(27, 35),
+      correctedData: null,
+      information: record.slice(35, 79).trim() || null,
+    };
+  }
+  if (type === '98') {
+    return {
+      addendaType: '98',
+      reasonCode: record.slice(3, 6).trim(),
+      originalTraceNumber: record.slice(6, 21),
+      dateOfDeath: null,
+      originalReceivingDfi: record.slice(27, 35),
+      correctedData: record.slice(35, 64).trim() || null,
+      information: null,
+    };
+  }
+  return null;
+}
+
+/**
+ * Parse a NACHA file (originated, return or NOC) and check record lengths, order, counts,
+ * entry hashes and dollar totals against the batch and file control records
+ */
+export function parseNachaFile(content: string): NachaParsedFile {
+  const errors: string[] = [];
+  const lines = content.split(/\r?\n/).filter((line) => line.length > 0);
+  const result: NachaParsedFile = {
+    valid: false,
+    errors,
+    immediateDestination: null,
+    immediateOrigin: null,
+    fileCreationDate: null,
+    batches: [],
+    entries: [],
+    batchCount: 0,
+    blockCount: 0,
+    entryAddendaCount: 0,
+    entryHash: '0000000000',
+    totalDebitCents: 0,
+    totalCreditCents: 0,
+  };
+
+  let batch: { number: number; secCode: string; serviceClass: string; count: number; debits: number; credits: number; routings: string[] } | null = null;
+  let lastEntry: NachaParsedEntry | null = null;
+  let fileControlSeen = false;
+  const fileRoutings: string[] = [];
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (line.length !== RECORD_LENGTH) {
+      errors.push(`Line ${lineNumber}: record is ${line.length} characters, expected ${RECORD_LENGTH}`);
+      return;
+    }
+    if (fileControlSeen) {
+      if (!/^9+$/.test(line)) errors.push(`Line ${lineNumber}: data after file control record`);
+      return;
+    }
+
+    switch (line[0]) {
+      case '1':
+        if (index !== 0) errors.push(`Line ${lineNumber}: file header must be the first record`);
+        result.immediateDestination = line.slice(3, 13).trim();
+        result.immediateOrigin = line.slice(13, 23).trim();
+        result.fileCreationDate = line.slice(23, 29);
+        break;
+      case '5':
+        if (batch) errors.push(`Line ${lineNumber}: batch header before previous batch control`);
+        batch = {
+          number: Number(line.slice(87, 94)),
+          secCode: line.slice(50, 53),
+          serviceClass: line.slice(1, 4),
+          count: 0,
+          debits: 0,
+          credits: 0,
+          routings: [],
+        };
+        result.batches.push({
+          batchNumber: batch.number,
+          secCode: batch.secCode,
+          companyName: line.slice(4, 20).trim(),
+          companyIdentification: line.slice(40, 50).trim(),
+          entryCount: 0,
+        });
+        break;
+      case '6': {
+        if (!batch) {
+          errors.push(`Line ${lineNumber}: entry outside a batch`);
+          return;
+        }
+        const transactionCode = line.slice(1, 3);
+        const amountCents = Number(line.slice(29, 39));
+        const ctx = batch.secCode === 'CTX';
+        lastEntry = {
+          batchNumber: batch.number,
+          secCode: batch.secCode,
+          transactionCode,
+          routingNumber: line.slice(3, 12),
+          accountNumber: line.slice(12, 29).trim(),
+          amountCents,
+          individualId: line.slice(39, 54).trim(),
+          name: (ctx ? line.slice(58, 74) : line.slice(54, 76)).trim(),
+          traceNumber: line.slice(79, 94),
+          addenda: [],
+          returnAddenda: null,
+        };
+        result.entries.push(lastEntry);
+        result.batches[result.batches.length - 1].entryCount += 1;
+        batch.count += 1;
+        batch.routings.push(line.slice(3, 11));
+        if (isCreditTransactionCode(transactionCode)) batch.credits += amountCents;
+        else batch.debits += amountCents;
+        break;
+      }
+      case '7':
+        if (!batch || !lastEntry) {
+          errors.push(`Line ${lineNumber}: addenda without an entry`);
+          return;
+        }
+        batch.count += 1;
+        if (line.slice(1, 3) === '05') {
+          lastEntry.addenda.push(line.slice(3, 83).trim());
+        } else {
+          lastEntry.returnAddenda = parseReturnAddenda(line);
+          if (!lastEntry.returnAddenda) errors.push(`Line ${lineNumber}: unknown addenda type ${line.slice(1, 3)}`);
+        }
+        break;
+      case '8': {
+        if (!batch) {
+          errors.push(`Line ${lineNumber}: batch control without a batch header`);
+          return;
+        }
+        const label = `Batch ${batch.number}`;
+        if (Number(line.slice(4, 10)) !== batch.count) errors.push(`${label}: entry/addenda count mismatch`);
+        if (line.slice(10, 20) !== computeEntryHash(batch.routings)) errors.push(`${label}: entry hash mismatch`);
+        if (Number(line.slice(20, 32)) !== batch.debits) errors.push(`${label}: total debit mismatch`);
+        if (Number(line.slice(32, 44)) !== batch.credits) errors.push(`${label}: total credit mismatch`);
+        if (line.slice(1, 4) !== batch.serviceClass) errors.push(`${label}: service class mismatch`);
+
+        result.batchCount += 1;
+        result.entryAddendaCount += batch.count;
+        result.totalDebitCents += batch.debits;
+        result.totalCreditCents += batch.credits;
+        fileRoutings.push(...batch.routings);
+        batch = null;
+        lastEntry = null;
+        break;
+      }
+      case '9':
+        if (batch) errors.push(`Line ${lineNumber}: file control before batch control`);
+        fileControlSeen = true;
+        result.entryHash = computeEntryHash(fileRoutings);
+        if (Number(line.slice(1, 7)) !== result.batchCount) errors.push('File control: batch count mismatch');
+        if (Number(line.slice(13, 21)) !== result.entryAddendaCount) errors.push('File control: entry/addenda count mismatch');
+        if (line.slice(21, 31) !== result.entryHash) errors.push('File control: entry hash mismatch');
+        if (Number(line.slice(31, 43)) !== result.totalDebitCents) errors.push('File control: total debit mismatch');
+        if (Number(line.slice(43, 55)) !== result.totalCreditCents) errors.push('File control: total credit mismatch');
+        result.blockCount = Number(line.slice(7, 13));
+        break;
+      default:
+        errors.push(`Line ${lineNumber}: unknown record type ${line[0]}`);
+    }
+  });
+
+  if (!result.immediateDestination) errors.push('Missing file header record');
+  if (!fileControlSeen) errors.push('Missing file control record');
+  else if (lines.length % BLOCKING_FACTOR !== 0) errors.push('File is not blocked in multiples of ten records');
+  else if (result.blockCount !== lines.length / BLOCKING_FACTOR) errors.push('File control: block count mismatch');
+
+  result.valid = errors.length === 0;
+  return result;
+}
@@ -0,0 +1,207 @@
+import { db } from '../db';
+import {
+  providerRoutingRules,
+  type InsertProviderRoutingRule,
+  type PaymentRail,
+  type ProviderRoutingRule,
+} from '@shared/routing-schema';
+import { eq, and } from 'drizzle-orm';
+import { LedgerError, toCents, fromCents } from './ledger-service';
+import { providerHealth, type ProviderHealth } from './provider-health';
+
+export interface RoutingRequest {
+  amount: number;
+  currency: string;
+  rail: PaymentRail;
+}
+
+export interface RoutingCandidate {
+  provider: string;
+  rule: ProviderRoutingRule | null; // null when the organization has no fee schedule for the provider
+  health: ProviderHealth;
+}
+
+export interface RankedProvider {
+  provider: string;
+  score: number;
+  estimatedFee: string | null;
+  settlementDays: number | null;
+  successRate: number;
+}
+
+export interface ExcludedProvider {
+  provider: string;
+  reason: string;
+}
+
+export interface RoutingDecision {
+  provider: string | null;
+  reason: string;
+  ranked: RankedProvider[];
+  excluded: ExcludedProvider[];
+}
+
+export const ROUTING_WEIGHTS = { cost: 0.4, speed: 0.25, reliability: 0.35 };
+// Assumed success rate until a provider has enough recent calls to judge
+export const DEFAULT_SUCCESS_RATE = 0.95;
+export const MIN_HEALTH_SAMPLES = 10;
+// Score given to a factor we know nothing about (no fee schedule configured)
+const NEUTRAL_SCORE = 0.5;
+
+export function estimateFee(rule: ProviderRoutingRule, amount: number): string {
+  const percentCents = Math.round((toCents(amount) * Number(rule.percentFee ?? 0)) / 100);
+  return fromCents(toCents(rule.fixedFee) + percentCents);
+}
+
+function exclusionReason(candidate: RoutingCandidate, request: RoutingRequest): string | null {
+  const { rule, health } = candidate;
+  if (health.breakerState === 'open') return 'Circuit breaker open';
+  if (!rule) return null;
+  if (rule.isActive === false) return 'Routing rule disabled';
+  if (rule.rails?.length && !rule.rails.includes(request.rail)) return `Does not support ${request.rail}`;
+  if (rule.currencies?.length && !rule.currencies.includes(request.currency.toUpperCase())) {
+    return `Does not support ${request.currency.toUpperCase()}`;
+  }
+  if (rule.minAmount && toCents(request.amount) < toCents(rule.minAmount)) return `Below minimum of ${rule.minAmount}`;
+  if (rule.maxAmount && toCents(request.amount) > toCents(rule.maxAmount)) return `Above maximum of ${rule.maxAmount}`;
+  return null;
+}
+
+// 1 for the lowest value, shrinking in proportion as the value grows (twice the fee scores about half)
+function relativeScore(value: number | null, values: number[]): number {
+  if (value === null) return NEUTRAL_SCORE;
+  return (Math.min(...values) + 1) / (value + 1);
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function describe(winner: RankedProvider, ranked: RankedProvider[], excluded: ExcludedProvider[]): string {
+  const fees = ranked.map((entry) => entry.estimatedFee).filter((fee): fee is string => fee !== null);
+  const days = ranked.map((entry) => entry.settlementDays).filter((value): value is number => value !== null);
+  const parts: string[] = [];
+
+  if (ranked.length === 1) {
+    parts.push('only eligible provider');
+  }
+  if (winner.estimatedFee === null) {
+    parts.push('no fee schedule configured');
+  } else {
+    const cheapest = ranked.length > 1 && toCents(winner.estimatedFee) === Math.min(...fees.map(toCents));
+    parts.push(`${cheapest ? 'lowest fee' : 'fee'} $${winner.estimatedFee}`);
+  }
+  if (winner.settlementDays !== null) {
+    const fastest = ranked.length > 1 && winner.settlementDays === Math.min(...days);
+    parts.push(`${fastest ? 'fastest settlement' : 'settles'} in ${winner.settlementDays} day${winner.settlementDays === 1 ? '' : 's'}`);
+  }
+  parts.push(`${formatRate(winner.successRate)} success rate`);
+
+  let reason = `Selected ${winner.provider} (score ${winner.score.toFixed(2)}): ${parts.join(', ')}`;
+  if (excluded.length > 0) {
+    reason += `; skipped ${excluded.map((entry) => `${entry.provider} (${entry.reason.toLowerCase()})`).join(', ')}`;
+  }
+  return reason;
+}
+
+/**
+ * Score eligible providers on fee, settlement speed and recent success rate. Providers whose rule
+ * excludes the rail, currency or amount, or whose circuit breaker is open, are listed with the reason.
+ */
+export function rankProviders(candidates: RoutingCandidate[], request: RoutingRequest): RoutingDecision {
+  const excluded: ExcludedProvider[] = [];
+  const eligible: RoutingCandidate[] = [];
+  for (const candidate of candidates) {
+    const reason = exclusionReason(candidate, request);
+    if (reason) {
+      excluded.push({ provider: candidate.provider, reason });
+    } else {
+      eligible.push(candidate);
+    }
+  }
+
+  if (eligible.length === 0) {
+    return {
+      provider: null,
+      reason: candidates.length === 0 ? 'No payment providers configured' : 'No provider can handle this payment',
+      ranked: [],
+      excluded,
+    };
+  }
+
+  const fees = eligible.map((candidate) => (candidate.rule ? toCents(estimateFee(candidate.rule, request.amount)) : null));
+  const days = eligible.map((candidate) => (candidate.rule ? candidate.rule.settlementDays ?? null : null));
+  const knownFees = fees.filter((fee): fee is number => fee !== null);
+  const knownDays = days.filter((value): value is number => value !== null);
+
+  const ranked = eligible
+    .map((candidate, index) => {
+      const { health } = candidate;
+      const successRate =
+        health.successRate !== null && health.samples >= MIN_HEALTH_SAMPLES ? health.successRate : DEFAULT_SUCCESS_RATE;
+      const score =
+        ROUTING_WEIGHTS.cost * relativeScore(fees[index], knownFees) +
+        ROUTING_WEIGHTS.speed * relativeScore(days[index], knownDays) +
+        ROUTING_WEIGHTS.reliability * successRate;
+      return {
+        provider: candidate.provider,
+        score: Math.round(score * 1000) / 1000,
+        estimatedFee: fees[index] !== null ? fromCents(fees[index]!) : null,
+        settlementDays: days[index],
+        successRate,
+        priority: candidate.rule?.priority ?? 0,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.priority - a.priority || a.provider.localeCompare(b.provider))
+    .map(({ priority, ...entry }) => entry);
+
+  return { provider: ranked[0].provider, reason: describe(ranked[0], ranked, excluded), ranked, excluded };
+}
+
+export class PaymentRouter {
+  async getRules(organizationId: string): Promise<ProviderRoutingRule[]> {
+    return db
+      .select()
+      .from(providerRoutingRules)
+      .where(eq(providerRoutingRules.organizationId, organizationId))
+      .orderBy(providerRoutingRules.provider);
+  }
+
+  // One rule per provider; saving again replaces the schedule
+  async saveRule(rule: InsertProviderRoutingRule): Promise<ProviderRoutingRule> {
+    const [saved] = await db
+      .insert(providerRoutingRules)
+      .values(rule)
+      .onConflictDoUpdate({
+        target: [providerRoutingRules.organizationId, providerRoutingRules.provider],
+        set: { ...rule, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteRule(id: string, organizationId: string): Promise<void> {
+    const [deleted] = await db
+      .delete(providerRoutingRules)
+      .where(and(eq(providerRoutingRules.id, id), eq(providerRoutingRules.organizationId, organizationId)))
+      .returning();
+    if (!deleted) {
+      throw new LedgerError('Routing rule not found', 404);
+    }
+  }
+
+  /**
+   * Rank the given providers for one payment using the organization's rules and live provider health
+   */
+  async route(organizationId: string, request: RoutingRequest, providers: string[]): Promise<RoutingDecision> {
+    const rules = await this.getRules(organizationId);
+    const candidates = providers.map((provider) => ({
+      provider,
+      rule: rules.find((rule) => rule.provider === provider) ?? null,
+      health: providerHealth.getHealth(organizationId, provider),
+    }));
+    return rankProviders(candidates, request);
+  }
+}
+
+export const paymentRouter = new PaymentRouter();
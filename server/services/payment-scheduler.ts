@@ -0,0 +1,673 @@
+import { db } from '../db';
+import { payments, enhancedTransactions, paymentTypeEnum, paymentProviderEnum } from '@shared/schema';
+import {
+  paymentSchedules,
+  scheduledPayments,
+  type InsertPaymentSchedule,
+  type PaymentSchedule,
+  type PaymentScheduleFrequency,
+  type ScheduledPayment,
+} from '@shared/payment-schedule-schema';
+import { workflows } from '@shared/workflow-schema';
+import { eq, and, lte, inArray, asc, desc } from 'drizzle-orm';
+import { LedgerError, ledgerService } from './ledger-service';
+import { fxService } from './fx-service';
+import { fiscalPeriodService, paymentAccountingDate } from './fiscal-period-service';
+import { encumbranceService } from './encumbrance-service';
+import { serviceRegistry } from './service-registry';
+import { addDays, federalReserveCalendar, toDateOnly, type BankingCalendar, type BusinessDayRoll } from './banking-calendar';
+import { bankingCalendarService } from './banking-calendar-service';
+import type { BaseProvider, ProviderCallOptions } from './base-provider';
+import { workflowService } from '../workflow-service';
+import { twoFactorService } from '../two-factor-service';
+import { wsManager } from '../websocket';
+
+export interface Cadence {
+  frequency: PaymentScheduleFrequency;
+  interval: number;
+  startDate: Date;
+  byMonthDay?: number | null;
+}
+
+export interface TwoFactorProof {
+  code: string;
+  sessionId?: string;
+}
+
+export interface SchedulerRunSummary {
+  raised: number;
+  approved: number;
+  rejected: number;
+  executed: number;
+  failed: number;
+}
+
+// Recurrence presets offered by the payment hub
+export const FREQUENCY_PRESETS: Record<string, { frequency: PaymentScheduleFrequency; interval: number }> = {
+  once: { frequency: 'once', interval: 1 },
+  daily: { frequency: 'daily', interval: 1 },
+  weekly: { frequency: 'weekly', interval: 1 },
+  biweekly: { frequency: 'weekly', interval: 2 },
+  monthly: { frequency: 'monthly', interval: 1 },
+  quarterly: { frequency: 'monthly', interval: 3 },
+  annually: { frequency: 'yearly', interval: 1 },
+  yearly: { frequency: 'yearly', interval: 1 },
+};
+
+// Occurrences raised per schedule per run, so a long outage cannot flood approvers in one pass
+const MAX_CATCH_UP_OCCURRENCES = 31;
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Same day-of-month `months` later, clamped to the month's length (the 31st becomes the 30th or 28th)
+function addMonths(date: Date, months: number, anchorDay: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const day = Math.min(anchorDay, daysInMonth(target.getUTCFullYear(), target.getUTCMonth()));
+  return new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), day));
+}
+
+function anchorDay(cadence: Cadence): number {
+  return cadence.byMonthDay ?? toDateOnly(cadence.startDate).getUTCDate();
+}
+
+/**
+ * Parse the subset of an iCalendar RRULE the scheduler supports:
+ * FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL and a single BYMONTHDAY.
+ */
+export function parseRRule(rule: string): {
+  frequency: PaymentScheduleFrequency;
+  interval: number;
+  maxOccurrences?: number;
+  endDate?: Date;
+  byMonthDay?: number;
+} {
+  const parts = new Map(
+    rule
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .filter(Boolean)
+      .map((part) => {
+        const [key, value = ''] = part.split('=');
+        return [key.trim().toUpperCase(), value.trim().toUpperCase()] as [string, string];
+      })
+  );
+
+  const frequencies: Record<string, PaymentScheduleFrequency> = { DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly', YEARLY: 'yearly' };
+  const frequency = frequencies[parts.get('FREQ') ?? ''];
+  if (!frequency) {
+    throw new LedgerError('RRULE needs FREQ of DAILY, WEEKLY, MONTHLY or YEARLY', 400);
+  }
+  const unsupported = Array.from(parts.keys()).filter((key) => !['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYMONTHDAY'].includes(key));
+  if (unsupported.length > 0) {
+    throw new LedgerError(`Unsupported RRULE part: ${unsupported.join(', ')}`, 400);
+  }
+
+  const number = (key: string, min: number, max: number) => {
+    if (!parts.has(key)) return undefined;
+    const value = Number(parts.get(key));
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new LedgerError(`Invalid RRULE ${key}`, 400);
+    }
+    return value;
+  };
+
+  let endDate: Date | undefined;
+  const until = parts.get('UNTIL');
+  if (until) {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(until);
+    if (!match) {
+      throw new LedgerError('Invalid RRULE UNTIL', 400);
+    }
+    endDate = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  }
+
+  return {
+    frequency,
+    interval: number('INTERVAL', 1, 366) ?? 1,
+    maxOccurrences: number('COUNT', 1, 10_000),
+    endDate,
+    byMonthDay: number('BYMONTHDAY', 1, 31),
+  };
+}
+
+// First nominal date on or after the start date that fits the cadence
+export function firstOccurrence(cadence: Cadence): Date {
+  const start = toDateOnly(cadence.startDate);
+  if ((cadence.frequency !== 'monthly' && cadence.frequency !== 'yearly') || !cadence.byMonthDay) {
+    return start;
+  }
+  const candidate = addMonths(start, 0, cadence.byMonthDay);
+  return candidate < start ? addMonths(start, 1, cadence.byMonthDay) : candidate;
+}
+
+// The nominal date after `date`, or null for a one-off schedule
+export function nextOccurrence(cadence: Cadence, date: Date): Date | null {
+  switch (cadence.frequency) {
+    case 'daily':
+      return addDays(date, cadence.interval);
+    case 'weekly':
+      return addDays(date, 7 * cadence.interval);
+    case 'monthly':
+      return addMonths(date, cadence.interval, anchorDay(cadence));
+    case 'yearly':
+      return addMonths(date, 12 * cadence.interval, anchorDay(cadence));
+    default:
+      return null;
+  }
+}
+
+// Whether occurrence number `occurrenceNumber` (1-based) falling on `date` is still within the schedule's limits
+export function withinLimits(
+  schedule: { endDate?: Date | null; maxOccurrences?: number | null },
+  occurrenceNumber: number,
+  date: Date
+): boolean {
+  if (schedule.maxOccurrences && occurrenceNumber > schedule.maxOccurrences) return false;
+  if (schedule.endDate && date > toDateOnly(schedule.endDate)) return false;
+  return true;
+}
+
+export function executionDateFor(
+  nominal: Date,
+  roll: BusinessDayRoll | null,
+  calendar: BankingCalendar = federalReserveCalendar
+): Date {
+  return calendar.rollToBusinessDay(nominal, roll ?? 'following');
+}
+
+// Occurrences are raised early enough for approvers to act before the execution date
+export function isDueForRaising(executionDate: Date, approvalLeadDays: number, today: Date): boolean {
+  return addDays(executionDate, -approvalLeadDays) <= toDateOnly(today);
+}
+
+function cadenceOf(schedule: PaymentSchedule): Cadence {
+  return {
+    frequency: schedule.frequency,
+    interval: schedule.interval,
+    startDate: schedule.startDate,
+    byMonthDay: schedule.byMonthDay,
+  };
+}
+
+function executor(schedule: PaymentSchedule, paymentId: string, amount: number) {
+  const options: ProviderCallOptions = { idempotencyKey: `payment:${paymentId}` };
+  const recipient = schedule.recipientAccount ?? schedule.payeeBankAccountId ?? '';
+  return async (provider: BaseProvider) => {
+    if (schedule.rail === 'ach') {
+      return provider.processACH?.(amount, 'main-account', recipient, 'standard', options);
+    }
+    if (schedule.rail === 'wire') {
+      return provider.processWire?.(amount, 'main-account', recipient, schedule.currency === 'USD' ? 'domestic' : 'international', options);
+    }
+    return provider.processPayment?.(amount, schedule.currency ?? 'USD', { paymentId, scheduleId: schedule.id }, options);
+  };
+}
+
+export class PaymentScheduler {
+  /**
+   * Create a schedule. Amounts above the creator's two-factor threshold need a verified code,
+   * which then authorizes every occurrence; each occurrence still goes through payment approval.
+   */
+  async createSchedule(
+    organizationId: string,
+    userId: string,
+    input: Omit<InsertPaymentSchedule, 'organizationId' | 'createdBy'>,
+    twoFactor?: TwoFactorProof
+  ): Promise<PaymentSchedule> {
+    if (!(paymentTypeEnum.enumValues as readonly string[]).includes(input.paymentType ?? 'vendor')) {
+      throw new LedgerError(`Unknown payment type ${input.paymentType}`, 400);
+    }
+    if (toDateOnly(input.startDate) < toDateOnly(new Date())) {
+      throw new LedgerError('Start date cannot be in the past', 400);
+    }
+    if (input.endDate && input.endDate < input.startDate) {
+      throw new LedgerError('End date must be on or after the start date', 400);
+    }
+
+    // A foreign-currency schedule needs a rate into the base currency before anything is raised
+    await fxService.toBase(organizationId, input.amount, input.currency, new Date());
+
+    const amount = Number(input.amount);
+    let twoFactorVerifiedAt: Date | null = null;
+    if (await twoFactorService.requiresTwoFactor(userId, 'large_payment', amount)) {
+      if (!twoFactor?.code) {
+        throw new LedgerError('Two-factor verification required for this payment amount', 403);
+      }
+      let verified = false;
+      try {
+        verified = await twoFactorService.verifyCode({ userId, code: twoFactor.code, sessionId: twoFactor.sessionId });
+      } catch (error) {
+        throw new LedgerError(error instanceof Error ? error.message : 'Two-factor verification failed', 401);
+      }
+      if (!verified) {
+        throw new LedgerError('Invalid two-factor code', 401);
+      }
+      twoFactorVerifiedAt = new Date();
+    }
+
+    const values = { ...input, organizationId, createdBy: userId };
+    const first = firstOccurrence(cadenceOf(values as PaymentSchedule));
+    const [schedule] = await db
+      .insert(paymentSchedules)
+      .values({
+        ...values,
+        startDate: toDateOnly(input.startDate),
+        endDate: input.endDate ? toDateOnly(input.endDate) : null,
+        nextOccurrenceDate: withinLimits(values, 1, first) ? first : null,
+        status: withinLimits(values, 1, first) ? 'active' : 'completed',
+        twoFactorVerifiedAt,
+      })
+      .returning();
+    return schedule;
+  }
+
+  async getSchedules(organizationId: string): Promise<Array<PaymentSchedule & { nextExecutionDate: Date | null }>> {
+    const schedules = await db
+      .select()
+      .from(paymentSchedules)
+      .where(eq(paymentSchedules.organizationId, organizationId))
+      .orderBy(desc(paymentSchedules.createdAt));
+    const calendar = await bankingCalendarService.forOrganization(organizationId);
+    return schedules.map((schedule) => ({
+      ...schedule,
+      nextExecutionDate: schedule.nextOccurrenceDate
+        ? executionDateFor(schedule.nextOccurrenceDate, schedule.businessDayRoll, calendar)
+        : null,
+    }));
+  }
+
+  async getOccurrences(scheduleId: string, organizationId: string): Promise<ScheduledPayment[]> {
+    return db
+      .select()
+      .from(scheduledPayments)
+      .where(and(eq(scheduledPayments.scheduleId, scheduleId), eq(scheduledPayments.organizationId, organizationId)))
+      .orderBy(asc(scheduledPayments.occurrenceNumber));
+  }
+
+  /**
+   * Pause, resume or cancel a schedule. Resuming skips occurrences that fell due while paused
+   * instead of raising them all at once.
+   */
+  async setStatus(id: string, organizationId: string, action: 'pause' | 'resume' | 'cancel'): Promise<PaymentSchedule> {
+    const [schedule] = await db
+      .select()
+      .from(paymentSchedules)
+      .where(and(eq(paymentSchedules.id, id), eq(paymentSchedules.organizationId, organizationId)));
+    if (!schedule) {
+      throw new LedgerError('Payment schedule not found', 404);
+    }
+    if (schedule.status === 'completed' || schedule.status === 'cancelled') {
+      throw new LedgerError(`Schedule is already ${schedule.status}`, 409);
+    }
+
+    const changes: Partial<PaymentSchedule> = { updatedAt: new Date() };
+    if (action === 'pause') {
+      changes.status = 'paused';
+    } else if (action === 'cancel') {
+      changes.status = 'cancelled';
+      changes.nextOccurrenceDate = null;
+    } else {
+      const calendar = await bankingCalendarService.forOrganization(organizationId);
+      const today = toDateOnly(new Date());
+      let next = schedule.nextOccurrenceDate;
+      while (next && executionDateFor(next, schedule.businessDayRoll, calendar) < today) {
+        next = nextOccurrence(cadenceOf(schedule), next);
+      }
+      const active = next !== null && withinLimits(schedule, schedule.occurrenceCount + 1, next);
+      changes.status = active ? 'active' : 'completed';
+      changes.nextOccurrenceDate = active ? next : null;
+    }
+
+    const [updated] = await db.update(paymentSchedules).set(changes).where(eq(paymentSchedules.id, id)).returning();
+    return updated;
+  }
+
+  /**
+   * One scheduler pass: raise occurrences coming due, pick up approval decisions, then send
+   * approved payments whose execution date has arrived.
+   */
+  async run(now: Date = new Date()): Promise<SchedulerRunSummary> {
+    const summary: SchedulerRunSummary = { raised: 0, approved: 0, rejected: 0, executed: 0, failed: 0 };
+    summary.raised = await this.raiseDueOccurrences(now);
+    Object.assign(summary, await this.syncApprovals());
+    Object.assign(summary, await this.executeDue(now));
+    return summary;
+  }
+
+  private async raiseDueOccurrences(now: Date): Promise<number> {
+    // The longest allowed approval lead plus a week of holiday roll bounds what can be due
+    const horizon = addDays(now, 60 + 7);
+    const candidates = await db
+      .select({ id: paymentSchedules.id, organizationId: paymentSchedules.organizationId })
+      .from(paymentSchedules)
+      .where(and(eq(paymentSchedules.status, 'active'), lte(paymentSchedules.nextOccurrenceDate, horizon)));
+
+    const calendars = new Map<string, BankingCalendar>();
+    let raised = 0;
+    for (const { id, organizationId } of candidates) {
+      if (!calendars.has(organizationId)) {
+        calendars.set(organizationId, await bankingCalendarService.forOrganization(organizationId));
+      }
+      for (let i = 0; i < MAX_CATCH_UP_OCCURRENCES; i += 1) {
+        let occurrence: Awaited<ReturnType<PaymentScheduler['raiseNext']>>;
+        try {
+          occurrence = await this.raiseNext(id, now, calendars.get(organizationId)!);
+        } catch (error) {
+          // A closed period or an exhausted budget line holds the schedule until someone resumes it
+          if (!(error instanceof LedgerError)) throw error;
+          await this.hold(id, error.message);
+          break;
+        }
+        if (!occurrence) break;
+        raised += 1;
+        await this.requestApproval(occurrence.schedule, occurrence.paymentId, occurrence.scheduled);
+      }
+    }
+    return raised;
+  }
+
+  // Create the payment and occurrence for a schedule's next date and advance the schedule, atomically
+  private async raiseNext(
+    scheduleId: string,
+    now: Date,
+    calendar: BankingCalendar
+  ): Promise<{ schedule: PaymentSchedule; paymentId: string; scheduled: ScheduledPayment } | null> {
+    return db.transaction(async (tx) => {
+      const [schedule] = await tx
+        .select()
+        .from(paymentSchedules)
+        .where(eq(paymentSchedules.id, scheduleId))
+        .for('update', { skipLocked: true });
+      if (!schedule || schedule.status !== 'active' || !schedule.nextOccurrenceDate) return null;
+
+      const nominal = schedule.nextOccurrenceDate;
+      const executionDate = executionDateFor(nominal, schedule.businessDayRoll, calendar);
+      if (!isDueForRaising(executionDate, schedule.approvalLeadDays, now)) return null;
+
+      const occurrenceNumber = schedule.occurrenceCount + 1;
+      const total = schedule.maxOccurrences ? ` of ${schedule.maxOccurrences}` : '';
+      // The same controls as a payment entered by hand: an open period and room on the budget line
+      const values = {
+        organizationId: schedule.organizationId,
+        amount: schedule.amount,
+        currency: schedule.currency,
+        description: `${schedule.description || 'Scheduled payment'} (occurrence ${occurrenceNumber}${total})`,
+        type: schedule.paymentType as (typeof paymentTypeEnum.enumValues)[number],
+        status: 'pending' as const,
+        vendorId: schedule.vendorId,
+        budgetCategoryId: schedule.budgetCategoryId,
+        fundId: schedule.fundId,
+        payeeBankAccountId: schedule.payeeBankAccountId,
+        dueDate: executionDate,
+        createdBy: schedule.createdBy,
+      };
+      const accountingDate = paymentAccountingDate({ processedDate: null, createdAt: now });
+      await fiscalPeriodService.assertDateOpen(schedule.organizationId, accountingDate, tx);
+      const fx = await fxService.toBase(schedule.organizationId, schedule.amount, schedule.currency, accountingDate, tx);
+      const reservation = await encumbranceService.reservePayment({ ...values, ...fx }, tx);
+      const [payment] = await tx
+        .insert(payments)
+        .values({ ...values, ...fx, budgetCategoryId: reservation.budgetCategoryId })
+        .returning();
+      await encumbranceService.liquidateForPayment(payment, reservation, tx);
+      await ledgerService.postPayment(payment, tx);
+
+      const [scheduled] = await tx
+        .insert(scheduledPayments)
+        .values({
+          scheduleId: schedule.id,
+          organizationId: schedule.organizationId,
+          occurrenceNumber,
+          scheduledDate: nominal,
+          executionDate,
+          paymentId: payment.id,
+        })
+        .returning();
+
+      const following = nextOccurrence(cadenceOf(schedule), nominal);
+      const more = following !== null && withinLimits(schedule, occurrenceNumber + 1, following);
+      await tx
+        .update(paymentSchedules)
+        .set({
+          occurrenceCount: occurrenceNumber,
+          nextOccurrenceDate: more ? following : null,
+          status: more ? 'active' : 'completed',
+          updatedAt: new Date(),
+        })
+        .where(eq(paymentSchedules.id, schedule.id));
+
+      return { schedule, paymentId: payment.id, scheduled };
+    });
+  }
+
+  // Open a payment approval workflow; without an active workflow rule the payment waits for manual approval
+  private async requestApproval(schedule: PaymentSchedule, paymentId: string, scheduled: ScheduledPayment): Promise<void> {
+    try {
+      const workflow = await workflowService.createWorkflow({
+        type: 'payment_approval',
+        entityId: paymentId,
+        entityType: 'payment',
+        organizationId: schedule.organizationId,
+        initiatorId: schedule.createdBy,
+        data: {
+          amount: Number(schedule.amount),
+          description: schedule.description,
+          scheduleId: schedule.id,
+          occurrenceNumber: scheduled.occurrenceNumber,
+          executionDate: scheduled.executionDate,
+        },
+        dueDate: scheduled.executionDate,
+      });
+      await db
+        .update(scheduledPayments)
+        .set({ workflowId: workflow.id, updatedAt: new Date() })
+        .where(eq(scheduledPayments.id, scheduled.id));
+    } catch (error) {
+      console.warn(
+        `Scheduled payment ${paymentId} has no approval workflow and waits for manual approval:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  private async syncApprovals(): Promise<{ approved: number; rejected: number }> {
+    const waiting = await db
+      .select({ scheduled: scheduledPayments, paymentStatus: payments.status, workflowStatus: workflows.status })
+      .from(scheduledPayments)
+      .innerJoin(payments, eq(payments.id, scheduledPayments.paymentId))
+      .leftJoin(workflows, eq(workflows.id, scheduledPayments.workflowId))
+      .where(eq(scheduledPayments.status, 'awaiting_approval'));
+
+    let approved = 0;
+    let rejected = 0;
+    for (const { scheduled, paymentStatus, workflowStatus } of waiting) {
+      const decision = workflowStatus ?? paymentStatus;
+      if (decision === 'approved' || decision === 'completed') {
+        await this.decide(scheduled, 'approved');
+        approved += 1;
+      } else if (decision === 'rejected' || decision === 'cancelled') {
+        await this.decide(scheduled, 'rejected');
+        rejected += 1;
+      }
+    }
+    return { approved, rejected };
+  }
+
+  private async decide(scheduled: ScheduledPayment, outcome: 'approved' | 'rejected'): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(payments).where(eq(payments.id, scheduled.paymentId));
+      const [after] = await tx
+        .update(payments)
+        .set({ status: outcome === 'approved' ? 'approved' : 'cancelled', updatedAt: new Date() })
+        .where(and(eq(payments.id, scheduled.paymentId), inArray(payments.status, ['pending', 'approved'])))
+        .returning();
+      if (before && after) {
+        await encumbranceService.onPaymentStatusChange(before, after, tx);
+        await ledgerService.postPaymentStatusChange(before, after, after.approvedBy ?? after.createdBy, tx);
+      }
+      await tx
+        .update(scheduledPayments)
+        .set({ status: outcome, updatedAt: new Date() })
+        .where(eq(scheduledPayments.id, scheduled.id));
+    });
+  }
+
+  private async hold(scheduleId: string, reason: string): Promise<void> {
+    const [schedule] = await db
+      .update(paymentSchedules)
+      .set({ status: 'paused', updatedAt: new Date() })
+      .where(and(eq(paymentSchedules.id, scheduleId), eq(paymentSchedules.status, 'active')))
+      .returning();
+    if (!schedule) return;
+
+    wsManager.sendToUser(schedule.createdBy, {
+      type: 'alert',
+      data: {
+        title: 'Scheduled Payment Paused',
+        message: `"${schedule.description || 'Scheduled payment'}" was paused: ${reason}`,
+        severity: 'warning',
+        scheduleId: schedule.id,
+      },
+      userId: schedule.createdBy,
+      timestamp: Date.now(),
+    });
+  }
+
+  private async executeDue(now: Date): Promise<{ executed: number; failed: number }> {
+    const due = await db
+      .select({ scheduled: scheduledPayments, schedule: paymentSchedules, payment: payments })
+      .from(scheduledPayments)
+      .innerJoin(paymentSchedules, eq(paymentSchedules.id, scheduledPayments.scheduleId))
+      .innerJoin(payments, eq(payments.id, scheduledPayments.paymentId))
+      .where(and(eq(scheduledPayments.status, 'approved'), lte(scheduledPayments.executionDate, now)))
+      .orderBy(asc(scheduledPayments.executionDate));
+
+    let executed = 0;
+    let failed = 0;
+    for (const { scheduled, schedule, payment } of due) {
+      // Someone changed the payment by hand after approval; leave it alone
+      if (payment.status !== 'approved') {
+        await this.decide(scheduled, 'rejected');
+        continue;
+      }
+      // Settling books on the execution date; wait for the period to reopen rather than move money
+      try {
+        await fiscalPeriodService.assertDateOpen(schedule.organizationId, now);
+      } catch (error) {
+        if (!(error instanceof LedgerError)) throw error;
+        continue;
+      }
+      if (await this.execute(scheduled, schedule, payment.id)) {
+        executed += 1;
+      } else {
+        failed += 1;
+      }
+    }
+    return { executed, failed };
+  }
+
+  private async execute(scheduled: ScheduledPayment, schedule: PaymentSchedule, paymentId: string): Promise<boolean> {
+    const amount = Number(schedule.amount);
+    const execute = executor(schedule, paymentId, amount);
+    let providerName = schedule.provider;
+    let routingReason = 'Provider set on the payment schedule';
+    let routingDetails: Record<string, any> | null = null;
+    let result: any;
+    let outcomeUnknown = false;
+    let error: string | null = null;
+
+    try {
+      if (schedule.provider) {
+        const provider = serviceRegistry.getService(schedule.organizationId, 'payment', schedule.provider);
+        if (!provider) {
+          throw new Error(`Payment provider ${schedule.provider} is not available`);
+        }
+        result = await execute(provider);
+      } else {
+        const routed = await serviceRegistry.processRoutedPayment(
+          schedule.organizationId,
+          { amount, currency: schedule.currency ?? 'USD', rail: schedule.rail as any },
+          execute
+        );
+        providerName = routed.provider;
+        result = routed.result;
+        routingReason = routed.routing.reason;
+        routingDetails = { ranked: routed.routing.ranked, excluded: routed.routing.excluded };
+        outcomeUnknown = routed.outcomeUnknown;
+      }
+      // An unknown outcome stays processing for reconciliation; marking it failed would invite a second payment
+      if (!result?.success && !outcomeUnknown) {
+        error = result?.error || 'Payment failed';
+      }
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : 'Payment failed';
+    }
+
+    const now = new Date();
+    const settled = result?.status !== 'pending' && result?.status !== 'processing';
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(payments).where(eq(payments.id, paymentId));
+      const [after] = await tx
+        .update(payments)
+        .set(error ? { status: 'failed', updatedAt: now } : { status: settled ? 'completed' : 'processing', processedDate: now, updatedAt: now })
+        .where(eq(payments.id, paymentId))
+        .returning();
+      await encumbranceService.onPaymentStatusChange(before, after, tx);
+      await ledgerService.postPaymentStatusChange(before, after, schedule.createdBy, tx);
+
+      const providerTransactionId = result?.providerTransactionId ?? result?.transferId ?? result?.transactionId ?? null;
+      await tx
+        .update(scheduledPayments)
+        .set({
+          status: error ? 'failed' : 'executed',
+          provider: providerName,
+          providerTransactionId,
+          error,
+          executedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(scheduledPayments.id, scheduled.id));
+
+      // Provider-side record so status webhooks find the payment
+      if (!error && providerName && (paymentProviderEnum.enumValues as readonly string[]).includes(providerName)) {
+        await tx.insert(enhancedTransactions).values({
+          organizationId: schedule.organizationId,
+          paymentId,
+          paymentType: schedule.paymentType as any,
+          type: 'debit',
+          provider: providerName as any,
+          amount: schedule.amount,
+          currency: after.currency ?? 'USD',
+          exchangeRate: after.exchangeRate,
+          baseAmount: after.baseAmount,
+          status: settled ? 'completed' : 'processing',
+          providerTransactionId,
+          fees: result?.fees !== undefined ? String(result.fees) : '0',
+          description: schedule.description || 'Scheduled payment',
+          routingReason,
+          routingDetails,
+        });
+      }
+    });
+
+    if (error) {
+      wsManager.sendToUser(schedule.createdBy, {
+        type: 'alert',
+        data: {
+          title: 'Scheduled Payment Failed',
+          message: `Occurrence ${scheduled.occurrenceNumber} of "${schedule.description || 'scheduled payment'}" failed: ${error}`,
+          severity: 'warning',
+          scheduleId: schedule.id,
+          paymentId,
+        },
+        userId: schedule.createdBy,
+        timestamp: Date.now(),
+      });
+    }
+    return !error;
+  }
+}
+
+export const paymentScheduler = new PaymentScheduler();
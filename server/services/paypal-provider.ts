@@ -4,7 +4,7 @@ import {
   OrdersController,
   PaymentsController 
 } from '@paypal/paypal-server-sdk';
-import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, CardIssueResult, ComplianceResult } from './base-provider';
+import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, CardIssueResult, ComplianceResult, ProviderCallOptions } from './base-provider';
 
 export interface PayPalConfig extends BaseProviderConfig {
   clientId: string;
@@ -12,6 +12,7 @@ export interface PayPalConfig extends BaseProviderConfig {
 }
 
 export class PayPalProvider extends BaseProvider {
+  readonly supportsIdempotencyKeys = true;
   private client: Client;
   private ordersController: OrdersController;
   private paymentsController: PaymentsController;
@@ -53,7 +54,12 @@ export class PayPalProvider extends BaseProvider {
     return 'paypal';
   }
 
-  async processPayment(amount: number, currency: string = 'USD', metadata?: Record<string, any>): Promise<PaymentResult> {
+  async processPayment(
+    amount: number,
+    currency: string = 'USD',
+    metadata?: Record<string, any>,
+    options?: ProviderCallOptions
+  ): Promise<PaymentResult> {
     try {
       if (!this.validateAmount(amount)) {
         return { success: false, error: 'Invalid amount' };
@@ -69,7 +75,8 @@ export class PayPalProvider extends BaseProvider {
             },
             customId: metadata?.orderId || undefined
           }]
-        }
+        },
+        paypalRequestId: options?.idempotencyKey
       };
 
       const { body } = await this.ordersController.createOrder(orderRequest);
@@ -1,4 +1,5 @@
 import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, ComplianceResult } from './base-provider';
+import { addBusinessDays } from './banking-calendar';
 
 export interface PlaidConfig extends BaseProviderConfig {
   clientId: string;
@@ -66,7 +67,7 @@ export class PlaidProvider extends BaseProvider {
   ): Promise<TransferResult> {
     try {
       const transferId = `plaid_ach_${Date.now()}`;
-      const estimatedSettlement = new Date();
+      let estimatedSettlement = new Date();
       let fees = 0.8; // Plaid ACH fee
 
       switch (type) {
@@ -75,11 +76,11 @@ export class PlaidProvider extends BaseProvider {
           fees = 3.0;
           break;
         case 'next_day':
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
           fees = 1.5;
           break;
         default:
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 3);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 3);
       }
 
       this.logTransaction('processACH', { amount, type, fromAccount, toAccount });
@@ -108,11 +109,11 @@ export class PlaidProvider extends BaseProvider {
   ): Promise<TransferResult> {
     try {
       const transferId = `plaid_wire_${Date.now()}`;
-      const estimatedSettlement = new Date();
+      let estimatedSettlement = new Date();
       let fees = type === 'international' ? 35.00 : 15.00;
 
       if (type === 'international') {
-        estimatedSettlement.setDate(estimatedSettlement.getDate() + 3);
+        estimatedSettlement = addBusinessDays(estimatedSettlement, 3);
       } else {
         estimatedSettlement.setHours(estimatedSettlement.getHours() + 4);
       }
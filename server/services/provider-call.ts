@@ -0,0 +1,160 @@
+import type { BaseProvider } from './base-provider';
+import { providerHealth, type ProviderHealthTracker } from './provider-health';
+
+// Per-provider call timeouts; a provider config can override with timeoutMs
+export const PROVIDER_TIMEOUTS_MS: Record<string, number> = {
+  stripe: 15_000,
+  paypal: 20_000,
+  square: 15_000,
+  adyen: 15_000,
+  checkout: 15_000,
+  dwolla: 20_000,
+  unit: 20_000,
+  plaid: 20_000,
+  modern_treasury: 20_000,
+  wise: 30_000,
+  circle: 30_000,
+  coinbase: 30_000,
+  saltedge: 30_000,
+  sandbox: 5_000,
+};
+export const DEFAULT_TIMEOUT_MS = 20_000;
+
+export const RETRY_POLICY = { maxAttempts: 3, baseDelayMs: 250, maxDelayMs: 4_000 };
+
+// Reads, and card status changes that land in the same state however often they are sent
+const SAFE_OPERATION = /^(get|list|retrieve|verify|check|screen|download)[A-Z]/;
+const IDEMPOTENT_OPERATIONS = ['blockCard', 'activateCard'];
+// Synchronous or bootstrap methods, and the sandbox provider's test controls, are passed straight through
+const UNGUARDED_METHODS = ['constructor', 'initialize', 'validateConfig', 'getProviderName', 'pendingWebhooks', 'flushWebhooks'];
+
+export class ProviderCallError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly reason: 'timeout' | 'circuit_open'
+  ) {
+    super(message);
+    this.name = 'ProviderCallError';
+  }
+}
+
+export interface ProviderCallContext {
+  organizationId: string;
+  provider: string;
+  operation: string;
+  timeoutMs?: number;
+  retryable: boolean;
+}
+
+/**
+ * Only retry calls that cannot move money twice: reads and idempotent status changes always,
+ * anything else only when the caller passed an idempotency key and the provider forwards it.
+ */
+export function isRetryable(operation: string, args: unknown[], supportsIdempotencyKeys = false): boolean {
+  if (SAFE_OPERATION.test(operation) || IDEMPOTENT_OPERATIONS.includes(operation)) return true;
+  return supportsIdempotencyKeys && args.some(
+    (arg) => !!arg && typeof arg === 'object' && typeof (arg as { idempotencyKey?: unknown }).idempotencyKey === 'string'
+  );
+}
+
+// Exponential backoff with jitter: half the ceiling plus a random share of the other half
+export function backoffDelay(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(RETRY_POLICY.maxDelayMs, RETRY_POLICY.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + (ceiling / 2) * random());
+}
+
+export function timeoutFor(provider: string, override?: number): number {
+  return override && override > 0 ? override : PROVIDER_TIMEOUTS_MS[provider] ?? DEFAULT_TIMEOUT_MS;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, context: ProviderCallContext): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new ProviderCallError(`${context.provider}.${context.operation} timed out after ${timeoutMs}ms`, context.provider, 'timeout')),
+      timeoutMs
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run one provider operation behind the organization's circuit breaker for that provider,
+ * with a timeout and, for retryable operations, exponential-backoff retries on errors.
+ * A `{ success: false }` result is the provider's answer and is returned as-is, not retried.
+ */
+export async function callProvider<T>(
+  context: ProviderCallContext,
+  fn: () => Promise<T>,
+  tracker: ProviderHealthTracker = providerHealth,
+  sleep: (ms: number) => Promise<void> = wait
+): Promise<T> {
+  const { organizationId, provider, operation } = context;
+  const maxAttempts = context.retryable ? RETRY_POLICY.maxAttempts : 1;
+  const timeoutMs = timeoutFor(provider, context.timeoutMs);
+
+  for (let attempt = 1; ; attempt += 1) {
+    if (!tracker.acquire(organizationId, provider)) {
+      throw new ProviderCallError(`${provider} is temporarily unavailable (circuit open)`, provider, 'circuit_open');
+    }
+
+    try {
+      const result = await withTimeout(Promise.resolve().then(fn), timeoutMs, context);
+      if (result && typeof result === 'object' && (result as { success?: unknown }).success === false) {
+        tracker.recordRejection(organizationId, provider);
+      } else {
+        tracker.recordSuccess(organizationId, provider);
+      }
+      return result;
+    } catch (error) {
+      tracker.recordFailure(organizationId, provider);
+      if (attempt >= maxAttempts) {
+        throw error;
+      }
+      console.warn(
+        `${provider}.${operation} failed (attempt ${attempt} of ${maxAttempts}), retrying:`,
+        error instanceof Error ? error.message : error
+      );
+      await sleep(backoffDelay(attempt));
+    }
+  }
+}
+
+/**
+ * Wrap a provider so every operation goes through callProvider. Methods run against the
+ * unwrapped instance, so a provider's calls to its own helpers are not counted separately.
+ */
+export function guardProvider<T extends BaseProvider>(
+  organizationId: string,
+  providerType: string,
+  provider: T,
+  timeoutMs?: number
+): T {
+  return new Proxy(provider, {
+    get(target, property) {
+      const value = Reflect.get(target, property, target);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      if (typeof property !== 'string' || UNGUARDED_METHODS.includes(property)) {
+        return value.bind(target);
+      }
+      return (...args: unknown[]) =>
+        callProvider(
+          {
+            organizationId,
+            provider: providerType,
+            operation: property,
+            timeoutMs,
+            retryable: isRetryable(property, args, target.supportsIdempotencyKeys),
+          },
+          () => value.apply(target, args)
+        );
+    },
+  });
+}
@@ -1,4 +1,6 @@
-import { BaseProvider, BaseProviderConfig, ProviderFactory } from './base-provider';
+import { BaseProvider, BaseProviderConfig, PaymentResult, ProviderFactory } from './base-provider';
+import { paymentRouter, type RoutingDecision, type RoutingRequest } from './payment-router';
+import { guardProvider, ProviderCallError } from './provider-call';
 import { StripeProvider, StripeConfig } from './stripe-provider';
 import { PayPalProvider, PayPalConfig } from './paypal-provider';
 import { SquareProvider, SquareConfig } from './square-provider';
@@ -11,6 +13,15 @@ import { CoinbaseProvider, CoinbaseConfig } from './coinbase-provider';
 import { SaltEdgeProvider, SaltEdgeConfig } from './saltedge-provider';
 import { AdyenProvider, AdyenConfig } from './adyen-provider';
 import { CheckoutProvider, CheckoutConfig } from './checkout-provider';
+import { SandboxProvider, SandboxConfig } from './sandbox-provider';
+
+export interface RoutedPayment {
+  provider: string;
+  result: any;
+  routing: RoutingDecision;
+  // The provider neither confirmed nor declined, so the payment may have gone through
+  outcomeUnknown: boolean;
+}
 
 export class PaymentProviderFactory implements ProviderFactory {
   createProvider(providerType: string, config: BaseProviderConfig): BaseProvider {
@@ -39,6 +50,8 @@ export class PaymentProviderFactory implements ProviderFactory {
         return new AdyenProvider(config as AdyenConfig);
       case 'checkout':
         return new CheckoutProvider(config as CheckoutConfig);
+      case 'sandbox':
+        return new SandboxProvider(config as SandboxConfig);
       default:
         throw new Error(`Unsupported provider type: ${providerType}`);
     }
@@ -58,6 +71,7 @@ export class PaymentProviderFactory implements ProviderFactory {
       'saltedge',
       'adyen',
       'checkout',
+      'sandbox',
       'braintree',
       'authorize_net',
       'worldpay',
@@ -87,7 +101,10 @@ export class PaymentServiceManager {
   async addProvider(organizationId: string, providerType: string, config: BaseProviderConfig): Promise<void> {
     const provider = this.factory.createProvider(providerType, config);
     await provider.initialize();
-    this.providers.set(`${organizationId}:${providerType}`, provider);
+    this.providers.set(
+      `${organizationId}:${providerType}`,
+      guardProvider(organizationId, providerType, provider, config.timeoutMs)
+    );
   }
 
   getProvider(organizationId: string, providerType: string): BaseProvider | undefined {
@@ -108,28 +125,79 @@ export class PaymentServiceManager {
     return providers;
   }
 
+  getOrganizationProviderTypes(organizationId: string): string[] {
+    const types: string[] = [];
+    for (const key of this.providers.keys()) {
+      if (key.startsWith(`${organizationId}:`)) {
+        types.push(key.slice(organizationId.length + 1));
+      }
+    }
+    return types;
+  }
+
+  /**
+   * Send a payment to the best-ranked provider, falling back down the ranking only when a provider
+   * declines or its breaker is open. Any other error, a timeout above all, may have moved the money,
+   * so routing stops there and the payment comes back pending with `outcomeUnknown` set to be
+   * reconciled. The returned routing reason notes any providers that were tried first.
+   */
+  async processRoutedPayment(
+    organizationId: string,
+    request: RoutingRequest,
+    execute: (provider: BaseProvider) => Promise<PaymentResult | undefined>,
+    providerTypes: string[] = this.getOrganizationProviderTypes(organizationId)
+  ): Promise<RoutedPayment> {
+    const routing = await paymentRouter.route(organizationId, request, providerTypes);
+    const attempted: string[] = [];
+
+    for (const { provider: providerType } of routing.ranked) {
+      const provider = this.getProvider(organizationId, providerType);
+      if (!provider) continue;
+
+      const reason = attempted.length > 0
+        ? `Fell back to ${providerType} after ${attempted.join(', ')} failed; ${routing.reason}`
+        : routing.reason;
+      const routed = { provider: providerType, routing: { ...routing, provider: providerType, reason } };
+      try {
+        // Providers are guarded, so outcomes already feed the health tracker the router reads
+        const result = await execute(provider);
+        if (result?.success) {
+          return { ...routed, result, outcomeUnknown: false };
+        }
+      } catch (error) {
+        if (!(error instanceof ProviderCallError && error.reason === 'circuit_open')) {
+          console.error(`Payment outcome with ${providerType} is unknown:`, error);
+          const message = error instanceof Error ? error.message : String(error);
+          return { ...routed, result: { success: false, status: 'pending', error: message }, outcomeUnknown: true };
+        }
+        console.error(`Payment failed with ${providerType}:`, error);
+      }
+      attempted.push(providerType);
+    }
+
+    throw new Error(routing.provider ? 'All payment providers failed' : routing.reason);
+  }
+
   async processPaymentWithFallback(
     organizationId: string, 
     preferredProviders: string[], 
     amount: number, 
     currency: string,
-    metadata?: Record<string, any>
-  ): Promise<{ provider: string; result: any }> {
-    for (const providerType of preferredProviders) {
-      const provider = this.getProvider(organizationId, providerType);
-      if (provider && provider.processPayment) {
-        try {
-          const result = await provider.processPayment(amount, currency, metadata);
-          if (result.success) {
-            return { provider: providerType, result };
-          }
-        } catch (error) {
-          console.error(`Payment failed with ${providerType}:`, error);
-          continue;
-        }
-      }
-    }
-    throw new Error('All payment providers failed');
+    metadata?: Record<string, any>,
+    idempotencyKey?: string
+  ): Promise<RoutedPayment> {
+    // The caller's list limits the candidates; the router decides the order
+    const candidates = preferredProviders.length > 0
+      ? preferredProviders
+      : this.getOrganizationProviderTypes(organizationId);
+
+    return this.processRoutedPayment(
+      organizationId,
+      { amount, currency, rail: metadata?.rail ?? 'card' },
+      // Each provider keeps its own key space, so the same key is safe to reuse on fallback
+      async (provider) => provider.processPayment?.(amount, currency, metadata, { idempotencyKey }),
+      candidates.filter((providerType) => this.getProvider(organizationId, providerType)?.processPayment)
+    );
   }
 }
 
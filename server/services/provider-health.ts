@@ -0,0 +1,114 @@
+// In-process record of recent provider call outcomes, used for routing and circuit breaking
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderHealth {
+  successRate: number | null; // null until the provider has been called
+  samples: number;
+  consecutiveFailures: number;
+  breakerState: BreakerState;
+  openedAt: Date | null;
+}
+
+// Outcomes kept per provider for the success rate
+export const HEALTH_WINDOW = 50;
+// Consecutive failures that open the breaker, and how long it stays open before a trial call
+export const BREAKER_FAILURE_THRESHOLD = 5;
+export const BREAKER_COOLDOWN_MS = 60_000;
+
+interface ProviderStats {
+  outcomes: boolean[];
+  consecutiveFailures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+}
+
+export class ProviderHealthTracker {
+  private stats = new Map<string, ProviderStats>();
+
+  private entry(organizationId: string, provider: string): ProviderStats {
+    const key = `${organizationId}:${provider}`;
+    let stats = this.stats.get(key);
+    if (!stats) {
+      stats = { outcomes: [], consecutiveFailures: 0, openedAt: null, trialInFlight: false };
+      this.stats.set(key, stats);
+    }
+    return stats;
+  }
+
+  private push(stats: ProviderStats, outcome: boolean): void {
+    stats.outcomes.push(outcome);
+    if (stats.outcomes.length > HEALTH_WINDOW) {
+      stats.outcomes.shift();
+    }
+  }
+
+  private stateOf(stats: ProviderStats, now: number): BreakerState {
+    if (stats.openedAt === null) return 'closed';
+    return now - stats.openedAt < BREAKER_COOLDOWN_MS ? 'open' : 'half_open';
+  }
+
+  /**
+   * Ask to make a call. Closed breakers always allow it; an open breaker refuses; a half-open
+   * breaker lets exactly one trial call through and refuses the rest until that trial reports back.
+   */
+  acquire(organizationId: string, provider: string, now = Date.now()): boolean {
+    const stats = this.entry(organizationId, provider);
+    const state = this.stateOf(stats, now);
+    if (state === 'closed') return true;
+    if (state === 'open' || stats.trialInFlight) return false;
+    stats.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(organizationId: string, provider: string): void {
+    const stats = this.entry(organizationId, provider);
+    this.push(stats, true);
+    stats.consecutiveFailures = 0;
+    stats.openedAt = null;
+    stats.trialInFlight = false;
+  }
+
+  // The provider answered but refused the request (decline, validation error): it counts against
+  // the success rate, but the provider is reachable so the breaker treats it like a success
+  recordRejection(organizationId: string, provider: string): void {
+    const stats = this.entry(organizationId, provider);
+    this.push(stats, false);
+    stats.consecutiveFailures = 0;
+    stats.openedAt = null;
+    stats.trialInFlight = false;
+  }
+
+  // Timeouts and errors; a failed half-open trial reopens the breaker for another cooldown
+  recordFailure(organizationId: string, provider: string, now = Date.now()): void {
+    const stats = this.entry(organizationId, provider);
+    this.push(stats, false);
+    stats.consecutiveFailures += 1;
+    if (stats.trialInFlight || stats.consecutiveFailures >= BREAKER_FAILURE_THRESHOLD) {
+      stats.openedAt = now;
+    }
+    stats.trialInFlight = false;
+  }
+
+  getHealth(organizationId: string, provider: string, now = Date.now()): ProviderHealth {
+    const stats = this.stats.get(`${organizationId}:${provider}`);
+    if (!stats) {
+      return { successRate: null, samples: 0, consecutiveFailures: 0, breakerState: 'closed', openedAt: null };
+    }
+
+    const successes = stats.outcomes.filter(Boolean).length;
+    return {
+      successRate: stats.outcomes.length > 0 ? successes / stats.outcomes.length : null,
+      samples: stats.outcomes.length,
+      consecutiveFailures: stats.consecutiveFailures,
+      breakerState: this.stateOf(stats, now),
+      openedAt: stats.openedAt !== null ? new Date(stats.openedAt) : null,
+    };
+  }
+
+  reset(organizationId: string, provider: string): void {
+    this.stats.delete(`${organizationId}:${provider}`);
+  }
+}
+
+export const providerHealth = new ProviderHealthTracker();
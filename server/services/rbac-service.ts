@@ -0,0 +1,253 @@
+import type { NextFunction, Response } from 'express';
+import { db } from '../db';
+import { users, type User } from '@shared/schema';
+import {
+  customRoles,
+  SYSTEM_ROLES,
+  DEFAULT_ROLE_KEY,
+  PERMISSION_CATALOG,
+  permissionScopes,
+  type CustomRole,
+  type InsertCustomRole,
+  type PermissionResource,
+  type PermissionScope,
+} from '@shared/rbac-schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { LedgerError } from './ledger-service';
+import { enhancedStorage } from '../enhanced-storage';
+
+export interface RoleDefinition {
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  system: boolean;
+  id?: string;
+}
+
+type RoleUser = Pick<User, 'id' | 'organizationId' | 'role' | 'department'>;
+
+/**
+ * Whether a single "resource:action:scope" grant covers the resource and action
+ */
+export function grantMatches(grant: string, resource: string, action: string): boolean {
+  const [grantResource, grantAction] = grant.split(':');
+  return (grantResource === '*' || grantResource === resource) && (grantAction === '*' || grantAction === action);
+}
+
+/**
+ * The broadest scope the grants give for the resource and action, or null when none match
+ */
+export function resolvePermissionScope(grants: string[], resource: string, action: string): PermissionScope | null {
+  let best = -1;
+  for (const grant of grants) {
+    if (!grantMatches(grant, resource, action)) continue;
+    best = Math.max(best, permissionScopes.indexOf(grant.split(':')[2] as PermissionScope));
+  }
+  return best >= 0 ? permissionScopes[best] : null;
+}
+
+/**
+ * Grants naming a resource or action outside the catalog; "*" is always accepted
+ */
+export function unknownGrants(grants: string[]): string[] {
+  const allActions: readonly string[] = Object.values(PERMISSION_CATALOG).flat();
+  return grants.filter((grant) => {
+    const [resource, action] = grant.split(':');
+    const actions: readonly string[] | undefined =
+      resource === '*' ? allActions : PERMISSION_CATALOG[resource as PermissionResource];
+    return !actions || (action !== '*' && !actions.includes(action));
+  });
+}
+
+const systemRole = (key: string): RoleDefinition => ({ key, ...SYSTEM_ROLES[key], system: true });
+
+const customRole = (role: CustomRole): RoleDefinition => ({
+  id: role.id,
+  key: role.key,
+  name: role.name,
+  description: role.description,
+  permissions: role.permissions,
+  system: false,
+});
+
+export class RbacService {
+  async getRoles(organizationId: string): Promise<RoleDefinition[]> {
+    const custom = await db
+      .select()
+      .from(customRoles)
+      .where(eq(customRoles.organizationId, organizationId))
+      .orderBy(asc(customRoles.name));
+    return [...Object.keys(SYSTEM_ROLES).map(systemRole), ...custom.map(customRole)];
+  }
+
+  async findRole(organizationId: string, key: string): Promise<RoleDefinition | null> {
+    if (key in SYSTEM_ROLES) return systemRole(key);
+    const [role] = await db
+      .select()
+      .from(customRoles)
+      .where(and(eq(customRoles.organizationId, organizationId), eq(customRoles.key, key)));
+    return role ? customRole(role) : null;
+  }
+
+  /**
+   * The grants a user holds. Role keys that no longer resolve (a deleted custom role, or a
+   * login-time role such as "employee") fall back to the default staff role.
+   */
+  async getPermissions(user: RoleUser): Promise<string[]> {
+    const key = user.role || DEFAULT_ROLE_KEY;
+    const role = user.organizationId ? await this.findRole(user.organizationId, key) : null;
+    return (role ?? systemRole(DEFAULT_ROLE_KEY)).permissions;
+  }
+
+  async getScope(user: RoleUser, resource: PermissionResource, action: string): Promise<PermissionScope | null> {
+    return resolvePermissionScope(await this.getPermissions(user), resource, action);
+  }
+
+  async can(user: RoleUser, resource: PermissionResource, action: string): Promise<boolean> {
+    return (await this.getScope(user, resource, action)) !== null;
+  }
+
+  /**
+   * Ids of the users whose records a scope lets the user see, or null when the scope is the
+   * whole organization
+   */
+  async visibleOwnerIds(user: RoleUser, scope: PermissionScope): Promise<string[] | null> {
+    if (scope === 'organization') return null;
+    if (scope === 'own' || !user.department || !user.organizationId) return [user.id];
+    const colleagues = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.organizationId, user.organizationId), eq(users.department, user.department)));
+    return colleagues.map((colleague) => colleague.id);
+  }
+
+  async filterToScope<T>(
+    user: RoleUser,
+    scope: PermissionScope,
+    records: T[],
+    ownerOf: (record: T) => string | null | undefined
+  ): Promise<T[]> {
+    const ownerIds = await this.visibleOwnerIds(user, scope);
+    if (!ownerIds) return records;
+    return records.filter((record) => ownerIds.includes(ownerOf(record) ?? ''));
+  }
+
+  async createRole(role: InsertCustomRole): Promise<RoleDefinition> {
+    this.assertKnownGrants(role.permissions);
+    const existing = await this.findRole(role.organizationId, role.key);
+    if (existing) {
+      throw new LedgerError(`A role with key ${role.key} already exists`, 409);
+    }
+    const [created] = await db.insert(customRoles).values(role).returning();
+    return customRole(created);
+  }
+
+  async updateRole(
+    organizationId: string,
+    id: string,
+    changes: Partial<Pick<InsertCustomRole, 'name' | 'description' | 'permissions'>>
+  ): Promise<RoleDefinition> {
+    if (changes.permissions) this.assertKnownGrants(changes.permissions);
+    const [updated] = await db
+      .update(customRoles)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(customRoles.id, id), eq(customRoles.organizationId, organizationId)))
+      .returning();
+    if (!updated) {
+      throw new LedgerError('Role not found', 404);
+    }
+    return customRole(updated);
+  }
+
+  async deleteRole(organizationId: string, id: string): Promise<void> {
+    const [role] = await db
+      .select()
+      .from(customRoles)
+      .where(and(eq(customRoles.id, id), eq(customRoles.organizationId, organizationId)));
+    if (!role) {
+      throw new LedgerError('Role not found', 404);
+    }
+    const holders = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.organizationId, organizationId), eq(users.role, role.key)));
+    if (holders.length > 0) {
+      throw new LedgerError(`Role is still assigned to ${holders.length} user(s)`, 409);
+    }
+    await db.delete(customRoles).where(eq(customRoles.id, role.id));
+  }
+
+  async getUsers(organizationId: string): Promise<User[]> {
+    return db.select().from(users).where(eq(users.organizationId, organizationId)).orderBy(asc(users.email));
+  }
+
+  async assignRole(
+    actor: RoleUser,
+    userId: string,
+    assignment: { role: string; department?: string | null }
+  ): Promise<User> {
+    const organizationId = actor.organizationId!;
+    if (userId === actor.id && assignment.role !== actor.role) {
+      throw new LedgerError('You cannot change your own role', 400);
+    }
+    if (!(await this.findRole(organizationId, assignment.role))) {
+      throw new LedgerError(`Unknown role ${assignment.role}`, 422);
+    }
+    const [updated] = await db
+      .update(users)
+      .set({
+        role: assignment.role,
+        ...(assignment.department !== undefined ? { department: assignment.department } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(users.id, userId), eq(users.organizationId, organizationId)))
+      .returning();
+    if (!updated) {
+      throw new LedgerError('User not found', 404);
+    }
+    return updated;
+  }
+
+  private assertKnownGrants(grants: string[]) {
+    const unknown = unknownGrants(grants);
+    if (unknown.length > 0) {
+      throw new LedgerError(`Unknown permissions: ${unknown.join(', ')}`, 422);
+    }
+  }
+}
+
+export const rbacService = new RbacService();
+
+/**
+ * Route guard replacing inline role checks. Mount after isAuthenticated; it loads the caller,
+ * rejects anyone whose role lacks the permission, and exposes the caller as req.currentUser and
+ * the granted scope as req.permissionScope for handlers that filter by owner. The action may be
+ * derived from the request for endpoints whose body picks what happens.
+ */
+export function requirePermission(resource: PermissionResource, action: string | ((req: any) => string)) {
+  return async (req: any, res: Response, next: NextFunction) => {
+    try {
+      const required = typeof action === 'function' ? action(req) : action;
+      const user = await enhancedStorage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      if (!user.organizationId) {
+        return res.status(400).json({ message: 'User not associated with an organization' });
+      }
+
+      const scope = await rbacService.getScope(user, resource, required);
+      if (!scope) {
+        return res.status(403).json({ message: `Permission required: ${resource}:${required}` });
+      }
+
+      req.currentUser = user;
+      req.permissionScope = scope;
+      next();
+    } catch (error) {
+      console.error('Failed to check permissions:', error);
+      res.status(500).json({ message: 'Failed to check permissions' });
+    }
+  };
+}
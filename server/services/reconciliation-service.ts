@@ -0,0 +1,682 @@
+import { db } from '../db';
+import {
+  bankAccounts,
+  payments,
+  enhancedTransactions,
+  type BankAccount,
+  type Payment,
+  type EnhancedTransaction,
+} from '@shared/schema';
+import {
+  bankStatements,
+  bankStatementLines,
+  reconciliationSettings,
+  type BankStatement,
+  type BankStatementFormat,
+  type BankStatementLine,
+  type ReconciliationEntityType,
+  type ReconciliationSettings,
+} from '@shared/reconciliation-schema';
+import { checks } from '@shared/check-schema';
+import { achEntries, achOriginators } from '@shared/ach-schema';
+import { eq, ne, and, or, gte, lte, inArray, notInArray, isNull, isNotNull, asc, desc } from 'drizzle-orm';
+import { LedgerError, toCents, fromCents, type DbExecutor } from './ledger-service';
+import { paymentAccountingDate } from './fiscal-period-service';
+import { parseBankStatement } from './statement-parsers';
+
+export interface MatchTolerance {
+  amountTolerance: string;
+  dateToleranceDays: number;
+  requireReference: boolean;
+}
+
+// A book-side transaction a statement line can be matched to
+export interface ReconciliationCandidate {
+  entityType: ReconciliationEntityType;
+  entityId: string;
+  amount: string; // signed like statement lines
+  date: Date;
+  references: string[];
+  description: string | null;
+}
+
+export interface MatchResult {
+  lineId: string;
+  status: 'matched' | 'exception';
+  candidate?: ReconciliationCandidate;
+  reason?: string;
+}
+
+export interface ReconciliationReport {
+  bankAccountId: string;
+  accountName: string;
+  bankName: string;
+  statementId: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  openingBalance: string | null;
+  closingBalance: string | null;
+  statementActivity: string;
+  statementBalanced: boolean | null;
+  matched: { count: number; total: string };
+  exceptions: { count: number; total: string; lines: BankStatementLine[] };
+  ignored: { count: number; total: string };
+  depositsInTransit: { count: number; total: string; items: ReconciliationCandidate[] };
+  outstandingPayments: { count: number; total: string; items: ReconciliationCandidate[] };
+  adjustedBankBalance: string | null;
+  isReconciled: boolean;
+  generatedAt: string;
+}
+
+const DEFAULT_TOLERANCE: MatchTolerance = {
+  amountTolerance: '0',
+  dateToleranceDays: 3,
+  requireReference: false,
+};
+
+// Payment statuses that have (or will have) moved money through the bank
+const CLEARING_PAYMENT_STATUSES = ['processing', 'completed'] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalizeReference = (value: string | null | undefined) => value?.trim().toLowerCase() || null;
+
+export interface PaymentAccountLink {
+  paymentId: string;
+  bankAccountId: string;
+}
+
+// Only payments drawn on the account can clear on its statement; payments with no known account clear nowhere
+export function paymentsOnAccount<T extends { id: string }>(
+  rows: T[],
+  links: PaymentAccountLink[],
+  bankAccountId: string
+): T[] {
+  const onAccount = new Set(links.filter((link) => link.bankAccountId === bankAccountId).map((link) => link.paymentId));
+  return rows.filter((row) => onAccount.has(row.id));
+}
+
+export function paymentCandidate(payment: Payment): ReconciliationCandidate {
+  return {
+    entityType: 'payment',
+    entityId: payment.id,
+    amount: fromCents(-toCents(payment.amount)),
+    date: paymentAccountingDate(payment),
+    references: [payment.id],
+    description: payment.description,
+  };
+}
+
+export function enhancedTransactionCandidate(transaction: EnhancedTransaction): ReconciliationCandidate {
+  const cents = toCents(transaction.amount);
+  return {
+    entityType: 'enhanced_transaction',
+    entityId: transaction.id,
+    amount: fromCents(transaction.type === 'debit' ? -cents : cents),
+    date: transaction.settlementDate ?? transaction.createdAt ?? new Date(),
+    references: [transaction.providerTransactionId, transaction.id].filter((ref): ref is string => Boolean(ref)),
+    description: transaction.description,
+  };
+}
+
+/**
+ * Match statement lines to book transactions. Reference matches win first; the rest match when
+ * exactly one unused candidate is within the amount and date tolerances, otherwise they become
+ * exceptions for manual matching.
+ */
+export function autoMatchStatementLines(
+  lines: Array<Pick<BankStatementLine, 'id' | 'postedDate' | 'amount' | 'reference' | 'bankTransactionId'>>,
+  candidates: ReconciliationCandidate[],
+  tolerance: MatchTolerance = DEFAULT_TOLERANCE
+): MatchResult[] {
+  const used = new Set<string>();
+  const key = (candidate: ReconciliationCandidate) => `${candidate.entityType}:${candidate.entityId}`;
+  const amountTolerance = toCents(tolerance.amountTolerance);
+  const withinAmount = (line: { amount: string }, candidate: ReconciliationCandidate) =>
+    Math.abs(toCents(line.amount) - toCents(candidate.amount)) <= amountTolerance;
+  const withinDate = (line: { postedDate: Date }, candidate: ReconciliationCandidate) =>
+    Math.abs(line.postedDate.getTime() - candidate.date.getTime()) <= tolerance.dateToleranceDays * DAY_MS;
+
+  const results = new Map<string, MatchResult>();
+
+  // Pass 1: reference matches
+  lines.forEach((line) => {
+    const references = [line.reference, line.bankTransactionId].map(normalizeReference).filter(Boolean);
+    if (references.length === 0) return;
+    const hits = candidates.filter((candidate) =>
+      !used.has(key(candidate))
+      && withinAmount(line, candidate)
+      && candidate.references.some((reference) => references.includes(normalizeReference(reference))));
+    if (hits.length === 1) {
+      used.add(key(hits[0]));
+      results.set(line.id, { lineId: line.id, status: 'matched', candidate: hits[0] });
+    }
+  });
+
+  // Pass 2: amount and date
+  lines.forEach((line) => {
+    if (results.has(line.id)) return;
+    if (tolerance.requireReference) {
+      results.set(line.id, { lineId: line.id, status: 'exception', reason: 'No transaction with a matching reference' });
+      return;
+    }
+
+    const hits = candidates.filter((candidate) =>
+      !used.has(key(candidate)) && withinAmount(line, candidate) && withinDate(line, candidate));
+    if (hits.length === 1) {
+      used.add(key(hits[0]));
+      results.set(line.id, { lineId: line.id, status: 'matched', candidate: hits[0] });
+    } else if (hits.length > 1) {
+      results.set(line.id, {
+        lineId: line.id,
+        status: 'exception',
+        reason: `${hits.length} transactions match amount and date; select one manually`,
+      });
+    } else {
+      results.set(line.id, { lineId: line.id, status: 'exception', reason: 'No matching transaction' });
+    }
+  });
+
+  return lines.map((line) => results.get(line.id)!);
+}
+
+// Roll statement lines and outstanding book items into a bank reconciliation
+export function buildReconciliationReport(
+  account: Pick<BankAccount, 'id' | 'accountName' | 'bankName'>,
+  statement: BankStatement | null,
+  lines: BankStatementLine[],
+  outstanding: ReconciliationCandidate[]
+): ReconciliationReport {
+  const summarize = (subset: BankStatementLine[]) => ({
+    count: subset.length,
+    total: fromCents(subset.reduce((sum, line) => sum + toCents(line.amount), 0)),
+  });
+  const matched = lines.filter((line) => line.status === 'matched');
+  const open = lines.filter((line) => line.status === 'unmatched' || line.status === 'exception');
+  const ignored = lines.filter((line) => line.status === 'ignored');
+
+  const deposits = outstanding.filter((item) => toCents(item.amount) > 0);
+  const disbursements = outstanding.filter((item) => toCents(item.amount) < 0);
+  const itemTotal = (items: ReconciliationCandidate[]) => items.reduce((sum, item) => sum + toCents(item.amount), 0);
+
+  const activity = lines.reduce((sum, line) => sum + toCents(line.amount), 0);
+  const closing = statement?.closingBalance ?? null;
+  const opening = statement?.openingBalance ?? null;
+
+  return {
+    bankAccountId: account.id,
+    accountName: account.accountName,
+    bankName: account.bankName,
+    statementId: statement?.id ?? null,
+    periodStart: statement?.periodStart?.toISOString() ?? null,
+    periodEnd: statement?.periodEnd?.toISOString() ?? null,
+    openingBalance: opening,
+    closingBalance: closing,
+    statementActivity: fromCents(activity),
+    statementBalanced: opening !== null && closing !== null ? toCents(opening) + activity === toCents(closing) : null,
+    matched: summarize(matched),
+    exceptions: { ...summarize(open), lines: open },
+    ignored: summarize(ignored),
+    depositsInTransit: { count: deposits.length, total: fromCents(itemTotal(deposits)), items: deposits },
+    outstandingPayments: { count: disbursements.length, total: fromCents(itemTotal(disbursements)), items: disbursements },
+    adjustedBankBalance: closing === null ? null : fromCents(toCents(closing) + itemTotal(outstanding)),
+    isReconciled: open.length === 0,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+export class ReconciliationService {
+  async getBankAccount(id: string, organizationId: string): Promise<BankAccount> {
+    const [account] = await db
+      .select()
+      .from(bankAccounts)
+      .where(and(eq(bankAccounts.id, id), eq(bankAccounts.organizationId, organizationId)));
+    if (!account) {
+      throw new LedgerError('Bank account not found', 404);
+    }
+    return account;
+  }
+
+  async getSettings(bankAccountId: string, executor: DbExecutor = db): Promise<MatchTolerance> {
+    const [settings] = await executor
+      .select()
+      .from(reconciliationSettings)
+      .where(eq(reconciliationSettings.bankAccountId, bankAccountId));
+    return {
+      amountTolerance: settings?.amountTolerance ?? DEFAULT_TOLERANCE.amountTolerance,
+      dateToleranceDays: settings?.dateToleranceDays ?? DEFAULT_TOLERANCE.dateToleranceDays,
+      requireReference: settings?.requireReference ?? DEFAULT_TOLERANCE.requireReference,
+    };
+  }
+
+  async updateSettings(
+    bankAccountId: string,
+    organizationId: string,
+    tolerance: MatchTolerance
+  ): Promise<ReconciliationSettings> {
+    await this.getBankAccount(bankAccountId, organizationId);
+    const [settings] = await db
+      .insert(reconciliationSettings)
+      .values({ organizationId, bankAccountId, ...tolerance })
+      .onConflictDoUpdate({
+        target: reconciliationSettings.bankAccountId,
+        set: { ...tolerance, updatedAt: new Date() },
+      })
+      .returning();
+    return settings;
+  }
+
+  async getStatements(bankAccountId: string, organizationId: string): Promise<BankStatement[]> {
+    return await db
+      .select()
+      .from(bankStatements)
+      .where(and(eq(bankStatements.bankAccountId, bankAccountId), eq(bankStatements.organizationId, organizationId)))
+      .orderBy(desc(bankStatements.createdAt));
+  }
+
+  /**
+   * Import a BAI2, OFX/QFX or CSV statement and auto-match its lines; lines already imported
+   * for the account (same bank transaction id) are skipped
+   */
+  async importStatement(
+    bankAccountId: string,
+    organizationId: string,
+    importedBy: string,
+    file: { format: BankStatementFormat; content: string; fileName?: string }
+  ): Promise<{ statement: BankStatement; imported: number; skipped: number; matched: number; exceptions: number }> {
+    await this.getBankAccount(bankAccountId, organizationId);
+    const parsed = parseBankStatement(file.format, file.content);
+
+    return await db.transaction(async (tx) => {
+      const [statement] = await tx
+        .insert(bankStatements)
+        .values({
+          organizationId,
+          bankAccountId,
+          format: file.format,
+          fileName: file.fileName,
+          periodStart: parsed.periodStart,
+          periodEnd: parsed.periodEnd,
+          openingBalance: parsed.openingBalance,
+          closingBalance: parsed.closingBalance,
+          importedBy,
+        })
+        .returning();
+
+      const inserted = parsed.lines.length === 0 ? [] : await tx
+        .insert(bankStatementLines)
+        .values(parsed.lines.map((line) => ({ ...line, statementId: statement.id, organizationId, bankAccountId })))
+        .onConflictDoNothing()
+        .returning();
+
+      const [updated] = await tx
+        .update(bankStatements)
+        .set({ lineCount: inserted.length })
+        .where(eq(bankStatements.id, statement.id))
+        .returning();
+
+      const results = await this.applyAutoMatch(bankAccountId, organizationId, inserted, tx);
+
+      return {
+        statement: updated,
+        imported: inserted.length,
+        skipped: parsed.lines.length - inserted.length,
+        matched: results.filter((result) => result.status === 'matched').length,
+        exceptions: results.filter((result) => result.status === 'exception').length,
+      };
+    });
+  }
+
+  /**
+   * Re-run auto-matching over the account's unmatched lines and exceptions
+   */
+  async autoMatch(bankAccountId: string, organizationId: string): Promise<MatchResult[]> {
+    await this.getBankAccount(bankAccountId, organizationId);
+    return await db.transaction(async (tx) => {
+      const openLines = await tx
+        .select()
+        .from(bankStatementLines)
+        .where(
+          and(
+            eq(bankStatementLines.bankAccountId, bankAccountId),
+            inArray(bankStatementLines.status, ['unmatched', 'exception'])
+          )
+        )
+        .orderBy(asc(bankStatementLines.postedDate));
+      return await this.applyAutoMatch(bankAccountId, organizationId, openLines, tx);
+    });
+  }
+
+  private async applyAutoMatch(
+    bankAccountId: string,
+    organizationId: string,
+    lines: BankStatementLine[],
+    executor: DbExecutor
+  ): Promise<MatchResult[]> {
+    if (lines.length === 0) return [];
+
+    const tolerance = await this.getSettings(bankAccountId, executor);
+    const dates = lines.map((line) => line.postedDate.getTime());
+    const window = tolerance.dateToleranceDays * DAY_MS;
+    const candidates = await this.getCandidates(
+      bankAccountId,
+      organizationId,
+      new Date(Math.min(...dates) - window),
+      new Date(Math.max(...dates) + window),
+      executor
+    );
+
+    const results = autoMatchStatementLines(lines, candidates, tolerance);
+    for (const result of results) {
+      if (result.status === 'matched' && result.candidate) {
+        await this.recordMatch(result.lineId, result.candidate.entityType, result.candidate.entityId, 'auto', null, executor);
+      } else {
+        await executor
+          .update(bankStatementLines)
+          .set({ status: 'exception', exceptionReason: result.reason, updatedAt: new Date() })
+          .where(eq(bankStatementLines.id, result.lineId));
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Book transactions for the account that are not yet matched to a statement line
+   */
+  async getCandidates(
+    bankAccountId: string,
+    organizationId: string,
+    from: Date,
+    to: Date,
+    executor: DbExecutor = db
+  ): Promise<ReconciliationCandidate[]> {
+    const onAccount = or(
+      eq(enhancedTransactions.fromAccountId, bankAccountId),
+      eq(enhancedTransactions.toAccountId, bankAccountId)
+    );
+
+    const transactions = await executor
+      .select()
+      .from(enhancedTransactions)
+      .where(
+        and(
+          eq(enhancedTransactions.organizationId, organizationId),
+          onAccount,
+          eq(enhancedTransactions.status, 'completed'),
+          isNull(enhancedTransactions.reconciledAt),
+          gte(enhancedTransactions.createdAt, new Date(from.getTime() - 30 * DAY_MS)),
+          lte(enhancedTransactions.createdAt, to)
+        )
+      );
+
+    // Payments settled through a provider transaction are matched via that transaction instead
+    const viaTransaction = executor
+      .select({ paymentId: enhancedTransactions.paymentId })
+      .from(enhancedTransactions)
+      .where(and(onAccount, isNotNull(enhancedTransactions.paymentId)));
+    const alreadyMatched = executor
+      .select({ entityId: bankStatementLines.matchedEntityId })
+      .from(bankStatementLines)
+      .where(and(eq(bankStatementLines.matchedEntityType, 'payment'), isNotNull(bankStatementLines.matchedEntityId)));
+
+    const datedPayments = await executor
+      .select()
+      .from(payments)
+      .where(
+        and(
+          eq(payments.organizationId, organizationId),
+          inArray(payments.status, [...CLEARING_PAYMENT_STATUSES]),
+          notInArray(payments.id, viaTransaction),
+          notInArray(payments.id, alreadyMatched),
+          or(
+            and(isNotNull(payments.processedDate), gte(payments.processedDate, from), lte(payments.processedDate, to)),
+            and(isNull(payments.processedDate), gte(payments.createdAt, from), lte(payments.createdAt, to))
+          )
+        )
+      );
+
+    const links = await this.getPaymentAccountLinks(datedPayments.map((payment) => payment.id), executor);
+
+    return [
+      ...transactions
+        .map(enhancedTransactionCandidate)
+        .filter((candidate) => candidate.date >= from && candidate.date <= to),
+      ...paymentsOnAccount(datedPayments, links, bankAccountId).map(paymentCandidate),
+    ];
+  }
+
+  /**
+   * The accounts payments were drawn on: the account a live check was written on, and the settlement
+   * account of the ACH originator that sent the entry
+   */
+  private async getPaymentAccountLinks(paymentIds: string[], executor: DbExecutor = db): Promise<PaymentAccountLink[]> {
+    if (paymentIds.length === 0) return [];
+
+    const byCheck = await executor
+      .select({ paymentId: checks.paymentId, bankAccountId: checks.bankAccountId })
+      .from(checks)
+      .where(and(inArray(checks.paymentId, paymentIds), ne(checks.status, 'voided')));
+    const byAch = await executor
+      .select({ paymentId: achEntries.sourceId, bankAccountId: achOriginators.settlementBankAccountId })
+      .from(achEntries)
+      .innerJoin(achOriginators, eq(achOriginators.id, achEntries.originatorId))
+      .where(and(eq(achEntries.sourceType, 'payment'), inArray(achEntries.sourceId, paymentIds)));
+
+    return [...byCheck, ...byAch].filter(
+      (link): link is PaymentAccountLink => link.paymentId !== null && link.bankAccountId !== null
+    );
+  }
+
+  /**
+   * Candidates a single line could be matched to by hand, closest amount first
+   */
+  async getLineCandidates(lineId: string, organizationId: string): Promise<ReconciliationCandidate[]> {
+    const line = await this.getLine(lineId, organizationId);
+    const tolerance = await this.getSettings(line.bankAccountId);
+    const window = Math.max(tolerance.dateToleranceDays, 30) * DAY_MS;
+    const candidates = await this.getCandidates(
+      line.bankAccountId,
+      organizationId,
+      new Date(line.postedDate.getTime() - window),
+      new Date(line.postedDate.getTime() + window)
+    );
+    const distance = (candidate: ReconciliationCandidate) => Math.abs(toCents(candidate.amount) - toCents(line.amount));
+    return candidates.sort((a, b) => distance(a) - distance(b));
+  }
+
+  async getLine(lineId: string, organizationId: string, executor: DbExecutor = db): Promise<BankStatementLine> {
+    const [line] = await executor
+      .select()
+      .from(bankStatementLines)
+      .where(and(eq(bankStatementLines.id, lineId), eq(bankStatementLines.organizationId, organizationId)));
+    if (!line) {
+      throw new LedgerError('Statement line not found', 404);
+    }
+    return line;
+  }
+
+  /**
+   * Lines waiting for manual matching
+   */
+  async getExceptions(organizationId: string, bankAccountId?: string): Promise<BankStatementLine[]> {
+    const conditions = [
+      eq(bankStatementLines.organizationId, organizationId),
+      inArray(bankStatementLines.status, ['unmatched', 'exception']),
+    ];
+    if (bankAccountId) conditions.push(eq(bankStatementLines.bankAccountId, bankAccountId));
+
+    return await db
+      .select()
+      .from(bankStatementLines)
+      .where(and(...conditions))
+      .orderBy(asc(bankStatementLines.postedDate));
+  }
+
+  /**
+   * Manually match a statement line to a payment or provider transaction
+   */
+  async matchLine(
+    lineId: string,
+    organizationId: string,
+    matchedBy: string,
+    entityType: ReconciliationEntityType,
+    entityId: string
+  ): Promise<BankStatementLine> {
+    return await db.transaction(async (tx) => {
+      const line = await this.getLine(lineId, organizationId, tx);
+      if (line.status === 'matched') {
+        throw new LedgerError('Statement line is already matched', 409);
+      }
+
+      const entity = entityType === 'payment'
+        ? (await tx.select().from(payments).where(eq(payments.id, entityId)))[0]
+        : (await tx.select().from(enhancedTransactions).where(eq(enhancedTransactions.id, entityId)))[0];
+      if (entity?.organizationId !== organizationId) {
+        throw new LedgerError('Transaction not found', 404);
+      }
+
+      const [existing] = await tx
+        .select({ id: bankStatementLines.id })
+        .from(bankStatementLines)
+        .where(
+          and(
+            eq(bankStatementLines.matchedEntityType, entityType),
+            eq(bankStatementLines.matchedEntityId, entityId)
+          )
+        );
+      if (existing) {
+        throw new LedgerError('Transaction is already matched to another statement line', 409);
+      }
+
+      return await this.recordMatch(lineId, entityType, entityId, 'manual', matchedBy, tx);
+    });
+  }
+
+  /**
+   * Undo a match and return the line to the exception queue
+   */
+  async unmatchLine(lineId: string, organizationId: string): Promise<BankStatementLine> {
+    return await db.transaction(async (tx) => {
+      const line = await this.getLine(lineId, organizationId, tx);
+      if (line.status !== 'matched') {
+        throw new LedgerError('Statement line is not matched', 409);
+      }
+
+      if (line.matchedEntityType === 'enhanced_transaction' && line.matchedEntityId) {
+        await tx
+          .update(enhancedTransactions)
+          .set({ reconciledAt: null, updatedAt: new Date() })
+          .where(eq(enhancedTransactions.id, line.matchedEntityId));
+      }
+
+      const [updated] = await tx
+        .update(bankStatementLines)
+        .set({
+          status: 'exception',
+          matchedEntityType: null,
+          matchedEntityId: null,
+          matchMethod: null,
+          matchedBy: null,
+          matchedAt: null,
+          exceptionReason: 'Match removed',
+          updatedAt: new Date(),
+        })
+        .where(eq(bankStatementLines.id, lineId))
+        .returning();
+      return updated;
+    });
+  }
+
+  /**
+   * Clear a line from the exception queue without a book match (e.g. bank fees booked separately)
+   */
+  async ignoreLine(lineId: string, organizationId: string, ignoredBy: string, reason: string): Promise<BankStatementLine> {
+    const line = await this.getLine(lineId, organizationId);
+    if (line.status === 'matched') {
+      throw new LedgerError('Unmatch the statement line before ignoring it', 409);
+    }
+
+    const [updated] = await db
+      .update(bankStatementLines)
+      .set({ status: 'ignored', exceptionReason: reason, matchedBy: ignoredBy, updatedAt: new Date() })
+      .where(eq(bankStatementLines.id, lineId))
+      .returning();
+    return updated;
+  }
+
+  private async recordMatch(
+    lineId: string,
+    entityType: ReconciliationEntityType,
+    entityId: string,
+    matchMethod: 'auto' | 'manual',
+    matchedBy: string | null,
+    executor: DbExecutor
+  ): Promise<BankStatementLine> {
+    const matchedAt = new Date();
+    if (entityType === 'enhanced_transaction') {
+      await executor
+        .update(enhancedTransactions)
+        .set({ reconciledAt: matchedAt, updatedAt: matchedAt })
+        .where(eq(enhancedTransactions.id, entityId));
+    }
+
+    const [updated] = await executor
+      .update(bankStatementLines)
+      .set({
+        status: 'matched',
+        matchedEntityType: entityType,
+        matchedEntityId: entityId,
+        matchMethod,
+        matchedBy,
+        matchedAt,
+        exceptionReason: null,
+        updatedAt: matchedAt,
+      })
+      .where(eq(bankStatementLines.id, lineId))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Reconciliation of one statement (the latest by default) against outstanding book items
+   */
+  async getReconciliationReport(
+    bankAccountId: string,
+    organizationId: string,
+    statementId?: string
+  ): Promise<ReconciliationReport> {
+    const account = await this.getBankAccount(bankAccountId, organizationId);
+
+    const [statement] = await db
+      .select()
+      .from(bankStatements)
+      .where(
+        and(
+          eq(bankStatements.bankAccountId, bankAccountId),
+          eq(bankStatements.organizationId, organizationId),
+          ...(statementId ? [eq(bankStatements.id, statementId)] : [])
+        )
+      )
+      .orderBy(desc(bankStatements.periodEnd), desc(bankStatements.createdAt))
+      .limit(1);
+    if (statementId && !statement) {
+      throw new LedgerError('Bank statement not found', 404);
+    }
+
+    const lines = statement
+      ? await db.select().from(bankStatementLines).where(eq(bankStatementLines.statementId, statement.id))
+      : [];
+
+    // Everything booked through the statement end and still unmatched is outstanding
+    const outstanding = await this.getCandidates(
+      bankAccountId,
+      organizationId,
+      new Date(0),
+      statement?.periodEnd ?? new Date()
+    );
+
+    return buildReconciliationReport(account, statement ?? null, lines, outstanding);
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
@@ -1,4 +1,5 @@
 import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, ComplianceResult } from './base-provider';
+import { addBusinessDays } from './banking-calendar';
 
 export interface SaltEdgeConfig extends BaseProviderConfig {
   appId: string;
@@ -65,8 +66,8 @@ export class SaltEdgeProvider extends BaseProvider {
   ): Promise<TransferResult> {
     try {
       const transferId = `se_sepa_${Date.now()}`;
-      const estimatedSettlement = new Date();
-      estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+      let estimatedSettlement = new Date();
+      estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
       
       this.logTransaction('processSEPATransfer', { 
         amount, 
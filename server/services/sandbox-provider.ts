@@ -0,0 +1,357 @@
+import crypto from 'crypto';
+import {
+  BaseProvider,
+  BaseProviderConfig,
+  PaymentResult,
+  TransferResult,
+  CardIssueResult,
+  ComplianceResult,
+  ProviderCallOptions,
+} from './base-provider';
+import { signSandboxWebhook } from './webhook-verification';
+
+export interface SandboxConfig extends BaseProviderConfig {
+  webhookSecret?: string; // deliveries are skipped without one, since the webhook route would reject them
+  webhookUrl?: string; // defaults to this server's /api/webhooks/sandbox
+  settlementDelayMs?: number; // how long accepted payments stay processing
+  delayedSettlementMs?: number; // settlement time for the "delayed" magic amount
+  returnDelayMs?: number; // time between settlement and a scripted ACH return
+  hangMs?: number; // how long the "hang" magic amount takes to answer
+  autoDeliver?: boolean; // false keeps webhooks queued until flushWebhooks()
+  seed?: string; // fixes generated ids across runs
+}
+
+export type SandboxOutcome =
+  | { kind: 'success' }
+  | { kind: 'decline'; error: string }
+  | { kind: 'fail_later' }
+  | { kind: 'delayed' }
+  | { kind: 'return'; returnCode: string }
+  | { kind: 'error' }
+  | { kind: 'hang' };
+
+// The cents of an amount script the outcome, e.g. 100.02 is declined for insufficient funds
+// and 250.61 settles and is then returned R01. Every other amount succeeds.
+export const SANDBOX_MAGIC_CENTS: Record<number, SandboxOutcome> = {
+  1: { kind: 'decline', error: 'card_declined' },
+  2: { kind: 'decline', error: 'insufficient_funds' },
+  3: { kind: 'fail_later' },
+  4: { kind: 'delayed' },
+  5: { kind: 'error' },
+  6: { kind: 'hang' },
+  61: { kind: 'return', returnCode: 'R01' },
+  62: { kind: 'return', returnCode: 'R02' },
+  63: { kind: 'return', returnCode: 'R03' },
+  64: { kind: 'return', returnCode: 'R04' },
+  70: { kind: 'return', returnCode: 'R10' },
+  79: { kind: 'return', returnCode: 'R29' },
+};
+
+// Names containing these words script screening and card outcomes
+const SANCTIONED_NAME = /sanctioned/i;
+const REVIEW_NAME = /review/i;
+const DECLINED_NAME = /decline/i;
+
+const DEFAULT_SETTLEMENT_DELAY_MS = 2_000;
+const DEFAULT_DELAYED_SETTLEMENT_MS = 5 * 60_000;
+const DEFAULT_RETURN_DELAY_MS = 5_000;
+const DEFAULT_HANG_MS = 60_000;
+
+export function sandboxOutcome(amount: number): SandboxOutcome {
+  const cents = Math.round(amount * 100) % 100;
+  return SANDBOX_MAGIC_CENTS[cents] ?? { kind: 'success' };
+}
+
+export interface SandboxWebhook {
+  id: string;
+  type: string;
+  created: string;
+  data: Record<string, any>;
+}
+
+export interface SandboxWebhookDelivery {
+  eventId: string;
+  type: string;
+  status: number | null; // null when the request never got a response
+}
+
+interface QueuedWebhook {
+  dueAt: number;
+  body: SandboxWebhook;
+}
+
+type Movement = 'payment' | 'ach' | 'wire' | 'instant';
+type WebhookTransport = (url: string, init: { method: string; headers: Record<string, string>; body: string }) => Promise<{ status: number }>;
+
+/**
+ * Offline provider for development and integration tests. Outcomes are scripted by amount or name
+ * rather than random, and state changes arrive as signed webhooks on the local webhook route, so the
+ * same code paths run as against a real provider.
+ */
+export class SandboxProvider extends BaseProvider {
+  readonly supportsIdempotencyKeys = true;
+  private readonly sequences = new Map<string, number>();
+  private readonly runId: string;
+  private readonly transport: WebhookTransport;
+  private readonly queue: QueuedWebhook[] = [];
+  private readonly idempotentResults = new Map<string, PaymentResult>();
+  private readonly cards = new Map<string, CardIssueResult['status']>();
+
+  constructor(config: SandboxConfig, transport: WebhookTransport = (url, init) => fetch(url, init)) {
+    super(config);
+    this.runId = config.seed ?? Date.now().toString(36);
+    this.transport = transport;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.validateConfig()) {
+      throw new Error('The sandbox provider cannot be used in production');
+    }
+    this.logTransaction('initialize', { status: 'success', webhookUrl: this.webhookUrl() });
+  }
+
+  validateConfig(): boolean {
+    return this.isTestMode;
+  }
+
+  getProviderName(): string {
+    return 'sandbox';
+  }
+
+  async processPayment(
+    amount: number,
+    currency: string = 'USD',
+    metadata?: Record<string, any>,
+    options?: ProviderCallOptions
+  ): Promise<PaymentResult> {
+    return this.move('payment', amount, currency, 0, options, metadata);
+  }
+
+  async processACH(
+    amount: number,
+    fromAccount: string,
+    toAccount: string,
+    type: 'standard' | 'same_day' | 'next_day' = 'standard',
+    options?: ProviderCallOptions
+  ): Promise<TransferResult> {
+    const fees = type === 'same_day' ? 1.0 : type === 'next_day' ? 0.5 : 0.25;
+    return this.move('ach', amount, 'USD', fees, options, { fromAccount, toAccount, type });
+  }
+
+  async processWire(
+    amount: number,
+    fromAccount: string,
+    toAccount: string,
+    type: 'domestic' | 'international' = 'domestic',
+    options?: ProviderCallOptions
+  ): Promise<TransferResult> {
+    const fees = type === 'international' ? 35 : 15;
+    return this.move('wire', amount, 'USD', fees, options, { fromAccount, toAccount, type });
+  }
+
+  async processInstantTransfer(amount: number, fromAccount: string, toAccount: string): Promise<TransferResult> {
+    return this.move('instant', amount, 'USD', 0.5, undefined, { fromAccount, toAccount });
+  }
+
+  async issueCard(holderName: string, type: 'debit' | 'credit' | 'virtual', limits?: Record<string, number>): Promise<CardIssueResult> {
+    if (DECLINED_NAME.test(holderName)) {
+      return { success: false, error: 'card_issuance_declined' };
+    }
+
+    const cardId = this.nextId('card');
+    this.cards.set(cardId, 'pending');
+    this.logTransaction('issueCard', { cardId, holderName, type, limits });
+
+    const expiry = new Date();
+    expiry.setFullYear(expiry.getFullYear() + 3);
+    return {
+      success: true,
+      cardId,
+      cardNumber: '****4242',
+      expiryDate: `${String(expiry.getMonth() + 1).padStart(2, '0')}/${String(expiry.getFullYear()).slice(-2)}`,
+      status: 'pending',
+    };
+  }
+
+  async blockCard(cardId: string): Promise<PaymentResult> {
+    return this.setCardStatus(cardId, 'blocked', 'card.blocked');
+  }
+
+  async activateCard(cardId: string): Promise<PaymentResult> {
+    return this.setCardStatus(cardId, 'active', 'card.activated');
+  }
+
+  async screenEntity(entityType: 'individual' | 'business', entityData: Record<string, any>): Promise<ComplianceResult> {
+    const name = String(entityData.name ?? entityData.legalName ?? '');
+    return { ...this.screen(name), details: { entityType, name } };
+  }
+
+  async checkSanctions(name: string, identifiers?: Record<string, any>): Promise<ComplianceResult> {
+    return { ...this.screen(name), details: { name, identifiers } };
+  }
+
+  // Webhooks waiting for flushWebhooks(); always empty when autoDeliver is on
+  pendingWebhooks(): SandboxWebhook[] {
+    return this.queue.map((entry) => entry.body);
+  }
+
+  /**
+   * Deliver queued webhooks that are due by `until`, in the order the provider would send them
+   */
+  async flushWebhooks(until = Number.POSITIVE_INFINITY): Promise<SandboxWebhookDelivery[]> {
+    const due = this.queue.filter((entry) => entry.dueAt <= until).sort((a, b) => a.dueAt - b.dueAt);
+    const deliveries: SandboxWebhookDelivery[] = [];
+    for (const entry of due) {
+      this.queue.splice(this.queue.indexOf(entry), 1);
+      deliveries.push(await this.deliver(entry.body));
+    }
+    return deliveries;
+  }
+
+  private get sandboxConfig(): SandboxConfig {
+    return this.config as SandboxConfig;
+  }
+
+  private webhookUrl(): string {
+    return this.sandboxConfig.webhookUrl || `http://127.0.0.1:${process.env.PORT || '5000'}/api/webhooks/sandbox`;
+  }
+
+  private nextId(prefix: string, idempotencyKey?: string): string {
+    // Keyed requests get an id derived from the key, as a real provider would return the same object
+    if (idempotencyKey) {
+      return `sbx_${prefix}_${crypto.createHash('sha256').update(idempotencyKey).digest('hex').slice(0, 16)}`;
+    }
+    const sequence = (this.sequences.get(prefix) ?? 0) + 1;
+    this.sequences.set(prefix, sequence);
+    return `sbx_${prefix}_${this.runId}_${String(sequence).padStart(6, '0')}`;
+  }
+
+  private async move(
+    movement: Movement,
+    amount: number,
+    currency: string,
+    fees: number,
+    options: ProviderCallOptions | undefined,
+    metadata?: Record<string, any>
+  ): Promise<TransferResult> {
+    if (!this.validateAmount(amount)) {
+      return { success: false, error: 'Invalid amount' };
+    }
+
+    const key = options?.idempotencyKey;
+    const previous = key ? this.idempotentResults.get(key) : undefined;
+    if (previous) {
+      return previous;
+    }
+
+    const outcome = sandboxOutcome(amount);
+    if (outcome.kind === 'error') {
+      throw new Error('Sandbox provider error (scripted by amount)');
+    }
+    if (outcome.kind === 'hang') {
+      await new Promise((resolve) => setTimeout(resolve, this.sandboxConfig.hangMs ?? DEFAULT_HANG_MS));
+    }
+
+    const result = outcome.kind === 'decline' ? { success: false, error: outcome.error } : this.accept(movement, amount, currency, fees, outcome, key);
+    this.logTransaction(movement, { amount, currency, outcome: outcome.kind, transactionId: result.transactionId, ...metadata });
+    if (key) {
+      this.idempotentResults.set(key, result);
+    }
+    return result;
+  }
+
+  private accept(
+    movement: Movement,
+    amount: number,
+    currency: string,
+    fees: number,
+    outcome: SandboxOutcome,
+    idempotencyKey?: string
+  ): TransferResult {
+    const id = this.nextId(movement, idempotencyKey);
+    const settlementDelay =
+      outcome.kind === 'delayed'
+        ? this.sandboxConfig.delayedSettlementMs ?? DEFAULT_DELAYED_SETTLEMENT_MS
+        : this.sandboxConfig.settlementDelayMs ?? DEFAULT_SETTLEMENT_DELAY_MS;
+    const data = { transactionId: id, amount, currency };
+
+    this.emit('payment.processing', data, 0);
+    if (outcome.kind === 'fail_later') {
+      this.emit('payment.failed', { ...data, reason: 'scripted_failure' }, settlementDelay);
+    } else {
+      this.emit('payment.completed', data, settlementDelay);
+    }
+    if (outcome.kind === 'return') {
+      const returnDelay = this.sandboxConfig.returnDelayMs ?? DEFAULT_RETURN_DELAY_MS;
+      this.emit('payment.returned', { ...data, returnCode: outcome.returnCode }, settlementDelay + returnDelay);
+    }
+
+    return {
+      success: true,
+      transactionId: id,
+      providerTransactionId: id,
+      transferId: movement === 'payment' ? undefined : id,
+      status: 'processing',
+      estimatedSettlement: new Date(Date.now() + settlementDelay),
+      fees,
+      metadata: { sandbox: true, outcome: outcome.kind },
+    };
+  }
+
+  private async setCardStatus(cardId: string, status: 'active' | 'blocked', eventType: string): Promise<PaymentResult> {
+    if (!this.cards.has(cardId)) {
+      return { success: false, error: 'Card not found' };
+    }
+    this.cards.set(cardId, status);
+    this.logTransaction(eventType, { cardId });
+    this.emit(eventType, { cardId }, 0);
+    return { success: true, transactionId: cardId };
+  }
+
+  private screen(name: string): ComplianceResult {
+    if (SANCTIONED_NAME.test(name)) {
+      return { success: true, riskScore: 95, flags: ['sanctions_match'], approved: false, requiresReview: true };
+    }
+    if (REVIEW_NAME.test(name)) {
+      return { success: true, riskScore: 60, flags: ['possible_pep_match'], approved: false, requiresReview: true };
+    }
+    return { success: true, riskScore: 5, flags: [], approved: true, requiresReview: false };
+  }
+
+  private emit(type: string, data: Record<string, any>, delayMs: number): void {
+    const body: SandboxWebhook = { id: this.nextId('evt'), type, created: new Date().toISOString(), data };
+    if (this.sandboxConfig.autoDeliver === false) {
+      this.queue.push({ dueAt: Date.now() + delayMs, body });
+      return;
+    }
+    // Timers are unref'd so pending deliveries never keep the process alive
+    setTimeout(() => void this.deliver(body), delayMs).unref?.();
+  }
+
+  private async deliver(body: SandboxWebhook): Promise<SandboxWebhookDelivery> {
+    const secret = this.sandboxConfig.webhookSecret;
+    if (!secret) {
+      this.logTransaction('webhook', { eventId: body.id, type: body.type, status: 'skipped', reason: 'no webhookSecret configured' });
+      return { eventId: body.id, type: body.type, status: null };
+    }
+
+    const rawBody = JSON.stringify(body);
+    try {
+      const response = await this.transport(this.webhookUrl(), {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'x-sandbox-signature': signSandboxWebhook(rawBody, secret) },
+        body: rawBody,
+      });
+      this.logTransaction('webhook', { eventId: body.id, type: body.type, status: response.status });
+      return { eventId: body.id, type: body.type, status: response.status };
+    } catch (error) {
+      this.logTransaction('webhook', {
+        eventId: body.id,
+        type: body.type,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { eventId: body.id, type: body.type, status: null };
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { db } from '../db';
+import { vendors, auditLogs, type AuditLog } from '@shared/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { LedgerError } from './ledger-service';
+
+export type SodAction = 'approve' | 'process';
+
+export type SodRuleId = 'initiator_self_approval' | 'repeat_approver' | 'vendor_creator_payment';
+
+export const SOD_RULES: Record<SodRuleId, { description: string; actions: SodAction[] }> = {
+  initiator_self_approval: {
+    description: 'The person who initiated a request cannot approve it',
+    actions: ['approve'],
+  },
+  repeat_approver: {
+    description: 'Each approval level needs a different approver',
+    actions: ['approve'],
+  },
+  vendor_creator_payment: {
+    description: 'The person who set up a vendor cannot approve or release payments to it',
+    actions: ['approve', 'process'],
+  },
+};
+
+// Justifications shorter than this are rejected so overrides stay reviewable
+export const MIN_OVERRIDE_JUSTIFICATION_LENGTH = 20;
+
+export interface SodContext {
+  organizationId: string;
+  actorId: string;
+  action: SodAction;
+  entityType: string;
+  entityId?: string | null; // null when the entity is created by the action itself
+  initiatorId?: string | null;
+  level?: number;
+  priorApprovals?: { approverId: string; level: number }[];
+  vendorId?: string | null;
+}
+
+// Facts looked up from other records before the rules run
+export interface SodFacts {
+  vendorCreatedBy?: string | null;
+}
+
+export interface SodViolation {
+  rule: SodRuleId;
+  message: string;
+}
+
+export interface SodOverride {
+  justification: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export class SeparationOfDutiesError extends LedgerError {
+  violations: SodViolation[];
+
+  constructor(violations: SodViolation[]) {
+    super(`Separation of duties: ${violations.map((violation) => violation.message).join('; ')}`, 403);
+    this.name = 'SeparationOfDutiesError';
+    this.violations = violations;
+  }
+}
+
+/**
+ * Run every rule that applies to the action and return what it breaks
+ */
+export function evaluateSeparationOfDuties(context: SodContext, facts: SodFacts = {}): SodViolation[] {
+  const violations: SodViolation[] = [];
+  const applies = (rule: SodRuleId) => SOD_RULES[rule].actions.includes(context.action);
+
+  if (applies('initiator_self_approval') && context.initiatorId && context.initiatorId === context.actorId) {
+    violations.push({ rule: 'initiator_self_approval', message: `You initiated this ${context.entityType} and cannot approve it` });
+  }
+
+  if (applies('repeat_approver')) {
+    const earlier = (context.priorApprovals ?? []).find(
+      (approval) => approval.approverId === context.actorId && approval.level !== context.level
+    );
+    if (earlier) {
+      violations.push({ rule: 'repeat_approver', message: `You already approved level ${earlier.level}` });
+    }
+  }
+
+  if (applies('vendor_creator_payment') && facts.vendorCreatedBy && facts.vendorCreatedBy === context.actorId) {
+    violations.push({ rule: 'vendor_creator_payment', message: 'You set up the vendor being paid' });
+  }
+
+  return violations;
+}
+
+export class SeparationOfDutiesService {
+  async check(context: SodContext): Promise<SodViolation[]> {
+    return evaluateSeparationOfDuties(context, await this.loadFacts(context));
+  }
+
+  /**
+   * Throw unless the action passes every rule. A caller holding separation_of_duties:override
+   * (admins, unless canOverride says otherwise) may override with a written justification; the
+   * override and the rules it set aside are written to the audit log.
+   */
+  async enforce(
+    context: SodContext,
+    options: { actorRole?: string | null; canOverride?: boolean; override?: SodOverride | null } = {}
+  ): Promise<{ violations: SodViolation[]; overridden: boolean }> {
+    const violations = await this.check(context);
+    if (violations.length === 0) {
+      return { violations, overridden: false };
+    }
+
+    const justification = options.override?.justification?.trim() ?? '';
+    if (!options.override) {
+      throw new SeparationOfDutiesError(violations);
+    }
+    if (!(options.canOverride ?? options.actorRole === 'admin')) {
+      throw new LedgerError('You do not have permission to override separation-of-duties rules', 403);
+    }
+    if (justification.length < MIN_OVERRIDE_JUSTIFICATION_LENGTH) {
+      throw new LedgerError(
+        `An override needs a justification of at least ${MIN_OVERRIDE_JUSTIFICATION_LENGTH} characters`,
+        400
+      );
+    }
+
+    await db.insert(auditLogs).values({
+      organizationId: context.organizationId,
+      userId: context.actorId,
+      action: 'sod_override',
+      entityType: context.entityType,
+      entityId: context.entityId ?? null,
+      metadata: {
+        action: context.action,
+        level: context.level ?? null,
+        vendorId: context.vendorId ?? null,
+        rules: violations.map((violation) => violation.rule),
+        violations,
+        justification,
+      },
+      ipAddress: options.override.ipAddress,
+      userAgent: options.override.userAgent,
+    });
+    return { violations, overridden: true };
+  }
+
+  async getOverrides(organizationId: string, limit = 100): Promise<AuditLog[]> {
+    return db
+      .select()
+      .from(auditLogs)
+      .where(and(eq(auditLogs.organizationId, organizationId), eq(auditLogs.action, 'sod_override')))
+      .orderBy(desc(auditLogs.createdAt))
+      .limit(limit);
+  }
+
+  private async loadFacts(context: SodContext): Promise<SodFacts> {
+    if (!context.vendorId) return {};
+    const [vendor] = await db
+      .select({ createdBy: vendors.createdBy })
+      .from(vendors)
+      .where(and(eq(vendors.id, context.vendorId), eq(vendors.organizationId, context.organizationId)));
+    return { vendorCreatedBy: vendor?.createdBy ?? null };
+  }
+}
+
+export const separationOfDutiesService = new SeparationOfDutiesService();
@@ -1,6 +1,10 @@
 // Central service registry for managing all integrations
 
 import { PaymentServiceManager } from './provider-factory';
+import type { BaseProvider, PaymentResult } from './base-provider';
+import type { RoutingRequest } from './payment-router';
+import { guardProvider } from './provider-call';
+import { providerHealth } from './provider-health';
 import { 
   ModernTreasuryProvider, 
   PlaidProvider, 
@@ -77,7 +81,7 @@ export class IntegratedServiceRegistry {
           const bankingService = this.createBankingService(config.provider, config.configuration);
           if (bankingService) {
             await bankingService.initialize();
-            this.bankingServices.set(serviceId, bankingService);
+            this.bankingServices.set(serviceId, this.guard(config, bankingService));
           }
           break;
           
@@ -85,7 +89,7 @@ export class IntegratedServiceRegistry {
           const complianceService = this.createComplianceService(config.provider, config.configuration);
           if (complianceService) {
             await complianceService.initialize();
-            this.complianceServices.set(serviceId, complianceService);
+            this.complianceServices.set(serviceId, this.guard(config, complianceService));
           }
           break;
           
@@ -93,7 +97,7 @@ export class IntegratedServiceRegistry {
           const govService = this.createGovernmentService(config.provider, config.configuration);
           if (govService) {
             await govService.initialize();
-            this.governmentServices.set(serviceId, govService);
+            this.governmentServices.set(serviceId, this.guard(config, govService));
           }
           break;
           
@@ -101,7 +105,7 @@ export class IntegratedServiceRegistry {
           const auditService = this.createAuditService(config.provider, config.configuration);
           if (auditService) {
             await auditService.initialize();
-            this.auditServices.set(serviceId, auditService);
+            this.auditServices.set(serviceId, this.guard(config, auditService));
           }
           break;
       }
@@ -115,6 +119,39 @@ export class IntegratedServiceRegistry {
     }
   }
 
+  // Every outbound provider call gets a timeout, safe retries and a circuit breaker
+  private guard<T extends BaseProvider>(config: ServiceConfig, service: T): T {
+    return guardProvider(config.organizationId, config.provider, service, config.configuration?.timeoutMs);
+  }
+
+  private providerStatus(organizationId: string, name: string): Record<string, any> {
+    const health = providerHealth.getHealth(organizationId, name);
+    const status = health.breakerState === 'open' ? 'unavailable' : health.breakerState === 'half_open' ? 'recovering' : 'active';
+    return {
+      name,
+      status,
+      breaker: {
+        state: health.breakerState,
+        consecutiveFailures: health.consecutiveFailures,
+        successRate: health.successRate,
+        openedAt: health.openedAt,
+      },
+    };
+  }
+
+  // Send a payment to the best provider for it, falling back down the routing ranking
+  async processRoutedPayment(
+    organizationId: string,
+    request: RoutingRequest,
+    execute: (provider: BaseProvider) => Promise<PaymentResult | undefined>
+  ) {
+    return this.paymentManager.processRoutedPayment(organizationId, request, execute);
+  }
+
+  getPaymentProviderTypes(organizationId: string): string[] {
+    return this.paymentManager.getOrganizationProviderTypes(organizationId);
+  }
+
   // Get service instance
   getService(organizationId: string, serviceType: string, provider: string): any {
     const serviceId = `${organizationId}:${serviceType}:${provider}`;
@@ -252,35 +289,24 @@ export class IntegratedServiceRegistry {
     };
 
     try {
-      // Check payment providers
-      const paymentProviders = this.paymentManager.getOrganizationProviders(organizationId);
-      health.payment.providers = paymentProviders.map(p => ({
-        name: p.getProviderName(),
-        status: 'active'
-      }));
+      // Check payment providers, including their circuit breakers
+      health.payment.providers = this.paymentManager
+        .getOrganizationProviderTypes(organizationId)
+        .map(name => this.providerStatus(organizationId, name));
 
       // Check other services
       const services = this.getOrganizationServices(organizationId);
       
-      health.banking.providers = services.banking.map(s => ({
-        name: s.getProviderName(),
-        status: 'active'
-      }));
-
-      health.compliance.providers = services.compliance.map(s => ({
-        name: s.getProviderName(),
-        status: 'active'
-      }));
-
-      health.government.providers = services.government.map(s => ({
-        name: s.getProviderName(),
-        status: 'active'
-      }));
+      for (const category of ['banking', 'compliance', 'government', 'audit']) {
+        health[category].providers = services[category].map(s => this.providerStatus(organizationId, s.getProviderName()));
+      }
 
-      health.audit.providers = services.audit.map(s => ({
-        name: s.getProviderName(),
-        status: 'active'
-      }));
+      // A category is degraded while any of its providers has an open or half-open breaker
+      for (const category of ['payment', 'banking', 'compliance', 'government', 'audit']) {
+        if (health[category].providers.some((p: Record<string, any>) => p.status !== 'active')) {
+          health[category].status = 'degraded';
+        }
+      }
 
       health.specialized.services = [
         'eprocurement', 'asset_management', 'court_system', 
@@ -1,4 +1,5 @@
 import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, CardIssueResult, ComplianceResult } from './base-provider';
+import { addBusinessDays } from './banking-calendar';
 
 export interface SquareConfig extends BaseProviderConfig {
   accessToken: string;
@@ -73,7 +74,7 @@ export class SquareProvider extends BaseProvider {
   ): Promise<TransferResult> {
     try {
       const transferId = `sq_ach_${Date.now()}`;
-      const estimatedSettlement = new Date();
+      let estimatedSettlement = new Date();
       let fees = 0.3; // Square ACH fee
 
       switch (type) {
@@ -82,11 +83,11 @@ export class SquareProvider extends BaseProvider {
           fees = 1.0;
           break;
         case 'next_day':
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
           fees = 0.5;
           break;
         default:
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 2);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 2);
       }
 
       this.logTransaction('processACH', { amount, type, fromAccount, toAccount });
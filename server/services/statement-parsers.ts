@@ -0,0 +1,353 @@
+import type { BankStatementFormat } from '@shared/reconciliation-schema';
+import { LedgerError, toCents, fromCents } from './ledger-service';
+
+export interface ParsedStatementLine {
+  postedDate: Date;
+  amount: string; // signed: credits positive, debits negative
+  description: string | null;
+  reference: string | null;
+  bankTransactionId: string | null;
+  typeCode: string | null;
+}
+
+export interface ParsedStatement {
+  accountNumber: string | null;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  openingBalance: string | null;
+  closingBalance: string | null;
+  lines: ParsedStatementLine[];
+}
+
+// ---------- BAI2 ----------
+
+// BAI2 summary codes for opening and closing ledger balances
+const BAI2_OPENING_LEDGER = '010';
+const BAI2_CLOSING_LEDGER = '015';
+
+// Fields that follow a funds type code before the detail's bank reference
+function bai2FundsTypeFieldCount(fields: string[], index: number): number {
+  switch ((fields[index] ?? '').toUpperCase()) {
+    case 'S':
+      return 4;
+    case 'V':
+      return 3;
+    case 'D':
+      return 2 + Number.parseInt(fields[index + 1] ?? '0', 10) * 2;
+    default:
+      return 1;
+  }
+}
+
+// YYMMDD as a UTC date
+function parseBai2Date(value: string): Date | null {
+  const match = /^(\d{2})(\d{2})(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  return new Date(Date.UTC(2000 + Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+}
+
+// BAI2 amounts carry two implied decimals and no sign
+function parseBai2Amount(value: string): number {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new LedgerError(`Invalid BAI2 amount: ${value}`, 400);
+  }
+  return Number.parseInt(value, 10);
+}
+
+// Detail type codes 100-399 are credits, 400-699 debits
+function bai2Sign(typeCode: string): 1 | -1 {
+  const code = Number.parseInt(typeCode, 10);
+  return code >= 400 && code < 700 ? -1 : 1;
+}
+
+export function parseBAI2(content: string): ParsedStatement {
+  // Join 88 continuation records onto the record they extend
+  const records: string[] = [];
+  content.split(/\r?\n/).forEach((raw) => {
+    const line = raw.trim();
+    if (!line) return;
+    const body = line.replace(/\/$/, '');
+    if (body.startsWith('88,') && records.length > 0) {
+      const previous = records[records.length - 1];
+      records[records.length - 1] = `${previous}${previous.endsWith(',') ? '' : ','}${body.slice(3)}`;
+    } else {
+      records.push(body);
+    }
+  });
+  if (!records[0]?.startsWith('01,')) {
+    throw new LedgerError('BAI2 file must start with a 01 file header record', 400);
+  }
+
+  const statement: ParsedStatement = {
+    accountNumber: null,
+    periodStart: null,
+    periodEnd: null,
+    openingBalance: null,
+    closingBalance: null,
+    lines: [],
+  };
+  let asOfDate: Date | null = null;
+
+  records.forEach((record) => {
+    const fields = record.split(',');
+    switch (fields[0]) {
+      case '02':
+        asOfDate = parseBai2Date(fields[4] ?? '');
+        statement.periodStart = statement.periodStart ?? asOfDate;
+        statement.periodEnd = asOfDate;
+        break;
+      case '03': {
+        statement.accountNumber = statement.accountNumber ?? fields[1] ?? null;
+        // Summary triplets: type code, amount, item count, then funds type fields
+        let index = 3;
+        while (index < fields.length && fields[index] !== '') {
+          const typeCode = fields[index];
+          const amount = fields[index + 1];
+          if (amount && /^-?\d+$/.test(amount)) {
+            const cents = Number.parseInt(amount, 10);
+            if (typeCode === BAI2_OPENING_LEDGER && statement.openingBalance === null) {
+              statement.openingBalance = fromCents(cents);
+            }
+            if (typeCode === BAI2_CLOSING_LEDGER) {
+              statement.closingBalance = fromCents(cents);
+            }
+          }
+          index += 3 + bai2FundsTypeFieldCount(fields, index + 3);
+        }
+        break;
+      }
+      case '16': {
+        const typeCode = fields[1];
+        const cents = parseBai2Amount(fields[2] ?? '');
+        const referenceIndex = 3 + bai2FundsTypeFieldCount(fields, 3);
+        const bankReference = fields[referenceIndex] || null;
+        const customerReference = fields[referenceIndex + 1] || null;
+        const text = fields.slice(referenceIndex + 2).join(',').replace(/,+$/, '').trim() || null;
+
+        if (!asOfDate) {
+          throw new LedgerError('BAI2 detail record found before a group header', 400);
+        }
+        statement.lines.push({
+          postedDate: asOfDate,
+          amount: fromCents(bai2Sign(typeCode) * cents),
+          description: text,
+          reference: customerReference,
+          bankTransactionId: bankReference,
+          typeCode,
+        });
+        break;
+      }
+      default:
+        break;
+    }
+  });
+
+  return statement;
+}
+
+// ---------- OFX / QFX ----------
+
+// OFX dates: YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]
+function parseOfxDate(value: string | null): Date | null {
+  const match = value ? /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/.exec(value.trim()) : null;
+  if (!match) return null;
+  return new Date(Date.UTC(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3]),
+    Number(match[4] ?? 0),
+    Number(match[5] ?? 0),
+    Number(match[6] ?? 0)
+  ));
+}
+
+// Value of an SGML (unclosed) or XML element
+function ofxValue(block: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  const value = match?.[1].trim();
+  return value ? value.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>') : null;
+}
+
+function ofxBlocks(content: string, tag: string): string[] {
+  const blocks: string[] = [];
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)(?=</${tag}>|<${tag}>|</BANKTRANLIST>)`, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+}
+
+// Handles both OFX 1.x SGML and OFX 2.x XML; QFX is OFX with Intuit headers
+export function parseOFX(content: string): ParsedStatement {
+  if (!/<OFX>/i.test(content)) {
+    throw new LedgerError('OFX file has no <OFX> element', 400);
+  }
+
+  const tranList = /<BANKTRANLIST>([\s\S]*?)(<\/BANKTRANLIST>|$)/i.exec(content)?.[1] ?? '';
+  const ledgerBalance = /<LEDGERBAL>([\s\S]*?)(<\/LEDGERBAL>|<AVAILBAL>|$)/i.exec(content)?.[1] ?? '';
+  const closingBalance = ofxValue(ledgerBalance, 'BALAMT');
+
+  return {
+    accountNumber: ofxValue(content, 'ACCTID'),
+    periodStart: parseOfxDate(ofxValue(tranList, 'DTSTART')),
+    periodEnd: parseOfxDate(ofxValue(tranList, 'DTEND')),
+    openingBalance: null,
+    closingBalance: closingBalance === null ? null : fromCents(toCents(closingBalance)),
+    lines: ofxBlocks(tranList, 'STMTTRN').map((block) => {
+      const postedDate = parseOfxDate(ofxValue(block, 'DTPOSTED'));
+      const amount = ofxValue(block, 'TRNAMT');
+      if (!postedDate || amount === null) {
+        throw new LedgerError('OFX transaction is missing DTPOSTED or TRNAMT', 400);
+      }
+      const name = ofxValue(block, 'NAME');
+      const memo = ofxValue(block, 'MEMO');
+      return {
+        postedDate,
+        amount: fromCents(toCents(amount)),
+        description: [name, memo].filter(Boolean).join(' - ') || null,
+        reference: ofxValue(block, 'CHECKNUM') ?? ofxValue(block, 'REFNUM'),
+        bankTransactionId: ofxValue(block, 'FITID'),
+        typeCode: ofxValue(block, 'TRNTYPE'),
+      };
+    }),
+  };
+}
+
+// ---------- CSV ----------
+
+// Split CSV text into rows, honouring quoted fields with embedded commas, quotes and newlines
+export function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((value) => value.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some((value) => value.trim() !== '')) rows.push(row);
+
+  return rows;
+}
+
+// Accepted header names per field, compared case-insensitively without spaces/underscores
+const CSV_COLUMNS = {
+  date: ['date', 'posteddate', 'postingdate', 'transactiondate', 'valuedate'],
+  amount: ['amount', 'transactionamount'],
+  debit: ['debit', 'withdrawal', 'withdrawals'],
+  credit: ['credit', 'deposit', 'deposits'],
+  description: ['description', 'memo', 'payee', 'name', 'details'],
+  reference: ['reference', 'checknumber', 'check', 'ref', 'customerreference'],
+  id: ['id', 'transactionid', 'bankreference', 'fitid'],
+  type: ['type', 'typecode', 'transactiontype'],
+};
+
+function parseCsvDate(value: string): Date | null {
+  const trimmed = value.trim();
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/.exec(trimmed);
+  if (us) {
+    const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+    return new Date(Date.UTC(year, Number(us[1]) - 1, Number(us[2])));
+  }
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed);
+  if (iso) {
+    return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+  }
+  return null;
+}
+
+// "(1,234.50)", "-1234.50" and "$1,234.50" style amounts
+function parseCsvAmount(value: string): number {
+  const trimmed = value.trim();
+  if (!trimmed) return 0;
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+  const cents = toCents(trimmed.replace(/[()$,\s-]/g, ''));
+  return negative ? -cents : cents;
+}
+
+export function parseCSVStatement(content: string): ParsedStatement {
+  const [header, ...rows] = parseCsvRows(content);
+  if (!header) {
+    throw new LedgerError('CSV statement is empty', 400);
+  }
+
+  const normalized = header.map((name) => name.toLowerCase().replace(/[\s_#.-]/g, ''));
+  const column = (names: string[]) => normalized.findIndex((name) => names.includes(name));
+  const index = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([key, names]) => [key, column(names)])
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+
+  if (index.date < 0 || (index.amount < 0 && index.debit < 0 && index.credit < 0)) {
+    throw new LedgerError('CSV statement needs a date column and an amount or debit/credit columns', 400);
+  }
+
+  const cell = (row: string[], position: number) => (position >= 0 ? row[position]?.trim() || null : null);
+
+  const lines = rows.map((row, rowNumber) => {
+    const postedDate = parseCsvDate(row[index.date] ?? '');
+    if (!postedDate) {
+      throw new LedgerError(`Invalid date on CSV row ${rowNumber + 2}`, 400);
+    }
+    const cents = index.amount >= 0
+      ? parseCsvAmount(row[index.amount] ?? '')
+      : Math.abs(parseCsvAmount(cell(row, index.credit) ?? '')) - Math.abs(parseCsvAmount(cell(row, index.debit) ?? ''));
+
+    return {
+      postedDate,
+      amount: fromCents(cents),
+      description: cell(row, index.description),
+      reference: cell(row, index.reference),
+      bankTransactionId: cell(row, index.id),
+      typeCode: cell(row, index.type),
+    };
+  });
+
+  const dates = lines.map((line) => line.postedDate.getTime());
+  return {
+    accountNumber: null,
+    periodStart: dates.length ? new Date(Math.min(...dates)) : null,
+    periodEnd: dates.length ? new Date(Math.max(...dates)) : null,
+    openingBalance: null,
+    closingBalance: null,
+    lines,
+  };
+}
+
+export function parseBankStatement(format: BankStatementFormat, content: string): ParsedStatement {
+  switch (format) {
+    case 'bai2':
+      return parseBAI2(content);
+    case 'ofx':
+    case 'qfx':
+      return parseOFX(content);
+    case 'csv':
+      return parseCSVStatement(content);
+    default:
+      throw new LedgerError(`Unsupported statement format: ${format}`, 400);
+  }
+}
@@ -1,5 +1,6 @@
 import Stripe from 'stripe';
-import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, CardIssueResult, ComplianceResult } from './base-provider';
+import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, CardIssueResult, ComplianceResult, ProviderCallOptions } from './base-provider';
+import { addBusinessDays } from './banking-calendar';
 
 export interface StripeConfig extends BaseProviderConfig {
   stripeSecretKey: string;
@@ -7,6 +8,7 @@ export interface StripeConfig extends BaseProviderConfig {
 }
 
 export class StripeProvider extends BaseProvider {
+  readonly supportsIdempotencyKeys = true;
   private stripe: Stripe;
 
   constructor(config: StripeConfig) {
@@ -35,7 +37,12 @@ export class StripeProvider extends BaseProvider {
     return 'stripe';
   }
 
-  async processPayment(amount: number, currency: string = 'usd', metadata?: Record<string, any>): Promise<PaymentResult> {
+  async processPayment(
+    amount: number,
+    currency: string = 'usd',
+    metadata?: Record<string, any>,
+    options?: ProviderCallOptions
+  ): Promise<PaymentResult> {
     try {
       if (!this.validateAmount(amount)) {
         return { success: false, error: 'Invalid amount' };
@@ -46,7 +53,7 @@ export class StripeProvider extends BaseProvider {
         currency: currency.toLowerCase(),
         metadata: metadata || {},
         automatic_payment_methods: { enabled: true },
-      });
+      }, { idempotencyKey: options?.idempotencyKey });
 
       this.logTransaction('processPayment', { 
         amount, 
@@ -75,7 +82,8 @@ export class StripeProvider extends BaseProvider {
     amount: number, 
     fromAccount: string, 
     toAccount: string, 
-    type: 'standard' | 'same_day' | 'next_day' = 'standard'
+    type: 'standard' | 'same_day' | 'next_day' = 'standard',
+    options?: ProviderCallOptions
   ): Promise<TransferResult> {
     try {
       // Create ACH transfer using Stripe Connect
@@ -88,18 +96,18 @@ export class StripeProvider extends BaseProvider {
           type,
           transferType: 'ach' 
         }
-      });
+      }, { idempotencyKey: options?.idempotencyKey });
 
-      const estimatedSettlement = new Date();
+      let estimatedSettlement = new Date();
       switch (type) {
         case 'same_day':
           estimatedSettlement.setHours(estimatedSettlement.getHours() + 6);
           break;
         case 'next_day':
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
           break;
         default:
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 3);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 3);
       }
 
       this.logTransaction('processACH', { 
@@ -1,4 +1,5 @@
 import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, CardIssueResult, ComplianceResult } from './base-provider';
+import { addBusinessDays } from './banking-calendar';
 
 export interface UnitConfig extends BaseProviderConfig {
   token: string;
@@ -81,7 +82,7 @@ export class UnitProvider extends BaseProvider {
   ): Promise<TransferResult> {
     try {
       const transferId = `unit_ach_${Date.now()}`;
-      const estimatedSettlement = new Date();
+      let estimatedSettlement = new Date();
       let fees = 0.5; // Unit's competitive ACH fee
 
       switch (type) {
@@ -90,11 +91,11 @@ export class UnitProvider extends BaseProvider {
           fees = 2.0;
           break;
         case 'next_day':
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
           fees = 1.0;
           break;
         default:
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 2);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 2);
       }
 
       this.logTransaction('processACH', { amount, type, fromAccount, toAccount });
@@ -152,11 +153,11 @@ export class UnitProvider extends BaseProvider {
   ): Promise<TransferResult> {
     try {
       const transferId = `unit_wire_${Date.now()}`;
-      const estimatedSettlement = new Date();
+      let estimatedSettlement = new Date();
       let fees = type === 'international' ? 50.00 : 20.00;
 
       if (type === 'international') {
-        estimatedSettlement.setDate(estimatedSettlement.getDate() + 2);
+        estimatedSettlement = addBusinessDays(estimatedSettlement, 2);
       } else {
         estimatedSettlement.setHours(estimatedSettlement.getHours() + 2);
       }
@@ -0,0 +1,491 @@
+import { db } from '../db';
+import {
+  paymentProviders,
+  enhancedTransactions,
+  issuedCards,
+  type EnhancedTransaction,
+  type IssuedCard,
+} from '@shared/schema';
+import { webhookEvents, type WebhookEvent, type WebhookEventStatus } from '@shared/webhook-schema';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { LedgerError, ledgerService } from './ledger-service';
+import { achReturnService } from './ach-return-service';
+import { verifyWebhookSignature, type WebhookProvider, type WebhookRequest } from './webhook-verification';
+
+type TransactionStatus = NonNullable<EnhancedTransaction['status']>;
+type CardStatus = NonNullable<IssuedCard['status']>;
+
+export interface NormalizedWebhookEvent {
+  eventId: string;
+  eventType: string;
+  transaction?: {
+    providerTransactionId: string;
+    status: TransactionStatus;
+    achReturnCode?: string;
+  };
+  card?: {
+    externalCardId: string;
+    status: CardStatus;
+  };
+}
+
+// A terminal transaction never moves back to pending/processing on a late or out-of-order event
+const TERMINAL_STATUSES: TransactionStatus[] = ['completed', 'failed', 'cancelled', 'returned'];
+const REDACTED_HEADERS = ['authorization', 'cookie'];
+
+function event(
+  eventId: unknown,
+  eventType: unknown,
+  detail: Omit<NormalizedWebhookEvent, 'eventId' | 'eventType'> = {}
+): NormalizedWebhookEvent[] {
+  if (!eventId || !eventType) return [];
+  return [{ eventId: String(eventId), eventType: String(eventType), ...detail }];
+}
+
+function transaction(providerTransactionId: unknown, status: TransactionStatus | undefined, achReturnCode?: unknown) {
+  if (!providerTransactionId || !status) return {};
+  const code = typeof achReturnCode === 'string' && /^R\d{2}$/i.test(achReturnCode) ? achReturnCode.toUpperCase() : undefined;
+  return { transaction: { providerTransactionId: String(providerTransactionId), status, ...(code ? { achReturnCode: code } : {}) } };
+}
+
+function card(externalCardId: unknown, status: CardStatus | undefined) {
+  if (!externalCardId || !status) return {};
+  return { card: { externalCardId: String(externalCardId), status } };
+}
+
+function normalizeStripe(body: any): NormalizedWebhookEvent[] {
+  const object = body?.data?.object ?? {};
+  const paymentStatuses: Record<string, TransactionStatus> = {
+    'payment_intent.succeeded': 'completed',
+    'payment_intent.payment_failed': 'failed',
+    'payment_intent.canceled': 'cancelled',
+    'payment_intent.processing': 'processing',
+  };
+  const cardStatuses: Record<string, CardStatus> = { active: 'active', inactive: 'inactive', canceled: 'blocked' };
+
+  if (String(body?.type).startsWith('issuing_card.')) {
+    return event(body?.id, body?.type, card(object.id, cardStatuses[object.status]));
+  }
+  return event(body?.id, body?.type, transaction(object.id, paymentStatuses[body?.type]));
+}
+
+function normalizePaypal(body: any): NormalizedWebhookEvent[] {
+  const statuses: Record<string, TransactionStatus> = {
+    'PAYMENT.CAPTURE.COMPLETED': 'completed',
+    'PAYMENT.CAPTURE.DENIED': 'failed',
+    'PAYMENT.CAPTURE.DECLINED': 'failed',
+    'PAYMENT.CAPTURE.PENDING': 'processing',
+  };
+  return event(body?.id, body?.event_type, transaction(body?.resource?.id, statuses[body?.event_type]));
+}
+
+function normalizeSquare(body: any): NormalizedWebhookEvent[] {
+  const payment = body?.data?.object?.payment ?? {};
+  const statuses: Record<string, TransactionStatus> = {
+    COMPLETED: 'completed',
+    APPROVED: 'processing',
+    PENDING: 'processing',
+    FAILED: 'failed',
+    CANCELED: 'cancelled',
+  };
+  return event(body?.event_id, body?.type, transaction(payment.id, statuses[payment.status]));
+}
+
+function normalizeAdyen(body: any): NormalizedWebhookEvent[] {
+  const items: any[] = (body?.notificationItems ?? []).map((entry: any) => entry?.NotificationRequestItem ?? entry);
+  return items.flatMap((item) => {
+    const success = String(item?.success) === 'true';
+    let status: TransactionStatus | undefined;
+    if (item?.eventCode === 'AUTHORISATION' || item?.eventCode === 'CAPTURE') {
+      status = success ? 'completed' : 'failed';
+    } else if (item?.eventCode === 'CANCELLATION' && success) {
+      status = 'cancelled';
+    }
+    // Modifications reference the original payment through originalReference
+    const reference = item?.originalReference || item?.pspReference;
+    return event(
+      item?.pspReference && `${item.pspReference}:${item.eventCode}:${item.success}`,
+      item?.eventCode,
+      transaction(reference, status)
+    );
+  });
+}
+
+function normalizeDwolla(body: any): NormalizedWebhookEvent[] {
+  const topic = String(body?.topic ?? '').replace(/^customer_/, '');
+  const statuses: Record<string, TransactionStatus> = {
+    transfer_created: 'processing',
+    transfer_completed: 'completed',
+    transfer_failed: 'failed',
+    transfer_cancelled: 'cancelled',
+    bank_transfer_failed: 'failed',
+  };
+  return event(body?.id, body?.topic, transaction(body?.resourceId, statuses[topic]));
+}
+
+function normalizeWise(body: any, headers: Record<string, string | undefined>): NormalizedWebhookEvent[] {
+  const data = body?.data ?? {};
+  const statuses: Record<string, TransactionStatus> = {
+    processing: 'processing',
+    funds_converted: 'processing',
+    outgoing_payment_sent: 'completed',
+    bounced_back: 'returned',
+    funds_refunded: 'failed',
+    cancelled: 'cancelled',
+  };
+  // Wise has no event id in the body; each delivery carries one in X-Delivery-Id
+  const eventId = headers['x-delivery-id'] ?? (data.resource?.id && `${data.resource.id}:${data.current_state}:${body?.sent_at}`);
+  return event(eventId, body?.event_type, transaction(data.resource?.id, statuses[data.current_state]));
+}
+
+function normalizeCircle(body: any): NormalizedWebhookEvent[] {
+  const type = body?.notificationType;
+  const object = body?.[String(type).replace(/s$/, '')] ?? body?.notification ?? {};
+  const statuses: Record<string, TransactionStatus> = {
+    pending: 'processing',
+    confirmed: 'processing',
+    paid: 'completed',
+    complete: 'completed',
+    failed: 'failed',
+    returned: 'returned',
+  };
+  const eventId = body?.notificationId ?? (object.id && `${object.id}:${object.status}`);
+  return event(eventId, type, transaction(object.id, statuses[object.status]));
+}
+
+function normalizeCoinbase(body: any): NormalizedWebhookEvent[] {
+  const inner = body?.event ?? {};
+  const statuses: Record<string, TransactionStatus> = {
+    'charge:pending': 'processing',
+    'charge:confirmed': 'completed',
+    'charge:resolved': 'completed',
+    'charge:failed': 'failed',
+  };
+  return event(inner.id, inner.type, transaction(inner.data?.id, statuses[inner.type]));
+}
+
+function normalizeUnit(body: any): NormalizedWebhookEvent[] {
+  const paymentStatuses: Record<string, TransactionStatus> = {
+    'payment.clearing': 'processing',
+    'payment.sent': 'completed',
+    'payment.returned': 'returned',
+    'payment.rejected': 'failed',
+    'payment.canceled': 'cancelled',
+  };
+  const cardStatuses: Record<string, CardStatus> = {
+    Active: 'active',
+    Inactive: 'inactive',
+    Frozen: 'blocked',
+    Lost: 'blocked',
+    Stolen: 'blocked',
+    ClosedByCustomer: 'blocked',
+    SuspectedFraud: 'blocked',
+  };
+
+  // Unit batches events under data[]
+  const items: any[] = Array.isArray(body?.data) ? body.data : [body?.data].filter(Boolean);
+  return items.flatMap((item) => {
+    const attributes = item?.attributes ?? {};
+    const relationships = item?.relationships ?? {};
+    if (item?.type === 'card.activated' || item?.type === 'card.statusChanged') {
+      const status = item.type === 'card.activated' ? 'active' : cardStatuses[attributes.newStatus];
+      return event(item.id, item.type, card(relationships.card?.data?.id, status));
+    }
+    return event(
+      item?.id,
+      item?.type,
+      transaction(relationships.payment?.data?.id, paymentStatuses[item?.type], attributes.reason ?? attributes.reasonCode)
+    );
+  });
+}
+
+function normalizeSandbox(body: any): NormalizedWebhookEvent[] {
+  const data = body?.data ?? {};
+  const paymentStatuses: Record<string, TransactionStatus> = {
+    'payment.processing': 'processing',
+    'payment.completed': 'completed',
+    'payment.failed': 'failed',
+    'payment.returned': 'returned',
+  };
+  const cardStatuses: Record<string, CardStatus> = { 'card.activated': 'active', 'card.blocked': 'blocked' };
+
+  if (String(body?.type).startsWith('card.')) {
+    return event(body?.id, body?.type, card(data.cardId, cardStatuses[body?.type]));
+  }
+  return event(body?.id, body?.type, transaction(data.transactionId, paymentStatuses[body?.type], data.returnCode));
+}
+
+/**
+ * Turn a provider payload into the events it carries. Events we have no handler for are still returned
+ * (without a transaction or card) so they land in the inbox and show up as ignored.
+ */
+export function normalizeWebhookEvents(
+  provider: WebhookProvider,
+  body: any,
+  headers: Record<string, string | undefined> = {}
+): NormalizedWebhookEvent[] {
+  switch (provider) {
+    case 'stripe':
+      return normalizeStripe(body);
+    case 'paypal':
+      return normalizePaypal(body);
+    case 'square':
+      return normalizeSquare(body);
+    case 'adyen':
+      return normalizeAdyen(body);
+    case 'dwolla':
+      return normalizeDwolla(body);
+    case 'wise':
+      return normalizeWise(body, headers);
+    case 'circle':
+      return normalizeCircle(body);
+    case 'coinbase':
+      return normalizeCoinbase(body);
+    case 'unit':
+      return normalizeUnit(body);
+    case 'sandbox':
+      return normalizeSandbox(body);
+    default:
+      return [];
+  }
+}
+
+export function canTransition(from: TransactionStatus | null, to: TransactionStatus): boolean {
+  if (from === to) return false;
+  if (from === 'returned') return false;
+  return !(from && TERMINAL_STATUSES.includes(from) && !TERMINAL_STATUSES.includes(to));
+}
+
+export interface WebhookReceipt {
+  organizationId: string;
+  received: number;
+  duplicates: number;
+}
+
+export interface WebhookEventFilters {
+  provider?: string;
+  status?: WebhookEventStatus;
+}
+
+export class WebhookService {
+  /**
+   * Verify, store and apply a provider delivery. The organization is whichever active provider
+   * configuration's secret verifies the signature; nothing is stored for unverified requests.
+   */
+  async receive(provider: WebhookProvider, request: WebhookRequest): Promise<WebhookReceipt> {
+    const configs = await db
+      .select()
+      .from(paymentProviders)
+      .where(and(eq(paymentProviders.provider, provider), eq(paymentProviders.isActive, true)));
+
+    let organizationId: string | undefined;
+    for (const config of configs) {
+      const configuration = (config.configuration ?? {}) as Record<string, any>;
+      const verified = await verifyWebhookSignature(provider, request, {
+        secret: configuration.webhookSecret,
+        webhookUrl: config.webhookUrl,
+      });
+      if (verified) {
+        organizationId = config.organizationId;
+        break;
+      }
+    }
+    if (!organizationId) {
+      throw new LedgerError('Invalid webhook signature', 401);
+    }
+
+    let body: any;
+    try {
+      body = JSON.parse(request.rawBody);
+    } catch {
+      throw new LedgerError('Webhook body is not valid JSON', 400);
+    }
+
+    const events = normalizeWebhookEvents(provider, body, request.headers);
+    if (events.length === 0) {
+      throw new LedgerError('Webhook payload has no recognisable event', 400);
+    }
+
+    const headers = Object.fromEntries(
+      Object.entries(request.headers).filter(([name]) => !REDACTED_HEADERS.includes(name))
+    );
+
+    let duplicates = 0;
+    for (const normalized of events) {
+      const [stored] = await db
+        .insert(webhookEvents)
+        .values({
+          provider,
+          organizationId,
+          eventId: normalized.eventId,
+          eventType: normalized.eventType,
+          payload: body,
+          headers,
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (!stored) {
+        duplicates += 1;
+        continue;
+      }
+      await this.apply(stored, normalized);
+    }
+
+    return { organizationId, received: events.length - duplicates, duplicates };
+  }
+
+  async getEvents(organizationId: string, filters: WebhookEventFilters = {}, limit = 200): Promise<WebhookEvent[]> {
+    const conditions = [eq(webhookEvents.organizationId, organizationId)];
+    if (filters.provider) conditions.push(eq(webhookEvents.provider, filters.provider));
+    if (filters.status) conditions.push(eq(webhookEvents.status, filters.status));
+
+    return db
+      .select()
+      .from(webhookEvents)
+      .where(and(...conditions))
+      .orderBy(desc(webhookEvents.receivedAt))
+      .limit(limit);
+  }
+
+  /**
+   * Re-run a stored event through its handler. Handlers skip changes that are already applied,
+   * so replaying a processed event is harmless.
+   */
+  async replay(id: string, organizationId: string): Promise<WebhookEvent> {
+    const [stored] = await db
+      .select()
+      .from(webhookEvents)
+      .where(and(eq(webhookEvents.id, id), eq(webhookEvents.organizationId, organizationId)));
+    if (!stored) {
+      throw new LedgerError('Webhook event not found', 404);
+    }
+
+    const headers = (stored.headers ?? {}) as Record<string, string | undefined>;
+    const normalized = normalizeWebhookEvents(stored.provider as WebhookProvider, stored.payload, headers).find(
+      (candidate) => candidate.eventId === stored.eventId
+    );
+    if (!normalized) {
+      throw new LedgerError('Stored payload no longer contains this event', 422);
+    }
+
+    return this.apply(stored, normalized);
+  }
+
+  private async apply(stored: WebhookEvent, normalized: NormalizedWebhookEvent): Promise<WebhookEvent> {
+    let status: WebhookEventStatus = 'processed';
+    let lastError: string | null = null;
+
+    try {
+      const skipped = await this.handle(stored, normalized);
+      if (skipped) {
+        status = 'ignored';
+        lastError = skipped;
+      }
+    } catch (error) {
+      status = 'failed';
+      lastError = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Webhook ${stored.provider} ${stored.eventId} failed:`, error);
+    }
+
+    const [updated] = await db
+      .update(webhookEvents)
+      .set({
+        status,
+        lastError,
+        attempts: sql`${webhookEvents.attempts} + 1`,
+        processedAt: status === 'failed' ? null : new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(webhookEvents.id, stored.id))
+      .returning();
+    return updated;
+  }
+
+  // Returns the reason an event was skipped, or null when it was applied
+  private async handle(stored: WebhookEvent, normalized: NormalizedWebhookEvent): Promise<string | null> {
+    if (normalized.transaction) {
+      return this.applyTransactionStatus(stored, normalized.transaction);
+    }
+    if (normalized.card) {
+      return this.applyCardStatus(stored, normalized.card);
+    }
+    return `No handler for ${normalized.eventType}`;
+  }
+
+  private async applyTransactionStatus(
+    stored: WebhookEvent,
+    change: NonNullable<NormalizedWebhookEvent['transaction']>
+  ): Promise<string | null> {
+    // Returns with an R-code go through ACH return handling, which reverses the transfer itself
+    if (change.achReturnCode) {
+      const notice = await achReturnService.recordProviderReturn(stored.organizationId, 'system', {
+        provider: stored.provider,
+        providerTransactionId: change.providerTransactionId,
+        reasonCode: change.achReturnCode,
+      });
+      return notice ? null : `Return ${change.achReturnCode} already recorded`;
+    }
+
+    return db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(enhancedTransactions)
+        .where(
+          and(
+            eq(enhancedTransactions.organizationId, stored.organizationId),
+            eq(enhancedTransactions.provider, stored.provider as WebhookProvider),
+            eq(enhancedTransactions.providerTransactionId, change.providerTransactionId)
+          )
+        )
+        .for('update');
+      if (!before) {
+        return `No transaction for ${change.providerTransactionId}`;
+      }
+      if (!canTransition(before.status, change.status)) {
+        return `Transaction already ${before.status}`;
+      }
+
+      const [after] = await tx
+        .update(enhancedTransactions)
+        .set({
+          status: change.status,
+          settlementDate: change.status === 'completed' ? new Date() : before.settlementDate,
+          updatedAt: new Date(),
+        })
+        .where(eq(enhancedTransactions.id, before.id))
+        .returning();
+      await ledgerService.postEnhancedTransactionStatusChange(before, after, tx);
+      return null;
+    });
+  }
+
+  private async applyCardStatus(
+    stored: WebhookEvent,
+    change: NonNullable<NormalizedWebhookEvent['card']>
+  ): Promise<string | null> {
+    const [existing] = await db
+      .select()
+      .from(issuedCards)
+      .where(
+        and(
+          eq(issuedCards.organizationId, stored.organizationId),
+          eq(issuedCards.provider, stored.provider as WebhookProvider),
+          eq(issuedCards.externalCardId, change.externalCardId)
+        )
+      );
+    if (!existing) {
+      return `No card for ${change.externalCardId}`;
+    }
+    if (existing.status === change.status) {
+      return `Card already ${change.status}`;
+    }
+
+    await db
+      .update(issuedCards)
+      .set({ status: change.status, updatedAt: new Date() })
+      .where(eq(issuedCards.id, existing.id));
+    return null;
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,251 @@
+import crypto from 'crypto';
+
+// Per-provider webhook signature checks. Every verifier works on the exact bytes received,
+// so the route must hand over the raw body rather than re-serialised JSON.
+
+export const WEBHOOK_PROVIDERS = [
+  'stripe',
+  'paypal',
+  'square',
+  'adyen',
+  'dwolla',
+  'wise',
+  'circle',
+  'coinbase',
+  'unit',
+  'sandbox',
+] as const;
+
+export type WebhookProvider = (typeof WEBHOOK_PROVIDERS)[number];
+
+export interface WebhookRequest {
+  rawBody: string;
+  headers: Record<string, string | undefined>; // lower-cased header names
+  url: string; // absolute URL the provider posted to
+}
+
+export interface WebhookSecret {
+  secret: string; // shared HMAC key, PayPal webhook id, or PEM/base64 public key for Wise and Circle
+  webhookUrl?: string | null; // notification URL registered with Square
+}
+
+const STRIPE_TOLERANCE_SECONDS = 300;
+const PAYPAL_CERT_HOST = /(^|\.)paypal\.com$/;
+const paypalCertCache = new Map<string, string>();
+
+export function isWebhookProvider(value: string): value is WebhookProvider {
+  return (WEBHOOK_PROVIDERS as readonly string[]).includes(value);
+}
+
+function safeEqual(expected: string, received: string | undefined): boolean {
+  if (!received) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received.trim());
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function hmac(algorithm: string, key: string | Buffer, payload: string, encoding: 'hex' | 'base64'): string {
+  return crypto.createHmac(algorithm, key).update(payload, 'utf8').digest(encoding);
+}
+
+// Stripe-Signature: t=<unix>,v1=<hex>[,v1=<hex>]
+export function verifyStripeSignature(request: WebhookRequest, secret: string, now = Date.now()): boolean {
+  const header = request.headers['stripe-signature'];
+  if (!header) return false;
+
+  const parts = header.split(',').map((part) => part.split('=') as [string, string]);
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+  if (!timestamp || signatures.length === 0) return false;
+  if (Math.abs(now / 1000 - Number(timestamp)) > STRIPE_TOLERANCE_SECONDS) return false;
+
+  const expected = hmac('sha256', secret, `${timestamp}.${request.rawBody}`, 'hex');
+  return signatures.some((signature) => safeEqual(expected, signature));
+}
+
+// Square signs the notification URL followed by the body
+export function verifySquareSignature(request: WebhookRequest, secret: string, webhookUrl?: string | null): boolean {
+  const expected = hmac('sha256', secret, `${webhookUrl || request.url}${request.rawBody}`, 'base64');
+  return safeEqual(expected, request.headers['x-square-hmacsha256-signature']);
+}
+
+export function verifyDwollaSignature(request: WebhookRequest, secret: string): boolean {
+  const expected = hmac('sha256', secret, request.rawBody, 'hex');
+  return safeEqual(expected, request.headers['x-request-signature-sha-256']);
+}
+
+export function verifyCoinbaseSignature(request: WebhookRequest, secret: string): boolean {
+  const expected = hmac('sha256', secret, request.rawBody, 'hex');
+  return safeEqual(expected, request.headers['x-cc-webhook-signature']);
+}
+
+export function verifyUnitSignature(request: WebhookRequest, secret: string): boolean {
+  const expected = hmac('sha1', secret, request.rawBody, 'base64');
+  return safeEqual(expected, request.headers['x-unit-signature']);
+}
+
+// The local sandbox provider signs its own deliveries the same way Dwolla does, under its own header
+export function signSandboxWebhook(rawBody: string, secret: string): string {
+  return hmac('sha256', secret, rawBody, 'hex');
+}
+
+export function verifySandboxSignature(request: WebhookRequest, secret: string): boolean {
+  return safeEqual(signSandboxWebhook(request.rawBody, secret), request.headers['x-sandbox-signature']);
+}
+
+function escapeAdyen(value: unknown): string {
+  return String(value ?? '').replace(/\\/g, '\\\\').replace(/:/g, '\\:');
+}
+
+// Adyen signs each notification item separately with a hex HMAC key
+export function adyenSigningString(item: Record<string, any>): string {
+  return [
+    item.pspReference,
+    item.originalReference,
+    item.merchantAccountCode,
+    item.merchantReference,
+    item.amount?.value,
+    item.amount?.currency,
+    item.eventCode,
+    item.success,
+  ]
+    .map(escapeAdyen)
+    .join(':');
+}
+
+export function verifyAdyenSignature(request: WebhookRequest, hmacKey: string): boolean {
+  let body: any;
+  try {
+    body = JSON.parse(request.rawBody);
+  } catch {
+    return false;
+  }
+
+  const items: any[] = (body?.notificationItems ?? []).map((entry: any) => entry?.NotificationRequestItem ?? entry);
+  if (items.length === 0) return false;
+
+  const key = Buffer.from(hmacKey, 'hex');
+  return items.every((item) => {
+    const expected = hmac('sha256', key, adyenSigningString(item), 'base64');
+    return safeEqual(expected, item?.additionalData?.hmacSignature);
+  });
+}
+
+function toPublicKey(key: string): crypto.KeyObject {
+  if (key.includes('-----BEGIN')) {
+    return crypto.createPublicKey(key);
+  }
+  return crypto.createPublicKey({ key: Buffer.from(key, 'base64'), format: 'der', type: 'spki' });
+}
+
+function verifyWithPublicKey(payload: string, publicKey: string, signature: string | undefined): boolean {
+  if (!signature) return false;
+  try {
+    return crypto.verify('sha256', Buffer.from(payload, 'utf8'), toPublicKey(publicKey), Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+// Wise signs the body with its private key; the configured secret is Wise's published public key
+export function verifyWiseSignature(request: WebhookRequest, publicKey: string): boolean {
+  return verifyWithPublicKey(request.rawBody, publicKey, request.headers['x-signature-sha256']);
+}
+
+// Circle signs with ECDSA; the configured secret is the public key fetched for X-Circle-Key-Id
+export function verifyCircleSignature(request: WebhookRequest, publicKey: string): boolean {
+  return verifyWithPublicKey(request.rawBody, publicKey, request.headers['x-circle-signature']);
+}
+
+const CRC32_TABLE = (() => {
+  const table: number[] = [];
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(value: string): number {
+  let crc = 0xffffffff;
+  for (const byte of Buffer.from(value, 'utf8')) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function fetchPaypalCertificate(certUrl: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(certUrl);
+  } catch {
+    return null;
+  }
+  // Only trust certificates served by PayPal itself
+  if (url.protocol !== 'https:' || !PAYPAL_CERT_HOST.test(url.hostname)) return null;
+
+  const cached = paypalCertCache.get(certUrl);
+  if (cached) return cached;
+
+  const response = await fetch(certUrl);
+  if (!response.ok) return null;
+  const certificate = await response.text();
+  paypalCertCache.set(certUrl, certificate);
+  return certificate;
+}
+
+// PayPal: RSA-SHA256 over transmissionId|transmissionTime|webhookId|crc32(body), using the certificate PayPal links to
+export async function verifyPaypalSignature(request: WebhookRequest, webhookId: string): Promise<boolean> {
+  const transmissionId = request.headers['paypal-transmission-id'];
+  const transmissionTime = request.headers['paypal-transmission-time'];
+  const signature = request.headers['paypal-transmission-sig'];
+  const certUrl = request.headers['paypal-cert-url'];
+  if (!transmissionId || !transmissionTime || !signature || !certUrl) return false;
+
+  const certificate = await fetchPaypalCertificate(certUrl);
+  if (!certificate) return false;
+
+  const payload = `${transmissionId}|${transmissionTime}|${webhookId}|${crc32(request.rawBody)}`;
+  try {
+    return crypto.verify('sha256', Buffer.from(payload, 'utf8'), certificate, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+export async function verifyWebhookSignature(
+  provider: WebhookProvider,
+  request: WebhookRequest,
+  { secret, webhookUrl }: WebhookSecret,
+  now = Date.now()
+): Promise<boolean> {
+  if (!secret) return false;
+
+  switch (provider) {
+    case 'stripe':
+      return verifyStripeSignature(request, secret, now);
+    case 'paypal':
+      return verifyPaypalSignature(request, secret);
+    case 'square':
+      return verifySquareSignature(request, secret, webhookUrl);
+    case 'adyen':
+      return verifyAdyenSignature(request, secret);
+    case 'dwolla':
+      return verifyDwollaSignature(request, secret);
+    case 'wise':
+      return verifyWiseSignature(request, secret);
+    case 'circle':
+      return verifyCircleSignature(request, secret);
+    case 'coinbase':
+      return verifyCoinbaseSignature(request, secret);
+    case 'unit':
+      return verifyUnitSignature(request, secret);
+    case 'sandbox':
+      return verifySandboxSignature(request, secret);
+    default:
+      return false;
+  }
+}
@@ -1,4 +1,5 @@
 import { BaseProvider, BaseProviderConfig, PaymentResult, TransferResult, CardIssueResult, ComplianceResult } from './base-provider';
+import { addBusinessDays } from './banking-calendar';
 
 export interface WiseConfig extends BaseProviderConfig {
   apiToken: string;
@@ -64,7 +65,7 @@ export class WiseProvider extends BaseProvider {
   ): Promise<TransferResult> {
     try {
       const transferId = `wise_ach_${Date.now()}`;
-      const estimatedSettlement = new Date();
+      let estimatedSettlement = new Date();
       let fees = 4.95; // Wise ACH fee
 
       switch (type) {
@@ -73,11 +74,11 @@ export class WiseProvider extends BaseProvider {
           fees = 12.50;
           break;
         case 'next_day':
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
           fees = 7.50;
           break;
         default:
-          estimatedSettlement.setDate(estimatedSettlement.getDate() + 2);
+          estimatedSettlement = addBusinessDays(estimatedSettlement, 2);
       }
 
       this.logTransaction('processACH', { amount, type, fromAccount, toAccount });
@@ -208,7 +209,7 @@ export class WiseProvider extends BaseProvider {
         transferId,
         providerTransactionId: `wise_${Math.random().toString(36).substring(7)}`,
         status: 'processing',
-        estimatedSettlement: new Date(Date.now() + 24 * 60 * 60 * 1000), // 1 day
+        estimatedSettlement: addBusinessDays(new Date(), 1),
         fees,
         metadata: {
           exchangeRate,
@@ -324,11 +325,11 @@ export class WiseProvider extends BaseProvider {
   ): Promise<TransferResult> {
     try {
       const transferId = `wise_wire_${Date.now()}`;
-      const estimatedSettlement = new Date();
+      let estimatedSettlement = new Date();
       let fees = amount * 0.007; // 0.7% for Wise
 
       if (type === 'international') {
-        estimatedSettlement.setDate(estimatedSettlement.getDate() + 1);
+        estimatedSettlement = addBusinessDays(estimatedSettlement, 1);
         fees = Math.max(fees, 7.50); // Minimum fee
       } else {
         estimatedSettlement.setHours(estimatedSettlement.getHours() + 4);
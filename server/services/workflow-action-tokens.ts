@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { workflowActionTokens, type Workflow, type WorkflowActionToken } from '@shared/workflow-schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { LedgerError, type DbExecutor } from './ledger-service';
+
+// Approval links stop working after this long; the approver can still act in the app
+export const ACTION_TOKEN_TTL_HOURS = 72;
+
+export interface ActionTokenClaims {
+  id: string;
+  workflowId: string;
+  recipientId: string;
+  exp: number; // seconds since the epoch
+}
+
+const signature = (payload: string, secret: string) =>
+  crypto.createHmac('sha256', secret).update(`workflow-action.${payload}`, 'utf8').digest('base64url');
+
+/**
+ * Token format: base64url(JSON claims) + "." + base64url(HMAC-SHA256). The signature stops anyone
+ * forging or editing a link before the database is consulted.
+ */
+export function signActionToken(claims: ActionTokenClaims, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(claims), 'utf8').toString('base64url');
+  return `${payload}.${signature(payload, secret)}`;
+}
+
+export function verifyActionToken(token: string, secret: string, now = new Date()): ActionTokenClaims {
+  const [payload, received, ...rest] = token.split('.');
+  if (!payload || !received || rest.length > 0) {
+    throw new LedgerError('Invalid approval link', 401);
+  }
+  const expected = Buffer.from(signature(payload, secret));
+  const actual = Buffer.from(received);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new LedgerError('Invalid approval link', 401);
+  }
+
+  let claims: ActionTokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new LedgerError('Invalid approval link', 401);
+  }
+  if (typeof claims.id !== 'string' || typeof claims.workflowId !== 'string' || typeof claims.recipientId !== 'string') {
+    throw new LedgerError('Invalid approval link', 401);
+  }
+  if (!(claims.exp * 1000 > now.getTime())) {
+    throw new LedgerError('This approval link has expired', 410);
+  }
+  return claims;
+}
+
+function tokenSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET is required to sign approval links');
+  }
+  return secret;
+}
+
+// Absolute when the app's public domain is known, so the link works from email
+export function actionLink(token: string): string {
+  const [domain] = (process.env.REPLIT_DOMAINS ?? '').split(',');
+  return `${domain ? `https://${domain}` : ''}/approvals/act/${token}`;
+}
+
+export class WorkflowActionTokenService {
+  async issue(
+    workflow: Workflow,
+    recipientId: string,
+    level: number,
+    executor: DbExecutor = db,
+    now = new Date()
+  ): Promise<string> {
+    const expiresAt = new Date(now.getTime() + ACTION_TOKEN_TTL_HOURS * 60 * 60 * 1000);
+    const [row] = await executor
+      .insert(workflowActionTokens)
+      .values({
+        id: nanoid(),
+        organizationId: workflow.organizationId,
+        workflowId: workflow.id,
+        recipientId,
+        level,
+        expiresAt,
+      })
+      .returning();
+    return signActionToken(
+      { id: row.id, workflowId: workflow.id, recipientId, exp: Math.floor(expiresAt.getTime() / 1000) },
+      tokenSecret()
+    );
+  }
+
+  // Check the signature and load the link; throws unless it can still be used
+  async resolve(token: string, now = new Date()): Promise<WorkflowActionToken> {
+    const claims = verifyActionToken(token, tokenSecret(), now);
+    const [row] = await db.select().from(workflowActionTokens).where(eq(workflowActionTokens.id, claims.id));
+    if (!row || row.workflowId !== claims.workflowId || row.recipientId !== claims.recipientId) {
+      throw new LedgerError('Invalid approval link', 401);
+    }
+    if (row.usedAt) {
+      throw new LedgerError('This approval link has already been used', 410);
+    }
+    return row;
+  }
+
+  // Mark the link used; false when a concurrent request already did
+  async claim(id: string, action: string): Promise<boolean> {
+    const claimed = await db
+      .update(workflowActionTokens)
+      .set({ usedAt: new Date(), usedAction: action })
+      .where(and(eq(workflowActionTokens.id, id), isNull(workflowActionTokens.usedAt)))
+      .returning({ id: workflowActionTokens.id });
+    return claimed.length > 0;
+  }
+
+  // Give a link back after the decision it carried was refused, e.g. for a wrong two-factor code
+  async release(id: string): Promise<void> {
+    await db
+      .update(workflowActionTokens)
+      .set({ usedAt: null, usedAction: null })
+      .where(eq(workflowActionTokens.id, id));
+  }
+}
+
+export const workflowActionTokenService = new WorkflowActionTokenService();
@@ -0,0 +1,245 @@
+import { db } from '../db';
+import {
+  workflowDefinitions,
+  workflowStageSchema,
+  type WorkflowCondition,
+  type WorkflowDefinition,
+  type WorkflowGroup,
+  type WorkflowStage,
+} from '@shared/workflow-schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { z } from 'zod';
+import { LedgerError, type DbExecutor } from './ledger-service';
+
+export type GroupOutcome = 'approved' | 'rejected' | 'pending';
+
+interface RecordedDecision {
+  approverId: string;
+  groupId: string | null;
+  action: string | null;
+}
+
+/**
+ * Read a dotted path such as "vendor.category" out of workflow data
+ */
+export function readField(data: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (value == null ? undefined : (value as any)[key]), data);
+}
+
+const compare = (left: unknown, right: unknown): number | null => {
+  const a = typeof left === 'string' && left.trim() !== '' && !isNaN(Number(left)) ? Number(left) : left;
+  const b = typeof right === 'string' && right.trim() !== '' && !isNaN(Number(right)) ? Number(right) : right;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  return null;
+};
+
+export function evaluateCondition(condition: WorkflowCondition | undefined, data: unknown): boolean {
+  if (!condition) return true;
+  if ('all' in condition) return condition.all.every((inner) => evaluateCondition(inner, data));
+  if ('any' in condition) return condition.any.some((inner) => evaluateCondition(inner, data));
+
+  const value = readField(data, condition.field);
+  const order = compare(value, condition.value);
+  switch (condition.operator) {
+    case 'exists':
+      return value !== undefined && value !== null && value !== '';
+    case 'eq':
+      return order === null ? value === condition.value : order === 0;
+    case 'neq':
+      return order === null ? value !== condition.value : order !== 0;
+    case 'gt':
+      return order !== null && order > 0;
+    case 'gte':
+      return order !== null && order >= 0;
+    case 'lt':
+      return order !== null && order < 0;
+    case 'lte':
+      return order !== null && order <= 0;
+    case 'in':
+      return Array.isArray(condition.value) && condition.value.some((option) => compare(value, option) === 0 || option === value);
+    case 'contains':
+      return Array.isArray(value)
+        ? value.includes(condition.value)
+        : typeof value === 'string' && typeof condition.value === 'string' && value.includes(condition.value);
+  }
+}
+
+/**
+ * Groups in the stage whose condition holds for the workflow data
+ */
+export function activeGroups(stage: WorkflowStage, data: unknown): WorkflowGroup[] {
+  if (!evaluateCondition(stage.condition, data)) return [];
+  return stage.groups.filter((group) => evaluateCondition(group.condition, data));
+}
+
+/**
+ * Index of the first stage after `afterIndex` that applies to the data, or null when routing is done
+ */
+export function nextStageIndex(stages: WorkflowStage[], data: unknown, afterIndex = -1): number | null {
+  for (let index = afterIndex + 1; index < stages.length; index++) {
+    if (activeGroups(stages[index], data).length > 0) return index;
+  }
+  return null;
+}
+
+/**
+ * A rejection from anyone in the group rejects it; otherwise "any" needs one approval and "all"
+ * needs every approver
+ */
+export function groupOutcome(group: WorkflowGroup, decisions: RecordedDecision[]): GroupOutcome {
+  const mine = decisions.filter((decision) => decision.groupId === group.id);
+  if (mine.some((decision) => decision.action === 'reject')) return 'rejected';
+  const approvedBy = new Set(mine.filter((decision) => decision.action === 'approve').map((decision) => decision.approverId));
+  const met = group.quorum === 'any' ? approvedBy.size > 0 : group.approvers.every((approver) => approvedBy.has(approver));
+  return met ? 'approved' : 'pending';
+}
+
+export function stageOutcome(stage: WorkflowStage, data: unknown, decisions: RecordedDecision[]): GroupOutcome {
+  const outcomes = activeGroups(stage, data).map((group) => groupOutcome(group, decisions));
+  if (outcomes.includes('rejected')) return 'rejected';
+  return outcomes.every((outcome) => outcome === 'approved') ? 'approved' : 'pending';
+}
+
+/**
+ * Structural checks the zod schema cannot express
+ */
+export function definitionProblems(stages: WorkflowStage[]): string[] {
+  const problems: string[] = [];
+  const stageIds = new Set<string>();
+  const groupIds = new Set<string>();
+  for (const stage of stages) {
+    if (stageIds.has(stage.id)) problems.push(`Stage id ${stage.id} is used twice`);
+    stageIds.add(stage.id);
+    for (const group of stage.groups) {
+      if (groupIds.has(group.id)) problems.push(`Group id ${group.id} is used twice`);
+      groupIds.add(group.id);
+      if (new Set(group.approvers).size !== group.approvers.length) {
+        problems.push(`Group ${group.name} lists an approver twice`);
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Everyone the definition can route to, across every stage and branch
+ */
+export function definitionApprovers(stages: WorkflowStage[]): string[] {
+  return Array.from(new Set(stages.flatMap((stage) => stage.groups.flatMap((group) => group.approvers))));
+}
+
+export interface SaveDefinitionInput {
+  type: WorkflowDefinition['type'];
+  name: string;
+  description?: string | null;
+  stages: WorkflowStage[];
+  autoApproveBelow?: number | null;
+  publish?: boolean;
+}
+
+export class WorkflowDefinitionService {
+  async getDefinitions(organizationId: string): Promise<WorkflowDefinition[]> {
+    return db
+      .select()
+      .from(workflowDefinitions)
+      .where(eq(workflowDefinitions.organizationId, organizationId))
+      .orderBy(workflowDefinitions.type, desc(workflowDefinitions.version));
+  }
+
+  async getDefinition(id: string, organizationId?: string, executor: DbExecutor = db): Promise<WorkflowDefinition> {
+    const [definition] = await executor
+      .select()
+      .from(workflowDefinitions)
+      .where(
+        organizationId
+          ? and(eq(workflowDefinitions.id, id), eq(workflowDefinitions.organizationId, organizationId))
+          : eq(workflowDefinitions.id, id)
+      );
+    if (!definition) {
+      throw new LedgerError('Workflow definition not found', 404);
+    }
+    return definition;
+  }
+
+  async getActive(organizationId: string, type: string, executor: DbExecutor = db): Promise<WorkflowDefinition | null> {
+    const [definition] = await executor
+      .select()
+      .from(workflowDefinitions)
+      .where(
+        and(
+          eq(workflowDefinitions.organizationId, organizationId),
+          eq(workflowDefinitions.type, type as WorkflowDefinition['type']),
+          eq(workflowDefinitions.isActive, true)
+        )
+      )
+      .limit(1);
+    return definition ?? null;
+  }
+
+  /**
+   * Save the designer's graph as the next version of the type's definition. Earlier versions are
+   * never modified, so workflows already running keep routing by the version they started on.
+   */
+  async saveVersion(organizationId: string, input: SaveDefinitionInput, createdBy: string): Promise<WorkflowDefinition> {
+    const stages = z.array(workflowStageSchema).min(1).parse(input.stages);
+    const problems = definitionProblems(stages);
+    if (problems.length > 0) {
+      throw new LedgerError(problems.join('; '), 422);
+    }
+
+    return db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select({ version: workflowDefinitions.version })
+        .from(workflowDefinitions)
+        .where(and(eq(workflowDefinitions.organizationId, organizationId), eq(workflowDefinitions.type, input.type)))
+        .orderBy(desc(workflowDefinitions.version))
+        .limit(1)
+        .for('update');
+
+      const [definition] = await tx
+        .insert(workflowDefinitions)
+        .values({
+          id: nanoid(),
+          organizationId,
+          type: input.type,
+          version: (latest?.version ?? 0) + 1,
+          name: input.name,
+          description: input.description ?? null,
+          stages,
+          autoApproveBelow: input.autoApproveBelow ?? null,
+          createdBy,
+        })
+        .returning();
+
+      return input.publish ? this.activate(definition, tx) : definition;
+    });
+  }
+
+  async publish(id: string, organizationId: string): Promise<WorkflowDefinition> {
+    return db.transaction(async (tx) => this.activate(await this.getDefinition(id, organizationId, tx), tx));
+  }
+
+  // Make one version the one new workflows start on
+  private async activate(definition: WorkflowDefinition, tx: DbExecutor): Promise<WorkflowDefinition> {
+    await tx
+      .update(workflowDefinitions)
+      .set({ isActive: false })
+      .where(
+        and(
+          eq(workflowDefinitions.organizationId, definition.organizationId),
+          eq(workflowDefinitions.type, definition.type),
+          eq(workflowDefinitions.isActive, true)
+        )
+      );
+    const [active] = await tx
+      .update(workflowDefinitions)
+      .set({ isActive: true, publishedAt: new Date() })
+      .where(eq(workflowDefinitions.id, definition.id))
+      .returning();
+    return active;
+  }
+}
+
+export const workflowDefinitionService = new WorkflowDefinitionService();
@@ -0,0 +1,412 @@
+import { db } from '../db';
+import {
+  workflows,
+  workflowApprovals,
+  workflowDefinitions,
+  workflowSlaPolicies,
+  workflowEscalations,
+  type SlaEscalationTier,
+  type Workflow,
+  type WorkflowApproval,
+  type WorkflowSlaPolicy,
+  type WorkflowStage,
+} from '@shared/workflow-schema';
+import { users } from '@shared/schema';
+import { and, eq, gte, inArray, isNull } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { LedgerError } from './ledger-service';
+import { bankingCalendarService } from './banking-calendar-service';
+import { DEFAULT_BUSINESS_HOURS, type BankingCalendar, type BusinessHours } from './banking-calendar';
+import { groupOutcome } from './workflow-definitions';
+
+// A group needs this many decisions before it can be called a bottleneck
+const MIN_BOTTLENECK_SAMPLE = 3;
+// ...and a median this many times the overall median
+const BOTTLENECK_FACTOR = 1.5;
+// Share of the target after which a stage is at risk
+const AT_RISK_SHARE = 0.75;
+
+export type SlaStatus = 'on_track' | 'at_risk' | 'breached';
+
+export interface CycleTimeSample {
+  key: string;
+  label: string;
+  hours: number;
+}
+
+export interface CycleTimeGroup {
+  key: string;
+  label: string;
+  count: number;
+  median: number;
+  p90: number;
+  pending: number;
+  bottleneck: boolean;
+}
+
+export interface DueEscalation {
+  workflow: Workflow;
+  policy: WorkflowSlaPolicy;
+  level: number;
+  tier: number;
+  escalation: SlaEscalationTier;
+  ageHours: number;
+  pendingApprovers: string[];
+}
+
+export interface SavePolicyInput {
+  type: WorkflowSlaPolicy['type'];
+  priority?: string | null;
+  targetHours: number;
+  escalationTiers: SlaEscalationTier[];
+  businessHoursStart: number;
+  businessHoursEnd: number;
+  timeZone: string;
+  isActive: boolean;
+}
+
+const round = (hours: number) => Math.round(hours * 10) / 10;
+
+/**
+ * Linear-interpolated percentile (0-100) of the values, or null when there are none
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * The policy for a workflow: one for its exact priority wins over the type's catch-all
+ */
+export function selectPolicy(policies: WorkflowSlaPolicy[], type: string, priority: string | null): WorkflowSlaPolicy | null {
+  const candidates = policies.filter((policy) => policy.isActive && policy.type === type);
+  return (
+    candidates.find((policy) => policy.priority !== null && policy.priority === priority) ??
+    candidates.find((policy) => policy.priority === null) ??
+    null
+  );
+}
+
+export function policyHours(policy: WorkflowSlaPolicy | null): BusinessHours {
+  return policy
+    ? { open: policy.businessHoursStart, close: policy.businessHoursEnd, timeZone: policy.timeZone }
+    : DEFAULT_BUSINESS_HOURS;
+}
+
+export function slaStatus(ageHours: number, targetHours: number): SlaStatus {
+  if (ageHours >= targetHours) return 'breached';
+  return ageHours >= targetHours * AT_RISK_SHARE ? 'at_risk' : 'on_track';
+}
+
+/**
+ * Tiers (1-based) the stage has aged past that have not been sent yet
+ */
+export function dueTiers(tiers: SlaEscalationTier[], ageHours: number, sent: ReadonlySet<number>): number[] {
+  return tiers.flatMap((tier, index) => (ageHours >= tier.afterHours && !sent.has(index + 1) ? [index + 1] : []));
+}
+
+/**
+ * Median and p90 per group, slowest first. A group is a bottleneck when it has enough decisions
+ * and its median runs well past the median across every group.
+ */
+export function summarizeCycleTimes(samples: CycleTimeSample[], pending: Map<string, number> = new Map()): CycleTimeGroup[] {
+  const overall = percentile(samples.map((sample) => sample.hours), 50) ?? 0;
+  const groups = new Map<string, CycleTimeSample[]>();
+  for (const sample of samples) {
+    groups.set(sample.key, [...(groups.get(sample.key) ?? []), sample]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, members]) => {
+      const hours = members.map((member) => member.hours);
+      const median = percentile(hours, 50)!;
+      return {
+        key,
+        label: members[0].label,
+        count: members.length,
+        median: round(median),
+        p90: round(percentile(hours, 90)!),
+        pending: pending.get(key) ?? 0,
+        bottleneck: members.length >= MIN_BOTTLENECK_SAMPLE && overall > 0 && median >= overall * BOTTLENECK_FACTOR,
+      };
+    })
+    .sort((a, b) => b.p90 - a.p90);
+}
+
+// When the workflow's current stage started waiting: its first approval record, or the workflow itself
+/**
+ * The seats the current stage still waits on: undecided approvals at the current level, leaving out
+ * groups that are already settled, such as an "any" group someone has approved
+ */
+export function pendingApprovals(
+  workflow: Workflow,
+  approvals: WorkflowApproval[],
+  stage?: WorkflowStage | null
+): WorkflowApproval[] {
+  const level = workflow.currentLevel || 1;
+  const current = approvals.filter((approval) => approval.workflowId === workflow.id && approval.level === level);
+  const settled = new Set(
+    (stage?.groups ?? []).filter((group) => groupOutcome(group, current) !== 'pending').map((group) => group.id)
+  );
+  return current.filter((approval) => !approval.action && !(approval.groupId && settled.has(approval.groupId)));
+}
+
+const currentStage = (workflow: Workflow, stages: Map<string, WorkflowStage[]>) =>
+  (workflow.definitionId && stages.get(workflow.definitionId)?.[(workflow.currentLevel || 1) - 1]) || null;
+
+function stageStartedAt(workflow: Workflow, approvals: WorkflowApproval[]): Date {
+  const level = workflow.currentLevel || 1;
+  const opened = approvals
+    .filter((approval) => approval.workflowId === workflow.id && approval.level === level && approval.createdAt)
+    .map((approval) => approval.createdAt!.getTime());
+  return opened.length > 0 ? new Date(Math.min(...opened)) : new Date(workflow.createdAt!);
+}
+
+export class WorkflowSlaService {
+  async getPolicies(organizationId: string): Promise<WorkflowSlaPolicy[]> {
+    return db
+      .select()
+      .from(workflowSlaPolicies)
+      .where(eq(workflowSlaPolicies.organizationId, organizationId))
+      .orderBy(workflowSlaPolicies.type, workflowSlaPolicies.priority);
+  }
+
+  // One policy per type and priority; saving again replaces it
+  async savePolicy(organizationId: string, input: SavePolicyInput, createdBy: string): Promise<WorkflowSlaPolicy> {
+    const priority = input.priority ?? null;
+    const [existing] = await db
+      .select({ id: workflowSlaPolicies.id })
+      .from(workflowSlaPolicies)
+      .where(
+        and(
+          eq(workflowSlaPolicies.organizationId, organizationId),
+          eq(workflowSlaPolicies.type, input.type),
+          priority === null ? isNull(workflowSlaPolicies.priority) : eq(workflowSlaPolicies.priority, priority)
+        )
+      );
+
+    const values = { ...input, priority };
+    if (existing) {
+      const [updated] = await db
+        .update(workflowSlaPolicies)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(workflowSlaPolicies.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db
+      .insert(workflowSlaPolicies)
+      .values({ id: nanoid(), organizationId, ...values, createdBy })
+      .returning();
+    return created;
+  }
+
+  async deletePolicy(id: string, organizationId: string): Promise<void> {
+    const [deleted] = await db
+      .delete(workflowSlaPolicies)
+      .where(and(eq(workflowSlaPolicies.id, id), eq(workflowSlaPolicies.organizationId, organizationId)))
+      .returning({ id: workflowSlaPolicies.id });
+    if (!deleted) {
+      throw new LedgerError('SLA policy not found', 404);
+    }
+  }
+
+  /**
+   * Escalation tiers that open workflows under an SLA policy have aged into. `covered` lists every
+   * workflow a policy applies to, so the caller can leave the rest to workflowRules.escalationDays.
+   */
+  async findDueEscalations(now = new Date()): Promise<{ covered: Set<string>; due: DueEscalation[] }> {
+    const policies = await db.select().from(workflowSlaPolicies).where(eq(workflowSlaPolicies.isActive, true));
+    const covered = new Set<string>();
+    const due: DueEscalation[] = [];
+    if (policies.length === 0) return { covered, due };
+
+    const open = await db
+      .select()
+      .from(workflows)
+      .where(
+        and(
+          inArray(workflows.status, ['pending', 'in_progress']),
+          inArray(workflows.organizationId, Array.from(new Set(policies.map((policy) => policy.organizationId))))
+        )
+      );
+    if (open.length === 0) return { covered, due };
+
+    const ids = open.map((workflow) => workflow.id);
+    const approvals = await db.select().from(workflowApprovals).where(inArray(workflowApprovals.workflowId, ids));
+    const stages = await this.loadStages(open);
+    const sent = await db
+      .select({ workflowId: workflowEscalations.workflowId, level: workflowEscalations.level, tier: workflowEscalations.tier })
+      .from(workflowEscalations)
+      .where(inArray(workflowEscalations.workflowId, ids));
+
+    const calendars = new Map<string, BankingCalendar>();
+    for (const workflow of open) {
+      const policy = selectPolicy(
+        policies.filter((candidate) => candidate.organizationId === workflow.organizationId),
+        workflow.type,
+        workflow.priority
+      );
+      if (!policy) continue;
+      covered.add(workflow.id);
+
+      if (!calendars.has(workflow.organizationId)) {
+        calendars.set(workflow.organizationId, await bankingCalendarService.forOrganization(workflow.organizationId));
+      }
+      const level = workflow.currentLevel || 1;
+      const ageHours = calendars
+        .get(workflow.organizationId)!
+        .businessHoursBetween(stageStartedAt(workflow, approvals), now, policyHours(policy));
+      const alreadySent = new Set(
+        sent.filter((row) => row.workflowId === workflow.id && row.level === level).map((row) => row.tier)
+      );
+      const pendingApprovers = pendingApprovals(workflow, approvals, currentStage(workflow, stages))
+        .map((approval) => approval.delegatedTo ?? approval.approverId);
+
+      for (const tier of dueTiers(policy.escalationTiers, ageHours, alreadySent)) {
+        due.push({ workflow, policy, level, tier, escalation: policy.escalationTiers[tier - 1], ageHours, pendingApprovers });
+      }
+    }
+    return { covered, due };
+  }
+
+  // Stages of the pinned definition versions behind these workflows
+  private async loadStages(open: Workflow[]): Promise<Map<string, WorkflowStage[]>> {
+    const ids = Array.from(new Set(open.flatMap((workflow) => (workflow.definitionId ? [workflow.definitionId] : []))));
+    if (ids.length === 0) return new Map();
+    const definitions = await db
+      .select({ id: workflowDefinitions.id, stages: workflowDefinitions.stages })
+      .from(workflowDefinitions)
+      .where(inArray(workflowDefinitions.id, ids));
+    return new Map(definitions.map((definition) => [definition.id, definition.stages]));
+  }
+
+  // Claim a tier before notifying; false when another run already sent it
+  async recordEscalation(item: DueEscalation): Promise<boolean> {
+    const inserted = await db
+      .insert(workflowEscalations)
+      .values({
+        id: nanoid(),
+        organizationId: item.workflow.organizationId,
+        workflowId: item.workflow.id,
+        level: item.level,
+        tier: item.tier,
+        ageHours: Math.floor(item.ageHours),
+        recipients: item.escalation.recipients,
+      })
+      .onConflictDoNothing()
+      .returning({ id: workflowEscalations.id });
+    return inserted.length > 0;
+  }
+
+  /**
+   * Cycle times in business hours since `since`: each approver's and department's time to decide,
+   * and each workflow type's time from start to completion, plus how open workflows stand against SLA
+   */
+  async getCycleTimes(organizationId: string, since: Date, now = new Date()) {
+    const calendar = await bankingCalendarService.forOrganization(organizationId);
+    const policies = await this.getPolicies(organizationId);
+    const hoursFor = (workflow: { type: string; priority: string | null }) =>
+      policyHours(selectPolicy(policies, workflow.type, workflow.priority));
+
+    const people = await db
+      .select({ id: users.id, email: users.email, firstName: users.firstName, lastName: users.lastName, department: users.department })
+      .from(users)
+      .where(eq(users.organizationId, organizationId));
+    const person = new Map(people.map((user) => [user.id, user]));
+    const nameOf = (id: string) => {
+      const user = person.get(id);
+      return (user && ([user.firstName, user.lastName].filter(Boolean).join(' ') || user.email)) || id;
+    };
+    const departmentOf = (id: string) => person.get(id)?.department ?? 'Unassigned';
+
+    const recent = await db
+      .select({ approval: workflowApprovals, workflow: workflows })
+      .from(workflowApprovals)
+      .innerJoin(workflows, eq(workflowApprovals.workflowId, workflows.id))
+      .where(and(eq(workflows.organizationId, organizationId), gte(workflows.createdAt, since)));
+    const open = await db
+      .select()
+      .from(workflows)
+      .where(and(eq(workflows.organizationId, organizationId), inArray(workflows.status, ['pending', 'in_progress'])));
+    const openApprovals = open.length
+      ? await db.select().from(workflowApprovals).where(inArray(workflowApprovals.workflowId, open.map((workflow) => workflow.id)))
+      : [];
+    const stages = await this.loadStages(open);
+
+    // Decisions, credited to whoever acted (a delegate acting for someone else included)
+    const decisions = recent.flatMap(({ approval, workflow }) => {
+      if (!approval.approvedAt || !approval.createdAt) return [];
+      const actor = approval.actedBy ?? approval.approverId;
+      const hours = calendar.businessHoursBetween(approval.createdAt, approval.approvedAt, hoursFor(workflow));
+      return [{ actor, hours }];
+    });
+
+    // Completed workflows that went through approval; auto-approved ones would drag medians to zero
+    const routed = new Map(recent.map(({ workflow }) => [workflow.id, workflow]));
+    const typeSamples = Array.from(routed.values()).flatMap((workflow) =>
+      workflow.completedAt && workflow.createdAt
+        ? [{
+            key: workflow.type,
+            label: workflow.type.replace(/_/g, ' '),
+            hours: calendar.businessHoursBetween(workflow.createdAt, workflow.completedAt, hoursFor(workflow)),
+          }]
+        : []
+    );
+
+    const waiting = open
+      .flatMap((workflow) => pendingApprovals(workflow, openApprovals, currentStage(workflow, stages)))
+      .map((approval) => approval.delegatedTo ?? approval.approverId);
+    const pendingBy = (keyOf: (id: string) => string) =>
+      waiting.reduce((counts, id) => counts.set(keyOf(id), (counts.get(keyOf(id)) ?? 0) + 1), new Map<string, number>());
+
+    const aging = open.map((workflow) => {
+      const policy = selectPolicy(policies, workflow.type, workflow.priority);
+      const ageHours = calendar.businessHoursBetween(stageStartedAt(workflow, openApprovals), now, policyHours(policy));
+      return {
+        workflowId: workflow.id,
+        type: workflow.type,
+        priority: workflow.priority,
+        level: workflow.currentLevel || 1,
+        ageHours: round(ageHours),
+        targetHours: policy?.targetHours ?? null,
+        status: policy ? slaStatus(ageHours, policy.targetHours) : null,
+        waitingOn: openApprovals
+          .filter((approval) => approval.workflowId === workflow.id && approval.level === (workflow.currentLevel || 1) && !approval.action)
+          .map((approval) => nameOf(approval.delegatedTo ?? approval.approverId)),
+      };
+    });
+
+    return {
+      since,
+      byApprover: summarizeCycleTimes(
+        decisions.map(({ actor, hours }) => ({ key: actor, label: nameOf(actor), hours })),
+        pendingBy((id) => id)
+      ),
+      byDepartment: summarizeCycleTimes(
+        decisions.map(({ actor, hours }) => ({ key: departmentOf(actor), label: departmentOf(actor), hours })),
+        pendingBy(departmentOf)
+      ),
+      byType: summarizeCycleTimes(
+        typeSamples,
+        open.reduce((counts, workflow) => counts.set(workflow.type, (counts.get(workflow.type) ?? 0) + 1), new Map<string, number>())
+      ),
+      open: {
+        total: open.length,
+        onTrack: aging.filter((item) => item.status === 'on_track').length,
+        atRisk: aging.filter((item) => item.status === 'at_risk').length,
+        breached: aging.filter((item) => item.status === 'breached').length,
+      },
+      overdue: aging
+        .filter((item) => item.status === 'breached' || item.status === 'at_risk')
+        .sort((a, b) => b.ageHours - a.ageHours)
+        .slice(0, 25),
+    };
+  }
+}
+
+export const workflowSlaService = new WorkflowSlaService();
@@ -29,6 +29,14 @@ import {
 } from "@shared/schema";
 import { db } from "./db";
 import { eq, desc, and, sql, sum } from "drizzle-orm";
+import { ledgerService } from "./services/ledger-service";
+import { encumbranceService } from "./services/encumbrance-service";
+import { fxService } from "./services/fx-service";
+import {
+  fiscalPeriodService,
+  paymentAccountingDate,
+  expenseAccountingDate,
+} from "./services/fiscal-period-service";
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -153,6 +161,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateBudget(id: string, budget: Partial<InsertBudget>): Promise<Budget> {
+    const [existingBudget] = await db.select().from(budgets).where(eq(budgets.id, id));
+    if (existingBudget) {
+      await fiscalPeriodService.assertFiscalYearOpen(existingBudget.organizationId, existingBudget.fiscalYear);
+      if (budget.fiscalYear !== undefined && budget.fiscalYear !== existingBudget.fiscalYear) {
+        await fiscalPeriodService.assertFiscalYearOpen(existingBudget.organizationId, budget.fiscalYear);
+      }
+    }
+
     const [updatedBudget] = await db
       .update(budgets)
       .set({ ...budget, updatedAt: new Date() })
@@ -223,20 +239,53 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createPayment(payment: InsertPayment): Promise<Payment> {
-    const [newPayment] = await db
-      .insert(payments)
-      .values(payment)
-      .returning();
-    return newPayment;
+    return await db.transaction(async (tx) => {
+      const accountingDate = paymentAccountingDate({ processedDate: payment.processedDate ?? null, createdAt: new Date() });
+      await fiscalPeriodService.assertDateOpen(payment.organizationId, accountingDate, tx);
+      const fx = await fxService.toBase(payment.organizationId, payment.amount, payment.currency, accountingDate, tx);
+      const reservation = await encumbranceService.reservePayment({ ...payment, ...fx }, tx);
+      const [newPayment] = await tx
+        .insert(payments)
+        .values({ ...payment, ...fx, budgetCategoryId: reservation.budgetCategoryId })
+        .returning();
+      await encumbranceService.liquidateForPayment(newPayment, reservation, tx);
+      await ledgerService.postPayment(newPayment, tx);
+      return newPayment;
+    });
   }
 
   async updatePayment(id: string, payment: Partial<InsertPayment>): Promise<Payment> {
-    const [updatedPayment] = await db
-      .update(payments)
-      .set({ ...payment, updatedAt: new Date() })
-      .where(eq(payments.id, id))
-      .returning();
-    return updatedPayment;
+    return await db.transaction(async (tx) => {
+      const [existingPayment] = await tx.select().from(payments).where(eq(payments.id, id));
+      // A new amount or currency is rebooked at the original booking date's rate
+      const fx = existingPayment && (payment.amount !== undefined || payment.currency !== undefined)
+        ? await fxService.toBase(
+          existingPayment.organizationId,
+          payment.amount ?? existingPayment.amount,
+          payment.currency ?? existingPayment.currency,
+          existingPayment.createdAt ?? new Date(),
+          tx
+        )
+        : {};
+      if (existingPayment) {
+        await encumbranceService.reservePaymentUpdate(existingPayment, { ...payment, ...fx }, tx);
+      }
+      const [updatedPayment] = await tx
+        .update(payments)
+        .set({ ...payment, ...fx, updatedAt: new Date() })
+        .where(eq(payments.id, id))
+        .returning();
+      if (existingPayment && updatedPayment) {
+        await encumbranceService.onPaymentStatusChange(existingPayment, updatedPayment, tx);
+        await ledgerService.postPaymentStatusChange(
+          existingPayment,
+          updatedPayment,
+          updatedPayment.approvedBy ?? updatedPayment.createdBy,
+          tx
+        );
+      }
+      return updatedPayment;
+    });
   }
 
   async getPendingPayments(organizationId: string): Promise<Payment[]> {
@@ -267,20 +316,50 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createExpense(expense: InsertExpense): Promise<Expense> {
-    const [newExpense] = await db
-      .insert(expenses)
-      .values(expense)
-      .returning();
-    return newExpense;
+    return await db.transaction(async (tx) => {
+      const accountingDate = expenseAccountingDate({ expenseDate: expense.expenseDate, createdAt: new Date() });
+      await fiscalPeriodService.assertDateOpen(expense.organizationId, accountingDate, tx);
+      const fx = await fxService.toBase(expense.organizationId, expense.amount, expense.currency, accountingDate, tx);
+      await encumbranceService.reserveExpense({ ...expense, ...fx }, tx);
+      const [newExpense] = await tx
+        .insert(expenses)
+        .values({ ...expense, ...fx })
+        .returning();
+      await ledgerService.postExpense(newExpense, tx);
+      return newExpense;
+    });
   }
 
   async updateExpense(id: string, expense: Partial<InsertExpense>): Promise<Expense> {
-    const [updatedExpense] = await db
-      .update(expenses)
-      .set({ ...expense, updatedAt: new Date() })
-      .where(eq(expenses.id, id))
-      .returning();
-    return updatedExpense;
+    return await db.transaction(async (tx) => {
+      const [existingExpense] = await tx.select().from(expenses).where(eq(expenses.id, id));
+      const fx = existingExpense && (expense.amount !== undefined || expense.currency !== undefined)
+        ? await fxService.toBase(
+          existingExpense.organizationId,
+          expense.amount ?? existingExpense.amount,
+          expense.currency ?? existingExpense.currency,
+          existingExpense.expenseDate,
+          tx
+        )
+        : {};
+      if (existingExpense) {
+        await encumbranceService.reserveExpenseUpdate(existingExpense, { ...expense, ...fx }, tx);
+      }
+      const [updatedExpense] = await tx
+        .update(expenses)
+        .set({ ...expense, ...fx, updatedAt: new Date() })
+        .where(eq(expenses.id, id))
+        .returning();
+      if (existingExpense && updatedExpense) {
+        await ledgerService.postExpenseStatusChange(
+          existingExpense,
+          updatedExpense,
+          updatedExpense.approvedBy ?? updatedExpense.submittedBy,
+          tx
+        );
+      }
+      return updatedExpense;
+    });
   }
 
   // Digital wallet operations
@@ -324,11 +403,15 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
-    const [newTransaction] = await db
-      .insert(transactions)
-      .values(transaction)
-      .returning();
-    return newTransaction;
+    return await db.transaction(async (tx) => {
+      const fx = await fxService.toBase(transaction.organizationId, transaction.amount, transaction.currency, new Date(), tx);
+      const [newTransaction] = await tx
+        .insert(transactions)
+        .values({ ...transaction, ...fx })
+        .returning();
+      await ledgerService.postTransaction(newTransaction, tx);
+      return newTransaction;
+    });
   }
 
   // Analytics operations
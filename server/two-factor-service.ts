@@ -6,7 +6,7 @@ import {
   type InsertTwoFactorAuth,
   type TwoFactorSession
 } from '@shared/workflow-schema';
-import { eq, and, gte } from 'drizzle-orm';
+import { eq, and, gte, lt } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 import * as crypto from 'crypto';
 import { wsManager } from './websocket';
@@ -398,26 +398,19 @@ class TwoFactorService {
     // In production, integrate with email provider
   }
 
-  // Clean up expired sessions
-  async cleanupSessions(): Promise<void> {
-    try {
-      await db
-        .delete(twoFactorSessions)
-        .where(
-          and(
-            eq(twoFactorSessions.isVerified, false),
-            gte(twoFactorSessions.expiresAt, new Date())
-          )
-        );
-    } catch (error) {
-      console.error('Error cleaning up 2FA sessions:', error);
-    }
+  // Clean up expired, unverified sessions; runs as a recurring background job
+  async cleanupSessions(): Promise<number> {
+    const deleted = await db
+      .delete(twoFactorSessions)
+      .where(
+        and(
+          eq(twoFactorSessions.isVerified, false),
+          lt(twoFactorSessions.expiresAt, new Date())
+        )
+      )
+      .returning({ id: twoFactorSessions.id });
+    return deleted.length;
   }
 }
 
-export const twoFactorService = new TwoFactorService();
-
-// Clean up expired sessions every hour
-setInterval(() => {
-  twoFactorService.cleanupSessions();
-}, 60 * 60 * 1000);
\ No newline at end of file
+export const twoFactorService = new TwoFactorService();
\ No newline at end of file
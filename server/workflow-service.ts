@@ -8,11 +8,33 @@ import {
   type InsertWorkflow,
   type WorkflowApproval,
   type InsertWorkflowApproval,
-  type InsertWorkflowNotification
+  type InsertWorkflowNotification,
+  type WorkflowDefinition,
+  type WorkflowStage,
+  type WorkflowActionToken
 } from '@shared/workflow-schema';
-import { eq, and, desc, gte } from 'drizzle-orm';
+import { eq, and, desc, gte, or, inArray, isNull, isNotNull, sql } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 import { wsManager } from './websocket';
+import { bankingCalendarService } from './services/banking-calendar-service';
+import type { BankingCalendar } from './services/banking-calendar';
+import { separationOfDutiesService, type SodOverride } from './services/separation-of-duties';
+import { payments, users } from '@shared/schema';
+import { workflowDefinitionService, activeGroups, nextStageIndex, stageOutcome } from './services/workflow-definitions';
+import { approvalDelegationService, workflowAmount } from './services/approval-delegation';
+import { LedgerError, type DbExecutor } from './services/ledger-service';
+import { twoFactorService } from './two-factor-service';
+import type { TwoFactorProof } from './services/payment-scheduler';
+import { workflowSlaService, type DueEscalation } from './services/workflow-sla';
+import { workflowActionTokenService, actionLink } from './services/workflow-action-tokens';
+import {
+  entityLifecycleService,
+  lifecycleFor,
+  lifecycleEntityTypes,
+  needsWorkflow,
+  awaitsWriteBack,
+  type LifecycleEntityType
+} from './services/entity-lifecycle';
 
 interface WorkflowConfig {
   type: string;
@@ -25,17 +47,28 @@ interface WorkflowConfig {
   dueDate?: Date;
 }
 
+type DelegationRouting = Awaited<ReturnType<typeof approvalDelegationService.loadRouting>>;
+
 interface ApprovalAction {
   workflowId: string;
   approverId: string;
   action: 'approve' | 'reject' | 'request_info';
   comments?: string;
+  approverRole?: string | null;
+  override?: SodOverride | null; // admin override of separation-of-duties rules, logged with its justification
+  twoFactor?: TwoFactorProof; // required to approve above the approver's two-factor threshold
 }
 
 class WorkflowService {
   // Create new workflow
   async createWorkflow(config: WorkflowConfig): Promise<Workflow> {
     try {
+      // A published definition from the designer takes precedence over the flat workflow rule
+      const definition = await workflowDefinitionService.getActive(config.organizationId, config.type);
+      if (definition) {
+        return await this.createFromDefinition(config, definition);
+      }
+
       // Get workflow rules for organization
       const [rule] = await db
         .select()
@@ -88,15 +121,7 @@ class WorkflowService {
         await this.createApprovalRecords(workflow, rule);
         await this.notifyApprovers(workflow, rule);
       } else {
-        // Notify initiator of auto-approval
-        await this.createNotification({
-          workflowId: workflow.id,
-          recipientId: workflow.initiatorId,
-          type: 'status_change',
-          title: 'Workflow Auto-Approved',
-          message: `Your ${config.type.replace('_', ' ')} request has been automatically approved.`,
-          actionRequired: false
-        });
+        await this.notifyAutoApproved(workflow);
       }
 
       return workflow;
@@ -106,45 +131,279 @@ class WorkflowService {
     }
   }
 
-  // Create approval records based on workflow rules
-  private async createApprovalRecords(workflow: Workflow, rule: any) {
+  // Start a workflow on the definition's current version; the version is pinned to the workflow
+  private async createFromDefinition(config: WorkflowConfig, definition: WorkflowDefinition): Promise<Workflow> {
+    const amount = config.data?.amount;
+    const firstStage = nextStageIndex(definition.stages, config.data);
+    const autoApproved =
+      firstStage === null || Boolean(definition.autoApproveBelow && amount && amount < definition.autoApproveBelow);
+
+    const [workflow] = await db
+      .insert(workflows)
+      .values({
+        id: nanoid(),
+        type: config.type as any,
+        status: autoApproved ? 'approved' : 'pending',
+        organizationId: config.organizationId,
+        initiatorId: config.initiatorId,
+        entityId: config.entityId,
+        entityType: config.entityType,
+        data: config.data,
+        priority: config.priority || 'normal',
+        dueDate: config.dueDate,
+        definitionId: definition.id,
+        definitionVersion: definition.version,
+        currentLevel: (firstStage ?? 0) + 1,
+        maxLevel: definition.stages.length,
+        requiredApprovals: firstStage === null ? 0 : this.approvalsNeeded(definition.stages[firstStage], config.data),
+        completedAt: autoApproved ? new Date() : undefined
+      })
+      .returning();
+
+    if (autoApproved) {
+      await this.notifyAutoApproved(workflow);
+    } else {
+      await this.openStage(workflow, definition.stages[firstStage!], firstStage!);
+    }
+    return workflow;
+  }
+
+  // Create approval records for every active group in the stage and notify its approvers
+  private async openStage(workflow: Workflow, stage: WorkflowStage, stageIndex: number, executor: DbExecutor = db) {
+    const notified = new Set<string>();
+    for (const group of activeGroups(stage, workflow.data)) {
+      for (const approverId of group.approvers) {
+        await executor.insert(workflowApprovals).values({
+          id: nanoid(),
+          workflowId: workflow.id,
+          approverId,
+          level: stageIndex + 1,
+          groupId: group.id
+        });
+        notified.add(approverId);
+      }
+    }
+    const opened = { ...workflow, currentLevel: stageIndex + 1 };
+    await this.notifyUsers(opened, Array.from(notified), executor);
+    await this.routeDelegations(opened, undefined, executor);
+  }
+
+  private approvalsNeeded(stage: WorkflowStage, data: unknown): number {
+    return activeGroups(stage, data).reduce(
+      (total, group) => total + (group.quorum === 'any' ? 1 : group.approvers.length),
+      0
+    );
+  }
+
+  // Create approval records for the workflow's current level from its workflow rule
+  private async createApprovalRecords(workflow: Workflow, rule: any, executor: DbExecutor = db) {
     const approvalMatrix = rule.approvalMatrix as any;
-    const firstLevel = approvalMatrix?.levels?.[0];
+    const level = workflow.currentLevel || 1;
+    const currentLevel = approvalMatrix?.levels?.[level - 1];
     
-    if (!firstLevel) return;
+    if (!currentLevel) return;
 
-    const approvers = firstLevel.approvers || [];
+    const approvers = currentLevel.approvers || [];
     
     for (const approverId of approvers) {
-      await db.insert(workflowApprovals).values({
+      await executor.insert(workflowApprovals).values({
         id: nanoid(),
         workflowId: workflow.id,
         approverId,
-        level: 1
+        level
       });
     }
+    await this.routeDelegations(workflow, undefined, executor);
+  }
+
+  // Hand undecided approvals of anyone out of office or on leave to their delegate, and tell the delegate
+  private async routeDelegations(
+    workflow: Workflow,
+    routing?: DelegationRouting,
+    executor: DbExecutor = db
+  ): Promise<number> {
+    const approvals = await executor
+      .select()
+      .from(workflowApprovals)
+      .where(eq(workflowApprovals.workflowId, workflow.id));
+    const rerouted = await approvalDelegationService.routeApprovals(workflow, approvals, routing, executor);
+    await this.notifyUsers(workflow, rerouted.map((approval) => approval.delegatedTo!), executor);
+    return rerouted.length;
+  }
+
+  // Reroute approvals on open workflows whose approver has since gone away; runs as a recurring job
+  async reroutePendingApprovals(organizationId?: string) {
+    const open = await db
+      .select()
+      .from(workflows)
+      .where(
+        and(
+          inArray(workflows.status, ['pending', 'in_progress']),
+          organizationId ? eq(workflows.organizationId, organizationId) : undefined
+        )
+      );
+
+    const routings = new Map<string, DelegationRouting>();
+    let rerouted = 0;
+    for (const workflow of open) {
+      if (!routings.has(workflow.organizationId)) {
+        routings.set(workflow.organizationId, await approvalDelegationService.loadRouting(workflow.organizationId));
+      }
+      const routing = routings.get(workflow.organizationId)!;
+      if (routing.rules.length > 0) {
+        rerouted += await this.routeDelegations(workflow, routing);
+      }
+    }
+    return { checked: open.length, rerouted };
+  }
+
+  /**
+   * Lifecycle hook for requisitions, purchase orders, contracts, leave, timesheets, cards and grants: call it
+   * after creating one or changing its status. Opens the matching approval workflow when the entity is waiting
+   * on one, and applies an auto-approval straight away. Organizations without a rule or published definition
+   * for the type keep approving these entities by hand.
+   */
+  async syncEntityWorkflow(entityType: LifecycleEntityType, entityId: string, actorId?: string): Promise<Workflow | null> {
+    const lifecycle = lifecycleFor(entityType)!;
+    const subject = await lifecycle.load(entityId);
+    if (!subject) {
+      return null;
+    }
+
+    const [latest] = await db
+      .select()
+      .from(workflows)
+      .where(and(eq(workflows.entityType, entityType), eq(workflows.entityId, entityId)))
+      .orderBy(desc(workflows.createdAt))
+      .limit(1);
+    if (!needsWorkflow(subject, lifecycle.submitted, latest)) {
+      return null;
+    }
+    if (!(await this.hasRouting(subject.organizationId, lifecycle.workflowType))) {
+      return null;
+    }
+
+    const initiatorId = subject.initiatorId ?? actorId;
+    if (!initiatorId) {
+      console.warn(`No initiator for ${entityType} ${entityId}; it waits for manual approval`);
+      return null;
+    }
+
+    try {
+      const workflow = await this.createWorkflow({
+        type: lifecycle.workflowType,
+        entityId,
+        entityType,
+        organizationId: subject.organizationId,
+        initiatorId,
+        data: subject.data,
+        priority: subject.priority,
+        dueDate: subject.dueDate ?? undefined
+      });
+      if (workflow.status === 'approved') {
+        await entityLifecycleService.applyOutcome(workflow, workflow.status, workflow.initiatorId);
+      }
+      return workflow;
+    } catch (error) {
+      console.warn(
+        `${entityType} ${entityId} has no approval workflow and waits for manual approval:`,
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+  }
+
+  // Picks up lifecycle entities submitted outside the app's routes, e.g. by imports or integrations, and
+  // re-applies decisions that never reached their entity, e.g. a card approved while its issuer was down
+  async openEntityWorkflows() {
+    let checked = 0;
+    let opened = 0;
+    let reapplied = 0;
+    for (const entityType of lifecycleEntityTypes) {
+      for (const entityId of await lifecycleFor(entityType)!.pendingIds()) {
+        checked++;
+        if (await this.reapplyOutcome(entityType, entityId)) {
+          reapplied++;
+        } else if (await this.syncEntityWorkflow(entityType, entityId)) {
+          opened++;
+        }
+      }
+    }
+    return { checked, opened, reapplied };
+  }
+
+  private async reapplyOutcome(entityType: LifecycleEntityType, entityId: string): Promise<boolean> {
+    const lifecycle = lifecycleFor(entityType)!;
+    const subject = await lifecycle.load(entityId);
+    if (!subject) {
+      return false;
+    }
+
+    const [latest] = await db
+      .select()
+      .from(workflows)
+      .where(and(eq(workflows.entityType, entityType), eq(workflows.entityId, entityId)))
+      .orderBy(desc(workflows.createdAt))
+      .limit(1);
+    if (!awaitsWriteBack(subject, lifecycle.submitted, latest)) {
+      return false;
+    }
+
+    // Credit whoever made the final decision; auto-approvals fall back to the initiator
+    const [decision] = await db
+      .select({ decidedBy: sql<string>`coalesce(${workflowApprovals.actedBy}, ${workflowApprovals.approverId})` })
+      .from(workflowApprovals)
+      .where(and(eq(workflowApprovals.workflowId, latest.id), isNotNull(workflowApprovals.action)))
+      .orderBy(desc(workflowApprovals.approvedAt))
+      .limit(1);
+
+    try {
+      return await entityLifecycleService.applyOutcome(latest, latest.status, decision?.decidedBy ?? latest.initiatorId);
+    } catch (error) {
+      console.warn(
+        `Could not apply the ${latest.status} decision to ${entityType} ${entityId}:`,
+        error instanceof Error ? error.message : error
+      );
+      return false;
+    }
+  }
+
+  private async hasRouting(organizationId: string, type: Workflow['type']): Promise<boolean> {
+    if (await workflowDefinitionService.getActive(organizationId, type)) {
+      return true;
+    }
+    const [rule] = await db
+      .select({ id: workflowRules.id })
+      .from(workflowRules)
+      .where(and(eq(workflowRules.organizationId, organizationId), eq(workflowRules.type, type), eq(workflowRules.isActive, true)))
+      .limit(1);
+    return !!rule;
   }
 
   // Notify approvers
-  private async notifyApprovers(workflow: Workflow, rule: any) {
+  private async notifyApprovers(workflow: Workflow, rule: any, executor: DbExecutor = db) {
     const approvalMatrix = rule.approvalMatrix as any;
     const level = workflow.currentLevel || 1;
     const currentLevel = approvalMatrix?.levels?.[level - 1];
     
     if (!currentLevel) return;
 
-    const approvers = currentLevel.approvers || [];
-    
+    await this.notifyUsers(workflow, currentLevel.approvers || [], executor);
+  }
+
+  private async notifyUsers(workflow: Workflow, approvers: string[], executor: DbExecutor = db) {
     for (const approverId of approvers) {
+      // Each recipient gets their own single-use link, so email and mobile can act without signing in
+      const token = await workflowActionTokenService.issue(workflow, approverId, workflow.currentLevel || 1, executor);
       await this.createNotification({
         workflowId: workflow.id,
         recipientId: approverId,
         type: 'approval_required',
         title: 'Approval Required',
-        message: `A ${workflow.type.replace('_', ' ')} request requires your approval.`,
+        message: `A ${workflow.type.replace('_', ' ')} request requires your approval. Approve or reject it here: ${actionLink(token)}`,
         actionRequired: true,
         actionUrl: `/workflows/${workflow.id}`
-      });
+      }, executor);
 
       // Send real-time notification
       wsManager.sendToUser(approverId, {
@@ -164,145 +423,196 @@ class WorkflowService {
   // Process approval action
   async processApproval(action: ApprovalAction): Promise<Workflow> {
     try {
-      // Get workflow
-      const [workflow] = await db
-        .select()
-        .from(workflows)
-        .where(eq(workflows.id, action.workflowId))
-        .limit(1);
-
-      if (!workflow) {
-        throw new Error('Workflow not found');
-      }
-
-      if (workflow.status !== 'pending' && workflow.status !== 'in_progress') {
-        throw new Error('Workflow is not in a state that can be approved');
-      }
+      // The decision, the move to the next stage and the entity write-back commit together. Write-backs that
+      // call an outside service (e.g. the card issuer) follow the commit instead, so the issuer being down
+      // can't undo the approver's decision; openEntityWorkflows retries any that don't land.
+      const { workflow, newStatus, externalOutcome } = await db.transaction(async (tx) => {
+        // Get workflow, locked until the decision commits: approvers acting at the same time are taken one by
+        // one, so two parallel-group approvals can't both open the next stage or both mark it approved
+        const [workflow] = await tx
+          .select()
+          .from(workflows)
+          .where(eq(workflows.id, action.workflowId))
+          .limit(1)
+          .for('update');
 
-      // Get approval record
-      const [approval] = await db
-        .select()
-        .from(workflowApprovals)
-        .where(
-          and(
-            eq(workflowApprovals.workflowId, action.workflowId),
-            eq(workflowApprovals.approverId, action.approverId)
-          )
-        )
-        .limit(1);
+        if (!workflow) {
+          throw new LedgerError('Workflow not found', 404);
+        }
 
-      if (!approval) {
-        throw new Error('Approval record not found for this approver');
-      }
+        if (workflow.status !== 'pending' && workflow.status !== 'in_progress') {
+          throw new LedgerError('Workflow is not in a state that can be approved', 409);
+        }
 
-      // Update approval record
-      await db
-        .update(workflowApprovals)
-        .set({
-          action: action.action,
-          comments: action.comments,
-          approvedAt: new Date()
-        })
-        .where(eq(workflowApprovals.id, approval.id));
-
-      // Process based on action
-      let newStatus = workflow.status;
-      
-      if (action.action === 'approve') {
-        // Check if all approvals for current level are complete
-        const levelApprovals = await db
+        // The approver's records at the level being decided, plus any delegated to them
+        const level = workflow.currentLevel || 1;
+        const records = await tx
           .select()
           .from(workflowApprovals)
           .where(
             and(
-              eq(workflowApprovals.workflowId, workflow.id),
-              eq(workflowApprovals.level, workflow.currentLevel || 1)
+              eq(workflowApprovals.workflowId, action.workflowId),
+              eq(workflowApprovals.level, level),
+              or(eq(workflowApprovals.approverId, action.approverId), eq(workflowApprovals.delegatedTo, action.approverId))
             )
           );
 
-        const allApproved = levelApprovals.every(a => a.action === 'approve');
-
-        if (allApproved) {
-          const currentLevel = workflow.currentLevel || 1;
-          const maxLevel = workflow.maxLevel || 1;
-          if (currentLevel < maxLevel) {
-            // Move to next level
-            newStatus = 'in_progress';
-            await db
-              .update(workflows)
-              .set({
-                currentLevel: currentLevel + 1,
-                status: newStatus,
-                updatedAt: new Date()
-              })
-              .where(eq(workflows.id, workflow.id));
-
-            // Create approvals for next level
-            const [rule] = await db
-              .select()
-              .from(workflowRules)
-              .where(
-                and(
-                  eq(workflowRules.organizationId, workflow.organizationId),
-                  eq(workflowRules.type, workflow.type),
-                  eq(workflowRules.isActive, true)
-                )
+        if (records.length === 0) {
+          throw new LedgerError('Approval record not found for this approver', 403);
+        }
+        const onBehalf = records.filter((record) => record.approverId !== action.approverId);
+
+        if (action.action === 'approve' && (await this.requiresTwoFactor(action.approverId, workflow))) {
+          await this.verifyTwoFactor(action.approverId, action.twoFactor);
+        }
+
+        // Separation of duties: no self-approval, a different approver at each level
+        if (action.action === 'approve') {
+          const priorApprovals = await tx
+            .select({
+              approverId: sql<string>`coalesce(${workflowApprovals.actedBy}, ${workflowApprovals.approverId})`,
+              level: workflowApprovals.level
+            })
+            .from(workflowApprovals)
+            .where(and(eq(workflowApprovals.workflowId, workflow.id), eq(workflowApprovals.action, 'approve')));
+          const [payment] = workflow.entityType === 'payment' && workflow.entityId
+            ? await tx.select({ vendorId: payments.vendorId }).from(payments).where(eq(payments.id, workflow.entityId))
+            : [];
+          await separationOfDutiesService.enforce(
+            {
+              organizationId: workflow.organizationId,
+              actorId: action.approverId,
+              action: 'approve',
+              entityType: workflow.entityType || 'workflow',
+              entityId: workflow.entityId || workflow.id,
+              initiatorId: workflow.initiatorId,
+              level,
+              priorApprovals,
+              vendorId: payment?.vendorId ?? (workflow.data as any)?.vendorId,
+            },
+            { actorRole: action.approverRole, override: action.override }
+          );
+        }
+
+        // Update the records at this level: one per parallel group the approver sits in, plus any seat
+        // they cover as a delegate. Seats stay with the original approver so quorum counts are unchanged.
+        await tx
+          .update(workflowApprovals)
+          .set({
+            action: action.action,
+            comments: action.comments,
+            approvedAt: new Date(),
+            actedBy: action.approverId
+          })
+          .where(inArray(workflowApprovals.id, records.map((record) => record.id)));
+        if (onBehalf.length > 0) {
+          await approvalDelegationService.recordActedOnBehalf(workflow, action.approverId, onBehalf, action.action, tx);
+        }
+
+        // Process based on action
+        let status: Workflow['status'] = workflow.status;
+
+        if (action.action === 'approve' && workflow.definitionId) {
+          status = await this.advanceByDefinition(workflow, tx);
+        } else if (action.action === 'approve') {
+          // Check if all approvals for current level are complete
+          const levelApprovals = await tx
+            .select()
+            .from(workflowApprovals)
+            .where(
+              and(
+                eq(workflowApprovals.workflowId, workflow.id),
+                eq(workflowApprovals.level, workflow.currentLevel || 1)
               )
-              .limit(1);
-
-            if (rule) {
-              await this.createApprovalRecords(
-                { ...workflow, currentLevel: currentLevel + 1 },
-                rule
-              );
-              await this.notifyApprovers(
-                { ...workflow, currentLevel: currentLevel + 1 },
-                rule
-              );
+            );
+
+          const allApproved = levelApprovals.every(a => a.action === 'approve');
+
+          if (allApproved) {
+            const currentLevel = workflow.currentLevel || 1;
+            const maxLevel = workflow.maxLevel || 1;
+            if (currentLevel < maxLevel) {
+              // Move to next level
+              status = 'in_progress';
+              await tx
+                .update(workflows)
+                .set({
+                  currentLevel: currentLevel + 1,
+                  status,
+                  updatedAt: new Date()
+                })
+                .where(eq(workflows.id, workflow.id));
+
+              // Create approvals for next level
+              const [rule] = await tx
+                .select()
+                .from(workflowRules)
+                .where(
+                  and(
+                    eq(workflowRules.organizationId, workflow.organizationId),
+                    eq(workflowRules.type, workflow.type),
+                    eq(workflowRules.isActive, true)
+                  )
+                )
+                .limit(1);
+
+              if (rule) {
+                await this.createApprovalRecords(
+                  { ...workflow, currentLevel: currentLevel + 1 },
+                  rule,
+                  tx
+                );
+                await this.notifyApprovers(
+                  { ...workflow, currentLevel: currentLevel + 1 },
+                  rule,
+                  tx
+                );
+              }
+            } else {
+              // All levels complete - approve workflow
+              status = await this.markApproved(workflow, tx);
             }
-          } else {
-            // All levels complete - approve workflow
-            newStatus = 'approved' as any;
-            await db
-              .update(workflows)
-              .set({
-                status: newStatus,
-                completedAt: new Date(),
-                updatedAt: new Date()
-              })
-              .where(eq(workflows.id, workflow.id));
-
-            // Notify initiator
-            await this.createNotification({
-              workflowId: workflow.id,
-              recipientId: workflow.initiatorId,
-              type: 'status_change',
-              title: 'Workflow Approved',
-              message: `Your ${workflow.type.replace('_', ' ')} request has been approved.`,
-              actionRequired: false
-            });
           }
+        } else if (action.action === 'reject') {
+          status = 'rejected' as any;
+          await tx
+            .update(workflows)
+            .set({
+              status,
+              completedAt: new Date(),
+              updatedAt: new Date()
+            })
+            .where(eq(workflows.id, workflow.id));
+
+          // Notify initiator
+          await this.createNotification({
+            workflowId: workflow.id,
+            recipientId: workflow.initiatorId,
+            type: 'status_change',
+            title: 'Workflow Rejected',
+            message: `Your ${workflow.type.replace('_', ' ')} request has been rejected. Reason: ${action.comments || 'No reason provided'}`,
+            actionRequired: false
+          }, tx);
         }
-      } else if (action.action === 'reject') {
-        newStatus = 'rejected' as any;
-        await db
-          .update(workflows)
-          .set({
-            status: newStatus,
-            completedAt: new Date(),
-            updatedAt: new Date()
-          })
-          .where(eq(workflows.id, workflow.id));
 
-        // Notify initiator
-        await this.createNotification({
-          workflowId: workflow.id,
-          recipientId: workflow.initiatorId,
-          type: 'status_change',
-          title: 'Workflow Rejected',
-          message: `Your ${workflow.type.replace('_', ' ')} request has been rejected. Reason: ${action.comments || 'No reason provided'}`,
-          actionRequired: false
-        });
+        // Requisitions, leave, cards and the other lifecycle entities take the workflow's decision as their status
+        const decided = status !== workflow.status && (status === 'approved' || status === 'rejected');
+        const externalOutcome = decided && entityLifecycleService.isExternal(workflow);
+        if (decided && !externalOutcome) {
+          await entityLifecycleService.applyOutcome(workflow, status, action.approverId, tx);
+        }
+        return { workflow, newStatus: status, externalOutcome };
+      });
+
+      if (externalOutcome) {
+        try {
+          await entityLifecycleService.applyOutcome(workflow, newStatus, action.approverId);
+        } catch (error) {
+          console.warn(
+            `The ${newStatus} decision on ${workflow.entityType} ${workflow.entityId} is recorded and will be applied again:`,
+            error instanceof Error ? error.message : error
+          );
+        }
       }
 
       // Send real-time update
@@ -324,9 +634,196 @@ class WorkflowService {
     }
   }
 
+  // Approving is held to the approver's two-factor threshold on the workflow amount
+  async requiresTwoFactor(approverId: string, workflow: Workflow): Promise<boolean> {
+    return twoFactorService.requiresTwoFactor(approverId, 'workflow_approval', workflowAmount(workflow.data) ?? undefined);
+  }
+
+  private async verifyTwoFactor(approverId: string, proof?: TwoFactorProof) {
+    if (!proof?.code) {
+      throw new LedgerError('Two-factor verification required to approve this amount', 403);
+    }
+    let verified = false;
+    try {
+      verified = await twoFactorService.verifyCode({ userId: approverId, code: proof.code, sessionId: proof.sessionId });
+    } catch (error) {
+      throw new LedgerError(error instanceof Error ? error.message : 'Two-factor verification failed', 401);
+    }
+    if (!verified) {
+      throw new LedgerError('Invalid two-factor code', 401);
+    }
+  }
+
+  // What an approval link shows before the approver decides
+  async describeActionLink(token: string) {
+    const link = await workflowActionTokenService.resolve(token);
+    const workflow = await this.loadLinkWorkflow(link);
+    const [initiator] = await db
+      .select({ firstName: users.firstName, lastName: users.lastName, email: users.email })
+      .from(users)
+      .where(eq(users.id, workflow.initiatorId));
+
+    return {
+      workflowId: workflow.id,
+      type: workflow.type,
+      priority: workflow.priority,
+      level: link.level,
+      data: workflow.data,
+      amount: workflowAmount(workflow.data),
+      initiator: initiator
+        ? [initiator.firstName, initiator.lastName].filter(Boolean).join(' ') || initiator.email
+        : null,
+      createdAt: workflow.createdAt,
+      expiresAt: link.expiresAt,
+      requiresTwoFactor: await this.requiresTwoFactor(link.recipientId, workflow)
+    };
+  }
+
+  // Decide through an approval link. The link is claimed first so it can only be spent once, and given
+  // back if processApproval refuses the decision (a missing two-factor code, separation of duties).
+  async redeemActionLink(
+    token: string,
+    decision: { action: 'approve' | 'reject'; comments?: string; twoFactor?: TwoFactorProof }
+  ): Promise<Workflow> {
+    const link = await workflowActionTokenService.resolve(token);
+    await this.loadLinkWorkflow(link);
+    if (!(await workflowActionTokenService.claim(link.id, decision.action))) {
+      throw new LedgerError('This approval link has already been used', 410);
+    }
+
+    try {
+      return await this.processApproval({
+        workflowId: link.workflowId,
+        approverId: link.recipientId,
+        action: decision.action,
+        comments: decision.comments,
+        twoFactor: decision.twoFactor
+      });
+    } catch (error) {
+      await workflowActionTokenService.release(link.id);
+      throw error;
+    }
+  }
+
+  // Send the link's recipient a two-factor code for approving from the link page
+  async sendActionLinkCode(token: string, method: 'sms' | 'email'): Promise<{ sessionId: string }> {
+    const link = await workflowActionTokenService.resolve(token);
+    await this.loadLinkWorkflow(link);
+    try {
+      const session = await twoFactorService.sendVerificationCode({
+        userId: link.recipientId,
+        method,
+        action: 'workflow_approval'
+      });
+      return { sessionId: session.id };
+    } catch (error) {
+      throw new LedgerError(error instanceof Error ? error.message : 'Could not send a verification code', 400);
+    }
+  }
+
+  // A link only acts on the stage it was sent for, and only while its recipient still has a decision to make
+  private async loadLinkWorkflow(link: WorkflowActionToken): Promise<Workflow> {
+    const [workflow] = await db.select().from(workflows).where(eq(workflows.id, link.workflowId));
+    if (!workflow) {
+      throw new LedgerError('Workflow not found', 404);
+    }
+    if (workflow.status !== 'pending' && workflow.status !== 'in_progress') {
+      throw new LedgerError(`This request has already been ${workflow.status}`, 409);
+    }
+    if ((workflow.currentLevel || 1) !== link.level) {
+      throw new LedgerError('This request has moved on to another approval stage', 410);
+    }
+
+    const [open] = await db
+      .select({ id: workflowApprovals.id })
+      .from(workflowApprovals)
+      .where(
+        and(
+          eq(workflowApprovals.workflowId, workflow.id),
+          eq(workflowApprovals.level, link.level),
+          or(eq(workflowApprovals.approverId, link.recipientId), eq(workflowApprovals.delegatedTo, link.recipientId)),
+          isNull(workflowApprovals.action)
+        )
+      )
+      .limit(1);
+    if (!open) {
+      throw new LedgerError('You have already responded to this request', 409);
+    }
+    return workflow;
+  }
+
+  // Move a definition-driven workflow on once the current stage reaches quorum, skipping stages whose
+  // conditions don't hold. Routing always uses the pinned version, even if a newer one is published.
+  private async advanceByDefinition(workflow: Workflow, executor: DbExecutor = db): Promise<Workflow['status']> {
+    const definition = await workflowDefinitionService.getDefinition(workflow.definitionId!, undefined, executor);
+    const stageIndex = (workflow.currentLevel || 1) - 1;
+    const decisions = await executor
+      .select({
+        approverId: workflowApprovals.approverId,
+        groupId: workflowApprovals.groupId,
+        action: workflowApprovals.action
+      })
+      .from(workflowApprovals)
+      .where(and(eq(workflowApprovals.workflowId, workflow.id), eq(workflowApprovals.level, stageIndex + 1)));
+
+    if (stageOutcome(definition.stages[stageIndex], workflow.data, decisions) !== 'approved') {
+      return workflow.status;
+    }
+
+    const next = nextStageIndex(definition.stages, workflow.data, stageIndex);
+    if (next === null) {
+      return this.markApproved(workflow, executor);
+    }
+
+    await executor
+      .update(workflows)
+      .set({
+        currentLevel: next + 1,
+        requiredApprovals: this.approvalsNeeded(definition.stages[next], workflow.data),
+        status: 'in_progress',
+        updatedAt: new Date()
+      })
+      .where(eq(workflows.id, workflow.id));
+    await this.openStage(workflow, definition.stages[next], next, executor);
+    return 'in_progress';
+  }
+
+  private async markApproved(workflow: Workflow, executor: DbExecutor = db): Promise<Workflow['status']> {
+    await executor
+      .update(workflows)
+      .set({
+        status: 'approved',
+        completedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(workflows.id, workflow.id));
+
+    // Notify initiator
+    await this.createNotification({
+      workflowId: workflow.id,
+      recipientId: workflow.initiatorId,
+      type: 'status_change',
+      title: 'Workflow Approved',
+      message: `Your ${workflow.type.replace('_', ' ')} request has been approved.`,
+      actionRequired: false
+    }, executor);
+    return 'approved';
+  }
+
+  private async notifyAutoApproved(workflow: Workflow) {
+    await this.createNotification({
+      workflowId: workflow.id,
+      recipientId: workflow.initiatorId,
+      type: 'status_change',
+      title: 'Workflow Auto-Approved',
+      message: `Your ${workflow.type.replace('_', ' ')} request has been automatically approved.`,
+      actionRequired: false
+    });
+  }
+
   // Create notification
-  private async createNotification(notification: Omit<InsertWorkflowNotification, 'id'>) {
-    await db.insert(workflowNotifications).values({
+  private async createNotification(notification: Omit<InsertWorkflowNotification, 'id'>, executor: DbExecutor = db) {
+    await executor.insert(workflowNotifications).values({
       id: nanoid(),
       ...notification
     });
@@ -356,7 +853,7 @@ class WorkflowService {
       .innerJoin(workflows, eq(workflowApprovals.workflowId, workflows.id))
       .where(
         and(
-          eq(workflowApprovals.approverId, userId),
+          or(eq(workflowApprovals.approverId, userId), eq(workflowApprovals.delegatedTo, userId)),
           eq(workflows.organizationId, organizationId),
           eq(workflows.status, 'pending')
         )
@@ -369,45 +866,60 @@ class WorkflowService {
     };
   }
 
-  // Check for escalations
+  // Check for escalations; runs as a recurring background job, which records any failure
   async checkEscalations() {
-    try {
-      const now = new Date();
-      
-      // Get all pending workflows with escalation rules
-      const pendingWorkflows = await db
-        .select({
-          workflow: workflows,
-          rule: workflowRules
-        })
-        .from(workflows)
-        .innerJoin(
-          workflowRules,
-          and(
-            eq(workflows.organizationId, workflowRules.organizationId),
-            eq(workflows.type, workflowRules.type)
-          )
+    const now = new Date();
+
+    // Workflows under an SLA policy escalate through its tiers as their current stage ages
+    const sla = await workflowSlaService.findDueEscalations(now);
+    let slaEscalations = 0;
+    for (const item of sla.due) {
+      if (await workflowSlaService.recordEscalation(item)) {
+        await this.escalateBySla(item);
+        slaEscalations++;
+      }
+    }
+    
+    // Get all pending workflows with escalation rules
+    const pendingWorkflows = await db
+      .select({
+        workflow: workflows,
+        rule: workflowRules
+      })
+      .from(workflows)
+      .innerJoin(
+        workflowRules,
+        and(
+          eq(workflows.organizationId, workflowRules.organizationId),
+          eq(workflows.type, workflowRules.type)
         )
-        .where(
-          and(
-            eq(workflows.status, 'pending'),
-            gte(workflowRules.escalationDays, 0)
-          )
-        );
-
-      for (const { workflow, rule } of pendingWorkflows) {
-        const daysSinceCreation = Math.floor(
-          (now.getTime() - new Date(workflow.createdAt!).getTime()) / (1000 * 60 * 60 * 24)
-        );
-
-        if (daysSinceCreation >= rule.escalationDays!) {
-          // Escalate workflow
-          await this.escalateWorkflow(workflow, rule);
-        }
+      )
+      .where(
+        and(
+          eq(workflows.status, 'pending'),
+          gte(workflowRules.escalationDays, 0)
+        )
+      );
+
+    // Escalation periods count the organization's business days, so weekends and holidays don't trip them
+    const calendars = new Map<string, BankingCalendar>();
+    let escalated = 0;
+    for (const { workflow, rule } of pendingWorkflows) {
+      if (sla.covered.has(workflow.id)) continue;
+      if (!calendars.has(workflow.organizationId)) {
+        calendars.set(workflow.organizationId, await bankingCalendarService.forOrganization(workflow.organizationId));
+      }
+      const calendar = calendars.get(workflow.organizationId)!;
+      const businessDaysPending = calendar.businessDaysBetween(new Date(workflow.createdAt!), now);
+      const overdue = workflow.dueDate ? calendar.businessDaysBetween(workflow.dueDate, now) > 0 : false;
+
+      if (businessDaysPending >= rule.escalationDays! || overdue) {
+        // Escalate workflow
+        await this.escalateWorkflow(workflow, rule);
+        escalated++;
       }
-    } catch (error) {
-      console.error('Error checking escalations:', error);
     }
+    return { checked: pendingWorkflows.length, escalated, slaEscalations };
   }
 
   // Escalate workflow
@@ -419,36 +931,63 @@ class WorkflowService {
     
     if (nextLevel && nextLevel.approvers) {
       for (const approverId of nextLevel.approvers) {
-        await this.createNotification({
-          workflowId: workflow.id,
-          recipientId: approverId,
-          type: 'escalation',
-          title: 'Workflow Escalated',
-          message: `A ${workflow.type.replace('_', ' ')} request has been escalated and requires immediate attention.`,
-          actionRequired: true,
-          actionUrl: `/workflows/${workflow.id}`
-        });
+        await this.notifyEscalation(
+          workflow,
+          approverId,
+          'Workflow Escalated',
+          `A ${workflow.type.replace('_', ' ')} request has been escalated and requires immediate attention.`
+        );
+      }
+    }
+  }
 
-        // Send real-time notification
-        wsManager.sendToUser(approverId, {
-          type: 'alert',
-          data: {
-            title: 'Workflow Escalated',
-            message: `A ${workflow.type.replace('_', ' ')} request requires immediate attention.`,
-            severity: 'warning',
-            workflowId: workflow.id
-          },
-          userId: approverId,
-          timestamp: Date.now()
-        });
+  // Send one SLA tier: its recipients are alerted and, if the tier says so, the waiting approvers reminded
+  private async escalateBySla({ workflow, policy, level, tier, escalation, ageHours, pendingApprovers }: DueEscalation) {
+    const waited = `${Math.floor(ageHours)} business hours at stage ${level} (target ${policy.targetHours})`;
+    for (const recipientId of escalation.recipients) {
+      await this.notifyEscalation(
+        workflow,
+        recipientId,
+        `Workflow Escalated (Tier ${tier})`,
+        `A ${workflow.type.replace('_', ' ')} request has waited ${waited} and requires immediate attention.`
+      );
+    }
+    if (escalation.remindApprovers) {
+      for (const approverId of pendingApprovers) {
+        await this.notifyEscalation(
+          workflow,
+          approverId,
+          'Approval Overdue',
+          `A ${workflow.type.replace('_', ' ')} request awaiting your approval has waited ${waited}.`
+        );
       }
     }
   }
-}
 
-export const workflowService = new WorkflowService();
+  private async notifyEscalation(workflow: Workflow, recipientId: string, title: string, message: string) {
+    await this.createNotification({
+      workflowId: workflow.id,
+      recipientId,
+      type: 'escalation',
+      title,
+      message,
+      actionRequired: true,
+      actionUrl: `/workflows/${workflow.id}`
+    });
+
+    // Send real-time notification
+    wsManager.sendToUser(recipientId, {
+      type: 'alert',
+      data: {
+        title,
+        message,
+        severity: 'warning',
+        workflowId: workflow.id
+      },
+      userId: recipientId,
+      timestamp: Date.now()
+    });
+  }
+}
 
-// Start escalation checker (runs every hour)
-setInterval(() => {
-  workflowService.checkEscalations();
-}, 60 * 60 * 1000);
\ No newline at end of file
+export const workflowService = new WorkflowService();
\ No newline at end of file
@@ -0,0 +1,148 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  decimal,
+  integer,
+  boolean,
+  pgEnum,
+  index,
+  uniqueIndex,
+  jsonb,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// ========== NACHA ACH ORIGINATION ==========
+
+export const achSecCodeEnum = pgEnum("ach_sec_code", ["PPD", "CCD", "CTX"]);
+export const achFileStatusEnum = pgEnum("ach_file_status", ["generated", "transmitted", "cancelled"]);
+export const achEntrySourceTypeEnum = pgEnum("ach_entry_source_type", ["enhanced_transaction", "payment", "offset"]);
+export const achReturnTypeEnum = pgEnum("ach_return_type", ["return", "notification_of_change"]);
+export const achReturnChannelEnum = pgEnum("ach_return_channel", ["nacha_file", "provider_webhook"]);
+
+// Company/ODFI identity used in file and batch headers
+export const achOriginators = pgTable("ach_originators", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  name: varchar("name").notNull(),
+  companyName: varchar("company_name").notNull(), // batch header, 16 characters
+  companyIdentification: varchar("company_identification").notNull(), // usually 1 + EIN
+  immediateDestination: varchar("immediate_destination").notNull(), // ODFI routing number
+  immediateDestinationName: varchar("immediate_destination_name").notNull(),
+  immediateOrigin: varchar("immediate_origin").notNull(),
+  immediateOriginName: varchar("immediate_origin_name").notNull(),
+  originatingDfi: varchar("originating_dfi").notNull(), // first 8 digits of the ODFI routing number
+  settlementBankAccountId: varchar("settlement_bank_account_id"), // offset entries post here when set
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const achFiles = pgTable("ach_files", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  originatorId: varchar("originator_id").notNull(),
+  fileIdModifier: varchar("file_id_modifier", { length: 1 }).notNull(),
+  fileCreationDate: timestamp("file_creation_date").notNull(),
+  effectiveEntryDate: timestamp("effective_entry_date").notNull(),
+  status: achFileStatusEnum("status").default("generated"),
+  batchCount: integer("batch_count").notNull(),
+  entryAddendaCount: integer("entry_addenda_count").notNull(),
+  entryHash: varchar("entry_hash").notNull(),
+  totalDebit: decimal("total_debit", { precision: 15, scale: 2 }).notNull(),
+  totalCredit: decimal("total_credit", { precision: 15, scale: 2 }).notNull(),
+  content: text("content").notNull(),
+  createdBy: varchar("created_by").notNull(),
+  transmittedAt: timestamp("transmitted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One entry detail record; the trace number ties returns and NOCs back to the source
+export const achEntries = pgTable(
+  "ach_entries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    fileId: varchar("file_id").notNull(),
+    originatorId: varchar("originator_id").notNull(),
+    batchNumber: integer("batch_number").notNull(),
+    traceNumber: varchar("trace_number", { length: 15 }).notNull(),
+    secCode: achSecCodeEnum("sec_code").notNull(),
+    transactionCode: varchar("transaction_code", { length: 2 }).notNull(),
+    sourceType: achEntrySourceTypeEnum("source_type").notNull(),
+    sourceId: varchar("source_id"),
+    receiverBankAccountId: varchar("receiver_bank_account_id"),
+    receiverName: varchar("receiver_name").notNull(),
+    routingNumber: varchar("routing_number", { length: 9 }).notNull(),
+    accountNumberLast4: varchar("account_number_last4", { length: 4 }),
+    amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_ach_entry_trace").on(table.organizationId, table.traceNumber),
+    index("IDX_ach_entry_source").on(table.sourceType, table.sourceId),
+    // A transfer or payment is originated once, even when two files are generated at the same time
+    uniqueIndex("UQ_ach_entry_source")
+      .on(table.organizationId, table.sourceType, table.sourceId)
+      .where(sql`${table.sourceType} <> 'offset'`),
+  ],
+);
+
+// Last trace sequence used per ODFI, so trace numbers stay unique across files and originators
+export const achTraceSequences = pgTable(
+  "ach_trace_sequences",
+  {
+    organizationId: varchar("organization_id").notNull(),
+    originatingDfi: varchar("originating_dfi", { length: 8 }).notNull(),
+    lastSequence: integer("last_sequence").notNull().default(0),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_ach_trace_sequence").on(table.organizationId, table.originatingDfi)],
+);
+
+// Returns (R codes) and notifications of change (C codes) received for originated entries
+export const achReturns = pgTable(
+  "ach_returns",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    type: achReturnTypeEnum("type").notNull(),
+    channel: achReturnChannelEnum("channel").notNull(),
+    reasonCode: varchar("reason_code", { length: 3 }).notNull(),
+    reasonDescription: varchar("reason_description").notNull(),
+    sourceType: achEntrySourceTypeEnum("source_type").notNull(),
+    sourceId: varchar("source_id").notNull(),
+    entryId: varchar("entry_id"), // null when the provider originated the transfer
+    originatorId: varchar("originator_id"),
+    provider: varchar("provider"),
+    traceNumber: varchar("trace_number", { length: 15 }),
+    bankAccountId: varchar("bank_account_id"),
+    amount: decimal("amount", { precision: 15, scale: 2 }),
+    correctedData: varchar("corrected_data"),
+    dateOfDeath: varchar("date_of_death"),
+    appliedChanges: jsonb("applied_changes"), // bank account fields changed by a NOC
+    receivedBy: varchar("received_by").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_ach_return_source").on(table.organizationId, table.sourceType, table.sourceId, table.reasonCode),
+    index("IDX_ach_return_originator").on(table.originatorId),
+  ],
+);
+
+// Insert schemas
+export const insertAchOriginatorSchema = createInsertSchema(achOriginators).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Types
+export type AchOriginator = typeof achOriginators.$inferSelect;
+export type InsertAchOriginator = z.infer<typeof insertAchOriginatorSchema>;
+export type AchFile = typeof achFiles.$inferSelect;
+export type AchEntry = typeof achEntries.$inferSelect;
+export type AchReturn = typeof achReturns.$inferSelect;
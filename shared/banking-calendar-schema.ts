@@ -0,0 +1,43 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// ========== BANKING CALENDAR ==========
+
+// Days an organization is closed on top of weekends and Federal Reserve holidays (stored as midnight UTC)
+export const organizationClosures = pgTable(
+  "organization_closures",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    date: timestamp("date").notNull(),
+    reason: text("reason").notNull(),
+    createdBy: varchar("created_by"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_organization_closure_date").on(table.organizationId, table.date),
+    index("IDX_organization_closure_org").on(table.organizationId),
+  ],
+);
+
+// Insert schemas
+export const insertOrganizationClosureSchema = createInsertSchema(organizationClosures, {
+  date: z.coerce.date(),
+  reason: z.string().min(1).max(200),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Types
+export type OrganizationClosure = typeof organizationClosures.$inferSelect;
+export type InsertOrganizationClosure = z.infer<typeof insertOrganizationClosureSchema>;
@@ -0,0 +1,89 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  decimal,
+  integer,
+  boolean,
+  pgEnum,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// ========== CHECK PRINTING & POSITIVE PAY ==========
+
+export const checkStatusEnum = pgEnum("check_status", ["issued", "printed", "voided", "stopped"]);
+
+// Blank check stock for a bank account; numbers are handed out sequentially from nextNumber
+export const checkStocks = pgTable(
+  "check_stocks",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    bankAccountId: varchar("bank_account_id").notNull(),
+    name: varchar("name").notNull(),
+    startingNumber: integer("starting_number").notNull(),
+    nextNumber: integer("next_number").notNull(),
+    endingNumber: integer("ending_number"), // null for open-ended stock
+    micrFontName: varchar("micr_font_name").default("GnuMICR"), // E-13B font installed on the check printer
+    signatureLine: varchar("signature_line"), // printed under the signature line, e.g. "Authorized Signature"
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_check_stock_bank_account").on(table.bankAccountId)],
+);
+
+export const checks = pgTable(
+  "checks",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    bankAccountId: varchar("bank_account_id").notNull(),
+    checkStockId: varchar("check_stock_id").notNull(),
+    checkNumber: integer("check_number").notNull(),
+    paymentId: varchar("payment_id"),
+    payeeName: varchar("payee_name").notNull(),
+    payeeAddress: text("payee_address"),
+    amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+    issueDate: timestamp("issue_date").notNull(),
+    memo: varchar("memo"),
+    status: checkStatusEnum("status").default("issued"),
+    printCount: integer("print_count").default(0),
+    printedAt: timestamp("printed_at"),
+    voidedAt: timestamp("voided_at"),
+    voidedBy: varchar("voided_by"),
+    voidReason: text("void_reason"),
+    stoppedAt: timestamp("stopped_at"),
+    stoppedBy: varchar("stopped_by"),
+    stopReason: text("stop_reason"),
+    reissuedFromId: varchar("reissued_from_id"),
+    issueExportedAt: timestamp("issue_exported_at"), // sent to the bank on a positive pay issue file
+    voidExportedAt: timestamp("void_exported_at"), // void/stop sent to the bank
+    createdBy: varchar("created_by").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_check_number").on(table.bankAccountId, table.checkNumber),
+    index("IDX_check_payment").on(table.paymentId),
+  ],
+);
+
+// Insert schemas
+export const insertCheckStockSchema = createInsertSchema(checkStocks).omit({
+  id: true,
+  nextNumber: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Types
+export type CheckStock = typeof checkStocks.$inferSelect;
+export type InsertCheckStock = z.infer<typeof insertCheckStockSchema>;
+export type Check = typeof checks.$inferSelect;
+export type CheckStatus = Check["status"];
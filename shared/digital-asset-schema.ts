@@ -0,0 +1,196 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  decimal,
+  integer,
+  jsonb,
+  pgEnum,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// ========== DIGITAL ASSET TREASURY ==========
+
+export const digitalAssetProviders = ["circle", "coinbase"] as const;
+
+export const digitalAssetAddressStatusEnum = pgEnum("digital_asset_address_status", ["active", "blocked", "revoked"]);
+export const digitalAssetTransferKindEnum = pgEnum("digital_asset_transfer_kind", ["payment", "conversion"]);
+export const digitalAssetTransferStatusEnum = pgEnum("digital_asset_transfer_status", [
+  "pending_approval",
+  "approved",
+  "executing",
+  "completed",
+  "failed",
+  "rejected",
+]);
+
+// Organization-wide treasury policy; organizations without a row get the defaults
+export const digitalAssetPolicies = pgTable("digital_asset_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().unique(),
+  coolingOffHours: integer("cooling_off_hours").notNull().default(48), // before a new address can receive funds
+  requiredApprovals: integer("required_approvals").notNull().default(2), // distinct approvers, never the requester
+  updatedBy: varchar("updated_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Per-asset cap on outflows requested in one UTC day, in asset units
+export const digitalAssetLimits = pgTable(
+  "digital_asset_limits",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    asset: varchar("asset", { length: 10 }).notNull(),
+    dailyLimit: decimal("daily_limit", { precision: 24, scale: 8 }).notNull(),
+    updatedBy: varchar("updated_by"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_digital_asset_limit").on(table.organizationId, table.asset)],
+);
+
+// Whitelisted destinations; only active addresses past availableAt can receive outflows
+export const digitalAssetAddresses = pgTable(
+  "digital_asset_addresses",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    label: varchar("label").notNull(),
+    asset: varchar("asset", { length: 10 }).notNull(),
+    network: varchar("network"),
+    address: varchar("address").notNull(),
+    status: digitalAssetAddressStatusEnum("status").notNull().default("active"),
+    availableAt: timestamp("available_at").notNull(), // end of the cooling-off period
+    screening: jsonb("screening"), // latest result per compliance provider
+    screenedAt: timestamp("screened_at"),
+    addedBy: varchar("added_by").notNull(),
+    revokedBy: varchar("revoked_by"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_digital_asset_address").on(table.organizationId, table.asset, table.address)],
+);
+
+// A requested outflow: a payment to a whitelisted address or a conversion between assets
+export const digitalAssetTransfers = pgTable(
+  "digital_asset_transfers",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    kind: digitalAssetTransferKindEnum("kind").notNull(),
+    provider: varchar("provider").notNull(),
+    asset: varchar("asset", { length: 10 }).notNull(),
+    amount: decimal("amount", { precision: 24, scale: 8 }).notNull(), // asset units leaving the treasury
+    toAsset: varchar("to_asset", { length: 10 }), // conversions only
+    receivedAmount: decimal("received_amount", { precision: 24, scale: 8 }), // conversions only, once executed
+    addressId: varchar("address_id"), // payments only
+    description: text("description"),
+    status: digitalAssetTransferStatusEnum("status").notNull().default("pending_approval"),
+    workflowId: varchar("workflow_id"),
+    price: decimal("price", { precision: 18, scale: 8 }), // asset price in base currency when executed
+    proceeds: decimal("proceeds", { precision: 15, scale: 2 }), // base-currency value disposed of
+    costBasis: decimal("cost_basis", { precision: 15, scale: 2 }), // FIFO cost of the lots consumed
+    realizedGainLoss: decimal("realized_gain_loss", { precision: 15, scale: 2 }),
+    providerTransactionId: varchar("provider_transaction_id"),
+    error: text("error"),
+    requestedBy: varchar("requested_by").notNull(),
+    executedAt: timestamp("executed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_digital_asset_transfer_org").on(table.organizationId, table.asset, table.createdAt),
+    index("IDX_digital_asset_transfer_status").on(table.status),
+  ],
+);
+
+// Acquisition lots for cost-basis tracking; disposals consume them first in, first out
+export const digitalAssetLots = pgTable(
+  "digital_asset_lots",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    asset: varchar("asset", { length: 10 }).notNull(),
+    quantity: decimal("quantity", { precision: 24, scale: 8 }).notNull(),
+    remainingQuantity: decimal("remaining_quantity", { precision: 24, scale: 8 }).notNull(),
+    unitCost: decimal("unit_cost", { precision: 18, scale: 8 }).notNull(), // base currency per unit
+    acquiredAt: timestamp("acquired_at").notNull(),
+    sourceTransferId: varchar("source_transfer_id"), // conversion that produced the lot
+    notes: text("notes"),
+    createdBy: varchar("created_by").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_digital_asset_lot_fifo").on(table.organizationId, table.asset, table.acquiredAt)],
+);
+
+const assetCode = z.string().regex(/^[A-Za-z0-9]{2,10}$/).transform((code) => code.toUpperCase());
+const positiveQuantity = z.coerce.number().positive().transform((value) => value.toString());
+
+// Insert schemas
+export const digitalAssetPolicySchema = z.object({
+  coolingOffHours: z.coerce.number().int().min(0).max(24 * 30),
+  requiredApprovals: z.coerce.number().int().min(2).max(10),
+});
+
+export const insertDigitalAssetAddressSchema = createInsertSchema(digitalAssetAddresses, {
+  label: z.string().min(1),
+  asset: assetCode,
+  address: z.string().trim().min(20).max(128),
+}).pick({
+  organizationId: true,
+  label: true,
+  asset: true,
+  network: true,
+  address: true,
+  addedBy: true,
+});
+
+export const insertDigitalAssetLotSchema = createInsertSchema(digitalAssetLots, {
+  asset: assetCode,
+  quantity: positiveQuantity,
+  unitCost: z.coerce.number().min(0).transform((value) => value.toString()),
+  acquiredAt: z.coerce.date(),
+}).pick({
+  organizationId: true,
+  asset: true,
+  quantity: true,
+  unitCost: true,
+  acquiredAt: true,
+  notes: true,
+  createdBy: true,
+});
+
+export const digitalAssetTransferRequestSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("payment"),
+    provider: z.enum(digitalAssetProviders),
+    asset: assetCode,
+    amount: positiveQuantity,
+    addressId: z.string().min(1),
+    description: z.string().optional(),
+  }),
+  z.object({
+    kind: z.literal("conversion"),
+    provider: z.literal("coinbase"),
+    asset: assetCode,
+    toAsset: assetCode,
+    amount: positiveQuantity,
+    description: z.string().optional(),
+  }),
+]);
+
+// Types
+export type DigitalAssetPolicy = typeof digitalAssetPolicies.$inferSelect;
+export type DigitalAssetLimit = typeof digitalAssetLimits.$inferSelect;
+export type DigitalAssetAddress = typeof digitalAssetAddresses.$inferSelect;
+export type InsertDigitalAssetAddress = z.infer<typeof insertDigitalAssetAddressSchema>;
+export type DigitalAssetTransfer = typeof digitalAssetTransfers.$inferSelect;
+export type DigitalAssetTransferRequest = z.infer<typeof digitalAssetTransferRequestSchema>;
+export type DigitalAssetLot = typeof digitalAssetLots.$inferSelect;
+export type InsertDigitalAssetLot = z.infer<typeof insertDigitalAssetLotSchema>;
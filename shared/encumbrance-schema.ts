@@ -0,0 +1,62 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  timestamp,
+  decimal,
+  pgEnum,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+// ========== BUDGETARY CONTROL ==========
+
+// Requisitions pre-encumber a budget line; purchase orders and contracts encumber it
+export const encumbranceTypeEnum = pgEnum("encumbrance_type", ["pre_encumbrance", "encumbrance"]);
+export const encumbranceSourceTypeEnum = pgEnum("encumbrance_source_type", [
+  "purchase_requisition",
+  "purchase_order",
+  "contract",
+]);
+// converted: a pre-encumbrance superseded by its purchase order's encumbrance
+export const encumbranceStatusEnum = pgEnum("encumbrance_status", [
+  "open",
+  "converted",
+  "liquidated",
+  "released",
+]);
+
+export const encumbrances = pgTable(
+  "encumbrances",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    budgetCategoryId: varchar("budget_category_id").notNull(),
+    type: encumbranceTypeEnum("type").notNull(),
+    sourceType: encumbranceSourceTypeEnum("source_type").notNull(),
+    sourceId: varchar("source_id").notNull(),
+    amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+    liquidatedAmount: decimal("liquidated_amount", { precision: 15, scale: 2 }).default("0"),
+    status: encumbranceStatusEnum("status").default("open"),
+    convertedToId: varchar("converted_to_id"), // encumbrance that replaced this pre-encumbrance
+    createdBy: varchar("created_by").notNull(),
+    closedAt: timestamp("closed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_encumbrance_source").on(table.sourceType, table.sourceId)],
+);
+
+// Portion of an encumbrance relieved by a payment; reversed when the payment is cancelled or fails
+export const encumbranceLiquidations = pgTable("encumbrance_liquidations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  encumbranceId: varchar("encumbrance_id").notNull(),
+  paymentId: varchar("payment_id").notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  reversedAt: timestamp("reversed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Types
+export type Encumbrance = typeof encumbrances.$inferSelect;
+export type EncumbranceSourceType = Encumbrance["sourceType"];
+export type EncumbranceLiquidation = typeof encumbranceLiquidations.$inferSelect;
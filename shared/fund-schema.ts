@@ -0,0 +1,84 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  decimal,
+  boolean,
+  pgEnum,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// ========== FUND ACCOUNTING ==========
+
+// GASB fund categories
+export const fundTypeEnum = pgEnum("fund_type", [
+  "general",
+  "special_revenue",
+  "capital_projects",
+  "enterprise",
+  "fiduciary",
+]);
+export const interfundTransferStatusEnum = pgEnum("interfund_transfer_status", [
+  "pending",
+  "settled",
+  "cancelled",
+]);
+
+export const funds = pgTable(
+  "funds",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    code: varchar("code").notNull(), // e.g. 100 General, 200 Special Revenue
+    name: varchar("name").notNull(),
+    type: fundTypeEnum("type").notNull(),
+    description: text("description"),
+    isMajor: boolean("is_major").default(false), // reported in its own column under GASB 34
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_fund_org_code").on(table.organizationId, table.code)],
+);
+
+// Transfers between funds; pending transfers carry due-to/due-from balances until settled
+export const interfundTransfers = pgTable("interfund_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  fromFundId: varchar("from_fund_id").notNull(),
+  toFundId: varchar("to_fund_id").notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  description: text("description"),
+  transferDate: timestamp("transfer_date").notNull(),
+  status: interfundTransferStatusEnum("status").default("pending"),
+  settledAt: timestamp("settled_at"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Insert schemas
+export const insertFundSchema = createInsertSchema(funds).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertInterfundTransferSchema = createInsertSchema(interfundTransfers).omit({
+  id: true,
+  status: true,
+  settledAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Types
+export type Fund = typeof funds.$inferSelect;
+export type InsertFund = z.infer<typeof insertFundSchema>;
+export type FundType = Fund["type"];
+export type InterfundTransfer = typeof interfundTransfers.$inferSelect;
+export type InsertInterfundTransfer = z.infer<typeof insertInterfundTransferSchema>;
@@ -0,0 +1,84 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  timestamp,
+  decimal,
+  pgEnum,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// ========== FOREIGN EXCHANGE ==========
+
+export const fxRateSourceEnum = pgEnum("fx_rate_source", ["manual", "import", "provider"]);
+export const fxRevaluationAccountTypeEnum = pgEnum("fx_revaluation_account_type", ["digital_wallet", "bank_account"]);
+
+// Daily rates: one unit of fromCurrency buys `rate` units of toCurrency. Digital-asset prices
+// (BTC/USD, USDC/USD) are kept here too, so codes run up to 10 characters
+export const fxRates = pgTable(
+  "fx_rates",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    fromCurrency: varchar("from_currency", { length: 10 }).notNull(),
+    toCurrency: varchar("to_currency", { length: 10 }).notNull(),
+    rate: decimal("rate", { precision: 18, scale: 8 }).notNull(),
+    rateDate: timestamp("rate_date").notNull(), // midnight UTC of the day the rate applies from
+    source: fxRateSourceEnum("source").default("manual"),
+    createdBy: varchar("created_by"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_fx_rate_pair_date").on(table.organizationId, table.fromCurrency, table.toCurrency, table.rateDate),
+    index("IDX_fx_rate_lookup").on(table.organizationId, table.fromCurrency, table.toCurrency),
+  ],
+);
+
+// Month-end revaluation of a foreign-currency wallet or bank account into the base currency
+export const fxRevaluations = pgTable(
+  "fx_revaluations",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    accountType: fxRevaluationAccountTypeEnum("account_type").notNull(),
+    accountId: varchar("account_id").notNull(),
+    asOf: timestamp("as_of").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
+    baseCurrency: varchar("base_currency", { length: 3 }).notNull(),
+    foreignBalance: decimal("foreign_balance", { precision: 15, scale: 2 }).notNull(),
+    rate: decimal("rate", { precision: 18, scale: 8 }).notNull(),
+    previousRate: decimal("previous_rate", { precision: 18, scale: 8 }), // null for an account's first revaluation
+    baseValue: decimal("base_value", { precision: 15, scale: 2 }).notNull(),
+    unrealizedGainLoss: decimal("unrealized_gain_loss", { precision: 15, scale: 2 }).notNull(), // positive is a gain
+    journalEntryId: varchar("journal_entry_id"),
+    createdBy: varchar("created_by").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_fx_revaluation_account_date").on(table.accountType, table.accountId, table.asOf),
+    index("IDX_fx_revaluation_org").on(table.organizationId, table.asOf),
+  ],
+);
+
+const currencyCode = z.string().regex(/^[A-Za-z0-9]{3,10}$/).transform((code) => code.toUpperCase());
+
+// Insert schemas
+export const insertFxRateSchema = createInsertSchema(fxRates, {
+  fromCurrency: currencyCode,
+  toCurrency: currencyCode,
+  rate: z.coerce.number().positive().transform((value) => value.toString()),
+  rateDate: z.coerce.date(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Types
+export type FxRate = typeof fxRates.$inferSelect;
+export type InsertFxRate = z.infer<typeof insertFxRateSchema>;
+export type FxRevaluation = typeof fxRevaluations.$inferSelect;
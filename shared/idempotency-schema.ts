@@ -0,0 +1,40 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  timestamp,
+  integer,
+  jsonb,
+  pgEnum,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+// ========== IDEMPOTENCY KEYS ==========
+
+export const idempotencyStatusEnum = pgEnum("idempotency_status", ["in_progress", "completed"]);
+
+// One row per Idempotency-Key; the first request claims it and its response is replayed to any retry
+export const idempotencyKeys = pgTable(
+  "idempotency_keys",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    scope: varchar("scope").notNull(), // user id, or "public" for unauthenticated endpoints
+    key: varchar("key", { length: 255 }).notNull(),
+    requestPath: varchar("request_path").notNull(),
+    requestFingerprint: varchar("request_fingerprint").notNull(), // sha256 of method, path and canonical body
+    status: idempotencyStatusEnum("status").default("in_progress"),
+    responseStatus: integer("response_status"),
+    responseBody: jsonb("response_body"),
+    createdAt: timestamp("created_at").defaultNow(),
+    completedAt: timestamp("completed_at"),
+    expiresAt: timestamp("expires_at").notNull(),
+  },
+  (table) => [
+    uniqueIndex("UQ_idempotency_key").on(table.scope, table.key),
+    index("IDX_idempotency_expires").on(table.expiresAt),
+  ],
+);
+
+// Types
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
@@ -0,0 +1,74 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  integer,
+  boolean,
+  jsonb,
+  pgEnum,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+// ========== BACKGROUND JOBS ==========
+
+// "dead" is the dead letter state: the job used up its attempts and waits for an admin to retry it
+export const jobStatusEnum = pgEnum("job_status", ["queued", "running", "completed", "dead", "cancelled"]);
+
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id"), // null for system-wide maintenance jobs
+    type: varchar("type").notNull(),
+    payload: jsonb("payload").notNull().default({}),
+    status: jobStatusEnum("status").default("queued"),
+    priority: integer("priority").default(0), // higher runs first among due jobs
+    attempts: integer("attempts").default(0),
+    maxAttempts: integer("max_attempts").default(5),
+    runAt: timestamp("run_at").defaultNow(), // earliest start; pushed back by retry backoff
+    lockedBy: varchar("locked_by"),
+    lockedAt: timestamp("locked_at"),
+    progress: integer("progress").default(0), // percent
+    progressMessage: text("progress_message"),
+    result: jsonb("result"),
+    lastError: text("last_error"),
+    scheduleName: varchar("schedule_name"), // set when enqueued by a recurring schedule
+    createdBy: varchar("created_by"),
+    createdAt: timestamp("created_at").defaultNow(),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_job_due").on(table.status, table.runAt),
+    index("IDX_job_org").on(table.organizationId, table.createdAt),
+  ],
+);
+
+// Recurring jobs; the worker enqueues one run each time nextRunAt passes
+export const jobSchedules = pgTable(
+  "job_schedules",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    name: varchar("name").notNull(),
+    type: varchar("type").notNull(),
+    payload: jsonb("payload").notNull().default({}),
+    intervalSeconds: integer("interval_seconds").notNull(),
+    nextRunAt: timestamp("next_run_at").notNull(),
+    lastRunAt: timestamp("last_run_at"),
+    lastJobId: varchar("last_job_id"),
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_job_schedule_name").on(table.name)],
+);
+
+// Types
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+export type JobStatus = NonNullable<Job["status"]>;
+export type JobSchedule = typeof jobSchedules.$inferSelect;
@@ -0,0 +1,180 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  decimal,
+  integer,
+  boolean,
+  pgEnum,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// ========== GENERAL LEDGER ==========
+
+export const ledgerAccountTypeEnum = pgEnum("ledger_account_type", [
+  "asset",
+  "liability",
+  "net_position",
+  "revenue",
+  "expenditure",
+]);
+export const normalBalanceEnum = pgEnum("normal_balance", ["debit", "credit"]);
+// soft_closed periods only accept adjusting entries; hard_closed periods accept nothing
+export const postingPeriodStatusEnum = pgEnum("posting_period_status", [
+  "open",
+  "soft_closed",
+  "hard_closed",
+]);
+export const journalEntryStatusEnum = pgEnum("journal_entry_status", ["posted", "reversed"]);
+
+// Chart of accounts, one per organization
+export const ledgerAccounts = pgTable(
+  "ledger_accounts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    code: varchar("code").notNull(), // e.g. 1000, 2000, 5100
+    name: varchar("name").notNull(),
+    type: ledgerAccountTypeEnum("type").notNull(),
+    normalBalance: normalBalanceEnum("normal_balance").notNull(),
+    parentAccountId: varchar("parent_account_id"),
+    description: text("description"),
+    isSystem: boolean("is_system").default(false), // seeded accounts used by automatic postings
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_ledger_account_org_code").on(table.organizationId, table.code)],
+);
+
+// Fiscal years per organization; closing a year closes all of its periods
+export const fiscalYears = pgTable(
+  "fiscal_years",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    fiscalYear: integer("fiscal_year").notNull(), // year the fiscal year ends in, e.g. FY2025 = Jul 2024 - Jun 2025
+    name: varchar("name").notNull(),
+    startDate: timestamp("start_date").notNull(),
+    endDate: timestamp("end_date").notNull(),
+    status: postingPeriodStatusEnum("status").default("open"),
+    closedAt: timestamp("closed_at"),
+    closedBy: varchar("closed_by"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_fiscal_year_org_year").on(table.organizationId, table.fiscalYear)],
+);
+
+// Accounting periods that journal entries are posted into
+export const postingPeriods = pgTable(
+  "posting_periods",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    fiscalYearId: varchar("fiscal_year_id"), // null for periods opened automatically outside a defined fiscal year
+    name: varchar("name").notNull(), // e.g. 2025-03
+    fiscalYear: integer("fiscal_year").notNull(),
+    periodNumber: integer("period_number").notNull(),
+    startDate: timestamp("start_date").notNull(),
+    endDate: timestamp("end_date").notNull(),
+    status: postingPeriodStatusEnum("status").default("open"),
+    closedAt: timestamp("closed_at"),
+    closedBy: varchar("closed_by"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  // One period per month: postings that open the same month at the same time share it
+  (table) => [uniqueIndex("UQ_posting_period_org_start").on(table.organizationId, table.startDate)],
+);
+
+// Journal entry headers
+export const journalEntries = pgTable(
+  "journal_entries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    entryNumber: varchar("entry_number").notNull(),
+    entryDate: timestamp("entry_date").notNull(),
+    postingPeriodId: varchar("posting_period_id").notNull(),
+    description: text("description"),
+    sourceType: varchar("source_type"), // payment, expense, transaction, enhanced_transaction, manual
+    sourceId: varchar("source_id"),
+    status: journalEntryStatusEnum("status").default("posted"),
+    reversalOfEntryId: varchar("reversal_of_entry_id"),
+    createdBy: varchar("created_by").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_journal_entry_source").on(table.sourceType, table.sourceId)],
+);
+
+// Journal entry lines; each entry's debits must equal its credits within every fund
+export const journalLines = pgTable(
+  "journal_lines",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    journalEntryId: varchar("journal_entry_id").notNull(),
+    organizationId: varchar("organization_id").notNull(),
+    accountId: varchar("account_id").notNull(),
+    fundId: varchar("fund_id").notNull(), // every line belongs to exactly one fund (see fund-schema)
+    lineNumber: integer("line_number").notNull(),
+    debit: decimal("debit", { precision: 15, scale: 2 }).default("0"),
+    credit: decimal("credit", { precision: 15, scale: 2 }).default("0"),
+    memo: text("memo"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_journal_line_account").on(table.accountId),
+    index("IDX_journal_line_fund").on(table.fundId),
+  ],
+);
+
+// Insert schemas
+export const insertFiscalYearSchema = createInsertSchema(fiscalYears).omit({
+  id: true,
+  status: true,
+  closedAt: true,
+  closedBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertLedgerAccountSchema = createInsertSchema(ledgerAccounts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPostingPeriodSchema = createInsertSchema(postingPeriods).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertJournalEntrySchema = createInsertSchema(journalEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertJournalLineSchema = createInsertSchema(journalLines).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Types
+export type FiscalYear = typeof fiscalYears.$inferSelect;
+export type InsertFiscalYear = z.infer<typeof insertFiscalYearSchema>;
+export type PeriodStatus = NonNullable<FiscalYear["status"]>;
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type InsertLedgerAccount = z.infer<typeof insertLedgerAccountSchema>;
+export type PostingPeriod = typeof postingPeriods.$inferSelect;
+export type InsertPostingPeriod = z.infer<typeof insertPostingPeriodSchema>;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type JournalLine = typeof journalLines.$inferSelect;
+export type InsertJournalLine = z.infer<typeof insertJournalLineSchema>;
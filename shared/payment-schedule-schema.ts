@@ -0,0 +1,121 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  decimal,
+  integer,
+  pgEnum,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { paymentRails } from "./routing-schema";
+
+// ========== SCHEDULED PAYMENTS ==========
+
+export const paymentScheduleFrequencyEnum = pgEnum("payment_schedule_frequency", ["once", "daily", "weekly", "monthly", "yearly"]);
+export const paymentScheduleStatusEnum = pgEnum("payment_schedule_status", ["active", "paused", "completed", "cancelled"]);
+// What to do when an occurrence lands on a weekend or bank holiday
+export const businessDayRollEnum = pgEnum("business_day_roll", ["following", "modified_following", "preceding", "none"]);
+export const scheduledPaymentStatusEnum = pgEnum("scheduled_payment_status", [
+  "awaiting_approval",
+  "approved",
+  "executed",
+  "failed",
+  "rejected",
+]);
+
+// A payment to make once or on a cadence (every `interval` days/weeks/months/years from startDate)
+export const paymentSchedules = pgTable(
+  "payment_schedules",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    createdBy: varchar("created_by").notNull(),
+    description: text("description"),
+    amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+    currency: varchar("currency", { length: 3 }).default("USD"),
+    paymentType: varchar("payment_type").notNull().default("vendor"), // payment_type of each occurrence's payment
+    rail: varchar("rail").notNull().default("ach"),
+    provider: varchar("provider"), // null lets the router choose for each occurrence
+    vendorId: varchar("vendor_id"),
+    payeeBankAccountId: varchar("payee_bank_account_id"),
+    recipientAccount: varchar("recipient_account"),
+    fundId: varchar("fund_id"),
+    budgetCategoryId: varchar("budget_category_id"),
+    frequency: paymentScheduleFrequencyEnum("frequency").notNull().default("once"),
+    interval: integer("interval").notNull().default(1),
+    byMonthDay: integer("by_month_day"), // monthly/yearly day of month; 31 means the last day of shorter months
+    startDate: timestamp("start_date").notNull(),
+    endDate: timestamp("end_date"), // no occurrence is scheduled after this date
+    maxOccurrences: integer("max_occurrences"),
+    occurrenceCount: integer("occurrence_count").notNull().default(0),
+    nextOccurrenceDate: timestamp("next_occurrence_date"), // nominal date before any business-day roll; null when finished
+    businessDayRoll: businessDayRollEnum("business_day_roll").default("following"),
+    approvalLeadDays: integer("approval_lead_days").notNull().default(3), // occurrences are raised this many days early for approval
+    status: paymentScheduleStatusEnum("status").default("active"),
+    twoFactorVerifiedAt: timestamp("two_factor_verified_at"), // creator passed 2FA for an amount above the threshold
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_payment_schedule_due").on(table.status, table.nextOccurrenceDate),
+    index("IDX_payment_schedule_org").on(table.organizationId),
+  ],
+);
+
+// One row per occurrence, linked to the payment raised for it
+export const scheduledPayments = pgTable(
+  "scheduled_payments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    scheduleId: varchar("schedule_id").notNull(),
+    organizationId: varchar("organization_id").notNull(),
+    occurrenceNumber: integer("occurrence_number").notNull(), // 1-based
+    scheduledDate: timestamp("scheduled_date").notNull(), // nominal date from the cadence
+    executionDate: timestamp("execution_date").notNull(), // after rolling off weekends and holidays
+    paymentId: varchar("payment_id").notNull(),
+    workflowId: varchar("workflow_id"),
+    status: scheduledPaymentStatusEnum("status").default("awaiting_approval"),
+    provider: varchar("provider"),
+    providerTransactionId: varchar("provider_transaction_id"),
+    error: text("error"),
+    executedAt: timestamp("executed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_scheduled_payment_occurrence").on(table.scheduleId, table.occurrenceNumber),
+    index("IDX_scheduled_payment_status").on(table.status, table.executionDate),
+  ],
+);
+
+// Insert schemas
+export const insertPaymentScheduleSchema = createInsertSchema(paymentSchedules, {
+  amount: z.coerce.number().positive().transform((value) => value.toFixed(2)),
+  currency: z.string().length(3).transform((code) => code.toUpperCase()).optional(),
+  rail: z.enum(paymentRails),
+  interval: z.number().int().min(1).max(366).optional(),
+  byMonthDay: z.number().int().min(1).max(31).nullable().optional(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable().optional(),
+  maxOccurrences: z.number().int().positive().nullable().optional(),
+  approvalLeadDays: z.number().int().min(0).max(60).optional(),
+}).omit({
+  id: true,
+  occurrenceCount: true,
+  nextOccurrenceDate: true,
+  status: true,
+  twoFactorVerifiedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Types
+export type PaymentSchedule = typeof paymentSchedules.$inferSelect;
+export type InsertPaymentSchedule = z.infer<typeof insertPaymentScheduleSchema>;
+export type ScheduledPayment = typeof scheduledPayments.$inferSelect;
+export type PaymentScheduleFrequency = NonNullable<PaymentSchedule["frequency"]>;
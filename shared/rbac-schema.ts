@@ -0,0 +1,156 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  jsonb,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// ========== ROLES AND PERMISSIONS ==========
+
+// Every resource and the actions that can be granted on it
+export const PERMISSION_CATALOG = {
+  budgets: ["read", "create"],
+  vendors: ["read", "create"],
+  payments: ["read", "create", "approve", "process"],
+  expenses: ["read", "create", "approve"],
+  transactions: ["import"],
+  wallets: ["read", "create"],
+  ach: ["read", "create", "approve", "transmit", "returns", "configure"],
+  cards: ["read", "issue", "manage"],
+  direct_deposits: ["read", "transfer"],
+  reconciliation: ["import", "match", "configure"],
+  fiscal_periods: ["manage"],
+  encumbrances: ["create", "release"],
+  digital_assets: ["configure", "record", "execute"],
+  funds: ["create", "transfer"],
+  checks: ["configure", "issue", "print", "manage", "positive_pay"],
+  fx: ["manage_rates", "revalue"],
+  routing: ["read", "manage"],
+  payment_schedules: ["read", "create", "manage"],
+  banking_calendar: ["manage"],
+  jobs: ["read", "manage"],
+  webhooks: ["read", "replay"],
+  analytics: ["read"],
+  employees: ["read", "import"],
+  integrations: ["read", "manage"],
+  workflows: ["read", "design", "delegate"],
+  separation_of_duties: ["read", "override"],
+  roles: ["read", "manage"],
+} as const;
+
+export type PermissionResource = keyof typeof PERMISSION_CATALOG;
+export type PermissionAction = (typeof PERMISSION_CATALOG)[PermissionResource][number];
+
+// own: records the user created; department: records created by anyone in the user's department
+export const permissionScopes = ["own", "department", "organization"] as const;
+export type PermissionScope = (typeof permissionScopes)[number];
+
+// Grants are "resource:action:scope" strings; "*" matches any resource or action
+export const permissionGrantPattern = /^([a-z_]+|\*):([a-z_]+|\*):(own|department|organization)$/;
+
+// Built-in roles every organization has; users.role holds one of these keys or a custom role's key
+export const SYSTEM_ROLES: Record<string, { name: string; description: string; permissions: string[] }> = {
+  admin: {
+    name: "Administrator",
+    description: "Full access, including role management and separation-of-duties overrides",
+    permissions: ["*:*:organization"],
+  },
+  manager: {
+    name: "Manager",
+    description: "Everything staff can do, plus approving payments, expenses and ACH transfers, sending ACH files, reconciling, encumbering funds, transferring between funds and issuing checks",
+    permissions: [
+      "budgets:*:organization",
+      "vendors:*:organization",
+      "payments:read:organization",
+      "payments:create:organization",
+      "payments:approve:organization",
+      "expenses:*:organization",
+      "transactions:import:organization",
+      "wallets:*:organization",
+      "ach:read:organization",
+      "ach:create:organization",
+      "ach:approve:organization",
+      "ach:transmit:organization",
+      "ach:returns:organization",
+      "reconciliation:import:organization",
+      "reconciliation:match:organization",
+      "encumbrances:*:organization",
+      "funds:transfer:organization",
+      "checks:issue:organization",
+      "checks:print:organization",
+      "checks:manage:organization",
+      "checks:positive_pay:organization",
+      "workflows:read:organization",
+      "workflows:delegate:own",
+      "analytics:read:organization",
+    ],
+  },
+  user: {
+    name: "Staff",
+    description: "Creates and views the organization's day-to-day records",
+    permissions: [
+      "budgets:*:organization",
+      "vendors:*:organization",
+      "payments:read:organization",
+      "payments:create:organization",
+      "expenses:read:organization",
+      "expenses:create:organization",
+      "transactions:import:organization",
+      "wallets:*:organization",
+      "ach:create:organization",
+      "workflows:delegate:own",
+      "analytics:read:organization",
+    ],
+  },
+};
+
+export const DEFAULT_ROLE_KEY = "user";
+
+// Roles an organization defines on top of the system roles
+export const customRoles = pgTable(
+  "custom_roles",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    key: varchar("key").notNull(),
+    name: varchar("name").notNull(),
+    description: text("description"),
+    permissions: jsonb("permissions").$type<string[]>().notNull(),
+    createdBy: varchar("created_by").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_custom_role_key").on(table.organizationId, table.key)],
+);
+
+const permissionGrant = z.string().regex(permissionGrantPattern, "Use resource:action:scope");
+
+// Insert schemas
+export const insertCustomRoleSchema = createInsertSchema(customRoles, {
+  key: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]{1,39}$/, "Use lowercase letters, digits and underscores")
+    .refine((key) => !(key in SYSTEM_ROLES), "That key belongs to a system role"),
+  name: z.string().min(1),
+  permissions: z.array(permissionGrant).min(1),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateCustomRoleSchema = insertCustomRoleSchema.pick({ name: true, description: true, permissions: true }).partial();
+
+export const assignRoleSchema = z.object({
+  role: z.string().min(1),
+  department: z.string().min(1).nullable().optional(),
+});
+
+// Types
+export type CustomRole = typeof customRoles.$inferSelect;
+export type InsertCustomRole = z.infer<typeof insertCustomRoleSchema>;
@@ -0,0 +1,101 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  decimal,
+  integer,
+  boolean,
+  pgEnum,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// ========== BANK RECONCILIATION ==========
+
+export const bankStatementFormatEnum = pgEnum("bank_statement_format", ["bai2", "ofx", "qfx", "csv"]);
+// exception: auto-match found no unique candidate and the line waits for manual matching
+export const statementLineStatusEnum = pgEnum("statement_line_status", [
+  "unmatched",
+  "matched",
+  "exception",
+  "ignored",
+]);
+export const reconciliationEntityTypeEnum = pgEnum("reconciliation_entity_type", [
+  "payment",
+  "enhanced_transaction",
+]);
+
+// One imported statement file for a bank account
+export const bankStatements = pgTable("bank_statements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  bankAccountId: varchar("bank_account_id").notNull(),
+  format: bankStatementFormatEnum("format").notNull(),
+  fileName: varchar("file_name"),
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end"),
+  openingBalance: decimal("opening_balance", { precision: 15, scale: 2 }),
+  closingBalance: decimal("closing_balance", { precision: 15, scale: 2 }),
+  lineCount: integer("line_count").default(0),
+  importedBy: varchar("imported_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Statement activity; amounts are signed from the account's view (credits positive, debits negative)
+export const bankStatementLines = pgTable(
+  "bank_statement_lines",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    statementId: varchar("statement_id").notNull(),
+    organizationId: varchar("organization_id").notNull(),
+    bankAccountId: varchar("bank_account_id").notNull(),
+    postedDate: timestamp("posted_date").notNull(),
+    amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+    description: text("description"),
+    reference: varchar("reference"), // check number, customer or bank reference
+    bankTransactionId: varchar("bank_transaction_id"), // FITID / BAI2 bank reference, used to skip re-imports
+    typeCode: varchar("type_code"),
+    status: statementLineStatusEnum("status").default("unmatched"),
+    matchedEntityType: reconciliationEntityTypeEnum("matched_entity_type"),
+    matchedEntityId: varchar("matched_entity_id"),
+    matchMethod: varchar("match_method"), // auto, manual
+    matchedBy: varchar("matched_by"),
+    matchedAt: timestamp("matched_at"),
+    exceptionReason: text("exception_reason"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_statement_line_bank_txn").on(table.bankAccountId, table.bankTransactionId),
+  ],
+);
+
+// Auto-match tolerances per bank account
+export const reconciliationSettings = pgTable("reconciliation_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  bankAccountId: varchar("bank_account_id").notNull().unique(),
+  amountTolerance: decimal("amount_tolerance", { precision: 15, scale: 2 }).default("0"),
+  dateToleranceDays: integer("date_tolerance_days").default(3),
+  requireReference: boolean("require_reference").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Insert schemas
+export const insertReconciliationSettingsSchema = createInsertSchema(reconciliationSettings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Types
+export type BankStatement = typeof bankStatements.$inferSelect;
+export type BankStatementFormat = BankStatement["format"];
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+export type ReconciliationEntityType = NonNullable<BankStatementLine["matchedEntityType"]>;
+export type ReconciliationSettings = typeof reconciliationSettings.$inferSelect;
+export type InsertReconciliationSettings = z.infer<typeof insertReconciliationSettingsSchema>;
@@ -0,0 +1,54 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  decimal,
+  integer,
+  boolean,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// ========== PAYMENT ROUTING ==========
+
+export const paymentRails = ["card", "ach", "wire", "instant", "crypto"] as const;
+
+// Per-organization fee schedule and capabilities the router scores each provider against
+export const providerRoutingRules = pgTable(
+  "provider_routing_rules",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull(),
+    provider: varchar("provider").notNull(),
+    rails: text("rails").array().default([]), // empty means every rail the provider implements
+    currencies: text("currencies").array().default([]), // ISO codes; empty means any currency
+    fixedFee: decimal("fixed_fee", { precision: 10, scale: 2 }).default("0"),
+    percentFee: decimal("percent_fee", { precision: 7, scale: 4 }).default("0"), // 2.9 = 2.9% of the amount
+    settlementDays: integer("settlement_days").default(2),
+    minAmount: decimal("min_amount", { precision: 15, scale: 2 }),
+    maxAmount: decimal("max_amount", { precision: 15, scale: 2 }),
+    priority: integer("priority").default(0), // tie-break between equal scores, higher wins
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_routing_rule_provider").on(table.organizationId, table.provider)],
+);
+
+// Insert schemas
+export const insertProviderRoutingRuleSchema = createInsertSchema(providerRoutingRules, {
+  rails: z.array(z.enum(paymentRails)).optional(),
+  currencies: z.array(z.string().length(3).transform((code) => code.toUpperCase())).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Types
+export type PaymentRail = (typeof paymentRails)[number];
+export type ProviderRoutingRule = typeof providerRoutingRules.$inferSelect;
+export type InsertProviderRoutingRule = z.infer<typeof insertProviderRoutingRuleSchema>;
@@ -33,6 +33,7 @@ export const users = pgTable("users", {
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
   role: varchar("role").notNull().default("user"),
+  department: varchar("department"), // used by department-scoped permissions
   organizationId: varchar("organization_id"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -42,6 +43,7 @@ export const organizations = pgTable("organizations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name").notNull(),
   type: varchar("type").notNull(), // municipality, county, state, federal
+  baseCurrency: varchar("base_currency").default("USD"), // currency the ledger is kept in
   address: text("address"),
   phone: varchar("phone"),
   email: varchar("email"),
@@ -50,7 +52,7 @@ export const organizations = pgTable("organizations", {
 });
 
 export const budgetStatusEnum = pgEnum("budget_status", ["draft", "proposed", "approved", "active", "closed"]);
-export const paymentStatusEnum = pgEnum("payment_status", ["pending", "approved", "processing", "completed", "failed", "cancelled"]);
+export const paymentStatusEnum = pgEnum("payment_status", ["pending", "approved", "processing", "completed", "failed", "cancelled", "returned"]);
 export const paymentTypeEnum = pgEnum("payment_type", ["vendor", "payroll", "expense", "tax", "transfer", "ach", "wire", "instant", "check", "cryptocurrency", "international"]);
 export const expenseStatusEnum = pgEnum("expense_status", ["draft", "submitted", "approved", "rejected", "reimbursed"]);
 export const vendorStatusEnum = pgEnum("vendor_status", ["active", "inactive", "suspended", "pending_approval"]);
@@ -62,6 +64,7 @@ export const budgets = pgTable("budgets", {
   name: varchar("name").notNull(),
   description: text("description"),
   organizationId: varchar("organization_id").notNull(),
+  fundId: varchar("fund_id"), // GASB fund the budget is appropriated in (see fund-schema)
   fiscalYear: integer("fiscal_year").notNull(),
   totalAmount: decimal("total_amount", { precision: 15, scale: 2 }).notNull(),
   allocatedAmount: decimal("allocated_amount", { precision: 15, scale: 2 }).default("0"),
@@ -95,6 +98,7 @@ export const vendors = pgTable("vendors", {
   status: vendorStatusEnum("status").default("pending_approval"),
   organizationId: varchar("organization_id").notNull(),
   totalSpend: decimal("total_spend", { precision: 15, scale: 2 }).default("0"),
+  createdBy: varchar("created_by"), // may not approve or process payments to this vendor
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -102,12 +106,19 @@ export const vendors = pgTable("vendors", {
 export const payments = pgTable("payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  currency: varchar("currency").default("USD"),
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }), // currency -> base currency at booking
+  baseAmount: decimal("base_amount", { precision: 15, scale: 2 }), // amount in the organization's base currency
   description: text("description"),
   type: paymentTypeEnum("type").notNull(),
   status: paymentStatusEnum("status").default("pending"),
   vendorId: varchar("vendor_id"),
   budgetCategoryId: varchar("budget_category_id"),
   organizationId: varchar("organization_id").notNull(),
+  fundId: varchar("fund_id"), // fund charged; defaults to the budget's fund
+  purchaseOrderId: varchar("purchase_order_id"), // liquidates the purchase order's encumbrance
+  contractId: varchar("contract_id"), // liquidates the contract's encumbrance
+  payeeBankAccountId: varchar("payee_bank_account_id"), // receiving account for ACH origination
   dueDate: timestamp("due_date"),
   processedDate: timestamp("processed_date"),
   createdBy: varchar("created_by").notNull(),
@@ -119,6 +130,9 @@ export const payments = pgTable("payments", {
 export const expenses = pgTable("expenses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  currency: varchar("currency").default("USD"),
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }), // currency -> base currency at booking
+  baseAmount: decimal("base_amount", { precision: 15, scale: 2 }), // amount in the organization's base currency
   description: text("description").notNull(),
   status: expenseStatusEnum("status").default("draft"),
   category: varchar("category"),
@@ -137,10 +151,12 @@ export const digitalWallets = pgTable("digital_wallets", {
   name: varchar("name").notNull(),
   type: walletTypeEnum("type").notNull(),
   balance: decimal("balance", { precision: 15, scale: 2 }).default("0"),
+  currency: varchar("currency").default("USD"), // foreign-currency wallets are revalued at month end
   accountNumber: varchar("account_number"),
   routingNumber: varchar("routing_number"),
   isActive: boolean("is_active").default(true),
   organizationId: varchar("organization_id").notNull(),
+  fundId: varchar("fund_id"), // fund that owns the wallet's cash
   externalAccountId: varchar("external_account_id"), // for integration with banking APIs
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -149,6 +165,9 @@ export const digitalWallets = pgTable("digital_wallets", {
 export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  currency: varchar("currency").default("USD"),
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }), // currency -> base currency at booking
+  baseAmount: decimal("base_amount", { precision: 15, scale: 2 }), // amount in the organization's base currency
   type: varchar("type").notNull(), // debit, credit
   description: text("description"),
   walletId: varchar("wallet_id").notNull(),
@@ -159,7 +178,7 @@ export const transactions = pgTable("transactions", {
 });
 
 // Payment Provider and Integration Enums
-export const paymentProviderEnum = pgEnum("payment_provider", ["stripe", "paypal", "square", "unit", "modern_treasury", "saltedge", "plaid", "dwolla", "wise", "circle", "coinbase"]);
+export const paymentProviderEnum = pgEnum("payment_provider", ["stripe", "paypal", "square", "unit", "modern_treasury", "saltedge", "plaid", "dwolla", "wise", "circle", "coinbase", "adyen", "sandbox"]);
 export const integrationTypeEnum = pgEnum("integration_type", ["payment", "banking", "compliance", "audit", "reporting", "government", "citizen_services", "procurement"]);
 export const integrationStatusEnum = pgEnum("integration_status", ["active", "inactive", "pending", "error", "maintenance"]);
 export const cardTypeEnum = pgEnum("card_type", ["debit", "credit", "prepaid", "virtual", "government_purchase"]);
@@ -236,8 +255,12 @@ export const bankAccounts = pgTable("bank_accounts", {
   provider: varchar("provider"), // plaid, unit, etc.
   externalAccountId: varchar("external_account_id"),
   balance: decimal("balance", { precision: 15, scale: 2 }).default("0"),
+  currency: varchar("currency").default("USD"), // foreign-currency accounts are revalued at month end
   lastBalanceUpdate: timestamp("last_balance_update"),
   capabilities: text("capabilities").array().default([]), // ach_in, ach_out, wire, etc.
+  ownerUserId: varchar("owner_user_id"), // employee who enrolled the account for direct deposit
+  achReturnCode: varchar("ach_return_code"), // last R/C code received for this account
+  achFlaggedAt: timestamp("ach_flagged_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -281,6 +304,7 @@ export const auditLogs = pgTable("audit_logs", {
 export const grants = pgTable("grants", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: varchar("organization_id").notNull(),
+  fundId: varchar("fund_id"), // usually a special revenue fund
   grantorName: varchar("grantor_name").notNull(),
   grantName: varchar("grant_name").notNull(),
   grantNumber: varchar("grant_number"),
@@ -780,6 +804,7 @@ export const purchaseRequisitions = pgTable('purchase_requisitions', {
   justification: text('justification'),
   estimatedCost: decimal('estimated_cost', { precision: 10, scale: 2 }),
   budgetId: varchar('budget_id').references(() => budgets.id),
+  budgetCategoryId: varchar('budget_category_id'), // budget line pre-encumbered on approval
   
   // Approval Workflow
   status: varchar('status').notNull().default('draft'), // draft, submitted, approved, rejected, converted
@@ -804,6 +829,7 @@ export const purchaseOrders = pgTable('purchase_orders', {
   poNumber: varchar('po_number').notNull().unique(),
   requisitionId: varchar('requisition_id').references(() => purchaseRequisitions.id),
   vendorId: varchar('vendor_id').notNull().references(() => vendors.id),
+  budgetCategoryId: varchar('budget_category_id'), // budget line encumbered; defaults to the requisition's
   
   // Order Details
   items: jsonb('items').notNull(),
@@ -819,7 +845,7 @@ export const purchaseOrders = pgTable('purchase_orders', {
   expectedDelivery: timestamp('expected_delivery'),
   
   // Status Tracking
-  status: varchar('status').notNull().default('draft'), // draft, sent, acknowledged, partial, fulfilled, cancelled
+  status: varchar('status').notNull().default('draft'), // draft, pending_approval, approved, rejected, sent, acknowledged, partial, fulfilled, cancelled
   sentAt: timestamp('sent_at'),
   acknowledgedAt: timestamp('acknowledged_at'),
   fulfilledAt: timestamp('fulfilled_at'),
@@ -988,6 +1014,7 @@ export const contracts = pgTable('contracts', {
   
   // Value and Terms
   totalValue: decimal('total_value', { precision: 10, scale: 2 }),
+  budgetCategoryId: varchar('budget_category_id'), // budget line encumbered for the contract value
   paymentTerms: text('payment_terms'),
   deliverables: jsonb('deliverables'),
   
@@ -998,7 +1025,7 @@ export const contracts = pgTable('contracts', {
   cancellationNotice: integer('cancellation_notice_days'),
   
   // Status
-  status: varchar('status').notNull().default('draft'), // draft, active, expired, renewed, terminated
+  status: varchar('status').notNull().default('draft'), // draft, pending_approval, approved, rejected, active, expired, renewed, terminated
   signedDate: timestamp('signed_date'),
   signedBy: varchar('signed_by'),
   
@@ -1079,8 +1106,12 @@ export const enhancedTransactions = pgTable("enhanced_transactions", {
   procurementId: varchar("procurement_id"),
   organizationId: varchar("organization_id").notNull(),
   fees: decimal("fees", { precision: 15, scale: 2 }).default("0"),
-  exchangeRate: decimal("exchange_rate", { precision: 10, scale: 6 }),
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }), // currency -> base currency
+  baseAmount: decimal("base_amount", { precision: 15, scale: 2 }), // amount in the organization's base currency
   settlementDate: timestamp("settlement_date"),
+  reconciledAt: timestamp("reconciled_at"), // set when matched to a bank statement line
+  routingReason: text("routing_reason"), // why the payment router picked this provider
+  routingDetails: jsonb("routing_details"), // scored and excluded candidates at decision time
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
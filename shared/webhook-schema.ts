@@ -0,0 +1,44 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  integer,
+  jsonb,
+  pgEnum,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+// ========== PROVIDER WEBHOOKS ==========
+
+export const webhookEventStatusEnum = pgEnum("webhook_event_status", ["received", "processed", "ignored", "failed"]);
+
+// Durable inbox: every verified provider event is stored before it is applied, keyed by the provider's event id
+export const webhookEvents = pgTable(
+  "webhook_events",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    provider: varchar("provider").notNull(),
+    organizationId: varchar("organization_id").notNull(),
+    eventId: varchar("event_id").notNull(),
+    eventType: varchar("event_type").notNull(),
+    status: webhookEventStatusEnum("status").default("received"),
+    payload: jsonb("payload").notNull(), // full request body; replays re-read the event from here
+    headers: jsonb("headers"),
+    attempts: integer("attempts").default(0),
+    lastError: text("last_error"),
+    processedAt: timestamp("processed_at"),
+    receivedAt: timestamp("received_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_webhook_event").on(table.provider, table.organizationId, table.eventId),
+    index("IDX_webhook_event_org_status").on(table.organizationId, table.status),
+  ],
+);
+
+// Types
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type WebhookEventStatus = WebhookEvent["status"];
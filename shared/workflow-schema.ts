@@ -6,8 +6,10 @@ import {
   jsonb,
   pgEnum,
   boolean,
-  integer
+  integer,
+  uniqueIndex
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -72,7 +74,7 @@ export const workflowTypeEnum = pgEnum("workflow_type", [
   "vendor_contract_closure_cancellation",
   "vendor_contract_closure_completion",
   "vendor_contract_closure_closure",
-  
+  "digital_asset_transfer",
 ]);
 
 // Workflows table
@@ -90,8 +92,12 @@ export const workflows = pgTable("workflows", {
   
   // Approval configuration
   requiredApprovals: integer("required_approvals").default(1),
-  currentLevel: integer("current_level").default(1),
+  currentLevel: integer("current_level").default(1), // 1-based stage number when driven by a definition
   maxLevel: integer("max_level").default(3),
+
+  // Definition version the workflow started on; null for workflows routed by workflowRules
+  definitionId: varchar("definition_id"),
+  definitionVersion: integer("definition_version"),
   
   // Timestamps
   createdAt: timestamp("created_at").defaultNow(),
@@ -110,6 +116,7 @@ export const workflowApprovals = pgTable("workflow_approvals", {
   workflowId: varchar("workflow_id").notNull(),
   approverId: varchar("approver_id").notNull(),
   level: integer("level").notNull(),
+  groupId: varchar("group_id"), // parallel approval group within the stage, for definition-driven workflows
   
   action: varchar("action"), // approve, reject, request_info
   comments: text("comments"),
@@ -118,6 +125,7 @@ export const workflowApprovals = pgTable("workflow_approvals", {
   // Delegation
   delegatedTo: varchar("delegated_to"),
   delegatedAt: timestamp("delegated_at"),
+  actedBy: varchar("acted_by"), // who recorded the action: the approver, or their delegate
   
   createdAt: timestamp("created_at").defaultNow()
 });
@@ -144,6 +152,102 @@ export const workflowRules = pgTable("workflow_rules", {
   updatedAt: timestamp("updated_at").defaultNow()
 });
 
+// Workflow definitions: versioned stage/branch routing built in the designer. Saving creates a new
+// version; workflows keep the version they started on.
+export const workflowDefinitions = pgTable("workflow_definitions", {
+  id: varchar("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull(),
+  type: workflowTypeEnum("type").notNull(),
+  version: integer("version").notNull(),
+  name: varchar("name").notNull(),
+  description: text("description"),
+
+  stages: jsonb("stages").$type<WorkflowStage[]>().notNull(),
+  autoApproveBelow: integer("auto_approve_below"),
+
+  isActive: boolean("is_active").default(false), // the version new workflows start on
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  publishedAt: timestamp("published_at")
+}, (table) => [
+  uniqueIndex("UQ_workflow_definition_version").on(table.organizationId, table.type, table.version)
+]);
+
+// Approval delegations: while a rule is in effect, the delegator's approvals route to the delegate.
+// A rule with dates is an out-of-office window; a rule without dates applies whenever the delegator
+// is on approved leave.
+export const approvalDelegations = pgTable("approval_delegations", {
+  id: varchar("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull(),
+  delegatorId: varchar("delegator_id").notNull(),
+  delegateId: varchar("delegate_id").notNull(),
+
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  workflowTypes: jsonb("workflow_types").$type<string[]>(), // null covers every type
+  maxAmount: integer("max_amount"), // approvals above this stay with the delegator
+  reason: text("reason"),
+
+  isActive: boolean("is_active").default(true),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  revokedAt: timestamp("revoked_at")
+});
+
+// SLA policies: business hours each approval stage of a workflow type may take, and the tiers
+// escalated to as it ages. A policy without a priority covers every priority of its type.
+export const workflowSlaPolicies = pgTable("workflow_sla_policies", {
+  id: varchar("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull(),
+  type: workflowTypeEnum("type").notNull(),
+  priority: varchar("priority"),
+
+  targetHours: integer("target_hours").notNull(),
+  escalationTiers: jsonb("escalation_tiers").$type<SlaEscalationTier[]>().notNull(),
+
+  // Office hours the stage ages in
+  businessHoursStart: integer("business_hours_start").default(9).notNull(),
+  businessHoursEnd: integer("business_hours_end").default(17).notNull(),
+  timeZone: varchar("time_zone").default("America/New_York").notNull(),
+
+  isActive: boolean("is_active").default(true),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => [
+  // Nulls are distinct in a plain unique index, so the any-priority policy is keyed as ''
+  uniqueIndex("UQ_workflow_sla_policy").on(table.organizationId, table.type, sql`coalesce(${table.priority}, '')`)
+]);
+
+// Escalation tiers already sent for a workflow stage, so each tier fires once
+export const workflowEscalations = pgTable("workflow_escalations", {
+  id: varchar("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull(),
+  workflowId: varchar("workflow_id").notNull(),
+  level: integer("level").notNull(),
+  tier: integer("tier").notNull(), // 1-based position in the policy's escalationTiers
+  ageHours: integer("age_hours").notNull(), // business hours the stage had been waiting
+  recipients: jsonb("recipients").$type<string[]>().notNull(),
+  escalatedAt: timestamp("escalated_at").defaultNow()
+}, (table) => [
+  uniqueIndex("UQ_workflow_escalation_tier").on(table.workflowId, table.level, table.tier)
+]);
+
+// One-time approve/reject links sent in notifications. The token itself is signed and carries
+// the row id; the row makes it single-use.
+export const workflowActionTokens = pgTable("workflow_action_tokens", {
+  id: varchar("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull(),
+  workflowId: varchar("workflow_id").notNull(),
+  recipientId: varchar("recipient_id").notNull(), // approver or delegate the link was sent to
+  level: integer("level").notNull(), // stage the link decides; stale once the workflow moves on
+
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedAction: varchar("used_action"),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
 // Workflow notifications table  
 export const workflowNotifications = pgTable("workflow_notifications", {
   id: varchar("id").primaryKey(),
@@ -203,6 +307,52 @@ export const twoFactorSessions = pgTable("two_factor_sessions", {
   createdAt: timestamp("created_at").defaultNow()
 });
 
+// Definition model: stages run in order; the groups in a stage run in parallel and the stage
+// completes once every group whose condition holds reaches its quorum
+export const workflowConditionOperators = ["eq", "neq", "gt", "gte", "lt", "lte", "in", "contains", "exists"] as const;
+
+export type WorkflowCondition =
+  | { field: string; operator: (typeof workflowConditionOperators)[number]; value?: unknown }
+  | { all: WorkflowCondition[] }
+  | { any: WorkflowCondition[] };
+
+export const workflowConditionSchema: z.ZodType<WorkflowCondition> = z.lazy(() =>
+  z.union([
+    z.object({
+      field: z.string().min(1),
+      operator: z.enum(workflowConditionOperators),
+      value: z.unknown().optional()
+    }),
+    z.object({ all: z.array(workflowConditionSchema).min(1) }),
+    z.object({ any: z.array(workflowConditionSchema).min(1) })
+  ])
+);
+
+export const workflowGroupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  approvers: z.array(z.string().min(1)).min(1),
+  quorum: z.enum(["any", "all"]).default("all"),
+  condition: workflowConditionSchema.optional()
+});
+
+export const workflowStageSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  condition: workflowConditionSchema.optional(),
+  groups: z.array(workflowGroupSchema).min(1)
+});
+
+export const slaEscalationTierSchema = z.object({
+  afterHours: z.number().positive(), // business hours the stage has waited
+  recipients: z.array(z.string().min(1)).min(1),
+  remindApprovers: z.boolean().default(true)
+});
+
+export type SlaEscalationTier = z.infer<typeof slaEscalationTierSchema>;
+export type WorkflowGroup = z.infer<typeof workflowGroupSchema>;
+export type WorkflowStage = z.infer<typeof workflowStageSchema>;
+
 // Type exports
 export type Workflow = typeof workflows.$inferSelect;
 export type InsertWorkflow = typeof workflows.$inferInsert;
@@ -210,6 +360,11 @@ export type WorkflowApproval = typeof workflowApprovals.$inferSelect;
 export type InsertWorkflowApproval = typeof workflowApprovals.$inferInsert;
 export type WorkflowRule = typeof workflowRules.$inferSelect;
 export type InsertWorkflowRule = typeof workflowRules.$inferInsert;
+export type WorkflowDefinition = typeof workflowDefinitions.$inferSelect;
+export type ApprovalDelegation = typeof approvalDelegations.$inferSelect;
+export type WorkflowSlaPolicy = typeof workflowSlaPolicies.$inferSelect;
+export type WorkflowEscalation = typeof workflowEscalations.$inferSelect;
+export type WorkflowActionToken = typeof workflowActionTokens.$inferSelect;
 export type WorkflowNotification = typeof workflowNotifications.$inferSelect;
 export type InsertWorkflowNotification = typeof workflowNotifications.$inferInsert;
 export type TwoFactorAuth = typeof twoFactorAuth.$inferSelect;
@@ -223,4 +378,62 @@ export const insertWorkflowApprovalSchema = createInsertSchema(workflowApprovals
 export const insertWorkflowRuleSchema = createInsertSchema(workflowRules);
 export const insertWorkflowNotificationSchema = createInsertSchema(workflowNotifications);
 export const insertTwoFactorAuthSchema = createInsertSchema(twoFactorAuth);
-export const insertTwoFactorSessionSchema = createInsertSchema(twoFactorSessions);
\ No newline at end of file
+export const insertTwoFactorSessionSchema = createInsertSchema(twoFactorSessions);
+
+export const saveWorkflowDefinitionSchema = z.object({
+  type: z.enum(workflowTypeEnum.enumValues),
+  name: z.string().min(1),
+  description: z.string().nullish(),
+  stages: z.array(workflowStageSchema).min(1),
+  autoApproveBelow: z.number().int().positive().nullish(),
+  publish: z.boolean().default(false)
+});
+
+export const saveApprovalDelegationSchema = z.object({
+  delegatorId: z.string().min(1).optional(), // defaults to the caller
+  delegateId: z.string().min(1),
+  startsAt: z.coerce.date().nullish(),
+  endsAt: z.coerce.date().nullish(),
+  workflowTypes: z.array(z.enum(workflowTypeEnum.enumValues)).min(1).nullish(),
+  maxAmount: z.number().int().positive().nullish(),
+  reason: z.string().nullish()
+}).refine((rule) => !rule.startsAt === !rule.endsAt, {
+  message: "An out-of-office window needs both a start and an end",
+  path: ["endsAt"]
+}).refine((rule) => !rule.startsAt || !rule.endsAt || rule.endsAt > rule.startsAt, {
+  message: "The window must end after it starts",
+  path: ["endsAt"]
+});
+
+export const saveWorkflowSlaPolicySchema = z.object({
+  type: z.enum(workflowTypeEnum.enumValues),
+  priority: z.string().min(1).nullish(),
+  targetHours: z.number().int().positive(),
+  escalationTiers: z.array(slaEscalationTierSchema).max(5).default([]),
+  businessHoursStart: z.number().int().min(0).max(23).default(9),
+  businessHoursEnd: z.number().int().min(1).max(24).default(17),
+  timeZone: z.string().default("America/New_York").refine((zone) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: zone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Unknown time zone"),
+  isActive: z.boolean().default(true)
+}).refine((policy) => policy.businessHoursEnd > policy.businessHoursStart, {
+  message: "Office hours must end after they start",
+  path: ["businessHoursEnd"]
+}).refine((policy) => policy.escalationTiers.every((tier, index, tiers) => index === 0 || tier.afterHours > tiers[index - 1].afterHours), {
+  message: "Each escalation tier must come after the one before it",
+  path: ["escalationTiers"]
+});
+
+export const redeemWorkflowActionSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+  comments: z.string().max(2000).optional(),
+  twoFactor: z.object({ code: z.string().min(1), sessionId: z.string().optional() }).optional()
+}).refine((decision) => decision.action === "approve" || !!decision.comments?.trim(), {
+  message: "Give a reason when rejecting",
+  path: ["comments"]
+});